@@ -1,6 +1,7 @@
 import express from 'express';
 import cors    from 'cors';
 import helmet  from 'helmet';
+import { requireAuth } from './middleware/requireAuth';
 
 
 const app = express();
@@ -15,12 +16,17 @@ app.use(
     origin: corsOrigin,
     methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
     allowedHeaders: ['Content-Type', 'Authorization'],
+    // The board export's file name (routes/export.ts)
+    exposedHeaders: ['Content-Disposition'],
     credentials: true,
   })
 );
 
 // ── Body Parsing ──────────────────────────────────────────────────────────────
-app.use(express.json({ limit: '1mb' }));
+// Board imports carry whole export files — routes/import.ts parses those itself
+const IMPORT_PATH = /^\/api\/boards\/[^/]+\/import(\/|$)/;
+const jsonBody    = express.json({ limit: '1mb' });
+app.use((req, res, next) => (IMPORT_PATH.test(req.path) ? next() : jsonBody(req, res, next)));
 app.use(express.urlencoded({ extended: true }));
 
 // ── Health Check ──────────────────────────────────────────────────────────────
@@ -34,8 +40,16 @@ app.get('/health', (_req, res) => {
 });
 
 // ── API Routes ────────────────────────────────────────────────────────────────
-import tasksRouter from './routes/tasks';
-app.use('/api/tasks', tasksRouter);
+import authRouter      from './routes/auth';
+import tasksRouter     from './routes/tasks';
+import boardsRouter    from './routes/boards';
+import templatesRouter from './routes/templates';
+
+// Everything except /api/auth needs a signed-in user
+app.use('/api/auth',      authRouter);
+app.use('/api/tasks',     requireAuth, tasksRouter);
+app.use('/api/boards',    requireAuth, boardsRouter);
+app.use('/api/templates', requireAuth, templatesRouter);
 
 // ── 404 Catch-All ─────────────────────────────────────────────────────────────
 app.use((_req, res) => {
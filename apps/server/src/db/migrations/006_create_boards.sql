@@ -0,0 +1,67 @@
+-- =============================================================================
+-- 006_create_boards.sql
+-- Multiple boards — every task now belongs to exactly one board.
+--
+-- Existing tasks (created before boards existed) are moved into a seeded
+-- "Default Board" so nothing disappears from the UI after the upgrade.
+-- =============================================================================
+
+-- ── Boards table ──────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS boards (
+  id          UUID          PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  name        TEXT          NOT NULL
+                            CHECK (char_length(name) BETWEEN 1 AND 120),
+
+  created_at  TIMESTAMPTZ   NOT NULL DEFAULT NOW(),
+  updated_at  TIMESTAMPTZ   NOT NULL DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS boards_set_updated_at ON boards;
+CREATE TRIGGER boards_set_updated_at
+  BEFORE UPDATE ON boards
+  FOR EACH ROW
+  EXECUTE FUNCTION set_updated_at();
+
+-- ── Seed the default board (fixed id so re-runs are idempotent) ──────────────
+INSERT INTO boards (id, name)
+VALUES ('00000000-0000-4000-8000-000000000001', 'Default Board')
+ON CONFLICT (id) DO NOTHING;
+
+-- ── tasks.board_id ────────────────────────────────────────────────────────────
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS board_id UUID REFERENCES boards (id) ON DELETE CASCADE;
+
+UPDATE tasks
+SET    board_id = '00000000-0000-4000-8000-000000000001'
+WHERE  board_id IS NULL;
+
+ALTER TABLE tasks ALTER COLUMN board_id SET NOT NULL;
+
+-- Primary query pattern is now "all tasks of one board, per column, by order"
+DROP INDEX IF EXISTS tasks_column_order_idx;
+CREATE INDEX IF NOT EXISTS tasks_board_column_order_idx
+  ON tasks (board_id, column_id, "order" ASC);
+
+-- ── RLS — same policy shape as tasks (003) ───────────────────────────────────
+ALTER TABLE boards ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS boards_deny_anon     ON boards;
+DROP POLICY IF EXISTS boards_allow_service ON boards;
+
+CREATE POLICY boards_deny_anon
+  ON boards
+  FOR ALL
+  TO anon
+  USING (false);
+
+CREATE POLICY boards_allow_service
+  ON boards
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ── Comments ──────────────────────────────────────────────────────────────────
+COMMENT ON TABLE  boards        IS 'FlowBoard boards — one per project. Each board is its own Socket.IO room.';
+COMMENT ON COLUMN tasks.board_id IS 'Board the task belongs to.';
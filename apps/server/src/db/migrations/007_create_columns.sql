@@ -0,0 +1,124 @@
+-- =============================================================================
+-- 007_create_columns.sql
+-- User-defined columns — replaces the hardcoded todo / in-progress / done enum.
+--
+-- Each board owns an ordered list of columns (fractional "order", same scheme
+-- as tasks). Columns are never hard-deleted: COLUMN_DELETE archives them so
+-- tasks.column_id keeps a valid foreign key for history and restores.
+--
+-- Upgrade path for existing data:
+--   1. Every board gets the three classic columns seeded.
+--   2. tasks.column_id values 'todo' | 'in-progress' | 'done' are remapped
+--      to the seeded column ids, then the column becomes a UUID foreign key.
+-- =============================================================================
+
+-- ── Columns table ─────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS board_columns (
+  id          UUID          PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  board_id    UUID          NOT NULL REFERENCES boards (id) ON DELETE CASCADE,
+
+  title       TEXT          NOT NULL
+                            CHECK (char_length(title) BETWEEN 1 AND 60),
+
+  -- Accent colour, #RRGGBB
+  color       TEXT          NOT NULL DEFAULT '#64748B'
+                            CHECK (color ~ '^#[0-9A-Fa-f]{6}$'),
+
+  -- Fractional index — left-to-right position on the board
+  "order"     DOUBLE PRECISION NOT NULL,
+
+  -- Marks the column(s) that mean "finished" (strike-through cards, etc.)
+  is_done     BOOLEAN       NOT NULL DEFAULT FALSE,
+
+  version     INTEGER       NOT NULL DEFAULT 1
+                            CHECK (version >= 1),
+
+  -- Soft delete — archived columns are hidden but keep their tasks' FKs valid
+  archived_at TIMESTAMPTZ,
+
+  created_at  TIMESTAMPTZ   NOT NULL DEFAULT NOW(),
+  updated_at  TIMESTAMPTZ   NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS board_columns_board_order_idx
+  ON board_columns (board_id, "order" ASC)
+  WHERE archived_at IS NULL;
+
+DROP TRIGGER IF EXISTS board_columns_set_updated_at ON board_columns;
+CREATE TRIGGER board_columns_set_updated_at
+  BEFORE UPDATE ON board_columns
+  FOR EACH ROW
+  EXECUTE FUNCTION set_updated_at();
+
+-- ── Remap legacy tasks.column_id and turn it into a foreign key ──────────────
+ALTER TABLE tasks DROP CONSTRAINT IF EXISTS tasks_column_id_check;
+
+DO $$
+DECLARE
+  b              RECORD;
+  todo_id        UUID;
+  in_progress_id UUID;
+  done_id        UUID;
+BEGIN
+  -- Only runs once: after the first run column_id is already a UUID
+  IF (SELECT data_type FROM information_schema.columns
+      WHERE table_name = 'tasks' AND column_name = 'column_id') = 'text' THEN
+
+    FOR b IN SELECT id FROM boards LOOP
+      INSERT INTO board_columns (board_id, title, color, "order", is_done)
+      VALUES (b.id, 'To Do', '#64748B', 1000, FALSE)
+      RETURNING id INTO todo_id;
+
+      INSERT INTO board_columns (board_id, title, color, "order", is_done)
+      VALUES (b.id, 'In Progress', '#D97706', 2000, FALSE)
+      RETURNING id INTO in_progress_id;
+
+      INSERT INTO board_columns (board_id, title, color, "order", is_done)
+      VALUES (b.id, 'Done', '#16A34A', 3000, TRUE)
+      RETURNING id INTO done_id;
+
+      UPDATE tasks SET column_id = todo_id::text
+      WHERE board_id = b.id AND column_id = 'todo';
+
+      UPDATE tasks SET column_id = in_progress_id::text
+      WHERE board_id = b.id AND column_id = 'in-progress';
+
+      UPDATE tasks SET column_id = done_id::text
+      WHERE board_id = b.id AND column_id = 'done';
+    END LOOP;
+
+    ALTER TABLE tasks ALTER COLUMN column_id TYPE UUID USING column_id::uuid;
+
+    ALTER TABLE tasks
+      ADD CONSTRAINT tasks_column_id_fkey
+      FOREIGN KEY (column_id) REFERENCES board_columns (id);
+  END IF;
+END;
+$$;
+
+-- ── RLS — same policy shape as tasks (003) ───────────────────────────────────
+ALTER TABLE board_columns ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS board_columns_deny_anon     ON board_columns;
+DROP POLICY IF EXISTS board_columns_allow_service ON board_columns;
+
+CREATE POLICY board_columns_deny_anon
+  ON board_columns
+  FOR ALL
+  TO anon
+  USING (false);
+
+CREATE POLICY board_columns_allow_service
+  ON board_columns
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ── Comments ──────────────────────────────────────────────────────────────────
+COMMENT ON TABLE  board_columns             IS 'User-defined Kanban columns, one ordered set per board.';
+COMMENT ON COLUMN board_columns."order"     IS 'Fractional index for O(1) reordering, left to right.';
+COMMENT ON COLUMN board_columns.is_done     IS 'Tasks in a done column count as finished.';
+COMMENT ON COLUMN board_columns.archived_at IS 'Set by COLUMN_DELETE. Archived columns are hidden from the board.';
+COMMENT ON COLUMN tasks.column_id           IS 'Column (board_columns.id) the task belongs to.';
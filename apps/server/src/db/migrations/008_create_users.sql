@@ -0,0 +1,72 @@
+-- =============================================================================
+-- 008_create_users.sql
+-- Local accounts — replaces the socket-id-as-user-id identity of v1.
+--
+-- Passwords are stored as scrypt hashes (lib/password.ts), never in plain
+-- text. Sessions are stateless HMAC-signed tokens (lib/token.ts), so there
+-- is no sessions table.
+--
+-- Tasks gain creator_id / updated_by_id foreign keys. The existing
+-- creator_name / creator_color / updated_by_* columns stay as server-written
+-- snapshots of the user's profile for cheap rendering.
+-- =============================================================================
+
+-- ── Users table ───────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS users (
+  id            UUID          PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Stored lower-cased (the API normalises before insert / lookup)
+  email         TEXT          NOT NULL UNIQUE
+                              CHECK (email = lower(email)),
+
+  display_name  TEXT          NOT NULL
+                              CHECK (char_length(display_name) BETWEEN 1 AND 60),
+
+  -- scrypt$<salt base64>$<hash base64>
+  password_hash TEXT          NOT NULL,
+
+  -- Accent colour used to attribute the user's tasks, #RRGGBB
+  color         TEXT          NOT NULL DEFAULT '#3B82F6'
+                              CHECK (color ~ '^#[0-9A-Fa-f]{6}$'),
+
+  created_at    TIMESTAMPTZ   NOT NULL DEFAULT NOW(),
+  updated_at    TIMESTAMPTZ   NOT NULL DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS users_set_updated_at ON users;
+CREATE TRIGGER users_set_updated_at
+  BEFORE UPDATE ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION set_updated_at();
+
+-- ── Task attribution ──────────────────────────────────────────────────────────
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS creator_id    UUID REFERENCES users (id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS updated_by_id UUID REFERENCES users (id) ON DELETE SET NULL;
+
+-- ── RLS — same policy shape as tasks (003) ───────────────────────────────────
+ALTER TABLE users ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS users_deny_anon     ON users;
+DROP POLICY IF EXISTS users_allow_service ON users;
+
+CREATE POLICY users_deny_anon
+  ON users
+  FOR ALL
+  TO anon
+  USING (false);
+
+CREATE POLICY users_allow_service
+  ON users
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ── Comments ──────────────────────────────────────────────────────────────────
+COMMENT ON TABLE  users                          IS 'Local user accounts (email + scrypt password hash).';
+COMMENT ON COLUMN tasks.creator_id               IS 'users.id of the task creator — set by the server from the session.';
+COMMENT ON COLUMN tasks.updated_by_id            IS 'users.id of the last user to change the task.';
+COMMENT ON COLUMN tasks.creator_name             IS 'Display name of the creator (server-written snapshot of users.display_name).';
+COMMENT ON COLUMN conflict_audit_log.winner_user_id IS 'users.id of the client whose operation was applied.';
+COMMENT ON COLUMN conflict_audit_log.loser_user_id  IS 'users.id of the client that received CONFLICT_NOTIFY.';
@@ -0,0 +1,66 @@
+-- =============================================================================
+-- 009_create_board_members.sql
+-- Board membership + per-board roles.
+--
+--   viewer — sees the board live, cannot change anything
+--   editor — creates / edits / moves / deletes tasks
+--   admin  — editor + manages columns and members
+--
+-- The permission matrix itself lives in code (lib/permissions.ts); the table
+-- only records who holds which role on which board.
+--
+-- Upgrade path: before this migration every signed-in user could edit every
+-- board, so existing users become admins of existing boards.
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS board_members (
+  board_id    UUID          NOT NULL REFERENCES boards (id) ON DELETE CASCADE,
+  user_id     UUID          NOT NULL REFERENCES users  (id) ON DELETE CASCADE,
+
+  role        TEXT          NOT NULL DEFAULT 'editor'
+                            CHECK (role IN ('viewer', 'editor', 'admin')),
+
+  created_at  TIMESTAMPTZ   NOT NULL DEFAULT NOW(),
+  updated_at  TIMESTAMPTZ   NOT NULL DEFAULT NOW(),
+
+  PRIMARY KEY (board_id, user_id)
+);
+
+-- "Which boards can user X open?" — the board picker query
+CREATE INDEX IF NOT EXISTS board_members_user_idx
+  ON board_members (user_id);
+
+DROP TRIGGER IF EXISTS board_members_set_updated_at ON board_members;
+CREATE TRIGGER board_members_set_updated_at
+  BEFORE UPDATE ON board_members
+  FOR EACH ROW
+  EXECUTE FUNCTION set_updated_at();
+
+-- ── Backfill ──────────────────────────────────────────────────────────────────
+INSERT INTO board_members (board_id, user_id, role)
+SELECT b.id, u.id, 'admin'
+FROM boards b CROSS JOIN users u
+ON CONFLICT (board_id, user_id) DO NOTHING;
+
+-- ── RLS — same policy shape as tasks (003) ───────────────────────────────────
+ALTER TABLE board_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS board_members_deny_anon     ON board_members;
+DROP POLICY IF EXISTS board_members_allow_service ON board_members;
+
+CREATE POLICY board_members_deny_anon
+  ON board_members
+  FOR ALL
+  TO anon
+  USING (false);
+
+CREATE POLICY board_members_allow_service
+  ON board_members
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ── Comments ──────────────────────────────────────────────────────────────────
+COMMENT ON TABLE  board_members      IS 'Who can open which board, and with which role.';
+COMMENT ON COLUMN board_members.role IS 'viewer | editor | admin — see lib/permissions.ts for what each may do.';
@@ -0,0 +1,65 @@
+-- =============================================================================
+-- 010_create_task_events.sql
+-- Per-task change history — one row for every create / update / move / delete.
+--
+-- Append-only, like conflict_audit_log (002): rows are never updated or
+-- deleted. task_id has no foreign key on purpose — a deleted task keeps its
+-- history. Rows are written by the db-flush worker (jobs/dbFlushWorker.ts).
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS task_events (
+  id           UUID          PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Task the event belongs to (no FK — history outlives the task)
+  task_id      UUID          NOT NULL,
+
+  board_id     UUID          NOT NULL REFERENCES boards (id) ON DELETE CASCADE,
+
+  type         TEXT          NOT NULL
+                             CHECK (type IN ('created', 'updated', 'moved', 'deleted')),
+
+  -- Who did it (NULL once the account is deleted)
+  actor_id     UUID          REFERENCES users (id) ON DELETE SET NULL,
+
+  -- Task version after the change (before it, for deletes)
+  version      INTEGER       NOT NULL CHECK (version >= 1),
+
+  -- { "<field>": { "from": <old>, "to": <new> }, ... } — see lib/taskDiff.ts
+  diff         JSONB         NOT NULL DEFAULT '{}'::jsonb,
+
+  occurred_at  TIMESTAMPTZ   NOT NULL DEFAULT NOW()
+);
+
+-- ── Indexes ───────────────────────────────────────────────────────────────────
+
+-- GET /api/tasks/:id/history
+CREATE INDEX IF NOT EXISTS task_events_task_idx
+  ON task_events (task_id, occurred_at DESC);
+
+-- GET /api/boards/:id/activity
+CREATE INDEX IF NOT EXISTS task_events_board_idx
+  ON task_events (board_id, occurred_at DESC);
+
+-- ── RLS — same policy shape as tasks (003) ───────────────────────────────────
+ALTER TABLE task_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS task_events_deny_anon     ON task_events;
+DROP POLICY IF EXISTS task_events_allow_service ON task_events;
+
+CREATE POLICY task_events_deny_anon
+  ON task_events
+  FOR ALL
+  TO anon
+  USING (false);
+
+CREATE POLICY task_events_allow_service
+  ON task_events
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ── Comments ──────────────────────────────────────────────────────────────────
+COMMENT ON TABLE  task_events         IS 'Append-only change history of tasks. Never mutated after insert.';
+COMMENT ON COLUMN task_events.diff    IS 'Changed fields with their before and after values.';
+COMMENT ON COLUMN task_events.version IS 'Task version after the change (the last version for deletes).';
@@ -0,0 +1,27 @@
+-- =============================================================================
+-- 011_add_task_soft_delete.sql
+-- Soft delete for tasks — deleting sets deleted_at instead of removing the row.
+--
+-- Deleted tasks keep their column_id and order so TASK_RESTORE can put them
+-- back where they were. Rows deleted longer ago than TRASH_RETENTION_DAYS
+-- are hard-deleted by the purge job (jobs/dbFlushWorker.ts).
+-- =============================================================================
+
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+-- ── Indexes ───────────────────────────────────────────────────────────────────
+
+-- GET /api/boards/:id/trash, and the purge job's cutoff scan
+CREATE INDEX IF NOT EXISTS tasks_deleted_idx
+  ON tasks (board_id, deleted_at DESC)
+  WHERE deleted_at IS NOT NULL;
+
+-- ── History — restores are recorded too ──────────────────────────────────────
+ALTER TABLE task_events DROP CONSTRAINT IF EXISTS task_events_type_check;
+ALTER TABLE task_events
+  ADD CONSTRAINT task_events_type_check
+  CHECK (type IN ('created', 'updated', 'moved', 'deleted', 'restored'));
+
+-- ── Comments ──────────────────────────────────────────────────────────────────
+COMMENT ON COLUMN tasks.deleted_at IS 'When the task was moved to the trash. NULL for live tasks.';
@@ -0,0 +1,66 @@
+-- =============================================================================
+-- 012_create_task_comments.sql
+-- Discussion thread on a task — COMMENT_CREATE / COMMENT_UPDATE / COMMENT_DELETE.
+--
+-- task_id has no foreign key, like task_events (010): tasks reach Postgres
+-- through the write-behind flush, so a comment on a task created a moment
+-- ago may be inserted before its task row. Comments of purged tasks are
+-- deleted by the purge job (jobs/dbFlushWorker.ts).
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS task_comments (
+  id          UUID          PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Task the comment belongs to (no FK — see above)
+  task_id     UUID          NOT NULL,
+
+  board_id    UUID          NOT NULL REFERENCES boards (id) ON DELETE CASCADE,
+
+  -- Who wrote it (NULL once the account is deleted)
+  author_id   UUID          REFERENCES users (id) ON DELETE SET NULL,
+
+  body        TEXT          NOT NULL
+                            CHECK (char_length(body) BETWEEN 1 AND 5000),
+
+  created_at  TIMESTAMPTZ   NOT NULL DEFAULT NOW(),
+  updated_at  TIMESTAMPTZ   NOT NULL DEFAULT NOW()
+);
+
+-- ── Indexes ───────────────────────────────────────────────────────────────────
+
+-- GET /api/tasks/:id/comments (oldest first)
+CREATE INDEX IF NOT EXISTS task_comments_task_idx
+  ON task_comments (task_id, created_at ASC);
+
+-- Comment counts in BOARD_SNAPSHOT
+CREATE INDEX IF NOT EXISTS task_comments_board_idx
+  ON task_comments (board_id);
+
+DROP TRIGGER IF EXISTS task_comments_set_updated_at ON task_comments;
+CREATE TRIGGER task_comments_set_updated_at
+  BEFORE UPDATE ON task_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION set_updated_at();
+
+-- ── RLS — same policy shape as tasks (003) ───────────────────────────────────
+ALTER TABLE task_comments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS task_comments_deny_anon     ON task_comments;
+DROP POLICY IF EXISTS task_comments_allow_service ON task_comments;
+
+CREATE POLICY task_comments_deny_anon
+  ON task_comments
+  FOR ALL
+  TO anon
+  USING (false);
+
+CREATE POLICY task_comments_allow_service
+  ON task_comments
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ── Comments ──────────────────────────────────────────────────────────────────
+COMMENT ON TABLE  task_comments            IS 'Comment threads on tasks.';
+COMMENT ON COLUMN task_comments.updated_at IS 'Later than created_at once the author has edited the comment.';
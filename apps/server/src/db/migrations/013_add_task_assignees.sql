@@ -0,0 +1,22 @@
+-- =============================================================================
+-- 013_add_task_assignees.sql
+-- Users assigned to a task — set by TASK_CREATE / TASK_UPDATE (assigneeIds).
+--
+-- Stored as an array on the task row rather than a join table: tasks reach
+-- Postgres through the write-behind flush (jobs/dbFlushWorker.ts), which
+-- upserts the whole row in one statement. Array elements can't carry a
+-- foreign key — taskService only accepts members of the task's board, and
+-- clients ignore ids of users who have since left it.
+-- =============================================================================
+
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS assignee_ids UUID[] NOT NULL DEFAULT '{}';
+
+-- ── Indexes ───────────────────────────────────────────────────────────────────
+
+-- "Tasks assigned to me" — assignee_ids @> ARRAY[<user id>]
+CREATE INDEX IF NOT EXISTS tasks_assignees_idx
+  ON tasks USING GIN (assignee_ids);
+
+-- ── Comments ──────────────────────────────────────────────────────────────────
+COMMENT ON COLUMN tasks.assignee_ids IS 'users.id of everyone assigned to the task (members of its board when assigned).';
@@ -0,0 +1,89 @@
+-- =============================================================================
+-- 014_create_labels.sql
+-- Coloured labels ("bug", "frontend", "blocked", …) — LABEL_CREATE /
+-- LABEL_UPDATE / LABEL_DELETE manage a board's catalog, TASK_CREATE /
+-- TASK_UPDATE (labelIds) attach them to tasks.
+--
+-- task_labels is written by the write-behind flush (jobs/dbFlushWorker.ts)
+-- right after the task row it belongs to, so unlike task_events and
+-- task_comments it can reference tasks. Deleting a label (or purging a
+-- task) cascades to its task_labels rows.
+-- =============================================================================
+
+-- ── Label catalog ─────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS board_labels (
+  id          UUID          PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  board_id    UUID          NOT NULL REFERENCES boards (id) ON DELETE CASCADE,
+
+  name        TEXT          NOT NULL
+                            CHECK (char_length(name) BETWEEN 1 AND 40),
+
+  -- Chip colour, #RRGGBB
+  color       TEXT          NOT NULL DEFAULT '#64748B'
+                            CHECK (color ~ '^#[0-9A-Fa-f]{6}$'),
+
+  created_at  TIMESTAMPTZ   NOT NULL DEFAULT NOW(),
+  updated_at  TIMESTAMPTZ   NOT NULL DEFAULT NOW()
+);
+
+-- One "Bug" per board, whatever the casing
+CREATE UNIQUE INDEX IF NOT EXISTS board_labels_board_name_idx
+  ON board_labels (board_id, lower(name));
+
+DROP TRIGGER IF EXISTS board_labels_set_updated_at ON board_labels;
+CREATE TRIGGER board_labels_set_updated_at
+  BEFORE UPDATE ON board_labels
+  FOR EACH ROW
+  EXECUTE FUNCTION set_updated_at();
+
+-- ── Task ↔ label relation ────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS task_labels (
+  task_id     UUID          NOT NULL REFERENCES tasks        (id) ON DELETE CASCADE,
+  label_id    UUID          NOT NULL REFERENCES board_labels (id) ON DELETE CASCADE,
+
+  PRIMARY KEY (task_id, label_id)
+);
+
+-- Cascade from board_labels, and "which tasks carry label X"
+CREATE INDEX IF NOT EXISTS task_labels_label_idx
+  ON task_labels (label_id);
+
+-- ── RLS — same policy shape as tasks (003) ───────────────────────────────────
+ALTER TABLE board_labels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE task_labels  ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS board_labels_deny_anon     ON board_labels;
+DROP POLICY IF EXISTS board_labels_allow_service ON board_labels;
+DROP POLICY IF EXISTS task_labels_deny_anon      ON task_labels;
+DROP POLICY IF EXISTS task_labels_allow_service  ON task_labels;
+
+CREATE POLICY board_labels_deny_anon
+  ON board_labels
+  FOR ALL
+  TO anon
+  USING (false);
+
+CREATE POLICY board_labels_allow_service
+  ON board_labels
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY task_labels_deny_anon
+  ON task_labels
+  FOR ALL
+  TO anon
+  USING (false);
+
+CREATE POLICY task_labels_allow_service
+  ON task_labels
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ── Comments ──────────────────────────────────────────────────────────────────
+COMMENT ON TABLE board_labels IS 'Label catalog of a board — names are unique per board, ignoring case.';
+COMMENT ON TABLE task_labels  IS 'Labels attached to a task. Rewritten from the task''s labelIds on every flush.';
@@ -0,0 +1,29 @@
+-- =============================================================================
+-- 015_add_task_dates.sql
+-- Optional start and due dates for tasks — set by TASK_CREATE / TASK_UPDATE
+-- (startAt, dueAt; null clears them).
+--
+-- Due-soon reminders are not stored: taskService schedules a delayed BullMQ
+-- job per task (jobs/dueReminders.ts), which re-checks the task when it
+-- fires.
+-- =============================================================================
+
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS start_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS due_at   TIMESTAMPTZ;
+
+ALTER TABLE tasks DROP CONSTRAINT IF EXISTS tasks_dates_check;
+ALTER TABLE tasks
+  ADD CONSTRAINT tasks_dates_check
+  CHECK (start_at IS NULL OR due_at IS NULL OR start_at <= due_at);
+
+-- ── Indexes ───────────────────────────────────────────────────────────────────
+
+-- "What is due next on this board"
+CREATE INDEX IF NOT EXISTS tasks_due_idx
+  ON tasks (board_id, due_at)
+  WHERE due_at IS NOT NULL AND deleted_at IS NULL;
+
+-- ── Comments ──────────────────────────────────────────────────────────────────
+COMMENT ON COLUMN tasks.start_at IS 'When work on the task is planned to start. NULL if unset.';
+COMMENT ON COLUMN tasks.due_at   IS 'When the task is due. NULL if unset.';
@@ -0,0 +1,23 @@
+-- =============================================================================
+-- 016_add_task_priority_estimate.sql
+-- Sprint-planning fields — set by TASK_CREATE / TASK_UPDATE (priority,
+-- estimate; a null estimate clears it).
+-- =============================================================================
+
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS priority TEXT NOT NULL DEFAULT 'none',
+ADD COLUMN IF NOT EXISTS estimate NUMERIC(5, 1);
+
+ALTER TABLE tasks DROP CONSTRAINT IF EXISTS tasks_priority_check;
+ALTER TABLE tasks
+  ADD CONSTRAINT tasks_priority_check
+  CHECK (priority IN ('urgent', 'high', 'medium', 'low', 'none'));
+
+ALTER TABLE tasks DROP CONSTRAINT IF EXISTS tasks_estimate_check;
+ALTER TABLE tasks
+  ADD CONSTRAINT tasks_estimate_check
+  CHECK (estimate IS NULL OR (estimate >= 0 AND estimate <= 999));
+
+-- ── Comments ──────────────────────────────────────────────────────────────────
+COMMENT ON COLUMN tasks.priority IS 'urgent | high | medium | low | none.';
+COMMENT ON COLUMN tasks.estimate IS 'Story points, one decimal. NULL if not estimated.';
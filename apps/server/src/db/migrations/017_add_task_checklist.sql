@@ -0,0 +1,20 @@
+-- =============================================================================
+-- 017_add_task_checklist.sql
+-- Checklist items of a task — CHECKLIST_ITEM_ADD / _UPDATE / _MOVE / _DELETE.
+--
+-- Stored as a JSON array on the task row, like assignee_ids (013): items
+-- only ever change together with their task's version, and reach Postgres
+-- through the task's write-behind upsert (jobs/dbFlushWorker.ts).
+-- Each element is { id, text, done, order } — see lib/checklist.ts.
+-- =============================================================================
+
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS checklist JSONB NOT NULL DEFAULT '[]';
+
+ALTER TABLE tasks DROP CONSTRAINT IF EXISTS tasks_checklist_check;
+ALTER TABLE tasks
+  ADD CONSTRAINT tasks_checklist_check
+  CHECK (jsonb_typeof(checklist) = 'array');
+
+-- ── Comments ──────────────────────────────────────────────────────────────────
+COMMENT ON COLUMN tasks.checklist IS 'Checklist items [{ id, text, done, order }], sorted by order.';
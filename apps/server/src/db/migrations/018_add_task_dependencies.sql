@@ -0,0 +1,24 @@
+-- =============================================================================
+-- 018_add_task_dependencies.sql
+-- "Blocks" links between tasks of a board — set by TASK_CREATE / TASK_UPDATE
+-- (blockedByIds): every id in a task's blocked_by_ids is a task that has to
+-- be done first.
+--
+-- Stored as an array on the blocked task, like assignee_ids (013): a blocker
+-- may still be waiting for its own write-behind flush, so a join table with
+-- foreign keys to tasks could reject the row. taskService only links live
+-- tasks of the same board, refuses links that would form a cycle
+-- (lib/dependencies.ts) and strips a task from every list when it is deleted.
+-- =============================================================================
+
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS blocked_by_ids UUID[] NOT NULL DEFAULT '{}';
+
+-- ── Indexes ───────────────────────────────────────────────────────────────────
+
+-- "Which tasks does X block" — blocked_by_ids @> ARRAY[<task id>]
+CREATE INDEX IF NOT EXISTS tasks_blocked_by_idx
+  ON tasks USING GIN (blocked_by_ids);
+
+-- ── Comments ──────────────────────────────────────────────────────────────────
+COMMENT ON COLUMN tasks.blocked_by_ids IS 'tasks.id of the tasks of the same board that block this one.';
@@ -0,0 +1,25 @@
+-- =============================================================================
+-- 019_add_task_search.sql
+-- Full-text search over task titles and descriptions — GET /api/tasks/search
+-- (services/searchService.ts) matches free text with
+-- websearch_to_tsquery('simple', …) against search_vector.
+--
+-- The `simple` configuration lower-cases words without stemming, so the
+-- server can highlight exactly the words that matched (lib/searchQuery.ts).
+-- Title words weigh more than description words.
+-- =============================================================================
+
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(description, '')), 'B')
+  ) STORED;
+
+-- ── Indexes ───────────────────────────────────────────────────────────────────
+
+CREATE INDEX IF NOT EXISTS tasks_search_idx
+  ON tasks USING GIN (search_vector);
+
+-- ── Comments ──────────────────────────────────────────────────────────────────
+COMMENT ON COLUMN tasks.search_vector IS 'Title (weight A) and description (weight B) for full-text search. Generated.';
@@ -0,0 +1,72 @@
+-- =============================================================================
+-- 020_create_board_views.sql
+-- Saved views — a named search (lib/searchQuery.ts language), a card sort
+-- and a swimlane grouping, saved per user and board
+-- (GET / POST / PATCH / DELETE /api/boards/:boardId/views).
+--
+-- A view is private to its owner unless `shared`, in which case every
+-- member of the board can apply it. Only the owner changes or deletes it.
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS board_views (
+  id              UUID          PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  board_id        UUID          NOT NULL REFERENCES boards (id) ON DELETE CASCADE,
+
+  owner_id        UUID          NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+
+  name            TEXT          NOT NULL
+                                CHECK (char_length(name) BETWEEN 1 AND 60),
+
+  -- Search query, e.g. 'column:todo updated:<7d' ('' = every task)
+  query           TEXT          NOT NULL DEFAULT ''
+                                CHECK (char_length(query) <= 500),
+
+  sort_field      TEXT          NOT NULL DEFAULT 'position'
+                                CHECK (sort_field IN ('position', 'updated', 'created', 'due', 'priority', 'title')),
+
+  sort_direction  TEXT          NOT NULL DEFAULT 'asc'
+                                CHECK (sort_direction IN ('asc', 'desc')),
+
+  -- Swimlanes — 'none' shows plain columns
+  group_by        TEXT          NOT NULL DEFAULT 'none'
+                                CHECK (group_by IN ('none', 'assignee', 'label', 'priority', 'creator', 'updater')),
+
+  shared          BOOLEAN       NOT NULL DEFAULT false,
+
+  created_at      TIMESTAMPTZ   NOT NULL DEFAULT NOW(),
+  updated_at      TIMESTAMPTZ   NOT NULL DEFAULT NOW()
+);
+
+-- One "Created by me" per owner and board, whatever the casing
+CREATE UNIQUE INDEX IF NOT EXISTS board_views_owner_name_idx
+  ON board_views (board_id, owner_id, lower(name));
+
+DROP TRIGGER IF EXISTS board_views_set_updated_at ON board_views;
+CREATE TRIGGER board_views_set_updated_at
+  BEFORE UPDATE ON board_views
+  FOR EACH ROW
+  EXECUTE FUNCTION set_updated_at();
+
+-- ── RLS — same policy shape as tasks (003) ───────────────────────────────────
+ALTER TABLE board_views ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS board_views_deny_anon     ON board_views;
+DROP POLICY IF EXISTS board_views_allow_service ON board_views;
+
+CREATE POLICY board_views_deny_anon
+  ON board_views
+  FOR ALL
+  TO anon
+  USING (false);
+
+CREATE POLICY board_views_allow_service
+  ON board_views
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ── Comments ──────────────────────────────────────────────────────────────────
+COMMENT ON TABLE  board_views        IS 'Saved board views (search, sort, swimlanes) — private to their owner unless shared.';
+COMMENT ON COLUMN board_views.query  IS 'Board search query (lib/searchQuery.ts), checked when the view is saved.';
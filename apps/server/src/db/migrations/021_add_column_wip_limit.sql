@@ -0,0 +1,19 @@
+-- =============================================================================
+-- 021_add_column_wip_limit.sql
+-- Work-in-progress limits — the most tasks a column may hold. NULL means no
+-- limit. Set by COLUMN_CREATE / COLUMN_UPDATE (wipLimit; null clears it).
+--
+-- Enforced by taskService, not here: a limit may be set below the column's
+-- current count, and admins (wip:override) may go past it.
+-- =============================================================================
+
+ALTER TABLE board_columns
+ADD COLUMN IF NOT EXISTS wip_limit INTEGER;
+
+ALTER TABLE board_columns DROP CONSTRAINT IF EXISTS board_columns_wip_limit_check;
+ALTER TABLE board_columns
+  ADD CONSTRAINT board_columns_wip_limit_check
+  CHECK (wip_limit IS NULL OR (wip_limit >= 1 AND wip_limit <= 999));
+
+-- ── Comments ──────────────────────────────────────────────────────────────────
+COMMENT ON COLUMN board_columns.wip_limit IS 'Most live tasks the column may hold. NULL if unlimited.';
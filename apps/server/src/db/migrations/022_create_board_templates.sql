@@ -0,0 +1,65 @@
+-- =============================================================================
+-- 022_create_board_templates.sql
+-- Board templates — a board's columns, labels and starter cards, saved by a
+-- user to start new boards from (POST /api/boards/:boardId/templates,
+-- GET / DELETE /api/templates, POST /api/boards { templateId }).
+--
+-- `content` is a lib/boardCopy.ts BoardContent: people, dates and checklist
+-- progress are left out, and its ids only link cards to columns and labels
+-- inside the template — every board made from it gets new ones.
+--
+-- A template is private to its owner unless `shared`, in which case every
+-- user can start a board from it. Only the owner deletes it.
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS board_templates (
+  id              UUID          PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  owner_id        UUID          NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+
+  name            TEXT          NOT NULL
+                                CHECK (char_length(name) BETWEEN 1 AND 120),
+
+  description     TEXT          NOT NULL DEFAULT ''
+                                CHECK (char_length(description) <= 500),
+
+  content         JSONB         NOT NULL,
+
+  shared          BOOLEAN       NOT NULL DEFAULT false,
+
+  created_at      TIMESTAMPTZ   NOT NULL DEFAULT NOW(),
+  updated_at      TIMESTAMPTZ   NOT NULL DEFAULT NOW()
+);
+
+-- One "Sprint board" per owner, whatever the casing
+CREATE UNIQUE INDEX IF NOT EXISTS board_templates_owner_name_idx
+  ON board_templates (owner_id, lower(name));
+
+DROP TRIGGER IF EXISTS board_templates_set_updated_at ON board_templates;
+CREATE TRIGGER board_templates_set_updated_at
+  BEFORE UPDATE ON board_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION set_updated_at();
+
+-- ── RLS — same policy shape as tasks (003) ───────────────────────────────────
+ALTER TABLE board_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS board_templates_deny_anon     ON board_templates;
+DROP POLICY IF EXISTS board_templates_allow_service ON board_templates;
+
+CREATE POLICY board_templates_deny_anon
+  ON board_templates
+  FOR ALL
+  TO anon
+  USING (false);
+
+CREATE POLICY board_templates_allow_service
+  ON board_templates
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ── Comments ──────────────────────────────────────────────────────────────────
+COMMENT ON TABLE  board_templates         IS 'Saved board templates (columns, labels, starter cards) — private to their owner unless shared.';
+COMMENT ON COLUMN board_templates.content IS 'lib/boardCopy.ts BoardContent; ids are re-generated for every board made from it.';
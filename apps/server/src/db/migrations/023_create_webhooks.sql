@@ -0,0 +1,122 @@
+-- =============================================================================
+-- 023_create_webhooks.sql
+-- Outgoing webhooks — per-board subscriptions to task events
+-- (/api/boards/:boardId/webhooks), and the log of every delivery made.
+--
+-- Deliveries run on the webhook-delivery BullMQ queue (jobs/webhookWorker.ts)
+-- with exponential backoff. A delivery that used up its attempts, or that the
+-- receiver refused outright (4xx), ends up `dead` — the board's dead-letter
+-- list, from which an admin can send it again.
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS board_webhooks (
+  id              UUID          PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  board_id        UUID          NOT NULL REFERENCES boards (id) ON DELETE CASCADE,
+
+  url             TEXT          NOT NULL
+                                CHECK (url ~ '^https?://' AND char_length(url) <= 2000),
+
+  -- validation/webhookSchema.ts WebhookEventSchema, e.g. {TASK_MOVED,TASK_COMPLETED}
+  events          TEXT[]        NOT NULL
+                                CHECK (cardinality(events) >= 1),
+
+  -- HMAC-SHA256 key for X-Flowboard-Signature; never returned after creation
+  secret          TEXT          NOT NULL,
+
+  active          BOOLEAN       NOT NULL DEFAULT true,
+
+  created_by      UUID          REFERENCES users (id) ON DELETE SET NULL,
+
+  created_at      TIMESTAMPTZ   NOT NULL DEFAULT NOW(),
+  updated_at      TIMESTAMPTZ   NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS board_webhooks_board_idx
+  ON board_webhooks (board_id);
+
+DROP TRIGGER IF EXISTS board_webhooks_set_updated_at ON board_webhooks;
+CREATE TRIGGER board_webhooks_set_updated_at
+  BEFORE UPDATE ON board_webhooks
+  FOR EACH ROW
+  EXECUTE FUNCTION set_updated_at();
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id               UUID          PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  webhook_id       UUID          NOT NULL REFERENCES board_webhooks (id) ON DELETE CASCADE,
+
+  board_id         UUID          NOT NULL REFERENCES boards (id) ON DELETE CASCADE,
+
+  event            TEXT          NOT NULL,
+
+  -- The lib/webhooks.ts WebhookEnvelope, exactly as sent
+  payload          JSONB         NOT NULL,
+
+  status           TEXT          NOT NULL DEFAULT 'pending'
+                                 CHECK (status IN ('pending', 'retrying', 'delivered', 'dead')),
+
+  attempts         INTEGER       NOT NULL DEFAULT 0,
+
+  -- Outcome of the latest attempt
+  response_status  INTEGER,
+  error            TEXT,
+
+  created_at       TIMESTAMPTZ   NOT NULL DEFAULT NOW(),
+  updated_at       TIMESTAMPTZ   NOT NULL DEFAULT NOW(),
+  delivered_at     TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS webhook_deliveries_webhook_idx
+  ON webhook_deliveries (webhook_id, created_at DESC);
+
+-- The dead-letter list of a board
+CREATE INDEX IF NOT EXISTS webhook_deliveries_dead_idx
+  ON webhook_deliveries (board_id, created_at DESC)
+  WHERE status = 'dead';
+
+DROP TRIGGER IF EXISTS webhook_deliveries_set_updated_at ON webhook_deliveries;
+CREATE TRIGGER webhook_deliveries_set_updated_at
+  BEFORE UPDATE ON webhook_deliveries
+  FOR EACH ROW
+  EXECUTE FUNCTION set_updated_at();
+
+-- ── RLS — same policy shape as tasks (003) ───────────────────────────────────
+ALTER TABLE board_webhooks     ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS board_webhooks_deny_anon         ON board_webhooks;
+DROP POLICY IF EXISTS board_webhooks_allow_service     ON board_webhooks;
+DROP POLICY IF EXISTS webhook_deliveries_deny_anon     ON webhook_deliveries;
+DROP POLICY IF EXISTS webhook_deliveries_allow_service ON webhook_deliveries;
+
+CREATE POLICY board_webhooks_deny_anon
+  ON board_webhooks
+  FOR ALL
+  TO anon
+  USING (false);
+
+CREATE POLICY board_webhooks_allow_service
+  ON board_webhooks
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY webhook_deliveries_deny_anon
+  ON webhook_deliveries
+  FOR ALL
+  TO anon
+  USING (false);
+
+CREATE POLICY webhook_deliveries_allow_service
+  ON webhook_deliveries
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ── Comments ──────────────────────────────────────────────────────────────────
+COMMENT ON TABLE  board_webhooks            IS 'Outgoing webhook subscriptions of a board (task events, HMAC-signed).';
+COMMENT ON COLUMN board_webhooks.secret     IS 'HMAC-SHA256 key of X-Flowboard-Signature. Shown once, when created or rotated.';
+COMMENT ON TABLE  webhook_deliveries        IS 'Delivery log of board_webhooks; status dead = the dead-letter list.';
@@ -17,14 +17,18 @@
  *   ioredis versions understand.
  *
  * Job types:
- *   upsert   — INSERT or UPDATE a task row (most common)
- *   delete   — DELETE a task row
+ *   upsert   — INSERT or UPDATE a task row and its task_labels (most common;
+ *              deletes are soft)
+ *   purge    — Hard-delete tasks (and their comments) trashed longer than
+ *              TRASH_RETENTION_DAYS (repeatable, see scheduleTrashPurge)
  *   rebalance — Reassign order values for a column (rare)
+ *   event     — Append one row to the task_events history (never deduplicated)
  */
 import { Queue, Worker, type Job } from 'bullmq';
 import { supabase } from '../db/client';
 import { rebalancedOrders } from '../lib/fractionalIndex';
 import type { Task, ColumnId } from '../services/taskService';
+import type { TaskEvent } from '../services/historyService';
 
 // ── Job Payloads ──────────────────────────────────────────────────────────────
 
@@ -33,21 +37,27 @@ export interface UpsertJob {
   task:      Task;
 }
 
-export interface DeleteJob {
-  operation: 'delete';
-  taskId:    string;
+export interface PurgeJob {
+  operation: 'purge';
 }
 
 export interface RebalanceJob {
   operation: 'rebalance';
+  boardId:   string;
   columnId:  ColumnId;
 }
 
-export type FlushJobPayload = UpsertJob | DeleteJob | RebalanceJob;
+export interface EventJob {
+  operation: 'event';
+  event:     TaskEvent;
+}
+
+export type FlushJobPayload = UpsertJob | PurgeJob | RebalanceJob | EventJob;
 
 // ── Redis connection config (plain object — avoids ioredis version mismatch) ──
 
-function buildBullMQConnection() {
+/** Also used by the reminder queue (jobs/dueReminders.ts). */
+export function buildBullMQConnection() {
   const rawUrl = process.env.REDIS_URL ?? '';
   const token  = process.env.REDIS_TOKEN ?? '';
 
@@ -89,6 +99,17 @@ function buildBullMQConnection() {
 const QUEUE_NAME  = 'db-flush';
 const FLUSH_DELAY = 500; // ms — matches CONTEXT.md spec
 
+const PURGE_SCHEDULER_ID = 'trash-purge';
+const PURGE_EVERY_MS     = 60 * 60 * 1000; // hourly
+
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/** Days a deleted task stays restorable before the purge job removes it. */
+function trashRetentionDays(): number {
+  const days = Number(process.env.TRASH_RETENTION_DAYS);
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
 let _queue: Queue | null = null;
 
 function getQueue(): Queue {
@@ -109,19 +130,27 @@ function getQueue(): Queue {
  * Enqueue a database flush job.
  *
  * Deterministic jobId deduplicates rapid-fire events:
- *   upsert/delete → `task:<taskId>`
- *   rebalance     → `rebalance:<columnId>`
+ *   upsert    → `task:<taskId>`
+ *   rebalance → `rebalance:<boardId>:<columnId>`
+ *   event     → `event:<eventId>` (unique — every event is kept)
+ * Purge jobs are only created by scheduleTrashPurge.
+ *
+ * Re-enqueueing a pending jobId restarts its `delay`, so a job only runs
+ * once its key has been quiet that long.
  */
-export async function enqueueDatabaseFlush(payload: FlushJobPayload): Promise<void> {
+export async function enqueueDatabaseFlush(
+  payload: Exclude<FlushJobPayload, PurgeJob>,
+  delay:   number = FLUSH_DELAY,
+): Promise<void> {
   const queue = getQueue();
 
   let jobId: string;
   if (payload.operation === 'upsert') {
     jobId = `task_${payload.task.id}`;
-  } else if (payload.operation === 'delete') {
-    jobId = `task_${payload.taskId}`;
+  } else if (payload.operation === 'rebalance') {
+    jobId = `rebalance_${payload.boardId}_${payload.columnId}`;
   } else {
-    jobId = `rebalance_${payload.columnId}`;
+    jobId = `event_${payload.event.id}`;
   }
 
   // Remove existing job to ensure the latest operation wins (debounce)
@@ -136,10 +165,23 @@ export async function enqueueDatabaseFlush(payload: FlushJobPayload): Promise<vo
 
   await queue.add(payload.operation, payload, {
     jobId,
-    delay: FLUSH_DELAY,
+    delay,
   });
 }
 
+/**
+ * Register the repeatable trash purge job. Idempotent — BullMQ keeps one
+ * scheduler per id, so every server instance can call this on boot.
+ */
+export async function scheduleTrashPurge(): Promise<void> {
+  await getQueue().upsertJobScheduler(
+    PURGE_SCHEDULER_ID,
+    { every: PURGE_EVERY_MS },
+    { name: 'purge', data: { operation: 'purge' } satisfies PurgeJob },
+  );
+  console.log(`[BullMQ] Trash purge scheduled (retention ${trashRetentionDays()} days)`);
+}
+
 // ── Worker ────────────────────────────────────────────────────────────────────
 
 let _worker: Worker | null = null;
@@ -160,11 +202,14 @@ export function startDbFlushWorker(): Worker {
         case 'upsert':
           await handleUpsert(payload.task);
           break;
-        case 'delete':
-          await handleDelete(payload.taskId);
+        case 'purge':
+          await handlePurge();
           break;
         case 'rebalance':
-          await handleRebalance(payload.columnId);
+          await handleRebalance(payload.boardId, payload.columnId);
+          break;
+        case 'event':
+          await handleEvent(payload.event);
           break;
       }
     },
@@ -191,17 +236,28 @@ async function handleUpsert(task: Task): Promise<void> {
   const { error } = await supabase.from('tasks').upsert(
     {
       id:          task.id,
+      board_id:    task.boardId,
       column_id:   task.columnId,
       title:       task.title,
       description: task.description,
       order:       task.order,
+      assignee_ids: task.assigneeIds,
+      blocked_by_ids: task.blockedByIds,
+      start_at:    task.startAt ?? null,
+      due_at:      task.dueAt ?? null,
+      priority:    task.priority,
+      estimate:    task.estimate ?? null,
+      checklist:   task.checklist,
       version:     task.version,
       created_at:  task.createdAt,
       updated_at:  task.updatedAt,
+      creator_id:  task.creatorId ?? null,
       creator_name: task.creatorName,
       creator_color: task.creatorColor,
+      updated_by_id: task.updatedById ?? null,
       updated_by_name: task.updatedByName,
       updated_by_color: task.updatedByColor,
+      deleted_at:  task.deletedAt ?? null,
     },
     { onConflict: 'id' },
   );
@@ -209,25 +265,100 @@ async function handleUpsert(task: Task): Promise<void> {
   if (error) {
     throw new Error(`[BullMQ] Upsert failed for task ${task.id}: ${error.message}`);
   }
+
+  await syncTaskLabels(task);
+}
+
+/**
+ * Rewrite the task's task_labels rows to match `task.labelIds`. Ids of
+ * labels deleted since the task was cached are skipped — their rows are
+ * already gone (FK cascade) and re-inserting them would fail.
+ */
+async function syncTaskLabels(task: Task): Promise<void> {
+  let labelIds: string[] = [];
+  if (task.labelIds.length > 0) {
+    const { data, error } = await supabase
+      .from('board_labels')
+      .select('id')
+      .in('id', task.labelIds);
+    if (error) throw new Error(`[BullMQ] Label lookup failed for task ${task.id}: ${error.message}`);
+    labelIds = (data ?? []).map((row: { id: string }) => row.id);
+  }
+
+  let stale = supabase.from('task_labels').delete().eq('task_id', task.id);
+  if (labelIds.length > 0) stale = stale.not('label_id', 'in', `(${labelIds.join(',')})`);
+  const { error: deleteError } = await stale;
+  if (deleteError) throw new Error(`[BullMQ] Label sync failed for task ${task.id}: ${deleteError.message}`);
+
+  if (labelIds.length === 0) return;
+  const { error: insertError } = await supabase
+    .from('task_labels')
+    .upsert(labelIds.map((labelId) => ({ task_id: task.id, label_id: labelId })), { ignoreDuplicates: true });
+  if (insertError) throw new Error(`[BullMQ] Label sync failed for task ${task.id}: ${insertError.message}`);
 }
 
-async function handleDelete(taskId: string): Promise<void> {
-  const { error } = await supabase.from('tasks').delete().eq('id', taskId);
+/**
+ * Hard-delete every task that has been in the trash longer than the
+ * retention period, then evict them from Redis. Their task_events history
+ * is kept.
+ */
+async function handlePurge(): Promise<void> {
+  const cutoff = new Date(Date.now() - trashRetentionDays() * 24 * 60 * 60 * 1000).toISOString();
+
+  const { data, error } = await supabase
+    .from('tasks')
+    .delete()
+    .lt('deleted_at', cutoff)
+    .select('id, board_id');
+
+  if (error) {
+    throw new Error(`[BullMQ] Trash purge failed: ${error.message}`);
+  }
+  if (!data || data.length === 0) return;
+
+  const purged = (data as Array<{ id: string; board_id: string }>).map((row) => ({ id: row.id, boardId: row.board_id }));
+
+  const { evictPurgedTasks } = await import('../services/taskService');
+  const { deleteTaskComments } = await import('../services/commentService');
+  await evictPurgedTasks(purged);
+  await deleteTaskComments(purged);
+
+  console.log(`[BullMQ] Purged ${data.length} tasks deleted before ${cutoff}`);
+}
+
+/** Append a task_events row. The row id is the event id, so a retried job can't duplicate it. */
+async function handleEvent(event: TaskEvent): Promise<void> {
+  const { error } = await supabase.from('task_events').upsert(
+    {
+      id:          event.id,
+      task_id:     event.taskId,
+      board_id:    event.boardId,
+      type:        event.type,
+      actor_id:    event.actorId,
+      version:     event.version,
+      diff:        event.diff,
+      occurred_at: event.occurredAt,
+    },
+    { onConflict: 'id', ignoreDuplicates: true },
+  );
+
   if (error) {
-    throw new Error(`[BullMQ] Delete failed for task ${taskId}: ${error.message}`);
+    throw new Error(`[BullMQ] Event insert failed for task ${event.taskId}: ${error.message}`);
   }
 }
 
 /**
- * Rebalance order values for a column.
+ * Rebalance order values for one column of one board.
  * Fetches all tasks sorted by current order, reassigns integer multiples
  * of 1000, and bulk-upserts.
  */
-async function handleRebalance(columnId: ColumnId): Promise<void> {
+async function handleRebalance(boardId: string, columnId: ColumnId): Promise<void> {
   const { data, error } = await supabase
     .from('tasks')
     .select('id, order')
+    .eq('board_id', boardId)
     .eq('column_id', columnId)
+    .is('deleted_at', null)
     .order('order', { ascending: true });
 
   if (error || !data || data.length === 0) return;
@@ -235,6 +366,7 @@ async function handleRebalance(columnId: ColumnId): Promise<void> {
   const newOrders = rebalancedOrders(data.length);
   const updates   = (data as Array<{ id: string; order: number }>).map((row, i) => ({
     id:         row.id,
+    board_id:   boardId,
     column_id:  columnId,
     order:      newOrders[i],
     updated_at: new Date().toISOString(),
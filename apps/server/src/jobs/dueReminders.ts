@@ -0,0 +1,140 @@
+/**
+ * jobs/dueReminders.ts
+ *
+ * BullMQ queue + worker behind the TASK_DUE_SOON broadcast.
+ *
+ * Strategy:
+ *   - taskService calls scheduleDueReminder whenever a task's due date may
+ *     have changed (create, update, restore). It replaces the task's pending
+ *     job with one delayed until DUE_SOON_HOURS before the new due date
+ *     (lib/dueDates.ts).
+ *   - The job only carries the due date it was scheduled for. When it fires,
+ *     the worker re-reads the task and drops the reminder if the task was
+ *     deleted, rescheduled or already sits in a done column.
+ *   - Reminders go to the task's board room; clients decide whether to toast.
+ *
+ * Separate queue from db-flush: reminders are delayed for hours or days and
+ * must not be retried into a flood, and their worker needs socket.io.
+ */
+import { Queue, Worker, type Job } from 'bullmq';
+import type { Server } from 'socket.io';
+import { buildBullMQConnection } from './dbFlushWorker';
+import { DEFAULT_DUE_SOON_MS, reminderDelay } from '../lib/dueDates';
+import type { Task } from '../services/taskService';
+import { boardRoom } from '../ws/socketContext';
+
+// ── Job Payload ───────────────────────────────────────────────────────────────
+
+export interface DueReminderJob {
+  taskId: string;
+  /** Task.dueAt when the job was scheduled */
+  dueAt:  string;
+}
+
+/** TASK_DUE_SOON broadcast payload */
+export interface DueSoonEvent {
+  taskId:      string;
+  title:       string;
+  dueAt:       string;
+  assigneeIds: string[];
+}
+
+// ── Queue ─────────────────────────────────────────────────────────────────────
+
+const QUEUE_NAME = 'due-reminders';
+
+/** How long before its due date a task is announced as due soon. */
+function dueSoonMs(): number {
+  const hours = Number(process.env.DUE_SOON_HOURS);
+  return Number.isFinite(hours) && hours >= 0 ? hours * 60 * 60 * 1000 : DEFAULT_DUE_SOON_MS;
+}
+
+const jobIdFor = (taskId: string): string => `due_${taskId}`;
+
+let _queue: Queue | null = null;
+
+function getQueue(): Queue {
+  if (_queue) return _queue;
+  _queue = new Queue(QUEUE_NAME, {
+    connection: buildBullMQConnection(),
+    defaultJobOptions: {
+      removeOnComplete: 100,
+      removeOnFail:     50,
+      attempts:         2,
+    },
+  });
+  return _queue;
+}
+
+/**
+ * (Re)schedule the due-soon reminder of `task`, replacing any pending one.
+ * Tasks without a future due date, and deleted tasks, end up with none.
+ */
+export async function scheduleDueReminder(task: Task): Promise<void> {
+  const queue = getQueue();
+  const jobId = jobIdFor(task.id);
+
+  const existingJob = await queue.getJob(jobId);
+  if (existingJob) {
+    try {
+      await existingJob.remove();
+    } catch (err) {
+      // Ignore — the reminder is firing right now or already fired
+    }
+  }
+
+  const delay = task.deletedAt ? null : reminderDelay(task.dueAt, Date.now(), dueSoonMs());
+  if (delay === null || !task.dueAt) return;
+
+  await queue.add('due-soon', { taskId: task.id, dueAt: task.dueAt } satisfies DueReminderJob, {
+    jobId,
+    delay,
+  });
+}
+
+// ── Worker ────────────────────────────────────────────────────────────────────
+
+let _worker: Worker | null = null;
+
+/**
+ * Start the reminder worker.
+ * Call once from server.ts after socket.io is initialised.
+ */
+export function startDueReminderWorker(io: Server): Worker {
+  if (_worker) return _worker;
+
+  _worker = new Worker(
+    QUEUE_NAME,
+    async (job: Job) => {
+      const { taskId, dueAt } = job.data as DueReminderJob;
+
+      // Loaded lazily — taskService imports this module to schedule reminders
+      const { getTaskById } = await import('../services/taskService');
+      const { getColumn }   = await import('../services/columnService');
+
+      const task = await getTaskById(taskId);
+      if (!task || task.dueAt !== dueAt) return;
+
+      const column = await getColumn(task.boardId, task.columnId);
+      if (column?.isDone) return;
+
+      io.to(boardRoom(task.boardId)).emit('TASK_DUE_SOON', {
+        taskId:      task.id,
+        title:       task.title,
+        dueAt,
+        assigneeIds: task.assigneeIds,
+      } satisfies DueSoonEvent);
+    },
+    {
+      connection:  buildBullMQConnection(),
+      concurrency: 5,
+    },
+  );
+
+  _worker.on('failed', (job, err) => {
+    console.error(`[BullMQ] Reminder ${job?.id} failed:`, err.message);
+  });
+
+  console.log('[BullMQ] Due reminder worker started');
+  return _worker;
+}
@@ -0,0 +1,185 @@
+/**
+ * jobs/importWorker.ts
+ *
+ * BullMQ queue + worker behind board imports (routes/import.ts).
+ *
+ * Strategy:
+ *   - The route parses the uploaded file (lib/boardImport.ts) and enqueues
+ *     one job carrying the draft; the plan is made when the job runs, so it
+ *     matches the board as it is then.
+ *   - The worker creates the missing columns and labels, then the tasks in
+ *     chunks through taskService.createTasks. Each chunk is broadcast as one
+ *     TASK_BATCH_APPLIED, so open boards fill in as the import goes.
+ *   - IMPORT_PROGRESS goes to the importing user's sockets on the board
+ *     after every step, and once more when the job is done or failed.
+ *
+ * Separate queue from db-flush: an import is long and must not be retried
+ * (a retry would create everything twice), and its worker needs socket.io.
+ */
+import { Queue, Worker, type Job } from 'bullmq';
+import type { Server } from 'socket.io';
+import { v4 as uuidv4 } from 'uuid';
+import { buildBullMQConnection } from './dbFlushWorker';
+import { planImport, type ImportDraft } from '../lib/boardImport';
+import type { AuthUser } from '../services/authService';
+import { createColumn, getColumns } from '../services/columnService';
+import { createLabel, getLabels } from '../services/labelService';
+import { createTasks, getAllTasks, type BoardContext } from '../services/taskService';
+import { boardRoom, userSockets } from '../ws/socketContext';
+
+// ── Job Payload ───────────────────────────────────────────────────────────────
+
+export interface ImportJob {
+  boardId: string;
+  user:    AuthUser;
+  draft:   ImportDraft;
+}
+
+/** IMPORT_PROGRESS payload */
+export interface ImportProgressEvent {
+  jobId:    string;
+  status:   'running' | 'done' | 'failed';
+  /** Tasks created so far, of `total` */
+  done:     number;
+  total:    number;
+  message?: string;
+}
+
+// ── Queue ─────────────────────────────────────────────────────────────────────
+
+const QUEUE_NAME = 'board-import';
+
+/** Tasks created (and broadcast) per createTasks call */
+const CHUNK_SIZE = 50;
+
+let _queue: Queue | null = null;
+
+function getQueue(): Queue {
+  if (_queue) return _queue;
+  _queue = new Queue(QUEUE_NAME, {
+    connection: buildBullMQConnection(),
+    defaultJobOptions: {
+      removeOnComplete: 100,
+      removeOnFail:     50,
+      attempts:         1,
+    },
+  });
+  return _queue;
+}
+
+/** Enqueue an import; resolves with the job id the progress events carry. */
+export async function enqueueImport(job: ImportJob): Promise<string> {
+  const jobId = `import_${uuidv4()}`;
+  await getQueue().add('import', job, { jobId });
+  return jobId;
+}
+
+// ── Worker ────────────────────────────────────────────────────────────────────
+
+/** Run one import. Throws on the first step that fails. */
+async function runImport(io: Server, job: Job, report: (done: number) => Promise<void>): Promise<number> {
+  const { boardId, user, draft } = job.data as ImportJob;
+  const ctx: BoardContext = { boardId, user };
+
+  const plan = planImport(draft, {
+    columns: await getColumns(boardId),
+    labels:  await getLabels(boardId),
+    tasks:   await getAllTasks(boardId),
+  });
+
+  const columnIds = new Map<string, string>();
+  for (const column of plan.columns) {
+    if (column.id) {
+      columnIds.set(column.title, column.id);
+      continue;
+    }
+    const created = await createColumn(ctx, { id: uuidv4(), title: column.title });
+    if (!created.ok) throw new Error(created.message);
+    io.to(boardRoom(boardId)).emit('COLUMN_CREATED', created.data);
+    columnIds.set(column.title, created.data.id);
+  }
+
+  const labelIds = new Map<string, string>();
+  for (const label of plan.labels) {
+    if (label.id) {
+      labelIds.set(label.name, label.id);
+      continue;
+    }
+    const created = await createLabel(ctx, { id: uuidv4(), name: label.name, color: label.color });
+    if (!created.ok) throw new Error(created.message);
+    io.to(boardRoom(boardId)).emit('LABEL_CREATED', created.data);
+    labelIds.set(label.name, created.data.id);
+  }
+
+  let done = 0;
+  for (let i = 0; i < plan.tasks.length; i += CHUNK_SIZE) {
+    const chunk  = plan.tasks.slice(i, i + CHUNK_SIZE);
+    const result = await createTasks(ctx, chunk.map((task) => ({
+      id:          uuidv4(),
+      columnId:    columnIds.get(task.column)!,
+      title:       task.title,
+      description: task.description,
+      order:       task.order,
+      labelIds:    task.labels.map((name) => labelIds.get(name)!),
+      startAt:     task.startAt,
+      dueAt:       task.dueAt,
+      priority:    task.priority,
+      estimate:    task.estimate,
+      checklist:   task.checklist,
+    })));
+    if (!result.ok) throw new Error(result.message);
+
+    io.to(boardRoom(boardId)).emit('TASK_BATCH_APPLIED', { tasks: result.data, deletedIds: [] });
+    done += result.data.length;
+    await report(done);
+  }
+  return done;
+}
+
+let _worker: Worker | null = null;
+
+/**
+ * Start the import worker.
+ * Call once from server.ts after socket.io is initialised.
+ */
+export function startImportWorker(io: Server): Worker {
+  if (_worker) return _worker;
+
+  _worker = new Worker(
+    QUEUE_NAME,
+    async (job: Job) => {
+      const { boardId, user, draft } = job.data as ImportJob;
+      const total  = draft.tasks.length;
+      const notify = async (event: Omit<ImportProgressEvent, 'jobId' | 'total'>) => {
+        for (const s of await userSockets(io, boardId, user.id)) {
+          s.emit('IMPORT_PROGRESS', { jobId: job.id!, total, ...event } satisfies ImportProgressEvent);
+        }
+      };
+
+      let done = 0;
+      try {
+        await notify({ status: 'running', done });
+        done = await runImport(io, job, async (count) => {
+          done = count;
+          await job.updateProgress(Math.round((count / Math.max(total, 1)) * 100));
+          await notify({ status: 'running', done: count });
+        });
+        await notify({ status: 'done', done });
+      } catch (err) {
+        await notify({ status: 'failed', done, message: err instanceof Error ? err.message : String(err) });
+        throw err;
+      }
+    },
+    {
+      connection:  buildBullMQConnection(),
+      concurrency: 1,
+    },
+  );
+
+  _worker.on('failed', (job, err) => {
+    console.error(`[BullMQ] Import ${job?.id} failed:`, err.message);
+  });
+
+  console.log('[BullMQ] Import worker started');
+  return _worker;
+}
@@ -0,0 +1,129 @@
+/**
+ * jobs/webhookDelivery.ts
+ *
+ * One HTTP attempt of a webhook delivery: sign the body and POST it
+ * (lib/webhooks.ts describes the headers). Used by jobs/webhookWorker.ts.
+ *
+ * The receiver's host is resolved on every attempt and the connection is
+ * made to the address that was checked, so a hostname can't be pointed at
+ * an internal address after it was subscribed, nor between the check and
+ * the request. Redirects are not followed. Only the response status is
+ * kept — the receiver's body never reaches the delivery log.
+ *
+ * Kept apart from the worker so it has no Redis or Supabase imports — the
+ * tests run it against a local receiver.
+ */
+import { lookup } from 'node:dns';
+import http from 'node:http';
+import https from 'node:https';
+import { isIP, type LookupFunction } from 'node:net';
+import { isPublicAddress, signWebhook, WEBHOOK_HEADERS, type WebhookEnvelope } from '../lib/webhooks';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface AttemptResult {
+  /** The receiver answered 2xx */
+  ok:      boolean;
+  /** HTTP status, when the receiver answered at all */
+  status?: number;
+  /** Why the attempt failed */
+  error?:  string;
+}
+
+export interface PostOptions {
+  /** How long the receiver gets to answer */
+  timeoutMs?:            number;
+  /** Deliver to loopback and private addresses too — local development and tests only */
+  allowPrivateNetworks?: boolean;
+}
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+/** How long a receiver gets to answer before the attempt counts as failed */
+export const DELIVERY_TIMEOUT_MS = 10_000;
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+/** dns.lookup that fails when any address of the host isn't public. */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) {
+      callback(err, []);
+      return;
+    }
+    const refused = addresses.find(({ address }) => !isPublicAddress(address));
+    if (refused || addresses.length === 0) {
+      callback(new Error(`${hostname} does not resolve to a public address`), []);
+      return;
+    }
+    if (options.all) callback(null, addresses);
+    else callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+// ── Public Functions ──────────────────────────────────────────────────────────
+
+/**
+ * POST `envelope` to `url`, signed with `secret` at the current time.
+ * Never throws: refused hosts, network errors and timeouts come back as
+ * `{ ok: false }`.
+ */
+export async function postWebhook(
+  target:   { url: string; secret: string },
+  envelope: WebhookEnvelope,
+  { timeoutMs = DELIVERY_TIMEOUT_MS, allowPrivateNetworks = false }: PostOptions = {},
+): Promise<AttemptResult> {
+  const body      = JSON.stringify(envelope);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  let url: URL;
+  try {
+    url = new URL(target.url);
+  } catch {
+    return { ok: false, error: 'Invalid URL' };
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return { ok: false, error: `Unsupported protocol ${url.protocol}` };
+  }
+
+  // IP literals are connected to without a lookup, so they are checked here
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (!allowPrivateNetworks && isIP(host) && !isPublicAddress(host)) {
+    return { ok: false, error: `${host} is not a public address` };
+  }
+
+  return new Promise<AttemptResult>((resolve) => {
+    const controller = new AbortController();
+    const timer      = setTimeout(() => controller.abort(), timeoutMs);
+    const settle     = (result: AttemptResult) => {
+      clearTimeout(timer);
+      resolve(result);
+    };
+
+    const req = (url.protocol === 'https:' ? https : http).request(url, {
+      method:  'POST',
+      headers: {
+        'Content-Type':            'application/json',
+        'Content-Length':          Buffer.byteLength(body),
+        'User-Agent':              'Flowboard-Webhooks/1',
+        [WEBHOOK_HEADERS.event]:     envelope.event,
+        [WEBHOOK_HEADERS.delivery]:  envelope.id,
+        [WEBHOOK_HEADERS.timestamp]: String(timestamp),
+        [WEBHOOK_HEADERS.signature]: signWebhook(target.secret, timestamp, body),
+      },
+      lookup: allowPrivateNetworks ? undefined : publicLookup,
+      signal: controller.signal,
+    }, (res) => {
+      // The status is all we keep; don't wait for or read the body
+      const status = res.statusCode ?? 0;
+      res.destroy();
+      settle(status >= 200 && status < 300 ? { ok: true, status } : { ok: false, status, error: `HTTP ${status}` });
+    });
+
+    req.on('error', (err) => {
+      if (controller.signal.aborted) settle({ ok: false, error: `No response within ${timeoutMs} ms` });
+      else settle({ ok: false, error: err.message });
+    });
+    req.end(body);
+  });
+}
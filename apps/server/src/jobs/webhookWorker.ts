@@ -0,0 +1,254 @@
+/**
+ * jobs/webhookWorker.ts
+ *
+ * BullMQ queue + worker behind outgoing webhooks (services/webhookService.ts).
+ *
+ * Strategy:
+ *   - taskService calls dispatchWebhooks for every task event it records.
+ *     The board's active subscriptions that want the event get one logged
+ *     `pending` delivery each (webhook_deliveries) and one job, which only
+ *     carries the delivery id.
+ *   - Collaborative text edits are recorded as one event per run of
+ *     keystrokes, flushed once the run goes quiet; dispatchWebhooksLater
+ *     debounces their TASK_UPDATED the same way, with a `dispatch` job that
+ *     each keystroke of the run replaces.
+ *   - The worker reads the delivery and its subscription fresh, POSTs the
+ *     signed envelope (jobs/webhookDelivery.ts) and logs the response
+ *     status on the delivery row. Receivers on loopback or private
+ *     networks are refused unless WEBHOOKS_ALLOW_PRIVATE_NETWORKS=true.
+ *   - Failed attempts are retried with exponential backoff while the
+ *     receiver may still change its mind (5xx, 408, 429, no answer). A 4xx
+ *     refusal, or running out of attempts, makes the delivery `dead` — the
+ *     board's dead-letter list, from which redeliverWebhook sends it again.
+ *   - Deliveries of a paused subscription go straight to the dead letters;
+ *     those of a deleted one are dropped with it.
+ *
+ * Separate queue from db-flush: receivers are third-party servers that can
+ * be slow or down for a while, and must not hold up database writes.
+ */
+import { Queue, UnrecoverableError, Worker, type Job } from 'bullmq';
+import { v4 as uuidv4 } from 'uuid';
+import { buildBullMQConnection } from './dbFlushWorker';
+import { postWebhook } from './webhookDelivery';
+import { isRetryableStatus, webhookEventsFor, type WebhookColumn, type WebhookEnvelope } from '../lib/webhooks';
+import type { AuthUser } from '../services/authService';
+import { getColumn } from '../services/columnService';
+import type { TaskEventType } from '../services/historyService';
+import type { BoardContext, ServiceOutcome, Task } from '../services/taskService';
+import {
+  getDelivery,
+  getSubscribers,
+  getWebhookTarget,
+  insertDeliveries,
+  recordAttempt,
+  reviveDelivery,
+  type WebhookDelivery,
+} from '../services/webhookService';
+
+// ── Job Payload ───────────────────────────────────────────────────────────────
+
+export interface WebhookJob {
+  deliveryId: string;
+}
+
+/** A debounced dispatch — dispatchWebhooks' arguments for a run of text edits */
+export interface DispatchJob {
+  user:   AuthUser;
+  before: Task;
+  after:  Task;
+}
+
+// ── Queue ─────────────────────────────────────────────────────────────────────
+
+const QUEUE_NAME = 'webhook-delivery';
+
+/** Attempts per delivery — the last retry runs about 2.5 minutes after the first try */
+const MAX_ATTEMPTS = 6;
+
+/** Job name of a debounced dispatch; deliveries are named after their event */
+const DISPATCH_JOB = 'dispatch';
+
+let _queue: Queue | null = null;
+
+function getQueue(): Queue {
+  if (_queue) return _queue;
+  _queue = new Queue(QUEUE_NAME, {
+    connection: buildBullMQConnection(),
+    defaultJobOptions: {
+      removeOnComplete: 100,
+      removeOnFail:     50,
+      attempts:         MAX_ATTEMPTS,
+      backoff: { type: 'exponential', delay: 5000 },
+    },
+  });
+  return _queue;
+}
+
+/** The column as receivers see it, or undefined if it is gone. */
+async function webhookColumn(boardId: string, columnId: string): Promise<WebhookColumn | undefined> {
+  const column = await getColumn(boardId, columnId);
+  return column ? { id: column.id, title: column.title, isDone: column.isDone } : undefined;
+}
+
+/**
+ * Offer a recorded task event to the board's webhooks. Never throws — a
+ * receiver's troubles must not fail the task change that caused them.
+ */
+export async function dispatchWebhooks(
+  type:   TaskEventType,
+  user:   AuthUser,
+  before: Task | null,
+  after:  Task | null,
+): Promise<void> {
+  const task = after ?? before;
+  if (!task) return;
+
+  try {
+    const subscribers = await getSubscribers(task.boardId);
+    if (subscribers.length === 0) return;
+
+    const column     = await webhookColumn(task.boardId, task.columnId);
+    const fromColumn = type === 'moved' && before && before.columnId !== task.columnId
+      ? await webhookColumn(task.boardId, before.columnId)
+      : undefined;
+
+    const deliveries: Array<{ webhookId: string; payload: WebhookEnvelope }> = [];
+    for (const event of webhookEventsFor(type, fromColumn, column)) {
+      for (const subscriber of subscribers.filter((s) => s.events.includes(event))) {
+        deliveries.push({
+          webhookId: subscriber.id,
+          payload: {
+            id:         uuidv4(),
+            event,
+            boardId:    task.boardId,
+            occurredAt: after?.updatedAt ?? new Date().toISOString(),
+            data:       { task, column, fromColumn, actor: user.displayName },
+          },
+        });
+      }
+    }
+    if (deliveries.length === 0) return;
+
+    await insertDeliveries(deliveries);
+    await getQueue().addBulk(deliveries.map((d) => ({
+      name: d.payload.event,
+      data: { deliveryId: d.payload.id } satisfies WebhookJob,
+    })));
+  } catch (err) {
+    console.error('[webhookWorker.dispatchWebhooks]', err);
+  }
+}
+
+/**
+ * Offer a run of text edits to the board's webhooks as one TASK_UPDATED,
+ * `delay` ms after its last keystroke. `runId` names the run: each call
+ * for it replaces the pending dispatch, restarting the delay. Boards
+ * without a TASK_UPDATED subscription schedule nothing. Never throws.
+ */
+export async function dispatchWebhooksLater(
+  runId:  string,
+  user:   AuthUser,
+  before: Task,
+  after:  Task,
+  delay:  number,
+): Promise<void> {
+  try {
+    const subscribers = await getSubscribers(after.boardId);
+    if (!subscribers.some((s) => s.events.includes('TASK_UPDATED'))) return;
+
+    const queue = getQueue();
+    const jobId = `dispatch_${runId}`;
+    const existing = await queue.getJob(jobId);
+    if (existing) await existing.remove();
+
+    await queue.add(DISPATCH_JOB, { user, before, after } satisfies DispatchJob, { jobId, delay, attempts: 1 });
+  } catch (err) {
+    console.error('[webhookWorker.dispatchWebhooksLater]', err);
+  }
+}
+
+/** Send a dead delivery of the board again, with a fresh set of attempts. */
+export async function redeliverWebhook(
+  ctx:        BoardContext,
+  deliveryId: string,
+): Promise<ServiceOutcome<WebhookDelivery>> {
+  const revived = await reviveDelivery(ctx, deliveryId);
+  if (!revived.ok) return revived;
+
+  await getQueue().add(revived.data.event, { deliveryId } satisfies WebhookJob);
+  return revived;
+}
+
+// ── Worker ────────────────────────────────────────────────────────────────────
+
+/** Local development only: let deliveries reach loopback and private networks */
+function allowPrivateNetworks(): boolean {
+  return process.env.WEBHOOKS_ALLOW_PRIVATE_NETWORKS === 'true';
+}
+
+/** Make one attempt at a delivery. Throws when BullMQ should retry it. */
+async function deliver(job: Job): Promise<void> {
+  const { deliveryId } = job.data as WebhookJob;
+
+  const delivery = await getDelivery(deliveryId);
+  if (!delivery || delivery.status === 'delivered' || delivery.status === 'dead') return;
+
+  const target = await getWebhookTarget(delivery.webhookId);
+  if (!target) return;
+
+  const attempts = delivery.attempts + 1;
+  if (!target.active) {
+    await recordAttempt(deliveryId, { status: 'dead', attempts: delivery.attempts, error: 'Webhook is paused' });
+    return;
+  }
+
+  const result = await postWebhook(target, delivery.payload, { allowPrivateNetworks: allowPrivateNetworks() });
+  if (result.ok) {
+    await recordAttempt(deliveryId, { status: 'delivered', attempts, responseStatus: result.status });
+    return;
+  }
+
+  const refused = result.status !== undefined && !isRetryableStatus(result.status);
+  const last    = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+  await recordAttempt(deliveryId, {
+    status:         refused || last ? 'dead' : 'retrying',
+    attempts,
+    responseStatus: result.status,
+    error:          result.error,
+  });
+
+  const message = result.error ?? 'Delivery failed';
+  throw refused ? new UnrecoverableError(message) : new Error(message);
+}
+
+/** Run a job: a debounced dispatch, or an attempt at a delivery. */
+async function processJob(job: Job): Promise<void> {
+  if (job.name === DISPATCH_JOB) {
+    const { user, before, after } = job.data as DispatchJob;
+    await dispatchWebhooks('updated', user, before, after);
+    return;
+  }
+  await deliver(job);
+}
+
+let _worker: Worker | null = null;
+
+/**
+ * Start the webhook delivery worker.
+ * Call once from server.ts on boot.
+ */
+export function startWebhookWorker(): Worker {
+  if (_worker) return _worker;
+
+  _worker = new Worker(QUEUE_NAME, processJob, {
+    connection:  buildBullMQConnection(),
+    concurrency: 5,
+  });
+
+  _worker.on('failed', (job, err) => {
+    console.error(`[BullMQ] Webhook delivery ${job?.id} failed:`, err.message);
+  });
+
+  console.log('[BullMQ] Webhook worker started');
+  return _worker;
+}
@@ -0,0 +1,145 @@
+/**
+ * lib/boardCopy.ts
+ *
+ * Board duplication and templates — POST /api/boards/:boardId/duplicate,
+ * POST /api/boards { templateId } (services/boardService.ts) and
+ * /api/templates (services/templateService.ts).
+ * Pure — no I/O.
+ *
+ *   - copyBoardContent gives every column, label, task and checklist item a
+ *     new id, and points the tasks' columns, labels and blockers at the
+ *     copies. Orders are kept as they are, so each column reads the same top
+ *     to bottom.
+ *   - templateOf keeps what a new project starts from: the columns, labels
+ *     and cards (text, priority, estimate, checklist, blockers) — no people,
+ *     dates or checklist progress. Its ids are only keys inside the
+ *     template; every board made from it gets new ones.
+ */
+import type { AuthUser } from '../services/authService';
+import type { BoardColumn } from '../services/columnService';
+import type { BoardLabel } from '../services/labelService';
+import type { Task } from '../services/taskService';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type ContentColumn = Pick<BoardColumn, 'id' | 'title' | 'color' | 'order' | 'isDone' | 'wipLimit'>;
+
+export type ContentLabel = Pick<BoardLabel, 'id' | 'name' | 'color'>;
+
+export type ContentTask =
+  Pick<Task,
+    | 'id' | 'columnId' | 'title' | 'description' | 'order' | 'assigneeIds' | 'labelIds' | 'blockedByIds'
+    | 'startAt' | 'dueAt' | 'priority' | 'estimate' | 'checklist' | 'creatorId' | 'creatorName' | 'creatorColor'>
+  & Partial<Pick<Task, 'createdAt'>>;
+
+/** What a copy is made from — a board's active columns, labels and live tasks, or a template */
+export interface BoardContent {
+  columns: ContentColumn[];
+  labels:  ContentLabel[];
+  tasks:   ContentTask[];
+}
+
+export interface CopyTarget {
+  boardId: string;
+  /** Who makes the copy — the tasks' last updater, and their creator unless keepCreators */
+  user:    AuthUser;
+  now:     string;
+  /** Keep each task's original creator and creation time */
+  keepCreators: boolean;
+  newId:   () => string;
+}
+
+export interface BoardCopy {
+  columns: BoardColumn[];
+  labels:  BoardLabel[];
+  tasks:   Task[];
+}
+
+// ── Public Functions ──────────────────────────────────────────────────────────
+
+/**
+ * Copy `content` onto the board `target.boardId` under new ids. Tasks whose
+ * column isn't part of the content are left out; links to labels or
+ * blockers that aren't are dropped.
+ */
+export function copyBoardContent(content: BoardContent, target: CopyTarget): BoardCopy {
+  const { boardId, user, now, keepCreators, newId } = target;
+
+  const columnIds = new Map(content.columns.map((c) => [c.id, newId()]));
+  const labelIds  = new Map(content.labels.map((l) => [l.id, newId()]));
+  const tasks     = content.tasks.filter((t) => columnIds.has(t.columnId));
+  const taskIds   = new Map(tasks.map((t) => [t.id, newId()]));
+  const remap     = (ids: string[], map: Map<string, string>) =>
+    ids.filter((id) => map.has(id)).map((id) => map.get(id)!);
+
+  return {
+    columns: content.columns.map((column) => ({
+      id:        columnIds.get(column.id)!,
+      boardId,
+      title:     column.title,
+      color:     column.color,
+      order:     column.order,
+      isDone:    column.isDone,
+      wipLimit:  column.wipLimit,
+      version:   1,
+      createdAt: now,
+      updatedAt: now,
+    })),
+
+    labels: content.labels.map((label) => ({
+      id:        labelIds.get(label.id)!,
+      boardId,
+      name:      label.name,
+      color:     label.color,
+      createdAt: now,
+      updatedAt: now,
+    })),
+
+    tasks: tasks.map((task) => ({
+      id:           taskIds.get(task.id)!,
+      boardId,
+      columnId:     columnIds.get(task.columnId)!,
+      title:        task.title,
+      description:  task.description,
+      order:        task.order,
+      assigneeIds:  [...task.assigneeIds],
+      labelIds:     remap(task.labelIds, labelIds),
+      blockedByIds: remap(task.blockedByIds, taskIds),
+      startAt:      task.startAt,
+      dueAt:        task.dueAt,
+      priority:     task.priority,
+      estimate:     task.estimate,
+      checklist:    task.checklist.map((item) => ({ ...item, id: newId() })),
+      createdAt:    keepCreators ? task.createdAt ?? now : now,
+      updatedAt:    now,
+      version:      1,
+      ...(keepCreators
+        ? { creatorId: task.creatorId, creatorName: task.creatorName, creatorColor: task.creatorColor }
+        : { creatorId: user.id, creatorName: user.displayName, creatorColor: user.color }),
+      updatedById:    user.id,
+      updatedByName:  user.displayName,
+      updatedByColor: user.color,
+    })),
+  };
+}
+
+/** The template of a board: its structure and cards, without people, dates or progress. */
+export function templateOf(content: BoardContent): BoardContent {
+  return {
+    columns: content.columns.map(({ id, title, color, order, isDone, wipLimit }) => ({ id, title, color, order, isDone, wipLimit })),
+    labels:  content.labels.map(({ id, name, color }) => ({ id, name, color })),
+    tasks:   content.tasks.map((task) => ({
+      id:           task.id,
+      columnId:     task.columnId,
+      title:        task.title,
+      description:  task.description,
+      order:        task.order,
+      assigneeIds:  [],
+      labelIds:     task.labelIds,
+      blockedByIds: task.blockedByIds,
+      priority:     task.priority,
+      estimate:     task.estimate,
+      checklist:    task.checklist.map((item) => ({ ...item, done: false })),
+    })),
+  };
+}
@@ -0,0 +1,160 @@
+/**
+ * lib/boardExport.ts
+ *
+ * Board export — GET /api/boards/:boardId/export (routes/export.ts).
+ * Pure — no I/O. exportService gathers the board into a BoardExport;
+ * renderExport turns it into one of three files:
+ *
+ *   json      — the BoardExport itself. Lossless: every column, label,
+ *               task (trash included) and comment with its order, version
+ *               and ids, so it doubles as a backup that doesn't need
+ *               Supabase.
+ *   csv       — one row per live task, for spreadsheets. Names instead of
+ *               ids, RFC 4180 quoting, CRLF line ends.
+ *   markdown  — one section per column, its tasks as a checkbox list
+ *               (ticked in done columns), checklists nested below.
+ */
+import type { Board } from '../services/boardService';
+import type { BoardColumn } from '../services/columnService';
+import type { TaskComment } from '../services/commentService';
+import type { BoardLabel } from '../services/labelService';
+import type { BoardMember } from '../services/memberService';
+import type { Task } from '../services/taskService';
+
+export type ExportFormat = 'json' | 'csv' | 'markdown';
+
+export interface BoardExport {
+  format:     'flowboard-board';
+  /** Bumped when the shape changes incompatibly */
+  version:    1;
+  exportedAt: string;
+  board:      Board;
+  /** Active columns, left to right */
+  columns:    BoardColumn[];
+  labels:     BoardLabel[];
+  members:    BoardMember[];
+  /** Live tasks by column and order, then the trash (deletedAt set) */
+  tasks:      Task[];
+  /** Comments of those tasks, by task and oldest first */
+  comments:   TaskComment[];
+}
+
+export interface ExportFile {
+  filename:    string;
+  contentType: string;
+  body:        string;
+}
+
+const CSV_HEADER = [
+  'Column', 'Title', 'Description', 'Priority', 'Assignees', 'Labels', 'Start', 'Due', 'Estimate',
+  'Checklist', 'Blocked by', 'Created', 'Created by', 'Updated', 'Id',
+];
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+/**
+ * One CSV field. Quoted when it holds a separator, quote or line break;
+ * text a spreadsheet would run as a formula (= + - @) gets a leading '.
+ */
+export function csvField(value: string | number | undefined): string {
+  if (value === undefined) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** `text` with the characters Markdown would format escaped, on one line. */
+function markdownText(text: string): string {
+  return text.replace(/\s*\r?\n\s*/g, ' ').replace(/([\\`*_[\]<>#|])/g, '\\$1');
+}
+
+/** "2026-10-19" of an ISO timestamp */
+const day = (iso: string | undefined): string | undefined => iso?.slice(0, 10);
+
+/** `board.name` made safe for a file name */
+function fileSlug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'board';
+}
+
+function namesOf<T>(ids: string[], items: Map<string, T>, name: (item: T) => string, fallback: string): string[] {
+  return ids.map((id) => {
+    const item = items.get(id);
+    return item ? name(item) : fallback;
+  });
+}
+
+// ── Renderers ─────────────────────────────────────────────────────────────────
+
+/** The live tasks as CSV, one row each, in board order. */
+export function toCsv(data: BoardExport): string {
+  const columns = new Map(data.columns.map((c) => [c.id, c]));
+  const labels  = new Map(data.labels.map((l) => [l.id, l]));
+  const members = new Map(data.members.map((m) => [m.userId, m]));
+  const titles  = new Map(data.tasks.map((t) => [t.id, t.title]));
+
+  const rows = data.tasks
+    .filter((t) => !t.deletedAt)
+    .map((t) => [
+      columns.get(t.columnId)?.title,
+      t.title,
+      t.description,
+      t.priority,
+      namesOf(t.assigneeIds, members, (m) => m.displayName, 'Former member').join('; '),
+      namesOf(t.labelIds, labels, (l) => l.name, 'Deleted label').join('; '),
+      t.startAt,
+      t.dueAt,
+      t.estimate,
+      t.checklist.length > 0 ? `${t.checklist.filter((i) => i.done).length}/${t.checklist.length}` : undefined,
+      t.blockedByIds.map((id) => titles.get(id) ?? id).join('; '),
+      t.createdAt,
+      t.creatorName,
+      t.updatedAt,
+      t.id,
+    ]);
+
+  return [CSV_HEADER, ...rows].map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/** The board as Markdown — a section per column, a checkbox per task. */
+export function toMarkdown(data: BoardExport): string {
+  const labels  = new Map(data.labels.map((l) => [l.id, l]));
+  const members = new Map(data.members.map((m) => [m.userId, m]));
+  const lines   = [`# ${markdownText(data.board.name)}`, '', `_Exported ${day(data.exportedAt)}_`];
+
+  for (const column of data.columns) {
+    const tasks = data.tasks.filter((t) => t.columnId === column.id && !t.deletedAt);
+    lines.push('', `## ${markdownText(column.title)} (${tasks.length}${column.wipLimit ? `/${column.wipLimit}` : ''})`, '');
+    if (tasks.length === 0) lines.push('_No tasks_');
+
+    for (const task of tasks) {
+      const details = [
+        ...namesOf(task.assigneeIds, members, (m) => `@${m.displayName}`, '@former-member'),
+        ...namesOf(task.labelIds, labels, (l) => `#${l.name}`, '#deleted-label'),
+        task.priority !== 'none' ? `priority: ${task.priority}` : undefined,
+        task.dueAt ? `due ${day(task.dueAt)}` : undefined,
+        task.estimate !== undefined ? `${task.estimate} pts` : undefined,
+      ].filter((d): d is string => d !== undefined);
+
+      const suffix = details.length > 0 ? ` — ${markdownText(details.join(', '))}` : '';
+      lines.push(`- [${column.isDone ? 'x' : ' '}] ${markdownText(task.title)}${suffix}`);
+      for (const item of task.checklist) {
+        lines.push(`  - [${item.done ? 'x' : ' '}] ${markdownText(item.text)}`);
+      }
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/** The export as a file of `format`, named after the board and the day. */
+export function renderExport(data: BoardExport, format: ExportFormat): ExportFile {
+  const base = `${fileSlug(data.board.name)}-${day(data.exportedAt)}`;
+  switch (format) {
+    case 'json':
+      return { filename: `${base}.json`, contentType: 'application/json', body: JSON.stringify(data, null, 2) };
+    case 'csv':
+      return { filename: `${base}.csv`, contentType: 'text/csv; charset=utf-8', body: toCsv(data) };
+    case 'markdown':
+      return { filename: `${base}.md`, contentType: 'text/markdown; charset=utf-8', body: toMarkdown(data) };
+  }
+}
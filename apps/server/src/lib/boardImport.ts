@@ -0,0 +1,535 @@
+/**
+ * lib/boardImport.ts
+ *
+ * Board import from other tools — POST /api/boards/:boardId/import
+ * (routes/import.ts, jobs/importWorker.ts).
+ * Pure — no I/O. An import runs in two steps:
+ *
+ *   1. parseImport turns the uploaded file into an ImportDraft — column
+ *      titles and tasks, still named rather than linked:
+ *        trello — a Trello board JSON export. Open lists become columns
+ *                 (by position), open cards tasks; checklists come along.
+ *        jira   — a Jira issue CSV export. Statuses become columns, in the
+ *                 order they first appear.
+ *        csv    — any CSV, its headers mapped to task fields (CsvMapping,
+ *                 guessed from the header names when not given).
+ *   2. planImport matches the draft against the board: columns and labels
+ *      by name (case-insensitive), creating the missing ones; tasks are
+ *      appended below each column's last card, spread with rebalancedOrders.
+ *
+ * previewImport summarises a plan for the dry run the client shows before
+ * anything is created.
+ */
+import { rebalancedOrders } from './fractionalIndex';
+import { MAX_CHECKLIST_ITEMS } from './checklist';
+import type { TaskPriority } from '../validation/taskSchema';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type ImportSource = 'trello' | 'jira' | 'csv';
+
+/** Header of the CSV column holding each task field */
+export interface CsvMapping {
+  title:        string;
+  column?:      string;
+  description?: string;
+  priority?:    string;
+  labels?:      string;
+  startAt?:     string;
+  dueAt?:       string;
+  estimate?:    string;
+}
+
+export interface DraftLabel {
+  name:   string;
+  color?: string;
+}
+
+export interface DraftTask {
+  title:       string;
+  description: string;
+  /** Title of the column the task goes to — '' for the board's first column */
+  column:      string;
+  priority:    TaskPriority;
+  labels:      string[];
+  startAt?:    string;
+  dueAt?:      string;
+  estimate?:   number;
+  checklist:   Array<{ text: string; done: boolean }>;
+}
+
+export interface ImportDraft {
+  /** Column titles in board order */
+  columns:  string[];
+  labels:   DraftLabel[];
+  tasks:    DraftTask[];
+  warnings: string[];
+  /** The CSV headers and the mapping used (csv only) */
+  headers?: string[];
+  mapping?: CsvMapping;
+}
+
+export type ImportParseResult =
+  | { ok: true;  draft: ImportDraft }
+  | { ok: false; message: string };
+
+/** What planImport needs to know about the board */
+export interface ImportTarget {
+  columns: Array<{ id: string; title: string }>;
+  labels:  Array<{ id: string; name: string }>;
+  tasks:   Array<{ columnId: string; order: number }>;
+}
+
+export interface PlannedTask extends DraftTask {
+  /** Column title as it will exist on the board */
+  column: string;
+  order:  number;
+}
+
+export interface ImportPlan {
+  /** Every column the import touches, board order — `id` unset = to create */
+  columns:  Array<{ id?: string; title: string }>;
+  /** Every label the import uses — `id` unset = to create */
+  labels:   Array<{ id?: string; name: string; color?: string }>;
+  tasks:    PlannedTask[];
+  warnings: string[];
+}
+
+export interface ImportPreview {
+  columns:   Array<{ title: string; isNew: boolean; count: number; sample: string[] }>;
+  labels:    Array<{ name: string; isNew: boolean }>;
+  taskCount: number;
+  warnings:  string[];
+  headers?:  string[];
+  mapping?:  CsvMapping;
+}
+
+// ── Limits (match the task / column / label schemas) ──────────────────────────
+
+/** Most tasks one import may create */
+export const MAX_IMPORT_TASKS = 2000;
+
+const MAX_TITLE        = 500;
+const MAX_DESCRIPTION  = 5000;
+const MAX_COLUMN_TITLE = 60;
+const MAX_LABEL_NAME   = 40;
+const MAX_LABELS       = 20;
+const MAX_CHECKLIST_TEXT = 500;
+
+/** Column for tasks the file doesn't place, on a board without columns */
+const FALLBACK_COLUMN = 'Imported';
+
+/** Trello's named label colours */
+const TRELLO_COLORS: Record<string, string> = {
+  green:  '#16A34A',
+  yellow: '#CA8A04',
+  orange: '#EA580C',
+  red:    '#DC2626',
+  purple: '#9333EA',
+  blue:   '#2563EB',
+  sky:    '#0EA5E9',
+  lime:   '#65A30D',
+  pink:   '#DB2777',
+  black:  '#334155',
+};
+
+const PRIORITY_NAMES: Record<string, TaskPriority> = {
+  urgent:   'urgent',
+  highest:  'urgent',
+  critical: 'urgent',
+  blocker:  'urgent',
+  high:     'high',
+  major:    'high',
+  medium:   'medium',
+  normal:   'medium',
+  low:      'low',
+  lowest:   'low',
+  minor:    'low',
+  trivial:  'low',
+  none:     'none',
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const clip = (text: string, max: number): string => text.trim().slice(0, max);
+
+const sameName = (a: string, b: string): boolean => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+function priorityOf(value: string | undefined): TaskPriority {
+  return PRIORITY_NAMES[(value ?? '').trim().toLowerCase()] ?? 'none';
+}
+
+/**
+ * An ISO timestamp for a date as tools export it — ISO 8601, or Jira's
+ * "19/Oct/26 9:30 AM" — or undefined when it can't be read.
+ */
+export function parseImportDate(value: string | undefined | null): string | undefined {
+  const text = (value ?? '').trim();
+  if (!text) return undefined;
+
+  const jira = /^(\d{1,2})\/([A-Za-z]{3})\/(\d{2}|\d{4})(?:\s+(\d{1,2}):(\d{2})\s*([AaPp][Mm])?)?$/.exec(text);
+  if (jira) {
+    const month = MONTHS.indexOf(jira[2].toLowerCase());
+    if (month === -1) return undefined;
+    const year  = jira[3].length === 2 ? 2000 + Number(jira[3]) : Number(jira[3]);
+    const hour  = Number(jira[4] ?? 0);
+    const hours = jira[6] ? (hour % 12) + (jira[6].toLowerCase() === 'pm' ? 12 : 0) : hour;
+    return new Date(Date.UTC(year, month, Number(jira[1]), hours, Number(jira[5] ?? 0))).toISOString();
+  }
+
+  const time = Date.parse(text);
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+/** A story-point estimate (one decimal, 0–999), or undefined. */
+function estimateOf(value: string | number | undefined | null): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const n = typeof value === 'number' ? value : Number(String(value).trim());
+  if (!Number.isFinite(n) || n < 0 || n > 999) return undefined;
+  return Math.round(n * 10) / 10;
+}
+
+/** Drop a start date that comes after the due date (the schemas refuse both). */
+function datesInOrder(task: DraftTask): DraftTask {
+  return task.startAt && task.dueAt && task.startAt > task.dueAt ? { ...task, startAt: undefined } : task;
+}
+
+/** A task as the draft holds it — texts clipped to what the schemas allow. */
+function draftTask(task: Partial<DraftTask> & { title: string }, warn: (message: string) => void): DraftTask {
+  const checklist = task.checklist ?? [];
+  if (checklist.length > MAX_CHECKLIST_ITEMS) {
+    warn(`"${clip(task.title, 60)}" has more than ${MAX_CHECKLIST_ITEMS} checklist items — the rest were left out`);
+  }
+  return datesInOrder({
+    title:       clip(task.title, MAX_TITLE),
+    description: clip(task.description ?? '', MAX_DESCRIPTION),
+    column:      clip(task.column ?? '', MAX_COLUMN_TITLE),
+    priority:    task.priority ?? 'none',
+    labels:      [...new Set((task.labels ?? []).map((l) => clip(l, MAX_LABEL_NAME)).filter(Boolean))].slice(0, MAX_LABELS),
+    startAt:     task.startAt,
+    dueAt:       task.dueAt,
+    estimate:    task.estimate,
+    checklist:   checklist.slice(0, MAX_CHECKLIST_ITEMS).map((i) => ({ text: clip(i.text, MAX_CHECKLIST_TEXT), done: i.done })),
+  });
+}
+
+/** Column titles in the order the tasks first name them */
+function columnsOf(tasks: DraftTask[]): string[] {
+  const titles: string[] = [];
+  for (const task of tasks) {
+    if (task.column && !titles.some((t) => sameName(t, task.column))) titles.push(task.column);
+  }
+  return titles;
+}
+
+/** Labels the tasks use, without a colour */
+function labelsOf(tasks: DraftTask[]): DraftLabel[] {
+  const names: string[] = [];
+  for (const name of tasks.flatMap((t) => t.labels)) {
+    if (!names.some((n) => sameName(n, name))) names.push(name);
+  }
+  return names.map((name) => ({ name }));
+}
+
+function finish(tasks: DraftTask[], warnings: string[], extra: Partial<ImportDraft> = {}): ImportParseResult {
+  if (tasks.length === 0) return { ok: false, message: 'The file has no tasks to import' };
+  if (tasks.length > MAX_IMPORT_TASKS) {
+    return { ok: false, message: `The file has ${tasks.length} tasks — at most ${MAX_IMPORT_TASKS} can be imported at once` };
+  }
+  return {
+    ok: true,
+    draft: { columns: columnsOf(tasks), labels: labelsOf(tasks), tasks, warnings, ...extra },
+  };
+}
+
+// ── CSV ───────────────────────────────────────────────────────────────────────
+
+/**
+ * Rows of an RFC 4180 CSV: quoted fields may hold separators, doubled
+ * quotes and line breaks. A leading BOM and blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field   = '';
+  let quoted  = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row   = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+}
+
+/** Headers of a task field, first match wins — for guessCsvMapping */
+const HEADER_GUESSES: Record<keyof CsvMapping, string[]> = {
+  title:       ['title', 'name', 'summary', 'task', 'card name'],
+  column:      ['column', 'status', 'list', 'list name', 'stage', 'state'],
+  description: ['description', 'details', 'notes', 'body'],
+  priority:    ['priority'],
+  labels:      ['labels', 'label', 'tags'],
+  startAt:     ['start', 'start date', 'start at'],
+  dueAt:       ['due', 'due date', 'due at', 'deadline'],
+  estimate:    ['estimate', 'story points', 'points'],
+};
+
+/** The mapping the header names suggest, or null without a title column. */
+export function guessCsvMapping(headers: string[]): CsvMapping | null {
+  const find = (names: string[]) => names
+    .map((name) => headers.find((h) => sameName(h, name)))
+    .find((h): h is string => h !== undefined);
+
+  const title = find(HEADER_GUESSES.title);
+  if (!title) return null;
+
+  const mapping: CsvMapping = { title };
+  for (const field of Object.keys(HEADER_GUESSES) as Array<keyof CsvMapping>) {
+    const header = field === 'title' ? undefined : find(HEADER_GUESSES[field]);
+    if (header) mapping[field] = header;
+  }
+  return mapping;
+}
+
+/** Tasks of a CSV whose headers are mapped with `mapping` (guessed if unset). */
+export function parseGenericCsv(text: string, mapping?: CsvMapping): ImportParseResult {
+  const [headers, ...rows] = parseCsv(text);
+  if (!headers) return { ok: false, message: 'The file is empty' };
+
+  // Nothing to guess from — hand the headers back so the client can map them
+  const used = mapping ?? guessCsvMapping(headers);
+  if (!used) {
+    return { ok: true, draft: { columns: [], labels: [], tasks: [], warnings: ['Pick the CSV column that holds the task titles'], headers } };
+  }
+
+  const missing = Object.values(used).find((h) => h !== undefined && !headers.includes(h));
+  if (missing) return { ok: false, message: `The file has no "${missing}" column` };
+
+  const warnings: string[] = [];
+  const warn = (message: string) => warnings.push(message);
+  const cell = (row: string[], header: string | undefined) =>
+    header === undefined ? undefined : row[headers.indexOf(header)]?.trim();
+
+  let untitled = 0;
+  const tasks: DraftTask[] = [];
+  for (const row of rows) {
+    const title = cell(row, used.title);
+    if (!title) { untitled++; continue; }
+    tasks.push(draftTask({
+      title,
+      description: cell(row, used.description),
+      column:      cell(row, used.column),
+      priority:    priorityOf(cell(row, used.priority)),
+      labels:      (cell(row, used.labels) ?? '').split(/[,;]/),
+      startAt:     parseImportDate(cell(row, used.startAt)),
+      dueAt:       parseImportDate(cell(row, used.dueAt)),
+      estimate:    estimateOf(cell(row, used.estimate)),
+    }, warn));
+  }
+  if (untitled > 0) warn(`${untitled} row${untitled === 1 ? '' : 's'} without a title were skipped`);
+
+  return finish(tasks, warnings, { headers, mapping: used });
+}
+
+/**
+ * Tasks of a Jira issue CSV export. Jira repeats a header once per value
+ * (Labels, Labels, …), so every column of a repeated header is read.
+ */
+export function parseJiraCsv(text: string): ImportParseResult {
+  const [headers, ...rows] = parseCsv(text);
+  if (!headers) return { ok: false, message: 'The file is empty' };
+
+  const indexes = (...names: string[]) =>
+    headers.flatMap((h, i) => (names.some((n) => sameName(h, n)) ? [i] : []));
+  const first = (row: string[], ...names: string[]) =>
+    indexes(...names).map((i) => row[i]?.trim()).find(Boolean);
+
+  if (indexes('Summary').length === 0) return { ok: false, message: 'This is not a Jira export — it has no Summary column' };
+
+  const warnings: string[] = [];
+  const warn = (message: string) => warnings.push(message);
+  const tasks  = rows
+    .filter((row) => first(row, 'Summary'))
+    .map((row) => {
+      const key = first(row, 'Issue key');
+      const description = first(row, 'Description') ?? '';
+      return draftTask({
+        title:       first(row, 'Summary')!,
+        description: key ? `${description}${description ? '\n\n' : ''}Imported from Jira ${key}` : description,
+        column:      first(row, 'Status'),
+        priority:    priorityOf(first(row, 'Priority')),
+        labels:      indexes('Labels').map((i) => row[i] ?? ''),
+        startAt:     parseImportDate(first(row, 'Start date', 'Custom field (Start date)')),
+        dueAt:       parseImportDate(first(row, 'Due date', 'Due')),
+        estimate:    estimateOf(first(row, 'Story Points', 'Custom field (Story Points)', 'Custom field (Story point estimate)')),
+      }, warn);
+    });
+
+  return finish(tasks, warnings);
+}
+
+// ── Trello ────────────────────────────────────────────────────────────────────
+
+interface TrelloExport {
+  lists?:      Array<{ id: string; name: string; closed?: boolean; pos?: number }>;
+  cards?:      Array<{
+    id: string; name: string; desc?: string; idList: string; closed?: boolean; pos?: number;
+    start?: string | null; due?: string | null; labels?: Array<{ name?: string; color?: string | null }>;
+  }>;
+  checklists?: Array<{ idCard: string; pos?: number; checkItems?: Array<{ name: string; state?: string; pos?: number }> }>;
+}
+
+const byPos = <T extends { pos?: number }>(a: T, b: T): number => (a.pos ?? 0) - (b.pos ?? 0);
+
+/** Tasks of a Trello board JSON export — archived lists and cards are left out. */
+export function parseTrello(text: string): ImportParseResult {
+  let data: TrelloExport;
+  try {
+    data = JSON.parse(text) as TrelloExport;
+  } catch {
+    return { ok: false, message: 'The file is not valid JSON' };
+  }
+  if (!Array.isArray(data?.lists) || !Array.isArray(data.cards)) {
+    return { ok: false, message: 'This is not a Trello board export — it has no lists and cards' };
+  }
+
+  const warnings: string[] = [];
+  const warn = (message: string) => warnings.push(message);
+  const lists  = data.lists.filter((l) => !l.closed).sort(byPos);
+  const listOf = new Map(lists.map((l) => [l.id, l]));
+  const labels: DraftLabel[] = [];
+
+  const labelName = (label: { name?: string; color?: string | null }): string => {
+    const name  = clip(label.name || label.color || '', MAX_LABEL_NAME);
+    const color = label.color ? TRELLO_COLORS[label.color] : undefined;
+    if (name && !labels.some((l) => sameName(l.name, name))) labels.push({ name, color });
+    return name;
+  };
+
+  const tasks = lists.flatMap((list) =>
+    data.cards!
+      .filter((c) => !c.closed && c.idList === list.id && c.name?.trim())
+      .sort(byPos)
+      .map((card) => draftTask({
+        title:       card.name,
+        description: card.desc,
+        column:      list.name,
+        labels:      (card.labels ?? []).map(labelName),
+        startAt:     parseImportDate(card.start),
+        dueAt:       parseImportDate(card.due),
+        checklist:   (data.checklists ?? [])
+          .filter((cl) => cl.idCard === card.id)
+          .sort(byPos)
+          .flatMap((cl) => [...(cl.checkItems ?? [])].sort(byPos))
+          .map((item) => ({ text: item.name, done: item.state === 'complete' })),
+      }, warn)),
+  );
+
+  const skipped = data.cards.filter((c) => !c.closed && !listOf.has(c.idList)).length;
+  if (skipped > 0) warn(`${skipped} card${skipped === 1 ? '' : 's'} in archived lists were skipped`);
+
+  const result = finish(tasks, warnings);
+  if (result.ok) {
+    // Every open list, even an empty one, and the labels with their colours
+    result.draft.columns = lists.map((l) => clip(l.name, MAX_COLUMN_TITLE)).filter(Boolean);
+    result.draft.labels  = labels.filter((l) => tasks.some((t) => t.labels.includes(l.name)));
+  }
+  return result;
+}
+
+/** The draft of an uploaded file. */
+export function parseImport(source: ImportSource, content: string, mapping?: CsvMapping): ImportParseResult {
+  switch (source) {
+    case 'trello': return parseTrello(content);
+    case 'jira':   return parseJiraCsv(content);
+    case 'csv':    return parseGenericCsv(content, mapping);
+  }
+}
+
+// ── Plan ──────────────────────────────────────────────────────────────────────
+
+/**
+ * Match `draft` against the board. Tasks without a column go to the
+ * board's first column. Each column's new tasks keep the draft's order
+ * below its current last card: rebalancedOrders spacing, offset by that
+ * card's order.
+ */
+export function planImport(draft: ImportDraft, target: ImportTarget): ImportPlan {
+  const columns: ImportPlan['columns'] = [];
+  const columnFor = (title: string): { id?: string; title: string } => {
+    const wanted   = title || target.columns[0]?.title || FALLBACK_COLUMN;
+    const planned  = columns.find((c) => sameName(c.title, wanted));
+    if (planned) return planned;
+    const existing = target.columns.find((c) => sameName(c.title, wanted));
+    const column   = existing ? { id: existing.id, title: existing.title } : { title: wanted };
+    columns.push(column);
+    return column;
+  };
+  for (const title of draft.columns) columnFor(title);
+
+  const labels: ImportPlan['labels'] = draft.labels.map((label) => {
+    const existing = target.labels.find((l) => sameName(l.name, label.name));
+    return existing ? { id: existing.id, name: existing.name } : { name: label.name, color: label.color };
+  });
+  const labelName = (name: string) => labels.find((l) => sameName(l.name, name))?.name ?? name;
+
+  const byColumn = new Map<string, DraftTask[]>();
+  for (const task of draft.tasks) {
+    const { title } = columnFor(task.column);
+    byColumn.set(title, [...(byColumn.get(title) ?? []), task]);
+  }
+
+  const tasks: PlannedTask[] = [];
+  for (const column of columns) {
+    const incoming = byColumn.get(column.title) ?? [];
+    const last     = Math.max(0, ...target.tasks.filter((t) => t.columnId === column.id).map((t) => t.order));
+    const orders   = rebalancedOrders(incoming.length);
+    incoming.forEach((task, i) => tasks.push({
+      ...task,
+      column: column.title,
+      labels: [...new Set(task.labels.map(labelName))],
+      order:  last + orders[i],
+    }));
+  }
+
+  return { columns, labels, tasks, warnings: draft.warnings };
+}
+
+/** The dry run of `plan`: per column, how many tasks land there and the first few. */
+export function previewImport(plan: ImportPlan, draft?: Pick<ImportDraft, 'headers' | 'mapping'>): ImportPreview {
+  return {
+    columns: plan.columns.map((column) => {
+      const tasks = plan.tasks.filter((t) => t.column === column.title);
+      return { title: column.title, isNew: !column.id, count: tasks.length, sample: tasks.slice(0, 5).map((t) => t.title) };
+    }),
+    labels:    plan.labels.map((l) => ({ name: l.name, isNew: !l.id })),
+    taskCount: plan.tasks.length,
+    warnings:  plan.warnings,
+    headers:   draft?.headers,
+    mapping:   draft?.mapping,
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * lib/checklist.ts
+ *
+ * Checklist operations on a task's item list (Task.checklist).
+ * Pure — no I/O. taskService.applyChecklistOp loads the task, applies one
+ * op here and stores the result.
+ *
+ * Items are ordered by fractional index like tasks in a column
+ * (lib/fractionalIndex.ts). The list lives inside its task, so when two
+ * neighbours get too close the whole list is simply renumbered in place —
+ * no rebalance job needed.
+ */
+import { orderBetween, needsRebalance, rebalancedOrders } from './fractionalIndex';
+
+export interface ChecklistItem {
+  id:    string;
+  text:  string;
+  done:  boolean;
+  order: number;
+}
+
+export type ChecklistOp =
+  | { kind: 'add';    id: string; text: string; order?: number }
+  | { kind: 'update'; id: string; text?: string; done?: boolean }
+  | { kind: 'move';   id: string; order: number }
+  | { kind: 'delete'; id: string };
+
+export type ChecklistResult =
+  | { ok: true;  items: ChecklistItem[] }
+  | { ok: false; code: string; message: string };
+
+/** Items one task may carry. */
+export const MAX_CHECKLIST_ITEMS = 100;
+
+function byOrder(items: ChecklistItem[]): ChecklistItem[] {
+  return [...items].sort((a, b) => a.order - b.order);
+}
+
+/** Sorted items, renumbered if any two neighbours leave no room between them. */
+function normalized(items: ChecklistItem[]): ChecklistItem[] {
+  const sorted  = byOrder(items);
+  const crowded = sorted.some((item, i) => i > 0 && needsRebalance(sorted[i - 1].order, item.order));
+  if (!crowded) return sorted;
+
+  const orders = rebalancedOrders(sorted.length);
+  return sorted.map((item, i) => ({ ...item, order: orders[i] }));
+}
+
+const missing = (id: string): ChecklistResult => ({
+  ok: false, code: 'ITEM_NOT_FOUND', message: `Checklist item ${id} no longer exists`,
+});
+
+/**
+ * Apply `op` to `items`. Returns the new list sorted by order; `items` is
+ * not modified. Deleting an item that is already gone is a no-op.
+ */
+export function applyChecklistOp(items: ChecklistItem[], op: ChecklistOp): ChecklistResult {
+  const index = items.findIndex((item) => item.id === op.id);
+
+  switch (op.kind) {
+    case 'add': {
+      if (index !== -1) {
+        return { ok: false, code: 'ITEM_EXISTS', message: `Checklist item ${op.id} already exists` };
+      }
+      if (items.length >= MAX_CHECKLIST_ITEMS) {
+        return { ok: false, code: 'CHECKLIST_FULL', message: `A checklist holds at most ${MAX_CHECKLIST_ITEMS} items` };
+      }
+      const last  = byOrder(items).at(-1);
+      const order = op.order ?? orderBetween(last?.order ?? null, null);
+      return { ok: true, items: normalized([...items, { id: op.id, text: op.text, done: false, order }]) };
+    }
+
+    case 'update': {
+      if (index === -1) return missing(op.id);
+      const item = items[index];
+      const next = { ...item, text: op.text ?? item.text, done: op.done ?? item.done };
+      return { ok: true, items: byOrder(items.map((i) => (i.id === op.id ? next : i))) };
+    }
+
+    case 'move': {
+      if (index === -1) return missing(op.id);
+      return { ok: true, items: normalized(items.map((i) => (i.id === op.id ? { ...i, order: op.order } : i))) };
+    }
+
+    case 'delete':
+      return { ok: true, items: byOrder(items.filter((i) => i.id !== op.id)) };
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * lib/dependencies.ts
+ *
+ * "Blocks" links between tasks (Task.blockedByIds).
+ * Pure — no I/O. taskService checks new links with findCycle before storing
+ * them, and asks openBlockers before a task enters a done column.
+ */
+
+/** What the checks need to know about a task of the board. */
+export interface DependencyNode {
+  id:           string;
+  columnId:     string;
+  blockedByIds: string[];
+}
+
+/**
+ * The cycle that giving `taskId` the blockers `blockedByIds` would close,
+ * as the chain of task ids from `taskId` back to itself — or null when the
+ * links are fine. A task blocking itself is a cycle of one.
+ *
+ * `tasks` are the board's other tasks; the current links of `taskId` are
+ * ignored since `blockedByIds` replaces them.
+ */
+export function findCycle(
+  tasks:        DependencyNode[],
+  taskId:       string,
+  blockedByIds: string[],
+): string[] | null {
+  const blockersOf = new Map(tasks.map((t) => [t.id, t.blockedByIds]));
+  blockersOf.set(taskId, blockedByIds);
+
+  // Depth-first from taskId along "is blocked by" — reaching taskId again
+  // means it would (transitively) block itself
+  const visited = new Set<string>();
+  const walk = (id: string, path: string[]): string[] | null => {
+    for (const blocker of blockersOf.get(id) ?? []) {
+      if (blocker === taskId) return [...path, blocker];
+      if (visited.has(blocker)) continue;
+      visited.add(blocker);
+      const cycle = walk(blocker, [...path, blocker]);
+      if (cycle) return cycle;
+    }
+    return null;
+  };
+
+  return walk(taskId, [taskId]);
+}
+
+/**
+ * Blockers of `task` that are not done yet — still on the board and outside
+ * the `doneColumnIds`. Ids of tasks that no longer exist are skipped.
+ */
+export function openBlockers<T extends DependencyNode>(
+  task:          DependencyNode,
+  tasks:         T[],
+  doneColumnIds: ReadonlySet<string>,
+): T[] {
+  return tasks.filter((t) => task.blockedByIds.includes(t.id) && !doneColumnIds.has(t.columnId));
+}
@@ -0,0 +1,26 @@
+/**
+ * lib/dueDates.ts
+ *
+ * When a task's due-soon reminder (TASK_DUE_SOON) should fire.
+ * Pure — no I/O. jobs/dueReminders.ts turns the result into a BullMQ delay.
+ */
+
+/** How long before its due date a task counts as "due soon". */
+export const DEFAULT_DUE_SOON_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Milliseconds from `now` until the reminder for a task due at `dueAt`
+ * should fire: `windowMs` before the due date, or immediately (0) if that
+ * moment has already passed. Null when there is nothing to remind about —
+ * no due date, an unparseable one, or one already in the past.
+ */
+export function reminderDelay(
+  dueAt:    string | undefined,
+  now:      number,
+  windowMs: number = DEFAULT_DUE_SOON_MS,
+): number | null {
+  if (!dueAt) return null;
+  const due = Date.parse(dueAt);
+  if (Number.isNaN(due) || due <= now) return null;
+  return Math.max(0, due - windowMs - now);
+}
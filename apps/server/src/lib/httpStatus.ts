@@ -0,0 +1,44 @@
+/**
+ * lib/httpStatus.ts
+ *
+ * HTTP status for a ServiceError code. Services report failures as string
+ * codes (the same ones the socket sends in ERROR events); the REST routes
+ * translate them with this one table so every endpoint agrees.
+ */
+
+const STATUS_BY_CODE: Readonly<Record<string, number>> = {
+  VALIDATION_ERROR:  400,
+  INVALID_QUERY:     400,
+  FORBIDDEN:         403,
+  NOT_FOUND:         404,
+  USER_NOT_FOUND:    404,
+  ITEM_NOT_FOUND:    404,
+  ALREADY_MEMBER:    409,
+  LAST_ADMIN:        409,
+  VERSION_MISMATCH:  409,
+  MOVE_CONFLICT:     409,
+  TEXT_BUSY:         409,
+  TEXT_RESYNC:       409,
+  COLUMN_BUSY:       409,
+  COLUMN_NOT_EMPTY:  409,
+  LABEL_EXISTS:      409,
+  ITEM_EXISTS:       409,
+  VIEW_EXISTS:       409,
+  TEMPLATE_EXISTS:   409,
+  TASK_EXISTS:       409,
+  DEPENDENCY_CYCLE:  409,
+  TASK_BLOCKED:      409,
+  WIP_LIMIT_EXCEEDED: 409,
+  DELIVERY_NOT_DEAD: 409,
+  INVALID_COLUMN:    422,
+  INVALID_ASSIGNEE:  422,
+  INVALID_DATES:     422,
+  INVALID_LABEL:     422,
+  INVALID_DEPENDENCY: 422,
+  CHECKLIST_FULL:    422,
+};
+
+/** Status for `code`; unknown codes (CREATE_FAILED, …) are server errors. */
+export function statusForCode(code: string): number {
+  return STATUS_BY_CODE[code] ?? 500;
+}
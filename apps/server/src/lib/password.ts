@@ -0,0 +1,30 @@
+/**
+ * lib/password.ts
+ *
+ * Password hashing with Node's built-in scrypt (no native dependencies).
+ * Stored format: `scrypt$<salt base64>$<key base64>`.
+ */
+import { randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const SALT_BYTES = 16;
+const KEY_BYTES  = 64;
+
+/** Hash a plain-text password with a fresh random salt. */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const key  = await scryptAsync(password, salt, KEY_BYTES);
+  return `scrypt$${salt.toString('base64')}$${key.toString('base64')}`;
+}
+
+/** Constant-time check of a plain-text password against a stored hash. */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, saltB64, keyB64] = stored.split('$');
+  if (scheme !== 'scrypt' || !saltB64 || !keyB64) return false;
+
+  const expected = Buffer.from(keyB64, 'base64');
+  const actual   = await scryptAsync(password, Buffer.from(saltB64, 'base64'), expected.length);
+  return timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,71 @@
+/**
+ * lib/permissions.ts
+ *
+ * Board role → permission matrix. Pure data + pure functions, shared by the
+ * socket authorization layer (ws/authorize.ts) and the REST routes so both
+ * transports enforce exactly the same rules.
+ */
+
+export type Role = 'viewer' | 'editor' | 'admin';
+
+export const ROLES: readonly Role[] = ['viewer', 'editor', 'admin'];
+
+export type Permission =
+  | 'board:view'        // snapshot, live events, presence
+  | 'task:edit'         // create / update / move / delete / restore tasks, checklists, comment
+  | 'column:manage'     // create / rename / reorder / archive columns
+  | 'label:manage'      // create / rename / recolor / delete board labels
+  | 'member:manage'     // invite, change roles, remove members
+  | 'comment:moderate'  // delete other people's comments
+  | 'wip:override'      // put tasks in a column past its WIP limit
+  | 'webhook:manage';   // add / change / remove outgoing webhooks, read their delivery log
+
+const MATRIX: Record<Role, ReadonlySet<Permission>> = {
+  viewer: new Set<Permission>(['board:view']),
+  editor: new Set<Permission>(['board:view', 'task:edit', 'label:manage']),
+  admin:  new Set<Permission>([
+    'board:view', 'task:edit', 'label:manage', 'column:manage', 'member:manage', 'comment:moderate', 'wip:override',
+    'webhook:manage',
+  ]),
+};
+
+/**
+ * Permission each client event requires. Events missing from this map are
+ * rejected — a new event must be added here before any role can send it.
+ */
+export const EVENT_PERMISSIONS: Readonly<Record<string, Permission>> = {
+  TASK_CREATE:     'task:edit',
+  TASK_UPDATE:     'task:edit',
+  TASK_MOVE:       'task:edit',
+  TASK_DELETE:     'task:edit',
+  TASK_RESTORE:    'task:edit',
+  TASK_TEXT_EDIT:  'task:edit',
+  TASK_BATCH:      'task:edit',
+  REPLAY_OPS:      'task:edit',
+  COLUMN_CREATE:   'column:manage',
+  COLUMN_UPDATE:   'column:manage',
+  COLUMN_MOVE:     'column:manage',
+  COLUMN_DELETE:   'column:manage',
+  CHECKLIST_ITEM_ADD:    'task:edit',
+  CHECKLIST_ITEM_UPDATE: 'task:edit',
+  CHECKLIST_ITEM_MOVE:   'task:edit',
+  CHECKLIST_ITEM_DELETE: 'task:edit',
+  COMMENT_CREATE:  'task:edit',
+  COMMENT_UPDATE:  'task:edit',
+  COMMENT_DELETE:  'task:edit',
+  LABEL_CREATE:    'label:manage',
+  LABEL_UPDATE:    'label:manage',
+  LABEL_DELETE:    'label:manage',
+  PRESENCE_UPDATE: 'board:view',
+};
+
+/** Whether `role` grants `permission`. A null role (not a member) grants nothing. */
+export function can(role: Role | null, permission: Permission): boolean {
+  return role !== null && MATRIX[role].has(permission);
+}
+
+/** Whether `role` may send the client event `eventType`. */
+export function canSend(role: Role | null, eventType: string): boolean {
+  const permission = EVENT_PERMISSIONS[eventType];
+  return permission !== undefined && can(role, permission);
+}
@@ -0,0 +1,180 @@
+/**
+ * lib/searchQuery.ts
+ *
+ * The board search language (GET /api/tasks/search?q=). Pure — no I/O.
+ *
+ *   column:done label:bug assignee:me "login page" updated:>7d
+ *
+ * Free words and "quoted phrases" are matched against title and description
+ * by Postgres full-text search (searchService). Qualifiers narrow the rest:
+ *
+ *   column:<title>     column title, any casing
+ *   label:<name>       label name, any casing
+ *   assignee:<name>    member display name, `me`, or `none` (unassigned)
+ *   creator:<name>     who created the task — display name or `me`
+ *   updater:<name>     who changed it last — likewise
+ *   priority:<level>   urgent | high | medium | low | none
+ *   updated:<when>     created:<when> likewise
+ *
+ * `<when>` is `>` or `<` and either an age — `7d` (also m, h, w) — or a day,
+ * `2024-03-01`. Ages read as "how long ago": `updated:>7d` means untouched
+ * for more than a week, `updated:<1d` changed within the last day. Days
+ * read as points in time: `created:>2024-03-01` means created after it.
+ *
+ * Values with spaces are quoted (`column:"In Progress"`). Repeating a
+ * qualifier matches any of its values; different qualifiers must all match.
+ * Words that only look like a qualifier (`http://…`) stay free text.
+ */
+
+export type SearchPriority = 'urgent' | 'high' | 'medium' | 'low' | 'none';
+
+/** Epoch-ms bounds, both optional and exclusive. */
+export interface TimeRange {
+  after?:  number;
+  before?: number;
+}
+
+export interface SearchQuery {
+  /** Free words and phrases, as typed (phrases without their quotes) */
+  terms:      string[];
+  /** Lower-cased qualifier values */
+  columns:    string[];
+  labels:     string[];
+  assignees:  string[];
+  creators:   string[];
+  updaters:   string[];
+  priorities: SearchPriority[];
+  updated:    TimeRange;
+  created:    TimeRange;
+}
+
+export type ParseResult =
+  | { ok: true;  query: SearchQuery }
+  | { ok: false; message: string };
+
+const PRIORITIES: readonly SearchPriority[] = ['urgent', 'high', 'medium', 'low', 'none'];
+
+const UNIT_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+const QUALIFIERS = ['column', 'label', 'assignee', 'creator', 'updater', 'priority', 'updated', 'created'] as const;
+type Qualifier = (typeof QUALIFIERS)[number];
+
+const isQualifier = (key: string): key is Qualifier => (QUALIFIERS as readonly string[]).includes(key);
+
+// key:"quoted value" | key:value | "quoted phrase" | word
+const TOKEN = /(\w+):"([^"]*)"|(\w+):(\S+)|"([^"]*)"|(\S+)/g;
+
+/** The range a `>7d` / `<2024-03-01` comparison describes at `now`, or null if malformed. */
+function parseWhen(value: string, now: number): TimeRange | null {
+  const match = /^([<>])(.+)$/.exec(value);
+  if (!match) return null;
+  const [, op, rest] = match;
+
+  const age = /^(\d+)([mhdw])$/.exec(rest);
+  if (age) {
+    // An age counts back from now — "more than 7d ago" is before that moment
+    const at = now - Number(age[1]) * UNIT_MS[age[2]];
+    return op === '>' ? { before: at } : { after: at };
+  }
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(rest)) return null;
+  const at = Date.parse(`${rest}T00:00:00Z`);
+  if (Number.isNaN(at)) return null;
+  return op === '>' ? { after: at } : { before: at };
+}
+
+/** Parse `input` into a SearchQuery; relative ages resolve against `now`. */
+export function parseSearchQuery(input: string, now: number): ParseResult {
+  const query: SearchQuery = {
+    terms: [], columns: [], labels: [], assignees: [], creators: [], updaters: [], priorities: [],
+    updated: {}, created: {},
+  };
+
+  for (const m of input.matchAll(TOKEN)) {
+    const key   = (m[1] ?? m[3])?.toLowerCase();
+    const value = m[2] ?? m[4];
+
+    if (key === undefined || !isQualifier(key)) {
+      const term = (m[5] ?? m[6] ?? m[0]).trim();
+      if (term) query.terms.push(term);
+      continue;
+    }
+
+    const lower = value.trim().toLowerCase();
+    if (!lower) return { ok: false, message: `${key}: needs a value` };
+
+    switch (key) {
+      case 'column':   query.columns.push(lower);   break;
+      case 'label':    query.labels.push(lower);    break;
+      case 'assignee': query.assignees.push(lower); break;
+      case 'creator':  query.creators.push(lower);  break;
+      case 'updater':  query.updaters.push(lower);  break;
+      case 'priority':
+        if (!(PRIORITIES as readonly string[]).includes(lower)) {
+          return { ok: false, message: `priority: must be one of ${PRIORITIES.join(', ')}` };
+        }
+        query.priorities.push(lower as SearchPriority);
+        break;
+      case 'updated':
+      case 'created': {
+        const range = parseWhen(lower, now);
+        if (!range) return { ok: false, message: `${key}: expects >7d, <2w, >2024-03-01 and the like` };
+        Object.assign(query[key], range);
+        break;
+      }
+    }
+  }
+
+  return { ok: true, query };
+}
+
+/** Whether a timestamp lies inside `range`. */
+export function inRange(iso: string, range: TimeRange): boolean {
+  const at = Date.parse(iso);
+  return (range.after === undefined || at > range.after) && (range.before === undefined || at < range.before);
+}
+
+/** Free text in websearch_to_tsquery syntax — phrases keep their quotes. */
+export function toWebSearch(terms: string[]): string {
+  return terms.map((t) => (/\s/.test(t) ? `"${t.replace(/"/g, '')}"` : t)).join(' ');
+}
+
+/** [start, end) of a highlighted stretch of text */
+export type Range = [number, number];
+
+const escapeRegExp = (s: string): string => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Where the `terms` occur in `text`, as sorted, non-overlapping ranges.
+ * Matches whole words, ignoring case, like the `simple` text search
+ * configuration; a phrase matches its words with any separators between.
+ */
+export function highlightRanges(text: string, terms: string[]): Range[] {
+  const ranges: Range[] = [];
+
+  for (const term of terms) {
+    const words = term.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+    if (words.length === 0) continue;
+
+    const pattern = new RegExp(
+      `(?<![\\p{L}\\p{N}])${words.map(escapeRegExp).join('[^\\p{L}\\p{N}]+')}(?![\\p{L}\\p{N}])`,
+      'giu',
+    );
+    for (const m of text.matchAll(pattern)) ranges.push([m.index, m.index + m[0].length]);
+  }
+
+  // Merge overlaps so the client can render the ranges in one pass
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: Range[] = [];
+  for (const range of ranges) {
+    const last = merged.at(-1);
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([...range]);
+  }
+  return merged;
+}
@@ -0,0 +1,47 @@
+/**
+ * lib/taskDiff.ts
+ *
+ * Field-level diff between two states of a task, stored in task_events.diff.
+ * Pure — no I/O. Only user-visible fields are tracked; bookkeeping fields
+ * (version, timestamps, attribution) are recorded on the event itself.
+ */
+import type { Task } from '../services/taskService';
+
+/** Task fields whose changes are recorded in history. */
+export const TRACKED_FIELDS = [
+  'title', 'description', 'columnId', 'order', 'assigneeIds', 'labelIds', 'startAt', 'dueAt',
+  'priority', 'estimate', 'blockedByIds',
+] as const;
+
+export type TrackedField = (typeof TRACKED_FIELDS)[number];
+
+export interface FieldChange {
+  from: unknown;
+  to:   unknown;
+}
+
+export type TaskDiff = Partial<Record<TrackedField, FieldChange>>;
+
+/** Equality of field values — arrays (assigneeIds, labelIds, blockedByIds) compare element-wise. */
+function sameValue(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => item === b[i]);
+  }
+  return a === b;
+}
+
+/**
+ * Changed tracked fields from `before` to `after`.
+ * A null `before` (create) or `after` (delete) diffs against nothing, so
+ * every tracked field shows up with `from: null` / `to: null`. Unset
+ * optional fields (startAt, dueAt, estimate) read as null too.
+ */
+export function diffTasks(before: Task | null, after: Task | null): TaskDiff {
+  const diff: TaskDiff = {};
+  for (const field of TRACKED_FIELDS) {
+    const from = before?.[field] ?? null;
+    const to   = after?.[field]  ?? null;
+    if (!sameValue(from, to)) diff[field] = { from, to };
+  }
+  return diff;
+}
@@ -0,0 +1,254 @@
+/**
+ * lib/textOt.ts
+ *
+ * Operational transformation for plain text — the sequence type behind
+ * collaborative editing of task titles and descriptions (TASK_TEXT_EDIT).
+ *
+ * An operation walks the whole document once, component by component:
+ *   n > 0    retain n characters
+ *   n < 0    delete -n characters
+ *   'text'   insert text
+ * so `[3, 'X', -2, 4]` on "abcdefghi" gives "abcXfghi".
+ *
+ * The server orders concurrent operations: a client op based on an older
+ * revision is transformed against every op applied since (transform), and
+ * clients transform incoming ops against their unacknowledged ones. TP1
+ * holds — apply(apply(s, a), b') === apply(apply(s, b), a') — so everyone
+ * converges without losing keystrokes.
+ *
+ * Pure — no I/O. Mirrored in apps/web/src/lib/textOt.ts.
+ */
+
+export type TextOpComponent = number | string;
+export type TextOp = TextOpComponent[];
+
+const isRetain = (c: TextOpComponent | undefined): c is number => typeof c === 'number' && c > 0;
+const isDelete = (c: TextOpComponent | undefined): c is number => typeof c === 'number' && c < 0;
+const isInsert = (c: TextOpComponent | undefined): c is string => typeof c === 'string';
+
+// ── Builders — keep ops canonical (merged runs, inserts before deletes) ───────
+
+function retain(op: TextOp, n: number): void {
+  if (n <= 0) return;
+  const last = op[op.length - 1];
+  if (isRetain(last)) op[op.length - 1] = last + n;
+  else op.push(n);
+}
+
+function insert(op: TextOp, text: string): void {
+  if (text === '') return;
+  const last = op[op.length - 1];
+  if (isInsert(last)) {
+    op[op.length - 1] = last + text;
+  } else if (isDelete(last)) {
+    // Insert-then-delete and delete-then-insert are the same edit; store the former
+    const prev = op[op.length - 2];
+    if (isInsert(prev)) {
+      op[op.length - 2] = prev + text;
+    } else {
+      op[op.length - 1] = text;
+      op.push(last);
+    }
+  } else {
+    op.push(text);
+  }
+}
+
+function remove(op: TextOp, n: number): void {
+  if (n <= 0) return;
+  const last = op[op.length - 1];
+  if (isDelete(last)) op[op.length - 1] = last - n;
+  else op.push(-n);
+}
+
+// ── Lengths ──────────────────────────────────────────────────────────────────
+
+/** Length of the document the op applies to. */
+export function baseLength(op: TextOp): number {
+  let n = 0;
+  for (const c of op) {
+    if (isRetain(c)) n += c;
+    else if (isDelete(c)) n -= c;
+  }
+  return n;
+}
+
+/** Length of the document the op produces. */
+export function targetLength(op: TextOp): number {
+  let n = 0;
+  for (const c of op) {
+    if (isRetain(c)) n += c;
+    else if (isInsert(c)) n += c.length;
+  }
+  return n;
+}
+
+/** True when the op changes nothing. */
+export function isNoop(op: TextOp): boolean {
+  return op.every(isRetain);
+}
+
+// ── Core ─────────────────────────────────────────────────────────────────────
+
+/** Apply `op` to `text`. Throws if the op was built for a different length. */
+export function applyOp(text: string, op: TextOp): string {
+  if (baseLength(op) !== text.length) {
+    throw new Error(`Operation expects length ${baseLength(op)}, document has ${text.length}`);
+  }
+
+  let out = '';
+  let pos = 0;
+  for (const c of op) {
+    if (isRetain(c)) {
+      out += text.slice(pos, pos + c);
+      pos += c;
+    } else if (isDelete(c)) {
+      pos -= c;
+    } else {
+      out += c;
+    }
+  }
+  return out;
+}
+
+/**
+ * Transform two concurrent ops on the same document into [a', b'] with
+ * apply(apply(s, a), b') === apply(apply(s, b), a').
+ *
+ * Inserts at the same position put `a`'s text first — callers pass the
+ * client op as `a` and the already-applied op as `b` on both sides.
+ */
+export function transform(a: TextOp, b: TextOp): [TextOp, TextOp] {
+  if (baseLength(a) !== baseLength(b)) {
+    throw new Error('Both operations must apply to the same document');
+  }
+
+  const a1: TextOp = [];
+  const b1: TextOp = [];
+  let i = 0;
+  let j = 0;
+  let o1 = a[i++];
+  let o2 = b[j++];
+
+  while (o1 !== undefined || o2 !== undefined) {
+    if (isInsert(o1)) {
+      insert(a1, o1);
+      retain(b1, o1.length);
+      o1 = a[i++];
+      continue;
+    }
+    if (isInsert(o2)) {
+      retain(a1, o2.length);
+      insert(b1, o2);
+      o2 = b[j++];
+      continue;
+    }
+    if (o1 === undefined || o2 === undefined) {
+      throw new Error('Operations have different lengths');
+    }
+
+    if (isRetain(o1) && isRetain(o2)) {
+      const n = Math.min(o1, o2);
+      retain(a1, n);
+      retain(b1, n);
+      o1 = o1 > n ? o1 - n : a[i++];
+      o2 = o2 > n ? o2 - n : b[j++];
+    } else if (isDelete(o1) && isDelete(o2)) {
+      // Both deleted the same text — nothing left to do on either side
+      const n = Math.min(-o1, -o2);
+      o1 = -o1 > n ? o1 + n : a[i++];
+      o2 = -o2 > n ? o2 + n : b[j++];
+    } else if (isDelete(o1) && isRetain(o2)) {
+      const n = Math.min(-o1, o2);
+      remove(a1, n);
+      o1 = -o1 > n ? o1 + n : a[i++];
+      o2 = o2 > n ? o2 - n : b[j++];
+    } else if (isRetain(o1) && isDelete(o2)) {
+      const n = Math.min(o1, -o2);
+      remove(b1, n);
+      o1 = o1 > n ? o1 - n : a[i++];
+      o2 = -o2 > n ? o2 + n : b[j++];
+    }
+  }
+
+  return [a1, b1];
+}
+
+/** Compose two consecutive ops into one: apply(s, compose(a, b)) === apply(apply(s, a), b). */
+export function compose(a: TextOp, b: TextOp): TextOp {
+  if (targetLength(a) !== baseLength(b)) {
+    throw new Error('The second operation must apply to the result of the first');
+  }
+
+  const out: TextOp = [];
+  let i = 0;
+  let j = 0;
+  let o1 = a[i++];
+  let o2 = b[j++];
+
+  while (o1 !== undefined || o2 !== undefined) {
+    if (isDelete(o1)) {
+      remove(out, -o1);
+      o1 = a[i++];
+      continue;
+    }
+    if (isInsert(o2)) {
+      insert(out, o2);
+      o2 = b[j++];
+      continue;
+    }
+    if (o1 === undefined || o2 === undefined) {
+      throw new Error('Operations have different lengths');
+    }
+
+    if (isRetain(o1) && isRetain(o2)) {
+      const n = Math.min(o1, o2);
+      retain(out, n);
+      o1 = o1 > n ? o1 - n : a[i++];
+      o2 = o2 > n ? o2 - n : b[j++];
+    } else if (isInsert(o1) && isDelete(o2)) {
+      // b deletes text a inserted — neither survives
+      const n = Math.min(o1.length, -o2);
+      o1 = o1.length > n ? o1.slice(n) : a[i++];
+      o2 = -o2 > n ? o2 + n : b[j++];
+    } else if (isInsert(o1) && isRetain(o2)) {
+      const n = Math.min(o1.length, o2);
+      insert(out, o1.slice(0, n));
+      o1 = o1.length > n ? o1.slice(n) : a[i++];
+      o2 = o2 > n ? o2 - n : b[j++];
+    } else if (isRetain(o1) && isDelete(o2)) {
+      const n = Math.min(o1, -o2);
+      remove(out, n);
+      o1 = o1 > n ? o1 - n : a[i++];
+      o2 = -o2 > n ? o2 + n : b[j++];
+    }
+  }
+
+  return out;
+}
+
+/**
+ * The op turning `before` into `after` — one changed span between the
+ * common prefix and suffix, which is what a single input event produces.
+ */
+export function diffOp(before: string, after: string): TextOp {
+  let prefix = 0;
+  const maxPrefix = Math.min(before.length, after.length);
+  while (prefix < maxPrefix && before[prefix] === after[prefix]) prefix++;
+
+  let suffix = 0;
+  const maxSuffix = maxPrefix - prefix;
+  while (
+    suffix < maxSuffix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const op: TextOp = [];
+  retain(op, prefix);
+  insert(op, after.slice(prefix, after.length - suffix));
+  remove(op, before.length - prefix - suffix);
+  retain(op, suffix);
+  return op;
+}
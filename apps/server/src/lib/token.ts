@@ -0,0 +1,67 @@
+/**
+ * lib/token.ts
+ *
+ * Stateless session tokens: `<claims>.<signature>`, both base64url.
+ *   claims    = JSON { sub: userId, iat, exp } (seconds since epoch)
+ *   signature = HMAC-SHA256(claims, secret)
+ *
+ * Pure functions — the secret and clock are passed in, so this module can be
+ * unit-tested without env vars. authService supplies AUTH_SECRET.
+ */
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+export interface TokenClaims {
+  /** User id the token was issued to */
+  sub: string;
+  /** Issued-at, seconds since epoch */
+  iat: number;
+  /** Expiry, seconds since epoch */
+  exp: number;
+}
+
+function sign(data: string, secret: string): string {
+  return createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+/**
+ * Issue a token for `userId` valid for `ttlSeconds`.
+ */
+export function signToken(
+  userId:     string,
+  secret:     string,
+  ttlSeconds: number,
+  now:        number = Date.now(),
+): string {
+  const iat    = Math.floor(now / 1000);
+  const claims: TokenClaims = { sub: userId, iat, exp: iat + ttlSeconds };
+  const body   = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${body}.${sign(body, secret)}`;
+}
+
+/**
+ * Verify signature and expiry. Returns the claims, or null for any token
+ * that is malformed, tampered with, or expired.
+ */
+export function verifyToken(
+  token:  string,
+  secret: string,
+  now:    number = Date.now(),
+): TokenClaims | null {
+  const [body, signature, ...rest] = token.split('.');
+  if (!body || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(body, secret));
+  const actual   = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  let claims: TokenClaims;
+  try {
+    claims = JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as TokenClaims;
+  } catch {
+    return null;
+  }
+
+  if (typeof claims.sub !== 'string' || typeof claims.exp !== 'number') return null;
+  if (claims.exp <= Math.floor(now / 1000)) return null;
+  return claims;
+}
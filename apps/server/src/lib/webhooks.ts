@@ -0,0 +1,166 @@
+/**
+ * lib/webhooks.ts
+ *
+ * Outgoing webhooks — what is sent and how it is signed
+ * (services/webhookService.ts, jobs/webhookWorker.ts).
+ * Pure — no I/O.
+ *
+ * Every task event of a board is offered to the board's subscriptions
+ * under the name clients know it by (TASK_CREATED, TASK_MOVED, …). A move
+ * into a done column from a column that isn't is also a TASK_COMPLETED, so
+ * CI and chat hooks can subscribe to just that.
+ *
+ * Each delivery is a JSON WebhookEnvelope POSTed with these headers:
+ *   X-Flowboard-Event      the event type
+ *   X-Flowboard-Delivery   the delivery id (the same on every retry)
+ *   X-Flowboard-Timestamp  unix seconds of this attempt
+ *   X-Flowboard-Signature  sha256=<hex HMAC-SHA256 of "<timestamp>.<body>">
+ *                          keyed with the subscription's secret
+ * Receivers recompute the signature (verifyWebhookSignature) and should
+ * refuse stale timestamps, so a captured request can't be replayed later.
+ *
+ * Receivers must be on the public internet: a subscription pointing at
+ * loopback, a private network or the cloud metadata address would let a
+ * board admin make the server call its own infrastructure, so deliveries
+ * only connect to addresses isPublicAddress accepts.
+ */
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { BlockList, isIP } from 'node:net';
+import type { TaskEventType } from '../services/historyService';
+import type { Task } from '../services/taskService';
+import type { WebhookEventType } from '../validation/webhookSchema';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+/** Column a task is in (or came from), as sent to receivers */
+export interface WebhookColumn {
+  id:     string;
+  title:  string;
+  isDone: boolean;
+}
+
+export interface WebhookEnvelope {
+  /** Delivery id — receivers can use it to drop repeats */
+  id:         string;
+  event:      WebhookEventType;
+  boardId:    string;
+  occurredAt: string;
+  data: {
+    /** The task after the event — before it, for TASK_DELETED */
+    task:        Task;
+    column?:     WebhookColumn;
+    /** Where a moved task came from */
+    fromColumn?: WebhookColumn;
+    /** Display name of the user who caused the event */
+    actor:       string;
+  };
+}
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+export const WEBHOOK_HEADERS = {
+  event:     'X-Flowboard-Event',
+  delivery:  'X-Flowboard-Delivery',
+  timestamp: 'X-Flowboard-Timestamp',
+  signature: 'X-Flowboard-Signature',
+} as const;
+
+/** How old a signed timestamp verifyWebhookSignature accepts by default */
+const DEFAULT_TOLERANCE_SECONDS = 5 * 60;
+
+// Addresses a receiver may not resolve to. One list per family: a BlockList
+// also matches IPv4 addresses against IPv4-mapped IPv6 rules.
+const NON_PUBLIC_IPV4 = new BlockList();
+const NON_PUBLIC_IPV6 = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0',     8],  // "this" network
+  ['10.0.0.0',    8],  // private
+  ['100.64.0.0',  10], // carrier-grade NAT
+  ['127.0.0.0',   8],  // loopback
+  ['169.254.0.0', 16], // link-local, incl. the 169.254.169.254 metadata service
+  ['172.16.0.0',  12], // private
+  ['192.0.0.0',   24], // protocol assignments
+  ['192.168.0.0', 16], // private
+  ['198.18.0.0',  15], // benchmarking
+  ['224.0.0.0',   4],  // multicast
+  ['240.0.0.0',   4],  // reserved, incl. broadcast
+] as const) NON_PUBLIC_IPV4.addSubnet(network, prefix, 'ipv4');
+for (const [network, prefix] of [
+  ['::',         96], // unspecified, loopback and IPv4-compatible
+  ['::ffff:0:0', 96], // IPv4-mapped — would reach any IPv4 address
+  ['64:ff9b::',  96], // NAT64 — likewise
+  ['fc00::',     7],  // unique local, incl. fd00:ec2::254 (metadata)
+  ['fe80::',     10], // link-local
+  ['ff00::',     8],  // multicast
+] as const) NON_PUBLIC_IPV6.addSubnet(network, prefix, 'ipv6');
+
+const EVENT_BY_TYPE: Record<TaskEventType, WebhookEventType> = {
+  created:  'TASK_CREATED',
+  updated:  'TASK_UPDATED',
+  moved:    'TASK_MOVED',
+  deleted:  'TASK_DELETED',
+  restored: 'TASK_RESTORED',
+};
+
+// ── Public Functions ──────────────────────────────────────────────────────────
+
+/**
+ * Webhook events a task event fires: its own, plus TASK_COMPLETED when a
+ * move takes the task from a column that isn't done into one that is.
+ */
+export function webhookEventsFor(
+  type:       TaskEventType,
+  fromColumn: Pick<WebhookColumn, 'isDone'> | undefined,
+  column:     Pick<WebhookColumn, 'isDone'> | undefined,
+): WebhookEventType[] {
+  const events = [EVENT_BY_TYPE[type]];
+  if (type === 'moved' && column?.isDone && !fromColumn?.isDone) events.push('TASK_COMPLETED');
+  return events;
+}
+
+/** `sha256=<hex>` — HMAC-SHA256 of `<timestamp>.<body>` keyed with `secret`. */
+export function signWebhook(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Whether `signature` is what signWebhook gives for this body and
+ * timestamp, and the timestamp is within `toleranceSeconds` of `now`
+ * (unix seconds). The receiver's side, used by tests and as a reference.
+ */
+export function verifyWebhookSignature(
+  secret:    string,
+  timestamp: number,
+  body:      string,
+  signature: string,
+  now:       number,
+  toleranceSeconds: number = DEFAULT_TOLERANCE_SECONDS,
+): boolean {
+  if (!Number.isFinite(timestamp) || Math.abs(now - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(signWebhook(secret, timestamp, body));
+  const actual   = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Whether a failed response is worth retrying: server errors, timeouts
+ * and rate limits are; any other 4xx means the receiver refused the
+ * delivery itself, and sending it again won't change that.
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 408 || status === 429;
+}
+
+/**
+ * Whether `address` (an IP literal) is one a webhook may be delivered to —
+ * not loopback, private, link-local (metadata), multicast or reserved.
+ * Anything that isn't an IP address is refused.
+ */
+export function isPublicAddress(address: string): boolean {
+  switch (isIP(address)) {
+    case 4:  return !NON_PUBLIC_IPV4.check(address, 'ipv4');
+    case 6:  return !NON_PUBLIC_IPV6.check(address, 'ipv6');
+    default: return false;
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * lib/wipLimits.ts
+ *
+ * Work-in-progress limits of board columns (BoardColumn.wipLimit).
+ * Pure — no I/O. taskService compares the board before and after a create,
+ * move or batch and refuses it with WIP_LIMIT_EXCEEDED when a column ends
+ * up past its limit.
+ */
+
+/** What the check needs to know about a column. */
+export interface WipColumn {
+  id:        string;
+  title:     string;
+  wipLimit?: number;
+}
+
+/**
+ * The first column of `columns` that a change takes past its WIP limit, or
+ * null. `before` / `after` are the board's live tasks around the change.
+ *
+ * Only a column that gains tasks can overflow: reordering inside a full
+ * column, or moving out of one already over its limit (the limit was
+ * lowered, or an admin overrode it), stays allowed.
+ */
+export function findWipOverflow(
+  columns: WipColumn[],
+  before:  Array<{ columnId: string }>,
+  after:   Array<{ columnId: string }>,
+): WipColumn | null {
+  const count = (tasks: Array<{ columnId: string }>, columnId: string): number =>
+    tasks.filter((t) => t.columnId === columnId).length;
+
+  for (const column of columns) {
+    if (column.wipLimit === undefined) continue;
+    const now = count(after, column.id);
+    if (now > column.wipLimit && now > count(before, column.id)) return column;
+  }
+  return null;
+}
@@ -0,0 +1,35 @@
+/**
+ * middleware/boardAccess.ts
+ *
+ * REST counterpart of ws/authorize.ts — the same permission matrix
+ * (lib/permissions.ts) applied to a board named in the request.
+ * Must run after requireAuth.
+ */
+import type { Response } from 'express';
+import { can, type Permission } from '../lib/permissions';
+import { getRole } from '../services/memberService';
+import { getAuthUser } from './requireAuth';
+
+/**
+ * Check the signed-in user's role on `boardId`. On failure sends the error
+ * response and returns false:
+ *   - not a member        → 404 (don't reveal that the board exists)
+ *   - role lacks the right → 403 FORBIDDEN
+ */
+export async function checkBoardPermission(
+  res:        Response,
+  boardId:    string,
+  permission: Permission,
+): Promise<boolean> {
+  const role = await getRole(boardId, getAuthUser(res).id);
+
+  if (!role) {
+    res.status(404).json({ ok: false, error: 'Board not found' });
+    return false;
+  }
+  if (!can(role, permission)) {
+    res.status(403).json({ ok: false, code: 'FORBIDDEN', error: `Your role (${role}) does not allow this` });
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,43 @@
+/**
+ * middleware/requireAuth.ts
+ *
+ * Express middleware — REST counterpart of ws/middleware.authenticate.
+ * Expects `Authorization: Bearer <token>`; on success the user is stored on
+ * `res.locals.user` for the route handler (read it with getAuthUser).
+ */
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import { authenticateToken, type User } from '../services/authService';
+
+async function authenticateRequest(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const header = req.headers.authorization ?? '';
+  const token  = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+
+  if (!token) {
+    res.status(401).json({ ok: false, error: 'Authentication required' });
+    return;
+  }
+
+  try {
+    const user = await authenticateToken(token);
+    if (!user) {
+      res.status(401).json({ ok: false, error: 'Invalid or expired session' });
+      return;
+    }
+
+    res.locals.user = user;
+    next();
+  } catch (err) {
+    console.error('[middleware.requireAuth]', err);
+    res.status(500).json({ ok: false, error: 'Failed to authenticate' });
+  }
+}
+
+/** Reject the request with 401 unless it carries a valid session token. */
+export const requireAuth: RequestHandler = (req, res, next) => {
+  void authenticateRequest(req, res, next);
+};
+
+/** The authenticated user of a request that passed requireAuth. */
+export function getAuthUser(res: Response): User {
+  return res.locals.user as User;
+}
@@ -0,0 +1,58 @@
+/**
+ * routes/auth.ts
+ *
+ * REST API for accounts.
+ *
+ * Routes:
+ *   POST /api/auth/register  — create an account  { email, password, displayName }
+ *   POST /api/auth/login     — sign in            { email, password }
+ *   GET  /api/auth/me        — the signed-in user (Bearer token)
+ *
+ * register / login respond with `{ user, token }`; the client sends the
+ * token as a Bearer header on REST calls and in the socket handshake.
+ */
+import { Router, type Request, type Response } from 'express';
+import { registerUser, loginUser } from '../services/authService';
+import { RegisterPayloadSchema, LoginPayloadSchema } from '../validation/authSchema';
+import { requireAuth, getAuthUser } from '../middleware/requireAuth';
+
+const router = Router();
+
+// POST /api/auth/register
+router.post('/register', async (req: Request, res: Response) => {
+  const parsed = RegisterPayloadSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ ok: false, error: parsed.error.message });
+    return;
+  }
+
+  const result = await registerUser(parsed.data);
+  if (!result.ok) {
+    res.status(result.code === 'EMAIL_TAKEN' ? 409 : 500).json({ ok: false, error: result.message });
+    return;
+  }
+  res.status(201).json({ ok: true, data: result.data });
+});
+
+// POST /api/auth/login
+router.post('/login', async (req: Request, res: Response) => {
+  const parsed = LoginPayloadSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ ok: false, error: parsed.error.message });
+    return;
+  }
+
+  const result = await loginUser(parsed.data);
+  if (!result.ok) {
+    res.status(result.code === 'INVALID_CREDENTIALS' ? 401 : 500).json({ ok: false, error: result.message });
+    return;
+  }
+  res.json({ ok: true, data: result.data });
+});
+
+// GET /api/auth/me
+router.get('/me', requireAuth, (_req: Request, res: Response) => {
+  res.json({ ok: true, data: getAuthUser(res) });
+});
+
+export default router;
@@ -0,0 +1,161 @@
+/**
+ * routes/boards.ts
+ *
+ * REST API for boards — powers the web board picker.
+ *
+ * Routes:
+ *   GET  /api/boards         — list the boards the user is a member of
+ *   POST /api/boards         — create a board  { name, templateId? } (creator becomes admin)
+ *   GET  /api/boards/:id     — fetch a single board (members only)
+ *   GET  /api/boards/:id/activity?limit=&before= — task events of the board, newest first
+ *   POST /api/boards/:id/duplicate — copy the board with its members  { name, keepCreators } (admins)
+ *   POST /api/boards/:id/templates — save the board as a template  { name, description, shared } (admins)
+ *   /api/boards/:boardId/members — see routes/members.ts
+ *   /api/boards/:boardId/trash   — see routes/trash.ts
+ *   /api/boards/:boardId/views   — see routes/views.ts
+ *   /api/boards/:boardId/export  — see routes/export.ts
+ *   /api/boards/:boardId/import  — see routes/import.ts
+ *   /api/boards/:boardId/webhooks — see routes/webhooks.ts
+ *
+ * Templates are listed and deleted under /api/templates (routes/templates.ts).
+ *
+ * Boards have no concurrent-edit semantics, so unlike tasks they are
+ * created over REST; joining a board happens over the socket handshake.
+ */
+import { Router, type Request, type Response } from 'express';
+import { listBoards, getBoard, createBoard, duplicateBoard } from '../services/boardService';
+import { saveTemplate } from '../services/templateService';
+import { CreateBoardPayloadSchema } from '../validation/boardSchema';
+import { CreateTemplatePayloadSchema, DuplicateBoardPayloadSchema } from '../validation/templateSchema';
+import { statusForCode } from '../lib/httpStatus';
+import { getAuthUser } from '../middleware/requireAuth';
+import { checkBoardPermission } from '../middleware/boardAccess';
+import { HistoryQuerySchema } from '../validation/historySchema';
+import { getBoardActivity } from '../services/historyService';
+import membersRouter from './members';
+import trashRouter from './trash';
+import viewsRouter from './views';
+import exportRouter from './export';
+import importRouter from './import';
+import webhooksRouter from './webhooks';
+
+const router = Router();
+
+// GET /api/boards
+router.get('/', async (_req: Request, res: Response) => {
+  try {
+    const boards = await listBoards(getAuthUser(res).id);
+    res.json({ ok: true, data: boards });
+  } catch (err) {
+    console.error('[GET /api/boards]', err);
+    res.status(500).json({ ok: false, error: 'Failed to fetch boards' });
+  }
+});
+
+// POST /api/boards
+router.post('/', async (req: Request, res: Response) => {
+  const parsed = CreateBoardPayloadSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ ok: false, error: parsed.error.message });
+    return;
+  }
+
+  const result = await createBoard(parsed.data, getAuthUser(res));
+  if (!result.ok) {
+    res.status(statusForCode(result.code)).json({ ok: false, code: result.code, error: result.message });
+    return;
+  }
+  res.status(201).json({ ok: true, data: result.data });
+});
+
+// GET /api/boards/:id
+router.get('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  const id = req.params.id;
+  try {
+    if (!(await checkBoardPermission(res, id, 'board:view'))) return;
+
+    const board = await getBoard(id);
+    if (!board) {
+      res.status(404).json({ ok: false, error: 'Board not found' });
+      return;
+    }
+    res.json({ ok: true, data: board });
+  } catch (err) {
+    console.error('[GET /api/boards/:id]', err);
+    res.status(500).json({ ok: false, error: 'Failed to fetch board' });
+  }
+});
+
+// GET /api/boards/:id/activity
+router.get('/:id/activity', async (req: Request<{ id: string }>, res: Response) => {
+  const query = HistoryQuerySchema.safeParse(req.query);
+  if (!query.success) {
+    res.status(400).json({ ok: false, error: query.error.message });
+    return;
+  }
+
+  try {
+    if (!(await checkBoardPermission(res, req.params.id, 'board:view'))) return;
+
+    res.json({ ok: true, data: await getBoardActivity(req.params.id, query.data) });
+  } catch (err) {
+    console.error('[GET /api/boards/:id/activity]', err);
+    res.status(500).json({ ok: false, error: 'Failed to fetch activity' });
+  }
+});
+
+// POST /api/boards/:id/duplicate
+router.post('/:id/duplicate', async (req: Request<{ id: string }>, res: Response) => {
+  const parsed = DuplicateBoardPayloadSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ ok: false, error: parsed.error.message });
+    return;
+  }
+
+  try {
+    // The copy takes the board's members along — an admin decision
+    if (!(await checkBoardPermission(res, req.params.id, 'member:manage'))) return;
+
+    const result = await duplicateBoard(req.params.id, parsed.data, getAuthUser(res));
+    if (!result.ok) {
+      res.status(statusForCode(result.code)).json({ ok: false, code: result.code, error: result.message });
+      return;
+    }
+    res.status(201).json({ ok: true, data: result.data });
+  } catch (err) {
+    console.error('[POST /api/boards/:id/duplicate]', err);
+    res.status(500).json({ ok: false, error: 'Failed to duplicate board' });
+  }
+});
+
+// POST /api/boards/:id/templates
+router.post('/:id/templates', async (req: Request<{ id: string }>, res: Response) => {
+  const parsed = CreateTemplatePayloadSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ ok: false, error: parsed.error.message });
+    return;
+  }
+
+  try {
+    if (!(await checkBoardPermission(res, req.params.id, 'column:manage'))) return;
+
+    const result = await saveTemplate({ boardId: req.params.id, user: getAuthUser(res) }, parsed.data);
+    if (!result.ok) {
+      res.status(statusForCode(result.code)).json({ ok: false, code: result.code, error: result.message });
+      return;
+    }
+    res.status(201).json({ ok: true, data: result.data });
+  } catch (err) {
+    console.error('[POST /api/boards/:id/templates]', err);
+    res.status(500).json({ ok: false, error: 'Failed to save template' });
+  }
+});
+
+router.use('/:boardId/members', membersRouter);
+router.use('/:boardId/trash', trashRouter);
+router.use('/:boardId/views', viewsRouter);
+router.use('/:boardId/export', exportRouter);
+router.use('/:boardId/import', importRouter);
+router.use('/:boardId/webhooks', webhooksRouter);
+
+export default router;
@@ -0,0 +1,55 @@
+/**
+ * routes/export.ts — mounted at /api/boards/:boardId/export
+ *
+ * Board export as a file download (lib/boardExport.ts).
+ *
+ * Routes:
+ *   GET /?format=json|csv|markdown — the whole board (any member)
+ *
+ * The JSON file is lossless — ids, orders, versions, the trash and
+ * comments — and serves as a backup independent of Supabase. The response
+ * is the file itself, not the usual `{ ok, data }` envelope; errors still
+ * use it.
+ */
+import { Router, type Request, type Response } from 'express';
+import { buildBoardExport } from '../services/exportService';
+import { renderExport } from '../lib/boardExport';
+import { ExportQuerySchema } from '../validation/exportSchema';
+import { checkBoardPermission } from '../middleware/boardAccess';
+import { statusForCode } from '../lib/httpStatus';
+
+const router = Router({ mergeParams: true });
+
+type BoardParams = { boardId: string };
+
+// GET /api/boards/:boardId/export?format=
+router.get('/', async (req: Request<BoardParams>, res: Response) => {
+  const { boardId } = req.params;
+  const query = ExportQuerySchema.safeParse(req.query);
+  if (!query.success) {
+    res.status(400).json({ ok: false, error: query.error.message });
+    return;
+  }
+
+  try {
+    if (!(await checkBoardPermission(res, boardId, 'board:view'))) return;
+
+    const result = await buildBoardExport(boardId);
+    if (!result.ok) {
+      res.status(statusForCode(result.code)).json({ ok: false, code: result.code, error: result.message });
+      return;
+    }
+
+    const file = renderExport(result.data, query.data.format);
+    res
+      .status(200)
+      .type(file.contentType)
+      .attachment(file.filename)
+      .send(file.body);
+  } catch (err) {
+    console.error('[GET /api/boards/:boardId/export]', err);
+    res.status(500).json({ ok: false, error: 'Failed to export board' });
+  }
+});
+
+export default router;
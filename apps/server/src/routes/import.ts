@@ -0,0 +1,94 @@
+/**
+ * routes/import.ts — mounted at /api/boards/:boardId/import
+ *
+ * Board import from Trello, Jira and CSV files (lib/boardImport.ts).
+ *
+ * Routes:
+ *   POST /preview — dry run: what the file would create   { source, content, mapping? }
+ *   POST /        — run the import as a BullMQ job (202)   { source, content, mapping? }
+ *
+ * Both are admin-only (column:manage) — an import may add columns and
+ * labels. The job (jobs/importWorker.ts) reports IMPORT_PROGRESS to the
+ * importing user's sockets on the board; open boards receive the new
+ * columns, labels and tasks as they are created.
+ */
+import express, { Router, type Request, type Response } from 'express';
+import { parseImport, planImport, previewImport } from '../lib/boardImport';
+import { enqueueImport } from '../jobs/importWorker';
+import { getColumns } from '../services/columnService';
+import { getLabels } from '../services/labelService';
+import { getAllTasks } from '../services/taskService';
+import { ImportRequestSchema } from '../validation/importSchema';
+import { getAuthUser } from '../middleware/requireAuth';
+import { checkBoardPermission } from '../middleware/boardAccess';
+
+const router = Router({ mergeParams: true });
+
+type BoardParams = { boardId: string };
+
+// Export files outgrow the app-wide 1 MB body limit
+router.use(express.json({ limit: '6mb' }));
+
+// POST /api/boards/:boardId/import/preview
+router.post('/preview', async (req: Request<BoardParams>, res: Response) => {
+  const { boardId } = req.params;
+  const body = ImportRequestSchema.safeParse(req.body);
+  if (!body.success) {
+    res.status(400).json({ ok: false, error: body.error.message });
+    return;
+  }
+
+  try {
+    if (!(await checkBoardPermission(res, boardId, 'column:manage'))) return;
+
+    const parsed = parseImport(body.data.source, body.data.content, body.data.mapping);
+    if (!parsed.ok) {
+      res.status(422).json({ ok: false, code: 'INVALID_IMPORT', error: parsed.message });
+      return;
+    }
+
+    const [columns, labels, tasks] = await Promise.all([
+      getColumns(boardId),
+      getLabels(boardId),
+      getAllTasks(boardId),
+    ]);
+    const plan = planImport(parsed.draft, { columns, labels, tasks });
+    res.json({ ok: true, data: previewImport(plan, parsed.draft) });
+  } catch (err) {
+    console.error('[POST /api/boards/:boardId/import/preview]', err);
+    res.status(500).json({ ok: false, error: 'Failed to read the import' });
+  }
+});
+
+// POST /api/boards/:boardId/import
+router.post('/', async (req: Request<BoardParams>, res: Response) => {
+  const { boardId } = req.params;
+  const body = ImportRequestSchema.safeParse(req.body);
+  if (!body.success) {
+    res.status(400).json({ ok: false, error: body.error.message });
+    return;
+  }
+
+  try {
+    if (!(await checkBoardPermission(res, boardId, 'column:manage'))) return;
+
+    const parsed = parseImport(body.data.source, body.data.content, body.data.mapping);
+    if (!parsed.ok) {
+      res.status(422).json({ ok: false, code: 'INVALID_IMPORT', error: parsed.message });
+      return;
+    }
+
+    if (parsed.draft.tasks.length === 0) {
+      res.status(422).json({ ok: false, code: 'INVALID_IMPORT', error: 'The file has no tasks to import' });
+      return;
+    }
+
+    const jobId = await enqueueImport({ boardId, user: getAuthUser(res), draft: parsed.draft });
+    res.status(202).json({ ok: true, data: { jobId, total: parsed.draft.tasks.length } });
+  } catch (err) {
+    console.error('[POST /api/boards/:boardId/import]', err);
+    res.status(500).json({ ok: false, error: 'Failed to start the import' });
+  }
+});
+
+export default router;
@@ -0,0 +1,136 @@
+/**
+ * routes/members.ts — mounted at /api/boards/:boardId/members
+ *
+ * REST API for board membership.
+ *
+ * Routes:
+ *   GET    /                — list members (any member)
+ *   POST   /                — add an existing user  { email, role } (admin)
+ *   PATCH  /:userId         — change a member's role { role }      (admin)
+ *   DELETE /:userId         — remove a member                       (admin)
+ *
+ * Every change is pushed to the board room so open clients stay in sync:
+ *   MEMBERS_CHANGED → everyone on the board (refetch the member list)
+ *   ROLE_CHANGED    → the affected user's sockets (new role applies at once)
+ *   removal         → the removed user's sockets get ERROR NOT_A_MEMBER
+ *                     and are disconnected
+ */
+import { Router, type Request, type Response } from 'express';
+import type { Server } from 'socket.io';
+import {
+  listMembers,
+  addMember,
+  updateMemberRole,
+  removeMember,
+} from '../services/memberService';
+import { AddMemberPayloadSchema, UpdateMemberPayloadSchema } from '../validation/memberSchema';
+import { uuidSchema } from '../validation/taskSchema';
+import { checkBoardPermission } from '../middleware/boardAccess';
+import { statusForCode } from '../lib/httpStatus';
+import { boardRoom, userSockets } from '../ws/socketContext';
+
+const router = Router({ mergeParams: true });
+
+type BoardParams  = { boardId: string };
+type MemberParams = { boardId: string; userId: string };
+
+// GET /api/boards/:boardId/members
+router.get('/', async (req: Request<BoardParams>, res: Response) => {
+  const { boardId } = req.params;
+  try {
+    if (!(await checkBoardPermission(res, boardId, 'board:view'))) return;
+
+    res.json({ ok: true, data: await listMembers(boardId) });
+  } catch (err) {
+    console.error('[GET /api/boards/:boardId/members]', err);
+    res.status(500).json({ ok: false, error: 'Failed to fetch members' });
+  }
+});
+
+// POST /api/boards/:boardId/members
+router.post('/', async (req: Request<BoardParams>, res: Response) => {
+  const { boardId } = req.params;
+  const parsed = AddMemberPayloadSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ ok: false, error: parsed.error.message });
+    return;
+  }
+
+  try {
+    if (!(await checkBoardPermission(res, boardId, 'member:manage'))) return;
+
+    const result = await addMember(boardId, parsed.data);
+    if (!result.ok) {
+      res.status(statusForCode(result.code)).json({ ok: false, code: result.code, error: result.message });
+      return;
+    }
+
+    (req.app.get('io') as Server).to(boardRoom(boardId)).emit('MEMBERS_CHANGED', { boardId });
+    res.status(201).json({ ok: true, data: result.data });
+  } catch (err) {
+    console.error('[POST /api/boards/:boardId/members]', err);
+    res.status(500).json({ ok: false, error: 'Failed to add member' });
+  }
+});
+
+// PATCH /api/boards/:boardId/members/:userId
+router.patch('/:userId', async (req: Request<MemberParams>, res: Response) => {
+  const { boardId, userId } = req.params;
+  const parsed = UpdateMemberPayloadSchema.safeParse(req.body);
+  if (!parsed.success || !uuidSchema.safeParse(userId).success) {
+    res.status(400).json({ ok: false, error: parsed.success ? 'userId must be a valid UUID' : parsed.error.message });
+    return;
+  }
+
+  try {
+    if (!(await checkBoardPermission(res, boardId, 'member:manage'))) return;
+
+    const result = await updateMemberRole(boardId, userId, parsed.data.role);
+    if (!result.ok) {
+      res.status(statusForCode(result.code)).json({ ok: false, code: result.code, error: result.message });
+      return;
+    }
+
+    const io = req.app.get('io') as Server;
+    for (const s of await userSockets(io, boardId, userId)) {
+      s.emit('ROLE_CHANGED', { role: result.data.role });
+    }
+    io.to(boardRoom(boardId)).emit('MEMBERS_CHANGED', { boardId });
+    res.json({ ok: true, data: result.data });
+  } catch (err) {
+    console.error('[PATCH /api/boards/:boardId/members/:userId]', err);
+    res.status(500).json({ ok: false, error: 'Failed to change role' });
+  }
+});
+
+// DELETE /api/boards/:boardId/members/:userId
+router.delete('/:userId', async (req: Request<MemberParams>, res: Response) => {
+  const { boardId, userId } = req.params;
+  if (!uuidSchema.safeParse(userId).success) {
+    res.status(400).json({ ok: false, error: 'userId must be a valid UUID' });
+    return;
+  }
+
+  try {
+    if (!(await checkBoardPermission(res, boardId, 'member:manage'))) return;
+
+    const result = await removeMember(boardId, userId);
+    if (!result.ok) {
+      res.status(statusForCode(result.code)).json({ ok: false, code: result.code, error: result.message });
+      return;
+    }
+
+    const io = req.app.get('io') as Server;
+    for (const s of await userSockets(io, boardId, userId)) {
+      s.emit('ERROR', { code: 'NOT_A_MEMBER', message: 'You were removed from this board' });
+      s.disconnect(true);
+    }
+    io.to(boardRoom(boardId)).emit('MEMBERS_CHANGED', { boardId });
+    res.json({ ok: true, data: result.data });
+  } catch (err) {
+    console.error('[DELETE /api/boards/:boardId/members/:userId]', err);
+    res.status(500).json({ ok: false, error: 'Failed to remove member' });
+  }
+});
+
+export default router;
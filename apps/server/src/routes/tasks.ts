@@ -1,25 +1,103 @@
 /**
  * routes/tasks.ts
  *
- * REST API for tasks — used as an HTTP fallback when websockets are
- * unavailable and as the initial board load endpoint.
+ * REST API for tasks — the initial board load endpoint, and a full HTTP
+ * alternative to the socket protocol for scripts and bots.
  *
  * Routes:
- *   GET  /api/tasks          — fetch all tasks (cold-boot / HTTP fallback)
- *   GET  /api/tasks/:id      — fetch a single task
+ *   GET    /api/tasks?boardId= — fetch all tasks of a board
+ *   GET    /api/tasks/search?boardId=&q=&limit= — search a board (lib/searchQuery.ts)
+ *   GET    /api/tasks/:id      — fetch a single task
+ *   GET    /api/tasks/:id/history?limit=&before= — change history, newest first
+ *   GET    /api/tasks/:id/comments — comment thread, oldest first
+ *   POST   /api/tasks          — create  { boardId, columnId, title, description?, order? }
+ *   PATCH  /api/tasks/:id      — update  { title?, description?, version }
+ *   POST   /api/tasks/:id/move — move    { columnId, order, version }
+ *   DELETE /api/tasks/:id      — delete (to the trash, see /api/boards/:id/trash)
  *
- * All mutations go through WebSocket — REST is read-only intentionally.
- * This keeps conflict resolution logic in one place (the WS handlers).
+ * Mutations validate with the same Zod payload schemas and call the same
+ * taskService functions as the WS handlers, under the same move lock and
+ * role checks, then broadcast the resulting TASK_* event to the board room
+ * so connected clients see REST edits live. ServiceError codes map to HTTP
+ * statuses via lib/httpStatus.
  */
 import { Router, type Request, type Response } from 'express';
-import { getAllTasks, getTaskById } from '../services/taskService';
+import type { Server } from 'socket.io';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  getAllTasks,
+  getTaskById,
+  createTask,
+  updateTask,
+  moveTask,
+  deleteTask,
+  type BoardContext,
+  type Task,
+} from '../services/taskService';
+import {
+  acquireMoveLock,
+  releaseMoveLock,
+  buildConflictPayload,
+} from '../services/conflictService';
+import { logConflict } from '../services/auditService';
+import { getTaskHistory } from '../services/historyService';
+import { getComments } from '../services/commentService';
+import { searchTasks } from '../services/searchService';
+import { BoardIdSchema } from '../validation/boardSchema';
+import { HistoryQuerySchema } from '../validation/historySchema';
+import { SearchQuerySchema } from '../validation/searchSchema';
+import {
+  CreateTaskPayloadSchema,
+  UpdateTaskPayloadSchema,
+  MoveTaskPayloadSchema,
+} from '../validation/taskSchema';
+import { getAuthUser } from '../middleware/requireAuth';
+import { checkBoardPermission } from '../middleware/boardAccess';
+import { statusForCode } from '../lib/httpStatus';
+import { boardRoom } from '../ws/socketContext';
 
 const router = Router();
 
-// GET /api/tasks
-router.get('/', async (_req: Request, res: Response) => {
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+/** Send a ServiceError-style failure with its mapped HTTP status. */
+function sendError(res: Response, code: string, message: string): void {
+  res.status(statusForCode(code)).json({ ok: false, code, error: message });
+}
+
+/** Broadcast a TASK_* event to everyone on the board, like the WS handlers do. */
+function broadcast(req: Request, boardId: string, event: string, payload: unknown): void {
+  (req.app.get('io') as Server).to(boardRoom(boardId)).emit(event, payload);
+}
+
+/**
+ * Load the task named by `:id` and check the caller may edit it.
+ * Sends 404 / 403 and returns null otherwise.
+ */
+async function loadEditableTask(res: Response, id: string): Promise<Task | null> {
+  const task = await getTaskById(id);
+  if (!task) {
+    res.status(404).json({ ok: false, code: 'NOT_FOUND', error: 'Task not found' });
+    return null;
+  }
+  if (!(await checkBoardPermission(res, task.boardId, 'task:edit'))) return null;
+  return task;
+}
+
+// ── Reads ─────────────────────────────────────────────────────────────────────
+
+// GET /api/tasks?boardId=<uuid>
+router.get('/', async (req: Request, res: Response) => {
+  const boardId = BoardIdSchema.safeParse(req.query.boardId);
+  if (!boardId.success) {
+    res.status(400).json({ ok: false, error: 'boardId query parameter is required' });
+    return;
+  }
+
   try {
-    const tasks = await getAllTasks();
+    if (!(await checkBoardPermission(res, boardId.data, 'board:view'))) return;
+
+    const tasks = await getAllTasks(boardId.data);
     res.json({ ok: true, data: tasks });
   } catch (err) {
     console.error('[GET /api/tasks]', err);
@@ -27,6 +105,24 @@ router.get('/', async (_req: Request, res: Response) => {
   }
 });
 
+// GET /api/tasks/search?boardId=<uuid>&q=<query> — before /:id, which would swallow it
+router.get('/search', async (req: Request, res: Response) => {
+  const query = SearchQuerySchema.safeParse(req.query);
+  if (!query.success) return sendError(res, 'VALIDATION_ERROR', query.error.message);
+
+  try {
+    if (!(await checkBoardPermission(res, query.data.boardId, 'board:view'))) return;
+
+    const result = await searchTasks(getAuthUser(res), query.data);
+    if (!result.ok) return sendError(res, result.code, result.message);
+
+    res.json({ ok: true, data: result.data });
+  } catch (err) {
+    console.error('[GET /api/tasks/search]', err);
+    res.status(500).json({ ok: false, error: 'Failed to search tasks' });
+  }
+});
+
 // GET /api/tasks/:id
 router.get('/:id', async (req: Request<{ id: string }>, res: Response) => {
   const id = req.params.id;
@@ -36,6 +132,8 @@ router.get('/:id', async (req: Request<{ id: string }>, res: Response) => {
       res.status(404).json({ ok: false, error: 'Task not found' });
       return;
     }
+    if (!(await checkBoardPermission(res, task.boardId, 'board:view'))) return;
+
     res.json({ ok: true, data: task });
   } catch (err) {
     console.error('[GET /api/tasks/:id]', err);
@@ -43,4 +141,170 @@ router.get('/:id', async (req: Request<{ id: string }>, res: Response) => {
   }
 });
 
+// GET /api/tasks/:id/history
+router.get('/:id/history', async (req: Request<{ id: string }>, res: Response) => {
+  const query = HistoryQuerySchema.safeParse(req.query);
+  if (!query.success) return sendError(res, 'VALIDATION_ERROR', query.error.message);
+
+  try {
+    // A deleted task is gone from the task store but keeps its history —
+    // fall back to the board recorded on its events.
+    const [task, events] = await Promise.all([
+      getTaskById(req.params.id),
+      getTaskHistory(req.params.id, query.data),
+    ]);
+    const boardId = task?.boardId ?? events[0]?.boardId;
+    if (!boardId) {
+      res.status(404).json({ ok: false, error: 'Task not found' });
+      return;
+    }
+    if (!(await checkBoardPermission(res, boardId, 'board:view'))) return;
+
+    res.json({ ok: true, data: events });
+  } catch (err) {
+    console.error('[GET /api/tasks/:id/history]', err);
+    res.status(500).json({ ok: false, error: 'Failed to fetch task history' });
+  }
+});
+
+// GET /api/tasks/:id/comments
+router.get('/:id/comments', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const task = await getTaskById(req.params.id);
+    if (!task) {
+      res.status(404).json({ ok: false, error: 'Task not found' });
+      return;
+    }
+    if (!(await checkBoardPermission(res, task.boardId, 'board:view'))) return;
+
+    res.json({ ok: true, data: await getComments(task.id) });
+  } catch (err) {
+    console.error('[GET /api/tasks/:id/comments]', err);
+    res.status(500).json({ ok: false, error: 'Failed to fetch comments' });
+  }
+});
+
+// ── Mutations ─────────────────────────────────────────────────────────────────
+
+// POST /api/tasks
+router.post('/', async (req: Request, res: Response) => {
+  const body    = (req.body ?? {}) as Record<string, unknown>;
+  const boardId = BoardIdSchema.safeParse(body.boardId);
+  // Socket clients pick the id for optimistic UI; over HTTP the server does
+  const parsed  = CreateTaskPayloadSchema.safeParse({ ...body, id: uuidv4() });
+  if (!boardId.success) return sendError(res, 'VALIDATION_ERROR', 'boardId is required');
+  if (!parsed.success)  return sendError(res, 'VALIDATION_ERROR', parsed.error.message);
+
+  try {
+    if (!(await checkBoardPermission(res, boardId.data, 'task:edit'))) return;
+
+    const ctx: BoardContext = { boardId: boardId.data, user: getAuthUser(res) };
+    const result = await createTask(ctx, parsed.data);
+    if (!result.ok) return sendError(res, result.code, result.message);
+
+    broadcast(req, ctx.boardId, 'TASK_CREATED', result.data);
+    res.status(201).json({ ok: true, data: result.data });
+  } catch (err) {
+    console.error('[POST /api/tasks]', err);
+    res.status(500).json({ ok: false, error: 'Failed to create task' });
+  }
+});
+
+// PATCH /api/tasks/:id
+router.patch('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  const parsed = UpdateTaskPayloadSchema.safeParse({ ...req.body, id: req.params.id });
+  if (!parsed.success) return sendError(res, 'VALIDATION_ERROR', parsed.error.message);
+
+  try {
+    const task = await loadEditableTask(res, parsed.data.id);
+    if (!task) return;
+
+    const ctx: BoardContext = { boardId: task.boardId, user: getAuthUser(res) };
+    const result = await updateTask(ctx, parsed.data);
+    if (!result.ok) return sendError(res, result.code, result.message);
+
+    broadcast(req, ctx.boardId, 'TASK_UPDATED', result.data);
+    res.json({ ok: true, data: result.data });
+  } catch (err) {
+    console.error('[PATCH /api/tasks/:id]', err);
+    res.status(500).json({ ok: false, error: 'Failed to update task' });
+  }
+});
+
+// POST /api/tasks/:id/move
+router.post('/:id/move', async (req: Request<{ id: string }>, res: Response) => {
+  const parsed = MoveTaskPayloadSchema.safeParse({ ...req.body, id: req.params.id });
+  if (!parsed.success) return sendError(res, 'VALIDATION_ERROR', parsed.error.message);
+
+  const payload = parsed.data;
+  try {
+    const task = await loadEditableTask(res, payload.id);
+    if (!task) return;
+
+    const ctx: BoardContext = { boardId: task.boardId, user: getAuthUser(res) };
+
+    // Same per-task move lock as handleTaskMove (DESIGN.md Rule 2) — a REST
+    // move racing a drag loses exactly like a second socket would.
+    const lockResult = await acquireMoveLock(payload.id, task, ctx.user.id);
+    if (!lockResult.acquired) {
+      const conflict = buildConflictPayload(payload.id, lockResult.resolvedState!, 'TASK_MOVE');
+
+      void logConflict({
+        taskId:        payload.id,
+        winnerEvent:   'TASK_MOVE',
+        loserEvent:    'TASK_MOVE',
+        winnerUserId:  lockResult.holderUserId ?? 'unknown',
+        loserUserId:   ctx.user.id,
+        resolvedState: lockResult.resolvedState!,
+        resolutionMsg: conflict.message,
+      });
+
+      res.status(statusForCode('MOVE_CONFLICT')).json({
+        ok:            false,
+        code:          'MOVE_CONFLICT',
+        error:         conflict.message,
+        resolvedState: conflict.resolvedState,
+      });
+      return;
+    }
+
+    try {
+      const result = await moveTask(ctx, payload);
+      if (!result.ok) return sendError(res, result.code, result.message);
+
+      broadcast(req, ctx.boardId, 'TASK_MOVED', result.data);
+      res.json({ ok: true, data: result.data });
+    } finally {
+      await releaseMoveLock(payload.id, ctx.user.id);
+    }
+  } catch (err) {
+    console.error('[POST /api/tasks/:id/move]', err);
+    res.status(500).json({ ok: false, error: 'Failed to move task' });
+  }
+});
+
+// DELETE /api/tasks/:id
+router.delete('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const task = await getTaskById(req.params.id);
+    // Idempotent like TASK_DELETE — an unknown task is already gone
+    if (!task) {
+      res.json({ ok: true, data: { id: req.params.id } });
+      return;
+    }
+    if (!(await checkBoardPermission(res, task.boardId, 'task:edit'))) return;
+
+    const ctx: BoardContext = { boardId: task.boardId, user: getAuthUser(res) };
+    const result = await deleteTask(ctx, { id: task.id });
+    if (!result.ok) return sendError(res, result.code, result.message);
+
+    broadcast(req, ctx.boardId, 'TASK_DELETED', { id: result.data.id });
+
+    res.json({ ok: true, data: result.data });
+  } catch (err) {
+    console.error('[DELETE /api/tasks/:id]', err);
+    res.status(500).json({ ok: false, error: 'Failed to delete task' });
+  }
+});
+
 export default router;
@@ -0,0 +1,48 @@
+/**
+ * routes/templates.ts — mounted at /api/templates
+ *
+ * REST API for board templates (services/templateService.ts).
+ *
+ * Routes:
+ *   GET    /              — the user's templates and the shared ones
+ *   DELETE /:templateId   — delete one of the user's templates
+ *
+ * Saving a board as a template is POST /api/boards/:id/templates, and a
+ * board is made from one with POST /api/boards { name, templateId } —
+ * see routes/boards.ts.
+ */
+import { Router, type Request, type Response } from 'express';
+import { deleteTemplate, listTemplates } from '../services/templateService';
+import { uuidSchema } from '../validation/taskSchema';
+import { getAuthUser } from '../middleware/requireAuth';
+import { statusForCode } from '../lib/httpStatus';
+
+const router = Router();
+
+// GET /api/templates
+router.get('/', async (_req: Request, res: Response) => {
+  try {
+    res.json({ ok: true, data: await listTemplates(getAuthUser(res).id) });
+  } catch (err) {
+    console.error('[GET /api/templates]', err);
+    res.status(500).json({ ok: false, error: 'Failed to fetch templates' });
+  }
+});
+
+// DELETE /api/templates/:templateId
+router.delete('/:templateId', async (req: Request<{ templateId: string }>, res: Response) => {
+  const { templateId } = req.params;
+  if (!uuidSchema.safeParse(templateId).success) {
+    res.status(400).json({ ok: false, error: 'templateId must be a valid UUID' });
+    return;
+  }
+
+  const result = await deleteTemplate(getAuthUser(res).id, templateId);
+  if (!result.ok) {
+    res.status(statusForCode(result.code)).json({ ok: false, code: result.code, error: result.message });
+    return;
+  }
+  res.json({ ok: true, data: result.data });
+});
+
+export default router;
@@ -0,0 +1,68 @@
+/**
+ * routes/trash.ts — mounted at /api/boards/:boardId/trash
+ *
+ * REST API for a board's deleted tasks.
+ *
+ * Routes:
+ *   GET  /                  — deleted tasks, most recent first (any member)
+ *   POST /:taskId/restore   — put a task back where it was     (editor+)
+ *
+ * A restore is broadcast as TASK_RESTORED to the board room, exactly like
+ * the TASK_RESTORE socket event. Tasks leave the trash for good when the
+ * purge job removes them (TRASH_RETENTION_DAYS, jobs/dbFlushWorker.ts).
+ */
+import { Router, type Request, type Response } from 'express';
+import type { Server } from 'socket.io';
+import { getDeletedTasks, restoreTask, type BoardContext } from '../services/taskService';
+import { RestoreTaskPayloadSchema } from '../validation/taskSchema';
+import { getAuthUser } from '../middleware/requireAuth';
+import { checkBoardPermission } from '../middleware/boardAccess';
+import { statusForCode } from '../lib/httpStatus';
+import { boardRoom } from '../ws/socketContext';
+
+const router = Router({ mergeParams: true });
+
+type BoardParams = { boardId: string };
+type TaskParams  = { boardId: string; taskId: string };
+
+// GET /api/boards/:boardId/trash
+router.get('/', async (req: Request<BoardParams>, res: Response) => {
+  const { boardId } = req.params;
+  try {
+    if (!(await checkBoardPermission(res, boardId, 'board:view'))) return;
+
+    res.json({ ok: true, data: await getDeletedTasks(boardId) });
+  } catch (err) {
+    console.error('[GET /api/boards/:boardId/trash]', err);
+    res.status(500).json({ ok: false, error: 'Failed to fetch trash' });
+  }
+});
+
+// POST /api/boards/:boardId/trash/:taskId/restore
+router.post('/:taskId/restore', async (req: Request<TaskParams>, res: Response) => {
+  const { boardId, taskId } = req.params;
+  const parsed = RestoreTaskPayloadSchema.safeParse({ id: taskId });
+  if (!parsed.success) {
+    res.status(400).json({ ok: false, error: parsed.error.message });
+    return;
+  }
+
+  try {
+    if (!(await checkBoardPermission(res, boardId, 'task:edit'))) return;
+
+    const ctx: BoardContext = { boardId, user: getAuthUser(res) };
+    const result = await restoreTask(ctx, parsed.data);
+    if (!result.ok) {
+      res.status(statusForCode(result.code)).json({ ok: false, code: result.code, error: result.message });
+      return;
+    }
+
+    (req.app.get('io') as Server).to(boardRoom(boardId)).emit('TASK_RESTORED', result.data);
+    res.json({ ok: true, data: result.data });
+  } catch (err) {
+    console.error('[POST /api/boards/:boardId/trash/:taskId/restore]', err);
+    res.status(500).json({ ok: false, error: 'Failed to restore task' });
+  }
+});
+
+export default router;
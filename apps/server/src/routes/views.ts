@@ -0,0 +1,127 @@
+/**
+ * routes/views.ts — mounted at /api/boards/:boardId/views
+ *
+ * REST API for saved board views (services/viewService.ts).
+ *
+ * Routes:
+ *   GET    /          — the user's views and the board's shared views (any member)
+ *   POST   /          — save a view   { name, query, sortField, sortDirection, groupBy, shared }
+ *   PATCH  /:viewId   — change one of the user's views (any subset of the above)
+ *   DELETE /:viewId   — delete one of the user's views
+ *
+ * Views are a per-user setting, so viewers may save them too. Changes that
+ * others can see (a shared view, or one that stopped being shared) push
+ * VIEWS_CHANGED to the board room so open clients refetch the list.
+ */
+import { Router, type Request, type Response } from 'express';
+import type { Server } from 'socket.io';
+import { createView, deleteView, listViews, updateView } from '../services/viewService';
+import type { BoardContext } from '../services/taskService';
+import { CreateViewPayloadSchema, UpdateViewPayloadSchema } from '../validation/viewSchema';
+import { uuidSchema } from '../validation/taskSchema';
+import { getAuthUser } from '../middleware/requireAuth';
+import { checkBoardPermission } from '../middleware/boardAccess';
+import { statusForCode } from '../lib/httpStatus';
+import { boardRoom } from '../ws/socketContext';
+
+const router = Router({ mergeParams: true });
+
+type BoardParams = { boardId: string };
+type ViewParams  = { boardId: string; viewId: string };
+
+function viewsChanged(req: Request, boardId: string): void {
+  (req.app.get('io') as Server).to(boardRoom(boardId)).emit('VIEWS_CHANGED', { boardId });
+}
+
+// GET /api/boards/:boardId/views
+router.get('/', async (req: Request<BoardParams>, res: Response) => {
+  const { boardId } = req.params;
+  try {
+    if (!(await checkBoardPermission(res, boardId, 'board:view'))) return;
+
+    const ctx: BoardContext = { boardId, user: getAuthUser(res) };
+    res.json({ ok: true, data: await listViews(ctx) });
+  } catch (err) {
+    console.error('[GET /api/boards/:boardId/views]', err);
+    res.status(500).json({ ok: false, error: 'Failed to fetch views' });
+  }
+});
+
+// POST /api/boards/:boardId/views
+router.post('/', async (req: Request<BoardParams>, res: Response) => {
+  const { boardId } = req.params;
+  const parsed = CreateViewPayloadSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ ok: false, error: parsed.error.message });
+    return;
+  }
+
+  try {
+    if (!(await checkBoardPermission(res, boardId, 'board:view'))) return;
+
+    const result = await createView({ boardId, user: getAuthUser(res) }, parsed.data);
+    if (!result.ok) {
+      res.status(statusForCode(result.code)).json({ ok: false, code: result.code, error: result.message });
+      return;
+    }
+
+    if (result.data.shared) viewsChanged(req, boardId);
+    res.status(201).json({ ok: true, data: result.data });
+  } catch (err) {
+    console.error('[POST /api/boards/:boardId/views]', err);
+    res.status(500).json({ ok: false, error: 'Failed to save view' });
+  }
+});
+
+// PATCH /api/boards/:boardId/views/:viewId
+router.patch('/:viewId', async (req: Request<ViewParams>, res: Response) => {
+  const { boardId, viewId } = req.params;
+  const parsed = UpdateViewPayloadSchema.safeParse(req.body);
+  if (!parsed.success || !uuidSchema.safeParse(viewId).success) {
+    res.status(400).json({ ok: false, error: parsed.success ? 'viewId must be a valid UUID' : parsed.error.message });
+    return;
+  }
+
+  try {
+    if (!(await checkBoardPermission(res, boardId, 'board:view'))) return;
+
+    const result = await updateView({ boardId, user: getAuthUser(res) }, viewId, parsed.data);
+    if (!result.ok) {
+      res.status(statusForCode(result.code)).json({ ok: false, code: result.code, error: result.message });
+      return;
+    }
+
+    if (result.data.shared || parsed.data.shared === false) viewsChanged(req, boardId);
+    res.json({ ok: true, data: result.data });
+  } catch (err) {
+    console.error('[PATCH /api/boards/:boardId/views/:viewId]', err);
+    res.status(500).json({ ok: false, error: 'Failed to update view' });
+  }
+});
+
+// DELETE /api/boards/:boardId/views/:viewId
+router.delete('/:viewId', async (req: Request<ViewParams>, res: Response) => {
+  const { boardId, viewId } = req.params;
+  if (!uuidSchema.safeParse(viewId).success) {
+    res.status(400).json({ ok: false, error: 'viewId must be a valid UUID' });
+    return;
+  }
+
+  try {
+    if (!(await checkBoardPermission(res, boardId, 'board:view'))) return;
+
+    const result = await deleteView({ boardId, user: getAuthUser(res) }, viewId);
+    if (!result.ok) {
+      res.status(statusForCode(result.code)).json({ ok: false, code: result.code, error: result.message });
+      return;
+    }
+
+    if (result.data.shared) viewsChanged(req, boardId);
+    res.json({ ok: true, data: result.data });
+  } catch (err) {
+    console.error('[DELETE /api/boards/:boardId/views/:viewId]', err);
+    res.status(500).json({ ok: false, error: 'Failed to delete view' });
+  }
+});
+
+export default router;
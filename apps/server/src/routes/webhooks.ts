@@ -0,0 +1,204 @@
+/**
+ * routes/webhooks.ts — mounted at /api/boards/:boardId/webhooks
+ *
+ * REST API for the board's outgoing webhooks (services/webhookService.ts,
+ * jobs/webhookWorker.ts). Admins only ('webhook:manage').
+ *
+ * Routes:
+ *   GET    /                        — the board's subscriptions (secrets as hints)
+ *   POST   /                        — subscribe  { url, events, secret?, active } → includes the secret
+ *   PATCH  /:webhookId              — change     { url?, events?, active?, rotateSecret? }
+ *   DELETE /:webhookId              — unsubscribe, dropping its delivery log
+ *   GET    /:webhookId/deliveries?status=&limit= — delivery log, newest first
+ *   GET    /dead-letters?limit=     — deliveries of any subscription that gave up
+ *   POST   /deliveries/:deliveryId/redeliver — send a dead delivery again
+ *
+ * Payload format and signature: lib/webhooks.ts.
+ */
+import { Router, type Request, type Response } from 'express';
+import { redeliverWebhook } from '../jobs/webhookWorker';
+import {
+  createWebhook,
+  deleteWebhook,
+  listDeadLetters,
+  listDeliveries,
+  listWebhooks,
+  updateWebhook,
+} from '../services/webhookService';
+import {
+  CreateWebhookPayloadSchema,
+  DeliveryQuerySchema,
+  UpdateWebhookPayloadSchema,
+} from '../validation/webhookSchema';
+import { uuidSchema } from '../validation/taskSchema';
+import { getAuthUser } from '../middleware/requireAuth';
+import { checkBoardPermission } from '../middleware/boardAccess';
+import { statusForCode } from '../lib/httpStatus';
+
+const router = Router({ mergeParams: true });
+
+type BoardParams    = { boardId: string };
+type WebhookParams  = { boardId: string; webhookId: string };
+type DeliveryParams = { boardId: string; deliveryId: string };
+
+// GET /api/boards/:boardId/webhooks
+router.get('/', async (req: Request<BoardParams>, res: Response) => {
+  const { boardId } = req.params;
+  try {
+    if (!(await checkBoardPermission(res, boardId, 'webhook:manage'))) return;
+
+    const result = await listWebhooks(boardId);
+    if (!result.ok) {
+      res.status(statusForCode(result.code)).json({ ok: false, code: result.code, error: result.message });
+      return;
+    }
+    res.json({ ok: true, data: result.data });
+  } catch (err) {
+    console.error('[GET /api/boards/:boardId/webhooks]', err);
+    res.status(500).json({ ok: false, error: 'Failed to fetch webhooks' });
+  }
+});
+
+// POST /api/boards/:boardId/webhooks
+router.post('/', async (req: Request<BoardParams>, res: Response) => {
+  const { boardId } = req.params;
+  const parsed = CreateWebhookPayloadSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ ok: false, error: parsed.error.message });
+    return;
+  }
+
+  try {
+    if (!(await checkBoardPermission(res, boardId, 'webhook:manage'))) return;
+
+    const result = await createWebhook({ boardId, user: getAuthUser(res) }, parsed.data);
+    if (!result.ok) {
+      res.status(statusForCode(result.code)).json({ ok: false, code: result.code, error: result.message });
+      return;
+    }
+    res.status(201).json({ ok: true, data: result.data });
+  } catch (err) {
+    console.error('[POST /api/boards/:boardId/webhooks]', err);
+    res.status(500).json({ ok: false, error: 'Failed to create webhook' });
+  }
+});
+
+// GET /api/boards/:boardId/webhooks/dead-letters
+router.get('/dead-letters', async (req: Request<BoardParams>, res: Response) => {
+  const { boardId } = req.params;
+  const query = DeliveryQuerySchema.pick({ limit: true }).safeParse(req.query);
+  if (!query.success) {
+    res.status(400).json({ ok: false, error: query.error.message });
+    return;
+  }
+
+  try {
+    if (!(await checkBoardPermission(res, boardId, 'webhook:manage'))) return;
+
+    const result = await listDeadLetters(boardId, query.data.limit);
+    if (!result.ok) {
+      res.status(statusForCode(result.code)).json({ ok: false, code: result.code, error: result.message });
+      return;
+    }
+    res.json({ ok: true, data: result.data });
+  } catch (err) {
+    console.error('[GET /api/boards/:boardId/webhooks/dead-letters]', err);
+    res.status(500).json({ ok: false, error: 'Failed to fetch dead letters' });
+  }
+});
+
+// POST /api/boards/:boardId/webhooks/deliveries/:deliveryId/redeliver
+router.post('/deliveries/:deliveryId/redeliver', async (req: Request<DeliveryParams>, res: Response) => {
+  const { boardId, deliveryId } = req.params;
+  if (!uuidSchema.safeParse(deliveryId).success) {
+    res.status(400).json({ ok: false, error: 'deliveryId must be a valid UUID' });
+    return;
+  }
+
+  try {
+    if (!(await checkBoardPermission(res, boardId, 'webhook:manage'))) return;
+
+    const result = await redeliverWebhook({ boardId, user: getAuthUser(res) }, deliveryId);
+    if (!result.ok) {
+      res.status(statusForCode(result.code)).json({ ok: false, code: result.code, error: result.message });
+      return;
+    }
+    res.status(202).json({ ok: true, data: result.data });
+  } catch (err) {
+    console.error('[POST /api/boards/:boardId/webhooks/deliveries/:deliveryId/redeliver]', err);
+    res.status(500).json({ ok: false, error: 'Failed to queue the delivery' });
+  }
+});
+
+// PATCH /api/boards/:boardId/webhooks/:webhookId
+router.patch('/:webhookId', async (req: Request<WebhookParams>, res: Response) => {
+  const { boardId, webhookId } = req.params;
+  const parsed = UpdateWebhookPayloadSchema.safeParse(req.body);
+  if (!parsed.success || !uuidSchema.safeParse(webhookId).success) {
+    res.status(400).json({ ok: false, error: parsed.success ? 'webhookId must be a valid UUID' : parsed.error.message });
+    return;
+  }
+
+  try {
+    if (!(await checkBoardPermission(res, boardId, 'webhook:manage'))) return;
+
+    const result = await updateWebhook({ boardId, user: getAuthUser(res) }, webhookId, parsed.data);
+    if (!result.ok) {
+      res.status(statusForCode(result.code)).json({ ok: false, code: result.code, error: result.message });
+      return;
+    }
+    res.json({ ok: true, data: result.data });
+  } catch (err) {
+    console.error('[PATCH /api/boards/:boardId/webhooks/:webhookId]', err);
+    res.status(500).json({ ok: false, error: 'Failed to update webhook' });
+  }
+});
+
+// DELETE /api/boards/:boardId/webhooks/:webhookId
+router.delete('/:webhookId', async (req: Request<WebhookParams>, res: Response) => {
+  const { boardId, webhookId } = req.params;
+  if (!uuidSchema.safeParse(webhookId).success) {
+    res.status(400).json({ ok: false, error: 'webhookId must be a valid UUID' });
+    return;
+  }
+
+  try {
+    if (!(await checkBoardPermission(res, boardId, 'webhook:manage'))) return;
+
+    const result = await deleteWebhook({ boardId, user: getAuthUser(res) }, webhookId);
+    if (!result.ok) {
+      res.status(statusForCode(result.code)).json({ ok: false, code: result.code, error: result.message });
+      return;
+    }
+    res.json({ ok: true, data: result.data });
+  } catch (err) {
+    console.error('[DELETE /api/boards/:boardId/webhooks/:webhookId]', err);
+    res.status(500).json({ ok: false, error: 'Failed to delete webhook' });
+  }
+});
+
+// GET /api/boards/:boardId/webhooks/:webhookId/deliveries
+router.get('/:webhookId/deliveries', async (req: Request<WebhookParams>, res: Response) => {
+  const { boardId, webhookId } = req.params;
+  const query = DeliveryQuerySchema.safeParse(req.query);
+  if (!query.success || !uuidSchema.safeParse(webhookId).success) {
+    res.status(400).json({ ok: false, error: query.success ? 'webhookId must be a valid UUID' : query.error.message });
+    return;
+  }
+
+  try {
+    if (!(await checkBoardPermission(res, boardId, 'webhook:manage'))) return;
+
+    const result = await listDeliveries({ boardId, user: getAuthUser(res) }, webhookId, query.data);
+    if (!result.ok) {
+      res.status(statusForCode(result.code)).json({ ok: false, code: result.code, error: result.message });
+      return;
+    }
+    res.json({ ok: true, data: result.data });
+  } catch (err) {
+    console.error('[GET /api/boards/:boardId/webhooks/:webhookId/deliveries]', err);
+    res.status(500).json({ ok: false, error: 'Failed to fetch deliveries' });
+  }
+});
+
+export default router;
@@ -17,13 +17,18 @@ dotenv.config({ path: path.join(_cwd, '.env') });
 
 import app from './app';
 import { registerSocketHandlers } from './ws/router';
-import { startDbFlushWorker } from './jobs/dbFlushWorker';
+import { authenticate, resolveBoard } from './ws/middleware';
+import { startDbFlushWorker, scheduleTrashPurge } from './jobs/dbFlushWorker';
+import { startDueReminderWorker } from './jobs/dueReminders';
+import { startImportWorker } from './jobs/importWorker';
+import { startWebhookWorker } from './jobs/webhookWorker';
 import { cleanAllPresences } from './services/presenceService';
 
 // ...
 
 // ── BullMQ Worker ─────────────────────────────────────────────────────────────
 startDbFlushWorker();
+scheduleTrashPurge().catch((err) => console.error('[BullMQ] Trash purge scheduling failed:', err));
 cleanAllPresences().then(() => console.log('[Redis] Presence cleared'));
 
 const PORT        = Number(process.env.PORT ?? 8080);
@@ -43,6 +48,17 @@ export const io = new SocketIOServer(httpServer, {
   transports: ['websocket', 'polling'],
 });
 
+// REST routes broadcast to board rooms via req.app.get('io')
+app.set('io', io);
+
+// ── Handshake middleware — resolves socket.data before 'connection' ──────────
+io.use((socket, next) => {
+  void authenticate(socket, next);
+});
+io.use((socket, next) => {
+  void resolveBoard(socket, next);
+});
+
 // ── Wire WS Router ────────────────────────────────────────────────────────────
 io.on('connection', (socket) => {
   console.log(`[WS] Client connected: ${socket.id}`);
@@ -51,6 +67,9 @@ io.on('connection', (socket) => {
 
 // ── BullMQ Worker ─────────────────────────────────────────────────────────────
 startDbFlushWorker();
+startDueReminderWorker(io);
+startImportWorker(io);
+startWebhookWorker();
 
 // Force main Redis connection to verify connectivity
 import { redis } from './cache/redis';
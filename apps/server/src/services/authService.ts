@@ -0,0 +1,165 @@
+/**
+ * services/authService.ts
+ *
+ * Local accounts and session tokens.
+ *
+ * Storage strategy:
+ *   - Users are low-traffic metadata, read straight through Supabase like
+ *     boards. A socket looks its user up once, at handshake; REST requests
+ *     look it up once per request.
+ *   - Sessions are stateless signed tokens (lib/token.ts) — nothing to
+ *     store, revoke by rotating AUTH_SECRET.
+ *
+ * Environment variables:
+ *   AUTH_SECRET — HMAC key for session tokens (required)
+ *
+ * Architecture rules (CONTEXT.md): NO socket.io imports here.
+ */
+import { supabase } from '../db/client';
+import { hashPassword, verifyPassword } from '../lib/password';
+import { signToken, verifyToken } from '../lib/token';
+import type { LoginPayload, RegisterPayload } from '../validation/authSchema';
+import { PRESENCE_COLOURS } from './presenceService';
+import type { ServiceOutcome } from './taskService';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface User {
+  id:          string;
+  email:       string;
+  displayName: string;
+  color:       string;
+  createdAt:   string;
+}
+
+/** The slice of a user that services need to attribute a change. */
+export type AuthUser = Pick<User, 'id' | 'displayName' | 'color'>;
+
+export interface Session {
+  user:  User;
+  token: string;
+}
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+const TOKEN_TTL_SECONDS = 7 * 24 * 3600; // 7 days
+
+// Postgres unique_violation — duplicate email on register
+const UNIQUE_VIOLATION = '23505';
+
+// Checked against for unknown emails, so they cost the same scrypt run as a
+// wrong password. The hash of a random password nobody knows.
+const DUMMY_PASSWORD_HASH =
+  'scrypt$Ka4gzO3G/F5HkXPHu0criA==$4p3P+3dQRhMHT1jGcj6B6PAX0yKLWIfYdt8epP1uEjol5Cof91V+y2HWrddlsZL9E+7awEbGV/qHmZfLo6mNDg==';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function authSecret(): string {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) throw new Error('[Auth] Required environment variable "AUTH_SECRET" is not set');
+  return secret;
+}
+
+/** Map a Supabase DB row (snake_case) to a User (camelCase). Never exposes the hash. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function dbRowToUser(row: Record<string, any>): User {
+  return {
+    id:          row.id           as string,
+    email:       row.email        as string,
+    displayName: row.display_name as string,
+    color:       row.color        as string,
+    createdAt:   row.created_at   as string,
+  };
+}
+
+function issueSession(user: User): Session {
+  return { user, token: signToken(user.id, authSecret(), TOKEN_TTL_SECONDS) };
+}
+
+// ── Public Service Functions ──────────────────────────────────────────────────
+
+/** A single user by id, or null. */
+export async function getUserById(id: string): Promise<User | null> {
+  const { data, error } = await supabase
+    .from('users')
+    .select('id, email, display_name, color, created_at')
+    .eq('id', id)
+    .single();
+
+  if (error || !data) return null;
+  return dbRowToUser(data);
+}
+
+/**
+ * REGISTER a new account and sign it in.
+ * The attribution colour is picked at random from the presence palette.
+ */
+export async function registerUser(
+  payload: RegisterPayload,
+): Promise<ServiceOutcome<Session>> {
+  try {
+    const color = PRESENCE_COLOURS[Math.floor(Math.random() * PRESENCE_COLOURS.length)];
+    const { data, error } = await supabase
+      .from('users')
+      .insert({
+        email:         payload.email,
+        display_name:  payload.displayName,
+        password_hash: await hashPassword(payload.password),
+        color,
+      })
+      .select('id, email, display_name, color, created_at')
+      .single();
+
+    if (error?.code === UNIQUE_VIOLATION) {
+      return { ok: false, code: 'EMAIL_TAKEN', message: 'An account with this email already exists' };
+    }
+    if (error || !data) {
+      return { ok: false, code: 'CREATE_FAILED', message: error?.message ?? 'User insert failed' };
+    }
+
+    return { ok: true, data: issueSession(dbRowToUser(data)) };
+  } catch (err) {
+    console.error('[authService.registerUser]', err);
+    return { ok: false, code: 'CREATE_FAILED', message: String(err) };
+  }
+}
+
+/**
+ * LOGIN with email + password. Unknown email and wrong password return the
+ * same error after the same scrypt work, so neither the answer nor its
+ * timing can be used to probe for accounts.
+ */
+export async function loginUser(
+  payload: LoginPayload,
+): Promise<ServiceOutcome<Session>> {
+  try {
+    const { data, error } = await supabase
+      .from('users')
+      .select('*')
+      .eq('email', payload.email)
+      .maybeSingle();
+
+    if (error) {
+      return { ok: false, code: 'LOGIN_FAILED', message: error.message };
+    }
+    const valid = await verifyPassword(payload.password, data ? (data.password_hash as string) : DUMMY_PASSWORD_HASH);
+    if (!data || !valid) {
+      return { ok: false, code: 'INVALID_CREDENTIALS', message: 'Incorrect email or password' };
+    }
+
+    return { ok: true, data: issueSession(dbRowToUser(data)) };
+  } catch (err) {
+    console.error('[authService.loginUser]', err);
+    return { ok: false, code: 'LOGIN_FAILED', message: String(err) };
+  }
+}
+
+/**
+ * Resolve a session token to its user. Null for a bad/expired token or a
+ * user that no longer exists.
+ */
+export async function authenticateToken(token: string): Promise<User | null> {
+  const claims = verifyToken(token, authSecret());
+  if (!claims) return null;
+  return getUserById(claims.sub);
+}
@@ -0,0 +1,162 @@
+/**
+ * services/boardService.ts
+ *
+ * Board CRUD. Boards are low-traffic metadata (created rarely, read on
+ * connect), so unlike tasks they are read and written straight through
+ * Supabase — no Redis write-around and no BullMQ flush.
+ *
+ * A new board starts with the default columns, or as a copy of a template
+ * or of another board (lib/boardCopy.ts) — everything re-ided.
+ *
+ * Architecture rules (CONTEXT.md): NO socket.io imports here.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '../db/client';
+import { copyBoardContent, type BoardContent } from '../lib/boardCopy';
+import type { CreateBoardPayload } from '../validation/boardSchema';
+import type { DuplicateBoardPayload } from '../validation/templateSchema';
+import type { AuthUser } from './authService';
+import { insertColumns, seedDefaultColumns } from './columnService';
+import { insertLabels } from './labelService';
+import { addOwner, copyMembers, listBoardIdsForUser } from './memberService';
+import { insertTasks, type ServiceOutcome } from './taskService';
+import { getBoardContent, getTemplateContent } from './templateService';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface Board {
+  id:        string;
+  name:      string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+/** Map a Supabase DB row (snake_case) to a Board (camelCase). */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function dbRowToBoard(row: Record<string, any>): Board {
+  return {
+    id:        row.id         as string,
+    name:      row.name       as string,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+/** INSERT the board row alone. */
+async function insertBoard(name: string): Promise<ServiceOutcome<Board>> {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('boards')
+    .insert({ id: uuidv4(), name, created_at: now, updated_at: now })
+    .select('*')
+    .single();
+
+  if (error || !data) {
+    return { ok: false, code: 'CREATE_FAILED', message: error?.message ?? 'Board insert failed' };
+  }
+  return { ok: true, data: dbRowToBoard(data) };
+}
+
+/** Write a copy of `content` onto the new board `boardId`. */
+async function fillBoard(
+  boardId:      string,
+  content:      BoardContent,
+  user:         AuthUser,
+  keepCreators: boolean,
+): Promise<void> {
+  const copy = copyBoardContent(content, {
+    boardId, user, keepCreators, now: new Date().toISOString(), newId: () => uuidv4(),
+  });
+  await insertColumns(boardId, copy.columns);
+  await insertLabels(boardId, copy.labels);
+  await insertTasks(user, copy.tasks);
+}
+
+// ── Public Service Functions ──────────────────────────────────────────────────
+
+/** Boards the user is a member of, oldest first — used by the web board picker. */
+export async function listBoards(userId: string): Promise<Board[]> {
+  const ids = await listBoardIdsForUser(userId);
+  if (ids.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('boards')
+    .select('*')
+    .in('id', ids)
+    .order('created_at', { ascending: true });
+
+  if (error || !data) return [];
+  return data.map(dbRowToBoard);
+}
+
+/** A single board by id, or null if it doesn't exist. */
+export async function getBoard(id: string): Promise<Board | null> {
+  const { data, error } = await supabase
+    .from('boards')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error || !data) return null;
+  return dbRowToBoard(data);
+}
+
+/**
+ * CREATE a new board with the default To Do / In Progress / Done columns,
+ * or with the columns, labels and cards of `payload.templateId`.
+ * The creator becomes its first admin.
+ */
+export async function createBoard(
+  payload: CreateBoardPayload,
+  owner:   AuthUser,
+): Promise<ServiceOutcome<Board>> {
+  try {
+    const template = payload.templateId ? await getTemplateContent(owner.id, payload.templateId) : null;
+    if (template && !template.ok) return template;
+
+    const board = await insertBoard(payload.name);
+    if (!board.ok) return board;
+
+    if (template) await fillBoard(board.data.id, template.data, owner, false);
+    else await seedDefaultColumns(board.data.id);
+    await addOwner(board.data.id, owner.id);
+
+    return board;
+  } catch (err) {
+    console.error('[boardService.createBoard]', err);
+    return { ok: false, code: 'CREATE_FAILED', message: String(err) };
+  }
+}
+
+/**
+ * DUPLICATE a board: its active columns, labels and live tasks under new
+ * ids (same order in every column), and its members with their roles. The
+ * user making the copy becomes its admin; each task keeps its creator
+ * unless `keepCreators` is false.
+ */
+export async function duplicateBoard(
+  sourceId: string,
+  payload:  DuplicateBoardPayload,
+  owner:    AuthUser,
+): Promise<ServiceOutcome<Board>> {
+  try {
+    if (!(await getBoard(sourceId))) {
+      return { ok: false, code: 'NOT_FOUND', message: `Board ${sourceId} not found` };
+    }
+    const content = await getBoardContent(sourceId);
+
+    const board = await insertBoard(payload.name);
+    if (!board.ok) return board;
+
+    await addOwner(board.data.id, owner.id);
+    await copyMembers(sourceId, board.data.id, owner.id);
+    await fillBoard(board.data.id, content, owner, payload.keepCreators);
+
+    return board;
+  } catch (err) {
+    console.error('[boardService.duplicateBoard]', err);
+    return { ok: false, code: 'CREATE_FAILED', message: String(err) };
+  }
+}
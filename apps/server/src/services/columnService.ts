@@ -0,0 +1,338 @@
+/**
+ * services/columnService.ts
+ *
+ * User-defined board columns (create / rename / recolor / reorder / archive).
+ *
+ * Storage strategy:
+ *   - Column edits are rare (no drag-rate traffic), so writes go straight to
+ *     Supabase — no BullMQ flush.
+ *   - Reads are hot (every snapshot, every task create/move validates its
+ *     column), so the board's full column list is cached in one Redis hash.
+ *     Writes invalidate the hash; the next read repopulates it.
+ *
+ * Key schema:
+ *   board:<boardId>:columns   HASH  { <columnId>: JSON(BoardColumn), ... }
+ *
+ * Architecture rules (CONTEXT.md): NO socket.io imports here.
+ */
+import { redis } from '../cache/redis';
+import { supabase } from '../db/client';
+import { orderBetween } from '../lib/fractionalIndex';
+import type {
+  CreateColumnPayload,
+  UpdateColumnPayload,
+  MoveColumnPayload,
+} from '../validation/columnSchema';
+import type { BoardContext, ServiceOutcome } from './taskService';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface BoardColumn {
+  id:          string;
+  boardId:     string;
+  title:       string;
+  color:       string;
+  order:       number;
+  isDone:      boolean;
+  /** Most live tasks the column may hold (unset = no limit) — see lib/wipLimits.ts */
+  wipLimit?:   number;
+  version:     number;
+  archivedAt?: string;
+  createdAt:   string;
+  updatedAt:   string;
+}
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+const COLUMNS_KEY = (boardId: string): string => `board:${boardId}:columns`;
+
+// Same lifetime as task hashes (taskService TASK_TTL_SECONDS)
+const COLUMNS_TTL_SECONDS = 3600;
+
+const DEFAULT_COLOR = '#64748B';
+
+/** Columns every new board starts with — mirrors the pre-007 hardcoded enum. */
+const DEFAULT_COLUMNS: Array<Pick<BoardColumn, 'title' | 'color' | 'isDone'>> = [
+  { title: 'To Do',       color: '#64748B', isDone: false },
+  { title: 'In Progress', color: '#D97706', isDone: false },
+  { title: 'Done',        color: '#16A34A', isDone: true  },
+];
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+/** Map a Supabase DB row (snake_case) to a BoardColumn (camelCase). */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function dbRowToColumn(row: Record<string, any>): BoardColumn {
+  return {
+    id:         row.id          as string,
+    boardId:    row.board_id    as string,
+    title:      row.title       as string,
+    color:      row.color       as string,
+    order:      row.order       as number,
+    isDone:     row.is_done     as boolean,
+    wipLimit:   (row.wip_limit as number | null) ?? undefined,
+    version:    row.version     as number,
+    archivedAt: (row.archived_at as string | null) ?? undefined,
+    createdAt:  row.created_at  as string,
+    updatedAt:  row.updated_at  as string,
+  };
+}
+
+/**
+ * Every column of a board, archived ones included.
+ * Redis-first; on a miss loads from Supabase and warms the hash.
+ */
+async function loadColumns(boardId: string): Promise<BoardColumn[]> {
+  const cached = await redis.hgetall(COLUMNS_KEY(boardId));
+  if (cached && Object.keys(cached).length > 0) {
+    return Object.values(cached).map((json) => JSON.parse(json) as BoardColumn);
+  }
+
+  const { data, error } = await supabase
+    .from('board_columns')
+    .select('*')
+    .eq('board_id', boardId);
+
+  if (error || !data) return [];
+
+  const columns = data.map(dbRowToColumn);
+  if (columns.length > 0) {
+    const pipeline = redis.pipeline();
+    pipeline.hset(
+      COLUMNS_KEY(boardId),
+      Object.fromEntries(columns.map((c) => [c.id, JSON.stringify(c)])),
+    );
+    pipeline.expire(COLUMNS_KEY(boardId), COLUMNS_TTL_SECONDS);
+    await pipeline.exec();
+  }
+  return columns;
+}
+
+/** Drop the cached column list — the next read reloads from Supabase. */
+async function invalidateColumns(boardId: string): Promise<void> {
+  await redis.del(COLUMNS_KEY(boardId));
+}
+
+/**
+ * Persist a column row and invalidate the board's cache.
+ * New columns are INSERTed (never upserted) so a client-chosen id can't
+ * overwrite a column on another board.
+ */
+async function saveColumn(column: BoardColumn, mode: 'insert' | 'update'): Promise<void> {
+  const row = {
+    id:          column.id,
+    board_id:    column.boardId,
+    title:       column.title,
+    color:       column.color,
+    order:       column.order,
+    is_done:     column.isDone,
+    wip_limit:   column.wipLimit ?? null,
+    version:     column.version,
+    archived_at: column.archivedAt ?? null,
+    created_at:  column.createdAt,
+    updated_at:  column.updatedAt,
+  };
+
+  const { error } = mode === 'insert'
+    ? await supabase.from('board_columns').insert(row)
+    : await supabase.from('board_columns').update(row).eq('id', column.id).eq('board_id', column.boardId);
+
+  if (error) throw new Error(`Column ${mode} failed for ${column.id}: ${error.message}`);
+  await invalidateColumns(column.boardId);
+}
+
+// ── Public Service Functions ──────────────────────────────────────────────────
+
+/**
+ * Active (non-archived) columns of a board, left to right.
+ * Used for BOARD_SNAPSHOT.
+ */
+export async function getColumns(boardId: string): Promise<BoardColumn[]> {
+  return (await loadColumns(boardId))
+    .filter((c) => !c.archivedAt)
+    .sort((a, b) => a.order - b.order);
+}
+
+/**
+ * A single column of a board (archived or not), or null.
+ * Used by taskService to validate TASK_CREATE / TASK_MOVE targets.
+ */
+export async function getColumn(boardId: string, columnId: string): Promise<BoardColumn | null> {
+  return (await loadColumns(boardId)).find((c) => c.id === columnId) ?? null;
+}
+
+/**
+ * Insert the default To Do / In Progress / Done columns.
+ * Called once by boardService.createBoard.
+ */
+export async function seedDefaultColumns(boardId: string): Promise<BoardColumn[]> {
+  const now  = new Date().toISOString();
+  const rows = DEFAULT_COLUMNS.map((c, i) => ({
+    board_id:   boardId,
+    title:      c.title,
+    color:      c.color,
+    order:      (i + 1) * 1000,
+    is_done:    c.isDone,
+    created_at: now,
+    updated_at: now,
+  }));
+
+  const { data, error } = await supabase.from('board_columns').insert(rows).select('*');
+  if (error || !data) throw new Error(`Seeding columns failed for board ${boardId}: ${error?.message}`);
+
+  await invalidateColumns(boardId);
+  return data.map(dbRowToColumn);
+}
+
+/**
+ * Insert the columns of a board copy (lib/boardCopy.ts) as they are.
+ * Called by boardService when a board is duplicated or made from a template.
+ */
+export async function insertColumns(boardId: string, columns: BoardColumn[]): Promise<void> {
+  if (columns.length === 0) return;
+  const rows = columns.map((c) => ({
+    id:         c.id,
+    board_id:   boardId,
+    title:      c.title,
+    color:      c.color,
+    order:      c.order,
+    is_done:    c.isDone,
+    wip_limit:  c.wipLimit ?? null,
+    created_at: c.createdAt,
+    updated_at: c.updatedAt,
+  }));
+
+  const { error } = await supabase.from('board_columns').insert(rows);
+  if (error) throw new Error(`Copying columns failed for board ${boardId}: ${error.message}`);
+  await invalidateColumns(boardId);
+}
+
+/**
+ * CREATE a column — appended as the right-most column of the board.
+ */
+export async function createColumn(
+  ctx:     BoardContext,
+  payload: CreateColumnPayload,
+): Promise<ServiceOutcome<BoardColumn>> {
+  try {
+    const columns = await getColumns(ctx.boardId);
+    const last    = columns[columns.length - 1] ?? null;
+    const now     = new Date().toISOString();
+
+    const column: BoardColumn = {
+      id:        payload.id,
+      boardId:   ctx.boardId,
+      title:     payload.title,
+      color:     payload.color ?? DEFAULT_COLOR,
+      order:     orderBetween(last?.order ?? null, null),
+      isDone:    payload.isDone ?? false,
+      wipLimit:  payload.wipLimit ?? undefined,
+      version:   1,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await saveColumn(column, 'insert');
+    return { ok: true, data: column };
+  } catch (err) {
+    console.error('[columnService.createColumn]', err);
+    return { ok: false, code: 'CREATE_FAILED', message: String(err) };
+  }
+}
+
+/**
+ * UPDATE a column's title / color / done flag / WIP limit (null clears it).
+ * Lowering the limit below the column's count is allowed — only tasks
+ * entering it are refused.
+ * Same relaxed version check as taskService.updateTask.
+ */
+export async function updateColumn(
+  ctx:     BoardContext,
+  payload: UpdateColumnPayload,
+): Promise<ServiceOutcome<BoardColumn>> {
+  try {
+    const existing = await getColumn(ctx.boardId, payload.id);
+    if (!existing || existing.archivedAt) {
+      return { ok: false, code: 'NOT_FOUND', message: `Column ${payload.id} not found` };
+    }
+
+    if (payload.version !== existing.version) {
+      console.warn(`[columnService.updateColumn] Version mismatch for column ${payload.id} (client: ${payload.version}, server: ${existing.version}). Applying to latest state.`);
+    }
+
+    const updated: BoardColumn = {
+      ...existing,
+      title:     payload.title  ?? existing.title,
+      color:     payload.color  ?? existing.color,
+      isDone:    payload.isDone ?? existing.isDone,
+      wipLimit:  payload.wipLimit === undefined ? existing.wipLimit : payload.wipLimit ?? undefined,
+      version:   existing.version + 1,
+      updatedAt: new Date().toISOString(),
+    };
+
+    await saveColumn(updated, 'update');
+    return { ok: true, data: updated };
+  } catch (err) {
+    console.error('[columnService.updateColumn]', err);
+    return { ok: false, code: 'UPDATE_FAILED', message: String(err) };
+  }
+}
+
+/**
+ * MOVE a column to a new fractional position (client computes `order`
+ * with orderBetween, exactly like TASK_MOVE).
+ */
+export async function moveColumn(
+  ctx:     BoardContext,
+  payload: MoveColumnPayload,
+): Promise<ServiceOutcome<BoardColumn>> {
+  try {
+    const existing = await getColumn(ctx.boardId, payload.id);
+    if (!existing || existing.archivedAt) {
+      return { ok: false, code: 'NOT_FOUND', message: `Column ${payload.id} not found` };
+    }
+
+    const updated: BoardColumn = {
+      ...existing,
+      order:     payload.order,
+      version:   existing.version + 1,
+      updatedAt: new Date().toISOString(),
+    };
+
+    await saveColumn(updated, 'update');
+    return { ok: true, data: updated };
+  } catch (err) {
+    console.error('[columnService.moveColumn]', err);
+    return { ok: false, code: 'MOVE_FAILED', message: String(err) };
+  }
+}
+
+/**
+ * ARCHIVE a column (the COLUMN_DELETE event). The caller is responsible for
+ * relocating the column's tasks first — see column.handler.handleColumnDelete.
+ */
+export async function archiveColumn(
+  ctx:      BoardContext,
+  columnId: string,
+): Promise<ServiceOutcome<BoardColumn>> {
+  try {
+    const existing = await getColumn(ctx.boardId, columnId);
+    if (!existing || existing.archivedAt) {
+      return { ok: false, code: 'NOT_FOUND', message: `Column ${columnId} not found` };
+    }
+
+    const now = new Date().toISOString();
+    const archived: BoardColumn = {
+      ...existing,
+      archivedAt: now,
+      version:    existing.version + 1,
+      updatedAt:  now,
+    };
+
+    await saveColumn(archived, 'update');
+    return { ok: true, data: archived };
+  } catch (err) {
+    console.error('[columnService.archiveColumn]', err);
+    return { ok: false, code: 'DELETE_FAILED', message: String(err) };
+  }
+}
@@ -0,0 +1,277 @@
+/**
+ * services/commentService.ts
+ *
+ * Comment threads on tasks (task_comments, migration 012).
+ *
+ * Storage strategy:
+ *   - Comments are written far less often than tasks move, so writes go
+ *     straight to Supabase — no BullMQ flush.
+ *   - Threads are read on demand (the task detail panel), straight from
+ *     Supabase. Only the per-task comment counts are hot — they ride along
+ *     in every BOARD_SNAPSHOT — so each board's counts are cached in one
+ *     Redis hash. Writes invalidate the hash; the next read repopulates it.
+ *
+ * Key schema:
+ *   board:<boardId>:comments   HASH  { <taskId>: <count>, ..., _loaded: 1 }
+ *
+ * Callers check that the task is live on the board first (handlers compose
+ * that with taskService). Authors edit their own comments; authors and
+ * moderators (comment:moderate) delete them.
+ *
+ * Architecture rules (CONTEXT.md): NO socket.io imports here.
+ */
+import { redis } from '../cache/redis';
+import { supabase } from '../db/client';
+import type {
+  CreateCommentPayload,
+  UpdateCommentPayload,
+  DeleteCommentPayload,
+} from '../validation/commentSchema';
+import type { BoardContext, ServiceOutcome } from './taskService';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface TaskComment {
+  id:           string;
+  taskId:       string;
+  boardId:      string;
+  authorId:     string | null;
+  authorName?:  string;
+  authorColor?: string;
+  body:         string;
+  createdAt:    string;
+  updatedAt:    string;
+}
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+const COUNTS_KEY = (boardId: string): string => `board:${boardId}:comments`;
+
+// Same lifetime as the column cache (columnService)
+const COUNTS_TTL_SECONDS = 3600;
+
+/** Marks a warm hash, so a board without comments isn't reloaded every time. */
+const LOADED_FIELD = '_loaded';
+
+// Postgres unique_violation — the client reused a comment id
+const UNIQUE_VIOLATION = '23505';
+
+const COMMENT_COLUMNS = 'id, task_id, board_id, author_id, body, created_at, updated_at, users ( display_name, color )';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+/** Map a task_comments row joined with users to a TaskComment. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function dbRowToComment(row: Record<string, any>): TaskComment {
+  return {
+    id:          row.id          as string,
+    taskId:      row.task_id     as string,
+    boardId:     row.board_id    as string,
+    authorId:    (row.author_id as string | null) ?? null,
+    authorName:  (row.users?.display_name as string | undefined) ?? undefined,
+    authorColor: (row.users?.color        as string | undefined) ?? undefined,
+    body:        row.body        as string,
+    createdAt:   row.created_at  as string,
+    updatedAt:   row.updated_at  as string,
+  };
+}
+
+/** One comment of the board, or null. */
+async function loadComment(boardId: string, id: string): Promise<TaskComment | null> {
+  const { data, error } = await supabase
+    .from('task_comments')
+    .select(COMMENT_COLUMNS)
+    .eq('id', id)
+    .eq('board_id', boardId)
+    .maybeSingle();
+
+  if (error || !data) return null;
+  return dbRowToComment(data);
+}
+
+/** Drop the cached counts — the next read reloads from Supabase. */
+async function invalidateCounts(boardId: string): Promise<void> {
+  await redis.del(COUNTS_KEY(boardId));
+}
+
+// ── Public Service Functions ──────────────────────────────────────────────────
+
+/** A task's comment thread, oldest first. */
+export async function getComments(taskId: string): Promise<TaskComment[]> {
+  const { data, error } = await supabase
+    .from('task_comments')
+    .select(COMMENT_COLUMNS)
+    .eq('task_id', taskId)
+    .order('created_at', { ascending: true });
+
+  if (error || !data) return [];
+  return data.map(dbRowToComment);
+}
+
+/**
+ * Every comment of the board, by task and oldest first — for the export.
+ * Throws on a Supabase error rather than leave comments out.
+ */
+export async function getBoardComments(boardId: string): Promise<TaskComment[]> {
+  const { data, error } = await supabase
+    .from('task_comments')
+    .select(COMMENT_COLUMNS)
+    .eq('board_id', boardId)
+    .order('task_id', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) throw new Error(error.message);
+  return (data ?? []).map(dbRowToComment);
+}
+
+/**
+ * taskId → number of comments, for every commented task of the board.
+ * Redis-first; on a miss loads from Supabase and warms the hash.
+ */
+export async function getCommentCounts(boardId: string): Promise<Record<string, number>> {
+  const cached = await redis.hgetall(COUNTS_KEY(boardId));
+  if (cached && cached[LOADED_FIELD]) {
+    return Object.fromEntries(
+      Object.entries(cached)
+        .filter(([taskId]) => taskId !== LOADED_FIELD)
+        .map(([taskId, n]) => [taskId, parseInt(n, 10)]),
+    );
+  }
+
+  const { data, error } = await supabase
+    .from('task_comments')
+    .select('task_id')
+    .eq('board_id', boardId);
+
+  if (error || !data) return {};
+
+  const counts: Record<string, number> = {};
+  for (const row of data as Array<{ task_id: string }>) {
+    counts[row.task_id] = (counts[row.task_id] ?? 0) + 1;
+  }
+
+  const pipeline = redis.pipeline();
+  pipeline.hset(COUNTS_KEY(boardId), { ...counts, [LOADED_FIELD]: 1 });
+  pipeline.expire(COUNTS_KEY(boardId), COUNTS_TTL_SECONDS);
+  await pipeline.exec();
+
+  return counts;
+}
+
+/** CREATE a comment on a task of the board, authored by the caller. */
+export async function createComment(
+  ctx:     BoardContext,
+  payload: CreateCommentPayload,
+): Promise<ServiceOutcome<TaskComment>> {
+  try {
+    const { data, error } = await supabase
+      .from('task_comments')
+      .insert({
+        id:        payload.id,
+        task_id:   payload.taskId,
+        board_id:  ctx.boardId,
+        author_id: ctx.user.id,
+        body:      payload.body,
+      })
+      .select(COMMENT_COLUMNS)
+      .single();
+
+    if (error?.code === UNIQUE_VIOLATION) {
+      return { ok: false, code: 'VALIDATION_ERROR', message: `Comment ${payload.id} already exists` };
+    }
+    if (error || !data) {
+      return { ok: false, code: 'CREATE_FAILED', message: error?.message ?? 'Comment insert failed' };
+    }
+
+    await invalidateCounts(ctx.boardId);
+    return { ok: true, data: dbRowToComment(data) };
+  } catch (err) {
+    console.error('[commentService.createComment]', err);
+    return { ok: false, code: 'CREATE_FAILED', message: String(err) };
+  }
+}
+
+/** EDIT a comment's body — only its author may. */
+export async function updateComment(
+  ctx:     BoardContext,
+  payload: UpdateCommentPayload,
+): Promise<ServiceOutcome<TaskComment>> {
+  try {
+    const existing = await loadComment(ctx.boardId, payload.id);
+    if (!existing) {
+      return { ok: false, code: 'NOT_FOUND', message: `Comment ${payload.id} not found` };
+    }
+    if (existing.authorId !== ctx.user.id) {
+      return { ok: false, code: 'FORBIDDEN', message: 'Only the author can edit a comment' };
+    }
+
+    const { data, error } = await supabase
+      .from('task_comments')
+      .update({ body: payload.body })
+      .eq('id', payload.id)
+      .eq('board_id', ctx.boardId)
+      .select(COMMENT_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      return { ok: false, code: 'UPDATE_FAILED', message: error?.message ?? 'Comment update failed' };
+    }
+    return { ok: true, data: dbRowToComment(data) };
+  } catch (err) {
+    console.error('[commentService.updateComment]', err);
+    return { ok: false, code: 'UPDATE_FAILED', message: String(err) };
+  }
+}
+
+/**
+ * DELETE a comment — its author may, and so may anyone holding
+ * comment:moderate (`canModerate`, resolved by the caller from the role).
+ */
+export async function deleteComment(
+  ctx:         BoardContext,
+  payload:     DeleteCommentPayload,
+  canModerate: boolean,
+): Promise<ServiceOutcome<{ id: string; taskId: string }>> {
+  try {
+    const existing = await loadComment(ctx.boardId, payload.id);
+    if (!existing) {
+      return { ok: false, code: 'NOT_FOUND', message: `Comment ${payload.id} not found` };
+    }
+    if (existing.authorId !== ctx.user.id && !canModerate) {
+      return { ok: false, code: 'FORBIDDEN', message: 'Only the author or an admin can delete a comment' };
+    }
+
+    const { error } = await supabase
+      .from('task_comments')
+      .delete()
+      .eq('id', payload.id)
+      .eq('board_id', ctx.boardId);
+
+    if (error) {
+      return { ok: false, code: 'DELETE_FAILED', message: error.message };
+    }
+
+    await invalidateCounts(ctx.boardId);
+    return { ok: true, data: { id: existing.id, taskId: existing.taskId } };
+  } catch (err) {
+    console.error('[commentService.deleteComment]', err);
+    return { ok: false, code: 'DELETE_FAILED', message: String(err) };
+  }
+}
+
+/**
+ * Delete the threads of purged tasks — called by the trash purge job after
+ * it hard-deleted the task rows.
+ */
+export async function deleteTaskComments(tasks: Array<{ id: string; boardId: string }>): Promise<void> {
+  const { error } = await supabase
+    .from('task_comments')
+    .delete()
+    .in('task_id', tasks.map((t) => t.id));
+
+  if (error) throw new Error(`Deleting comments of purged tasks failed: ${error.message}`);
+
+  for (const boardId of new Set(tasks.map((t) => t.boardId))) {
+    await invalidateCounts(boardId);
+  }
+}
@@ -39,8 +39,13 @@ export interface AcquireResult {
   acquired: boolean;
   /** The current authoritative task state (for CONFLICT_NOTIFY payload). */
   resolvedState?: Task;
+  /** users.id of the lock holder when the lock was NOT acquired (for the audit log). */
+  holderUserId?: string;
 }
 
+/** Lock value — this process + the user whose move holds the lock. */
+const lockValue = (userId: string): string => `${SERVER_ID}:${userId}`;
+
 /**
  * Attempt to acquire an advisory lock on `task:{id}:lock`.
  *
@@ -49,28 +54,36 @@ export interface AcquireResult {
  *
  * @param taskId  The task being modified.
  * @param currentTask  Your view of the task — returned to the loser as resolvedState.
- * @returns  { acquired: true } if you won, { acquired: false, resolvedState } if you lost.
+ * @param userId  users.id of the mover — recorded as the lock owner.
+ * @returns  { acquired: true } if you won, { acquired: false, resolvedState, holderUserId } if you lost.
  */
 export async function acquireMoveLock(
   taskId:      string,
   currentTask: Task,
+  userId:      string,
 ): Promise<AcquireResult> {
   const key    = LOCK_KEY(taskId);
-  const result = await redis.set(key, SERVER_ID, 'PX', LOCK_TTL_MS, 'NX');
+  const result = await redis.set(key, lockValue(userId), 'PX', LOCK_TTL_MS, 'NX');
 
   if (result === 'OK') {
     return { acquired: true };
   }
 
-  // Lock already held — caller is the loser
-  return { acquired: false, resolvedState: currentTask };
+  // Lock already held — caller is the loser. The holder may have released it
+  // in the meantime; the audit log then records 'unknown'.
+  const holder = await redis.get(key);
+  return {
+    acquired:      false,
+    resolvedState: currentTask,
+    holderUserId:  holder ? holder.slice(holder.lastIndexOf(':') + 1) : 'unknown',
+  };
 }
 
 /**
  * Release the advisory lock.
  * Only deletes the key if we still own it (Lua script for atomicity).
  */
-export async function releaseMoveLock(taskId: string): Promise<void> {
+export async function releaseMoveLock(taskId: string, userId: string): Promise<void> {
   const key = LOCK_KEY(taskId);
 
   // Atomic check-and-delete: only release if we own the lock
@@ -82,7 +95,37 @@ export async function releaseMoveLock(taskId: string): Promise<void> {
     end
   `;
 
-  await redis.eval(luaScript, 1, key, SERVER_ID);
+  await redis.eval(luaScript, 1, key, lockValue(userId));
+}
+
+/**
+ * Acquire the move locks of every task in a batch (TASK_BATCH) — all or
+ * nothing. Locks are taken in id order, so overlapping batches contend on
+ * the same first task instead of each holding part of the other's set; on
+ * the first one that is taken, those already held are released and the
+ * result describes that task.
+ */
+export async function acquireMoveLocks(
+  tasks:  Task[],
+  userId: string,
+): Promise<AcquireResult> {
+  const sorted = [...tasks].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  const held: string[] = [];
+
+  for (const task of sorted) {
+    const result = await acquireMoveLock(task.id, task, userId);
+    if (!result.acquired) {
+      await releaseMoveLocks(held, userId);
+      return result;
+    }
+    held.push(task.id);
+  }
+  return { acquired: true };
+}
+
+/** Release the locks taken by acquireMoveLocks. */
+export async function releaseMoveLocks(taskIds: string[], userId: string): Promise<void> {
+  await Promise.all(taskIds.map((id) => releaseMoveLock(id, userId)));
 }
 
 // ── Field-level Merge (Rule 1) ────────────────────────────────────────────────
@@ -0,0 +1,68 @@
+/**
+ * services/exportService.ts
+ *
+ * Board export — GET /api/boards/:boardId/export (routes/export.ts).
+ *
+ * Gathers everything a board holds into a BoardExport; lib/boardExport.ts
+ * renders it as JSON, CSV or Markdown. Tasks come from taskService
+ * (Redis-first), so the export matches what clients see, including edits
+ * still waiting for their write-behind flush.
+ *
+ * Architecture rules (CONTEXT.md): NO socket.io imports here.
+ */
+import type { BoardExport } from '../lib/boardExport';
+import { getBoard } from './boardService';
+import { getColumns } from './columnService';
+import { getBoardComments } from './commentService';
+import { getLabels } from './labelService';
+import { listMembers } from './memberService';
+import { getAllTasks, getDeletedTasks, type ServiceOutcome, type Task } from './taskService';
+
+/** Drop what only makes sense inside this server (the Redis text revision). */
+function portable(task: Task): Task {
+  return { ...task, textRevision: undefined };
+}
+
+/**
+ * EXPORT a board: its columns, labels, members and tasks — live ones in
+ * board order (columns left to right, then position), then the trash —
+ * and the tasks' comments.
+ */
+export async function buildBoardExport(boardId: string): Promise<ServiceOutcome<BoardExport>> {
+  try {
+    const board = await getBoard(boardId);
+    if (!board) return { ok: false, code: 'NOT_FOUND', message: `Board ${boardId} not found` };
+
+    const [columns, labels, members, tasks, trash, comments] = await Promise.all([
+      getColumns(boardId),
+      getLabels(boardId),
+      listMembers(boardId),
+      getAllTasks(boardId),
+      getDeletedTasks(boardId),
+      getBoardComments(boardId),
+    ]);
+
+    const columnRank = new Map(columns.map((c, i) => [c.id, i]));
+    const live = [...tasks].sort((a, b) =>
+      (columnRank.get(a.columnId) ?? 0) - (columnRank.get(b.columnId) ?? 0) || a.order - b.order,
+    );
+
+    return {
+      ok: true,
+      data: {
+        format:     'flowboard-board',
+        version:    1,
+        exportedAt: new Date().toISOString(),
+        board,
+        columns,
+        labels,
+        members,
+        tasks:      [...live, ...trash].map(portable),
+        comments,
+      },
+    };
+  } catch (err) {
+    console.error('[exportService.buildBoardExport]', err);
+    return { ok: false, code: 'EXPORT_FAILED', message: String(err) };
+  }
+}
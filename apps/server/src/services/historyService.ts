@@ -0,0 +1,88 @@
+/**
+ * services/historyService.ts
+ *
+ * Read side of the task change history (task_events, migration 010).
+ *
+ * Events are written asynchronously: taskService enqueues an `event` job on
+ * the db-flush queue for every create / update / move / delete / restore,
+ * and the worker inserts it. Reads go straight to Supabase — history is
+ * opened on demand, never on the hot path — newest first, paginated by
+ * `before`.
+ *
+ * Architecture rules (CONTEXT.md): NO socket.io imports here.
+ */
+import { supabase } from '../db/client';
+import type { TaskDiff } from '../lib/taskDiff';
+import type { HistoryQuery } from '../validation/historySchema';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type TaskEventType = 'created' | 'updated' | 'moved' | 'deleted' | 'restored';
+
+export interface TaskEvent {
+  id:          string;
+  taskId:      string;
+  boardId:     string;
+  type:        TaskEventType;
+  actorId:     string | null;
+  actorName?:  string;
+  actorColor?: string;
+  version:     number;
+  diff:        TaskDiff;
+  occurredAt:  string;
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const EVENT_COLUMNS = 'id, task_id, board_id, type, actor_id, version, diff, occurred_at, users ( display_name, color )';
+
+/** Map a task_events row joined with users to a TaskEvent. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function dbRowToEvent(row: Record<string, any>): TaskEvent {
+  return {
+    id:         row.id          as string,
+    taskId:     row.task_id     as string,
+    boardId:    row.board_id    as string,
+    type:       row.type        as TaskEventType,
+    actorId:    (row.actor_id as string | null) ?? null,
+    actorName:  (row.users?.display_name as string | undefined) ?? undefined,
+    actorColor: (row.users?.color        as string | undefined) ?? undefined,
+    version:    row.version     as number,
+    diff:       (row.diff as TaskDiff | null) ?? {},
+    occurredAt: row.occurred_at as string,
+  };
+}
+
+// ── Public Service Functions ──────────────────────────────────────────────────
+
+/** History of one task, newest first. Deleted tasks keep their history. */
+export async function getTaskHistory(taskId: string, query: HistoryQuery): Promise<TaskEvent[]> {
+  let request = supabase
+    .from('task_events')
+    .select(EVENT_COLUMNS)
+    .eq('task_id', taskId)
+    .order('occurred_at', { ascending: false })
+    .limit(query.limit);
+
+  if (query.before) request = request.lt('occurred_at', query.before);
+
+  const { data, error } = await request;
+  if (error || !data) return [];
+  return data.map(dbRowToEvent);
+}
+
+/** Board-wide activity feed — every task event of the board, newest first. */
+export async function getBoardActivity(boardId: string, query: HistoryQuery): Promise<TaskEvent[]> {
+  let request = supabase
+    .from('task_events')
+    .select(EVENT_COLUMNS)
+    .eq('board_id', boardId)
+    .order('occurred_at', { ascending: false })
+    .limit(query.limit);
+
+  if (query.before) request = request.lt('occurred_at', query.before);
+
+  const { data, error } = await request;
+  if (error || !data) return [];
+  return data.map(dbRowToEvent);
+}
@@ -0,0 +1,244 @@
+/**
+ * services/labelService.ts
+ *
+ * Board label catalog (create / rename / recolor / delete).
+ *
+ * Storage strategy — same as columnService:
+ *   - Label edits are rare, so writes go straight to Supabase — no BullMQ
+ *     flush.
+ *   - Reads are hot (every snapshot, every task create/update validates its
+ *     labelIds), so the board's catalog is cached in one Redis hash. Writes
+ *     invalidate the hash; the next read repopulates it.
+ *
+ * Key schema:
+ *   board:<boardId>:labels   HASH  { <labelId>: JSON(BoardLabel), ... }
+ *
+ * Which tasks carry a label is part of the task itself (Task.labelIds); the
+ * caller strips a deleted label from them — see
+ * label.handler.handleLabelDelete.
+ *
+ * Architecture rules (CONTEXT.md): NO socket.io imports here.
+ */
+import { redis } from '../cache/redis';
+import { supabase } from '../db/client';
+import type {
+  CreateLabelPayload,
+  UpdateLabelPayload,
+} from '../validation/labelSchema';
+import type { BoardContext, ServiceOutcome } from './taskService';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface BoardLabel {
+  id:        string;
+  boardId:   string;
+  name:      string;
+  color:     string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+const LABELS_KEY = (boardId: string): string => `board:${boardId}:labels`;
+
+// Same lifetime as the column cache (columnService)
+const LABELS_TTL_SECONDS = 3600;
+
+const DEFAULT_COLOR = '#64748B';
+
+// Postgres unique_violation — board_labels_board_name_idx, or a reused id
+const UNIQUE_VIOLATION = '23505';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+/** Map a Supabase DB row (snake_case) to a BoardLabel (camelCase). */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function dbRowToLabel(row: Record<string, any>): BoardLabel {
+  return {
+    id:        row.id         as string,
+    boardId:   row.board_id   as string,
+    name:      row.name       as string,
+    color:     row.color      as string,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+/**
+ * Every label of a board.
+ * Redis-first; on a miss loads from Supabase and warms the hash.
+ */
+async function loadLabels(boardId: string): Promise<BoardLabel[]> {
+  const cached = await redis.hgetall(LABELS_KEY(boardId));
+  if (cached && Object.keys(cached).length > 0) {
+    return Object.values(cached).map((json) => JSON.parse(json) as BoardLabel);
+  }
+
+  const { data, error } = await supabase
+    .from('board_labels')
+    .select('*')
+    .eq('board_id', boardId);
+
+  if (error || !data) return [];
+
+  const labels = data.map(dbRowToLabel);
+  if (labels.length > 0) {
+    const pipeline = redis.pipeline();
+    pipeline.hset(
+      LABELS_KEY(boardId),
+      Object.fromEntries(labels.map((l) => [l.id, JSON.stringify(l)])),
+    );
+    pipeline.expire(LABELS_KEY(boardId), LABELS_TTL_SECONDS);
+    await pipeline.exec();
+  }
+  return labels;
+}
+
+/** Drop the cached catalog — the next read reloads from Supabase. */
+async function invalidateLabels(boardId: string): Promise<void> {
+  await redis.del(LABELS_KEY(boardId));
+}
+
+/** Whether another label of the board already has this name (any casing). */
+function nameTaken(labels: BoardLabel[], name: string, exceptId?: string): boolean {
+  const wanted = name.toLowerCase();
+  return labels.some((l) => l.id !== exceptId && l.name.toLowerCase() === wanted);
+}
+
+const duplicateName = (name: string): ServiceOutcome<never> => ({
+  ok: false, code: 'LABEL_EXISTS', message: `A label named "${name}" already exists on this board`,
+});
+
+// ── Public Service Functions ──────────────────────────────────────────────────
+
+/** The board's labels, alphabetically. Used for BOARD_SNAPSHOT. */
+export async function getLabels(boardId: string): Promise<BoardLabel[]> {
+  return (await loadLabels(boardId)).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** A single label of the board, or null. */
+export async function getLabel(boardId: string, labelId: string): Promise<BoardLabel | null> {
+  return (await loadLabels(boardId)).find((l) => l.id === labelId) ?? null;
+}
+
+/**
+ * Insert the labels of a board copy (lib/boardCopy.ts) as they are.
+ * Called by boardService when a board is duplicated or made from a template.
+ */
+export async function insertLabels(boardId: string, labels: BoardLabel[]): Promise<void> {
+  if (labels.length === 0) return;
+  const { error } = await supabase.from('board_labels').insert(labels.map((l) => ({
+    id:         l.id,
+    board_id:   boardId,
+    name:       l.name,
+    color:      l.color,
+    created_at: l.createdAt,
+    updated_at: l.updatedAt,
+  })));
+  if (error) throw new Error(`Copying labels failed for board ${boardId}: ${error.message}`);
+  await invalidateLabels(boardId);
+}
+
+/** CREATE a label in the board's catalog. */
+export async function createLabel(
+  ctx:     BoardContext,
+  payload: CreateLabelPayload,
+): Promise<ServiceOutcome<BoardLabel>> {
+  try {
+    if (nameTaken(await loadLabels(ctx.boardId), payload.name)) return duplicateName(payload.name);
+
+    const { data, error } = await supabase
+      .from('board_labels')
+      .insert({
+        id:       payload.id,
+        board_id: ctx.boardId,
+        name:     payload.name,
+        color:    payload.color ?? DEFAULT_COLOR,
+      })
+      .select('*')
+      .single();
+
+    if (error?.code === UNIQUE_VIOLATION) return duplicateName(payload.name);
+    if (error || !data) {
+      return { ok: false, code: 'CREATE_FAILED', message: error?.message ?? 'Label insert failed' };
+    }
+
+    await invalidateLabels(ctx.boardId);
+    return { ok: true, data: dbRowToLabel(data) };
+  } catch (err) {
+    console.error('[labelService.createLabel]', err);
+    return { ok: false, code: 'CREATE_FAILED', message: String(err) };
+  }
+}
+
+/** UPDATE a label's name and/or colour. */
+export async function updateLabel(
+  ctx:     BoardContext,
+  payload: UpdateLabelPayload,
+): Promise<ServiceOutcome<BoardLabel>> {
+  try {
+    const labels   = await loadLabels(ctx.boardId);
+    const existing = labels.find((l) => l.id === payload.id);
+    if (!existing) {
+      return { ok: false, code: 'NOT_FOUND', message: `Label ${payload.id} not found` };
+    }
+    if (payload.name !== undefined && nameTaken(labels, payload.name, payload.id)) {
+      return duplicateName(payload.name);
+    }
+
+    const { data, error } = await supabase
+      .from('board_labels')
+      .update({
+        name:  payload.name  ?? existing.name,
+        color: payload.color ?? existing.color,
+      })
+      .eq('id', payload.id)
+      .eq('board_id', ctx.boardId)
+      .select('*')
+      .single();
+
+    if (error?.code === UNIQUE_VIOLATION) return duplicateName(payload.name ?? existing.name);
+    if (error || !data) {
+      return { ok: false, code: 'UPDATE_FAILED', message: error?.message ?? 'Label update failed' };
+    }
+
+    await invalidateLabels(ctx.boardId);
+    return { ok: true, data: dbRowToLabel(data) };
+  } catch (err) {
+    console.error('[labelService.updateLabel]', err);
+    return { ok: false, code: 'UPDATE_FAILED', message: String(err) };
+  }
+}
+
+/**
+ * DELETE a label from the catalog. Its task_labels rows go with it (FK
+ * cascade); the caller strips it from the cached tasks first.
+ */
+export async function deleteLabel(
+  ctx:     BoardContext,
+  labelId: string,
+): Promise<ServiceOutcome<BoardLabel>> {
+  try {
+    const existing = await getLabel(ctx.boardId, labelId);
+    if (!existing) {
+      return { ok: false, code: 'NOT_FOUND', message: `Label ${labelId} not found` };
+    }
+
+    const { error } = await supabase
+      .from('board_labels')
+      .delete()
+      .eq('id', labelId)
+      .eq('board_id', ctx.boardId);
+
+    if (error) {
+      return { ok: false, code: 'DELETE_FAILED', message: error.message };
+    }
+
+    await invalidateLabels(ctx.boardId);
+    return { ok: true, data: existing };
+  } catch (err) {
+    console.error('[labelService.deleteLabel]', err);
+    return { ok: false, code: 'DELETE_FAILED', message: String(err) };
+  }
+}
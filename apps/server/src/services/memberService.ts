@@ -0,0 +1,263 @@
+/**
+ * services/memberService.ts
+ *
+ * Board membership and roles.
+ *
+ * Storage strategy:
+ *   - Membership changes are rare, so writes go straight to Supabase.
+ *   - Role lookups are hot (every socket event is authorized), so each
+ *     board's userId → role map is cached in one Redis hash. Writes
+ *     invalidate the hash; the next read repopulates it.
+ *
+ * Key schema:
+ *   board:<boardId>:members   HASH  { <userId>: <role>, ... }
+ *
+ * Invariant: a board always keeps at least one admin (LAST_ADMIN).
+ *
+ * Architecture rules (CONTEXT.md): NO socket.io imports here.
+ */
+import { redis } from '../cache/redis';
+import { supabase } from '../db/client';
+import type { Role } from '../lib/permissions';
+import type { AddMemberPayload } from '../validation/memberSchema';
+import type { ServiceOutcome } from './taskService';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface BoardMember {
+  userId:      string;
+  displayName: string;
+  email:       string;
+  color:       string;
+  role:        Role;
+  joinedAt:    string;
+}
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+const MEMBERS_KEY = (boardId: string): string => `board:${boardId}:members`;
+
+// Same lifetime as the column cache (columnService)
+const MEMBERS_TTL_SECONDS = 3600;
+
+// Postgres unique_violation — user is already a member
+const UNIQUE_VIOLATION = '23505';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+/** Map a board_members row joined with users to a BoardMember. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function dbRowToMember(row: Record<string, any>): BoardMember {
+  return {
+    userId:      row.user_id             as string,
+    displayName: row.users?.display_name as string,
+    email:       row.users?.email        as string,
+    color:       row.users?.color        as string,
+    role:        row.role                as Role,
+    joinedAt:    row.created_at          as string,
+  };
+}
+
+/**
+ * userId → role for every member of a board.
+ * Redis-first; on a miss loads from Supabase and warms the hash.
+ */
+async function loadRoles(boardId: string): Promise<Record<string, Role>> {
+  const cached = await redis.hgetall(MEMBERS_KEY(boardId));
+  if (cached && Object.keys(cached).length > 0) return cached as Record<string, Role>;
+
+  const { data, error } = await supabase
+    .from('board_members')
+    .select('user_id, role')
+    .eq('board_id', boardId);
+
+  if (error || !data) return {};
+
+  const roles = Object.fromEntries(
+    (data as Array<{ user_id: string; role: Role }>).map((m) => [m.user_id, m.role]),
+  );
+  if (Object.keys(roles).length > 0) {
+    const pipeline = redis.pipeline();
+    pipeline.hset(MEMBERS_KEY(boardId), roles);
+    pipeline.expire(MEMBERS_KEY(boardId), MEMBERS_TTL_SECONDS);
+    await pipeline.exec();
+  }
+  return roles;
+}
+
+/** Drop the cached role map — the next read reloads from Supabase. */
+async function invalidateRoles(boardId: string): Promise<void> {
+  await redis.del(MEMBERS_KEY(boardId));
+}
+
+/** True when `userId` is the only admin left on the board. */
+async function isLastAdmin(boardId: string, userId: string): Promise<boolean> {
+  const roles  = await loadRoles(boardId);
+  const admins = Object.entries(roles).filter(([, role]) => role === 'admin');
+  return admins.length === 1 && admins[0][0] === userId;
+}
+
+// ── Public Service Functions ──────────────────────────────────────────────────
+
+/**
+ * The user's role on a board, or null if they are not a member.
+ * Called by the socket authorization layer on every event.
+ */
+export async function getRole(boardId: string, userId: string): Promise<Role | null> {
+  return (await loadRoles(boardId))[userId] ?? null;
+}
+
+/** Every member of a board with their profile, admins first. */
+export async function listMembers(boardId: string): Promise<BoardMember[]> {
+  const { data, error } = await supabase
+    .from('board_members')
+    .select('user_id, role, created_at, users ( display_name, email, color )')
+    .eq('board_id', boardId)
+    .order('created_at', { ascending: true });
+
+  if (error || !data) return [];
+
+  const rank: Record<Role, number> = { admin: 0, editor: 1, viewer: 2 };
+  return data.map(dbRowToMember).sort((a, b) => rank[a.role] - rank[b.role]);
+}
+
+/** Ids of every board the user is a member of (board picker). */
+export async function listBoardIdsForUser(userId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('board_members')
+    .select('board_id')
+    .eq('user_id', userId);
+
+  if (error || !data) return [];
+  return (data as Array<{ board_id: string }>).map((m) => m.board_id);
+}
+
+/**
+ * Make `userId` an admin of a freshly created board.
+ * Called once by boardService.createBoard.
+ */
+export async function addOwner(boardId: string, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('board_members')
+    .insert({ board_id: boardId, user_id: userId, role: 'admin' });
+
+  if (error) throw new Error(`Adding owner failed for board ${boardId}: ${error.message}`);
+  await invalidateRoles(boardId);
+}
+
+/**
+ * Give a duplicated board the members of its source, with the same roles.
+ * `ownerId` — already added by addOwner — stays admin.
+ */
+export async function copyMembers(fromBoardId: string, toBoardId: string, ownerId: string): Promise<void> {
+  const rows = Object.entries(await loadRoles(fromBoardId))
+    .filter(([userId]) => userId !== ownerId)
+    .map(([userId, role]) => ({ board_id: toBoardId, user_id: userId, role }));
+  if (rows.length === 0) return;
+
+  const { error } = await supabase.from('board_members').insert(rows);
+  if (error) throw new Error(`Copying members failed for board ${toBoardId}: ${error.message}`);
+  await invalidateRoles(toBoardId);
+}
+
+/** ADD an existing user (looked up by email) to the board. */
+export async function addMember(
+  boardId: string,
+  payload: AddMemberPayload,
+): Promise<ServiceOutcome<BoardMember>> {
+  try {
+    const { data: user, error: userErr } = await supabase
+      .from('users')
+      .select('id')
+      .eq('email', payload.email)
+      .maybeSingle();
+
+    if (userErr) {
+      return { ok: false, code: 'CREATE_FAILED', message: userErr.message };
+    }
+    if (!user) {
+      return { ok: false, code: 'USER_NOT_FOUND', message: `No account with email ${payload.email}` };
+    }
+
+    const { data, error } = await supabase
+      .from('board_members')
+      .insert({ board_id: boardId, user_id: user.id as string, role: payload.role })
+      .select('user_id, role, created_at, users ( display_name, email, color )')
+      .single();
+
+    if (error?.code === UNIQUE_VIOLATION) {
+      return { ok: false, code: 'ALREADY_MEMBER', message: `${payload.email} is already a member of this board` };
+    }
+    if (error || !data) {
+      return { ok: false, code: 'CREATE_FAILED', message: error?.message ?? 'Member insert failed' };
+    }
+
+    await invalidateRoles(boardId);
+    return { ok: true, data: dbRowToMember(data) };
+  } catch (err) {
+    console.error('[memberService.addMember]', err);
+    return { ok: false, code: 'CREATE_FAILED', message: String(err) };
+  }
+}
+
+/** CHANGE a member's role. The last admin cannot demote themselves. */
+export async function updateMemberRole(
+  boardId: string,
+  userId:  string,
+  role:    Role,
+): Promise<ServiceOutcome<BoardMember>> {
+  try {
+    if (role !== 'admin' && (await isLastAdmin(boardId, userId))) {
+      return { ok: false, code: 'LAST_ADMIN', message: 'A board needs at least one admin' };
+    }
+
+    const { data, error } = await supabase
+      .from('board_members')
+      .update({ role })
+      .eq('board_id', boardId)
+      .eq('user_id', userId)
+      .select('user_id, role, created_at, users ( display_name, email, color )')
+      .maybeSingle();
+
+    if (error) {
+      return { ok: false, code: 'UPDATE_FAILED', message: error.message };
+    }
+    if (!data) {
+      return { ok: false, code: 'NOT_FOUND', message: `User ${userId} is not a member of this board` };
+    }
+
+    await invalidateRoles(boardId);
+    return { ok: true, data: dbRowToMember(data) };
+  } catch (err) {
+    console.error('[memberService.updateMemberRole]', err);
+    return { ok: false, code: 'UPDATE_FAILED', message: String(err) };
+  }
+}
+
+/** REMOVE a member. Idempotent; the last admin cannot be removed. */
+export async function removeMember(
+  boardId: string,
+  userId:  string,
+): Promise<ServiceOutcome<{ userId: string }>> {
+  try {
+    if (await isLastAdmin(boardId, userId)) {
+      return { ok: false, code: 'LAST_ADMIN', message: 'A board needs at least one admin' };
+    }
+
+    const { error } = await supabase
+      .from('board_members')
+      .delete()
+      .eq('board_id', boardId)
+      .eq('user_id', userId);
+
+    if (error) {
+      return { ok: false, code: 'DELETE_FAILED', message: error.message };
+    }
+
+    await invalidateRoles(boardId);
+    return { ok: true, data: { userId } };
+  } catch (err) {
+    console.error('[memberService.removeMember]', err);
+    return { ok: false, code: 'DELETE_FAILED', message: String(err) };
+  }
+}
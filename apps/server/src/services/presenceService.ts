@@ -3,11 +3,14 @@
  *
  * User presence state stored in Redis.
  * Each connected user's presence is stored as a Redis Hash.
- * A Redis Set tracks all currently-connected user IDs.
+ * One Redis Set per board tracks the sockets currently in that board's room.
  *
  * Key schema:
- *   presence:<socketId>        HASH  { userId, displayName, color, editingTaskId?, connectedAt }
- *   presence:active            SET   { socketId, ... }
+ *   presence:<socketId>                HASH  { userId, boardId, displayName, color, editingTaskId?, connectedAt }
+ *
+ * Presence is keyed by socket (one user may have several tabs open) but
+ * carries the authenticated users.id as userId.
+ *   presence:board:<boardId>:active    SET   { socketId, ... }
  *
  * TTL: 2 hours — covers typical work sessions. The disconnect handler
  * removes the entry immediately on clean disconnect.
@@ -15,11 +18,13 @@
  * Architecture rules (CONTEXT.md): NO socket.io imports here.
  */
 import { redis } from '../cache/redis';
+import type { AuthUser } from './authService';
 
 // ── Types ─────────────────────────────────────────────────────────────────────
 
 export interface UserPresence {
   userId:        string;
+  boardId:       string;
   displayName:   string;
   color:         string;   // hex colour, randomly assigned on connect
   editingTaskId?: string;
@@ -29,11 +34,15 @@ export interface UserPresence {
 // ── Constants ─────────────────────────────────────────────────────────────────
 
 const PRESENCE_KEY    = (socketId: string): string => `presence:${socketId}`;
-const ACTIVE_SET_KEY  = 'presence:active';
+const ACTIVE_SET_KEY  = (boardId: string):  string => `presence:board:${boardId}:active`;
+const ACTIVE_SET_SCAN = 'presence:board:*:active';
 const PRESENCE_TTL    = 7200; // 2 hours in seconds
 
-/** Presence colours from BRANDING.md — assigned round-robin on connect. */
-const PRESENCE_COLOURS: string[] = [
+/**
+ * Presence colours from BRANDING.md — assigned round-robin on connect.
+ * authService also picks each account's attribution colour from this list.
+ */
+export const PRESENCE_COLOURS: string[] = [
   '#3B82F6', // --presence-1  blue
   '#8B5CF6', // --presence-2  violet
   '#EC4899', // --presence-3  pink
@@ -45,11 +54,11 @@ const PRESENCE_COLOURS: string[] = [
 // ── Colour assignment ─────────────────────────────────────────────────────────
 
 /**
- * Pick a colour for a new user that is least-used among active users.
- * Falls back to random if the Redis set is empty.
+ * Pick a colour for a new user that is least-used among the board's active users.
+ * Falls back to the first colour if the Redis set is empty.
  */
-export async function assignPresenceColour(): Promise<string> {
-  const activeIds = await redis.smembers(ACTIVE_SET_KEY);
+export async function assignPresenceColour(boardId: string): Promise<string> {
+  const activeIds = await redis.smembers(ACTIVE_SET_KEY(boardId));
 
   if (activeIds.length === 0) return PRESENCE_COLOURS[0];
 
@@ -83,17 +92,19 @@ export async function assignPresenceColour(): Promise<string> {
 // ── CRUD ──────────────────────────────────────────────────────────────────────
 
 /**
- * Register a newly-connected user.
+ * Register a newly-connected user in a board's presence set.
  * Called in the socket 'connect' event handler.
  */
 export async function addPresence(
-  socketId:    string,
-  displayName: string,
+  socketId: string,
+  boardId:  string,
+  user:     AuthUser,
 ): Promise<UserPresence> {
-  const color = await assignPresenceColour();
+  const color = await assignPresenceColour(boardId);
   const presence: UserPresence = {
-    userId:      socketId, // use socketId as userId — unique per connection
-    displayName,
+    userId:      user.id,
+    boardId,
+    displayName: user.displayName,
     color,
     connectedAt: new Date().toISOString(),
   };
@@ -101,25 +112,26 @@ export async function addPresence(
   const pipeline = redis.pipeline();
   pipeline.hset(PRESENCE_KEY(socketId), {
     userId:      presence.userId,
+    boardId:     presence.boardId,
     displayName: presence.displayName,
     color:       presence.color,
     connectedAt: presence.connectedAt,
   });
   pipeline.expire(PRESENCE_KEY(socketId), PRESENCE_TTL);
-  pipeline.sadd(ACTIVE_SET_KEY, socketId);
+  pipeline.sadd(ACTIVE_SET_KEY(boardId), socketId);
   await pipeline.exec();
 
   return presence;
 }
 
 /**
- * Remove a disconnected user.
+ * Remove a disconnected user from a board's presence set.
  * Called in the socket 'disconnect' event handler.
  */
-export async function removePresence(socketId: string): Promise<void> {
+export async function removePresence(socketId: string, boardId: string): Promise<void> {
   const pipeline = redis.pipeline();
   pipeline.del(PRESENCE_KEY(socketId));
-  pipeline.srem(ACTIVE_SET_KEY, socketId);
+  pipeline.srem(ACTIVE_SET_KEY(boardId), socketId);
   await pipeline.exec();
 }
 
@@ -158,6 +170,7 @@ export async function getPresence(socketId: string): Promise<UserPresence | null
 
   return {
     userId:        hash.userId,
+    boardId:       hash.boardId,
     displayName:   hash.displayName,
     color:         hash.color,
     editingTaskId: hash.editingTaskId ?? undefined,
@@ -165,28 +178,29 @@ export async function getPresence(socketId: string): Promise<UserPresence | null
   };
 }
 
-/**
- * Get all currently-active presences.
- * Used for BOARD_SNAPSHOT and PRESENCE_STATE broadcasts.
- */
 /**
  * Wipe all presence data.
  * Called on server startup to remove stale state from previous runs.
  */
 export async function cleanAllPresences(): Promise<void> {
-  // We only delete the set. Individual hash keys will expire via TTL.
-  await redis.del(ACTIVE_SET_KEY);
+  // We only delete the per-board sets. Individual hash keys will expire via TTL.
+  let cursor = '0';
+  do {
+    const [next, keys] = await redis.scan(cursor, 'MATCH', ACTIVE_SET_SCAN, 'COUNT', 100);
+    if (keys.length > 0) await redis.del(...keys);
+    cursor = next;
+  } while (cursor !== '0');
 }
 
 /**
- * Get all currently-active presences.
+ * Get all currently-active presences on one board.
  * Used for BOARD_SNAPSHOT and PRESENCE_STATE broadcasts.
  *
  * Checks for stale members (IDs in the set but with expired/missing hash keys)
  * and lazily removes them to keep the set clean.
  */
-export async function getAllPresences(): Promise<UserPresence[]> {
-  const socketIds = await redis.smembers(ACTIVE_SET_KEY);
+export async function getAllPresences(boardId: string): Promise<UserPresence[]> {
+  const socketIds = await redis.smembers(ACTIVE_SET_KEY(boardId));
   if (socketIds.length === 0) return [];
 
   const pipeline = redis.pipeline();
@@ -205,6 +219,7 @@ export async function getAllPresences(): Promise<UserPresence[]> {
       const h = hash as Record<string, string>;
       presences.push({
         userId:        h.userId,
+        boardId:       h.boardId,
         displayName:   h.displayName,
         color:         h.color,
         editingTaskId: h.editingTaskId ?? undefined,
@@ -218,7 +233,7 @@ export async function getAllPresences(): Promise<UserPresence[]> {
 
   // Self-heal: remove stale IDs found in the set
   if (staleIds.length > 0) {
-    await redis.srem(ACTIVE_SET_KEY, ...staleIds);
+    await redis.srem(ACTIVE_SET_KEY(boardId), ...staleIds);
   }
 
   return presences;
@@ -0,0 +1,137 @@
+/**
+ * services/searchService.ts
+ *
+ * Board search — GET /api/tasks/search (routes/tasks.ts).
+ *
+ * The query is parsed by lib/searchQuery.ts. Free text goes to Postgres
+ * full-text search (tasks.search_vector, migration 019), which yields the
+ * ids of matching tasks; qualifiers are then checked against the live tasks
+ * from taskService (Redis-first), so columns, labels and assignees reflect
+ * the board as clients see it. Text edits still waiting for their
+ * write-behind flush are matched once the flush lands.
+ *
+ * Every hit carries the ranges of its title and description that matched,
+ * for the client to highlight.
+ *
+ * Architecture rules (CONTEXT.md): NO socket.io imports here.
+ */
+import { supabase } from '../db/client';
+import {
+  highlightRanges,
+  inRange,
+  parseSearchQuery,
+  toWebSearch,
+  type Range,
+} from '../lib/searchQuery';
+import { getColumns } from './columnService';
+import { getLabels } from './labelService';
+import { listMembers } from './memberService';
+import { getAllTasks, type ServiceOutcome, type Task } from './taskService';
+import type { AuthUser } from './authService';
+import type { SearchRequest } from '../validation/searchSchema';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface SearchHit {
+  task:       Task;
+  highlights: {
+    title:       Range[];
+    description: Range[];
+  };
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+/** Ids of the board's live tasks whose title / description match `terms`. */
+async function findTextMatches(boardId: string, terms: string[]): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('id')
+    .eq('board_id', boardId)
+    .is('deleted_at', null)
+    .textSearch('search_vector', toWebSearch(terms), { type: 'websearch', config: 'simple' });
+
+  if (error) throw new Error(error.message);
+  return new Set((data ?? []).map((row: { id: string }) => row.id));
+}
+
+/**
+ * Whether a task's creator / last updater is one of `wanted` — `me` or a
+ * display name. Names are the ones stored on the task, so former members
+ * still match.
+ */
+function byPerson(wanted: string[], userId: string, id: string | undefined, name: string | undefined): boolean {
+  return wanted.length === 0 ||
+    (id !== undefined && wanted.includes('me') && id === userId) ||
+    (name !== undefined && wanted.includes(name.toLowerCase()));
+}
+
+/** Ids of the items whose lower-cased name is one of `wanted`. */
+function idsNamed<T>(items: T[], name: (item: T) => string, id: (item: T) => string, wanted: string[]): Set<string> {
+  return new Set(items.filter((item) => wanted.includes(name(item).toLowerCase())).map(id));
+}
+
+// ── Public Service Functions ──────────────────────────────────────────────────
+
+/**
+ * SEARCH the live tasks of a board, in board order (columns left to right,
+ * then position). Fails with INVALID_QUERY when `q` doesn't parse.
+ */
+export async function searchTasks(
+  user:    AuthUser,
+  request: SearchRequest,
+): Promise<ServiceOutcome<SearchHit[]>> {
+  const parsed = parseSearchQuery(request.q, Date.now());
+  if (!parsed.ok) return { ok: false, code: 'INVALID_QUERY', message: parsed.message };
+
+  const { query } = parsed;
+  try {
+    const [tasks, columns, labels, members] = await Promise.all([
+      getAllTasks(request.boardId),
+      getColumns(request.boardId),
+      getLabels(request.boardId),
+      // Member names are only needed to resolve assignee:<name>
+      query.assignees.length > 0 ? listMembers(request.boardId) : Promise.resolve([]),
+    ]);
+
+    const textMatches = query.terms.length > 0 ? await findTextMatches(request.boardId, query.terms) : null;
+    const columnIds   = idsNamed(columns, (c) => c.title, (c) => c.id, query.columns);
+    const labelIds    = idsNamed(labels, (l) => l.name, (l) => l.id, query.labels);
+    const assigneeIds = idsNamed(members, (m) => m.displayName, (m) => m.userId, query.assignees);
+    if (query.assignees.includes('me')) assigneeIds.add(user.id);
+    const unassigned  = query.assignees.includes('none');
+
+    const matches = (task: Task): boolean =>
+      (textMatches === null || textMatches.has(task.id)) &&
+      (query.columns.length === 0 || columnIds.has(task.columnId)) &&
+      (query.labels.length === 0 || task.labelIds.some((id) => labelIds.has(id))) &&
+      (query.assignees.length === 0 ||
+        task.assigneeIds.some((id) => assigneeIds.has(id)) ||
+        (unassigned && task.assigneeIds.length === 0)) &&
+      byPerson(query.creators, user.id, task.creatorId, task.creatorName) &&
+      byPerson(query.updaters, user.id, task.updatedById, task.updatedByName) &&
+      (query.priorities.length === 0 || query.priorities.includes(task.priority)) &&
+      inRange(task.updatedAt, query.updated) &&
+      inRange(task.createdAt, query.created);
+
+    const columnRank = new Map(columns.map((c, i) => [c.id, i]));
+    const hits = tasks
+      .filter(matches)
+      .sort((a, b) =>
+        (columnRank.get(a.columnId) ?? 0) - (columnRank.get(b.columnId) ?? 0) || a.order - b.order,
+      )
+      .slice(0, request.limit)
+      .map((task): SearchHit => ({
+        task,
+        highlights: {
+          title:       highlightRanges(task.title, query.terms),
+          description: highlightRanges(task.description, query.terms),
+        },
+      }));
+
+    return { ok: true, data: hits };
+  } catch (err) {
+    console.error('[searchService.searchTasks]', err);
+    return { ok: false, code: 'SEARCH_FAILED', message: String(err) };
+  }
+}
@@ -7,36 +7,104 @@
  *   - Redis is the authoritative in-flight state (write-around cache).
  *   - BullMQ jobs flush Redis → PostgreSQL (debounced 500 ms per task).
  *   - All writes use optimistic versioning (version field).
+ *   - Deletes are soft: the task keeps its position with `deletedAt` set and
+ *     sits in the board's trash until restored or purged.
+ *   - Title / description changes also go through a per-task text log, so
+ *     collaborative TASK_TEXT_EDIT ops merge character by character
+ *     (lib/textOt.ts).
+ *   - Assignees must be members of the task's board (memberService), labels
+ *     must be in its label catalog (labelService).
+ *   - Changing a task's due date (re)schedules its TASK_DUE_SOON reminder
+ *     (jobs/dueReminders.ts).
+ *   - Checklist items live inside the task (lib/checklist.ts); each
+ *     checklist op bumps the task's version like any other edit.
+ *   - Blockers (blockedByIds) must be live tasks of the same board and may
+ *     not form a cycle (lib/dependencies.ts). Moving a task into a done
+ *     column while a blocker is not done is refused or merely warned about,
+ *     per BLOCKED_DONE_POLICY. A blocker in the trash keeps its links (they
+ *     count as done) so restoring it brings them back; the trash purge
+ *     unlinks it for good.
+ *   - TASK_BATCH applies many moves / edits / deletes all or nothing
+ *     (applyTaskBatch), under the move locks of all its tasks.
+ *   - Creates, moves, restores and batches that take a column past its WIP
+ *     limit fail with WIP_LIMIT_EXCEEDED, unless the user may override it
+ *     (lib/wipLimits.ts, 'wip:override'). The count and the write happen
+ *     under the column's WIP lock, so concurrent ones can't both squeeze in.
+ *   - Imports create many tasks through createTasks, validated all or nothing;
+ *     board copies are written as they are through insertTasks.
+ *   - Every recorded history event is also offered to the board's outgoing
+ *     webhooks (jobs/webhookWorker.ts).
  */
 import { v4 as uuidv4 } from 'uuid';
 import { redis } from '../cache/redis';
 import { supabase } from '../db/client';
 import { enqueueDatabaseFlush } from '../jobs/dbFlushWorker';
-import { orderBetween, needsRebalance } from '../lib/fractionalIndex';
+import { scheduleDueReminder } from '../jobs/dueReminders';
+import { dispatchWebhooks, dispatchWebhooksLater } from '../jobs/webhookWorker';
+import { orderBetween, needsRebalance, rebalancedOrders } from '../lib/fractionalIndex';
+import { applyChecklistOp, type ChecklistItem, type ChecklistOp } from '../lib/checklist';
+import { findCycle, openBlockers } from '../lib/dependencies';
+import { can } from '../lib/permissions';
+import { diffTasks } from '../lib/taskDiff';
+import { applyOp, baseLength, diffOp, transform, type TextOp } from '../lib/textOt';
+import { findWipOverflow } from '../lib/wipLimits';
+import { TextFieldSchema } from '../validation/taskSchema';
+import { getColumn, getColumns } from './columnService';
+import { getLabels } from './labelService';
+import { getRole } from './memberService';
+import type { AuthUser } from './authService';
+import type { TaskEventType } from './historyService';
 import type {
   CreateTaskPayload,
   UpdateTaskPayload,
   MoveTaskPayload,
   DeleteTaskPayload,
+  RestoreTaskPayload,
+  TaskTextEditPayload,
+  BatchOp,
+  TaskPriority,
+  TextField,
 } from '../validation/taskSchema';
 
 // ── Types ─────────────────────────────────────────────────────────────────────
 
-export type ColumnId = 'todo' | 'in-progress' | 'done';
+/** board_columns.id — columns are user-defined per board (see columnService). */
+export type ColumnId = string;
 
 export interface Task {
   id:          string;
+  boardId:     string;
   columnId:    ColumnId;
   title:       string;
   description: string;
   order:       number;
+  /** users.id of the assigned board members */
+  assigneeIds: string[];
+  /** board_labels.id of the attached labels (task_labels) */
+  labelIds:    string[];
+  /** Tasks of the same board that block this one */
+  blockedByIds: string[];
+  /** ISO timestamps, unset when the task has no start / due date */
+  startAt?:    string;
+  dueAt?:      string;
+  priority:    TaskPriority;
+  /** Story points, unset when not estimated */
+  estimate?:   number;
+  /** Checklist items, sorted by order */
+  checklist:   ChecklistItem[];
   createdAt:   string;
   updatedAt:   string;
   version:     number;
+  creatorId?:  string;
   creatorName?: string;
   creatorColor?: string;
+  updatedById?: string;
   updatedByName?: string;
   updatedByColor?: string;
+  /** Set while the task is in the trash */
+  deletedAt?:  string;
+  /** Number of text ops applied (Redis only — restarts at 0 on a cold load) */
+  textRevision?: number;
 }
 
 export interface ServiceResult<T> {
@@ -52,33 +120,86 @@ export interface ServiceError {
 
 export type ServiceOutcome<T> = ServiceResult<T> | ServiceError;
 
+/**
+ * Who/where a mutation runs for. Handlers build this from the socket
+ * (the board room it joined + the user its token belongs to), REST routes
+ * from the stored task / request and the Bearer session; service
+ * functions never trust a boardId or identity from the payload.
+ */
+export interface BoardContext {
+  boardId: string;
+  user:    AuthUser;
+}
+
 // ── Redis key helpers ─────────────────────────────────────────────────────────
 
-const TASK_KEY    = (id: string):              string => `task:${id}`;
-const COLUMN_KEY  = (col: ColumnId):           string => `column:${col}:tasks`;
-const BOARD_KEY   =                                      'board:tasks';
-const LOCK_KEY    = (id: string):              string => `task:${id}:lock`;
+const TASK_KEY    = (id: string):                    string => `task:${id}`;
+const COLUMN_KEY  = (board: string, col: ColumnId): string => `board:${board}:column:${col}:tasks`;
+const BOARD_KEY   = (board: string):                 string => `board:${board}:tasks`;
+const TRASH_KEY   = (board: string):                 string => `board:${board}:trash`;
+const LOCK_KEY    = (id: string):                    string => `task:${id}:lock`;
+const TEXT_LOCK_KEY = (id: string):                  string => `task:${id}:text:lock`;
+const TEXT_LOG_KEY  = (id: string):                  string => `task:${id}:text:log`;
+const TEXT_RUN_KEY  = (id: string, field: TextField, user: string): string => `task:${id}:text:${field}:run:${user}`;
+const WIP_LOCK_KEY  = (board: string, col: ColumnId): string => `board:${board}:column:${col}:wip:lock`;
 
 // TTL for task hash in Redis — 1 hour (matches CONTEXT.md spec)
 const TASK_TTL_SECONDS = 3600;
 
+// Text ops of one task are applied one at a time under a short Redis lock
+const TEXT_LOCK_TTL_MS       = 2000;
+// A TASK_BATCH holds the locks of all its tasks while it checks and writes them
+const BATCH_TEXT_LOCK_TTL_MS = 10_000;
+// Counting a limited column's tasks and adding one to it happen under its WIP lock
+const WIP_LOCK_TTL_MS        = 5000;
+const LOCK_RETRIES           = 40;
+const LOCK_RETRY_MS          = 25;
+
+/** Text ops kept for transforming late ones — older revisions must resync. */
+const TEXT_LOG_SIZE = 200;
+
+/**
+ * A user's keystrokes become one history event per pause: the run ends once
+ * its key has been idle this long, and its event is flushed a second later.
+ */
+const TEXT_RUN_IDLE_SECONDS = 4;
+const TEXT_RUN_FLUSH_MS     = 5000;
+
+const TEXT_MAX_LENGTH: Record<TextField, number> = { title: 500, description: 5000 };
+
+/** Task rows are read with their labels embedded (task_labels, migration 014). */
+const TASK_COLUMNS = '*, task_labels ( label_id )';
+
 // ── Serialisation helpers ─────────────────────────────────────────────────────
 
 /** Flatten a Task into a flat string map for Redis HSET. */
 function taskToHash(task: Task): Record<string, string> {
   return {
     id:          task.id,
+    boardId:     task.boardId,
     columnId:    task.columnId,
     title:       task.title,
     description: task.description,
     order:       String(task.order),
+    assigneeIds: JSON.stringify(task.assigneeIds),
+    labelIds:    JSON.stringify(task.labelIds),
+    blockedByIds: JSON.stringify(task.blockedByIds),
+    startAt:     task.startAt || '',
+    dueAt:       task.dueAt || '',
+    priority:    task.priority,
+    estimate:    task.estimate === undefined ? '' : String(task.estimate),
+    checklist:   JSON.stringify(task.checklist),
     createdAt:   task.createdAt,
     updatedAt:   task.updatedAt,
     version:     String(task.version),
+    creatorId:   task.creatorId || '',
     creatorName: task.creatorName || '',
     creatorColor: task.creatorColor || '',
+    updatedById: task.updatedById || '',
     updatedByName: task.updatedByName || '',
     updatedByColor: task.updatedByColor || '',
+    deletedAt:   task.deletedAt || '',
+    textRevision: String(task.textRevision ?? 0),
   };
 }
 
@@ -86,48 +207,72 @@ function taskToHash(task: Task): Record<string, string> {
 function hashToTask(hash: Record<string, string>): Task {
   return {
     id:          hash.id,
+    boardId:     hash.boardId,
     columnId:    hash.columnId as ColumnId,
     title:       hash.title,
     description: hash.description,
     order:       parseFloat(hash.order),
+    // Hashes cached before assignees existed have no field
+    assigneeIds: hash.assigneeIds ? (JSON.parse(hash.assigneeIds) as string[]) : [],
+    labelIds:    hash.labelIds    ? (JSON.parse(hash.labelIds)    as string[]) : [],
+    blockedByIds: hash.blockedByIds ? (JSON.parse(hash.blockedByIds) as string[]) : [],
+    startAt:     hash.startAt || undefined,
+    dueAt:       hash.dueAt || undefined,
+    priority:    (hash.priority || 'none') as TaskPriority,
+    estimate:    hash.estimate ? parseFloat(hash.estimate) : undefined,
+    checklist:   hash.checklist ? (JSON.parse(hash.checklist) as ChecklistItem[]) : [],
     createdAt:   hash.createdAt,
     updatedAt:   hash.updatedAt,
     version:     parseInt(hash.version, 10),
+    creatorId:   hash.creatorId || undefined,
     creatorName: hash.creatorName || undefined,
     creatorColor: hash.creatorColor || undefined,
+    updatedById: hash.updatedById || undefined,
     updatedByName: hash.updatedByName || undefined,
     updatedByColor: hash.updatedByColor || undefined,
+    deletedAt:   hash.deletedAt || undefined,
+    textRevision: parseInt(hash.textRevision || '0', 10),
   };
 }
 
 // ── Internal helpers ──────────────────────────────────────────────────────────
 
 /**
- * Write task to Redis (HSET + SADD to column set + global set) with TTL.
+ * Write task to Redis (HSET + SADD to column set + board set) with TTL.
+ * A deleted task goes to the trash set instead of the column / board sets.
  * Does NOT touch the database — that's BullMQ's job.
  */
 async function cacheTask(task: Task): Promise<void> {
   const pipeline = redis.pipeline();
   pipeline.hset(TASK_KEY(task.id), taskToHash(task));
   pipeline.expire(TASK_KEY(task.id), TASK_TTL_SECONDS);
-  pipeline.sadd(COLUMN_KEY(task.columnId), task.id);
-  pipeline.sadd(BOARD_KEY, task.id);
+  if (task.deletedAt) {
+    pipeline.srem(COLUMN_KEY(task.boardId, task.columnId), task.id);
+    pipeline.srem(BOARD_KEY(task.boardId), task.id);
+    pipeline.sadd(TRASH_KEY(task.boardId), task.id);
+  } else {
+    pipeline.sadd(COLUMN_KEY(task.boardId, task.columnId), task.id);
+    pipeline.sadd(BOARD_KEY(task.boardId), task.id);
+    pipeline.srem(TRASH_KEY(task.boardId), task.id);
+  }
   await pipeline.exec();
 }
 
 /**
  * Fetch a single task from Redis.
- * Returns null if the key doesn't exist (cold cache).
+ * Returns null if the key doesn't exist (cold cache) or predates boards
+ * (no boardId field) — the Supabase fallback then re-populates it.
  */
 async function getTaskFromCache(id: string): Promise<Task | null> {
   const hash = await redis.hgetall(TASK_KEY(id));
-  if (!hash || !hash.id) return null;
+  if (!hash || !hash.id || !hash.boardId) return null;
   return hashToTask(hash);
 }
 
 /**
  * Fetch a task from Redis, fall back to Supabase if not cached.
- * On cache-miss, re-populates Redis.
+ * On cache-miss, re-populates Redis. Includes deleted tasks — callers that
+ * only act on live tasks check `deletedAt`.
  */
 async function getTask(id: string): Promise<Task | null> {
   const cached = await getTaskFromCache(id);
@@ -135,7 +280,7 @@ async function getTask(id: string): Promise<Task | null> {
 
   const { data, error } = await supabase
     .from('tasks')
-    .select('*')
+    .select(TASK_COLUMNS)
     .eq('id', id)
     .single();
 
@@ -146,34 +291,391 @@ async function getTask(id: string): Promise<Task | null> {
   return task;
 }
 
+/**
+ * Canonical form of a start / due date — `new Date().toISOString()`, so
+ * values from clients, Postgres and Redis compare equal. Null / undefined
+ * mean "no date".
+ */
+function toIsoDate(value: string | null | undefined): string | undefined {
+  return value ? new Date(value).toISOString() : undefined;
+}
+
 /** Map a Supabase DB row (snake_case) to a Task (camelCase). */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 function dbRowToTask(row: Record<string, any>): Task {
   return {
     id:          row.id          as string,
+    boardId:     row.board_id    as string,
     columnId:    row.column_id   as ColumnId,
     title:       row.title       as string,
     description: row.description as string,
     order:       row.order       as number,
+    assigneeIds: (row.assignee_ids as string[] | null) ?? [],
+    labelIds:    ((row.task_labels as Array<{ label_id: string }> | null) ?? []).map((l) => l.label_id),
+    blockedByIds: (row.blocked_by_ids as string[] | null) ?? [],
+    startAt:     toIsoDate(row.start_at as string | null),
+    dueAt:       toIsoDate(row.due_at as string | null),
+    priority:    ((row.priority as TaskPriority | null) ?? 'none'),
+    // NUMERIC may arrive as a string
+    estimate:    row.estimate === null || row.estimate === undefined ? undefined : Number(row.estimate),
+    checklist:   (row.checklist as ChecklistItem[] | null) ?? [],
     createdAt:   row.created_at  as string,
     updatedAt:   row.updated_at  as string,
     version:     row.version     as number,
+    creatorId:   (row.creator_id as string | null) ?? undefined,
     creatorName: row.creator_name as string,
     creatorColor: row.creator_color as string,
+    updatedById: (row.updated_by_id as string | null) ?? undefined,
     updatedByName: row.updated_by_name as string,
     updatedByColor: row.updated_by_color as string,
+    deletedAt:   (row.deleted_at as string | null) ?? undefined,
+  };
+}
+
+/** Attribution fields stamped on every task a user changes. */
+function updatedBy(user: AuthUser): Pick<Task, 'updatedById' | 'updatedByName' | 'updatedByColor'> {
+  return {
+    updatedById:    user.id,
+    updatedByName:  user.displayName,
+    updatedByColor: user.color,
+  };
+}
+
+/**
+ * Append a history event (task_events) through the db-flush queue, and
+ * hand it to the board's webhooks.
+ * `before` is null for creates, `after` is null for deletes. Updates and
+ * moves that change no tracked field are not recorded.
+ */
+async function recordEvent(
+  type:   TaskEventType,
+  user:   AuthUser,
+  before: Task | null,
+  after:  Task | null,
+): Promise<void> {
+  const task = after ?? before;
+  if (!task) return;
+
+  const diff = diffTasks(before, after);
+  if ((type === 'updated' || type === 'moved') && Object.keys(diff).length === 0) return;
+
+  await enqueueDatabaseFlush({
+    operation: 'event',
+    event: {
+      id:         uuidv4(),
+      taskId:     task.id,
+      boardId:    task.boardId,
+      type,
+      actorId:    user.id,
+      version:    task.version,
+      diff,
+      occurredAt: after?.updatedAt ?? new Date().toISOString(),
+    },
+  });
+
+  await dispatchWebhooks(type, user, before, after);
+}
+
+// ── Text log ──────────────────────────────────────────────────────────────────
+
+/** One applied text op, as kept in the task's text log. */
+interface TextLogEntry {
+  revision: number;   // textRevision the op produced
+  field:    TextField;
+  op:       TextOp;
+}
+
+/**
+ * Run `fn` holding all the Redis locks `keys`, taken all or nothing: if any
+ * is held, the ones just taken are let go again before the retry. Returns
+ * null if they stayed taken.
+ */
+async function withLocks<T>(keys: string[], ttlMs: number, fn: () => Promise<T>): Promise<T | null> {
+  const unique = [...new Set(keys)];
+  const token  = uuidv4();
+  if (unique.length === 0) return fn();
+
+  for (let attempt = 0; attempt < LOCK_RETRIES; attempt++) {
+    const pipeline = redis.pipeline();
+    for (const key of unique) pipeline.set(key, token, 'PX', ttlMs, 'NX');
+    const results = (await pipeline.exec()) ?? [];
+    const taken   = unique.filter((_, i) => !results[i]?.[0] && results[i]?.[1] === 'OK');
+
+    if (taken.length === unique.length) {
+      try {
+        return await fn();
+      } finally {
+        await releaseLocks(taken, token);
+      }
+    }
+    await releaseLocks(taken, token);
+    await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+  return null;
+}
+
+/**
+ * Run `fn` holding the task's text lock. Returns null if the lock stayed
+ * taken — the caller reports TEXT_BUSY.
+ */
+async function withTextLock<T>(taskId: string, fn: () => Promise<T>): Promise<T | null> {
+  return withLocks([TEXT_LOCK_KEY(taskId)], TEXT_LOCK_TTL_MS, fn);
+}
+
+/** withTextLock for many tasks at once — all or nothing. */
+async function withTextLocks<T>(taskIds: string[], fn: () => Promise<T>): Promise<T | null> {
+  return withLocks(taskIds.map(TEXT_LOCK_KEY), BATCH_TEXT_LOCK_TTL_MS, fn);
+}
+
+/** Release locks taken with `token` — only our own, they may have expired and been re-taken. */
+async function releaseLocks(keys: string[], token: string): Promise<void> {
+  for (const key of keys) {
+    await redis.eval(
+      'if redis.call("get", KEYS[1]) == ARGV[1] then return redis.call("del", KEYS[1]) else return 0 end',
+      1, key, token,
+    );
+  }
+}
+
+/**
+ * The log entries after revision `from` up to `to`, or null if the log no
+ * longer holds all of them (trimmed, expired, or reset by a cold load).
+ */
+async function loadTextLog(taskId: string, from: number, to: number): Promise<TextLogEntry[] | null> {
+  if (from > to) return null;
+  if (from === to) return [];
+
+  const raw     = await redis.lrange(TEXT_LOG_KEY(taskId), -(to - from), -1);
+  const entries = raw.map((json) => JSON.parse(json) as TextLogEntry);
+
+  const complete =
+    entries.length === to - from &&
+    entries[0].revision === from + 1 &&
+    entries[entries.length - 1].revision === to;
+  return complete ? entries : null;
+}
+
+/**
+ * Append entries continuing from revision `from`. A log that doesn't end at
+ * `from` belongs to an older incarnation of the cached task and is dropped.
+ */
+async function appendTextLog(taskId: string, from: number, entries: TextLogEntry[]): Promise<void> {
+  const key  = TEXT_LOG_KEY(taskId);
+  const last = await redis.lindex(key, -1);
+
+  const pipeline = redis.pipeline();
+  if (last && (JSON.parse(last) as TextLogEntry).revision !== from) pipeline.del(key);
+  pipeline.rpush(key, ...entries.map((entry) => JSON.stringify(entry)));
+  pipeline.ltrim(key, -TEXT_LOG_SIZE, -1);
+  pipeline.expire(key, TASK_TTL_SECONDS);
+  await pipeline.exec();
+}
+
+/** Transform a client op against the concurrent ops on the same field. Null if it doesn't fit. */
+function rebaseTextOp(op: TextOp, field: TextField, concurrent: TextLogEntry[]): TextOp | null {
+  try {
+    for (const entry of concurrent) {
+      if (entry.field === field) [op] = transform(op, entry.op);
+    }
+    return op;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Record collaborative text edits as one `updated` history event per run of
+ * keystrokes: the run remembers the text it started from and a fixed event
+ * id, and every op re-enqueues that event (restarting its delay) with the
+ * diff from the start of the run to now. The run's TASK_UPDATED webhook is
+ * debounced alongside it.
+ */
+async function recordTextEdit(user: AuthUser, field: TextField, before: Task, after: Task): Promise<void> {
+  const key = TEXT_RUN_KEY(after.id, field, user.id);
+  const raw = await redis.get(key);
+  const run = raw
+    ? (JSON.parse(raw) as { eventId: string; from: string })
+    : { eventId: uuidv4(), from: before[field] };
+  await redis.set(key, JSON.stringify(run), 'EX', TEXT_RUN_IDLE_SECONDS);
+
+  const diff = diffTasks({ ...after, [field]: run.from }, after);
+  if (Object.keys(diff).length === 0) return;
+
+  await enqueueDatabaseFlush(
+    {
+      operation: 'event',
+      event: {
+        id:         run.eventId,
+        taskId:     after.id,
+        boardId:    after.boardId,
+        type:       'updated',
+        actorId:    user.id,
+        version:    after.version,
+        diff,
+        occurredAt: after.updatedAt,
+      },
+    },
+    TEXT_RUN_FLUSH_MS,
+  );
+  await dispatchWebhooksLater(run.eventId, user, { ...after, [field]: run.from }, after, TEXT_RUN_FLUSH_MS);
+}
+
+/**
+ * True when `columnId` is an active (non-archived) column of the board.
+ * Tasks can only be created in / moved to such columns.
+ */
+async function isActiveColumn(boardId: string, columnId: ColumnId): Promise<boolean> {
+  const column = await getColumn(boardId, columnId);
+  return column !== null && !column.archivedAt;
+}
+
+/** First of `labelIds` that is not in the board's catalog, or null if all are. */
+async function findUnknownLabel(boardId: string, labelIds: string[]): Promise<string | null> {
+  if (labelIds.length === 0) return null;
+  const known = new Set((await getLabels(boardId)).map((l) => l.id));
+  return labelIds.find((id) => !known.has(id)) ?? null;
+}
+
+/** First of `userIds` who is not a member of the board, or null if all are. */
+async function findNonMember(boardId: string, userIds: string[]): Promise<string | null> {
+  for (const userId of userIds) {
+    if ((await getRole(boardId, userId)) === null) return userId;
+  }
+  return null;
+}
+
+/**
+ * Why `taskId` can't be blocked by `blockedByIds`, or null if it can: every
+ * new blocker must be another live task of the board, and the links must
+ * not close a cycle. Blockers in `linked` (the task's current ones) may stay
+ * although they are in the trash.
+ */
+async function findDependencyProblem(
+  boardId:      string,
+  taskId:       string,
+  blockedByIds: string[],
+  linked:       string[] = [],
+): Promise<ServiceError | null> {
+  if (blockedByIds.length === 0) return null;
+
+  const others  = (await getAllTasks(boardId)).filter((t) => t.id !== taskId);
+  const unknown = blockedByIds.find((id) => !linked.includes(id) && !others.some((t) => t.id === id));
+  if (unknown) {
+    return { ok: false, code: 'INVALID_DEPENDENCY', message: `Task ${unknown} can't block this task` };
+  }
+
+  const cycle = findCycle(others, taskId, blockedByIds);
+  if (cycle) {
+    const titles = cycle.map((id) => others.find((t) => t.id === id)?.title ?? 'this task');
+    return { ok: false, code: 'DEPENDENCY_CYCLE', message: `That would make a cycle: ${titles.join(' → ')}` };
+  }
+  return null;
+}
+
+/**
+ * Enqueue a rebalance of `moved`'s column when its order sits too close to
+ * a neighbour's for another insert between them.
+ */
+async function rebalanceIfCrowded(moved: Task): Promise<void> {
+  const column = (await getAllTasks(moved.boardId))
+    .filter((t) => t.columnId === moved.columnId && t.id !== moved.id)
+    .sort((a, b) => a.order - b.order);
+
+  const idx   = column.findIndex((t) => t.order > moved.order);
+  const prevT = idx > 0 ? column[idx - 1] : null;
+  const nextT = idx >= 0 ? column[idx] : null;
+
+  if (
+    (prevT && needsRebalance(prevT.order, moved.order)) ||
+    (nextT && needsRebalance(moved.order, nextT.order))
+  ) {
+    await enqueueDatabaseFlush({
+      operation: 'rebalance',
+      boardId:   moved.boardId,
+      columnId:  moved.columnId,
+    });
+  }
+}
+
+/**
+ * WIP_LIMIT_EXCEEDED when going from the board's live tasks `before` to
+ * `after` takes a column past its WIP limit, or null. Admins may override.
+ */
+async function findWipProblem(
+  ctx:    BoardContext,
+  before: Array<Pick<Task, 'columnId'>>,
+  after:  Array<Pick<Task, 'columnId'>>,
+): Promise<ServiceError | null> {
+  const column = findWipOverflow(await getColumns(ctx.boardId), before, after);
+  if (!column || can(await getRole(ctx.boardId, ctx.user.id), 'wip:override')) return null;
+  return {
+    ok: false,
+    code: 'WIP_LIMIT_EXCEEDED',
+    message: `"${column.title}" is at its WIP limit (${column.wipLimit})`,
+  };
+}
+
+/**
+ * Run `fn` holding the WIP locks of those of `columnIds` that have a WIP
+ * limit, so two creates / moves / restores into a column one short of its
+ * limit can't both count it before either writes. `fn` must do the
+ * findWipProblem check and the write. Null if a lock stayed taken — the
+ * caller reports COLUMN_BUSY.
+ */
+async function withWipLocks<T>(boardId: string, columnIds: ColumnId[], fn: () => Promise<T>): Promise<T | null> {
+  const limited = (await getColumns(boardId))
+    .filter((c) => c.wipLimit !== undefined && columnIds.includes(c.id))
+    .map((c) => WIP_LOCK_KEY(boardId, c.id));
+  return withLocks(limited, WIP_LOCK_TTL_MS, fn);
+}
+
+const columnBusy = (): ServiceError => ({
+  ok: false, code: 'COLUMN_BUSY', message: 'That column is busy, try again',
+});
+
+/** The task `ctx.user` creates from `payload`, at `order`. */
+function newTask(ctx: BoardContext, payload: CreateTaskPayload, order: number, now: string): Task {
+  return {
+    id:          payload.id,
+    boardId:     ctx.boardId,
+    columnId:    payload.columnId as ColumnId,
+    title:       payload.title,
+    description: payload.description ?? '',
+    order,
+    assigneeIds: payload.assigneeIds ?? [],
+    labelIds:    payload.labelIds ?? [],
+    blockedByIds: payload.blockedByIds ?? [],
+    startAt:     toIsoDate(payload.startAt),
+    dueAt:       toIsoDate(payload.dueAt),
+    priority:    payload.priority ?? 'none',
+    estimate:    payload.estimate ?? undefined,
+    checklist:   [],
+    createdAt:   now,
+    updatedAt:   now,
+    version:     1,
+    creatorId:    ctx.user.id,
+    creatorName:  ctx.user.displayName,
+    creatorColor: ctx.user.color,
+    ...updatedBy(ctx.user),
   };
 }
 
+/** What happens when a task with open blockers enters a done column. */
+type BlockedDonePolicy = 'warn' | 'reject';
+
+function blockedDonePolicy(): BlockedDonePolicy {
+  return process.env.BLOCKED_DONE_POLICY === 'reject' ? 'reject' : 'warn';
+}
+
 // ── Public Service Functions ──────────────────────────────────────────────────
 
 /**
- * Load all tasks from Redis (or Supabase on cold boot).
- * Used for BOARD_SNAPSHOT on connect.
+ * Load all live tasks of one board from Redis (or Supabase on cold boot).
+ * Used for BOARD_SNAPSHOT on connect. Deleted tasks are excluded.
  */
-export async function getAllTasks(): Promise<Task[]> {
-  // Try to load all task IDs from the global board set
-  const ids = await redis.smembers(BOARD_KEY);
+export async function getAllTasks(boardId: string): Promise<Task[]> {
+  // Try to load all task IDs from the board set
+  const ids = await redis.smembers(BOARD_KEY(boardId));
 
   if (ids.length > 0) {
     // Batch-fetch all task hashes
@@ -185,7 +687,9 @@ export async function getAllTasks(): Promise<Task[]> {
       const tasks: Task[] = [];
       for (const [err, hash] of results) {
         if (!err && hash && typeof hash === 'object' && (hash as Record<string, string>).id) {
-          tasks.push(hashToTask(hash as Record<string, string>));
+          const task = hashToTask(hash as Record<string, string>);
+          // A stray id of another board's task must not show up here
+          if (!task.deletedAt && task.boardId === boardId) tasks.push(task);
         }
       }
       if (tasks.length > 0) return tasks.sort((a, b) => a.order - b.order);
@@ -195,7 +699,9 @@ export async function getAllTasks(): Promise<Task[]> {
   // Cold boot — load from Supabase and warm Redis
   const { data, error } = await supabase
     .from('tasks')
-    .select('*')
+    .select(TASK_COLUMNS)
+    .eq('board_id', boardId)
+    .is('deleted_at', null)
     .order('order', { ascending: true });
 
   if (error || !data) return [];
@@ -208,154 +714,458 @@ export async function getAllTasks(): Promise<Task[]> {
 }
 
 /**
- * CREATE a new task.
+ * CREATE a new task. Fails with TASK_EXISTS if the id is taken.
  *
- * 1. Compute fractional order — append to end of the target column.
+ * 1. Compute fractional order — append to end of the target column, unless
+ *    the payload pins one.
  * 2. Write to Redis immediately.
  * 3. Enqueue BullMQ flush job.
  * 4. Return the full Task to broadcast.
  */
 export async function createTask(
+  ctx:     BoardContext,
   payload: CreateTaskPayload,
 ): Promise<ServiceOutcome<Task>> {
   try {
-    // Find the current max order in that column to append at the bottom
-    const allTasks = await getAllTasks();
-    const columnTasks = allTasks
-      .filter((t) => t.columnId === payload.columnId)
-      .sort((a, b) => a.order - b.order);
-
-    const lastTask = columnTasks[columnTasks.length - 1] ?? null;
-    const order    = orderBetween(lastTask?.order ?? null, null);
-
-    const now  = new Date().toISOString();
-    const task: Task = {
-      id:          payload.id,
-      columnId:    payload.columnId as ColumnId,
-      title:       payload.title,
-      description: payload.description ?? '',
-      order,
-      createdAt:   now,
-      updatedAt:   now,
-      version:     1,
-      creatorName: payload.creatorName || 'Anonymous',
-      creatorColor: payload.creatorColor || '#cbd5e1',
-      updatedByName: payload.updatedByName || payload.creatorName || 'Anonymous',
-      updatedByColor: payload.updatedByColor || payload.creatorColor || '#cbd5e1',
-    };
+    // Ids come from the client — never let one overwrite a task, live or
+    // trashed, on this board or another
+    if (await getTask(payload.id)) {
+      return { ok: false, code: 'TASK_EXISTS', message: `Task ${payload.id} already exists` };
+    }
 
-    await cacheTask(task);
-    await enqueueDatabaseFlush({ operation: 'upsert', task });
+    if (!(await isActiveColumn(ctx.boardId, payload.columnId))) {
+      return { ok: false, code: 'INVALID_COLUMN', message: `Column ${payload.columnId} does not exist on this board` };
+    }
+
+    const assigneeIds = payload.assigneeIds ?? [];
+    const outsider    = await findNonMember(ctx.boardId, assigneeIds);
+    if (outsider) {
+      return { ok: false, code: 'INVALID_ASSIGNEE', message: `User ${outsider} is not a member of this board` };
+    }
 
-    return { ok: true, data: task };
+    const labelIds = payload.labelIds ?? [];
+    const unknown  = await findUnknownLabel(ctx.boardId, labelIds);
+    if (unknown) {
+      return { ok: false, code: 'INVALID_LABEL', message: `Label ${unknown} does not exist on this board` };
+    }
+
+    const blockedByIds = payload.blockedByIds ?? [];
+    const problem      = await findDependencyProblem(ctx.boardId, payload.id, blockedByIds);
+    if (problem) return problem;
+
+    const outcome = await withWipLocks(ctx.boardId, [payload.columnId], async (): Promise<ServiceOutcome<Task>> => {
+      const allTasks = await getAllTasks(ctx.boardId);
+      const overflow = await findWipProblem(ctx, allTasks, [...allTasks, { columnId: payload.columnId }]);
+      if (overflow) return overflow;
+
+      let order = payload.order;
+      if (order === undefined) {
+        // Find the current max order in that column to append at the bottom
+        const columnTasks = allTasks
+          .filter((t) => t.columnId === payload.columnId)
+          .sort((a, b) => a.order - b.order);
+
+        const lastTask = columnTasks[columnTasks.length - 1] ?? null;
+        order = orderBetween(lastTask?.order ?? null, null);
+      }
+
+      const task = newTask(ctx, payload, order, new Date().toISOString());
+
+      await cacheTask(task);
+      await enqueueDatabaseFlush({ operation: 'upsert', task });
+      await recordEvent('created', ctx.user, null, task);
+      if (task.dueAt) await scheduleDueReminder(task);
+
+      return { ok: true, data: task };
+    });
+
+    return outcome ?? columnBusy();
   } catch (err) {
     console.error('[taskService.createTask]', err);
     return { ok: false, code: 'CREATE_FAILED', message: String(err) };
   }
 }
 
+/** One task of createTasks — a TASK_CREATE payload, pinned order and checklist */
+export interface BulkTaskPayload extends Omit<CreateTaskPayload, 'order'> {
+  order:      number;
+  checklist?: Array<{ text: string; done: boolean }>;
+}
+
+/**
+ * CREATE many tasks at once (board import, jobs/importWorker.ts).
+ *
+ * Checked together before anything is written — columns, assignees,
+ * labels, blockers and WIP limits, as createTask checks one — so either
+ * every task is created or none is. Orders come with the payloads; the
+ * checklist items are spread with rebalancedOrders.
+ */
+export async function createTasks(
+  ctx:      BoardContext,
+  payloads: BulkTaskPayload[],
+): Promise<ServiceOutcome<Task[]>> {
+  try {
+    for (const columnId of new Set(payloads.map((p) => p.columnId))) {
+      if (!(await isActiveColumn(ctx.boardId, columnId))) {
+        return { ok: false, code: 'INVALID_COLUMN', message: `Column ${columnId} does not exist on this board` };
+      }
+    }
+
+    const outsider = await findNonMember(ctx.boardId, [...new Set(payloads.flatMap((p) => p.assigneeIds ?? []))]);
+    if (outsider) {
+      return { ok: false, code: 'INVALID_ASSIGNEE', message: `User ${outsider} is not a member of this board` };
+    }
+
+    const unknown = await findUnknownLabel(ctx.boardId, [...new Set(payloads.flatMap((p) => p.labelIds ?? []))]);
+    if (unknown) {
+      return { ok: false, code: 'INVALID_LABEL', message: `Label ${unknown} does not exist on this board` };
+    }
+
+    for (const payload of payloads) {
+      const problem = await findDependencyProblem(ctx.boardId, payload.id, payload.blockedByIds ?? []);
+      if (problem) return problem;
+    }
+
+    const columnIds = [...new Set(payloads.map((p) => p.columnId))];
+    const outcome   = await withWipLocks(ctx.boardId, columnIds, async (): Promise<ServiceOutcome<Task[]>> => {
+      const allTasks = await getAllTasks(ctx.boardId);
+      const overflow = await findWipProblem(ctx, allTasks, [...allTasks, ...payloads]);
+      if (overflow) return overflow;
+
+      const now     = new Date().toISOString();
+      const created: Task[] = [];
+      for (const payload of payloads) {
+        const items  = payload.checklist ?? [];
+        const orders = rebalancedOrders(items.length);
+        const task: Task = {
+          ...newTask(ctx, payload, payload.order, now),
+          checklist: items.map((item, i) => ({ id: uuidv4(), text: item.text, done: item.done, order: orders[i] })),
+        };
+
+        await cacheTask(task);
+        await enqueueDatabaseFlush({ operation: 'upsert', task });
+        await recordEvent('created', ctx.user, null, task);
+        if (task.dueAt) await scheduleDueReminder(task);
+        created.push(task);
+      }
+
+      return { ok: true, data: created };
+    });
+
+    return outcome ?? columnBusy();
+  } catch (err) {
+    console.error('[taskService.createTasks]', err);
+    return { ok: false, code: 'CREATE_FAILED', message: String(err) };
+  }
+}
+
 /**
- * UPDATE a task's content fields (title and/or description).
+ * Write the tasks of a board copy (lib/boardCopy.ts) as they are — same
+ * path as createTask (Redis, flush, 'created' event by `user`, reminder).
+ * Nothing is validated: the copy comes from a board that already was, and
+ * the new board has no clients yet to broadcast to.
+ */
+export async function insertTasks(user: AuthUser, tasks: Task[]): Promise<void> {
+  for (const task of tasks) {
+    await cacheTask(task);
+    await enqueueDatabaseFlush({ operation: 'upsert', task });
+    await recordEvent('created', user, null, task);
+    if (task.dueAt) await scheduleDueReminder(task);
+  }
+}
+
+/**
+ * UPDATE a task's content fields (title, description, assignees, labels,
+ * blockers, dates, priority and/or estimate).
  * Does NOT touch position fields (columnId, order).
  *
  * Implements field-level merge from DESIGN.md §1.1:
  * TASK_UPDATE and TASK_MOVE touch orthogonal field namespaces.
+ * Each replaced field is also appended to the text log as one op, so text
+ * edits made concurrently still merge with it.
  */
 export async function updateTask(
+  ctx:     BoardContext,
   payload: UpdateTaskPayload,
 ): Promise<ServiceOutcome<Task>> {
   try {
-    const existing = await getTask(payload.id);
+    const outcome = await withTextLock(payload.id, async (): Promise<ServiceOutcome<Task>> => {
+      const existing = await getTask(payload.id);
 
-    if (!existing) {
-      return { ok: false, code: 'NOT_FOUND', message: `Task ${payload.id} not found` };
-    }
+      // A task on another board is invisible from this board's room, and a
+      // deleted one can only be restored
+      if (!existing || existing.boardId !== ctx.boardId || existing.deletedAt) {
+        return { ok: false, code: 'NOT_FOUND', message: `Task ${payload.id} not found` };
+      }
 
-    // Optimistic version check — relaxed to allow auto-merging of orthogonal edits (Move + Edit).
-    if (payload.version !== existing.version) {
-      console.warn(`[taskService.updateTask] Version mismatch for task ${payload.id} (client: ${payload.version}, server: ${existing.version}). Auto-merging edit into latest state.`);
-    }
+      // Optimistic version check — relaxed to allow auto-merging of orthogonal edits (Move + Edit).
+      if (payload.version !== existing.version) {
+        console.warn(`[taskService.updateTask] Version mismatch for task ${payload.id} (client: ${payload.version}, server: ${existing.version}). Auto-merging edit into latest state.`);
+      }
+
+      const outsider = payload.assigneeIds && await findNonMember(ctx.boardId, payload.assigneeIds);
+      if (outsider) {
+        return { ok: false, code: 'INVALID_ASSIGNEE', message: `User ${outsider} is not a member of this board` };
+      }
+
+      const unknown = payload.labelIds && await findUnknownLabel(ctx.boardId, payload.labelIds);
+      if (unknown) {
+        return { ok: false, code: 'INVALID_LABEL', message: `Label ${unknown} does not exist on this board` };
+      }
+
+      const problem = payload.blockedByIds &&
+        await findDependencyProblem(ctx.boardId, existing.id, payload.blockedByIds, existing.blockedByIds);
+      if (problem) return problem;
+
+      const startAt = payload.startAt === undefined ? existing.startAt : toIsoDate(payload.startAt);
+      const dueAt   = payload.dueAt   === undefined ? existing.dueAt   : toIsoDate(payload.dueAt);
+      if (startAt && dueAt && startAt > dueAt) {
+        return { ok: false, code: 'INVALID_DATES', message: 'The start date must not be after the due date' };
+      }
+
+      const next = {
+        title:       payload.title       ?? existing.title,
+        description: payload.description ?? existing.description,
+      };
 
-    const updated: Task = {
-      ...existing,
-      title:       payload.title       ?? existing.title,
-      description: payload.description ?? existing.description,
-      updatedAt:   new Date().toISOString(),
-      version:     existing.version + 1,
-      updatedByName: payload.updatedByName ?? existing.updatedByName,
-      updatedByColor: payload.updatedByColor ?? existing.updatedByColor,
-    };
+      const fromRevision = existing.textRevision ?? 0;
+      const entries: TextLogEntry[] = [];
+      for (const field of TextFieldSchema.options) {
+        if (next[field] === existing[field]) continue;
+        entries.push({
+          revision: fromRevision + entries.length + 1,
+          field,
+          op:       diffOp(existing[field], next[field]),
+        });
+      }
+
+      const updated: Task = {
+        ...existing,
+        ...next,
+        assigneeIds:  payload.assigneeIds ?? existing.assigneeIds,
+        labelIds:     payload.labelIds    ?? existing.labelIds,
+        blockedByIds: payload.blockedByIds ?? existing.blockedByIds,
+        startAt,
+        dueAt,
+        priority:     payload.priority ?? existing.priority,
+        estimate:     payload.estimate === undefined ? existing.estimate : payload.estimate ?? undefined,
+        textRevision: fromRevision + entries.length,
+        updatedAt:    new Date().toISOString(),
+        version:      existing.version + 1,
+        ...updatedBy(ctx.user),
+      };
+
+      await cacheTask(updated);
+      if (entries.length > 0) await appendTextLog(updated.id, fromRevision, entries);
+      await enqueueDatabaseFlush({ operation: 'upsert', task: updated });
+      await recordEvent('updated', ctx.user, existing, updated);
+      if (updated.dueAt !== existing.dueAt) await scheduleDueReminder(updated);
 
-    await cacheTask(updated);
-    await enqueueDatabaseFlush({ operation: 'upsert', task: updated });
+      return { ok: true, data: updated };
+    });
 
-    return { ok: true, data: updated };
+    return outcome ?? { ok: false, code: 'TEXT_BUSY', message: `Task ${payload.id} is busy, try again` };
   } catch (err) {
     console.error('[taskService.updateTask]', err);
     return { ok: false, code: 'UPDATE_FAILED', message: String(err) };
   }
 }
 
+/**
+ * Apply one checklist op to a live task of the board (CHECKLIST_ITEM_*).
+ * Runs under the task's text lock, which serialises every read-modify-write
+ * of the task's content. Checklist changes are not part of the history.
+ */
+export async function applyChecklistChange(
+  ctx:    BoardContext,
+  taskId: string,
+  op:     ChecklistOp,
+): Promise<ServiceOutcome<Task>> {
+  try {
+    const outcome = await withTextLock(taskId, async (): Promise<ServiceOutcome<Task>> => {
+      const existing = await getTask(taskId);
+      if (!existing || existing.boardId !== ctx.boardId || existing.deletedAt) {
+        return { ok: false, code: 'NOT_FOUND', message: `Task ${taskId} not found` };
+      }
+
+      const result = applyChecklistOp(existing.checklist, op);
+      if (!result.ok) return result;
+
+      const updated: Task = {
+        ...existing,
+        checklist: result.items,
+        updatedAt: new Date().toISOString(),
+        version:   existing.version + 1,
+        ...updatedBy(ctx.user),
+      };
+
+      await cacheTask(updated);
+      await enqueueDatabaseFlush({ operation: 'upsert', task: updated });
+
+      return { ok: true, data: updated };
+    });
+
+    return outcome ?? { ok: false, code: 'TEXT_BUSY', message: `Task ${taskId} is busy, try again` };
+  } catch (err) {
+    console.error('[taskService.applyChecklistChange]', err);
+    return { ok: false, code: 'CHECKLIST_FAILED', message: String(err) };
+  }
+}
+
+/** Result of a collaborative text op — what TASK_TEXT_EDITED broadcasts. */
+export interface TextEditResult {
+  task:     Task;
+  field:    TextField;
+  /** The op as applied — transformed against anything it was concurrent with */
+  op:       TextOp;
+  /** textRevision after the op */
+  revision: number;
+}
+
+/**
+ * TEXT EDIT — apply one collaborative op to a task's title or description.
+ *
+ * The op was made against textRevision `payload.revision`; it is first
+ * transformed against every text op applied since, so concurrent typing
+ * merges instead of overwriting. TEXT_RESYNC means the op can't be caught
+ * up (the log no longer reaches back that far) — the sender must reload
+ * the text and start again from the current revision.
+ */
+export async function applyTextEdit(
+  ctx:     BoardContext,
+  payload: TaskTextEditPayload,
+): Promise<ServiceOutcome<TextEditResult>> {
+  try {
+    const outcome = await withTextLock(payload.id, async (): Promise<ServiceOutcome<TextEditResult>> => {
+      const existing = await getTask(payload.id);
+      if (!existing || existing.boardId !== ctx.boardId || existing.deletedAt) {
+        return { ok: false, code: 'NOT_FOUND', message: `Task ${payload.id} not found` };
+      }
+
+      const revision   = existing.textRevision ?? 0;
+      const concurrent = await loadTextLog(payload.id, payload.revision, revision);
+      const op         = concurrent && rebaseTextOp(payload.op, payload.field, concurrent);
+      const before     = existing[payload.field];
+
+      if (!op || baseLength(op) !== before.length) {
+        return { ok: false, code: 'TEXT_RESYNC', message: `Revision ${payload.revision} of task ${payload.id} can't be merged` };
+      }
+
+      const text = applyOp(before, op);
+      if (text.length === 0 && payload.field === 'title') {
+        return { ok: false, code: 'VALIDATION_ERROR', message: 'Title is required' };
+      }
+      if (text.length > TEXT_MAX_LENGTH[payload.field]) {
+        return { ok: false, code: 'VALIDATION_ERROR', message: `${payload.field} too long` };
+      }
+
+      const updated: Task = {
+        ...existing,
+        [payload.field]: text,
+        textRevision:    revision + 1,
+        updatedAt:       new Date().toISOString(),
+        version:         existing.version + 1,
+        ...updatedBy(ctx.user),
+      };
+
+      await cacheTask(updated);
+      await appendTextLog(updated.id, revision, [{ revision: revision + 1, field: payload.field, op }]);
+      await enqueueDatabaseFlush({ operation: 'upsert', task: updated });
+      await recordTextEdit(ctx.user, payload.field, existing, updated);
+
+      return { ok: true, data: { task: updated, field: payload.field, op, revision: revision + 1 } };
+    });
+
+    return outcome ?? { ok: false, code: 'TEXT_BUSY', message: `Task ${payload.id} is busy, try again` };
+  } catch (err) {
+    console.error('[taskService.applyTextEdit]', err);
+    return { ok: false, code: 'TEXT_EDIT_FAILED', message: String(err) };
+  }
+}
+
 /**
  * MOVE a task to a different column / position.
  * Only touches columnId and order (position namespace).
  *
  * The Redis mutex for concurrent-move conflict is applied by conflictService
  * BEFORE this function is called. This function assumes the lock is held.
+ *
+ * Entering a done column with open blockers fails with TASK_BLOCKED when
+ * BLOCKED_DONE_POLICY=reject; otherwise the move goes through and the
+ * caller warns the mover (getOpenBlockers). Entering a column at its WIP
+ * limit fails with WIP_LIMIT_EXCEEDED.
+ *
+ * Holds the task's text lock like updateTask, so an edit can't write back
+ * the task as it was before the move; TEXT_BUSY when it stays taken.
  */
 export async function moveTask(
+  ctx:     BoardContext,
   payload: MoveTaskPayload,
 ): Promise<ServiceOutcome<Task>> {
   try {
-    const existing = await getTask(payload.id);
+    // Edits wait until the move is written, so none of them undoes it
+    const outcome = await withTextLock(payload.id, async (): Promise<ServiceOutcome<Task>> => {
+      const existing = await getTask(payload.id);
 
-    if (!existing) {
-      return { ok: false, code: 'NOT_FOUND', message: `Task ${payload.id} not found` };
-    }
+      if (!existing || existing.boardId !== ctx.boardId || existing.deletedAt) {
+        return { ok: false, code: 'NOT_FOUND', message: `Task ${payload.id} not found` };
+      }
 
-    // Optimistic version check — relaxed to allow auto-merging of orthogonal edits (Move + Edit).
-    if (payload.version !== existing.version) {
-      console.warn(`[taskService.moveTask] Version mismatch for task ${payload.id} (client: ${payload.version}, server: ${existing.version}). Auto-merging move into latest state.`);
-    }
+      if (!(await isActiveColumn(ctx.boardId, payload.columnId))) {
+        return { ok: false, code: 'INVALID_COLUMN', message: `Column ${payload.columnId} does not exist on this board` };
+      }
 
-    const updated: Task = {
-      ...existing,
-      columnId: payload.columnId as ColumnId,
-      order:    payload.order,
-      updatedAt: new Date().toISOString(),
-      version:  existing.version + 1,
-      updatedByName: payload.updatedByName ?? existing.updatedByName,
-      updatedByColor: payload.updatedByColor ?? existing.updatedByColor,
-    };
-
-    // If the old column changed, remove task ID from old column set in Redis
-    if (existing.columnId !== updated.columnId) {
-      await redis.srem(COLUMN_KEY(existing.columnId), existing.id);
-    }
+      if (existing.columnId !== payload.columnId && blockedDonePolicy() === 'reject') {
+        const blockers = await getOpenBlockers(ctx.boardId, { ...existing, columnId: payload.columnId });
+        if (blockers.length > 0) {
+          return {
+            ok: false,
+            code: 'TASK_BLOCKED',
+            message: `"${existing.title}" is still blocked by ${blockers.map((t) => `"${t.title}"`).join(', ')}`,
+          };
+        }
+      }
+
+      // Optimistic version check — relaxed to allow auto-merging of orthogonal edits (Move + Edit).
+      if (payload.version !== existing.version) {
+        console.warn(`[taskService.moveTask] Version mismatch for task ${payload.id} (client: ${payload.version}, server: ${existing.version}). Auto-merging move into latest state.`);
+      }
+
+      const entering = existing.columnId !== payload.columnId ? [payload.columnId] : [];
+      const locked   = await withWipLocks(ctx.boardId, entering, async (): Promise<ServiceOutcome<Task>> => {
+        if (entering.length > 0) {
+          const allTasks = await getAllTasks(ctx.boardId);
+          const after    = allTasks.map((t) => (t.id === existing.id ? { ...t, columnId: payload.columnId } : t));
+          const overflow = await findWipProblem(ctx, allTasks, after);
+          if (overflow) return overflow;
+        }
+
+        const updated: Task = {
+          ...existing,
+          columnId: payload.columnId as ColumnId,
+          order:    payload.order,
+          updatedAt: new Date().toISOString(),
+          version:  existing.version + 1,
+          ...updatedBy(ctx.user),
+        };
+
+        // If the old column changed, remove task ID from old column set in Redis
+        if (existing.columnId !== updated.columnId) {
+          await redis.srem(COLUMN_KEY(existing.boardId, existing.columnId), existing.id);
+        }
 
-    await cacheTask(updated);
-    await enqueueDatabaseFlush({ operation: 'upsert', task: updated });
-
-    // Check if adjacent orders need rebalancing
-    const column = (await getAllTasks())
-      .filter((t) => t.columnId === updated.columnId && t.id !== updated.id)
-      .sort((a, b) => a.order - b.order);
-
-    const idx   = column.findIndex((t) => t.order > updated.order);
-    const prevT = idx > 0 ? column[idx - 1] : null;
-    const nextT = idx >= 0 ? column[idx] : null;
-
-    if (
-      (prevT && needsRebalance(prevT.order, updated.order)) ||
-      (nextT && needsRebalance(updated.order, nextT.order))
-    ) {
-      await enqueueDatabaseFlush({
-        operation: 'rebalance',
-        columnId:  updated.columnId,
+        await cacheTask(updated);
+        await enqueueDatabaseFlush({ operation: 'upsert', task: updated });
+        await recordEvent('moved', ctx.user, existing, updated);
+        await rebalanceIfCrowded(updated);
+
+        return { ok: true, data: updated };
       });
-    }
 
-    return { ok: true, data: updated };
+      return locked ?? columnBusy();
+    });
+
+    return outcome ?? { ok: false, code: 'TEXT_BUSY', message: `Task ${payload.id} is busy, try again` };
   } catch (err) {
     console.error('[taskService.moveTask]', err);
     return { ok: false, code: 'MOVE_FAILED', message: String(err) };
@@ -363,40 +1173,465 @@ export async function moveTask(
 }
 
 /**
- * DELETE a task — removes from Redis and enqueues a DB delete job.
+ * DELETE a task — soft: stamps `deletedAt`, moves it to the board's trash
+ * and enqueues the upsert. columnId / order are kept for restoreTask, and
+ * the tasks it blocks keep their link to it.
+ *
+ * Holds the task's text lock, so an edit that read the task before the
+ * delete can't write it back without its `deletedAt`. Fails with TEXT_BUSY
+ * when the lock stays taken.
  */
 export async function deleteTask(
+  ctx:     BoardContext,
   payload: DeleteTaskPayload,
 ): Promise<ServiceOutcome<{ id: string }>> {
   try {
-    const existing = await getTask(payload.id);
-    if (!existing) {
-      // Idempotent — task already gone, report success
-      return { ok: true, data: { id: payload.id } };
-    }
+    const outcome = await withTextLock(payload.id, async (): Promise<ServiceOutcome<{ id: string }>> => {
+      const existing = await getTask(payload.id);
+      if (!existing || existing.boardId !== ctx.boardId || existing.deletedAt) {
+        // Idempotent — task already gone, report success
+        return { ok: true, data: { id: payload.id } };
+      }
 
-    const pipeline = redis.pipeline();
-    pipeline.del(TASK_KEY(existing.id));
-    pipeline.srem(COLUMN_KEY(existing.columnId), existing.id);
-    pipeline.srem(BOARD_KEY, existing.id);
-    await pipeline.exec();
+      const now     = new Date().toISOString();
+      const deleted: Task = {
+        ...existing,
+        deletedAt: now,
+        updatedAt: now,
+        version:   existing.version + 1,
+        ...updatedBy(ctx.user),
+      };
 
-    await enqueueDatabaseFlush({ operation: 'delete', taskId: payload.id });
+      await cacheTask(deleted);
+      await enqueueDatabaseFlush({ operation: 'upsert', task: deleted });
+      await recordEvent('deleted', ctx.user, existing, null);
+
+      return { ok: true, data: { id: payload.id } };
+    });
 
-    return { ok: true, data: { id: payload.id } };
+    return outcome ?? { ok: false, code: 'TEXT_BUSY', message: `Task ${payload.id} is busy, try again` };
   } catch (err) {
     console.error('[taskService.deleteTask]', err);
     return { ok: false, code: 'DELETE_FAILED', message: String(err) };
   }
 }
 
+/** What a TASK_BATCH changed — broadcast as one TASK_BATCH_APPLIED. */
+export interface TaskBatchResult {
+  /** Moved and edited tasks */
+  tasks:      Task[];
+  deletedIds: string[];
+}
+
+/**
+ * Apply a TASK_BATCH — moves, edits and deletes, in order.
+ *
+ * Every op is checked against the tasks as the earlier ops left them before
+ * anything is written, so one bad op (unknown task or column, non-member,
+ * unknown label, TASK_BLOCKED, WIP_LIMIT_EXCEEDED) fails the whole batch
+ * and changes nothing.
+ * Each op bumps its task's version and is recorded in the history just as
+ * the single event would be.
+ *
+ * Like moveTask, this assumes the caller holds the move lock of every task
+ * in the batch (conflictService.acquireMoveLocks). It takes their text
+ * locks itself, as updateTask does for one task, and fails with TEXT_BUSY
+ * when one of them stays taken.
+ */
+export async function applyTaskBatch(
+  ctx: BoardContext,
+  ops: BatchOp[],
+): Promise<ServiceOutcome<TaskBatchResult>> {
+  try {
+    // Edits, checklist changes and text ops of these tasks wait until the
+    // batch is written, so none of them is overwritten by it; so do creates,
+    // moves and restores into the limited columns it moves tasks to
+    const entering = ops.flatMap((op) => (op.type === 'move' ? [op.payload.columnId] : []));
+    const outcome  = await withTextLocks(ops.map((op) => op.payload.id), async (): Promise<ServiceOutcome<TaskBatchResult>> => {
+      const locked = await withWipLocks(ctx.boardId, entering, async (): Promise<ServiceOutcome<TaskBatchResult>> => {
+        const original = new Map((await getAllTasks(ctx.boardId)).map((t) => [t.id, t]));
+        const live     = new Map(original);
+        const deleted  = new Map<string, Task>();
+        const events: Array<{ type: TaskEventType; before: Task; after: Task | null }> = [];
+        const now = new Date().toISOString();
+
+        // ── Check every op against the state the earlier ones leave ────────────
+        for (const op of ops) {
+          const existing = live.get(op.payload.id);
+          if (!existing) {
+            // Idempotent, as TASK_DELETE is
+            if (op.type === 'delete') continue;
+            return { ok: false, code: 'NOT_FOUND', message: `Task ${op.payload.id} not found` };
+          }
+
+          const stamp = { updatedAt: now, version: existing.version + 1, ...updatedBy(ctx.user) };
+
+          switch (op.type) {
+            case 'move': {
+              if (!(await isActiveColumn(ctx.boardId, op.payload.columnId))) {
+                return { ok: false, code: 'INVALID_COLUMN', message: `Column ${op.payload.columnId} does not exist on this board` };
+              }
+              const moved: Task = { ...existing, columnId: op.payload.columnId, order: op.payload.order, ...stamp };
+              live.set(moved.id, moved);
+              events.push({ type: 'moved', before: existing, after: moved });
+              break;
+            }
+            case 'update': {
+              const { payload } = op;
+              const outsider = payload.assigneeIds && await findNonMember(ctx.boardId, payload.assigneeIds);
+              if (outsider) {
+                return { ok: false, code: 'INVALID_ASSIGNEE', message: `User ${outsider} is not a member of this board` };
+              }
+              const unknown = payload.labelIds && await findUnknownLabel(ctx.boardId, payload.labelIds);
+              if (unknown) {
+                return { ok: false, code: 'INVALID_LABEL', message: `Label ${unknown} does not exist on this board` };
+              }
+
+              const startAt = payload.startAt === undefined ? existing.startAt : toIsoDate(payload.startAt);
+              const dueAt   = payload.dueAt   === undefined ? existing.dueAt   : toIsoDate(payload.dueAt);
+              if (startAt && dueAt && startAt > dueAt) {
+                return { ok: false, code: 'INVALID_DATES', message: `The start date of "${existing.title}" must not be after its due date` };
+              }
+
+              const updated: Task = {
+                ...existing,
+                assigneeIds: payload.assigneeIds ?? existing.assigneeIds,
+                labelIds:    payload.labelIds    ?? existing.labelIds,
+                startAt,
+                dueAt,
+                priority:    payload.priority ?? existing.priority,
+                estimate:    payload.estimate === undefined ? existing.estimate : payload.estimate ?? undefined,
+                ...stamp,
+              };
+              live.set(updated.id, updated);
+              events.push({ type: 'updated', before: existing, after: updated });
+              break;
+            }
+            case 'delete':
+              live.delete(existing.id);
+              deleted.set(existing.id, { ...existing, deletedAt: now, ...stamp });
+              events.push({ type: 'deleted', before: existing, after: null });
+              break;
+          }
+        }
+
+        // Blockers are judged once the whole batch is in — finishing a blocker
+        // and the task it blocks together is fine
+        if (blockedDonePolicy() === 'reject') {
+          const doneColumnIds = new Set((await getColumns(ctx.boardId)).filter((c) => c.isDone).map((c) => c.id));
+          const tasks = [...live.values()];
+          for (const task of tasks) {
+            if (task.columnId === original.get(task.id)?.columnId || !doneColumnIds.has(task.columnId)) continue;
+            const blockers = openBlockers(task, tasks, doneColumnIds);
+            if (blockers.length > 0) {
+              return {
+                ok: false,
+                code: 'TASK_BLOCKED',
+                message: `"${task.title}" is still blocked by ${blockers.map((t) => `"${t.title}"`).join(', ')}`,
+              };
+            }
+          }
+        }
+
+        const overflow = await findWipProblem(ctx, [...original.values()], [...live.values()]);
+        if (overflow) return overflow;
+
+        // ── Write ───────────────────────────────────────────────────────────────
+        const changed = new Map<string, Task>();
+        for (const id of new Set(events.map((e) => e.before.id))) {
+          const before = original.get(id)!;
+          const after  = deleted.get(id) ?? live.get(id)!;
+
+          // cacheTask only knows the final column
+          if (before.columnId !== after.columnId) {
+            await redis.srem(COLUMN_KEY(before.boardId, before.columnId), id);
+          }
+          await cacheTask(after);
+          await enqueueDatabaseFlush({ operation: 'upsert', task: after });
+          if (!after.deletedAt) {
+            changed.set(id, after);
+            if (after.dueAt !== before.dueAt) await scheduleDueReminder(after);
+          }
+        }
+
+        for (const event of events) await recordEvent(event.type, ctx.user, event.before, event.after);
+        for (const task of changed.values()) {
+          if (task.columnId !== original.get(task.id)?.columnId || task.order !== original.get(task.id)?.order) {
+            await rebalanceIfCrowded(task);
+          }
+        }
+
+        return { ok: true, data: { tasks: [...changed.values()], deletedIds: [...deleted.keys()] } };
+      });
+      return locked ?? columnBusy();
+    });
+
+    return outcome ?? { ok: false, code: 'TEXT_BUSY', message: 'Some of these tasks are busy, try again' };
+  } catch (err) {
+    console.error('[taskService.applyTaskBatch]', err);
+    return { ok: false, code: 'BATCH_FAILED', message: String(err) };
+  }
+}
+
+/**
+ * RESTORE a task from the trash to its original column and order.
+ * Fails with INVALID_COLUMN if that column has since been deleted, and
+ * with WIP_LIMIT_EXCEEDED if it is at its WIP limit.
+ */
+export async function restoreTask(
+  ctx:     BoardContext,
+  payload: RestoreTaskPayload,
+): Promise<ServiceOutcome<Task>> {
+  try {
+    const existing = await getTask(payload.id);
+    if (!existing || existing.boardId !== ctx.boardId || !existing.deletedAt) {
+      return { ok: false, code: 'NOT_FOUND', message: `Task ${payload.id} is not in the trash` };
+    }
+
+    if (!(await isActiveColumn(ctx.boardId, existing.columnId))) {
+      return { ok: false, code: 'INVALID_COLUMN', message: 'The column this task was in has been deleted' };
+    }
+
+    const outcome = await withWipLocks(ctx.boardId, [existing.columnId], async (): Promise<ServiceOutcome<Task>> => {
+      const allTasks = await getAllTasks(ctx.boardId);
+      const overflow = await findWipProblem(ctx, allTasks, [...allTasks, existing]);
+      if (overflow) return overflow;
+
+      const restored: Task = {
+        ...existing,
+        deletedAt: undefined,
+        updatedAt: new Date().toISOString(),
+        version:   existing.version + 1,
+        ...updatedBy(ctx.user),
+      };
+
+      await cacheTask(restored);
+      await enqueueDatabaseFlush({ operation: 'upsert', task: restored });
+      await recordEvent('restored', ctx.user, null, restored);
+      if (restored.dueAt) await scheduleDueReminder(restored);
+
+      return { ok: true, data: restored };
+    });
+
+    return outcome ?? columnBusy();
+  } catch (err) {
+    console.error('[taskService.restoreTask]', err);
+    return { ok: false, code: 'RESTORE_FAILED', message: String(err) };
+  }
+}
+
+/**
+ * The board's trash, most recently deleted first.
+ *
+ * Supabase has everything flushed so far; the Redis trash set adds deletes
+ * still waiting for their flush. Each candidate is re-read Redis-first, so a
+ * task restored before its row caught up is not listed.
+ */
+export async function getDeletedTasks(boardId: string): Promise<Task[]> {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('id')
+    .eq('board_id', boardId)
+    .not('deleted_at', 'is', null);
+
+  if (error) throw new Error(error.message);
+
+  const ids = new Set<string>([
+    ...(data ?? []).map((row: { id: string }) => row.id),
+    ...(await redis.smembers(TRASH_KEY(boardId))),
+  ]);
+
+  const tasks = await Promise.all([...ids].map(getTask));
+  return tasks
+    .filter((t): t is Task => t !== null && t.boardId === boardId && !!t.deletedAt)
+    .sort((a, b) => b.deletedAt!.localeCompare(a.deletedAt!));
+}
+
+/**
+ * RELOCATE every task of one column to the bottom of another, keeping their
+ * relative order. Used when a non-empty column is deleted (archived).
+ *
+ * Each relocated task gets a version bump like a normal move; the caller
+ * broadcasts the returned tasks in a single COLUMN_DELETED event. Holds the
+ * tasks' text locks, failing with TEXT_BUSY when one stays taken.
+ */
+export async function relocateColumnTasks(
+  ctx:          BoardContext,
+  fromColumnId: ColumnId,
+  toColumnId:   ColumnId,
+): Promise<ServiceOutcome<Task[]>> {
+  try {
+    if (!(await isActiveColumn(ctx.boardId, toColumnId))) {
+      return { ok: false, code: 'INVALID_COLUMN', message: `Column ${toColumnId} does not exist on this board` };
+    }
+
+    const movingIds = (await getAllTasks(ctx.boardId))
+      .filter((t) => t.columnId === fromColumnId)
+      .map((t) => t.id);
+
+    // Edits of these tasks wait until they are moved, so none puts one back
+    // into the archived column
+    const outcome = await withTextLocks(movingIds, async (): Promise<ServiceOutcome<Task[]>> => {
+      const allTasks = await getAllTasks(ctx.boardId);
+      const moving   = allTasks
+        .filter((t) => t.columnId === fromColumnId && movingIds.includes(t.id))
+        .sort((a, b) => a.order - b.order);
+      const target   = allTasks
+        .filter((t) => t.columnId === toColumnId)
+        .sort((a, b) => a.order - b.order);
+
+      let prevOrder = target[target.length - 1]?.order ?? null;
+      const now     = new Date().toISOString();
+      const moved: Task[] = [];
+
+      for (const task of moving) {
+        const order = orderBetween(prevOrder, null);
+        prevOrder   = order;
+
+        const updated: Task = {
+          ...task,
+          columnId:  toColumnId,
+          order,
+          updatedAt: now,
+          version:   task.version + 1,
+          ...updatedBy(ctx.user),
+        };
+
+        await redis.srem(COLUMN_KEY(task.boardId, fromColumnId), task.id);
+        await cacheTask(updated);
+        await enqueueDatabaseFlush({ operation: 'upsert', task: updated });
+        await recordEvent('moved', ctx.user, task, updated);
+        moved.push(updated);
+      }
+
+      return { ok: true, data: moved };
+    });
+
+    return outcome ?? { ok: false, code: 'TEXT_BUSY', message: 'Some tasks of this column are busy, try again' };
+  } catch (err) {
+    console.error('[taskService.relocateColumnTasks]', err);
+    return { ok: false, code: 'MOVE_FAILED', message: String(err) };
+  }
+}
+
+/**
+ * STRIP a label from every task of the board that carries it — live and
+ * trashed — before the label is deleted from the catalog.
+ *
+ * Each live task gets a version bump like a normal update and an 'updated'
+ * history event; the caller broadcasts them in a single LABEL_DELETED.
+ * Trashed tasks are changed silently (nobody sees them on the board).
+ * Holds the tasks' text locks, failing with TEXT_BUSY when one stays taken.
+ */
+export async function removeLabelFromTasks(
+  ctx:     BoardContext,
+  labelId: string,
+): Promise<ServiceOutcome<Task[]>> {
+  try {
+    const [live, trashed] = await Promise.all([getAllTasks(ctx.boardId), getDeletedTasks(ctx.boardId)]);
+    const labelledIds = [...live, ...trashed].filter((t) => t.labelIds.includes(labelId)).map((t) => t.id);
+
+    // Edits of these tasks wait until the label is stripped, so none puts it back
+    const outcome = await withTextLocks(labelledIds, async (): Promise<ServiceOutcome<Task[]>> => {
+      const now     = new Date().toISOString();
+      const changed: Task[] = [];
+
+      for (const id of labelledIds) {
+        const task = await getTask(id);
+        if (!task || !task.labelIds.includes(labelId)) continue;
+
+        const updated: Task = {
+          ...task,
+          labelIds:  task.labelIds.filter((l) => l !== labelId),
+          updatedAt: now,
+          version:   task.version + 1,
+          ...updatedBy(ctx.user),
+        };
+
+        await cacheTask(updated);
+        await enqueueDatabaseFlush({ operation: 'upsert', task: updated });
+        if (!task.deletedAt) {
+          await recordEvent('updated', ctx.user, task, updated);
+          changed.push(updated);
+        }
+      }
+
+      return { ok: true, data: changed };
+    });
+
+    return outcome ?? { ok: false, code: 'TEXT_BUSY', message: 'Some tasks with this label are busy, try again' };
+  } catch (err) {
+    console.error('[taskService.removeLabelFromTasks]', err);
+    return { ok: false, code: 'UPDATE_FAILED', message: String(err) };
+  }
+}
+
+/**
+ * Blockers of `task` that are not done yet — empty unless `task` itself
+ * sits in a done column. Used to warn whoever just finished a blocked task.
+ */
+export async function getOpenBlockers(
+  boardId: string,
+  task:    Pick<Task, 'id' | 'columnId' | 'blockedByIds'>,
+): Promise<Task[]> {
+  if (task.blockedByIds.length === 0) return [];
+
+  const doneColumnIds = new Set((await getColumns(boardId)).filter((c) => c.isDone).map((c) => c.id));
+  if (!doneColumnIds.has(task.columnId)) return [];
+
+  return openBlockers(task, await getAllTasks(boardId), doneColumnIds);
+}
 
 /**
  * GET a single task by id — exposed for the REST read route.
- * Redis-first with Supabase cold-boot fallback.
+ * Redis-first with Supabase cold-boot fallback. Deleted tasks read as null.
  */
 export async function getTaskById(id: string): Promise<Task | null> {
-  return getTask(id);
+  const task = await getTask(id);
+  return task?.deletedAt ? null : task;
+}
+
+/**
+ * Drop purged tasks from Redis and unlink them from every task of their
+ * board they were blocking, live and trashed — called by the trash purge
+ * job after it hard-deleted their rows.
+ *
+ * The unlinking is the purge's doing, not a user's: versions are bumped but
+ * the attribution is left alone and no history event is recorded. Clients
+ * pick it up with their next snapshot; until then they skip the unknown id.
+ */
+export async function evictPurgedTasks(tasks: Array<{ id: string; boardId: string }>): Promise<void> {
+  const pipeline = redis.pipeline();
+  for (const task of tasks) {
+    pipeline.del(TASK_KEY(task.id));
+    pipeline.srem(TRASH_KEY(task.boardId), task.id);
+  }
+  await pipeline.exec();
+
+  const now = new Date().toISOString();
+  for (const boardId of new Set(tasks.map((t) => t.boardId))) {
+    const purgedIds = new Set(tasks.filter((t) => t.boardId === boardId).map((t) => t.id));
+    const [live, trashed] = await Promise.all([getAllTasks(boardId), getDeletedTasks(boardId)]);
+    const blocked = [...live, ...trashed].filter((t) => t.blockedByIds.some((blocker) => purgedIds.has(blocker)));
+
+    for (const { id } of blocked) {
+      const done = await withTextLock(id, async () => {
+        const task = await getTask(id);
+        if (!task || !task.blockedByIds.some((blocker) => purgedIds.has(blocker))) return;
+
+        const updated: Task = {
+          ...task,
+          blockedByIds: task.blockedByIds.filter((blocker) => !purgedIds.has(blocker)),
+          updatedAt:    now,
+          version:      task.version + 1,
+        };
+        await cacheTask(updated);
+        await enqueueDatabaseFlush({ operation: 'upsert', task: updated });
+      });
+      // Harmless if it stays — an unknown blocker is skipped everywhere
+      if (done === null) console.warn(`[taskService.evictPurgedTasks] Task ${id} busy, purged blockers left linked`);
+    }
+  }
 }
 
 // ── Lock key helper — exported for conflictService ────────────────────────────
@@ -0,0 +1,173 @@
+/**
+ * services/templateService.ts
+ *
+ * Board templates — a board's columns, labels and starter cards, saved to
+ * start new boards from (POST /api/boards/:boardId/templates,
+ * GET / DELETE /api/templates; boardService.createBoard uses them).
+ *
+ * Storage strategy:
+ *   - Templates are read when the new-board dialog opens and when a board is
+ *     made from one, so reads and writes go straight to Supabase — no Redis.
+ *   - The content is a lib/boardCopy.ts BoardContent, stored as JSON.
+ *
+ * Visibility: a user sees their own templates plus the ones others shared.
+ * Only the owner may delete a template (FORBIDDEN otherwise).
+ *
+ * Architecture rules (CONTEXT.md): NO socket.io imports here.
+ */
+import { supabase } from '../db/client';
+import { templateOf, type BoardContent } from '../lib/boardCopy';
+import type { CreateTemplatePayload } from '../validation/templateSchema';
+import { getColumns } from './columnService';
+import { getLabels } from './labelService';
+import { getAllTasks, type BoardContext, type ServiceOutcome } from './taskService';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface BoardTemplate {
+  id:          string;
+  ownerId:     string;
+  ownerName?:  string;
+  name:        string;
+  description: string;
+  shared:      boolean;
+  /** Column titles, left to right — shown when picking a template */
+  columns:     string[];
+  taskCount:   number;
+  createdAt:   string;
+  updatedAt:   string;
+}
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+const TEMPLATE_COLUMNS = '*, users ( display_name )';
+
+// Postgres unique_violation — board_templates_owner_name_idx
+const UNIQUE_VIOLATION = '23505';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+/** Map a board_templates row joined with its owner to a BoardTemplate. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function dbRowToTemplate(row: Record<string, any>): BoardTemplate {
+  const content = row.content as BoardContent;
+  return {
+    id:          row.id                  as string,
+    ownerId:     row.owner_id            as string,
+    ownerName:   row.users?.display_name as string | undefined,
+    name:        row.name                as string,
+    description: row.description         as string,
+    shared:      row.shared              as boolean,
+    columns:     [...content.columns].sort((a, b) => a.order - b.order).map((c) => c.title),
+    taskCount:   content.tasks.length,
+    createdAt:   row.created_at          as string,
+    updatedAt:   row.updated_at          as string,
+  };
+}
+
+/** The template row if the user may use it (theirs or shared), else null. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function findVisible(userId: string, templateId: string): Promise<Record<string, any> | null> {
+  const { data, error } = await supabase
+    .from('board_templates')
+    .select(TEMPLATE_COLUMNS)
+    .eq('id', templateId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  // Someone else's private template is as good as missing
+  if (!data || (!data.shared && data.owner_id !== userId)) return null;
+  return data;
+}
+
+const notFound = (templateId: string): ServiceOutcome<never> => ({
+  ok: false, code: 'NOT_FOUND', message: `Template ${templateId} not found`,
+});
+
+// ── Public Service Functions ──────────────────────────────────────────────────
+
+/**
+ * What a copy of the board is made from: its active columns, its labels
+ * and its live tasks (the trash stays behind).
+ */
+export async function getBoardContent(boardId: string): Promise<BoardContent> {
+  const [columns, labels, tasks] = await Promise.all([
+    getColumns(boardId),
+    getLabels(boardId),
+    getAllTasks(boardId),
+  ]);
+  return { columns, labels, tasks };
+}
+
+/** The user's templates and the shared ones, by name. */
+export async function listTemplates(userId: string): Promise<BoardTemplate[]> {
+  const { data, error } = await supabase
+    .from('board_templates')
+    .select(TEMPLATE_COLUMNS)
+    .or(`owner_id.eq.${userId},shared.eq.true`)
+    .order('name', { ascending: true });
+
+  if (error) throw new Error(error.message);
+  return (data ?? []).map(dbRowToTemplate);
+}
+
+/** The content of a template the user may use. */
+export async function getTemplateContent(userId: string, templateId: string): Promise<ServiceOutcome<BoardContent>> {
+  try {
+    const row = await findVisible(userId, templateId);
+    if (!row) return notFound(templateId);
+    return { ok: true, data: row.content as BoardContent };
+  } catch (err) {
+    console.error('[templateService.getTemplateContent]', err);
+    return { ok: false, code: 'FETCH_FAILED', message: String(err) };
+  }
+}
+
+/** SAVE the board as a template owned by the user. */
+export async function saveTemplate(
+  ctx:     BoardContext,
+  payload: CreateTemplatePayload,
+): Promise<ServiceOutcome<BoardTemplate>> {
+  try {
+    const { data, error } = await supabase
+      .from('board_templates')
+      .insert({
+        owner_id:    ctx.user.id,
+        name:        payload.name,
+        description: payload.description,
+        shared:      payload.shared,
+        content:     templateOf(await getBoardContent(ctx.boardId)),
+      })
+      .select(TEMPLATE_COLUMNS)
+      .single();
+
+    if (error?.code === UNIQUE_VIOLATION) {
+      return { ok: false, code: 'TEMPLATE_EXISTS', message: `You already have a template named "${payload.name}"` };
+    }
+    if (error || !data) {
+      return { ok: false, code: 'CREATE_FAILED', message: error?.message ?? 'Template insert failed' };
+    }
+    return { ok: true, data: dbRowToTemplate(data) };
+  } catch (err) {
+    console.error('[templateService.saveTemplate]', err);
+    return { ok: false, code: 'CREATE_FAILED', message: String(err) };
+  }
+}
+
+/** DELETE one of the user's templates. Boards made from it are unaffected. */
+export async function deleteTemplate(userId: string, templateId: string): Promise<ServiceOutcome<{ id: string }>> {
+  try {
+    const row = await findVisible(userId, templateId);
+    if (!row) return notFound(templateId);
+    if (row.owner_id !== userId) {
+      return { ok: false, code: 'FORBIDDEN', message: 'Only the owner of a template can delete it' };
+    }
+
+    const { error } = await supabase.from('board_templates').delete().eq('id', templateId);
+    if (error) return { ok: false, code: 'DELETE_FAILED', message: error.message };
+    return { ok: true, data: { id: templateId } };
+  } catch (err) {
+    console.error('[templateService.deleteTemplate]', err);
+    return { ok: false, code: 'DELETE_FAILED', message: String(err) };
+  }
+}
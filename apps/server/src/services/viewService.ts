@@ -0,0 +1,220 @@
+/**
+ * services/viewService.ts
+ *
+ * Saved board views — a named search query, a card sort and a swimlane
+ * grouping (GET / POST / PATCH / DELETE /api/boards/:boardId/views).
+ *
+ * Storage strategy:
+ *   - Views are only read when the board's view menu loads, so reads and
+ *     writes go straight to Supabase — no Redis cache.
+ *
+ * Visibility: a member sees their own views plus the views others shared.
+ * Only the owner may change or delete a view (FORBIDDEN otherwise).
+ *
+ * The query must parse (lib/searchQuery.ts) so a saved view never fails
+ * when applied; the search itself runs in searchService.
+ *
+ * Architecture rules (CONTEXT.md): NO socket.io imports here.
+ */
+import { supabase } from '../db/client';
+import { parseSearchQuery } from '../lib/searchQuery';
+import type {
+  CreateViewPayload,
+  GroupBy,
+  SortDirection,
+  SortField,
+  UpdateViewPayload,
+} from '../validation/viewSchema';
+import type { BoardContext, ServiceOutcome } from './taskService';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface BoardView {
+  id:            string;
+  boardId:       string;
+  ownerId:       string;
+  ownerName?:    string;
+  name:          string;
+  query:         string;
+  sortField:     SortField;
+  sortDirection: SortDirection;
+  groupBy:       GroupBy;
+  shared:        boolean;
+  createdAt:     string;
+  updatedAt:     string;
+}
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+const VIEW_COLUMNS = '*, users ( display_name )';
+
+// Postgres unique_violation — board_views_owner_name_idx
+const UNIQUE_VIOLATION = '23505';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+/** Map a board_views row joined with its owner to a BoardView. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function dbRowToView(row: Record<string, any>): BoardView {
+  return {
+    id:            row.id                  as string,
+    boardId:       row.board_id            as string,
+    ownerId:       row.owner_id            as string,
+    ownerName:     row.users?.display_name as string | undefined,
+    name:          row.name                as string,
+    query:         row.query               as string,
+    sortField:     row.sort_field          as SortField,
+    sortDirection: row.sort_direction      as SortDirection,
+    groupBy:       row.group_by            as GroupBy,
+    shared:        row.shared              as boolean,
+    createdAt:     row.created_at          as string,
+    updatedAt:     row.updated_at          as string,
+  };
+}
+
+function duplicateName(name: string): ServiceOutcome<never> {
+  return { ok: false, code: 'VIEW_EXISTS', message: `You already have a view named "${name}"` };
+}
+
+/** INVALID_QUERY when `query` is not valid search syntax, else null. */
+function queryProblem(query: string | undefined): ServiceOutcome<never> | null {
+  if (query === undefined) return null;
+  const parsed = parseSearchQuery(query, Date.now());
+  return parsed.ok ? null : { ok: false, code: 'INVALID_QUERY', message: parsed.message };
+}
+
+/** The view if it exists on the board and belongs to the user, else the error. */
+async function findOwnView(ctx: BoardContext, viewId: string): Promise<ServiceOutcome<BoardView>> {
+  const { data, error } = await supabase
+    .from('board_views')
+    .select(VIEW_COLUMNS)
+    .eq('id', viewId)
+    .eq('board_id', ctx.boardId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+
+  const view = data ? dbRowToView(data) : null;
+  // Someone else's private view is as good as missing
+  if (!view || (!view.shared && view.ownerId !== ctx.user.id)) {
+    return { ok: false, code: 'NOT_FOUND', message: `View ${viewId} not found` };
+  }
+  if (view.ownerId !== ctx.user.id) {
+    return { ok: false, code: 'FORBIDDEN', message: 'Only the owner of a view can change it' };
+  }
+  return { ok: true, data: view };
+}
+
+// ── Public Service Functions ──────────────────────────────────────────────────
+
+/** The user's views and the views shared on the board, by name. */
+export async function listViews(ctx: BoardContext): Promise<BoardView[]> {
+  const { data, error } = await supabase
+    .from('board_views')
+    .select(VIEW_COLUMNS)
+    .eq('board_id', ctx.boardId)
+    .or(`owner_id.eq.${ctx.user.id},shared.eq.true`)
+    .order('name', { ascending: true });
+
+  if (error) throw new Error(error.message);
+  return (data ?? []).map(dbRowToView);
+}
+
+/** CREATE a view owned by the user. */
+export async function createView(
+  ctx:     BoardContext,
+  payload: CreateViewPayload,
+): Promise<ServiceOutcome<BoardView>> {
+  const problem = queryProblem(payload.query);
+  if (problem) return problem;
+
+  try {
+    const { data, error } = await supabase
+      .from('board_views')
+      .insert({
+        board_id:       ctx.boardId,
+        owner_id:       ctx.user.id,
+        name:           payload.name,
+        query:          payload.query,
+        sort_field:     payload.sortField,
+        sort_direction: payload.sortDirection,
+        group_by:       payload.groupBy,
+        shared:         payload.shared,
+      })
+      .select(VIEW_COLUMNS)
+      .single();
+
+    if (error?.code === UNIQUE_VIOLATION) return duplicateName(payload.name);
+    if (error || !data) {
+      return { ok: false, code: 'CREATE_FAILED', message: error?.message ?? 'View insert failed' };
+    }
+    return { ok: true, data: dbRowToView(data) };
+  } catch (err) {
+    console.error('[viewService.createView]', err);
+    return { ok: false, code: 'CREATE_FAILED', message: String(err) };
+  }
+}
+
+/** UPDATE one of the user's views. */
+export async function updateView(
+  ctx:     BoardContext,
+  viewId:  string,
+  payload: UpdateViewPayload,
+): Promise<ServiceOutcome<BoardView>> {
+  const problem = queryProblem(payload.query);
+  if (problem) return problem;
+
+  try {
+    const existing = await findOwnView(ctx, viewId);
+    if (!existing.ok) return existing;
+
+    const { data, error } = await supabase
+      .from('board_views')
+      .update({
+        name:           payload.name          ?? existing.data.name,
+        query:          payload.query         ?? existing.data.query,
+        sort_field:     payload.sortField     ?? existing.data.sortField,
+        sort_direction: payload.sortDirection ?? existing.data.sortDirection,
+        group_by:       payload.groupBy       ?? existing.data.groupBy,
+        shared:         payload.shared        ?? existing.data.shared,
+      })
+      .eq('id', viewId)
+      .eq('board_id', ctx.boardId)
+      .select(VIEW_COLUMNS)
+      .single();
+
+    if (error?.code === UNIQUE_VIOLATION) return duplicateName(payload.name ?? existing.data.name);
+    if (error || !data) {
+      return { ok: false, code: 'UPDATE_FAILED', message: error?.message ?? 'View update failed' };
+    }
+    return { ok: true, data: dbRowToView(data) };
+  } catch (err) {
+    console.error('[viewService.updateView]', err);
+    return { ok: false, code: 'UPDATE_FAILED', message: String(err) };
+  }
+}
+
+/** DELETE one of the user's views. */
+export async function deleteView(
+  ctx:    BoardContext,
+  viewId: string,
+): Promise<ServiceOutcome<BoardView>> {
+  try {
+    const existing = await findOwnView(ctx, viewId);
+    if (!existing.ok) return existing;
+
+    const { error } = await supabase
+      .from('board_views')
+      .delete()
+      .eq('id', viewId)
+      .eq('board_id', ctx.boardId);
+
+    if (error) {
+      return { ok: false, code: 'DELETE_FAILED', message: error.message };
+    }
+    return existing;
+  } catch (err) {
+    console.error('[viewService.deleteView]', err);
+    return { ok: false, code: 'DELETE_FAILED', message: String(err) };
+  }
+}
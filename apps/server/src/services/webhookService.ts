@@ -0,0 +1,446 @@
+/**
+ * services/webhookService.ts
+ *
+ * Outgoing webhook subscriptions of a board and their delivery log
+ * (/api/boards/:boardId/webhooks). Sending happens in
+ * jobs/webhookWorker.ts; what is sent is described in lib/webhooks.ts.
+ *
+ * Storage strategy:
+ *   - Subscriptions change rarely, so writes go straight to Supabase.
+ *   - Every task event asks which subscriptions want it, so the board's
+ *     active ones are cached in Redis as a JSON list — ids and events only,
+ *     secrets stay in the database. Boards without any cache an empty list,
+ *     so they cost one GET per event. Writes invalidate the list.
+ *   - Deliveries are written by the worker and read by the log endpoints,
+ *     straight from Supabase.
+ *
+ * Key schema:
+ *   board:<boardId>:webhooks   STRING  JSON(WebhookSubscriber[])
+ *
+ * Secrets are generated here unless the admin brings one, and are only
+ * returned by createWebhook and by updateWebhook when rotated; listings
+ * show a short hint instead.
+ *
+ * Architecture rules (CONTEXT.md): NO socket.io imports here.
+ */
+import { randomBytes } from 'node:crypto';
+import { redis } from '../cache/redis';
+import { supabase } from '../db/client';
+import type { WebhookEnvelope } from '../lib/webhooks';
+import type {
+  CreateWebhookPayload,
+  DeliveryQuery,
+  DeliveryStatus,
+  UpdateWebhookPayload,
+  WebhookEventType,
+} from '../validation/webhookSchema';
+import type { BoardContext, ServiceOutcome } from './taskService';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface BoardWebhook {
+  id:           string;
+  boardId:      string;
+  url:          string;
+  events:       WebhookEventType[];
+  active:       boolean;
+  /** Last characters of the secret, to tell secrets apart */
+  secretHint:   string;
+  createdById?: string;
+  createdAt:    string;
+  updatedAt:    string;
+}
+
+/** A subscription with its secret — returned once, when created or rotated */
+export type WebhookWithSecret = BoardWebhook & { secret: string };
+
+/** What dispatching needs to know about an active subscription */
+export interface WebhookSubscriber {
+  id:     string;
+  events: WebhookEventType[];
+}
+
+/** Where and how the worker sends a delivery */
+export interface WebhookTarget {
+  id:      string;
+  boardId: string;
+  url:     string;
+  secret:  string;
+  active:  boolean;
+}
+
+export interface WebhookDelivery {
+  id:              string;
+  webhookId:       string;
+  boardId:         string;
+  event:           WebhookEventType;
+  payload:         WebhookEnvelope;
+  status:          DeliveryStatus;
+  attempts:        number;
+  /** HTTP status of the latest attempt, if the receiver answered */
+  responseStatus?: number;
+  error?:          string;
+  createdAt:       string;
+  updatedAt:       string;
+  deliveredAt?:    string;
+}
+
+/** The outcome of one attempt, as the worker records it */
+export interface DeliveryAttempt {
+  status:          DeliveryStatus;
+  attempts:        number;
+  responseStatus?: number;
+  error?:          string;
+}
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+const WEBHOOKS_KEY = (boardId: string): string => `board:${boardId}:webhooks`;
+
+// Same lifetime as the column and label caches
+const WEBHOOKS_TTL_SECONDS = 3600;
+
+const SECRET_PREFIX = 'whsec_';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const newSecret = (): string => `${SECRET_PREFIX}${randomBytes(24).toString('hex')}`;
+
+const hintOf = (secret: string): string => `…${secret.slice(-4)}`;
+
+/** Map a board_webhooks row to a BoardWebhook — the secret stays behind. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function dbRowToWebhook(row: Record<string, any>): BoardWebhook {
+  return {
+    id:          row.id                      as string,
+    boardId:     row.board_id                as string,
+    url:         row.url                     as string,
+    events:      row.events                  as WebhookEventType[],
+    active:      row.active                  as boolean,
+    secretHint:  hintOf(row.secret as string),
+    createdById: (row.created_by ?? undefined) as string | undefined,
+    createdAt:   row.created_at              as string,
+    updatedAt:   row.updated_at              as string,
+  };
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function dbRowToDelivery(row: Record<string, any>): WebhookDelivery {
+  return {
+    id:             row.id            as string,
+    webhookId:      row.webhook_id    as string,
+    boardId:        row.board_id      as string,
+    event:          row.event         as WebhookEventType,
+    payload:        row.payload       as WebhookEnvelope,
+    status:         row.status        as DeliveryStatus,
+    attempts:       row.attempts      as number,
+    responseStatus: (row.response_status ?? undefined) as number | undefined,
+    error:          (row.error        ?? undefined) as string | undefined,
+    createdAt:      row.created_at    as string,
+    updatedAt:      row.updated_at    as string,
+    deliveredAt:    (row.delivered_at ?? undefined) as string | undefined,
+  };
+}
+
+/** Drop the cached subscriber list — the next event reloads it. */
+async function invalidateWebhooks(boardId: string): Promise<void> {
+  await redis.del(WEBHOOKS_KEY(boardId));
+}
+
+/** The board's subscription row, or null. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function findWebhook(boardId: string, webhookId: string): Promise<Record<string, any> | null> {
+  const { data, error } = await supabase
+    .from('board_webhooks')
+    .select('*')
+    .eq('id', webhookId)
+    .eq('board_id', boardId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+const webhookNotFound = (webhookId: string): ServiceOutcome<never> => ({
+  ok: false, code: 'NOT_FOUND', message: `Webhook ${webhookId} not found`,
+});
+
+// ── Public Service Functions ──────────────────────────────────────────────────
+
+/** The board's subscriptions, oldest first. */
+export async function listWebhooks(boardId: string): Promise<ServiceOutcome<BoardWebhook[]>> {
+  const { data, error } = await supabase
+    .from('board_webhooks')
+    .select('*')
+    .eq('board_id', boardId)
+    .order('created_at', { ascending: true });
+
+  if (error || !data) {
+    return { ok: false, code: 'FETCH_FAILED', message: error?.message ?? 'Webhook fetch failed' };
+  }
+  return { ok: true, data: data.map(dbRowToWebhook) };
+}
+
+/** CREATE a subscription. The result carries the secret — the only time it is shown. */
+export async function createWebhook(
+  ctx:     BoardContext,
+  payload: CreateWebhookPayload,
+): Promise<ServiceOutcome<WebhookWithSecret>> {
+  try {
+    const secret = payload.secret ?? newSecret();
+    const { data, error } = await supabase
+      .from('board_webhooks')
+      .insert({
+        board_id:   ctx.boardId,
+        url:        payload.url,
+        events:     payload.events,
+        secret,
+        active:     payload.active,
+        created_by: ctx.user.id,
+      })
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      return { ok: false, code: 'CREATE_FAILED', message: error?.message ?? 'Webhook insert failed' };
+    }
+
+    await invalidateWebhooks(ctx.boardId);
+    return { ok: true, data: { ...dbRowToWebhook(data), secret } };
+  } catch (err) {
+    console.error('[webhookService.createWebhook]', err);
+    return { ok: false, code: 'CREATE_FAILED', message: String(err) };
+  }
+}
+
+/**
+ * UPDATE a subscription's URL, events or active flag, and/or rotate its
+ * secret. The new secret is in the result only when rotated.
+ */
+export async function updateWebhook(
+  ctx:       BoardContext,
+  webhookId: string,
+  payload:   UpdateWebhookPayload,
+): Promise<ServiceOutcome<BoardWebhook & { secret?: string }>> {
+  try {
+    const existing = await findWebhook(ctx.boardId, webhookId);
+    if (!existing) return webhookNotFound(webhookId);
+
+    const secret = payload.rotateSecret ? newSecret() : undefined;
+    const { data, error } = await supabase
+      .from('board_webhooks')
+      .update({
+        url:    payload.url    ?? existing.url,
+        events: payload.events ?? existing.events,
+        active: payload.active ?? existing.active,
+        secret: secret         ?? existing.secret,
+      })
+      .eq('id', webhookId)
+      .eq('board_id', ctx.boardId)
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      return { ok: false, code: 'UPDATE_FAILED', message: error?.message ?? 'Webhook update failed' };
+    }
+
+    await invalidateWebhooks(ctx.boardId);
+    return { ok: true, data: secret ? { ...dbRowToWebhook(data), secret } : dbRowToWebhook(data) };
+  } catch (err) {
+    console.error('[webhookService.updateWebhook]', err);
+    return { ok: false, code: 'UPDATE_FAILED', message: String(err) };
+  }
+}
+
+/** DELETE a subscription. Its delivery log goes with it (FK cascade). */
+export async function deleteWebhook(
+  ctx:       BoardContext,
+  webhookId: string,
+): Promise<ServiceOutcome<BoardWebhook>> {
+  try {
+    const existing = await findWebhook(ctx.boardId, webhookId);
+    if (!existing) return webhookNotFound(webhookId);
+
+    const { error } = await supabase
+      .from('board_webhooks')
+      .delete()
+      .eq('id', webhookId)
+      .eq('board_id', ctx.boardId);
+
+    if (error) {
+      return { ok: false, code: 'DELETE_FAILED', message: error.message };
+    }
+
+    await invalidateWebhooks(ctx.boardId);
+    return { ok: true, data: dbRowToWebhook(existing) };
+  } catch (err) {
+    console.error('[webhookService.deleteWebhook]', err);
+    return { ok: false, code: 'DELETE_FAILED', message: String(err) };
+  }
+}
+
+/**
+ * The board's active subscriptions.
+ * Redis-first; on a miss loads from Supabase and caches the list, empty or not.
+ */
+export async function getSubscribers(boardId: string): Promise<WebhookSubscriber[]> {
+  const cached = await redis.get(WEBHOOKS_KEY(boardId));
+  if (cached) return JSON.parse(cached) as WebhookSubscriber[];
+
+  const { data, error } = await supabase
+    .from('board_webhooks')
+    .select('id, events')
+    .eq('board_id', boardId)
+    .eq('active', true);
+
+  if (error || !data) return [];
+
+  const subscribers = data.map((row) => ({ id: row.id as string, events: row.events as WebhookEventType[] }));
+  await redis.set(WEBHOOKS_KEY(boardId), JSON.stringify(subscribers), 'EX', WEBHOOKS_TTL_SECONDS);
+  return subscribers;
+}
+
+/** URL and secret of a subscription, read fresh for each attempt; null once deleted. */
+export async function getWebhookTarget(webhookId: string): Promise<WebhookTarget | null> {
+  const { data, error } = await supabase
+    .from('board_webhooks')
+    .select('id, board_id, url, secret, active')
+    .eq('id', webhookId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  if (!data) return null;
+  return {
+    id:      data.id       as string,
+    boardId: data.board_id as string,
+    url:     data.url      as string,
+    secret:  data.secret   as string,
+    active:  data.active   as boolean,
+  };
+}
+
+/** Log new `pending` deliveries; each envelope's id is its delivery id. */
+export async function insertDeliveries(
+  deliveries: Array<{ webhookId: string; payload: WebhookEnvelope }>,
+): Promise<void> {
+  if (deliveries.length === 0) return;
+  const { error } = await supabase.from('webhook_deliveries').insert(deliveries.map((d) => ({
+    id:         d.payload.id,
+    webhook_id: d.webhookId,
+    board_id:   d.payload.boardId,
+    event:      d.payload.event,
+    payload:    d.payload,
+  })));
+  if (error) throw new Error(`Logging webhook deliveries failed: ${error.message}`);
+}
+
+/** A delivery by id, or null. */
+export async function getDelivery(deliveryId: string): Promise<WebhookDelivery | null> {
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .select('*')
+    .eq('id', deliveryId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data ? dbRowToDelivery(data) : null;
+}
+
+/** Record the outcome of an attempt on the delivery's log row. */
+export async function recordAttempt(deliveryId: string, attempt: DeliveryAttempt): Promise<void> {
+  const { error } = await supabase
+    .from('webhook_deliveries')
+    .update({
+      status:          attempt.status,
+      attempts:        attempt.attempts,
+      response_status: attempt.responseStatus ?? null,
+      error:           attempt.error ?? null,
+      ...(attempt.status === 'delivered' ? { delivered_at: new Date().toISOString() } : {}),
+    })
+    .eq('id', deliveryId);
+
+  if (error) throw new Error(`Recording webhook delivery ${deliveryId} failed: ${error.message}`);
+}
+
+/**
+ * Put a dead delivery of the board back to `pending` so it can be sent
+ * again. DELIVERY_NOT_DEAD if it is still on its way or was delivered.
+ */
+export async function reviveDelivery(
+  ctx:        BoardContext,
+  deliveryId: string,
+): Promise<ServiceOutcome<WebhookDelivery>> {
+  try {
+    const existing = await getDelivery(deliveryId);
+    if (!existing || existing.boardId !== ctx.boardId) {
+      return { ok: false, code: 'NOT_FOUND', message: `Delivery ${deliveryId} not found` };
+    }
+    if (existing.status !== 'dead') {
+      return { ok: false, code: 'DELIVERY_NOT_DEAD', message: `Delivery ${deliveryId} is ${existing.status}, not dead` };
+    }
+
+    const { data, error } = await supabase
+      .from('webhook_deliveries')
+      .update({ status: 'pending', error: null })
+      .eq('id', deliveryId)
+      .eq('status', 'dead')
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      return { ok: false, code: 'UPDATE_FAILED', message: error?.message ?? 'Delivery update failed' };
+    }
+    return { ok: true, data: dbRowToDelivery(data) };
+  } catch (err) {
+    console.error('[webhookService.reviveDelivery]', err);
+    return { ok: false, code: 'UPDATE_FAILED', message: String(err) };
+  }
+}
+
+/** A subscription's delivery log, newest first, optionally of one status. */
+export async function listDeliveries(
+  ctx:       BoardContext,
+  webhookId: string,
+  query:     DeliveryQuery,
+): Promise<ServiceOutcome<WebhookDelivery[]>> {
+  try {
+    if (!(await findWebhook(ctx.boardId, webhookId))) return webhookNotFound(webhookId);
+
+    let request = supabase
+      .from('webhook_deliveries')
+      .select('*')
+      .eq('webhook_id', webhookId);
+    if (query.status) request = request.eq('status', query.status);
+
+    const { data, error } = await request
+      .order('created_at', { ascending: false })
+      .limit(query.limit);
+
+    if (error || !data) {
+      return { ok: false, code: 'FETCH_FAILED', message: error?.message ?? 'Delivery fetch failed' };
+    }
+    return { ok: true, data: data.map(dbRowToDelivery) };
+  } catch (err) {
+    console.error('[webhookService.listDeliveries]', err);
+    return { ok: false, code: 'FETCH_FAILED', message: String(err) };
+  }
+}
+
+/** The board's dead-letter list — dead deliveries of all its subscriptions, newest first. */
+export async function listDeadLetters(
+  boardId: string,
+  limit:   number,
+): Promise<ServiceOutcome<WebhookDelivery[]>> {
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .select('*')
+    .eq('board_id', boardId)
+    .eq('status', 'dead')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error || !data) {
+    return { ok: false, code: 'FETCH_FAILED', message: error?.message ?? 'Delivery fetch failed' };
+  }
+  return { ok: true, data: data.map(dbRowToDelivery) };
+}
@@ -0,0 +1,57 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { signToken, verifyToken } from '../lib/token';
+import { hashPassword, verifyPassword } from '../lib/password';
+
+const SECRET = 'test-secret';
+const NOW    = Date.UTC(2024, 0, 1);
+
+describe('token', () => {
+  it('should round-trip the user id', () => {
+    const token  = signToken('user-1', SECRET, 60, NOW);
+    const claims = verifyToken(token, SECRET, NOW);
+
+    assert.ok(claims);
+    assert.strictEqual(claims.sub, 'user-1');
+    assert.strictEqual(claims.exp - claims.iat, 60);
+  });
+
+  it('should reject a token signed with another secret', () => {
+    const token = signToken('user-1', 'other-secret', 60, NOW);
+    assert.strictEqual(verifyToken(token, SECRET, NOW), null);
+  });
+
+  it('should reject tampered claims', () => {
+    const [, signature] = signToken('user-1', SECRET, 60, NOW).split('.');
+    const forged = Buffer.from(JSON.stringify({ sub: 'admin', iat: 0, exp: 9e9 })).toString('base64url');
+    assert.strictEqual(verifyToken(`${forged}.${signature}`, SECRET, NOW), null);
+  });
+
+  it('should reject an expired token', () => {
+    const token = signToken('user-1', SECRET, 60, NOW);
+    assert.strictEqual(verifyToken(token, SECRET, NOW + 61_000), null);
+  });
+
+  it('should reject malformed input', () => {
+    assert.strictEqual(verifyToken('', SECRET, NOW), null);
+    assert.strictEqual(verifyToken('abc', SECRET, NOW), null);
+    assert.strictEqual(verifyToken('a.b.c', SECRET, NOW), null);
+  });
+});
+
+describe('password', () => {
+  it('should verify the original password only', async () => {
+    const stored = await hashPassword('correct horse');
+
+    assert.strictEqual(await verifyPassword('correct horse', stored), true);
+    assert.strictEqual(await verifyPassword('wrong horse', stored), false);
+  });
+
+  it('should salt each hash', async () => {
+    assert.notStrictEqual(await hashPassword('same'), await hashPassword('same'));
+  });
+
+  it('should reject an unknown hash format', async () => {
+    assert.strictEqual(await verifyPassword('x', 'bcrypt$abc$def'), false);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { copyBoardContent, templateOf, type BoardContent } from '../lib/boardCopy';
+import type { Task } from '../services/taskService';
+
+const THEN = '2024-01-01T00:00:00.000Z';
+const NOW  = '2024-03-10T12:00:00.000Z';
+
+const ADA  = { id: 'u1', displayName: 'Ada', color: '#000000' };
+const BOB  = { id: 'u2', displayName: 'Bob', color: '#FFFFFF' };
+
+function task(id: string, columnId: string, order: number, extra: Partial<Task> = {}): Task {
+  return {
+    id, boardId: 'b1', columnId, title: `Task ${id}`, description: '', order,
+    assigneeIds: [], labelIds: [], blockedByIds: [], priority: 'none', checklist: [],
+    createdAt: THEN, updatedAt: THEN, version: 4,
+    creatorId: ADA.id, creatorName: ADA.displayName, creatorColor: ADA.color, ...extra,
+  };
+}
+
+function board(tasks: Task[]): BoardContent {
+  return {
+    columns: [
+      { id: 'todo', title: 'To Do', color: '#64748B', order: 1000, isDone: false, wipLimit: 3 },
+      { id: 'done', title: 'Done',  color: '#16A34A', order: 2000, isDone: true },
+    ],
+    labels: [{ id: 'bug', name: 'bug', color: '#DC2626' }],
+    tasks,
+  };
+}
+
+/** new-1, new-2, … in the order they are asked for */
+function counter(): () => string {
+  let n = 0;
+  return () => `new-${++n}`;
+}
+
+describe('boardCopy', () => {
+  describe('copyBoardContent', () => {
+    const source = board([
+      task('a', 'todo', 1000, { labelIds: ['bug', 'gone'], assigneeIds: ['u1'] }),
+      task('b', 'todo', 1500.5, { blockedByIds: ['a', 'trashed'], dueAt: NOW }),
+      task('c', 'done', 1000, { checklist: [{ id: 'i1', text: 'x', done: true, order: 1 }] }),
+      task('d', 'archived', 1000),
+    ]);
+
+    it('should give everything a new id and rewire the links to the copies', () => {
+      const copy  = copyBoardContent(source, { boardId: 'b2', user: BOB, now: NOW, keepCreators: true, newId: counter() });
+      const ids   = [...copy.columns, ...copy.labels, ...copy.tasks].map((x) => x.id);
+      const known = new Set(['todo', 'done', 'bug', 'a', 'b', 'c', 'd']);
+
+      assert.strictEqual(new Set(ids).size, ids.length);
+      assert.ok(ids.every((id) => !known.has(id)));
+
+      const [todo, done] = copy.columns;
+      const [a, b, c]    = copy.tasks;
+      assert.deepStrictEqual([a.columnId, b.columnId, c.columnId], [todo.id, todo.id, done.id]);
+      assert.deepStrictEqual(a.labelIds, [copy.labels[0].id]);
+      assert.deepStrictEqual(b.blockedByIds, [a.id]);
+      assert.notStrictEqual(c.checklist[0].id, 'i1');
+      assert.ok(copy.tasks.every((t) => t.boardId === 'b2' && t.version === 1));
+    });
+
+    it('should keep orders, column settings and task fields', () => {
+      const copy = copyBoardContent(source, { boardId: 'b2', user: BOB, now: NOW, keepCreators: true, newId: counter() });
+
+      assert.deepStrictEqual(copy.tasks.map((t) => t.order), [1000, 1500.5, 1000]);
+      assert.deepStrictEqual(copy.columns.map((c) => [c.order, c.isDone, c.wipLimit]), [[1000, false, 3], [2000, true, undefined]]);
+      assert.deepStrictEqual(copy.tasks[0].assigneeIds, ['u1']);
+      assert.strictEqual(copy.tasks[1].dueAt, NOW);
+      assert.strictEqual(copy.tasks[2].checklist[0].done, true);
+    });
+
+    it('should leave out tasks whose column is not copied', () => {
+      const copy = copyBoardContent(source, { boardId: 'b2', user: BOB, now: NOW, keepCreators: true, newId: counter() });
+      assert.deepStrictEqual(copy.tasks.map((t) => t.title), ['Task a', 'Task b', 'Task c']);
+    });
+
+    it('should keep or drop the creators as asked', () => {
+      const kept    = copyBoardContent(source, { boardId: 'b2', user: BOB, now: NOW, keepCreators: true,  newId: counter() });
+      const dropped = copyBoardContent(source, { boardId: 'b2', user: BOB, now: NOW, keepCreators: false, newId: counter() });
+
+      assert.deepStrictEqual([kept.tasks[0].creatorId, kept.tasks[0].creatorName, kept.tasks[0].createdAt], ['u1', 'Ada', THEN]);
+      assert.deepStrictEqual([dropped.tasks[0].creatorId, dropped.tasks[0].creatorName, dropped.tasks[0].createdAt], ['u2', 'Bob', NOW]);
+      for (const copy of [kept, dropped]) {
+        assert.deepStrictEqual([copy.tasks[0].updatedById, copy.tasks[0].updatedAt], ['u2', NOW]);
+      }
+    });
+  });
+
+  describe('templateOf', () => {
+    it('should keep the structure and cards, without people, dates or progress', () => {
+      const template = templateOf(board([
+        task('a', 'todo', 1000, {
+          assigneeIds: ['u1'], labelIds: ['bug'], dueAt: NOW, estimate: 3, priority: 'high',
+          checklist: [{ id: 'i1', text: 'x', done: true, order: 1 }],
+        }),
+      ]));
+      const [a] = template.tasks;
+
+      assert.deepStrictEqual(template.columns.map((c) => c.title), ['To Do', 'Done']);
+      assert.deepStrictEqual([a.labelIds, a.estimate, a.priority], [['bug'], 3, 'high']);
+      assert.deepStrictEqual(a.assigneeIds, []);
+      assert.strictEqual(a.dueAt, undefined);
+      assert.strictEqual(a.creatorId, undefined);
+      assert.strictEqual(a.createdAt, undefined);
+      assert.strictEqual(a.checklist[0].done, false);
+      assert.ok(!('boardId' in a));
+    });
+
+    it('should survive a JSON round trip and copy like a board', () => {
+      const template = JSON.parse(JSON.stringify(templateOf(board([task('a', 'todo', 1000)])))) as BoardContent;
+      const copy     = copyBoardContent(template, { boardId: 'b3', user: BOB, now: NOW, keepCreators: false, newId: counter() });
+
+      assert.strictEqual(copy.tasks.length, 1);
+      assert.strictEqual(copy.tasks[0].createdAt, NOW);
+      assert.strictEqual(copy.tasks[0].creatorId, 'u2');
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { csvField, renderExport, toCsv, toMarkdown, type BoardExport } from '../lib/boardExport';
+import type { Task } from '../services/taskService';
+
+const NOW = '2024-03-10T12:00:00.000Z';
+
+function task(id: string, columnId: string, order: number, extra: Partial<Task> = {}): Task {
+  return {
+    id, boardId: 'b1', columnId, title: `Task ${id}`, description: '', order,
+    assigneeIds: [], labelIds: [], blockedByIds: [], priority: 'none', checklist: [],
+    createdAt: NOW, updatedAt: NOW, version: 3, ...extra,
+  };
+}
+
+function board(tasks: Task[]): BoardExport {
+  const column = (id: string, title: string, order: number, isDone = false) => ({
+    id, boardId: 'b1', title, color: '#6366F1', order, isDone, version: 1, createdAt: NOW, updatedAt: NOW,
+  });
+  return {
+    format:     'flowboard-board',
+    version:    1,
+    exportedAt: NOW,
+    board:      { id: 'b1', name: 'Launch Plan!', createdAt: NOW, updatedAt: NOW },
+    columns:    [column('todo', 'To Do', 1), column('done', 'Done', 2, true)],
+    labels:     [{ id: 'l1', boardId: 'b1', name: 'bug', color: '#DC2626', createdAt: NOW, updatedAt: NOW }],
+    members:    [{ userId: 'u1', displayName: 'Ada', email: 'ada@example.com', color: '#000000', role: 'admin', joinedAt: NOW }],
+    tasks,
+    comments:   [],
+  };
+}
+
+describe('boardExport', () => {
+  describe('csvField', () => {
+    it('should leave plain values alone', () => {
+      assert.strictEqual(csvField('hello'), 'hello');
+      assert.strictEqual(csvField(3), '3');
+      assert.strictEqual(csvField(undefined), '');
+    });
+
+    it('should quote separators, quotes and line breaks', () => {
+      assert.strictEqual(csvField('a,b'), '"a,b"');
+      assert.strictEqual(csvField('say "hi"'), '"say ""hi"""');
+      assert.strictEqual(csvField('two\nlines'), '"two\nlines"');
+    });
+
+    it('should defuse text a spreadsheet would run as a formula', () => {
+      assert.strictEqual(csvField('=SUM(A1:A3)'), "'=SUM(A1:A3)");
+      assert.strictEqual(csvField('@cmd'), "'@cmd");
+    });
+  });
+
+  describe('toCsv', () => {
+    it('should write one row per live task with names instead of ids', () => {
+      const csv = toCsv(board([
+        task('1', 'todo', 1, { assigneeIds: ['u1', 'gone'], labelIds: ['l1'], blockedByIds: ['2'] }),
+        task('2', 'done', 1, { checklist: [{ id: 'c', text: 'x', done: true, order: 1 }, { id: 'd', text: 'y', done: false, order: 2 }] }),
+        task('3', 'todo', 2, { deletedAt: NOW }),
+      ]));
+      const rows = csv.split('\r\n');
+
+      assert.strictEqual(rows.length, 4);
+      assert.ok(rows[0].startsWith('Column,Title,'));
+      assert.ok(rows[1].startsWith('To Do,Task 1,,none,Ada; Former member,bug,'));
+      assert.ok(rows[1].includes(',Task 2,'));
+      assert.ok(rows[2].includes(',1/2,'));
+      assert.strictEqual(rows[3], '');
+    });
+  });
+
+  describe('toMarkdown', () => {
+    it('should write a section per column with a checkbox per task', () => {
+      const md = toMarkdown(board([
+        task('1', 'todo', 1, { labelIds: ['l1'], dueAt: '2024-03-12T09:00:00.000Z', checklist: [{ id: 'c', text: 'Write *docs*', done: true, order: 1 }] }),
+        task('2', 'done', 1),
+      ]));
+
+      assert.ok(md.startsWith('# Launch Plan!\n'));
+      assert.ok(md.includes('## To Do (1)\n\n- [ ] Task 1 — \\#bug, due 2024-03-12\n  - [x] Write \\*docs\\*\n'));
+      assert.ok(md.includes('## Done (1)\n\n- [x] Task 2\n'));
+    });
+
+    it('should note empty columns and leave out the trash', () => {
+      const md = toMarkdown(board([task('1', 'todo', 1, { deletedAt: NOW })]));
+      assert.ok(md.includes('## To Do (0)\n\n_No tasks_'));
+    });
+  });
+
+  describe('renderExport', () => {
+    it('should round-trip the board losslessly as JSON', () => {
+      const data = board([task('1', 'todo', 1.5, { version: 7 }), task('2', 'todo', 2, { deletedAt: NOW })]);
+      data.comments = [{
+        id: 'c1', taskId: '1', boardId: 'b1', authorId: 'u1', authorName: 'Ada', authorColor: '#000000',
+        body: 'Looks good', createdAt: NOW, updatedAt: NOW,
+      }];
+      const file = renderExport(data, 'json');
+
+      assert.strictEqual(file.filename, 'launch-plan-2024-03-10.json');
+      assert.deepStrictEqual(JSON.parse(file.body), data);
+    });
+
+    it('should name each format after the board and the day', () => {
+      assert.strictEqual(renderExport(board([]), 'csv').filename, 'launch-plan-2024-03-10.csv');
+      assert.strictEqual(renderExport(board([]), 'markdown').filename, 'launch-plan-2024-03-10.md');
+    });
+  });
+});
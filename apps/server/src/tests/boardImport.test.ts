@@ -0,0 +1,178 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  guessCsvMapping,
+  parseCsv,
+  parseGenericCsv,
+  parseImportDate,
+  parseJiraCsv,
+  parseTrello,
+  planImport,
+  previewImport,
+  type ImportDraft,
+  type ImportParseResult,
+} from '../lib/boardImport';
+
+function draftOf(result: ImportParseResult): ImportDraft {
+  assert.ok(result.ok, !result.ok ? result.message : '');
+  return result.draft;
+}
+
+const TRELLO = JSON.stringify({
+  lists: [
+    { id: 'l2', name: 'Doing', pos: 2 },
+    { id: 'l1', name: 'Backlog', pos: 1 },
+    { id: 'l3', name: 'Old', pos: 3, closed: true },
+  ],
+  cards: [
+    { id: 'c2', name: 'Second', idList: 'l1', pos: 20, labels: [{ name: 'Bug', color: 'red' }] },
+    { id: 'c1', name: 'First', desc: 'Notes', idList: 'l1', pos: 10, due: '2024-03-12T09:00:00.000Z' },
+    { id: 'c3', name: 'Archived', idList: 'l2', closed: true },
+    { id: 'c4', name: 'Lost', idList: 'l3' },
+    { id: 'c5', name: 'Working', idList: 'l2', labels: [{ name: '', color: 'green' }] },
+  ],
+  checklists: [
+    { idCard: 'c1', pos: 1, checkItems: [{ name: 'b', state: 'incomplete', pos: 2 }, { name: 'a', state: 'complete', pos: 1 }] },
+  ],
+});
+
+describe('boardImport', () => {
+  describe('parseCsv', () => {
+    it('should read quoted fields with separators, quotes and line breaks', () => {
+      assert.deepStrictEqual(parseCsv('a,"b,c","say ""hi""","two\nlines"\r\n1,2,3,4\n'), [
+        ['a', 'b,c', 'say "hi"', 'two\nlines'],
+        ['1', '2', '3', '4'],
+      ]);
+    });
+
+    it('should skip a BOM and blank lines, and keep empty fields', () => {
+      assert.deepStrictEqual(parseCsv('\uFEFFa,b\n\n,x'), [['a', 'b'], ['', 'x']]);
+    });
+  });
+
+  describe('parseImportDate', () => {
+    it('should read ISO dates and Jira dates', () => {
+      assert.strictEqual(parseImportDate('2024-03-12'), '2024-03-12T00:00:00.000Z');
+      assert.strictEqual(parseImportDate('12/Mar/24 2:30 PM'), '2024-03-12T14:30:00.000Z');
+      assert.strictEqual(parseImportDate('12/Mar/24 12:00 AM'), '2024-03-12T00:00:00.000Z');
+    });
+
+    it('should give up on anything else', () => {
+      assert.strictEqual(parseImportDate('soon'), undefined);
+      assert.strictEqual(parseImportDate(''), undefined);
+      assert.strictEqual(parseImportDate(null), undefined);
+    });
+  });
+
+  describe('parseTrello', () => {
+    it('should turn open lists into columns and open cards into tasks, by position', () => {
+      const draft = draftOf(parseTrello(TRELLO));
+      assert.deepStrictEqual(draft.columns, ['Backlog', 'Doing']);
+      assert.deepStrictEqual(draft.tasks.map((t) => [t.column, t.title]), [
+        ['Backlog', 'First'], ['Backlog', 'Second'], ['Doing', 'Working'],
+      ]);
+      assert.deepStrictEqual(draft.warnings, ['1 card in archived lists were skipped']);
+    });
+
+    it('should bring checklists, due dates and labels with their colours', () => {
+      const draft = draftOf(parseTrello(TRELLO));
+      assert.deepStrictEqual(draft.tasks[0].checklist, [{ text: 'a', done: true }, { text: 'b', done: false }]);
+      assert.strictEqual(draft.tasks[0].dueAt, '2024-03-12T09:00:00.000Z');
+      assert.deepStrictEqual(draft.labels, [{ name: 'Bug', color: '#DC2626' }, { name: 'green', color: '#16A34A' }]);
+    });
+
+    it('should refuse other files', () => {
+      assert.strictEqual(parseTrello('not json').ok, false);
+      assert.strictEqual(parseTrello('{"cards": []}').ok, false);
+    });
+  });
+
+  describe('parseJiraCsv', () => {
+    it('should map statuses to columns and read repeated label columns', () => {
+      const csv = [
+        'Summary,Issue key,Status,Priority,Labels,Labels,Story Points,Due date',
+        'Login fails,APP-2,In Progress,Highest,auth,bug,3,12/Mar/24 9:00 AM',
+        'Add search,APP-1,To Do,Low,,,,',
+      ].join('\n');
+      const draft = draftOf(parseJiraCsv(csv));
+
+      assert.deepStrictEqual(draft.columns, ['In Progress', 'To Do']);
+      assert.deepStrictEqual(draft.tasks[0].labels, ['auth', 'bug']);
+      assert.strictEqual(draft.tasks[0].priority, 'urgent');
+      assert.strictEqual(draft.tasks[0].estimate, 3);
+      assert.strictEqual(draft.tasks[0].dueAt, '2024-03-12T09:00:00.000Z');
+      assert.strictEqual(draft.tasks[0].description, 'Imported from Jira APP-2');
+      assert.strictEqual(draft.tasks[1].priority, 'low');
+    });
+
+    it('should refuse a CSV without a Summary column', () => {
+      assert.strictEqual(parseJiraCsv('Title\nx').ok, false);
+    });
+  });
+
+  describe('parseGenericCsv', () => {
+    it('should guess the mapping from the headers', () => {
+      assert.deepStrictEqual(guessCsvMapping(['Name', 'Stage', 'Tags', 'Deadline', 'Notes']), {
+        title: 'Name', column: 'Stage', labels: 'Tags', dueAt: 'Deadline', description: 'Notes',
+      });
+      assert.strictEqual(guessCsvMapping(['foo', 'bar']), null);
+    });
+
+    it('should hand back the headers when nothing looks like a title', () => {
+      const draft = draftOf(parseGenericCsv('foo,bar\nx,y\n'));
+      assert.deepStrictEqual(draft.headers, ['foo', 'bar']);
+      assert.strictEqual(draft.tasks.length, 0);
+      assert.strictEqual(draft.mapping, undefined);
+    });
+
+    it('should read the mapped columns and skip untitled rows', () => {
+      const draft = draftOf(parseGenericCsv('What,Where,Tags\nShip it,Done,"a; b"\n,Done,\n', {
+        title: 'What', column: 'Where', labels: 'Tags',
+      }));
+      assert.strictEqual(draft.tasks.length, 1);
+      assert.deepStrictEqual(draft.tasks[0].labels, ['a', 'b']);
+      assert.deepStrictEqual(draft.warnings, ['1 row without a title were skipped']);
+      assert.deepStrictEqual(draft.headers, ['What', 'Where', 'Tags']);
+    });
+
+    it('should refuse a mapping to a header the file lacks', () => {
+      const result = parseGenericCsv('Title\nx', { title: 'Title', column: 'Status' });
+      assert.deepStrictEqual(result, { ok: false, message: 'The file has no "Status" column' });
+    });
+  });
+
+  describe('planImport', () => {
+    const target = {
+      columns: [{ id: 'todo', title: 'To Do' }, { id: 'done', title: 'Done' }],
+      labels:  [{ id: 'bug', name: 'bug' }],
+      tasks:   [{ columnId: 'todo', order: 5000 }, { columnId: 'todo', order: 2500 }],
+    };
+
+    it('should reuse columns and labels by name and create the rest', () => {
+      const draft = draftOf(parseGenericCsv('Title,Status,Labels\na,to do,Bug\nb,Review,ui\n'));
+      const plan  = planImport(draft, target);
+
+      assert.deepStrictEqual(plan.columns, [{ id: 'todo', title: 'To Do' }, { title: 'Review' }]);
+      assert.deepStrictEqual(plan.labels, [{ id: 'bug', name: 'bug' }, { name: 'ui', color: undefined }]);
+      assert.deepStrictEqual(plan.tasks.map((t) => [t.column, t.labels]), [['To Do', ['bug']], ['Review', ['ui']]]);
+    });
+
+    it('should append below the last card, spaced like a rebalance', () => {
+      const draft = draftOf(parseGenericCsv('Title,Status\na,To Do\nb,To Do\nc,New\n'));
+      const plan  = planImport(draft, target);
+      assert.deepStrictEqual(plan.tasks.map((t) => t.order), [6000, 7000, 1000]);
+    });
+
+    it('should put tasks without a column in the first one', () => {
+      const plan = planImport(draftOf(parseGenericCsv('Title\na\n')), target);
+      assert.deepStrictEqual(plan.tasks.map((t) => t.column), ['To Do']);
+    });
+
+    it('should preview the plan per column', () => {
+      const plan    = planImport(draftOf(parseGenericCsv('Title,Status\na,Review\nb,Review\n')), target);
+      const preview = previewImport(plan);
+      assert.deepStrictEqual(preview.columns, [{ title: 'Review', isNew: true, count: 2, sample: ['a', 'b'] }]);
+      assert.strictEqual(preview.taskCount, 2);
+    });
+  });
+});
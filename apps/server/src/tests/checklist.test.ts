@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { applyChecklistOp, MAX_CHECKLIST_ITEMS, type ChecklistItem } from '../lib/checklist';
+
+const item = (id: string, order: number, overrides: Partial<ChecklistItem> = {}): ChecklistItem => ({
+  id, text: `Item ${id}`, done: false, order, ...overrides,
+});
+
+const ids = (result: ReturnType<typeof applyChecklistOp>): string[] => {
+  assert.ok(result.ok);
+  return result.items.map((i) => i.id);
+};
+
+describe('checklist', () => {
+  describe('applyChecklistOp', () => {
+    it('should append a new item after the last one', () => {
+      const result = applyChecklistOp([item('a', 1), item('b', 2)], { kind: 'add', id: 'c', text: 'New' });
+
+      assert.ok(result.ok);
+      assert.deepStrictEqual(result.items[2], { id: 'c', text: 'New', done: false, order: 2.5 });
+    });
+
+    it('should insert an item at a pinned order', () => {
+      const result = applyChecklistOp([item('a', 1), item('b', 2)], { kind: 'add', id: 'c', text: 'x', order: 1.5 });
+
+      assert.deepStrictEqual(ids(result), ['a', 'c', 'b']);
+    });
+
+    it('should reject duplicate ids and full checklists', () => {
+      const full = Array.from({ length: MAX_CHECKLIST_ITEMS }, (_, i) => item(`i${i}`, i + 1));
+
+      assert.deepStrictEqual(
+        applyChecklistOp([item('a', 1)], { kind: 'add', id: 'a', text: 'again' }),
+        { ok: false, code: 'ITEM_EXISTS', message: 'Checklist item a already exists' },
+      );
+      const result = applyChecklistOp(full, { kind: 'add', id: 'z', text: 'one more' });
+      assert.strictEqual(result.ok ? null : result.code, 'CHECKLIST_FULL');
+    });
+
+    it('should check off and rename an item', () => {
+      const result = applyChecklistOp([item('a', 1)], { kind: 'update', id: 'a', done: true });
+
+      assert.ok(result.ok);
+      assert.deepStrictEqual(result.items[0], { id: 'a', text: 'Item a', done: true, order: 1 });
+
+      const renamed = applyChecklistOp(result.items, { kind: 'update', id: 'a', text: 'Renamed' });
+      assert.ok(renamed.ok);
+      assert.deepStrictEqual(renamed.items[0], { id: 'a', text: 'Renamed', done: true, order: 1 });
+    });
+
+    it('should reorder an item by its new order', () => {
+      const result = applyChecklistOp(
+        [item('a', 1), item('b', 2), item('c', 3)],
+        { kind: 'move', id: 'c', order: 0.5 },
+      );
+
+      assert.deepStrictEqual(ids(result), ['c', 'a', 'b']);
+    });
+
+    it('should renumber the list when neighbours get too close', () => {
+      const result = applyChecklistOp([item('a', 1), item('b', 2)], { kind: 'move', id: 'b', order: 1 + 1e-12 });
+
+      assert.ok(result.ok);
+      assert.deepStrictEqual(result.items.map((i) => i.order), [1000, 2000]);
+    });
+
+    it('should report items that no longer exist', () => {
+      const result = applyChecklistOp([item('a', 1)], { kind: 'move', id: 'x', order: 5 });
+
+      assert.strictEqual(result.ok ? null : result.code, 'ITEM_NOT_FOUND');
+    });
+
+    it('should treat deleting a missing item as a no-op', () => {
+      assert.deepStrictEqual(ids(applyChecklistOp([item('a', 1), item('b', 2)], { kind: 'delete', id: 'a' })), ['b']);
+      assert.deepStrictEqual(ids(applyChecklistOp([item('b', 2)], { kind: 'delete', id: 'a' })), ['b']);
+    });
+  });
+});
@@ -7,10 +7,16 @@ import type { Task, ColumnId } from '../services/taskService';
 // Mock helper
 const mockTask = (overrides: Partial<Task> = {}): Task => ({
   id: 't1',
+  boardId: 'b1',
   columnId: 'todo',
   title: 'Original Title',
   description: 'Original Desc',
   order: 1000,
+  assigneeIds: [],
+  labelIds: [],
+  blockedByIds: [],
+  priority: 'none',
+  checklist: [],
   createdAt: '2023-01-01T00:00:00Z',
   updatedAt: '2023-01-01T00:00:00Z',
   version: 1,
@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { findCycle, openBlockers, type DependencyNode } from '../lib/dependencies';
+
+const node = (id: string, blockedByIds: string[] = [], columnId = 'todo'): DependencyNode => ({
+  id, columnId, blockedByIds,
+});
+
+describe('dependencies', () => {
+  describe('findCycle', () => {
+    it('should accept links without a cycle', () => {
+      const tasks = [node('a'), node('b', ['a']), node('c')];
+      assert.strictEqual(findCycle(tasks, 'c', ['a', 'b']), null);
+    });
+
+    it('should reject a task blocking itself', () => {
+      assert.deepStrictEqual(findCycle([node('a')], 'a', ['a']), ['a', 'a']);
+    });
+
+    it('should reject a direct cycle', () => {
+      const tasks = [node('a', ['b']), node('b')];
+      assert.deepStrictEqual(findCycle(tasks, 'b', ['a']), ['b', 'a', 'b']);
+    });
+
+    it('should reject a transitive cycle', () => {
+      const tasks = [node('a', ['b']), node('b', ['c']), node('c')];
+      assert.deepStrictEqual(findCycle(tasks, 'c', ['a']), ['c', 'a', 'b', 'c']);
+    });
+
+    it('should replace the current links of the task', () => {
+      // c was blocked by a; unlinking it makes room for a to be blocked by c
+      const tasks = [node('a'), node('c', ['a'])];
+      assert.strictEqual(findCycle(tasks, 'c', []), null);
+      assert.deepStrictEqual(findCycle(tasks, 'a', ['c']), ['a', 'c', 'a']);
+    });
+
+    it('should ignore ids of unknown tasks', () => {
+      assert.strictEqual(findCycle([node('a', ['gone'])], 'b', ['a']), null);
+    });
+  });
+
+  describe('openBlockers', () => {
+    it('should list blockers outside done columns only', () => {
+      const tasks = [node('a', [], 'done'), node('b', [], 'doing'), node('c')];
+      const blocked = node('d', ['a', 'b', 'gone']);
+      assert.deepStrictEqual(openBlockers(blocked, tasks, new Set(['done'])).map((t) => t.id), ['b']);
+    });
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { reminderDelay } from '../lib/dueDates';
+
+const HOUR = 60 * 60 * 1000;
+const NOW  = Date.parse('2024-03-01T12:00:00Z');
+
+describe('dueDates', () => {
+  describe('reminderDelay', () => {
+    it('should fire the window length before the due date', () => {
+      assert.strictEqual(reminderDelay('2024-03-03T12:00:00Z', NOW, 24 * HOUR), 24 * HOUR);
+    });
+
+    it('should fire immediately when the task is already due soon', () => {
+      assert.strictEqual(reminderDelay('2024-03-01T15:00:00Z', NOW, 24 * HOUR), 0);
+    });
+
+    it('should respect the offset of the due date', () => {
+      assert.strictEqual(reminderDelay('2024-03-02T14:00:00+02:00', NOW, 0), 24 * HOUR);
+    });
+
+    it('should not remind about missing, invalid or past due dates', () => {
+      assert.strictEqual(reminderDelay(undefined, NOW), null);
+      assert.strictEqual(reminderDelay('not a date', NOW), null);
+      assert.strictEqual(reminderDelay('2024-03-01T11:59:59Z', NOW), null);
+      assert.strictEqual(reminderDelay('2024-03-01T12:00:00Z', NOW), null);
+    });
+  });
+});
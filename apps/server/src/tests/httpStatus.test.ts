@@ -0,0 +1,25 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { statusForCode } from '../lib/httpStatus';
+
+describe('httpStatus', () => {
+  describe('statusForCode', () => {
+    it('should map client mistakes to 4xx statuses', () => {
+      assert.strictEqual(statusForCode('VALIDATION_ERROR'), 400);
+      assert.strictEqual(statusForCode('FORBIDDEN'), 403);
+      assert.strictEqual(statusForCode('NOT_FOUND'), 404);
+      assert.strictEqual(statusForCode('MOVE_CONFLICT'), 409);
+      assert.strictEqual(statusForCode('INVALID_COLUMN'), 422);
+    });
+
+    it('should report a task busy with text edits as a conflict', () => {
+      assert.strictEqual(statusForCode('TEXT_BUSY'), 409);
+      assert.strictEqual(statusForCode('TEXT_RESYNC'), 409);
+    });
+
+    it('should treat unknown and *_FAILED codes as server errors', () => {
+      assert.strictEqual(statusForCode('CREATE_FAILED'), 500);
+      assert.strictEqual(statusForCode('SOMETHING_NEW'), 500);
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { can, canSend } from '../lib/permissions';
+
+describe('permissions', () => {
+  describe('can', () => {
+    it('should let every role view the board', () => {
+      assert.strictEqual(can('viewer', 'board:view'), true);
+      assert.strictEqual(can('editor', 'board:view'), true);
+      assert.strictEqual(can('admin', 'board:view'), true);
+    });
+
+    it('should only let editors and admins edit tasks', () => {
+      assert.strictEqual(can('viewer', 'task:edit'), false);
+      assert.strictEqual(can('editor', 'task:edit'), true);
+      assert.strictEqual(can('admin', 'task:edit'), true);
+    });
+
+    it('should reserve column and member management for admins', () => {
+      assert.strictEqual(can('editor', 'column:manage'), false);
+      assert.strictEqual(can('editor', 'member:manage'), false);
+      assert.strictEqual(can('admin', 'column:manage'), true);
+      assert.strictEqual(can('admin', 'member:manage'), true);
+    });
+
+    it('should let editors and admins manage labels', () => {
+      assert.strictEqual(can('viewer', 'label:manage'), false);
+      assert.strictEqual(can('editor', 'label:manage'), true);
+      assert.strictEqual(can('admin', 'label:manage'), true);
+    });
+
+    it('should only let admins go past WIP limits', () => {
+      assert.strictEqual(can('editor', 'wip:override'), false);
+      assert.strictEqual(can('admin', 'wip:override'), true);
+    });
+
+    it('should only let admins manage webhooks', () => {
+      assert.strictEqual(can('editor', 'webhook:manage'), false);
+      assert.strictEqual(can('admin', 'webhook:manage'), true);
+    });
+
+    it('should only let admins moderate comments', () => {
+      assert.strictEqual(can('editor', 'comment:moderate'), false);
+      assert.strictEqual(can('admin', 'comment:moderate'), true);
+    });
+
+    it('should grant nothing to non-members', () => {
+      assert.strictEqual(can(null, 'board:view'), false);
+    });
+  });
+
+  describe('canSend', () => {
+    it('should reject viewer task mutations', () => {
+      for (const event of ['TASK_CREATE', 'TASK_UPDATE', 'TASK_MOVE', 'TASK_DELETE', 'TASK_RESTORE', 'TASK_TEXT_EDIT', 'TASK_BATCH', 'REPLAY_OPS', 'COMMENT_CREATE']) {
+        assert.strictEqual(canSend('viewer', event), false, event);
+      }
+    });
+
+    it('should allow viewer presence updates', () => {
+      assert.strictEqual(canSend('viewer', 'PRESENCE_UPDATE'), true);
+    });
+
+    it('should gate column events on admin', () => {
+      assert.strictEqual(canSend('editor', 'COLUMN_CREATE'), false);
+      assert.strictEqual(canSend('admin', 'COLUMN_DELETE'), true);
+    });
+
+    it('should let editors but not viewers change checklists', () => {
+      for (const event of ['CHECKLIST_ITEM_ADD', 'CHECKLIST_ITEM_UPDATE', 'CHECKLIST_ITEM_MOVE', 'CHECKLIST_ITEM_DELETE']) {
+        assert.strictEqual(canSend('viewer', event), false, event);
+        assert.strictEqual(canSend('editor', event), true, event);
+      }
+    });
+
+    it('should keep viewers out of the label catalog', () => {
+      assert.strictEqual(canSend('viewer', 'LABEL_CREATE'), false);
+      assert.strictEqual(canSend('editor', 'LABEL_DELETE'), true);
+    });
+
+    it('should reject unknown events for every role', () => {
+      assert.strictEqual(canSend('admin', 'BOARD_DROP'), false);
+    });
+  });
+});
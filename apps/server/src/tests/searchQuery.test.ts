@@ -0,0 +1,98 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { highlightRanges, inRange, parseSearchQuery, toWebSearch } from '../lib/searchQuery';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2024-03-10T12:00:00Z');
+
+function parse(input: string) {
+  const result = parseSearchQuery(input, NOW);
+  assert.ok(result.ok, !result.ok ? result.message : '');
+  return result.query;
+}
+
+describe('searchQuery', () => {
+  describe('parseSearchQuery', () => {
+    it('should split qualifiers from free text', () => {
+      const query = parse('column:done label:bug assignee:me "login page" crash');
+      assert.deepStrictEqual(query.terms, ['login page', 'crash']);
+      assert.deepStrictEqual(query.columns, ['done']);
+      assert.deepStrictEqual(query.labels, ['bug']);
+      assert.deepStrictEqual(query.assignees, ['me']);
+    });
+
+    it('should accept quoted values and ignore the casing of keys and values', () => {
+      const query = parse('Column:"In Progress" LABEL:Frontend priority:HIGH');
+      assert.deepStrictEqual(query.columns, ['in progress']);
+      assert.deepStrictEqual(query.labels, ['frontend']);
+      assert.deepStrictEqual(query.priorities, ['high']);
+    });
+
+    it('should read creator and updater qualifiers', () => {
+      const query = parse('creator:me updater:"Ada Lovelace"');
+      assert.deepStrictEqual(query.creators, ['me']);
+      assert.deepStrictEqual(query.updaters, ['ada lovelace']);
+    });
+
+    it('should collect repeated qualifiers', () => {
+      assert.deepStrictEqual(parse('label:bug label:ui').labels, ['bug', 'ui']);
+    });
+
+    it('should read ages as time ago', () => {
+      assert.deepStrictEqual(parse('updated:>7d').updated, { before: NOW - 7 * DAY });
+      assert.deepStrictEqual(parse('created:<2w').created, { after: NOW - 14 * DAY });
+    });
+
+    it('should read days as points in time', () => {
+      const query = parse('updated:>2024-03-01 updated:<2024-03-05');
+      assert.deepStrictEqual(query.updated, {
+        after:  Date.parse('2024-03-01T00:00:00Z'),
+        before: Date.parse('2024-03-05T00:00:00Z'),
+      });
+    });
+
+    it('should keep unknown qualifiers as free text', () => {
+      assert.deepStrictEqual(parse('see http://example.com').terms, ['see', 'http://example.com']);
+    });
+
+    it('should reject malformed values', () => {
+      assert.strictEqual(parseSearchQuery('priority:asap', NOW).ok, false);
+      assert.strictEqual(parseSearchQuery('updated:7d', NOW).ok, false);
+      assert.strictEqual(parseSearchQuery('updated:>soon', NOW).ok, false);
+      assert.strictEqual(parseSearchQuery('label:""', NOW).ok, false);
+    });
+
+    it('should parse an empty query', () => {
+      assert.deepStrictEqual(parse('  ').terms, []);
+    });
+  });
+
+  describe('inRange', () => {
+    it('should treat both bounds as exclusive', () => {
+      const range = { after: NOW - DAY, before: NOW };
+      assert.strictEqual(inRange(new Date(NOW - DAY / 2).toISOString(), range), true);
+      assert.strictEqual(inRange(new Date(NOW).toISOString(), range), false);
+      assert.strictEqual(inRange(new Date(NOW - 2 * DAY).toISOString(), {}), true);
+    });
+  });
+
+  describe('toWebSearch', () => {
+    it('should quote phrases', () => {
+      assert.strictEqual(toWebSearch(['login page', 'crash']), '"login page" crash');
+    });
+  });
+
+  describe('highlightRanges', () => {
+    it('should mark whole words regardless of case', () => {
+      assert.deepStrictEqual(highlightRanges('Crash on crashing login', ['crash']), [[0, 5]]);
+    });
+
+    it('should match phrases across separators', () => {
+      assert.deepStrictEqual(highlightRanges('Fix the login-page form', ['login page']), [[8, 18]]);
+    });
+
+    it('should merge overlapping matches', () => {
+      assert.deepStrictEqual(highlightRanges('login page', ['login page', 'page']), [[0, 10]]);
+    });
+  });
+});
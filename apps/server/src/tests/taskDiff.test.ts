@@ -0,0 +1,92 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { diffTasks } from '../lib/taskDiff';
+import type { Task } from '../services/taskService';
+
+// Mock helper
+const mockTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 't1',
+  boardId: 'b1',
+  columnId: 'todo',
+  title: 'Original Title',
+  description: 'Original Desc',
+  order: 1000,
+  assigneeIds: [],
+  labelIds: [],
+  blockedByIds: [],
+  priority: 'none',
+  checklist: [],
+  createdAt: '2023-01-01T00:00:00Z',
+  updatedAt: '2023-01-01T00:00:00Z',
+  version: 1,
+  ...overrides,
+});
+
+describe('taskDiff', () => {
+  describe('diffTasks', () => {
+    it('should only report the fields that changed', () => {
+      const before = mockTask();
+      const after  = mockTask({ title: 'New Title', version: 2, updatedAt: '2023-01-02T00:00:00Z' });
+
+      assert.deepStrictEqual(diffTasks(before, after), {
+        title: { from: 'Original Title', to: 'New Title' },
+      });
+    });
+
+    it('should report column and order changes of a move', () => {
+      const diff = diffTasks(mockTask(), mockTask({ columnId: 'done', order: 2000 }));
+
+      assert.deepStrictEqual(diff, {
+        columnId: { from: 'todo', to: 'done' },
+        order:    { from: 1000,   to: 2000 },
+      });
+    });
+
+    it('should diff a created task against nothing', () => {
+      const diff = diffTasks(null, mockTask());
+
+      assert.deepStrictEqual(diff.title, { from: null, to: 'Original Title' });
+      assert.deepStrictEqual(diff.columnId, { from: null, to: 'todo' });
+    });
+
+    it('should diff a deleted task to nothing', () => {
+      const diff = diffTasks(mockTask(), null);
+
+      assert.deepStrictEqual(diff.description, { from: 'Original Desc', to: null });
+    });
+
+    it('should return an empty diff for identical tasks', () => {
+      assert.deepStrictEqual(diffTasks(mockTask(), mockTask({ version: 3 })), {});
+    });
+
+    it('should compare assignees by value', () => {
+      const before = mockTask({ assigneeIds: ['u1', 'u2'] });
+
+      assert.deepStrictEqual(diffTasks(before, mockTask({ assigneeIds: ['u1', 'u2'] })), {});
+      assert.deepStrictEqual(diffTasks(before, mockTask({ assigneeIds: ['u2'] })), {
+        assigneeIds: { from: ['u1', 'u2'], to: ['u2'] },
+      });
+    });
+
+    it('should report set and cleared dates against null', () => {
+      const dated = mockTask({ dueAt: '2023-02-01T00:00:00.000Z' });
+
+      assert.deepStrictEqual(diffTasks(mockTask(), dated), {
+        dueAt: { from: null, to: '2023-02-01T00:00:00.000Z' },
+      });
+      assert.deepStrictEqual(diffTasks(dated, mockTask()), {
+        dueAt: { from: '2023-02-01T00:00:00.000Z', to: null },
+      });
+      assert.strictEqual(diffTasks(null, mockTask()).startAt, undefined);
+    });
+
+    it('should report priority and estimate changes', () => {
+      const diff = diffTasks(mockTask(), mockTask({ priority: 'high', estimate: 3 }));
+
+      assert.deepStrictEqual(diff, {
+        priority: { from: 'none', to: 'high' },
+        estimate: { from: null,   to: 3 },
+      });
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  applyOp,
+  transform,
+  compose,
+  diffOp,
+  baseLength,
+  targetLength,
+  isNoop,
+  type TextOp,
+} from '../lib/textOt';
+
+/** Apply a and b concurrently to `doc` both ways round and check they meet. */
+function converge(doc: string, a: TextOp, b: TextOp): string {
+  const [a1, b1] = transform(a, b);
+  const viaA = applyOp(applyOp(doc, a), b1);
+  const viaB = applyOp(applyOp(doc, b), a1);
+  assert.strictEqual(viaA, viaB);
+  return viaA;
+}
+
+describe('textOt', () => {
+  describe('applyOp', () => {
+    it('should retain, insert and delete', () => {
+      assert.strictEqual(applyOp('abcdefghi', [3, 'X', -2, 4]), 'abcXfghi');
+    });
+
+    it('should reject an op built for another length', () => {
+      assert.throws(() => applyOp('abc', [5]));
+    });
+  });
+
+  describe('lengths', () => {
+    it('should measure the base and target document', () => {
+      const op: TextOp = [3, 'XY', -2, 4];
+      assert.strictEqual(baseLength(op), 9);
+      assert.strictEqual(targetLength(op), 9);
+    });
+
+    it('should treat pure retains as a no-op', () => {
+      assert.strictEqual(isNoop([5]), true);
+      assert.strictEqual(isNoop([2, 'a', 3]), false);
+    });
+  });
+
+  describe('diffOp', () => {
+    it('should capture a single typed character', () => {
+      assert.deepStrictEqual(diffOp('hello', 'helllo'), [4, 'l', 1]);
+    });
+
+    it('should capture a replaced span', () => {
+      const op = diffOp('the quick fox', 'the slow fox');
+      assert.strictEqual(applyOp('the quick fox', op), 'the slow fox');
+      assert.deepStrictEqual(op, [4, 'slow', -5, 4]);
+    });
+
+    it('should be a no-op for equal strings', () => {
+      assert.ok(isNoop(diffOp('same', 'same')));
+    });
+  });
+
+  describe('transform', () => {
+    it('should keep both inserts at different positions', () => {
+      const a = diffOp('abc', 'Xabc');
+      const b = diffOp('abc', 'abcY');
+      assert.strictEqual(converge('abc', a, b), 'XabcY');
+    });
+
+    it('should order same-position inserts with the first op first', () => {
+      assert.strictEqual(converge('ab', [1, 'X', 1], [1, 'Y', 1]), 'aXYb');
+    });
+
+    it('should not delete twice when both delete the same text', () => {
+      assert.strictEqual(converge('abcdef', [1, -3, 2], [2, -3, 1]), 'af');
+    });
+
+    it('should keep text inserted inside a concurrently deleted span', () => {
+      assert.strictEqual(converge('abcdef', [1, -4, 1], [3, 'X', 3]), 'aXf');
+    });
+
+    it('should converge on concurrent typing in the same word', () => {
+      const doc = 'collaborative';
+      const a   = diffOp(doc, 'collaboratively');
+      const b   = diffOp(doc, 'Collaborative');
+      assert.strictEqual(converge(doc, a, b), 'Collaboratively');
+    });
+  });
+
+  describe('compose', () => {
+    it('should equal applying both ops in turn', () => {
+      const doc = 'hello world';
+      const a   = diffOp(doc, 'hello, world');
+      const b   = diffOp('hello, world', 'hello, brave world');
+      assert.strictEqual(applyOp(doc, compose(a, b)), 'hello, brave world');
+    });
+
+    it('should cancel text inserted then deleted', () => {
+      const a = diffOp('ab', 'aXYb');
+      const b = diffOp('aXYb', 'ab');
+      assert.ok(isNoop(compose(a, b)));
+    });
+  });
+});
@@ -0,0 +1,216 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { postWebhook } from '../jobs/webhookDelivery';
+import {
+  isPublicAddress,
+  isRetryableStatus,
+  signWebhook,
+  verifyWebhookSignature,
+  webhookEventsFor,
+  type WebhookEnvelope,
+} from '../lib/webhooks';
+import type { Task } from '../services/taskService';
+
+const SECRET = 'whsec_test_secret_0123456789';
+const NOW    = 1_710_000_000;
+
+const TASK: Task = {
+  id: 't1', boardId: 'b1', columnId: 'done', title: 'Ship it', description: '', order: 1000,
+  assigneeIds: [], labelIds: [], blockedByIds: [], priority: 'none', checklist: [],
+  createdAt: '2024-03-09T12:00:00.000Z', updatedAt: '2024-03-09T12:00:00.000Z', version: 2,
+};
+
+const ENVELOPE: WebhookEnvelope = {
+  id:         'd1',
+  event:      'TASK_COMPLETED',
+  boardId:    'b1',
+  occurredAt: TASK.updatedAt,
+  data: {
+    task:       TASK,
+    column:     { id: 'done', title: 'Done',  isDone: true },
+    fromColumn: { id: 'todo', title: 'To Do', isDone: false },
+    actor:      'Ada',
+  },
+};
+
+interface Received {
+  headers: http.IncomingHttpHeaders;
+  body:    string;
+}
+
+/**
+ * A local stand-in for a receiver: records every request and answers with
+ * whatever `respond` says for it.
+ */
+function receiver(respond: (req: Received, res: http.ServerResponse) => void) {
+  const received: Received[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk: Buffer) => { body += chunk.toString('utf8'); });
+    req.on('end', () => {
+      const entry = { headers: req.headers, body };
+      received.push(entry);
+      respond(entry, res);
+    });
+  });
+  return {
+    received,
+    url:   () => `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`,
+    start: () => new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve)),
+    stop:  () => new Promise<void>((resolve) => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
+
+describe('webhooks', () => {
+  describe('webhookEventsFor', () => {
+    it('should name each task event', () => {
+      assert.deepStrictEqual(webhookEventsFor('created', undefined, { isDone: false }), ['TASK_CREATED']);
+      assert.deepStrictEqual(webhookEventsFor('deleted', undefined, { isDone: true }), ['TASK_DELETED']);
+    });
+
+    it('should add TASK_COMPLETED to a move into a done column', () => {
+      assert.deepStrictEqual(
+        webhookEventsFor('moved', { isDone: false }, { isDone: true }),
+        ['TASK_MOVED', 'TASK_COMPLETED'],
+      );
+    });
+
+    it('should not complete a task twice, or on a move out of done', () => {
+      assert.deepStrictEqual(webhookEventsFor('moved', { isDone: true }, { isDone: true }), ['TASK_MOVED']);
+      assert.deepStrictEqual(webhookEventsFor('moved', { isDone: true }, { isDone: false }), ['TASK_MOVED']);
+      assert.deepStrictEqual(webhookEventsFor('updated', undefined, { isDone: true }), ['TASK_UPDATED']);
+    });
+  });
+
+  describe('signWebhook / verifyWebhookSignature', () => {
+    const body = JSON.stringify(ENVELOPE);
+
+    it('should sign with a sha256= hex HMAC that verifies', () => {
+      const signature = signWebhook(SECRET, NOW, body);
+      assert.match(signature, /^sha256=[0-9a-f]{64}$/);
+      assert.strictEqual(verifyWebhookSignature(SECRET, NOW, body, signature, NOW), true);
+    });
+
+    it('should refuse another secret, body or timestamp', () => {
+      const signature = signWebhook(SECRET, NOW, body);
+      assert.strictEqual(verifyWebhookSignature('whsec_other', NOW, body, signature, NOW), false);
+      assert.strictEqual(verifyWebhookSignature(SECRET, NOW, `${body} `, signature, NOW), false);
+      assert.strictEqual(verifyWebhookSignature(SECRET, NOW + 1, body, signature, NOW), false);
+      assert.strictEqual(verifyWebhookSignature(SECRET, NOW, body, 'sha256=00', NOW), false);
+    });
+
+    it('should refuse timestamps outside the tolerance', () => {
+      const signature = signWebhook(SECRET, NOW, body);
+      assert.strictEqual(verifyWebhookSignature(SECRET, NOW, body, signature, NOW + 300), true);
+      assert.strictEqual(verifyWebhookSignature(SECRET, NOW, body, signature, NOW + 301), false);
+      assert.strictEqual(verifyWebhookSignature(SECRET, NOW, body, signature, NOW + 60, 30), false);
+    });
+  });
+
+  describe('isRetryableStatus', () => {
+    it('should retry server errors, timeouts and rate limits only', () => {
+      assert.deepStrictEqual(
+        [500, 503, 408, 429, 400, 401, 404, 410].map(isRetryableStatus),
+        [true, true, true, true, false, false, false, false],
+      );
+    });
+  });
+
+  describe('isPublicAddress', () => {
+    it('should accept public IPv4 and IPv6 addresses', () => {
+      for (const address of ['8.8.8.8', '1.1.1.1', '2606:4700:4700::1111']) {
+        assert.strictEqual(isPublicAddress(address), true, address);
+      }
+    });
+
+    it('should refuse loopback, private, link-local and metadata addresses', () => {
+      for (const address of [
+        '127.0.0.1', '10.1.2.3', '172.16.0.1', '172.31.255.255', '192.168.1.1', '100.64.0.1',
+        '169.254.169.254', '0.0.0.0', '224.0.0.1', '255.255.255.255',
+        '::1', '::', 'fd00:ec2::254', 'fe80::1', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe',
+      ]) {
+        assert.strictEqual(isPublicAddress(address), false, address);
+      }
+    });
+
+    it('should refuse anything that is not an IP address', () => {
+      assert.strictEqual(isPublicAddress('localhost'), false);
+      assert.strictEqual(isPublicAddress(''), false);
+    });
+  });
+
+  describe('postWebhook', () => {
+    // The receivers are on loopback, which deliveries refuse by default
+    const local = { allowPrivateNetworks: true };
+
+    const ok = receiver((_req, res) => res.writeHead(204).end());
+    const failing = receiver((_req, res) => res.writeHead(503, { 'Content-Type': 'text/plain' }).end('try later'));
+    const silent  = receiver(() => { /* never answers */ });
+
+    before(async () => {
+      await ok.start();
+      await failing.start();
+      await silent.start();
+    });
+
+    after(async () => {
+      await ok.stop();
+      await failing.stop();
+      await silent.stop();
+    });
+
+    it('should POST the envelope with headers the receiver can verify', async () => {
+      const result = await postWebhook({ url: ok.url(), secret: SECRET }, ENVELOPE, local);
+      assert.deepStrictEqual(result, { ok: true, status: 204 });
+
+      const [{ headers, body }] = ok.received;
+      const timestamp = Number(headers['x-flowboard-timestamp']);
+      assert.deepStrictEqual(JSON.parse(body), ENVELOPE);
+      assert.strictEqual(headers['content-type'], 'application/json');
+      assert.strictEqual(headers['x-flowboard-event'], 'TASK_COMPLETED');
+      assert.strictEqual(headers['x-flowboard-delivery'], 'd1');
+      assert.strictEqual(
+        verifyWebhookSignature(SECRET, timestamp, body, String(headers['x-flowboard-signature']), Math.floor(Date.now() / 1000)),
+        true,
+      );
+    });
+
+    it('should report an error status without the response body', async () => {
+      const result = await postWebhook({ url: failing.url(), secret: SECRET }, ENVELOPE, local);
+      assert.deepStrictEqual(result, { ok: false, status: 503, error: 'HTTP 503' });
+    });
+
+    it('should give up on a receiver that does not answer in time', async () => {
+      const result = await postWebhook({ url: silent.url(), secret: SECRET }, ENVELOPE, { ...local, timeoutMs: 100 });
+      assert.strictEqual(result.ok, false);
+      assert.strictEqual(result.status, undefined);
+      assert.match(result.error ?? '', /within 100 ms/);
+    });
+
+    it('should report a receiver that is not there', async () => {
+      const result = await postWebhook({ url: 'http://127.0.0.1:1/hooks', secret: SECRET }, ENVELOPE, local);
+      assert.strictEqual(result.ok, false);
+      assert.strictEqual(result.status, undefined);
+    });
+
+    it('should refuse a receiver on a private address without connecting', async () => {
+      const result = await postWebhook({ url: ok.url(), secret: SECRET }, ENVELOPE);
+      assert.deepStrictEqual(result, { ok: false, error: '127.0.0.1 is not a public address' });
+
+      const metadata = await postWebhook({ url: 'http://[::ffff:169.254.169.254]/latest', secret: SECRET }, ENVELOPE);
+      assert.strictEqual(metadata.ok, false);
+      assert.strictEqual(ok.received.length, 1);
+    });
+
+    it('should refuse a hostname that resolves to a private address', async () => {
+      const result = await postWebhook({ url: ok.url().replace('127.0.0.1', 'localhost'), secret: SECRET }, ENVELOPE);
+      assert.deepStrictEqual(result, { ok: false, error: 'localhost does not resolve to a public address' });
+      assert.strictEqual(ok.received.length, 1);
+    });
+  });
+});
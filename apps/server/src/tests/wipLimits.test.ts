@@ -0,0 +1,37 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { findWipOverflow } from '../lib/wipLimits';
+
+const doing = { id: 'doing', title: 'Doing', wipLimit: 2 };
+const todo  = { id: 'todo',  title: 'To Do' };
+
+const tasks = (...columnIds: string[]) => columnIds.map((columnId) => ({ columnId }));
+
+describe('wipLimits', () => {
+  describe('findWipOverflow', () => {
+    it('should refuse a task entering a full column', () => {
+      const before = tasks('doing', 'doing', 'todo');
+      const after  = tasks('doing', 'doing', 'doing');
+      assert.strictEqual(findWipOverflow([todo, doing], before, after), doing);
+    });
+
+    it('should allow filling a column up to its limit', () => {
+      assert.strictEqual(findWipOverflow([doing], tasks('doing', 'todo'), tasks('doing', 'doing')), null);
+    });
+
+    it('should ignore columns without a limit', () => {
+      assert.strictEqual(findWipOverflow([todo], tasks(), tasks('todo', 'todo', 'todo')), null);
+    });
+
+    it('should allow reordering inside and leaving a column over its limit', () => {
+      const over = tasks('doing', 'doing', 'doing');
+      assert.strictEqual(findWipOverflow([doing], over, over), null);
+      assert.strictEqual(findWipOverflow([doing], over, tasks('doing', 'doing', 'todo')), null);
+    });
+
+    it('should count every task a batch moves in', () => {
+      const before = tasks('todo', 'todo', 'todo');
+      assert.strictEqual(findWipOverflow([doing], before, tasks('doing', 'doing', 'doing')), doing);
+    });
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * validation/authSchema.ts
+ *
+ * Zod schemas for account requests (REST body + socket handshake).
+ * Same rules as taskSchema.ts: no imports except zod, no `any`.
+ */
+import { z } from 'zod';
+
+/** Emails are compared lower-cased (users.email CHECK in 008). */
+const emailSchema = z
+  .string()
+  .trim()
+  .email({ message: 'Must be a valid email address' })
+  .max(254, 'Email too long')
+  .transform((email) => email.toLowerCase());
+
+const passwordSchema = z
+  .string()
+  .min(8, 'Password must be at least 8 characters')
+  .max(200, 'Password too long');
+
+/** POST /api/auth/register body */
+export const RegisterPayloadSchema = z.object({
+  email:       emailSchema,
+  password:    passwordSchema,
+  displayName: z.string().trim().min(1, 'Display name is required').max(60, 'Display name too long'),
+});
+export type RegisterPayload = z.infer<typeof RegisterPayloadSchema>;
+
+/** POST /api/auth/login body */
+export const LoginPayloadSchema = z.object({
+  email:    emailSchema,
+  password: z.string().min(1, 'Password is required'),
+});
+export type LoginPayload = z.infer<typeof LoginPayloadSchema>;
+
+/**
+ * Socket.IO handshake auth — the session token from login/register.
+ * Sent by the client as `io(url, { auth: { token, ... } })`.
+ */
+export const AuthHandshakeSchema = z.object({
+  token: z.string().min(1),
+});
+export type AuthHandshake = z.infer<typeof AuthHandshakeSchema>;
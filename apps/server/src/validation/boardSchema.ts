@@ -0,0 +1,29 @@
+/**
+ * validation/boardSchema.ts
+ *
+ * Zod schemas for board-level requests (REST body + socket handshake).
+ * Same rules as taskSchema.ts: no imports except zod, no `any`.
+ */
+import { z } from 'zod';
+
+/** Board identifiers are UUID v4 — same format as task ids. */
+export const BoardIdSchema = z
+  .string()
+  .uuid({ message: 'boardId must be a valid UUID v4' });
+
+/** POST /api/boards body */
+export const CreateBoardPayloadSchema = z.object({
+  name:       z.string().trim().min(1, 'Board name is required').max(120, 'Board name too long'),
+  /** Start from a board template (validation/templateSchema.ts) instead of the default columns */
+  templateId: z.string().uuid({ message: 'templateId must be a valid UUID v4' }).optional(),
+});
+export type CreateBoardPayload = z.infer<typeof CreateBoardPayloadSchema>;
+
+/**
+ * Socket.IO handshake auth — the board the socket wants to join.
+ * Sent by the client as `io(url, { auth: { boardId, ... } })`.
+ */
+export const BoardHandshakeSchema = z.object({
+  boardId: BoardIdSchema,
+});
+export type BoardHandshake = z.infer<typeof BoardHandshakeSchema>;
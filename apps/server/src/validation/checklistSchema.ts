@@ -0,0 +1,69 @@
+/**
+ * validation/checklistSchema.ts
+ *
+ * Zod schemas for the task checklist events:
+ *   CHECKLIST_ITEM_ADD, CHECKLIST_ITEM_UPDATE, CHECKLIST_ITEM_MOVE,
+ *   CHECKLIST_ITEM_DELETE
+ *
+ * Shares the uuid and order primitives with taskSchema.ts. Whether the item
+ * exists is checked against the task by lib/checklist.ts.
+ */
+import { z } from 'zod';
+import { uuidSchema, orderSchema } from './taskSchema';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Primitives
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Item text */
+const textSchema = z
+  .string()
+  .trim()
+  .min(1, 'Checklist item is empty')
+  .max(500, 'Checklist item too long');
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Payload Schemas
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * CHECKLIST_ITEM_ADD payload — the client picks the id so its optimistic
+ * item matches the echo, and sends the order it appended at. Without
+ * `order` the item goes to the bottom.
+ */
+export const AddChecklistItemPayloadSchema = z.object({
+  taskId: uuidSchema,
+  id:     uuidSchema,
+  text:   textSchema,
+  order:  orderSchema.optional(),
+});
+export type AddChecklistItemPayload = z.infer<typeof AddChecklistItemPayloadSchema>;
+
+/** CHECKLIST_ITEM_UPDATE payload — rename and/or check off */
+export const UpdateChecklistItemPayloadSchema = z
+  .object({
+    taskId: uuidSchema,
+    id:     uuidSchema,
+    text:   textSchema.optional(),
+    done:   z.boolean().optional(),
+  })
+  .refine(
+    (data) => data.text !== undefined || data.done !== undefined,
+    { message: 'At least one of text or done must be provided' },
+  );
+export type UpdateChecklistItemPayload = z.infer<typeof UpdateChecklistItemPayloadSchema>;
+
+/** CHECKLIST_ITEM_MOVE payload — the client computes the order (orderBetween) */
+export const MoveChecklistItemPayloadSchema = z.object({
+  taskId: uuidSchema,
+  id:     uuidSchema,
+  order:  orderSchema,
+});
+export type MoveChecklistItemPayload = z.infer<typeof MoveChecklistItemPayloadSchema>;
+
+/** CHECKLIST_ITEM_DELETE payload */
+export const DeleteChecklistItemPayloadSchema = z.object({
+  taskId: uuidSchema,
+  id:     uuidSchema,
+});
+export type DeleteChecklistItemPayload = z.infer<typeof DeleteChecklistItemPayloadSchema>;
@@ -0,0 +1,89 @@
+/**
+ * validation/columnSchema.ts
+ *
+ * Zod schemas for the column management events:
+ *   COLUMN_CREATE, COLUMN_UPDATE, COLUMN_MOVE, COLUMN_DELETE
+ *
+ * Shares the primitive schemas (uuid / version / order) with taskSchema.ts
+ * so both event families validate identically.
+ */
+import { z } from 'zod';
+import { uuidSchema, versionSchema, orderSchema } from './taskSchema';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Primitives
+// ─────────────────────────────────────────────────────────────────────────────
+
+const titleSchema = z
+  .string()
+  .trim()
+  .min(1, 'Column title is required')
+  .max(60, 'Column title too long');
+
+/** Accent colour — 6-digit hex, matches the CHECK in 007_create_columns.sql */
+const colorSchema = z
+  .string()
+  .regex(/^#[0-9a-fA-F]{6}$/, { message: 'color must be a #RRGGBB hex string' });
+
+/** Most tasks the column may hold — matches the CHECK in 021. `null` clears it. */
+const wipLimitSchema = z
+  .number({ invalid_type_error: 'wipLimit must be a number' })
+  .int({ message: 'wipLimit must be an integer' })
+  .min(1, 'wipLimit must be at least 1')
+  .max(999, 'wipLimit too large')
+  .nullable();
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Payload Schemas
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** COLUMN_CREATE payload — always appended as the right-most column */
+export const CreateColumnPayloadSchema = z.object({
+  id:     uuidSchema,
+  title:  titleSchema,
+  color:  colorSchema.optional(),
+  isDone: z.boolean().optional(),
+  wipLimit: wipLimitSchema.optional(),
+});
+export type CreateColumnPayload = z.infer<typeof CreateColumnPayloadSchema>;
+
+/** COLUMN_UPDATE payload — rename / recolor / toggle done / set the WIP limit */
+export const UpdateColumnPayloadSchema = z
+  .object({
+    id:       uuidSchema,
+    title:    titleSchema.optional(),
+    color:    colorSchema.optional(),
+    isDone:   z.boolean().optional(),
+    wipLimit: wipLimitSchema.optional(),
+    version:  versionSchema,
+  })
+  .refine(
+    (data) =>
+      data.title !== undefined || data.color !== undefined || data.isDone !== undefined || data.wipLimit !== undefined,
+    { message: 'At least one of title, color, isDone or wipLimit must be provided' },
+  );
+export type UpdateColumnPayload = z.infer<typeof UpdateColumnPayloadSchema>;
+
+/** COLUMN_MOVE payload — new fractional position */
+export const MoveColumnPayloadSchema = z.object({
+  id:      uuidSchema,
+  order:   orderSchema,
+  version: versionSchema,
+});
+export type MoveColumnPayload = z.infer<typeof MoveColumnPayloadSchema>;
+
+/**
+ * COLUMN_DELETE payload — archives the column.
+ * `targetColumnId` is required when the column still has tasks: they are
+ * appended (in their current order) to the bottom of the target column.
+ */
+export const DeleteColumnPayloadSchema = z
+  .object({
+    id:             uuidSchema,
+    targetColumnId: uuidSchema.optional(),
+  })
+  .refine(
+    (data) => data.targetColumnId !== data.id,
+    { message: 'targetColumnId must differ from the column being deleted' },
+  );
+export type DeleteColumnPayload = z.infer<typeof DeleteColumnPayloadSchema>;
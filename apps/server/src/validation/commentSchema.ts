@@ -0,0 +1,46 @@
+/**
+ * validation/commentSchema.ts
+ *
+ * Zod schemas for the task comment events:
+ *   COMMENT_CREATE, COMMENT_UPDATE, COMMENT_DELETE
+ *
+ * Shares the uuid primitive with taskSchema.ts.
+ */
+import { z } from 'zod';
+import { uuidSchema } from './taskSchema';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Primitives
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Comment text — matches the CHECK in 012_create_task_comments.sql */
+const bodySchema = z
+  .string()
+  .trim()
+  .min(1, 'Comment is empty')
+  .max(5000, 'Comment too long');
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Payload Schemas
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** COMMENT_CREATE payload — the client picks the id so it can match the echo */
+export const CreateCommentPayloadSchema = z.object({
+  id:     uuidSchema,
+  taskId: uuidSchema,
+  body:   bodySchema,
+});
+export type CreateCommentPayload = z.infer<typeof CreateCommentPayloadSchema>;
+
+/** COMMENT_UPDATE payload — authors edit their own comments */
+export const UpdateCommentPayloadSchema = z.object({
+  id:   uuidSchema,
+  body: bodySchema,
+});
+export type UpdateCommentPayload = z.infer<typeof UpdateCommentPayloadSchema>;
+
+/** COMMENT_DELETE payload — the author, or anyone who may moderate comments */
+export const DeleteCommentPayloadSchema = z.object({
+  id: uuidSchema,
+});
+export type DeleteCommentPayload = z.infer<typeof DeleteCommentPayloadSchema>;
@@ -0,0 +1,13 @@
+/**
+ * validation/exportSchema.ts
+ *
+ * Zod schema for the board export REST query string (lib/boardExport.ts).
+ * Same rules as taskSchema.ts: no imports except zod, no `any`.
+ */
+import { z } from 'zod';
+
+/** ?format=json|csv|markdown */
+export const ExportQuerySchema = z.object({
+  format: z.enum(['json', 'csv', 'markdown']).default('json'),
+});
+export type ExportQuery = z.infer<typeof ExportQuerySchema>;
@@ -0,0 +1,14 @@
+/**
+ * validation/historySchema.ts
+ *
+ * Zod schema for the history / activity REST query string.
+ * Same rules as taskSchema.ts: no imports except zod, no `any`.
+ */
+import { z } from 'zod';
+
+/** ?limit=&before= — newest first, `before` is the occurredAt of the last row seen. */
+export const HistoryQuerySchema = z.object({
+  limit:  z.coerce.number().int().min(1).max(200).default(50),
+  before: z.string().datetime({ offset: true, message: 'before must be an ISO 8601 timestamp' }).optional(),
+});
+export type HistoryQuery = z.infer<typeof HistoryQuerySchema>;
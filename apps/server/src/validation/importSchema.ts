@@ -0,0 +1,32 @@
+/**
+ * validation/importSchema.ts
+ *
+ * Zod schema for board imports (routes/import.ts, lib/boardImport.ts).
+ * Same rules as taskSchema.ts: no imports except zod, no `any`.
+ */
+import { z } from 'zod';
+
+const headerSchema = z.string().min(1, 'Header is required').max(200, 'Header too long');
+
+/** Which CSV header holds each task field — only `title` is required */
+export const CsvMappingSchema = z.object({
+  title:       headerSchema,
+  column:      headerSchema.optional(),
+  description: headerSchema.optional(),
+  priority:    headerSchema.optional(),
+  labels:      headerSchema.optional(),
+  startAt:     headerSchema.optional(),
+  dueAt:       headerSchema.optional(),
+  estimate:    headerSchema.optional(),
+});
+
+/**
+ * POST /import and /import/preview body — the uploaded file as text.
+ * Without a mapping a CSV's headers are guessed from their names.
+ */
+export const ImportRequestSchema = z.object({
+  source:  z.enum(['trello', 'jira', 'csv']),
+  content: z.string().min(1, 'The file is empty').max(5_000_000, 'The file is too large (5 MB at most)'),
+  mapping: CsvMappingSchema.optional(),
+});
+export type ImportRequest = z.infer<typeof ImportRequestSchema>;
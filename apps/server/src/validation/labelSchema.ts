@@ -0,0 +1,58 @@
+/**
+ * validation/labelSchema.ts
+ *
+ * Zod schemas for the label catalog events:
+ *   LABEL_CREATE, LABEL_UPDATE, LABEL_DELETE
+ *
+ * Shares the uuid primitive with taskSchema.ts. Attaching labels to a task
+ * is part of TASK_CREATE / TASK_UPDATE (labelIds).
+ */
+import { z } from 'zod';
+import { uuidSchema } from './taskSchema';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Primitives
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Label name — matches the CHECK in 014_create_labels.sql */
+const nameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Label name is required')
+  .max(40, 'Label name too long');
+
+/** Chip colour — 6-digit hex, same format as column colours */
+const colorSchema = z
+  .string()
+  .regex(/^#[0-9a-fA-F]{6}$/, { message: 'color must be a #RRGGBB hex string' });
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Payload Schemas
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** LABEL_CREATE payload */
+export const CreateLabelPayloadSchema = z.object({
+  id:    uuidSchema,
+  name:  nameSchema,
+  color: colorSchema.optional(),
+});
+export type CreateLabelPayload = z.infer<typeof CreateLabelPayloadSchema>;
+
+/** LABEL_UPDATE payload — rename / recolor */
+export const UpdateLabelPayloadSchema = z
+  .object({
+    id:    uuidSchema,
+    name:  nameSchema.optional(),
+    color: colorSchema.optional(),
+  })
+  .refine(
+    (data) => data.name !== undefined || data.color !== undefined,
+    { message: 'At least one of name or color must be provided' },
+  );
+export type UpdateLabelPayload = z.infer<typeof UpdateLabelPayloadSchema>;
+
+/** LABEL_DELETE payload — the label is also removed from every task */
+export const DeleteLabelPayloadSchema = z.object({
+  id: uuidSchema,
+});
+export type DeleteLabelPayload = z.infer<typeof DeleteLabelPayloadSchema>;
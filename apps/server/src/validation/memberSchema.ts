@@ -0,0 +1,23 @@
+/**
+ * validation/memberSchema.ts
+ *
+ * Zod schemas for board membership requests (REST bodies).
+ * Same rules as taskSchema.ts: no imports except zod, no `any`.
+ */
+import { z } from 'zod';
+
+/** Board role — mirrors lib/permissions.ts Role and the 009 CHECK. */
+export const RoleSchema = z.enum(['viewer', 'editor', 'admin'] as const);
+
+/** POST /api/boards/:boardId/members body — invite an existing user by email */
+export const AddMemberPayloadSchema = z.object({
+  email: z.string().trim().email({ message: 'Must be a valid email address' }).transform((e) => e.toLowerCase()),
+  role:  RoleSchema.default('editor'),
+});
+export type AddMemberPayload = z.infer<typeof AddMemberPayloadSchema>;
+
+/** PATCH /api/boards/:boardId/members/:userId body */
+export const UpdateMemberPayloadSchema = z.object({
+  role: RoleSchema,
+});
+export type UpdateMemberPayload = z.infer<typeof UpdateMemberPayloadSchema>;
@@ -0,0 +1,16 @@
+/**
+ * validation/searchSchema.ts
+ *
+ * Zod schema for the board search REST query string. The query language in
+ * `q` is parsed by lib/searchQuery.ts.
+ * Same rules as taskSchema.ts: no imports except zod, no `any`.
+ */
+import { z } from 'zod';
+
+/** ?boardId=&q=&limit= */
+export const SearchQuerySchema = z.object({
+  boardId: z.string().uuid({ message: 'boardId must be a valid UUID v4' }),
+  q:       z.string().max(500, 'Search query too long').default(''),
+  limit:   z.coerce.number().int().min(1).max(500).default(200),
+});
+export type SearchRequest = z.infer<typeof SearchQuerySchema>;
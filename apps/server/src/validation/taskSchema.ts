@@ -17,23 +17,26 @@ import { z } from 'zod';
 // Primitives
 // ─────────────────────────────────────────────────────────────────────────────
 
-/** Valid column identifiers — matches ColumnId in types/index.ts */
-export const ColumnIdSchema = z.enum(['todo', 'in-progress', 'done']);
-export type ColumnId = z.infer<typeof ColumnIdSchema>;
-
 /**
  * UUID v4 string.
  * We validate format here rather than trusting the client.
  */
-const uuidSchema = z
+export const uuidSchema = z
   .string()
   .uuid({ message: 'Must be a valid UUID v4' });
 
+/**
+ * Column identifiers — user-defined columns (board_columns.id), so any UUID.
+ * Whether the column exists on the board is checked by the service.
+ */
+export const ColumnIdSchema = uuidSchema;
+export type ColumnId = z.infer<typeof ColumnIdSchema>;
+
 /**
  * Optimistic lock version counter — positive integer.
  * Clients increment this on every mutation; server enforces ordering.
  */
-const versionSchema = z
+export const versionSchema = z
   .number({ invalid_type_error: 'version must be a number' })
   .int({ message: 'version must be an integer' })
   .positive({ message: 'version must be a positive integer' });
@@ -41,25 +44,91 @@ const versionSchema = z
 /**
  * Fractional index order field — any finite float, no NaN/Infinity.
  */
-const orderSchema = z
+export const orderSchema = z
   .number({ invalid_type_error: 'order must be a number' })
   .finite({ message: 'order must be a finite number' });
 
+/**
+ * Users assigned to a task — the full list, replacing the previous one.
+ * Whether they are members of the board is checked by the service.
+ */
+export const assigneeIdsSchema = z
+  .array(uuidSchema)
+  .max(20, 'Too many assignees')
+  .refine((ids) => new Set(ids).size === ids.length, { message: 'Duplicate assignee' });
+
+/**
+ * Labels attached to a task — the full list, replacing the previous one.
+ * Whether they belong to the board's catalog is checked by the service.
+ */
+export const labelIdsSchema = z
+  .array(uuidSchema)
+  .max(20, 'Too many labels')
+  .refine((ids) => new Set(ids).size === ids.length, { message: 'Duplicate label' });
+
+/**
+ * Tasks blocking this one — the full list, replacing the previous one.
+ * Whether they are tasks of the board, and free of cycles, is checked by
+ * the service.
+ */
+export const blockedByIdsSchema = z
+  .array(uuidSchema)
+  .max(50, 'Too many blockers')
+  .refine((ids) => new Set(ids).size === ids.length, { message: 'Duplicate blocker' });
+
+/**
+ * Start / due date — ISO 8601 with an offset. `null` clears the date.
+ */
+export const taskDateSchema = z
+  .string()
+  .datetime({ offset: true, message: 'Must be an ISO 8601 date-time' })
+  .nullable();
+
+/** Task priority — `none` is the default */
+export const TaskPrioritySchema = z.enum(['urgent', 'high', 'medium', 'low', 'none'] as const);
+export type TaskPriority = z.infer<typeof TaskPrioritySchema>;
+
+/**
+ * Story-point estimate — matches NUMERIC(5, 1) in 016. `null` clears it.
+ */
+export const estimateSchema = z
+  .number({ invalid_type_error: 'estimate must be a number' })
+  .finite({ message: 'estimate must be a finite number' })
+  .min(0, 'estimate must not be negative')
+  .max(999, 'estimate too large')
+  .refine((n) => Number.isInteger(n * 10), { message: 'estimate allows one decimal place' })
+  .nullable();
+
+/** A start date after the due date makes no sense — rejected when both are sent. */
+const datesInOrder = (data: { startAt?: string | null; dueAt?: string | null }): boolean =>
+  !data.startAt || !data.dueAt || Date.parse(data.startAt) <= Date.parse(data.dueAt);
+
+const DATES_ORDER_MESSAGE = { message: 'startAt must not be after dueAt', path: ['startAt'] };
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Payload Schemas (standalone — usable inside handlers independently)
 // ─────────────────────────────────────────────────────────────────────────────
 
-/** TASK_CREATE payload */
-export const CreateTaskPayloadSchema = z.object({
-  id:          uuidSchema,
-  columnId:    ColumnIdSchema,
-  title:       z.string().min(1, 'Title is required').max(500, 'Title too long'),
-  description: z.string().max(5000, 'Description too long').optional(),
-  creatorName: z.string().optional(),
-  creatorColor: z.string().optional(),
-  updatedByName: z.string().optional(),
-  updatedByColor: z.string().optional(),
-});
+/**
+ * TASK_CREATE payload. `order` is normally omitted (append to the column);
+ * callers that need a specific position may pin it.
+ */
+export const CreateTaskPayloadSchema = z
+  .object({
+    id:          uuidSchema,
+    columnId:    ColumnIdSchema,
+    title:       z.string().min(1, 'Title is required').max(500, 'Title too long'),
+    description: z.string().max(5000, 'Description too long').optional(),
+    order:       orderSchema.optional(),
+    assigneeIds: assigneeIdsSchema.optional(),
+    labelIds:    labelIdsSchema.optional(),
+    blockedByIds: blockedByIdsSchema.optional(),
+    startAt:     taskDateSchema.optional(),
+    dueAt:       taskDateSchema.optional(),
+    priority:    TaskPrioritySchema.optional(),
+    estimate:    estimateSchema.optional(),
+  })
+  .refine(datesInOrder, DATES_ORDER_MESSAGE);
 export type CreateTaskPayload = z.infer<typeof CreateTaskPayloadSchema>;
 
 /** TASK_UPDATE payload */
@@ -68,14 +137,24 @@ export const UpdateTaskPayloadSchema = z
     id:          uuidSchema,
     title:       z.string().min(1, 'Title is required').max(500, 'Title too long').optional(),
     description: z.string().max(5000, 'Description too long').optional(),
+    assigneeIds: assigneeIdsSchema.optional(),
+    labelIds:    labelIdsSchema.optional(),
+    blockedByIds: blockedByIdsSchema.optional(),
+    startAt:     taskDateSchema.optional(),
+    dueAt:       taskDateSchema.optional(),
+    priority:    TaskPrioritySchema.optional(),
+    estimate:    estimateSchema.optional(),
     version:     versionSchema,
-    updatedByName: z.string().optional(),
-    updatedByColor: z.string().optional(),
   })
   .refine(
-    (data) => data.title !== undefined || data.description !== undefined,
-    { message: 'At least one of title or description must be provided' },
-  );
+    (data) =>
+      [
+        data.title, data.description, data.assigneeIds, data.labelIds, data.blockedByIds,
+        data.startAt, data.dueAt, data.priority, data.estimate,
+      ].some((v) => v !== undefined),
+    { message: 'At least one task field to change must be provided' },
+  )
+  .refine(datesInOrder, DATES_ORDER_MESSAGE);
 export type UpdateTaskPayload = z.infer<typeof UpdateTaskPayloadSchema>;
 
 /** TASK_MOVE payload */
@@ -84,8 +163,6 @@ export const MoveTaskPayloadSchema = z.object({
   columnId: ColumnIdSchema,
   order:    orderSchema,
   version:  versionSchema,
-  updatedByName: z.string().optional(),
-  updatedByColor: z.string().optional(),
 });
 export type MoveTaskPayload = z.infer<typeof MoveTaskPayloadSchema>;
 
@@ -95,6 +172,86 @@ export const DeleteTaskPayloadSchema = z.object({
 });
 export type DeleteTaskPayload = z.infer<typeof DeleteTaskPayloadSchema>;
 
+/** TASK_RESTORE payload — the task returns to the column / order it had */
+export const RestoreTaskPayloadSchema = z.object({
+  id: uuidSchema,
+});
+export type RestoreTaskPayload = z.infer<typeof RestoreTaskPayloadSchema>;
+
+/**
+ * The edit half of a TASK_BATCH — the fields set in bulk. Title,
+ * description and blockers keep their own events (text log, cycle checks).
+ */
+export const BatchUpdatePayloadSchema = z
+  .object({
+    id:          uuidSchema,
+    assigneeIds: assigneeIdsSchema.optional(),
+    labelIds:    labelIdsSchema.optional(),
+    startAt:     taskDateSchema.optional(),
+    dueAt:       taskDateSchema.optional(),
+    priority:    TaskPrioritySchema.optional(),
+    estimate:    estimateSchema.optional(),
+    version:     versionSchema,
+  })
+  .refine(
+    (data) =>
+      [data.assigneeIds, data.labelIds, data.startAt, data.dueAt, data.priority, data.estimate]
+        .some((v) => v !== undefined),
+    { message: 'At least one task field to change must be provided' },
+  )
+  .refine(datesInOrder, DATES_ORDER_MESSAGE);
+export type BatchUpdatePayload = z.infer<typeof BatchUpdatePayloadSchema>;
+
+/** One op of a TASK_BATCH — same payloads as TASK_MOVE / TASK_DELETE */
+export const BatchOpSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('move'),   payload: MoveTaskPayloadSchema }),
+  z.object({ type: z.literal('update'), payload: BatchUpdatePayloadSchema }),
+  z.object({ type: z.literal('delete'), payload: DeleteTaskPayloadSchema }),
+]);
+export type BatchOp = z.infer<typeof BatchOpSchema>;
+
+/**
+ * TASK_BATCH payload — moves, edits and deletes applied all or nothing, in
+ * order. A task may appear in several ops (e.g. an edit, then a move).
+ */
+export const TaskBatchPayloadSchema = z.object({
+  ops: z
+    .array(BatchOpSchema)
+    .min(1, 'TASK_BATCH must contain at least one operation')
+    .max(100, 'Too many operations in one batch'),
+});
+export type TaskBatchPayload = z.infer<typeof TaskBatchPayloadSchema>;
+
+/** Task fields edited collaboratively, character by character */
+export const TextFieldSchema = z.enum(['title', 'description'] as const);
+export type TextField = z.infer<typeof TextFieldSchema>;
+
+/**
+ * One text operation — retain (n > 0), delete (n < 0) and insert (string)
+ * components, see lib/textOt.ts. Whether it fits the text is checked by the
+ * service after transforming it.
+ */
+export const TextOpSchema = z
+  .array(z.union([
+    z.number().int().refine((n) => n !== 0, { message: 'op components must be non-zero' }),
+    z.string().min(1),
+  ]))
+  .min(1, 'op must not be empty')
+  .max(10_000, 'op too long');
+
+/**
+ * TASK_TEXT_EDIT payload. `revision` is the task's textRevision the op was
+ * made against; `opId` lets the sender recognise its own op in the broadcast.
+ */
+export const TaskTextEditPayloadSchema = z.object({
+  id:       uuidSchema,
+  field:    TextFieldSchema,
+  revision: z.number().int().nonnegative(),
+  op:       TextOpSchema,
+  opId:     uuidSchema,
+});
+export type TaskTextEditPayload = z.infer<typeof TaskTextEditPayloadSchema>;
+
 /**
  * A single queued offline operation.
  * Mirrors QueuedOp in types/index.ts.
@@ -106,6 +263,23 @@ export const QueuedOpSchema = z.object({
     'TASK_UPDATE',
     'TASK_MOVE',
     'TASK_DELETE',
+    'TASK_RESTORE',
+    'TASK_TEXT_EDIT',
+    'TASK_BATCH',
+    'COLUMN_CREATE',
+    'COLUMN_UPDATE',
+    'COLUMN_MOVE',
+    'COLUMN_DELETE',
+    'CHECKLIST_ITEM_ADD',
+    'CHECKLIST_ITEM_UPDATE',
+    'CHECKLIST_ITEM_MOVE',
+    'CHECKLIST_ITEM_DELETE',
+    'COMMENT_CREATE',
+    'COMMENT_UPDATE',
+    'COMMENT_DELETE',
+    'LABEL_CREATE',
+    'LABEL_UPDATE',
+    'LABEL_DELETE',
     'PRESENCE_UPDATE',
   ] as const),
   payload: z.record(z.string(), z.unknown()),
@@ -159,6 +333,24 @@ export const DeleteTaskSchema = z.object({
 });
 export type DeleteTaskEvent = z.infer<typeof DeleteTaskSchema>;
 
+export const RestoreTaskSchema = z.object({
+  type:    z.literal('TASK_RESTORE'),
+  payload: RestoreTaskPayloadSchema,
+});
+export type RestoreTaskEvent = z.infer<typeof RestoreTaskSchema>;
+
+export const TaskTextEditSchema = z.object({
+  type:    z.literal('TASK_TEXT_EDIT'),
+  payload: TaskTextEditPayloadSchema,
+});
+export type TaskTextEditEvent = z.infer<typeof TaskTextEditSchema>;
+
+export const TaskBatchSchema = z.object({
+  type:    z.literal('TASK_BATCH'),
+  payload: TaskBatchPayloadSchema,
+});
+export type TaskBatchEvent = z.infer<typeof TaskBatchSchema>;
+
 export const ReplayOpsSchema = z.object({
   type:    z.literal('REPLAY_OPS'),
   payload: ReplayOpsPayloadSchema,
@@ -194,6 +386,9 @@ export const ClientEventSchema = z.discriminatedUnion('type', [
   UpdateTaskSchema,
   MoveTaskSchema,
   DeleteTaskSchema,
+  RestoreTaskSchema,
+  TaskTextEditSchema,
+  TaskBatchSchema,
   ReplayOpsSchema,
   PresenceUpdateSchema,
 ]);
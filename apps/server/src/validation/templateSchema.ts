@@ -0,0 +1,37 @@
+/**
+ * validation/templateSchema.ts
+ *
+ * Zod schemas for board templates and board duplication (REST bodies).
+ * Same rules as taskSchema.ts: no imports except zod, no `any`.
+ */
+import { z } from 'zod';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Primitives — mirror the CHECKs in 022_create_board_templates.sql
+// ─────────────────────────────────────────────────────────────────────────────
+
+const nameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Template name is required')
+  .max(120, 'Template name too long');
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Payload Schemas
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** POST /api/boards/:boardId/templates body */
+export const CreateTemplatePayloadSchema = z.object({
+  name:        nameSchema,
+  description: z.string().trim().max(500, 'Template description too long').default(''),
+  shared:      z.boolean().default(false),
+});
+export type CreateTemplatePayload = z.infer<typeof CreateTemplatePayloadSchema>;
+
+/** POST /api/boards/:boardId/duplicate body */
+export const DuplicateBoardPayloadSchema = z.object({
+  name:         z.string().trim().min(1, 'Board name is required').max(120, 'Board name too long'),
+  /** Keep each task's creator and creation time — otherwise the copy is yours, made now */
+  keepCreators: z.boolean().default(true),
+});
+export type DuplicateBoardPayload = z.infer<typeof DuplicateBoardPayloadSchema>;
@@ -0,0 +1,61 @@
+/**
+ * validation/viewSchema.ts
+ *
+ * Zod schemas for saved board views (REST bodies). The `query` is checked
+ * against the search language by viewService, not here.
+ * Same rules as taskSchema.ts: no imports except zod, no `any`.
+ */
+import { z } from 'zod';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Primitives — mirror the CHECKs in 020_create_board_views.sql
+// ─────────────────────────────────────────────────────────────────────────────
+
+const nameSchema = z
+  .string()
+  .trim()
+  .min(1, 'View name is required')
+  .max(60, 'View name too long');
+
+const querySchema = z.string().trim().max(500, 'View query too long');
+
+export const SortFieldSchema = z.enum(['position', 'updated', 'created', 'due', 'priority', 'title'] as const);
+export type SortField = z.infer<typeof SortFieldSchema>;
+
+export const SortDirectionSchema = z.enum(['asc', 'desc'] as const);
+export type SortDirection = z.infer<typeof SortDirectionSchema>;
+
+/** Swimlane grouping — 'none' shows plain columns */
+export const GroupBySchema = z.enum(['none', 'assignee', 'label', 'priority', 'creator', 'updater'] as const);
+export type GroupBy = z.infer<typeof GroupBySchema>;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Payload Schemas
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** POST /api/boards/:boardId/views body */
+export const CreateViewPayloadSchema = z.object({
+  name:          nameSchema,
+  query:         querySchema.default(''),
+  sortField:     SortFieldSchema.default('position'),
+  sortDirection: SortDirectionSchema.default('asc'),
+  groupBy:       GroupBySchema.default('none'),
+  shared:        z.boolean().default(false),
+});
+export type CreateViewPayload = z.infer<typeof CreateViewPayloadSchema>;
+
+/** PATCH /api/boards/:boardId/views/:viewId body */
+export const UpdateViewPayloadSchema = z
+  .object({
+    name:          nameSchema.optional(),
+    query:         querySchema.optional(),
+    sortField:     SortFieldSchema.optional(),
+    sortDirection: SortDirectionSchema.optional(),
+    groupBy:       GroupBySchema.optional(),
+    shared:        z.boolean().optional(),
+  })
+  .refine(
+    (data) => Object.values(data).some((v) => v !== undefined),
+    { message: 'At least one field must be provided' },
+  );
+export type UpdateViewPayload = z.infer<typeof UpdateViewPayloadSchema>;
@@ -0,0 +1,76 @@
+/**
+ * validation/webhookSchema.ts
+ *
+ * Zod schemas for outgoing webhook subscriptions and their delivery log
+ * (REST bodies and queries).
+ * Same rules as taskSchema.ts: no imports except zod, no `any`.
+ */
+import { z } from 'zod';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Primitives — mirror the CHECKs in 023_create_webhooks.sql
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Task events a subscription can ask for — see lib/webhooks.ts */
+export const WebhookEventSchema = z.enum([
+  'TASK_CREATED',
+  'TASK_UPDATED',
+  'TASK_MOVED',
+  'TASK_COMPLETED',
+  'TASK_DELETED',
+  'TASK_RESTORED',
+] as const);
+export type WebhookEventType = z.infer<typeof WebhookEventSchema>;
+
+const urlSchema = z
+  .string()
+  .trim()
+  .max(2000, 'url too long')
+  .url({ message: 'url must be a valid URL' })
+  .refine((url) => /^https?:\/\//i.test(url), { message: 'url must be http or https' });
+
+const eventsSchema = z
+  .array(WebhookEventSchema)
+  .min(1, 'Pick at least one event')
+  .transform((events) => [...new Set(events)]);
+
+/** Signing secret — generated by the server when not given */
+const secretSchema = z.string().min(16, 'secret must be at least 16 characters').max(200, 'secret too long');
+
+export const DeliveryStatusSchema = z.enum(['pending', 'retrying', 'delivered', 'dead'] as const);
+export type DeliveryStatus = z.infer<typeof DeliveryStatusSchema>;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Payload Schemas
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** POST /api/boards/:boardId/webhooks body */
+export const CreateWebhookPayloadSchema = z.object({
+  url:    urlSchema,
+  events: eventsSchema,
+  secret: secretSchema.optional(),
+  active: z.boolean().default(true),
+});
+export type CreateWebhookPayload = z.infer<typeof CreateWebhookPayloadSchema>;
+
+/** PATCH /api/boards/:boardId/webhooks/:webhookId body */
+export const UpdateWebhookPayloadSchema = z
+  .object({
+    url:          urlSchema.optional(),
+    events:       eventsSchema.optional(),
+    active:       z.boolean().optional(),
+    /** Replace the secret with a new generated one, returned once */
+    rotateSecret: z.literal(true).optional(),
+  })
+  .refine(
+    (data) => Object.values(data).some((v) => v !== undefined),
+    { message: 'At least one field must be provided' },
+  );
+export type UpdateWebhookPayload = z.infer<typeof UpdateWebhookPayloadSchema>;
+
+/** GET …/webhooks/:webhookId/deliveries and …/webhooks/dead-letters query */
+export const DeliveryQuerySchema = z.object({
+  status: DeliveryStatusSchema.optional(),
+  limit:  z.coerce.number().int().min(1).max(100).default(50),
+});
+export type DeliveryQuery = z.infer<typeof DeliveryQuerySchema>;
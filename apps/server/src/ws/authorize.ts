@@ -0,0 +1,47 @@
+/**
+ * ws/authorize.ts
+ *
+ * The socket authorization layer. ws/router.ts wraps every event in
+ * `authorized()`, so no handler runs unless the sender's board role grants
+ * the event's permission (lib/permissions.ts EVENT_PERMISSIONS).
+ *
+ * The role is read fresh for every event (Redis-cached in memberService),
+ * so a role change or removal takes effect on the very next event.
+ */
+import type { Socket } from 'socket.io';
+import { canSend } from '../lib/permissions';
+import { getRole } from '../services/memberService';
+import { getBoardContext } from './socketContext';
+
+/**
+ * Run `handler` if the socket's user may send `eventType` on its board;
+ * otherwise emit ERROR { code: 'FORBIDDEN' } back to the sender only.
+ */
+export async function authorized(
+  socket:    Socket,
+  eventType: string,
+  handler:   () => Promise<void>,
+): Promise<void> {
+  const { boardId, user } = getBoardContext(socket);
+
+  let role;
+  try {
+    role = await getRole(boardId, user.id);
+  } catch (err) {
+    console.error('[ws.authorize]', err);
+    socket.emit('ERROR', { code: 'AUTHORIZATION_FAILED', message: 'Could not check your permissions' });
+    return;
+  }
+
+  if (!canSend(role, eventType)) {
+    socket.emit('ERROR', {
+      code:    'FORBIDDEN',
+      message: role
+        ? `Your role (${role}) does not allow ${eventType} on this board`
+        : 'You are no longer a member of this board',
+    });
+    return;
+  }
+
+  await handler();
+}
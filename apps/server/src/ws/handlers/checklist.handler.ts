@@ -0,0 +1,132 @@
+/**
+ * ws/handlers/checklist.handler.ts
+ *
+ * One exported function per task checklist event.
+ * Same rules as task.handler.ts:
+ *   - First line of every handler: validate payload with Zod schema.
+ *   - Delegate all business logic to taskService (lib/checklist.ts).
+ *   - Broadcast the result to the board room only.
+ *
+ * Every op broadcasts CHECKLIST_UPDATED with the whole task. The sender
+ * applied its op optimistically, so a refused op (the item was deleted
+ * meanwhile, the checklist is full, …) sends it CONFLICT_NOTIFY with the
+ * task's current state to roll back to.
+ */
+import type { Socket, Server } from 'socket.io';
+import {
+  AddChecklistItemPayloadSchema,
+  UpdateChecklistItemPayloadSchema,
+  MoveChecklistItemPayloadSchema,
+  DeleteChecklistItemPayloadSchema,
+} from '../../validation/checklistSchema';
+import { applyChecklistChange, getTaskById } from '../../services/taskService';
+import type { ConflictNotifyPayload } from '../../services/conflictService';
+import type { ChecklistOp } from '../../lib/checklist';
+import { boardRoom, getBoardContext } from '../socketContext';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function emitError(socket: Socket, code: string, message: string): void {
+  socket.emit('ERROR', { code, message });
+}
+
+/** Apply `op` to the task, then broadcast — or roll the sender back. */
+async function applyAndBroadcast(
+  socket: Socket,
+  io:     Server,
+  taskId: string,
+  op:     ChecklistOp,
+): Promise<void> {
+  const ctx    = getBoardContext(socket);
+  const result = await applyChecklistChange(ctx, taskId, op);
+
+  if (result.ok) {
+    io.to(boardRoom(ctx.boardId)).emit('CHECKLIST_UPDATED', result.data);
+    return;
+  }
+
+  const current = result.code === 'NOT_FOUND' ? null : await getTaskById(taskId);
+  if (!current || current.boardId !== ctx.boardId) {
+    return emitError(socket, result.code, result.message);
+  }
+
+  socket.emit('CONFLICT_NOTIFY', {
+    taskId,
+    resolvedState: current,
+    message:       `${result.message}. Your checklist change was not applied.`,
+  } satisfies ConflictNotifyPayload);
+}
+
+// ── Handlers ──────────────────────────────────────────────────────────────────
+
+/**
+ * CHECKLIST_ITEM_ADD
+ * Adds an item (appended unless the payload pins an order).
+ */
+export async function handleChecklistItemAdd(
+  socket: Socket,
+  io:     Server,
+  raw:    unknown,
+): Promise<void> {
+  const parsed = AddChecklistItemPayloadSchema.safeParse(raw);
+  if (!parsed.success) {
+    return emitError(socket, 'VALIDATION_ERROR', parsed.error.message);
+  }
+
+  const { taskId, id, text, order } = parsed.data;
+  await applyAndBroadcast(socket, io, taskId, { kind: 'add', id, text, order });
+}
+
+/**
+ * CHECKLIST_ITEM_UPDATE
+ * Renames an item and/or checks it off.
+ */
+export async function handleChecklistItemUpdate(
+  socket: Socket,
+  io:     Server,
+  raw:    unknown,
+): Promise<void> {
+  const parsed = UpdateChecklistItemPayloadSchema.safeParse(raw);
+  if (!parsed.success) {
+    return emitError(socket, 'VALIDATION_ERROR', parsed.error.message);
+  }
+
+  const { taskId, id, text, done } = parsed.data;
+  await applyAndBroadcast(socket, io, taskId, { kind: 'update', id, text, done });
+}
+
+/**
+ * CHECKLIST_ITEM_MOVE
+ * Reorders an item to the fractional order the client computed.
+ */
+export async function handleChecklistItemMove(
+  socket: Socket,
+  io:     Server,
+  raw:    unknown,
+): Promise<void> {
+  const parsed = MoveChecklistItemPayloadSchema.safeParse(raw);
+  if (!parsed.success) {
+    return emitError(socket, 'VALIDATION_ERROR', parsed.error.message);
+  }
+
+  const { taskId, id, order } = parsed.data;
+  await applyAndBroadcast(socket, io, taskId, { kind: 'move', id, order });
+}
+
+/**
+ * CHECKLIST_ITEM_DELETE
+ * Removes an item. Idempotent, like TASK_DELETE.
+ */
+export async function handleChecklistItemDelete(
+  socket: Socket,
+  io:     Server,
+  raw:    unknown,
+): Promise<void> {
+  const parsed = DeleteChecklistItemPayloadSchema.safeParse(raw);
+  if (!parsed.success) {
+    return emitError(socket, 'VALIDATION_ERROR', parsed.error.message);
+  }
+
+  const { taskId, id } = parsed.data;
+  await applyAndBroadcast(socket, io, taskId, { kind: 'delete', id });
+}
@@ -0,0 +1,162 @@
+/**
+ * ws/handlers/column.handler.ts
+ *
+ * One exported function per column management event.
+ * Same rules as task.handler.ts:
+ *   - First line of every handler: validate payload with Zod schema.
+ *   - Delegate all business logic to columnService / taskService.
+ *   - Broadcast the result to the board room only.
+ */
+import type { Socket, Server } from 'socket.io';
+import {
+  CreateColumnPayloadSchema,
+  UpdateColumnPayloadSchema,
+  MoveColumnPayloadSchema,
+  DeleteColumnPayloadSchema,
+} from '../../validation/columnSchema';
+import {
+  createColumn,
+  updateColumn,
+  moveColumn,
+  archiveColumn,
+  getColumn,
+} from '../../services/columnService';
+import { getAllTasks, relocateColumnTasks, type Task, type TaskBatchResult } from '../../services/taskService';
+import { boardRoom, getBoardContext } from '../socketContext';
+
+// ── Helper — emit a typed error back to the calling socket ────────────────────
+
+function emitError(socket: Socket, code: string, message: string): void {
+  socket.emit('ERROR', { code, message });
+}
+
+// ── Handlers ──────────────────────────────────────────────────────────────────
+
+/**
+ * COLUMN_CREATE
+ * Appends a new column and broadcasts COLUMN_CREATED.
+ */
+export async function handleColumnCreate(
+  socket: Socket,
+  io:     Server,
+  raw:    unknown,
+): Promise<void> {
+  const parsed = CreateColumnPayloadSchema.safeParse(raw);
+  if (!parsed.success) {
+    return emitError(socket, 'VALIDATION_ERROR', parsed.error.message);
+  }
+
+  const ctx    = getBoardContext(socket);
+  const result = await createColumn(ctx, parsed.data);
+
+  if (!result.ok) {
+    return emitError(socket, result.code, result.message);
+  }
+
+  io.to(boardRoom(ctx.boardId)).emit('COLUMN_CREATED', result.data);
+}
+
+/**
+ * COLUMN_UPDATE
+ * Rename / recolor / toggle done. Broadcasts COLUMN_UPDATED.
+ */
+export async function handleColumnUpdate(
+  socket: Socket,
+  io:     Server,
+  raw:    unknown,
+): Promise<void> {
+  const parsed = UpdateColumnPayloadSchema.safeParse(raw);
+  if (!parsed.success) {
+    return emitError(socket, 'VALIDATION_ERROR', parsed.error.message);
+  }
+
+  const ctx    = getBoardContext(socket);
+  const result = await updateColumn(ctx, parsed.data);
+
+  if (!result.ok) {
+    return emitError(socket, result.code, result.message);
+  }
+
+  io.to(boardRoom(ctx.boardId)).emit('COLUMN_UPDATED', result.data);
+}
+
+/**
+ * COLUMN_MOVE
+ * Reorders a column (fractional order). Broadcasts COLUMN_MOVED.
+ */
+export async function handleColumnMove(
+  socket: Socket,
+  io:     Server,
+  raw:    unknown,
+): Promise<void> {
+  const parsed = MoveColumnPayloadSchema.safeParse(raw);
+  if (!parsed.success) {
+    return emitError(socket, 'VALIDATION_ERROR', parsed.error.message);
+  }
+
+  const ctx    = getBoardContext(socket);
+  const result = await moveColumn(ctx, parsed.data);
+
+  if (!result.ok) {
+    return emitError(socket, result.code, result.message);
+  }
+
+  io.to(boardRoom(ctx.boardId)).emit('COLUMN_MOVED', result.data);
+}
+
+/**
+ * COLUMN_DELETE
+ * Archives a column. Tasks still in it must go somewhere:
+ *   - empty column            → archived straight away
+ *   - non-empty, no target    → COLUMN_NOT_EMPTY error, nothing changes
+ *   - non-empty, with target  → tasks appended to the bottom of the target
+ *                               column (relative order kept), then archived
+ *
+ * Broadcasts one COLUMN_DELETED { id, movedTasks } so clients apply the
+ * archive and every relocation together. If the archive fails after the
+ * tasks were relocated, the relocation is still broadcast, as a
+ * TASK_BATCH_APPLIED, before the error goes to the sender.
+ */
+export async function handleColumnDelete(
+  socket: Socket,
+  io:     Server,
+  raw:    unknown,
+): Promise<void> {
+  const parsed = DeleteColumnPayloadSchema.safeParse(raw);
+  if (!parsed.success) {
+    return emitError(socket, 'VALIDATION_ERROR', parsed.error.message);
+  }
+
+  const { id, targetColumnId } = parsed.data;
+  const ctx    = getBoardContext(socket);
+  const column = await getColumn(ctx.boardId, id);
+
+  if (!column || column.archivedAt) {
+    return emitError(socket, 'NOT_FOUND', `Column ${id} not found`);
+  }
+
+  const hasTasks = (await getAllTasks(ctx.boardId)).some((t) => t.columnId === id);
+  let movedTasks: Task[] = [];
+
+  if (hasTasks) {
+    if (!targetColumnId) {
+      return emitError(socket, 'COLUMN_NOT_EMPTY', 'Choose a column to move this column\'s tasks to before deleting it');
+    }
+
+    const relocated = await relocateColumnTasks(ctx, id, targetColumnId);
+    if (!relocated.ok) {
+      return emitError(socket, relocated.code, relocated.message);
+    }
+    movedTasks = relocated.data;
+  }
+
+  const result = await archiveColumn(ctx, id);
+  if (!result.ok) {
+    if (movedTasks.length > 0) {
+      io.to(boardRoom(ctx.boardId)).emit('TASK_BATCH_APPLIED', { tasks: movedTasks, deletedIds: [] } satisfies TaskBatchResult);
+    }
+    return emitError(socket, result.code, result.message);
+  }
+
+  io.to(boardRoom(ctx.boardId)).emit('COLUMN_DELETED', { id, movedTasks });
+}
@@ -0,0 +1,107 @@
+/**
+ * ws/handlers/comment.handler.ts
+ *
+ * One exported function per task comment event.
+ * Same rules as task.handler.ts:
+ *   - First line of every handler: validate payload with Zod schema.
+ *   - Delegate all business logic to commentService / taskService.
+ *   - Broadcast the result to the board room only.
+ */
+import type { Socket, Server } from 'socket.io';
+import {
+  CreateCommentPayloadSchema,
+  UpdateCommentPayloadSchema,
+  DeleteCommentPayloadSchema,
+} from '../../validation/commentSchema';
+import { createComment, updateComment, deleteComment } from '../../services/commentService';
+import { getTaskById } from '../../services/taskService';
+import { getRole } from '../../services/memberService';
+import { can } from '../../lib/permissions';
+import { boardRoom, getBoardContext } from '../socketContext';
+
+// ── Helper — emit a typed error back to the calling socket ────────────────────
+
+function emitError(socket: Socket, code: string, message: string): void {
+  socket.emit('ERROR', { code, message });
+}
+
+// ── Handlers ──────────────────────────────────────────────────────────────────
+
+/**
+ * COMMENT_CREATE
+ * Adds a comment to a live task of the board and broadcasts COMMENT_CREATED.
+ */
+export async function handleCommentCreate(
+  socket: Socket,
+  io:     Server,
+  raw:    unknown,
+): Promise<void> {
+  const parsed = CreateCommentPayloadSchema.safeParse(raw);
+  if (!parsed.success) {
+    return emitError(socket, 'VALIDATION_ERROR', parsed.error.message);
+  }
+
+  const ctx  = getBoardContext(socket);
+  const task = await getTaskById(parsed.data.taskId);
+  if (!task || task.boardId !== ctx.boardId) {
+    return emitError(socket, 'NOT_FOUND', `Task ${parsed.data.taskId} not found`);
+  }
+
+  const result = await createComment(ctx, parsed.data);
+
+  if (!result.ok) {
+    return emitError(socket, result.code, result.message);
+  }
+
+  io.to(boardRoom(ctx.boardId)).emit('COMMENT_CREATED', result.data);
+}
+
+/**
+ * COMMENT_UPDATE
+ * The author edits their comment. Broadcasts COMMENT_UPDATED.
+ */
+export async function handleCommentUpdate(
+  socket: Socket,
+  io:     Server,
+  raw:    unknown,
+): Promise<void> {
+  const parsed = UpdateCommentPayloadSchema.safeParse(raw);
+  if (!parsed.success) {
+    return emitError(socket, 'VALIDATION_ERROR', parsed.error.message);
+  }
+
+  const ctx    = getBoardContext(socket);
+  const result = await updateComment(ctx, parsed.data);
+
+  if (!result.ok) {
+    return emitError(socket, result.code, result.message);
+  }
+
+  io.to(boardRoom(ctx.boardId)).emit('COMMENT_UPDATED', result.data);
+}
+
+/**
+ * COMMENT_DELETE
+ * Removes a comment (its author, or an admin). Broadcasts
+ * COMMENT_DELETED { id, taskId } so clients can adjust the card's count.
+ */
+export async function handleCommentDelete(
+  socket: Socket,
+  io:     Server,
+  raw:    unknown,
+): Promise<void> {
+  const parsed = DeleteCommentPayloadSchema.safeParse(raw);
+  if (!parsed.success) {
+    return emitError(socket, 'VALIDATION_ERROR', parsed.error.message);
+  }
+
+  const ctx         = getBoardContext(socket);
+  const canModerate = can(await getRole(ctx.boardId, ctx.user.id), 'comment:moderate');
+  const result      = await deleteComment(ctx, parsed.data, canModerate);
+
+  if (!result.ok) {
+    return emitError(socket, result.code, result.message);
+  }
+
+  io.to(boardRoom(ctx.boardId)).emit('COMMENT_DELETED', result.data);
+}
@@ -0,0 +1,111 @@
+/**
+ * ws/handlers/label.handler.ts
+ *
+ * One exported function per label catalog event.
+ * Same rules as task.handler.ts:
+ *   - First line of every handler: validate payload with Zod schema.
+ *   - Delegate all business logic to labelService / taskService.
+ *   - Broadcast the result to the board room only.
+ */
+import type { Socket, Server } from 'socket.io';
+import {
+  CreateLabelPayloadSchema,
+  UpdateLabelPayloadSchema,
+  DeleteLabelPayloadSchema,
+} from '../../validation/labelSchema';
+import { createLabel, updateLabel, deleteLabel, getLabel } from '../../services/labelService';
+import { removeLabelFromTasks } from '../../services/taskService';
+import { boardRoom, getBoardContext } from '../socketContext';
+
+// ── Helper — emit a typed error back to the calling socket ────────────────────
+
+function emitError(socket: Socket, code: string, message: string): void {
+  socket.emit('ERROR', { code, message });
+}
+
+// ── Handlers ──────────────────────────────────────────────────────────────────
+
+/**
+ * LABEL_CREATE
+ * Adds a label to the board's catalog and broadcasts LABEL_CREATED.
+ */
+export async function handleLabelCreate(
+  socket: Socket,
+  io:     Server,
+  raw:    unknown,
+): Promise<void> {
+  const parsed = CreateLabelPayloadSchema.safeParse(raw);
+  if (!parsed.success) {
+    return emitError(socket, 'VALIDATION_ERROR', parsed.error.message);
+  }
+
+  const ctx    = getBoardContext(socket);
+  const result = await createLabel(ctx, parsed.data);
+
+  if (!result.ok) {
+    return emitError(socket, result.code, result.message);
+  }
+
+  io.to(boardRoom(ctx.boardId)).emit('LABEL_CREATED', result.data);
+}
+
+/**
+ * LABEL_UPDATE
+ * Rename / recolor. Tasks reference labels by id, so they are untouched.
+ * Broadcasts LABEL_UPDATED.
+ */
+export async function handleLabelUpdate(
+  socket: Socket,
+  io:     Server,
+  raw:    unknown,
+): Promise<void> {
+  const parsed = UpdateLabelPayloadSchema.safeParse(raw);
+  if (!parsed.success) {
+    return emitError(socket, 'VALIDATION_ERROR', parsed.error.message);
+  }
+
+  const ctx    = getBoardContext(socket);
+  const result = await updateLabel(ctx, parsed.data);
+
+  if (!result.ok) {
+    return emitError(socket, result.code, result.message);
+  }
+
+  io.to(boardRoom(ctx.boardId)).emit('LABEL_UPDATED', result.data);
+}
+
+/**
+ * LABEL_DELETE
+ * Strips the label from every task carrying it, then removes it from the
+ * catalog. Broadcasts one LABEL_DELETED { id, updatedTasks } so clients
+ * apply the removal and every task change together.
+ */
+export async function handleLabelDelete(
+  socket: Socket,
+  io:     Server,
+  raw:    unknown,
+): Promise<void> {
+  const parsed = DeleteLabelPayloadSchema.safeParse(raw);
+  if (!parsed.success) {
+    return emitError(socket, 'VALIDATION_ERROR', parsed.error.message);
+  }
+
+  const { id } = parsed.data;
+  const ctx    = getBoardContext(socket);
+
+  if (!(await getLabel(ctx.boardId, id))) {
+    return emitError(socket, 'NOT_FOUND', `Label ${id} not found`);
+  }
+
+  const stripped = await removeLabelFromTasks(ctx, id);
+  if (!stripped.ok) {
+    return emitError(socket, stripped.code, stripped.message);
+  }
+
+  const result = await deleteLabel(ctx, id);
+  if (!result.ok) {
+    return emitError(socket, result.code, result.message);
+  }
+
+  io.to(boardRoom(ctx.boardId)).emit('LABEL_DELETED', { id, updatedTasks: stripped.data });
+}
@@ -3,7 +3,7 @@
  *
  * Presence-related WebSocket handlers.
  * Responsible for:
- *   - onConnect:  register presence, emit BOARD_SNAPSHOT
+ *   - onConnect:  join the board room, register presence, emit BOARD_SNAPSHOT
  *   - onDisconnect: remove presence, broadcast updated PRESENCE_STATE
  *   - handlePresenceUpdate: update editing status, broadcast PRESENCE_STATE
  */
@@ -16,6 +16,12 @@ import {
   getAllPresences,
 } from '../../services/presenceService';
 import { getAllTasks } from '../../services/taskService';
+import { getBoard } from '../../services/boardService';
+import { getColumns } from '../../services/columnService';
+import { getLabels } from '../../services/labelService';
+import { getRole } from '../../services/memberService';
+import { getCommentCounts } from '../../services/commentService';
+import { boardRoom, getBoardContext } from '../socketContext';
 
 // ── Helper ────────────────────────────────────────────────────────────────────
 
@@ -26,34 +32,41 @@ function emitError(socket: Socket, code: string, message: string): void {
 // ── Connect ───────────────────────────────────────────────────────────────────
 
 /**
- * Called when a new socket connects.
+ * Called when a new socket connects. The handshake middleware has already
+ * resolved which board the socket belongs to (socket.data.boardId).
  *
- * 1. Register the user's presence in Redis.
- * 2. Send BOARD_SNAPSHOT (all tasks + all presences) to the new client only.
- * 3. Broadcast updated PRESENCE_STATE to all other clients.
+ * 1. Join the board's room and register the user's presence in Redis.
+ * 2. Send BOARD_SNAPSHOT (board + the user's role + columns + labels + tasks
+ *    + presences + comment counts per task) to the new client only.
+ * 3. Broadcast updated PRESENCE_STATE to all other clients in the room.
  *
- * The displayName is either provided as a socket handshake auth param
- * (socket.handshake.auth.displayName) or falls back to "User <shortId>".
+ * Identity comes from the session token checked by ws/middleware.authenticate
+ * — the client cannot choose its own userId or displayName.
  */
 export async function onConnect(socket: Socket, io: Server): Promise<void> {
-  const displayName =
-    (socket.handshake.auth as Record<string, unknown>)?.displayName as string | undefined
-    ?? `User ${socket.id.slice(0, 6)}`;
+  const { boardId, user } = getBoardContext(socket);
 
   try {
-    const presence = await addPresence(socket.id, displayName);
-    const [tasks, presences] = await Promise.all([
-      getAllTasks(),
-      getAllPresences(),
+    await socket.join(boardRoom(boardId));
+
+    const presence = await addPresence(socket.id, boardId, user);
+    const [board, role, columns, labels, tasks, presences, commentCounts] = await Promise.all([
+      getBoard(boardId),
+      getRole(boardId, user.id),
+      getColumns(boardId),
+      getLabels(boardId),
+      getAllTasks(boardId),
+      getAllPresences(boardId),
+      getCommentCounts(boardId),
     ]);
 
     // Send full board state only to this client
-    socket.emit('BOARD_SNAPSHOT', { tasks, presence: presences });
+    socket.emit('BOARD_SNAPSHOT', { board, role, columns, labels, tasks, presence: presences, commentCounts });
 
-    // Broadcast updated presence list to all OTHER clients
-    socket.broadcast.emit('PRESENCE_STATE', presences);
+    // Broadcast updated presence list to all OTHER clients on this board
+    socket.to(boardRoom(boardId)).emit('PRESENCE_STATE', presences);
 
-    console.log(`[WS] ${displayName} connected (${socket.id}) — colour ${presence.color}`);
+    console.log(`[WS] ${user.displayName} (${user.id}) joined board ${boardId} (${socket.id}) — colour ${presence.color}`);
   } catch (err) {
     console.error('[presence.handler.onConnect]', err);
     emitError(socket, 'CONNECT_FAILED', 'Failed to initialise board state');
@@ -71,10 +84,12 @@ export async function onDisconnect(
   io:     Server,
   reason: string,
 ): Promise<void> {
+  const { boardId } = getBoardContext(socket);
+
   try {
-    await removePresence(socket.id);
-    const presences = await getAllPresences();
-    io.emit('PRESENCE_STATE', presences);
+    await removePresence(socket.id, boardId);
+    const presences = await getAllPresences(boardId);
+    io.to(boardRoom(boardId)).emit('PRESENCE_STATE', presences);
 
     console.log(`[WS] ${socket.id} disconnected — reason: ${reason}`);
   } catch (err) {
@@ -87,7 +102,7 @@ export async function onDisconnect(
 /**
  * PRESENCE_UPDATE
  * Client signals it is editing or has finished editing a task.
- * Updates Redis and broadcasts the new PRESENCE_STATE to all clients.
+ * Updates Redis and broadcasts the new PRESENCE_STATE to the board room.
  */
 export async function handlePresenceUpdate(
   socket: Socket,
@@ -100,11 +115,12 @@ export async function handlePresenceUpdate(
   }
 
   const { status, taskId } = parsed.data;
+  const { boardId } = getBoardContext(socket);
 
   try {
     await updatePresenceStatus(socket.id, status, taskId);
-    const presences = await getAllPresences();
-    io.emit('PRESENCE_STATE', presences);
+    const presences = await getAllPresences(boardId);
+    io.to(boardRoom(boardId)).emit('PRESENCE_STATE', presences);
   } catch (err) {
     console.error('[presence.handler.handlePresenceUpdate]', err);
     emitError(socket, 'PRESENCE_UPDATE_FAILED', String(err));
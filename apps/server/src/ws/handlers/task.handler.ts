@@ -13,6 +13,9 @@ import {
   UpdateTaskPayloadSchema,
   MoveTaskPayloadSchema,
   DeleteTaskPayloadSchema,
+  RestoreTaskPayloadSchema,
+  TaskTextEditPayloadSchema,
+  TaskBatchPayloadSchema,
   ReplayOpsPayloadSchema,
   type QueuedOp,
 } from '../../validation/taskSchema';
@@ -21,13 +24,47 @@ import {
   updateTask,
   moveTask,
   deleteTask,
+  restoreTask,
+  applyTextEdit,
+  applyTaskBatch,
+  getAllTasks,
+  getTaskById,
+  getOpenBlockers,
+  type Task,
 } from '../../services/taskService';
 import {
   acquireMoveLock,
   releaseMoveLock,
+  acquireMoveLocks,
+  releaseMoveLocks,
   buildConflictPayload,
+  type ConflictNotifyPayload,
 } from '../../services/conflictService';
 import { logConflict } from '../../services/auditService';
+import {
+  handleColumnCreate,
+  handleColumnUpdate,
+  handleColumnMove,
+  handleColumnDelete,
+} from './column.handler';
+import {
+  handleChecklistItemAdd,
+  handleChecklistItemUpdate,
+  handleChecklistItemMove,
+  handleChecklistItemDelete,
+} from './checklist.handler';
+import {
+  handleCommentCreate,
+  handleCommentUpdate,
+  handleCommentDelete,
+} from './comment.handler';
+import {
+  handleLabelCreate,
+  handleLabelUpdate,
+  handleLabelDelete,
+} from './label.handler';
+import { boardRoom, getBoardContext } from '../socketContext';
+import { authorized } from '../authorize';
 
 // ── Helper — emit a typed error back to the calling socket ────────────────────
 
@@ -35,11 +72,26 @@ function emitError(socket: Socket, code: string, message: string): void {
   socket.emit('ERROR', { code, message });
 }
 
+/** Refusals that roll the sender's optimistic change back (CONFLICT_NOTIFY). */
+const ROLLBACK_CODES = new Set(['DEPENDENCY_CYCLE', 'INVALID_DEPENDENCY', 'TASK_BLOCKED', 'WIP_LIMIT_EXCEEDED', 'COLUMN_BUSY']);
+
+function emitRollback(socket: Socket, current: Task | null, message: string): void {
+  if (!current) return;
+  socket.emit('CONFLICT_NOTIFY', {
+    taskId:        current.id,
+    resolvedState: current,
+    message,
+  } satisfies ConflictNotifyPayload);
+}
+
 // ── Handlers ──────────────────────────────────────────────────────────────────
 
 /**
  * TASK_CREATE
  * Creates a new task and broadcasts TASK_CREATED to the whole board room.
+ * A create refused for a rollback code (a column at its WIP limit, a bad
+ * blocker) sends the sender TASK_CREATE_REJECTED, withdrawing their
+ * optimistic card.
  */
 export async function handleTaskCreate(
   socket: Socket,
@@ -51,19 +103,24 @@ export async function handleTaskCreate(
     return emitError(socket, 'VALIDATION_ERROR', parsed.error.message);
   }
 
-  const result = await createTask(parsed.data);
+  const ctx    = getBoardContext(socket);
+  const result = await createTask(ctx, parsed.data);
 
   if (!result.ok) {
+    if (ROLLBACK_CODES.has(result.code)) {
+      socket.emit('TASK_CREATE_REJECTED', { id: parsed.data.id, message: result.message });
+      return;
+    }
     return emitError(socket, result.code, result.message);
   }
 
-  io.emit('TASK_CREATED', result.data);
+  io.to(boardRoom(ctx.boardId)).emit('TASK_CREATED', result.data);
 }
 
 /**
  * TASK_UPDATE
  * Updates content fields (title / description).
- * Broadcasts TASK_UPDATED to all clients.
+ * Broadcasts TASK_UPDATED to the board room.
  *
  * Implements DESIGN.md Rule 1 (field-level merge) via the service —
  * position fields are untouched.
@@ -78,16 +135,20 @@ export async function handleTaskUpdate(
     return emitError(socket, 'VALIDATION_ERROR', parsed.error.message);
   }
 
-  const result = await updateTask(parsed.data);
+  const ctx    = getBoardContext(socket);
+  const result = await updateTask(ctx, parsed.data);
 
   if (!result.ok) {
     if (result.code === 'VERSION_MISMATCH') {
       return emitError(socket, 'VERSION_MISMATCH', result.message);
     }
+    if (ROLLBACK_CODES.has(result.code)) {
+      return emitRollback(socket, await getTaskById(parsed.data.id), result.message);
+    }
     return emitError(socket, result.code, result.message);
   }
 
-  io.emit('TASK_UPDATED', result.data);
+  io.to(boardRoom(ctx.boardId)).emit('TASK_UPDATED', result.data);
 }
 
 /**
@@ -98,6 +159,11 @@ export async function handleTaskUpdate(
  *   1. Acquire Redis mutex on task:{id}:lock
  *   2. If lock fails → emit CONFLICT_NOTIFY to the losing client
  *   3. If lock succeeds → apply move, broadcast TASK_MOVED, release lock
+ *
+ * A move into a done column refused for open blockers (TASK_BLOCKED), or
+ * into a column at its WIP limit (WIP_LIMIT_EXCEEDED), or while the task is
+ * being edited (TEXT_BUSY), rolls the sender back; an allowed one into a
+ * done column sends them TASK_BLOCKED_WARNING.
  */
 export async function handleTaskMove(
   socket: Socket,
@@ -110,10 +176,11 @@ export async function handleTaskMove(
   }
 
   const payload = parsed.data;
+  const ctx     = getBoardContext(socket);
 
   // Fetch current task state (needed both for the mutex and for CONFLICT_NOTIFY)
   const { getAllTasks } = await import('../../services/taskService');
-  const allTasks = await getAllTasks();
+  const allTasks = await getAllTasks(ctx.boardId);
   const current  = allTasks.find((t) => t.id === payload.id);
 
   if (!current) {
@@ -121,7 +188,7 @@ export async function handleTaskMove(
   }
 
   // ── Acquire per-task move lock (Rule 2) ──────────────────────────────────
-  const lockResult = await acquireMoveLock(payload.id, current);
+  const lockResult = await acquireMoveLock(payload.id, current, ctx.user.id);
 
   if (!lockResult.acquired) {
     // This client lost the race — send CONFLICT_NOTIFY only to them
@@ -137,8 +204,8 @@ export async function handleTaskMove(
       taskId:        payload.id,
       winnerEvent:   'TASK_MOVE',
       loserEvent:    'TASK_MOVE',
-      winnerUserId:  'server', // mutex holder — no userId in v1
-      loserUserId:   socket.id,
+      winnerUserId:  lockResult.holderUserId ?? 'unknown',
+      loserUserId:   ctx.user.id,
       resolvedState: lockResult.resolvedState!,
       resolutionMsg: conflictPayload.message,
     });
@@ -146,22 +213,40 @@ export async function handleTaskMove(
   }
 
   try {
-    const result = await moveTask(payload);
+    const result = await moveTask(ctx, payload);
 
     if (!result.ok) {
+      if (ROLLBACK_CODES.has(result.code) || result.code === 'TEXT_BUSY') {
+        return emitRollback(socket, current, result.message);
+      }
       return emitError(socket, result.code, result.message);
     }
 
-    io.emit('TASK_MOVED', result.data);
+    io.to(boardRoom(ctx.boardId)).emit('TASK_MOVED', result.data);
+
+    // Finished while a blocker isn't (BLOCKED_DONE_POLICY=warn) — tell the mover
+    if (current.columnId !== result.data.columnId) {
+      const blockers = await getOpenBlockers(ctx.boardId, result.data);
+      if (blockers.length > 0) {
+        socket.emit('TASK_BLOCKED_WARNING', {
+          taskId:   result.data.id,
+          title:    result.data.title,
+          blockers: blockers.map((t) => ({ id: t.id, title: t.title })),
+        });
+      }
+    }
   } finally {
     // Always release the lock — even on error
-    await releaseMoveLock(payload.id);
+    await releaseMoveLock(payload.id, ctx.user.id);
   }
 }
 
 /**
  * TASK_DELETE
- * Deletes a task and broadcasts TASK_DELETED to all clients.
+ * Moves a task to the trash and broadcasts TASK_DELETED to the board room.
+ * The tasks it was blocking keep their link, for TASK_RESTORE. A delete
+ * refused while the task is being edited (TEXT_BUSY) rolls the sender back
+ * to the task, returning the card they removed.
  */
 export async function handleTaskDelete(
   socket: Socket,
@@ -173,13 +258,159 @@ export async function handleTaskDelete(
     return emitError(socket, 'VALIDATION_ERROR', parsed.error.message);
   }
 
-  const result = await deleteTask(parsed.data);
+  const ctx    = getBoardContext(socket);
+  const result = await deleteTask(ctx, parsed.data);
 
   if (!result.ok) {
+    if (result.code === 'TEXT_BUSY') {
+      return emitRollback(socket, await getTaskById(parsed.data.id), result.message);
+    }
     return emitError(socket, result.code, result.message);
   }
 
-  io.emit('TASK_DELETED', { id: result.data.id });
+  io.to(boardRoom(ctx.boardId)).emit('TASK_DELETED', { id: result.data.id });
+}
+
+/**
+ * TASK_RESTORE
+ * Returns a task from the trash to its original column and order.
+ * Broadcasts TASK_RESTORED (the full task) to the board room. A restore
+ * refused for a rollback code (its column is at its WIP limit) sends the
+ * sender TASK_CREATE_REJECTED, withdrawing the card their undo put back.
+ */
+export async function handleTaskRestore(
+  socket: Socket,
+  io:     Server,
+  raw:    unknown,
+): Promise<void> {
+  const parsed = RestoreTaskPayloadSchema.safeParse(raw);
+  if (!parsed.success) {
+    return emitError(socket, 'VALIDATION_ERROR', parsed.error.message);
+  }
+
+  const ctx    = getBoardContext(socket);
+  const result = await restoreTask(ctx, parsed.data);
+
+  if (!result.ok) {
+    if (ROLLBACK_CODES.has(result.code)) {
+      socket.emit('TASK_CREATE_REJECTED', { id: parsed.data.id, message: result.message });
+      return;
+    }
+    return emitError(socket, result.code, result.message);
+  }
+
+  io.to(boardRoom(ctx.boardId)).emit('TASK_RESTORED', result.data);
+}
+
+/**
+ * TASK_TEXT_EDIT
+ * Applies one collaborative op to a task's title or description and
+ * broadcasts TASK_TEXT_EDITED — the merged task plus the op as applied, so
+ * editing clients can transform it against their pending keystrokes. The
+ * sender recognises its own op by `opId` and treats it as the ack.
+ *
+ * When the op can't be applied the sender gets ERROR followed by
+ * TASK_TEXT_RESYNC with the current task, and restarts from that text.
+ */
+export async function handleTaskTextEdit(
+  socket: Socket,
+  io:     Server,
+  raw:    unknown,
+): Promise<void> {
+  const parsed = TaskTextEditPayloadSchema.safeParse(raw);
+  if (!parsed.success) {
+    return emitError(socket, 'VALIDATION_ERROR', parsed.error.message);
+  }
+
+  const ctx    = getBoardContext(socket);
+  const result = await applyTextEdit(ctx, parsed.data);
+
+  if (!result.ok) {
+    emitError(socket, result.code, result.message);
+    const current = await getTaskById(parsed.data.id);
+    if (current && current.boardId === ctx.boardId) socket.emit('TASK_TEXT_RESYNC', current);
+    return;
+  }
+
+  io.to(boardRoom(ctx.boardId)).emit('TASK_TEXT_EDITED', {
+    ...result.data,
+    opId: parsed.data.opId,
+  });
+}
+
+/**
+ * TASK_BATCH
+ * Applies many moves / edits / deletes at once (multi-select drags, bulk
+ * actions) and broadcasts a single TASK_BATCH_APPLIED — the changed tasks
+ * and the deleted ids — so clients take it in in one store update.
+ *
+ * Holds the move locks of every task in the batch (Rule 2, taken all or
+ * nothing). When any lock is taken, or any op is refused, nothing changes
+ * and the sender alone gets TASK_BATCH_REJECTED with the current state of
+ * the batch's tasks to roll back to.
+ */
+export async function handleTaskBatch(
+  socket: Socket,
+  io:     Server,
+  raw:    unknown,
+): Promise<void> {
+  const parsed = TaskBatchPayloadSchema.safeParse(raw);
+  if (!parsed.success) {
+    return emitError(socket, 'VALIDATION_ERROR', parsed.error.message);
+  }
+
+  const { ops } = parsed.data;
+  const ctx     = getBoardContext(socket);
+
+  const ids      = new Set(ops.map((op) => op.payload.id));
+  const allTasks = await getAllTasks(ctx.boardId);
+  const current  = allTasks.filter((t) => ids.has(t.id));
+
+  const reject = (message: string): void => {
+    socket.emit('TASK_BATCH_REJECTED', { tasks: current, message });
+  };
+
+  const lockResult = await acquireMoveLocks(current, ctx.user.id);
+
+  if (!lockResult.acquired) {
+    const contested = lockResult.resolvedState!;
+    const message   = `Another user moved "${contested.title}" first. None of your changes were applied.`;
+    reject(message);
+
+    void logConflict({
+      taskId:        contested.id,
+      winnerEvent:   'TASK_MOVE',
+      loserEvent:    'TASK_BATCH',
+      winnerUserId:  lockResult.holderUserId ?? 'unknown',
+      loserUserId:   ctx.user.id,
+      resolvedState: contested,
+      resolutionMsg: message,
+    });
+    return;
+  }
+
+  try {
+    const result = await applyTaskBatch(ctx, ops);
+
+    if (!result.ok) return reject(result.message);
+
+    io.to(boardRoom(ctx.boardId)).emit('TASK_BATCH_APPLIED', result.data);
+
+    // Same warning as TASK_MOVE for each task finished while a blocker isn't
+    for (const task of result.data.tasks) {
+      if (current.find((t) => t.id === task.id)?.columnId === task.columnId) continue;
+      const blockers = await getOpenBlockers(ctx.boardId, task);
+      if (blockers.length > 0) {
+        socket.emit('TASK_BLOCKED_WARNING', {
+          taskId:   task.id,
+          title:    task.title,
+          blockers: blockers.map((t) => ({ id: t.id, title: t.title })),
+        });
+      }
+    }
+  } finally {
+    await releaseMoveLocks(current.map((t) => t.id), ctx.user.id);
+  }
 }
 
 /**
@@ -187,6 +418,10 @@ export async function handleTaskDelete(
  * Replays queued offline operations in client-timestamp order.
  * Each op is validated again and processed through the normal handler chain
  * so conflict resolution applies exactly as it does for live ops.
+ *
+ * The router only authorized REPLAY_OPS itself (task:edit); every queued op
+ * goes through the same authorization layer, so e.g. an editor can't smuggle
+ * COLUMN_* ops in through the queue.
  */
 export async function handleReplayOps(
   socket: Socket,
@@ -204,22 +439,78 @@ export async function handleReplayOps(
   );
 
   for (const op of ops) {
-    switch (op.type) {
-      case 'TASK_CREATE':
-        await handleTaskCreate(socket, io, op.payload);
-        break;
-      case 'TASK_UPDATE':
-        await handleTaskUpdate(socket, io, op.payload);
-        break;
-      case 'TASK_MOVE':
-        await handleTaskMove(socket, io, op.payload);
-        break;
-      case 'TASK_DELETE':
-        await handleTaskDelete(socket, io, op.payload);
-        break;
-      case 'PRESENCE_UPDATE':
-        // Presence ops during offline are dropped — stale presence is meaningless
-        break;
-    }
+    await authorized(socket, op.type, () => replayOp(socket, io, op));
+  }
+}
+
+/** Dispatch one already-authorized queued op to its live handler. */
+async function replayOp(socket: Socket, io: Server, op: QueuedOp): Promise<void> {
+  switch (op.type) {
+    case 'TASK_CREATE':
+      await handleTaskCreate(socket, io, op.payload);
+      break;
+    case 'TASK_UPDATE':
+      await handleTaskUpdate(socket, io, op.payload);
+      break;
+    case 'TASK_MOVE':
+      await handleTaskMove(socket, io, op.payload);
+      break;
+    case 'TASK_DELETE':
+      await handleTaskDelete(socket, io, op.payload);
+      break;
+    case 'TASK_RESTORE':
+      await handleTaskRestore(socket, io, op.payload);
+      break;
+    case 'TASK_TEXT_EDIT':
+      await handleTaskTextEdit(socket, io, op.payload);
+      break;
+    case 'TASK_BATCH':
+      await handleTaskBatch(socket, io, op.payload);
+      break;
+    case 'COLUMN_CREATE':
+      await handleColumnCreate(socket, io, op.payload);
+      break;
+    case 'COLUMN_UPDATE':
+      await handleColumnUpdate(socket, io, op.payload);
+      break;
+    case 'COLUMN_MOVE':
+      await handleColumnMove(socket, io, op.payload);
+      break;
+    case 'COLUMN_DELETE':
+      await handleColumnDelete(socket, io, op.payload);
+      break;
+    case 'CHECKLIST_ITEM_ADD':
+      await handleChecklistItemAdd(socket, io, op.payload);
+      break;
+    case 'CHECKLIST_ITEM_UPDATE':
+      await handleChecklistItemUpdate(socket, io, op.payload);
+      break;
+    case 'CHECKLIST_ITEM_MOVE':
+      await handleChecklistItemMove(socket, io, op.payload);
+      break;
+    case 'CHECKLIST_ITEM_DELETE':
+      await handleChecklistItemDelete(socket, io, op.payload);
+      break;
+    case 'COMMENT_CREATE':
+      await handleCommentCreate(socket, io, op.payload);
+      break;
+    case 'COMMENT_UPDATE':
+      await handleCommentUpdate(socket, io, op.payload);
+      break;
+    case 'COMMENT_DELETE':
+      await handleCommentDelete(socket, io, op.payload);
+      break;
+    case 'LABEL_CREATE':
+      await handleLabelCreate(socket, io, op.payload);
+      break;
+    case 'LABEL_UPDATE':
+      await handleLabelUpdate(socket, io, op.payload);
+      break;
+    case 'LABEL_DELETE':
+      await handleLabelDelete(socket, io, op.payload);
+      break;
+    case 'PRESENCE_UPDATE':
+      // Presence ops during offline are dropped — stale presence is meaningless
+      break;
   }
 }
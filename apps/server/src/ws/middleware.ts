@@ -0,0 +1,74 @@
+/**
+ * ws/middleware.ts
+ *
+ * Socket.IO handshake middleware — runs once per connection, BEFORE the
+ * 'connection' event fires, so `socket.data` is fully populated by the
+ * time any handler sees an event.
+ *
+ * Register in server.ts, in this order:
+ *   io.use(authenticate);
+ *   io.use(resolveBoard);
+ */
+import type { Socket } from 'socket.io';
+import { BoardHandshakeSchema } from '../validation/boardSchema';
+import { AuthHandshakeSchema } from '../validation/authSchema';
+import { getBoard } from '../services/boardService';
+import { authenticateToken } from '../services/authService';
+import { getRole } from '../services/memberService';
+import type { SocketData } from './socketContext';
+
+type NextFn = (err?: Error) => void;
+
+/**
+ * Validate `handshake.auth.token` and load the user it was issued to.
+ * Rejects with AUTH_REQUIRED / AUTH_INVALID so the client can send the
+ * user back to the login screen.
+ */
+export async function authenticate(socket: Socket, next: NextFn): Promise<void> {
+  const parsed = AuthHandshakeSchema.safeParse(socket.handshake.auth);
+  if (!parsed.success) {
+    return next(new Error('AUTH_REQUIRED'));
+  }
+
+  try {
+    const user = await authenticateToken(parsed.data.token);
+    if (!user) return next(new Error('AUTH_INVALID'));
+
+    (socket.data as SocketData).user = {
+      id:          user.id,
+      displayName: user.displayName,
+      color:       user.color,
+    };
+    next();
+  } catch (err) {
+    console.error('[ws.middleware.authenticate]', err);
+    next(new Error('CONNECT_FAILED'));
+  }
+}
+
+/**
+ * Validate `handshake.auth.boardId`, check the board exists and that the
+ * authenticated user is a member of it (any role — viewers may watch).
+ * Rejects the connection with a `connect_error` the client can show.
+ * Must run after `authenticate`.
+ */
+export async function resolveBoard(socket: Socket, next: NextFn): Promise<void> {
+  const parsed = BoardHandshakeSchema.safeParse(socket.handshake.auth);
+  if (!parsed.success) {
+    return next(new Error('BOARD_REQUIRED'));
+  }
+
+  try {
+    const board = await getBoard(parsed.data.boardId);
+    if (!board) return next(new Error('BOARD_NOT_FOUND'));
+
+    const { user } = socket.data as SocketData;
+    if (!(await getRole(board.id, user.id))) return next(new Error('NOT_A_MEMBER'));
+
+    (socket.data as SocketData).boardId = board.id;
+    next();
+  } catch (err) {
+    console.error('[ws.middleware.resolveBoard]', err);
+    next(new Error('CONNECT_FAILED'));
+  }
+}
@@ -11,7 +11,9 @@
  *
  * The router does NOT validate payloads — each handler does that as its
  * first step via Zod safeParse. The router simply maps event names to
- * the correct handler function.
+ * the correct handler function, behind the single authorization layer
+ * (ws/authorize.ts) — a handler only runs if the sender's board role
+ * grants the event.
  */
 import type { Socket, Server } from 'socket.io';
 import {
@@ -19,13 +21,39 @@ import {
   handleTaskUpdate,
   handleTaskMove,
   handleTaskDelete,
+  handleTaskRestore,
+  handleTaskTextEdit,
+  handleTaskBatch,
   handleReplayOps,
 } from './handlers/task.handler';
+import {
+  handleColumnCreate,
+  handleColumnUpdate,
+  handleColumnMove,
+  handleColumnDelete,
+} from './handlers/column.handler';
+import {
+  handleChecklistItemAdd,
+  handleChecklistItemUpdate,
+  handleChecklistItemMove,
+  handleChecklistItemDelete,
+} from './handlers/checklist.handler';
+import {
+  handleCommentCreate,
+  handleCommentUpdate,
+  handleCommentDelete,
+} from './handlers/comment.handler';
+import {
+  handleLabelCreate,
+  handleLabelUpdate,
+  handleLabelDelete,
+} from './handlers/label.handler';
 import {
   onConnect,
   onDisconnect,
   handlePresenceUpdate,
 } from './handlers/presence.handler';
+import { authorized } from './authorize';
 
 /**
  * registerSocketHandlers
@@ -42,29 +70,105 @@ export function registerSocketHandlers(socket: Socket, io: Server): void {
   // ── Task events ─────────────────────────────────────────────────────────────
 
   socket.on('TASK_CREATE', (raw: unknown) => {
-    void handleTaskCreate(socket, io, raw);
+    void authorized(socket, 'TASK_CREATE', () => handleTaskCreate(socket, io, raw));
   });
 
   socket.on('TASK_UPDATE', (raw: unknown) => {
-    void handleTaskUpdate(socket, io, raw);
+    void authorized(socket, 'TASK_UPDATE', () => handleTaskUpdate(socket, io, raw));
   });
 
   socket.on('TASK_MOVE', (raw: unknown) => {
-    void handleTaskMove(socket, io, raw);
+    void authorized(socket, 'TASK_MOVE', () => handleTaskMove(socket, io, raw));
   });
 
   socket.on('TASK_DELETE', (raw: unknown) => {
-    void handleTaskDelete(socket, io, raw);
+    void authorized(socket, 'TASK_DELETE', () => handleTaskDelete(socket, io, raw));
+  });
+
+  socket.on('TASK_RESTORE', (raw: unknown) => {
+    void authorized(socket, 'TASK_RESTORE', () => handleTaskRestore(socket, io, raw));
+  });
+
+  socket.on('TASK_TEXT_EDIT', (raw: unknown) => {
+    void authorized(socket, 'TASK_TEXT_EDIT', () => handleTaskTextEdit(socket, io, raw));
+  });
+
+  socket.on('TASK_BATCH', (raw: unknown) => {
+    void authorized(socket, 'TASK_BATCH', () => handleTaskBatch(socket, io, raw));
   });
 
   socket.on('REPLAY_OPS', (raw: unknown) => {
-    void handleReplayOps(socket, io, raw);
+    void authorized(socket, 'REPLAY_OPS', () => handleReplayOps(socket, io, raw));
+  });
+
+  // ── Column events ───────────────────────────────────────────────────────────
+
+  socket.on('COLUMN_CREATE', (raw: unknown) => {
+    void authorized(socket, 'COLUMN_CREATE', () => handleColumnCreate(socket, io, raw));
+  });
+
+  socket.on('COLUMN_UPDATE', (raw: unknown) => {
+    void authorized(socket, 'COLUMN_UPDATE', () => handleColumnUpdate(socket, io, raw));
+  });
+
+  socket.on('COLUMN_MOVE', (raw: unknown) => {
+    void authorized(socket, 'COLUMN_MOVE', () => handleColumnMove(socket, io, raw));
+  });
+
+  socket.on('COLUMN_DELETE', (raw: unknown) => {
+    void authorized(socket, 'COLUMN_DELETE', () => handleColumnDelete(socket, io, raw));
+  });
+
+  // ── Checklist events ────────────────────────────────────────────────────────
+
+  socket.on('CHECKLIST_ITEM_ADD', (raw: unknown) => {
+    void authorized(socket, 'CHECKLIST_ITEM_ADD', () => handleChecklistItemAdd(socket, io, raw));
+  });
+
+  socket.on('CHECKLIST_ITEM_UPDATE', (raw: unknown) => {
+    void authorized(socket, 'CHECKLIST_ITEM_UPDATE', () => handleChecklistItemUpdate(socket, io, raw));
+  });
+
+  socket.on('CHECKLIST_ITEM_MOVE', (raw: unknown) => {
+    void authorized(socket, 'CHECKLIST_ITEM_MOVE', () => handleChecklistItemMove(socket, io, raw));
+  });
+
+  socket.on('CHECKLIST_ITEM_DELETE', (raw: unknown) => {
+    void authorized(socket, 'CHECKLIST_ITEM_DELETE', () => handleChecklistItemDelete(socket, io, raw));
+  });
+
+  // ── Comment events ──────────────────────────────────────────────────────────
+
+  socket.on('COMMENT_CREATE', (raw: unknown) => {
+    void authorized(socket, 'COMMENT_CREATE', () => handleCommentCreate(socket, io, raw));
+  });
+
+  socket.on('COMMENT_UPDATE', (raw: unknown) => {
+    void authorized(socket, 'COMMENT_UPDATE', () => handleCommentUpdate(socket, io, raw));
+  });
+
+  socket.on('COMMENT_DELETE', (raw: unknown) => {
+    void authorized(socket, 'COMMENT_DELETE', () => handleCommentDelete(socket, io, raw));
+  });
+
+  // ── Label events ────────────────────────────────────────────────────────────
+
+  socket.on('LABEL_CREATE', (raw: unknown) => {
+    void authorized(socket, 'LABEL_CREATE', () => handleLabelCreate(socket, io, raw));
+  });
+
+  socket.on('LABEL_UPDATE', (raw: unknown) => {
+    void authorized(socket, 'LABEL_UPDATE', () => handleLabelUpdate(socket, io, raw));
+  });
+
+  socket.on('LABEL_DELETE', (raw: unknown) => {
+    void authorized(socket, 'LABEL_DELETE', () => handleLabelDelete(socket, io, raw));
   });
 
   // ── Presence events ─────────────────────────────────────────────────────────
 
   socket.on('PRESENCE_UPDATE', (raw: unknown) => {
-    void handlePresenceUpdate(socket, io, raw);
+    void authorized(socket, 'PRESENCE_UPDATE', () => handlePresenceUpdate(socket, io, raw));
   });
 
   // ── Disconnect lifecycle ────────────────────────────────────────────────────
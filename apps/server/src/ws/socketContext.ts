@@ -0,0 +1,39 @@
+/**
+ * ws/socketContext.ts
+ *
+ * Per-connection state stored on `socket.data` by the handshake middleware,
+ * plus the room naming helper. Handlers read the board and the user from
+ * here — never from the event payload — so a socket can only touch the board
+ * it joined, and only as the user whose token it presented.
+ */
+import type { Socket, Server, RemoteSocket, DefaultEventsMap } from 'socket.io';
+import type { BoardContext } from '../services/taskService';
+import type { AuthUser } from '../services/authService';
+
+/** Shape of `socket.data` once the handshake middleware has run. */
+export interface SocketData {
+  user:    AuthUser;
+  boardId: string;
+}
+
+/** Socket.IO room that every socket viewing `boardId` joins. */
+export function boardRoom(boardId: string): string {
+  return `board:${boardId}`;
+}
+
+/** Every socket `userId` has open on `boardId` (a user may have several tabs). */
+export async function userSockets(
+  io:      Server,
+  boardId: string,
+  userId:  string,
+): Promise<Array<RemoteSocket<DefaultEventsMap, SocketData>>> {
+  const sockets = await io.in(boardRoom(boardId)).fetchSockets();
+  return (sockets as Array<RemoteSocket<DefaultEventsMap, SocketData>>)
+    .filter((s) => s.data.user?.id === userId);
+}
+
+/** The board context for service calls made on behalf of this socket. */
+export function getBoardContext(socket: Socket): BoardContext {
+  const data = socket.data as SocketData;
+  return { boardId: data.boardId, user: data.user };
+}
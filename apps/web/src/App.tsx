@@ -2,75 +2,50 @@
  * App.tsx — FlowBoard root component
  *
  * Responsibilities:
- *   1. Mount the WebSocket connection
- *   2. Provide board actions (from useBoard) to KanbanBoard
- *   3. Render the top bar (logo + PresenceBar)
+ *   1. Show the login page until a session exists (authStore)
+ *   2. Render the top bar (logo + signed-in user + BoardPicker + filters +
+ *      export + trash + members + PresenceBar)
+ *   3. Route between the board list ("/") and a board ("/boards/:boardId")
  *   4. Render the Sonner Toaster for conflict notifications
- *   5. Show a loading skeleton until BOARD_SNAPSHOT arrives
+ *
+ * The WebSocket connection lives in BoardPage — one socket per open board.
  */
 import { Toaster } from 'sonner';
-import { useState } from 'react';
-import { useWebSocket } from '@/hooks/useWebSocket';
-import { useBoard }     from '@/hooks/useBoard';
-import { useBoardStore } from '@/store/boardStore';
-import { KanbanBoard }  from '@/components/board/KanbanBoard';
+import { Routes, Route, Navigate, useParams } from 'react-router-dom';
+import { BoardsPage }   from '@/pages/BoardsPage';
+import { BoardPage }    from '@/pages/BoardPage';
+import { LoginPage }    from '@/pages/LoginPage';
+import { useAuthStore } from '@/store/authStore';
+import { useLogout }    from '@/hooks/useAuth';
+import { BoardPicker }  from '@/components/board/BoardPicker';
+import { BoardFilters } from '@/components/board/BoardFilters';
+import { MembersMenu }  from '@/components/board/MembersMenu';
+import { BoardCopyMenu } from '@/components/board/BoardCopyMenu';
+import { ImportMenu }   from '@/components/board/ImportMenu';
+import { ExportMenu }   from '@/components/board/ExportMenu';
+import { TrashMenu }    from '@/components/board/TrashMenu';
 import { PresenceBar }  from '@/components/presence/PresenceBar';
+import { useBoardStore } from '@/store/boardStore';
 import '@/index.css';
-import { Grid2X2, Plus } from 'lucide-react';
+import { Grid2X2, LogOut, Plus } from 'lucide-react';
 import { ErrorBoundary } from '@/components/ui/ErrorBoundary';
 
-// ── Board loading skeleton ─────────────────────────────────────────────────────
+// ── Board route — remount the page per board ──────────────────────────────────
 
-function BoardSkeleton() {
-  return (
-    <div className="flex gap-6 p-6 overflow-x-auto flex-1 items-start">
-      {[0, 1, 2].map((i) => (
-        <div key={i} className="w-72 flex-shrink-0">
-          {/* Column header skeleton */}
-          <div className="flex items-center gap-2 mb-3 px-1">
-            <div className="w-2.5 h-2.5 rounded-full bg-[var(--color-border)] animate-pulse" />
-            <div className="h-4 w-24 rounded bg-[var(--color-border)] animate-pulse" />
-          </div>
-          {/* Card skeletons */}
-          <div className="flex flex-col gap-2 rounded-xl p-2 bg-[var(--color-bg-secondary)] min-h-[120px]">
-            {Array.from({ length: i === 0 ? 3 : i === 1 ? 2 : 1 }).map((_, j) => (
-              <div
-                key={j}
-                className="rounded-[var(--radius-card)] p-3 bg-[var(--color-bg-card)] border border-[var(--color-border)]"
-              >
-                <div className="h-3 w-3/4 rounded bg-[var(--color-border)] animate-pulse mb-2" />
-                <div className="h-2 w-1/2 rounded bg-[var(--color-border-strong)] animate-pulse opacity-50" />
-              </div>
-            ))}
-          </div>
-        </div>
-      ))}
-    </div>
-  );
+function BoardRoute({ token }: { token: string }) {
+  const { boardId = '' } = useParams();
+  return <BoardPage key={boardId} boardId={boardId} token={token} />;
 }
 
 // ── App ────────────────────────────────────────────────────────────────────────
 
 function App() {
-  const [displayName, setDisplayName] = useState(() => {
-    return localStorage.getItem('flowboard:displayName') || 'User';
-  });
-
-  const [isEditingName, setIsEditingName] = useState(false);
-  const [nameDraft, setNameDraft] = useState('');
+  const user   = useAuthStore((s) => s.user);
+  const token  = useAuthStore((s) => s.token);
+  const board  = useBoardStore((s) => s.board);
+  const logout = useLogout();
 
-  const { emit } = useWebSocket(displayName);   // Reconnects on name change
-  const board    = useBoard(emit as Parameters<typeof useBoard>[0]);
-  const isLoaded = useBoardStore((s) => s.isLoaded);
-
-  function handleNameSave() {
-    const trimmed = nameDraft.trim();
-    if (trimmed && trimmed !== displayName) {
-      setDisplayName(trimmed);
-      localStorage.setItem('flowboard:displayName', trimmed);
-    }
-    setIsEditingName(false);
-  }
+  if (!user || !token) return <LoginPage />;
 
   return (
     <div
@@ -101,46 +76,45 @@ function App() {
           <div className="h-5 w-px bg-[var(--color-border)]" />
 
           {/* User Greeting */}
-          <div className="flex items-center gap-2" title="Click name to edit">
+          <div className="flex items-center gap-2" title={user.email}>
             {/* Small Avatar */}
-            <div className="w-6 h-6 rounded-full bg-[var(--color-brand-100)] text-[var(--color-brand-700)] flex items-center justify-center ring-1 ring-[var(--color-brand-200)]">
+            <div
+              className="w-6 h-6 rounded-full text-white flex items-center justify-center ring-1 ring-black/5"
+              style={{ backgroundColor: user.color }}
+            >
               <span className="text-[10px] font-bold">
-                {displayName.charAt(0).toUpperCase()}
+                {user.displayName.charAt(0).toUpperCase()}
               </span>
             </div>
 
-            {isEditingName ? (
-              <input
-                autoFocus
-                value={nameDraft}
-                onChange={(e) => setNameDraft(e.target.value)}
-                onBlur={handleNameSave}
-                onKeyDown={(e) => e.key === 'Enter' && handleNameSave()}
-                className="text-sm font-medium text-[var(--color-text-primary)] bg-transparent border-b border-[var(--color-brand-500)] outline-none min-w-[80px] p-0 leading-none"
-              />
-            ) : (
-              <button
-                onClick={() => {
-                  setNameDraft(displayName);
-                  setIsEditingName(true);
-                }}
-                className="text-sm font-medium text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] transition-colors decoration-[var(--color-border-strong)] hover:decoration-[var(--color-text-tertiary)] underline underline-offset-4 decoration-dashed"
-              >
-                Hi, {displayName}
-              </button>
-            )}
+            <span className="text-sm font-medium text-[var(--color-text-secondary)]">
+              Hi, {user.displayName}
+            </span>
+
+            <button
+              onClick={logout}
+              className="p-1 rounded-md text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-secondary)] transition-colors"
+              aria-label="Sign out"
+              title="Sign out"
+            >
+              <LogOut size={14} />
+            </button>
           </div>
         </div>
 
-        {/* Center: Board Title */}
-        <div className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 hidden md:block pointer-events-none select-none">
-          <span className="text-sm font-semibold text-[var(--color-text-secondary)] tracking-tight">
-            Q1 Sprint — Engineering
-          </span>
+        {/* Center: Board picker */}
+        <div className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 hidden md:block select-none">
+          <BoardPicker />
         </div>
 
         {/* Right: PresenceBar + Action */}
         <div className="flex items-center gap-4">
+          {board && <BoardFilters boardId={board.id} />}
+          {board && <BoardCopyMenu boardId={board.id} />}
+          {board && <ImportMenu boardId={board.id} />}
+          {board && <ExportMenu boardId={board.id} />}
+          {board && <TrashMenu boardId={board.id} />}
+          {board && <MembersMenu boardId={board.id} />}
           <PresenceBar />
           
           <button 
@@ -159,16 +133,11 @@ function App() {
       {/* ── Board area ───────────────────────────────────────────────────── */}
       <main className="flex flex-col flex-1 overflow-hidden">
         <ErrorBoundary>
-          {isLoaded ? (
-            <KanbanBoard
-              onCreateTask={board.createTask}
-              onUpdateTask={board.updateTask}
-              onMoveTask={board.moveTask}
-              onDeleteTask={board.deleteTask}
-            />
-          ) : (
-            <BoardSkeleton />
-          )}
+          <Routes>
+            <Route path="/"                element={<BoardsPage />} />
+            <Route path="/boards/:boardId" element={<BoardRoute token={token} />} />
+            <Route path="*"                element={<Navigate to="/" replace />} />
+          </Routes>
         </ErrorBoundary>
       </main>
 
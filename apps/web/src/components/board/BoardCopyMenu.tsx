@@ -0,0 +1,155 @@
+/**
+ * components/board/BoardCopyMenu.tsx
+ *
+ * Top-bar copy menu for the open board (admins only):
+ *   - Duplicate — a new board with the same columns, labels, tasks and
+ *     members, every task under a new id in the same order. Tasks keep their
+ *     creator unless "Keep task creators" is unticked; the copy opens next.
+ *   - Save as template — the columns, labels and cards without people,
+ *     dates or checklist progress, to start new boards from (BoardsPage).
+ */
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Copy } from 'lucide-react';
+import { toast } from 'sonner';
+import { useDuplicateBoard } from '@/hooks/useBoards';
+import { usePermission } from '@/hooks/usePermission';
+import { useSaveTemplate } from '@/hooks/useTemplates';
+import { useBoardStore } from '@/store/boardStore';
+
+const inputClass =
+  'w-full text-sm rounded-md border border-[var(--color-border)] bg-[var(--color-bg-card)] px-2 py-1 text-[var(--color-text-primary)] outline-none focus:border-[var(--color-accent-primary)]';
+
+const checkboxLabelClass = 'flex items-center gap-1.5 text-xs text-[var(--color-text-secondary)]';
+
+const submitClass =
+  'self-end px-2.5 py-1 rounded-md text-xs font-medium text-white bg-[var(--color-brand-600)] hover:bg-[var(--color-brand-700)] disabled:opacity-50';
+
+const sectionTitleClass =
+  'text-[11px] font-semibold uppercase tracking-wide text-[var(--color-text-tertiary)]';
+
+export function BoardCopyMenu({ boardId }: { boardId: string }) {
+  const navigate  = useNavigate();
+  const boardName = useBoardStore((s) => s.board?.name ?? '');
+  const canManage = usePermission('member:manage');
+
+  const [open,         setOpen]         = useState(false);
+  const [copyName,     setCopyName]     = useState('');
+  const [keepCreators, setKeepCreators] = useState(true);
+  const [templateName, setTemplateName] = useState('');
+  const [description,  setDescription]  = useState('');
+  const [shared,       setShared]       = useState(false);
+
+  const duplicate    = useDuplicateBoard(boardId);
+  const saveTemplate = useSaveTemplate(boardId);
+  const error        = duplicate.error ?? saveTemplate.error;
+
+  if (!canManage) return null;
+
+  function toggle() {
+    if (!open) {
+      setCopyName(`${boardName} (copy)`.slice(0, 120));
+      setTemplateName(boardName);
+      duplicate.reset();
+      saveTemplate.reset();
+    }
+    setOpen((v) => !v);
+  }
+
+  function handleDuplicate(e: React.FormEvent) {
+    e.preventDefault();
+    const name = copyName.trim();
+    if (!name) return;
+    duplicate.mutate({ name, keepCreators }, {
+      onSuccess: (board) => {
+        setOpen(false);
+        navigate(`/boards/${board.id}`);
+      },
+    });
+  }
+
+  function handleSaveTemplate(e: React.FormEvent) {
+    e.preventDefault();
+    const name = templateName.trim();
+    if (!name) return;
+    saveTemplate.mutate({ name, description: description.trim(), shared }, {
+      onSuccess: (template) => {
+        setOpen(false);
+        setDescription('');
+        toast.success(`Saved template "${template.name}"`);
+      },
+    });
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={toggle}
+        className="flex items-center gap-1.5 px-2 py-1 rounded-md text-sm font-medium text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-secondary)] transition-colors"
+        aria-haspopup="menu"
+        aria-expanded={open}
+        aria-label="Duplicate board or save as template"
+      >
+        <Copy size={15} />
+      </button>
+
+      {open && (
+        <>
+          {/* Click-away backdrop */}
+          <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+
+          <div
+            role="menu"
+            className="absolute right-0 mt-1 z-50 w-72 rounded-lg bg-[var(--color-bg-card)] border border-[var(--color-border)] shadow-[var(--shadow-card-hover)] py-2 animate-fade-in"
+          >
+            <form onSubmit={handleDuplicate} className="flex flex-col gap-1.5 px-3">
+              <p className={sectionTitleClass}>Duplicate board</p>
+              <input
+                value={copyName}
+                onChange={(e) => setCopyName(e.target.value)}
+                maxLength={120}
+                className={inputClass}
+                aria-label="Name of the copy"
+              />
+              <label className={checkboxLabelClass}>
+                <input type="checkbox" checked={keepCreators} onChange={(e) => setKeepCreators(e.target.checked)} />
+                Keep task creators
+              </label>
+              <button type="submit" disabled={!copyName.trim() || duplicate.isPending} className={submitClass}>
+                Duplicate
+              </button>
+            </form>
+
+            <form onSubmit={handleSaveTemplate} className="mt-2 pt-2 flex flex-col gap-1.5 px-3 border-t border-[var(--color-border)]">
+              <p className={sectionTitleClass}>Save as template</p>
+              <input
+                value={templateName}
+                onChange={(e) => setTemplateName(e.target.value)}
+                maxLength={120}
+                className={inputClass}
+                aria-label="Template name"
+              />
+              <input
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                maxLength={500}
+                placeholder="Description (optional)"
+                className={inputClass}
+                aria-label="Template description"
+              />
+              <label className={checkboxLabelClass}>
+                <input type="checkbox" checked={shared} onChange={(e) => setShared(e.target.checked)} />
+                Share with everyone
+              </label>
+              <button type="submit" disabled={!templateName.trim() || saveTemplate.isPending} className={submitClass}>
+                Save template
+              </button>
+            </form>
+
+            {error && <p className="px-3 pt-2 text-xs text-[var(--color-danger)]">{error.message}</p>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,269 @@
+/**
+ * components/board/BoardFilters.tsx
+ *
+ * Top-bar filter controls for the open board (store/filterStore.ts).
+ * "My tasks" narrows every column to the cards assigned to the signed-in
+ * user; "Labels" to the cards carrying any of the picked labels; "Due" to
+ * overdue / due-soon / undated cards, and can sort every column by due date.
+ * The search box narrows to the cards matching a server-side search
+ * (`column:done label:bug "login page"`); its query is kept in the URL as
+ * `?q=`, so a search can be shared or reloaded. An applied saved view
+ * (ViewsMenu) adds its own query in front of whatever is typed.
+ * The board / table switch is kept in the URL too (`?layout=table`).
+ */
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { CalendarClock, Check, Search, SquareKanban, Table2, Tag, UserCheck } from 'lucide-react';
+import { useTaskSearch } from '@/hooks/useSearch';
+import { useActiveView } from '@/hooks/useViews';
+import { useFilterStore, type DueFilter } from '@/store/filterStore';
+import { sortedLabels, useBoardStore } from '@/store/boardStore';
+import { LabelChip } from './LabelChip';
+import { ViewsMenu } from './ViewsMenu';
+
+const toggleClass = (active: boolean) =>
+  [
+    'flex items-center gap-1.5 px-2 py-1 rounded-md text-sm font-medium transition-colors',
+    active
+      ? 'text-[var(--color-accent-primary)] bg-[var(--color-bg-secondary)]'
+      : 'text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-secondary)]',
+  ].join(' ');
+
+function LayoutToggle() {
+  const [params, setParams] = useSearchParams();
+  const table = params.get('layout') === 'table';
+
+  function show(layout: 'board' | 'table') {
+    setParams((prev) => {
+      const next = new URLSearchParams(prev);
+      if (layout === 'table') next.set('layout', 'table');
+      else next.delete('layout');
+      return next;
+    });
+  }
+
+  const buttonClass = (active: boolean) =>
+    `p-1 rounded ${active ? 'bg-[var(--color-bg-card)] text-[var(--color-accent-primary)]' : 'text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)]'}`;
+
+  return (
+    <div className="flex items-center rounded-md bg-[var(--color-bg-secondary)] p-0.5" role="group" aria-label="Layout">
+      <button onClick={() => show('board')} className={buttonClass(!table)} aria-pressed={!table} title="Board">
+        <SquareKanban size={15} />
+      </button>
+      <button onClick={() => show('table')} className={buttonClass(table)} aria-pressed={table} title="Table">
+        <Table2 size={15} />
+      </button>
+    </div>
+  );
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+function BoardSearch({ boardId }: { boardId: string }) {
+  const [params, setParams] = useSearchParams();
+  const q = params.get('q') ?? '';
+  const [draft, setDraft] = useState(q);
+  const [syncedQ, setSyncedQ] = useState(q);
+  const view          = useActiveView(boardId);
+  const query         = [view?.query, q].filter(Boolean).join(' ');
+  const tasks         = useBoardStore((s) => s.tasks);
+  const setSearchHits = useFilterStore((s) => s.setSearchHits);
+  const search        = useTaskSearch(boardId, query);
+  const { refetch }   = search;
+
+  // `?q=` changed from outside (a view was applied) — show it in the box
+  if (q !== syncedQ) {
+    setSyncedQ(q);
+    setDraft(q);
+  }
+
+  // Move the typed query into the URL once typing pauses
+  useEffect(() => {
+    if (draft === q) return;
+    const timer = setTimeout(() => {
+      setParams((prev) => {
+        const next = new URLSearchParams(prev);
+        if (draft.trim()) next.set('q', draft);
+        else next.delete('q');
+        return next;
+      }, { replace: true });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [draft, q, setParams]);
+
+  // The board changed under the search (own or remote edits) — search again
+  useEffect(() => {
+    if (!query.trim()) return;
+    const timer = setTimeout(() => void refetch(), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [tasks, query, refetch]);
+
+  const hits = query.trim() ? search.data ?? null : null;
+  useEffect(() => {
+    setSearchHits(hits);
+    return () => setSearchHits(null);
+  }, [hits, setSearchHits]);
+
+  const error = search.error?.message;
+
+  return (
+    <label
+      className={`flex items-center gap-1.5 px-2 py-1 rounded-md border bg-[var(--color-bg-secondary)] ${error ? 'border-[var(--color-danger)]' : 'border-[var(--color-border)] focus-within:border-[var(--color-accent-primary)]'}`}
+      title={error ?? 'Search — e.g. column:done label:bug assignee:me "login page" updated:>7d'}
+    >
+      <Search size={15} className="text-[var(--color-text-tertiary)] flex-shrink-0" />
+      <input
+        type="search"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => { if (e.key === 'Escape') setDraft(''); }}
+        placeholder="Search tasks…"
+        aria-label="Search tasks"
+        aria-invalid={error !== undefined}
+        className="w-48 text-sm bg-transparent outline-none text-[var(--color-text-primary)] placeholder:text-[var(--color-text-tertiary)]"
+      />
+    </label>
+  );
+}
+
+function LabelFilter() {
+  const [open, setOpen] = useState(false);
+  const labels      = useBoardStore((s) => s.labels);
+  const selected    = useFilterStore((s) => s.labelIds);
+  const toggleLabel = useFilterStore((s) => s.toggleLabel);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen((v) => !v)}
+        className={toggleClass(selected.length > 0)}
+        aria-haspopup="menu"
+        aria-expanded={open}
+      >
+        <Tag size={15} />
+        Labels{selected.length > 0 && ` (${selected.length})`}
+      </button>
+
+      {open && (
+        <>
+          {/* Click-away backdrop */}
+          <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+
+          <div
+            role="menu"
+            className="absolute right-0 mt-1 z-50 w-56 max-h-72 overflow-y-auto rounded-lg bg-[var(--color-bg-card)] border border-[var(--color-border)] shadow-[var(--shadow-card-hover)] py-1 animate-fade-in"
+          >
+            {Object.keys(labels).length === 0 && (
+              <p className="px-3 py-1.5 text-xs text-[var(--color-text-tertiary)]">This board has no labels yet.</p>
+            )}
+            {sortedLabels(labels).map((label) => (
+              <button
+                key={label.id}
+                role="menuitemcheckbox"
+                aria-checked={selected.includes(label.id)}
+                onClick={() => toggleLabel(label.id)}
+                className="flex items-center justify-between gap-2 w-full px-3 py-1.5 text-left hover:bg-[var(--color-bg-secondary)]"
+              >
+                <LabelChip label={label} />
+                {selected.includes(label.id) && (
+                  <Check size={14} className="text-[var(--color-accent-primary)] flex-shrink-0" />
+                )}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+const DUE_OPTIONS: Array<{ value: DueFilter; label: string }> = [
+  { value: 'all',     label: 'Any due date' },
+  { value: 'overdue', label: 'Overdue' },
+  { value: 'soon',    label: 'Due within a day' },
+  { value: 'none',    label: 'No due date' },
+];
+
+const menuItemClass =
+  'flex items-center justify-between gap-2 w-full px-3 py-1.5 text-sm text-left text-[var(--color-text-primary)] hover:bg-[var(--color-bg-secondary)]';
+
+function DueFilterMenu() {
+  const [open, setOpen] = useState(false);
+  const due          = useFilterStore((s) => s.due);
+  const sortByDue    = useFilterStore((s) => s.sortField === 'due');
+  const setDue       = useFilterStore((s) => s.setDue);
+  const setSort      = useFilterStore((s) => s.setSort);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen((v) => !v)}
+        className={toggleClass(due !== 'all' || sortByDue)}
+        aria-haspopup="menu"
+        aria-expanded={open}
+      >
+        <CalendarClock size={15} />
+        Due
+      </button>
+
+      {open && (
+        <>
+          {/* Click-away backdrop */}
+          <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+
+          <div
+            role="menu"
+            className="absolute right-0 mt-1 z-50 w-52 rounded-lg bg-[var(--color-bg-card)] border border-[var(--color-border)] shadow-[var(--shadow-card-hover)] py-1 animate-fade-in"
+          >
+            {DUE_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                role="menuitemradio"
+                aria-checked={due === option.value}
+                onClick={() => setDue(option.value)}
+                className={menuItemClass}
+              >
+                {option.label}
+                {due === option.value && <Check size={14} className="text-[var(--color-accent-primary)]" />}
+              </button>
+            ))}
+            <div className="my-1 border-t border-[var(--color-border)]" />
+            <button
+              role="menuitemcheckbox"
+              aria-checked={sortByDue}
+              onClick={() => setSort(sortByDue ? 'position' : 'due')}
+              className={menuItemClass}
+            >
+              Sort by due date
+              {sortByDue && <Check size={14} className="text-[var(--color-accent-primary)]" />}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export function BoardFilters({ boardId }: { boardId: string }) {
+  const mineOnly    = useFilterStore((s) => s.mineOnly);
+  const setMineOnly = useFilterStore((s) => s.setMineOnly);
+
+  return (
+    <div className="flex items-center gap-1">
+      <LayoutToggle />
+      {/* Keyed so the box picks up the next board's `?q=` instead of carrying this one over */}
+      <BoardSearch key={boardId} boardId={boardId} />
+      <ViewsMenu boardId={boardId} />
+      <button
+        onClick={() => setMineOnly(!mineOnly)}
+        className={toggleClass(mineOnly)}
+        aria-pressed={mineOnly}
+      >
+        <UserCheck size={15} />
+        My tasks
+      </button>
+      <LabelFilter />
+      <DueFilterMenu />
+    </div>
+  );
+}
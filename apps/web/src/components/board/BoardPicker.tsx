@@ -0,0 +1,70 @@
+/**
+ * components/board/BoardPicker.tsx
+ *
+ * Top-bar dropdown showing the current board's name. Opens a menu of all
+ * boards (from the REST list) plus a link back to the board overview.
+ */
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Check, ChevronDown, LayoutGrid } from 'lucide-react';
+import { useBoards } from '@/hooks/useBoards';
+import { useBoardStore } from '@/store/boardStore';
+
+export function BoardPicker() {
+  const [open, setOpen] = useState(false);
+  const current         = useBoardStore((s) => s.board);
+  const { data: boards } = useBoards();
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen((v) => !v)}
+        className="flex items-center gap-1.5 px-2 py-1 rounded-md text-sm font-semibold text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-secondary)] tracking-tight transition-colors"
+        aria-haspopup="menu"
+        aria-expanded={open}
+      >
+        <span className="max-w-[240px] truncate">{current?.name ?? 'All boards'}</span>
+        <ChevronDown size={14} />
+      </button>
+
+      {open && (
+        <>
+          {/* Click-away backdrop */}
+          <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+
+          <div
+            role="menu"
+            className="absolute left-1/2 -translate-x-1/2 mt-1 z-50 w-64 max-h-80 overflow-y-auto rounded-lg bg-[var(--color-bg-card)] border border-[var(--color-border)] shadow-[var(--shadow-card-hover)] py-1 animate-fade-in"
+          >
+            {(boards ?? []).map((board) => (
+              <Link
+                key={board.id}
+                to={`/boards/${board.id}`}
+                role="menuitem"
+                onClick={() => setOpen(false)}
+                className="flex items-center justify-between gap-2 px-3 py-1.5 text-sm text-[var(--color-text-primary)] hover:bg-[var(--color-bg-secondary)]"
+              >
+                <span className="truncate">{board.name}</span>
+                {board.id === current?.id && (
+                  <Check size={13} className="text-[var(--color-accent-primary)] flex-shrink-0" />
+                )}
+              </Link>
+            ))}
+
+            <div className="my-1 h-px bg-[var(--color-border)]" />
+
+            <Link
+              to="/"
+              role="menuitem"
+              onClick={() => setOpen(false)}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-secondary)]"
+            >
+              <LayoutGrid size={13} />
+              All boards
+            </Link>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
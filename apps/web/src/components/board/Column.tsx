@@ -3,38 +3,94 @@ import { useDroppable } from '@dnd-kit/core';
 import { SortableContext, verticalListSortingStrategy } from '@dnd-kit/sortable';
 import { Plus, X } from 'lucide-react';
 import React, { useState } from 'react';
-import type { Task, ColumnId } from '../../types';
+import type { Task, TaskPatch, BoardColumn, ColumnId } from '../../types';
 import { TaskCard } from './TaskCard';
-
-const COLUMN_META: Record<ColumnId, { label: string; color: string; textColor: string }> = {
-  'todo': { label: 'To Do', color: 'var(--color-todo)', textColor: '#334155' },
-  'in-progress': { label: 'In Progress', color: 'var(--color-inprogress)', textColor: '#B45309' },
-  'done': { label: 'Done', color: 'var(--color-done)', textColor: '#15803D' },
-};
+import { ColumnMenu } from './ColumnMenu';
+import { usePermission } from '@/hooks/usePermission';
+import { formatEstimate, totalEstimate } from '@/lib/priority';
+import type { SelectMode } from '@/lib/selection';
+import type { ChecklistActions, CommentActions, LabelActions, TextEditor } from '@/hooks/useBoard';
 
 interface ColumnProps {
-  columnId: ColumnId;
+  column: BoardColumn;
+  /** All active columns, left to right (for reorder / delete target) */
+  columns: BoardColumn[];
   tasks: Task[];
+  /** Every live task of the column, filters aside — what its WIP limit counts */
+  total: number;
+  /** Swimlane this copy of the column belongs to (KanbanBoard), if grouped */
+  lane?: string;
   conflictIds: Set<string>;
+  /** The board's multi-select, and the selected cards being dragged along */
+  selectedIds: Set<string>;
+  draggingIds: Set<string>;
+  onSelectTask: (task: Task, mode: SelectMode) => void;
   onCreateTask: (columnId: ColumnId, title: string, description?: string) => void;
-  onUpdateTask: (task: Task, updates: Partial<Task>) => void;
+  textEditor: TextEditor;
+  comments: CommentActions;
+  labels: LabelActions;
+  checklist: ChecklistActions;
+  onUpdateTask: (task: Task, patch: TaskPatch) => void;
   onDeleteTask: (task: Task) => void;
+  onUpdateColumn: (column: BoardColumn, patch: { title?: string; color?: string; isDone?: boolean; wipLimit?: number | null }) => void;
+  onMoveColumn: (column: BoardColumn, direction: -1 | 1) => void;
+  onDeleteColumn: (column: BoardColumn, targetColumnId?: ColumnId) => void;
 }
 
 export function Column({
-  columnId,
+  column,
+  columns,
   tasks,
+  total,
+  lane,
   conflictIds,
+  selectedIds,
+  draggingIds,
+  onSelectTask,
   onCreateTask,
+  textEditor,
+  comments,
+  labels,
+  checklist,
   onUpdateTask,
   onDeleteTask,
+  onUpdateColumn,
+  onMoveColumn,
+  onDeleteColumn,
 }: ColumnProps) {
   const [adding, setAdding] = useState(false);
   const [newTitle, setNewTitle] = useState('');
   const [newDesc, setNewDesc] = useState('');
+  const [renaming, setRenaming] = useState(false);
+  const [titleDraft, setTitleDraft] = useState(column.title);
+  const canEditTasks     = usePermission('task:edit');
+  const canManageColumns = usePermission('column:manage');
+
+  const columnId = column.id;
+  const estimated = tasks.some((t) => typeof t.estimate === 'number');
+  const atLimit   = column.wipLimit !== undefined && total >= column.wipLimit;
+  // With swimlanes each lane has its own copy of the column to drop into
+  const { setNodeRef, isOver } = useDroppable({
+    id:   lane === undefined ? columnId : `${lane}:${columnId}`,
+    data: { columnId, lane },
+  });
+  const meta = {
+    label: column.title,
+    color: column.color,
+    textColor: `color-mix(in srgb, ${column.color}, black 35%)`,
+  };
 
-  const { setNodeRef, isOver } = useDroppable({ id: columnId });
-  const meta = COLUMN_META[columnId];
+  function startRename() {
+    if (!canManageColumns) return;
+    setTitleDraft(column.title);
+    setRenaming(true);
+  }
+
+  function commitRename() {
+    const title = titleDraft.trim();
+    if (title && title !== column.title) onUpdateColumn(column, { title });
+    setRenaming(false);
+  }
 
   function handleAdd() {
     const title = newTitle.trim();
@@ -63,32 +119,91 @@ export function Column({
             className="w-2.5 h-2.5 rounded-full"
             style={{ backgroundColor: meta.color }}
           />
-          <span
-            className="text-sm font-semibold tracking-wide"
-            style={{ color: meta.textColor }}
-          >
-            {meta.label}
-          </span>
-          {/* Task count badge */}
-          <span
-            className="ml-1 px-1.5 py-0.5 rounded-full text-[10px] font-semibold tabular-nums"
-            style={{
-              backgroundColor: `color-mix(in srgb, ${meta.color}, transparent 70%)`,
-              color: meta.textColor,
-            }}
-          >
-            {tasks.length}
-          </span>
+          {renaming ? (
+            <input
+              autoFocus
+              value={titleDraft}
+              maxLength={60}
+              onChange={(e) => setTitleDraft(e.target.value)}
+              onBlur={commitRename}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitRename();
+                if (e.key === 'Escape') setRenaming(false);
+              }}
+              className="w-32 text-sm font-semibold bg-transparent outline-none border-b border-[var(--color-border-strong)]"
+              style={{ color: meta.textColor }}
+              aria-label="Column title"
+            />
+          ) : (
+            <span
+              className="text-sm font-semibold tracking-wide"
+              style={{ color: meta.textColor }}
+              onDoubleClick={startRename}
+            >
+              {meta.label}
+            </span>
+          )}
+          {/* Task count badge — against the WIP limit when there is one */}
+          {column.wipLimit === undefined ? (
+            <span
+              className="ml-1 px-1.5 py-0.5 rounded-full text-[10px] font-semibold tabular-nums"
+              style={{
+                backgroundColor: `color-mix(in srgb, ${meta.color}, transparent 70%)`,
+                color: meta.textColor,
+              }}
+            >
+              {tasks.length}
+            </span>
+          ) : (
+            <span
+              className={[
+                'ml-1 px-1.5 py-0.5 rounded-full text-[10px] font-semibold tabular-nums',
+                atLimit ? 'bg-[var(--color-danger)] text-white' : '',
+              ].join(' ')}
+              style={atLimit ? undefined : {
+                backgroundColor: `color-mix(in srgb, ${meta.color}, transparent 70%)`,
+                color: meta.textColor,
+              }}
+              title={atLimit ? 'At its WIP limit' : `WIP limit ${column.wipLimit}`}
+            >
+              {total}/{column.wipLimit}
+            </span>
+          )}
+          {/* Story points of the cards shown */}
+          {estimated && (
+            <span
+              className="text-[10px] font-semibold tabular-nums"
+              style={{ color: meta.textColor }}
+              title="Total estimate of the cards shown"
+            >
+              {formatEstimate(totalEstimate(tasks))}
+            </span>
+          )}
         </div>
 
-        {/* Add button */}
-        <button
-          onClick={() => setAdding(true)}
-          className="p-1 rounded-md text-[var(--color-text-tertiary)] hover:text-[var(--color-accent-primary)] hover:bg-[var(--color-bg-card)] transition-colors"
-          aria-label={`Add task to ${meta.label}`}
-        >
-          <Plus size={15} />
-        </button>
+        <div className="flex items-center gap-0.5">
+          {/* Add button */}
+          {canEditTasks && (
+            <button
+              onClick={() => setAdding(true)}
+              className="p-1 rounded-md text-[var(--color-text-tertiary)] hover:text-[var(--color-accent-primary)] hover:bg-[var(--color-bg-card)] transition-colors"
+              aria-label={`Add task to ${meta.label}`}
+            >
+              <Plus size={15} />
+            </button>
+          )}
+          {canManageColumns && (
+            <ColumnMenu
+              column={column}
+              columns={columns}
+              taskCount={tasks.length}
+              onRename={startRename}
+              onUpdate={onUpdateColumn}
+              onMove={onMoveColumn}
+              onDelete={onDeleteColumn}
+            />
+          )}
+        </div>
       </div>
 
       {/* Drop zone */}
@@ -111,9 +226,16 @@ export function Column({
             <TaskCard
               key={task.id}
               task={task}
+              textEditor={textEditor}
+              comments={comments}
+              labels={labels}
+              checklist={checklist}
               onUpdate={onUpdateTask}
               onDelete={onDeleteTask}
               isConflict={conflictIds.has(task.id)}
+              isSelected={selectedIds.has(task.id)}
+              isGroupDragged={draggingIds.has(task.id)}
+              onSelect={onSelectTask}
             />
           ))}
         </SortableContext>
@@ -129,59 +251,61 @@ export function Column({
       </div>
 
       {/* Add task form */}
-      <div className="px-3 pb-3">
-        {adding ? (
-          <div
-            className={[
-              'p-3 rounded-[var(--radius-card)] border border-[var(--color-border)]',
-              'bg-[var(--color-bg-card)] shadow-[var(--shadow-card)] animate-fade-in',
-            ].join(' ')}
-          >
-            <input
-              autoFocus
-              value={newTitle}
-              onChange={(e) => setNewTitle(e.target.value)}
-              onKeyDown={handleKeyDown}
-              placeholder="Task title…"
-              className="w-full text-sm bg-transparent outline-none text-[var(--color-text-primary)] placeholder:text-[var(--color-text-tertiary)] border-b border-[var(--color-border)] pb-1 mb-2"
-              aria-label="New task title"
-            />
-            <textarea
-              value={newDesc}
-              onChange={(e) => setNewDesc(e.target.value)}
-              onKeyDown={(e) => { if (e.key === 'Escape') { setAdding(false); setNewTitle(''); }}}
-              rows={2}
-              placeholder="Description (optional)…"
-              className="w-full text-xs bg-transparent outline-none resize-none text-[var(--color-text-secondary)] placeholder:text-[var(--color-text-tertiary)] mb-3"
-              aria-label="New task description"
-            />
-            <div className="flex items-center gap-2">
-              <button
-                onClick={handleAdd}
-                disabled={!newTitle.trim()}
-                className="px-3 py-1.5 rounded-md text-xs font-medium bg-[var(--color-accent-primary)] text-white hover:bg-[var(--color-accent-hover)] disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
-              >
-                Add task
-              </button>
-              <button
-                onClick={() => { setAdding(false); setNewTitle(''); setNewDesc(''); }}
-                className="p-1 rounded-md text-[var(--color-text-tertiary)] hover:bg-[var(--color-bg-secondary)]"
-                aria-label="Cancel"
-              >
-                <X size={14} />
-              </button>
+      {canEditTasks && (
+        <div className="px-3 pb-3">
+          {adding ? (
+            <div
+              className={[
+                'p-3 rounded-[var(--radius-card)] border border-[var(--color-border)]',
+                'bg-[var(--color-bg-card)] shadow-[var(--shadow-card)] animate-fade-in',
+              ].join(' ')}
+            >
+              <input
+                autoFocus
+                value={newTitle}
+                onChange={(e) => setNewTitle(e.target.value)}
+                onKeyDown={handleKeyDown}
+                placeholder="Task title…"
+                className="w-full text-sm bg-transparent outline-none text-[var(--color-text-primary)] placeholder:text-[var(--color-text-tertiary)] border-b border-[var(--color-border)] pb-1 mb-2"
+                aria-label="New task title"
+              />
+              <textarea
+                value={newDesc}
+                onChange={(e) => setNewDesc(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Escape') { setAdding(false); setNewTitle(''); }}}
+                rows={2}
+                placeholder="Description (optional)…"
+                className="w-full text-xs bg-transparent outline-none resize-none text-[var(--color-text-secondary)] placeholder:text-[var(--color-text-tertiary)] mb-3"
+                aria-label="New task description"
+              />
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={handleAdd}
+                  disabled={!newTitle.trim()}
+                  className="px-3 py-1.5 rounded-md text-xs font-medium bg-[var(--color-accent-primary)] text-white hover:bg-[var(--color-accent-hover)] disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                >
+                  Add task
+                </button>
+                <button
+                  onClick={() => { setAdding(false); setNewTitle(''); setNewDesc(''); }}
+                  className="p-1 rounded-md text-[var(--color-text-tertiary)] hover:bg-[var(--color-bg-secondary)]"
+                  aria-label="Cancel"
+                >
+                  <X size={14} />
+                </button>
+              </div>
             </div>
-          </div>
-        ) : (
-          <button
-            onClick={() => setAdding(true)}
-            className="flex items-center gap-1.5 w-full px-2 py-1.5 rounded-lg text-xs text-[var(--color-text-tertiary)] hover:text-[var(--color-text-secondary)] hover:bg-black/5 transition-colors"
-          >
-            <Plus size={13} />
-            Add task
-          </button>
-        )}
-      </div>
+          ) : (
+            <button
+              onClick={() => setAdding(true)}
+              className="flex items-center gap-1.5 w-full px-2 py-1.5 rounded-lg text-xs text-[var(--color-text-tertiary)] hover:text-[var(--color-text-secondary)] hover:bg-black/5 transition-colors"
+            >
+              <Plus size={13} />
+              Add task
+            </button>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,184 @@
+/**
+ * components/board/ColumnMenu.tsx
+ *
+ * "⋯" dropdown in a column header: rename, recolor, reorder, toggle the
+ * done flag, set the WIP limit, and delete (archive). Deleting a non-empty column asks which
+ * column its tasks should move to — the server refuses otherwise.
+ */
+import { useState } from 'react';
+import { ArrowLeft, ArrowRight, CheckCircle2, Gauge, MoreHorizontal, Pencil, Trash2 } from 'lucide-react';
+import { ACCENT_PALETTE } from '@/lib/palette';
+import type { BoardColumn, ColumnId } from '@/types';
+
+interface ColumnMenuProps {
+  column:     BoardColumn;
+  /** All active columns, left to right */
+  columns:    BoardColumn[];
+  taskCount:  number;
+  onRename:   () => void;
+  onUpdate:   (column: BoardColumn, patch: { color?: string; isDone?: boolean; wipLimit?: number | null }) => void;
+  onMove:     (column: BoardColumn, direction: -1 | 1) => void;
+  onDelete:   (column: BoardColumn, targetColumnId?: ColumnId) => void;
+}
+
+const itemClass =
+  'flex items-center gap-2 w-full px-3 py-1.5 text-sm text-left text-[var(--color-text-primary)] hover:bg-[var(--color-bg-secondary)] disabled:opacity-40 disabled:cursor-not-allowed';
+
+export function ColumnMenu({
+  column,
+  columns,
+  taskCount,
+  onRename,
+  onUpdate,
+  onMove,
+  onDelete,
+}: ColumnMenuProps) {
+  const [open,       setOpen]       = useState(false);
+  const [confirming, setConfirming] = useState(false);
+  const [target,     setTarget]     = useState<ColumnId>('');
+  const [limitDraft, setLimitDraft] = useState('');
+
+  const others = columns.filter((c) => c.id !== column.id);
+  const idx    = columns.findIndex((c) => c.id === column.id);
+
+  function close() {
+    setOpen(false);
+    setConfirming(false);
+  }
+
+  /** Save the WIP limit typed in — blank clears it. */
+  function commitLimit() {
+    const value = limitDraft.trim();
+    const limit = value === '' ? null : Number(value);
+    if (limit !== null && !(Number.isInteger(limit) && limit >= 1 && limit <= 999)) return;
+    if (limit !== (column.wipLimit ?? null)) onUpdate(column, { wipLimit: limit });
+  }
+
+  function handleDelete() {
+    if (taskCount > 0) {
+      const targetId = target || others[0]?.id;
+      if (!targetId) return;
+      onDelete(column, targetId);
+    } else {
+      onDelete(column);
+    }
+    close();
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => {
+          setLimitDraft(column.wipLimit?.toString() ?? '');
+          setOpen((v) => !v);
+        }}
+        className="p-1 rounded-md text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-card)] transition-colors"
+        aria-label={`Column options for ${column.title}`}
+        aria-haspopup="menu"
+        aria-expanded={open}
+      >
+        <MoreHorizontal size={15} />
+      </button>
+
+      {open && (
+        <>
+          {/* Click-away backdrop */}
+          <div className="fixed inset-0 z-40" onClick={close} />
+
+          <div
+            role="menu"
+            className="absolute right-0 mt-1 z-50 w-56 rounded-lg bg-[var(--color-bg-card)] border border-[var(--color-border)] shadow-[var(--shadow-card-hover)] py-1 animate-fade-in"
+          >
+            {confirming ? (
+              <div className="px-3 py-2 flex flex-col gap-2">
+                <p className="text-xs text-[var(--color-text-secondary)]">
+                  {taskCount > 0
+                    ? `Move ${taskCount} task${taskCount === 1 ? '' : 's'} to:`
+                    : `Delete "${column.title}"?`}
+                </p>
+                {taskCount > 0 && (
+                  <select
+                    value={target || others[0]?.id}
+                    onChange={(e) => setTarget(e.target.value)}
+                    className="w-full text-sm rounded-md border border-[var(--color-border)] bg-[var(--color-bg-card)] px-2 py-1 text-[var(--color-text-primary)]"
+                    aria-label="Move tasks to column"
+                  >
+                    {others.map((c) => (
+                      <option key={c.id} value={c.id}>{c.title}</option>
+                    ))}
+                  </select>
+                )}
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={handleDelete}
+                    disabled={taskCount > 0 && others.length === 0}
+                    className="px-3 py-1.5 rounded-md text-xs font-medium bg-red-600 text-white hover:bg-red-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                  >
+                    Delete column
+                  </button>
+                  <button
+                    onClick={() => setConfirming(false)}
+                    className="px-2 py-1.5 rounded-md text-xs text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-secondary)]"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <>
+                <button role="menuitem" className={itemClass} onClick={() => { onRename(); close(); }}>
+                  <Pencil size={13} /> Rename
+                </button>
+                <button role="menuitem" className={itemClass} disabled={idx <= 0} onClick={() => { onMove(column, -1); close(); }}>
+                  <ArrowLeft size={13} /> Move left
+                </button>
+                <button role="menuitem" className={itemClass} disabled={idx === columns.length - 1} onClick={() => { onMove(column, 1); close(); }}>
+                  <ArrowRight size={13} /> Move right
+                </button>
+                <button role="menuitemcheckbox" aria-checked={column.isDone} className={itemClass} onClick={() => onUpdate(column, { isDone: !column.isDone })}>
+                  <CheckCircle2 size={13} className={column.isDone ? 'text-[var(--color-done)]' : undefined} />
+                  {column.isDone ? 'Marks tasks done' : 'Mark tasks as done'}
+                </button>
+                <label className="flex items-center gap-2 px-3 py-1.5 text-sm text-[var(--color-text-primary)]">
+                  <Gauge size={13} /> WIP limit
+                  <input
+                    type="number"
+                    min={1}
+                    max={999}
+                    value={limitDraft}
+                    onChange={(e) => setLimitDraft(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') { commitLimit(); close(); } }}
+                    onBlur={commitLimit}
+                    placeholder="None"
+                    className="ml-auto w-16 text-sm bg-[var(--color-bg-secondary)] rounded-md px-2 py-0.5 outline-none text-[var(--color-text-primary)] placeholder:text-[var(--color-text-tertiary)] border border-[var(--color-border)] focus:border-[var(--color-accent-primary)]"
+                  />
+                </label>
+
+                <div className="my-1 h-px bg-[var(--color-border)]" />
+
+                {/* Colour palette */}
+                <div className="grid grid-cols-8 gap-1 px-3 py-1.5">
+                  {ACCENT_PALETTE.map((color) => (
+                    <button
+                      key={color}
+                      onClick={() => onUpdate(column, { color })}
+                      className="w-5 h-5 rounded-full border-2 transition-transform hover:scale-110"
+                      style={{ backgroundColor: color, borderColor: color === column.color ? 'var(--color-text-primary)' : 'transparent' }}
+                      aria-label={`Set colour ${color}`}
+                    />
+                  ))}
+                </div>
+
+                <div className="my-1 h-px bg-[var(--color-border)]" />
+
+                <button role="menuitem" className={`${itemClass} text-red-600`} onClick={() => setConfirming(true)}>
+                  <Trash2 size={13} /> Delete column
+                </button>
+              </>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
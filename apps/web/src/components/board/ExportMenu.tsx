@@ -0,0 +1,90 @@
+/**
+ * components/board/ExportMenu.tsx
+ *
+ * Top-bar download menu: the open board as JSON (lossless — a backup that
+ * can be kept outside Supabase), CSV for spreadsheets, or Markdown with a
+ * checkbox list per column. Any member can export.
+ */
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { toast } from 'sonner';
+import { apiDownload } from '@/lib/api';
+
+type ExportFormat = 'json' | 'csv' | 'markdown';
+
+const FORMATS: Array<{ value: ExportFormat; label: string; hint: string }> = [
+  { value: 'json',     label: 'JSON',     hint: 'Everything, for backups' },
+  { value: 'csv',      label: 'CSV',      hint: 'One row per task' },
+  { value: 'markdown', label: 'Markdown', hint: 'Checklist per column' },
+];
+
+const menuItemClass =
+  'flex flex-col w-full px-3 py-1.5 text-left hover:bg-[var(--color-bg-secondary)] disabled:opacity-60';
+
+export function ExportMenu({ boardId }: { boardId: string }) {
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  async function download(format: ExportFormat) {
+    setBusy(true);
+    try {
+      const { blob, filename } = await apiDownload(
+        `/api/boards/${boardId}/export?format=${format}`,
+        `board.${format === 'markdown' ? 'md' : format}`,
+      );
+      const url  = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href     = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+      setOpen(false);
+    } catch (err) {
+      toast.error(`Export failed: ${(err as Error).message}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen((v) => !v)}
+        className="flex items-center gap-1.5 px-2 py-1 rounded-md text-sm font-medium text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-secondary)] transition-colors"
+        aria-haspopup="menu"
+        aria-expanded={open}
+        aria-label="Export board"
+      >
+        <Download size={15} />
+      </button>
+
+      {open && (
+        <>
+          {/* Click-away backdrop */}
+          <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+
+          <div
+            role="menu"
+            className="absolute right-0 mt-1 z-50 w-52 rounded-lg bg-[var(--color-bg-card)] border border-[var(--color-border)] shadow-[var(--shadow-card-hover)] py-1 animate-fade-in"
+          >
+            <p className="px-3 pt-1.5 pb-1 text-[11px] font-semibold uppercase tracking-wide text-[var(--color-text-tertiary)]">
+              Export board
+            </p>
+            {FORMATS.map((format) => (
+              <button
+                key={format.value}
+                role="menuitem"
+                disabled={busy}
+                onClick={() => void download(format.value)}
+                className={menuItemClass}
+              >
+                <span className="text-sm text-[var(--color-text-primary)]">{format.label}</span>
+                <span className="text-[11px] text-[var(--color-text-tertiary)]">{format.hint}</span>
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+/**
+ * components/board/ImportMenu.tsx
+ *
+ * Top-bar upload button + slide-over importing tasks into the open board
+ * from a Trello board JSON, a Jira issue CSV or any other CSV (its columns
+ * mapped to task fields). Choosing a file runs a dry-run preview — which
+ * columns and labels would be created, how many tasks land where — and
+ * nothing is written until "Import" is confirmed. Admins only: an import
+ * may add columns and labels.
+ */
+import { useState } from 'react';
+import { Upload, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { useImportPreview, useStartImport } from '@/hooks/useImport';
+import { usePermission } from '@/hooks/usePermission';
+import type { CsvMapping, ImportSource } from '@/types';
+
+const SOURCES: Array<{ value: ImportSource; label: string }> = [
+  { value: 'trello', label: 'Trello (JSON)' },
+  { value: 'jira',   label: 'Jira (CSV)' },
+  { value: 'csv',    label: 'Other CSV' },
+];
+
+const MAPPED_FIELDS: Array<{ field: keyof CsvMapping; label: string }> = [
+  { field: 'title',       label: 'Title' },
+  { field: 'column',      label: 'Column' },
+  { field: 'description', label: 'Description' },
+  { field: 'priority',    label: 'Priority' },
+  { field: 'labels',      label: 'Labels' },
+  { field: 'startAt',     label: 'Start date' },
+  { field: 'dueAt',       label: 'Due date' },
+  { field: 'estimate',    label: 'Estimate' },
+];
+
+const selectClass =
+  'text-xs rounded-md border border-[var(--color-border)] bg-[var(--color-bg-card)] px-1.5 py-1 text-[var(--color-text-primary)] disabled:opacity-60';
+
+const sectionTitleClass =
+  'mb-1.5 text-[11px] font-semibold uppercase tracking-wide text-[var(--color-text-tertiary)]';
+
+function ImportPanel({ boardId, onClose }: { boardId: string; onClose: () => void }) {
+  const [source,   setSource]   = useState<ImportSource>('trello');
+  const [content,  setContent]  = useState<string | null>(null);
+  const [fileName, setFileName] = useState('');
+  // CSV headers picked by hand — until then, the mapping the server guessed
+  const [picked,   setPicked]   = useState<Partial<CsvMapping> | null>(null);
+
+  const preview = useImportPreview(boardId);
+  const start   = useStartImport(boardId);
+  const data    = preview.data;
+  const mapping = picked ?? data?.mapping;
+
+  function runPreview(nextSource: ImportSource, nextContent: string | null, nextMapping?: CsvMapping) {
+    if (nextContent === null) return;
+    preview.mutate({ source: nextSource, content: nextContent, mapping: nextMapping });
+  }
+
+  async function handleFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const text       = await file.text();
+    const nextSource = file.name.toLowerCase().endsWith('.json') ? 'trello' : source === 'trello' ? 'csv' : source;
+    setFileName(file.name);
+    setContent(text);
+    setSource(nextSource);
+    setPicked(null);
+    runPreview(nextSource, text);
+  }
+
+  function handleSource(next: ImportSource) {
+    setSource(next);
+    setPicked(null);
+    runPreview(next, content);
+  }
+
+  function handleMapping(field: keyof CsvMapping, header: string) {
+    const next = { ...mapping, [field]: header || undefined };
+    setPicked(next);
+    if (next.title) runPreview(source, content, next as CsvMapping);
+  }
+
+  function handleImport() {
+    if (content === null || !data) return;
+    start.mutate({ source, content, mapping: data.mapping }, {
+      onSuccess: ({ jobId, total }) => {
+        toast.loading(`Importing… 0 of ${total} tasks`, { id: jobId });
+        onClose();
+      },
+    });
+  }
+
+  const error = preview.error ?? start.error;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex justify-end"
+      onKeyDown={(e) => { if (e.key === 'Escape') onClose(); }}
+    >
+      {/* Click-away backdrop */}
+      <div className="absolute inset-0 bg-black/20" onClick={onClose} />
+
+      <aside
+        role="dialog"
+        aria-label="Import tasks"
+        className="relative w-96 max-w-full h-full flex flex-col bg-[var(--color-bg-card)] border-l border-[var(--color-border)] shadow-[var(--shadow-card-hover)] animate-fade-in"
+      >
+        <header className="flex items-center justify-between gap-2 px-4 py-3 border-b border-[var(--color-border)]">
+          <p className="text-sm font-semibold text-[var(--color-text-primary)]">Import tasks</p>
+          <button
+            onClick={onClose}
+            className="p-1.5 rounded text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-secondary)]"
+            aria-label="Close import"
+          >
+            <X size={15} />
+          </button>
+        </header>
+
+        <div className="flex-1 overflow-y-auto px-4 py-3 flex flex-col gap-4">
+          <section className="flex flex-col gap-2">
+            <label className="flex items-center justify-between gap-2 text-xs text-[var(--color-text-secondary)]">
+              From
+              <select
+                value={source}
+                onChange={(e) => handleSource(e.target.value as ImportSource)}
+                className={selectClass}
+              >
+                {SOURCES.map((s) => <option key={s.value} value={s.value}>{s.label}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center justify-between gap-2 text-xs text-[var(--color-text-secondary)]">
+              <span className="truncate">{fileName || 'No file chosen'}</span>
+              <span className="px-2 py-1 rounded-md font-medium text-[var(--color-accent-primary)] hover:bg-[var(--color-bg-secondary)] cursor-pointer flex-shrink-0">
+                Choose file…
+              </span>
+              <input type="file" accept=".json,.csv,text/csv,application/json" onChange={(e) => void handleFile(e)} className="sr-only" />
+            </label>
+          </section>
+
+          {preview.isPending && <p className="text-xs text-[var(--color-text-tertiary)]">Reading the file…</p>}
+          {error && <p className="text-xs text-[var(--color-danger)]">{error.message}</p>}
+
+          {data?.headers && (
+            <section>
+              <p className={sectionTitleClass}>CSV columns</p>
+              <div className="flex flex-col gap-1.5">
+                {MAPPED_FIELDS.map(({ field, label }) => (
+                  <label key={field} className="flex items-center justify-between gap-2 text-xs text-[var(--color-text-secondary)]">
+                    {label}
+                    <select
+                      value={mapping?.[field] ?? ''}
+                      onChange={(e) => handleMapping(field, e.target.value)}
+                      disabled={preview.isPending}
+                      className={`${selectClass} max-w-[60%]`}
+                    >
+                      <option value="">{field === 'title' ? 'Choose…' : 'Skip'}</option>
+                      {data.headers!.map((h) => <option key={h} value={h}>{h}</option>)}
+                    </select>
+                  </label>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {data && data.taskCount > 0 && (
+            <section>
+              <p className={sectionTitleClass}>{data.taskCount} {data.taskCount === 1 ? 'task' : 'tasks'} into</p>
+              <ul className="flex flex-col gap-2">
+                {data.columns.map((column) => (
+                  <li key={column.title} className="rounded-lg border border-[var(--color-border)] p-2.5">
+                    <p className="text-sm font-medium text-[var(--color-text-primary)] truncate">
+                      {column.title}
+                      <span className="ml-1.5 text-[11px] font-normal text-[var(--color-text-tertiary)]">
+                        {column.isNew ? 'new column' : 'existing'} · {column.count}
+                      </span>
+                    </p>
+                    {column.sample.map((title, i) => (
+                      <p key={i} className="text-[11px] text-[var(--color-text-tertiary)] truncate">{title}</p>
+                    ))}
+                    {column.count > column.sample.length && (
+                      <p className="text-[11px] text-[var(--color-text-tertiary)]">and {column.count - column.sample.length} more</p>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          {data && data.labels.some((l) => l.isNew) && (
+            <section>
+              <p className={sectionTitleClass}>New labels</p>
+              <p className="text-xs text-[var(--color-text-secondary)]">
+                {data.labels.filter((l) => l.isNew).map((l) => l.name).join(', ')}
+              </p>
+            </section>
+          )}
+
+          {data && data.warnings.length > 0 && (
+            <section>
+              <p className={sectionTitleClass}>Heads up</p>
+              <ul className="list-disc pl-4 text-xs text-[var(--color-text-secondary)]">
+                {data.warnings.map((w, i) => <li key={i}>{w}</li>)}
+              </ul>
+            </section>
+          )}
+        </div>
+
+        <footer className="px-4 py-3 border-t border-[var(--color-border)] flex justify-end">
+          <button
+            onClick={handleImport}
+            disabled={!data || data.taskCount === 0 || preview.isPending || start.isPending}
+            className="px-3 py-1.5 rounded-md text-sm font-medium text-white bg-[var(--color-brand-600)] hover:bg-[var(--color-brand-700)] disabled:opacity-50"
+          >
+            Import
+          </button>
+        </footer>
+      </aside>
+    </div>
+  );
+}
+
+export function ImportMenu({ boardId }: { boardId: string }) {
+  const [open, setOpen] = useState(false);
+  const canImport = usePermission('column:manage');
+
+  if (!canImport) return null;
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        className="flex items-center gap-1.5 px-2 py-1 rounded-md text-sm font-medium text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-secondary)] transition-colors"
+        aria-haspopup="dialog"
+        aria-expanded={open}
+        aria-label="Import tasks"
+      >
+        <Upload size={15} />
+      </button>
+
+      {open && <ImportPanel boardId={boardId} onClose={() => setOpen(false)} />}
+    </>
+  );
+}
@@ -5,13 +5,26 @@
  * all drag-and-drop state.
  *
  * Drag flow:
- *   onDragStart  → record active task
+ *   onDragStart  → record active task (and the selection it belongs to)
  *   onDragOver   → auto-scroll during drag (handled by @dnd-kit/core)
- *   onDragEnd    → call moveTask with { toColumn, overTaskId }
+ *   onDragEnd    → call moveTask with { toColumn, overTaskId } — or, for a
+ *                  multi-select, batch.move with every selected card
  *
- * Each Column receives its sorted task list from the board store.
+ * Multi-select: cmd / ctrl-click and shift-click on cards (lib/selection.ts).
+ * Dragging a selected card drags the whole selection as one TASK_BATCH;
+ * Escape or a click on the board's background clears it.
+ *
+ * Columns are user-defined (board store `columns`, sorted by `order`);
+ * each Column receives its sorted task list from the board store, narrowed
+ * (and optionally re-sorted) by the active filters (filterStore).
+ * Only admins see "Add column" (column:manage).
+ *
+ * Swimlanes: with a grouping set (filterStore.groupBy) every lane repeats
+ * the columns, holding only its own cards (lib/views.ts). A card dropped
+ * into another lane also takes that lane's assignee / label / priority.
  */
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { Plus } from 'lucide-react';
 import {
   DndContext,
   DragOverlay,
@@ -24,28 +37,67 @@ import {
   closestCenter,
 } from '@dnd-kit/core';
 import { sortableKeyboardCoordinates } from '@dnd-kit/sortable';
-import { useBoardStore } from '@/store/boardStore';
+import { useNow } from '@/hooks/useNow';
+import { usePermission } from '@/hooks/usePermission';
+import { useMembers } from '@/hooks/useMembers';
+import { useBoardStore, sortedColumns, sortedLabels } from '@/store/boardStore';
+import { useAuthStore } from '@/store/authStore';
+import { filterTasks, useFilterStore } from '@/store/filterStore';
+import { buildLanes, lanePatch, laneKey, type Lane } from '@/lib/views';
+import { nextSelection, type SelectMode } from '@/lib/selection';
 import { Column }        from './Column';
 import { TaskCard }      from './TaskCard';
-import type { ColumnId, Task } from '@/types';
-
-const COLUMN_IDS: ColumnId[] = ['todo', 'in-progress', 'done'];
+import type { BatchActions, ChecklistActions, CommentActions, LabelActions, TextEditor } from '@/hooks/useBoard';
+import type { BoardColumn, ColumnId, Task, TaskPatch } from '@/types';
 
 interface KanbanBoardProps {
-  onCreateTask: (columnId: ColumnId, title: string, desc?: string) => void;
-  onUpdateTask: (task: Task, patch: { title?: string; description?: string }) => void;
-  onMoveTask:   (task: Task, toColumn: ColumnId, overTaskId: string | null) => void;
-  onDeleteTask: (task: Task) => void;
+  onCreateTask:   (columnId: ColumnId, title: string, desc?: string) => void;
+  textEditor:     TextEditor;
+  comments:       CommentActions;
+  labels:         LabelActions;
+  checklist:      ChecklistActions;
+  onUpdateTask:   (task: Task, patch: TaskPatch) => void;
+  onMoveTask:     (task: Task, toColumn: ColumnId, overTaskId: string | null) => void;
+  onDeleteTask:   (task: Task) => void;
+  batch:          BatchActions;
+  onCreateColumn: (title: string) => void;
+  onUpdateColumn: (column: BoardColumn, patch: { title?: string; color?: string; isDone?: boolean; wipLimit?: number | null }) => void;
+  onMoveColumn:   (column: BoardColumn, direction: -1 | 1) => void;
+  onDeleteColumn: (column: BoardColumn, targetColumnId?: ColumnId) => void;
 }
 
 export function KanbanBoard({
   onCreateTask,
+  textEditor,
+  comments,
+  labels,
+  checklist,
   onUpdateTask,
   onMoveTask,
   onDeleteTask,
+  batch,
+  onCreateColumn,
+  onUpdateColumn,
+  onMoveColumn,
+  onDeleteColumn,
 }: KanbanBoardProps) {
   const { getColumn, getTask } = useBoardStore();
+  const columnsById = useBoardStore((s) => s.columns);
+  const columns     = sortedColumns(columnsById);
+  const labelsById  = useBoardStore((s) => s.labels);
+  const boardId     = useBoardStore((s) => s.board?.id ?? '');
+  const { data: members } = useMembers(boardId);
+  const canManageColumns = usePermission('column:manage');
+  const filters     = useFilterStore();
+  const myId        = useAuthStore((s) => s.user?.id);
+  const now         = useNow();
   const [activeTask,   setActiveTask]   = useState<Task | null>(null);
+  const [dragGroup,    setDragGroup]    = useState<Task[]>([]);
+  const [selected,     setSelected]     = useState<string[]>([]);
+  // Last card clicked into the selection — where a shift-click range starts
+  const anchor = useRef<string | null>(null);
+  const [addingColumn, setAddingColumn] = useState(false);
+  const [columnTitle,  setColumnTitle]  = useState('');
   // const [conflictIds,  setConflictIds]  = useState<Set<string>>(new Set());
   const conflictIds = new Set<string>(); // Placeholder until conflict flashing is implemented
 
@@ -57,15 +109,42 @@ export function KanbanBoard({
 
 
 
+  useEffect(() => {
+    function handleKeyDown(e: KeyboardEvent) {
+      if (e.key === 'Escape') setSelected([]);
+    }
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // ── Selection ──────────────────────────────────────────────────────────────
+
+  function handleSelect(task: Task, mode: SelectMode) {
+    setSelected((ids) => nextSelection(ids, shownIds, anchor.current, task.id, mode));
+    anchor.current = task.id;
+  }
+
   // ── Drag handlers ──────────────────────────────────────────────────────────
 
   function handleDragStart(event: DragStartEvent) {
     const task = getTask(event.active.id as string);
-    if (task) setActiveTask(task);
+    if (!task) return;
+    setActiveTask(task);
+
+    // Dragging a selected card takes the others along, the dragged one first
+    if (selected.includes(task.id)) {
+      const others = selected.filter((id) => id !== task.id).map(getTask).filter((t) => t !== undefined);
+      setDragGroup([task, ...others]);
+    } else {
+      setSelected([]);
+      setDragGroup([task]);
+    }
   }
 
   function handleDragEnd(event: DragEndEvent) {
+    const group = dragGroup;
     setActiveTask(null);
+    setDragGroup([]);
 
     const { active, over } = event;
     if (!over || active.id === over.id) return;
@@ -73,18 +152,120 @@ export function KanbanBoard({
     const task = getTask(active.id as string);
     if (!task) return;
 
-    // `over.id` can be either a columnId or a task id
-    const isColumn    = COLUMN_IDS.includes(over.id as ColumnId);
-    const toColumn    = isColumn ? (over.id as ColumnId) : getTask(over.id as string)?.columnId;
-    const overTaskId  = isColumn ? null : (over.id as string);
+    // `over` is either a column's drop zone (Column sets its data) or a task card
+    const drop     = over.data.current as { columnId?: ColumnId; lane?: string } | undefined;
+    const overTask = drop?.columnId === undefined ? getTask(over.id as string) : undefined;
+    const toColumn = drop?.columnId ?? overTask?.columnId;
 
     if (!toColumn) return;
 
-    onMoveTask(task, toColumn, overTaskId);
+    const { groupBy } = filters;
+
+    if (group.length > 1) {
+      // Dropped onto a card that is moving too — nowhere to go
+      if (overTask && group.some((t) => t.id === overTask.id)) return;
+      const toLane = overTask ? laneKey(overTask, groupBy) : drop?.lane;
+      batch.move(group, toColumn, overTask?.id ?? null, (t) => {
+        const fromLane = laneKey(t, groupBy);
+        return groupBy !== 'none' && toLane !== undefined && toLane !== fromLane
+          ? lanePatch(groupBy, t, fromLane, toLane)
+          : null;
+      });
+      return;
+    }
+
+    if (groupBy !== 'none') {
+      const fromLane = laneKey(task, groupBy);
+      const toLane   = overTask ? laneKey(overTask, groupBy) : drop?.lane;
+      const patch    = toLane !== undefined && toLane !== fromLane ? lanePatch(groupBy, task, fromLane, toLane) : null;
+      if (patch) onUpdateTask(task, patch);
+    }
+
+    onMoveTask(task, toColumn, overTask?.id ?? null);
+  }
+
+  function handleAddColumn() {
+    const title = columnTitle.trim();
+    if (!title) return;
+    onCreateColumn(title);
+    setColumnTitle('');
+    setAddingColumn(false);
   }
 
   // ── Render ─────────────────────────────────────────────────────────────────
 
+  const { groupBy } = filters;
+  const shown = Object.fromEntries(
+    columns.map((column) => [column.id, filterTasks(getColumn(column.id), filters, myId, now, column.isDone)]),
+  );
+  const lanes: Lane[] = buildLanes(groupBy, Object.values(shown).flat(), members ?? [], sortedLabels(labelsById));
+  // Cards in the order they appear — lane by lane, column by column
+  const shownIds = (groupBy === 'none' ? [undefined] : lanes.map((l) => l.key)).flatMap((lane) =>
+    columns.flatMap((column) =>
+      shown[column.id].filter((t) => lane === undefined || laneKey(t, groupBy) === lane).map((t) => t.id),
+    ),
+  );
+  const selectedIds = new Set(selected);
+  const draggingIds = new Set(dragGroup.slice(1).map((t) => t.id));
+
+  function renderColumn(column: BoardColumn, tasks: Task[], lane?: string) {
+    return (
+      <Column
+        key={column.id}
+        column={column}
+        columns={columns}
+        tasks={tasks}
+        total={getColumn(column.id).length}
+        lane={lane}
+        conflictIds={conflictIds}
+        selectedIds={selectedIds}
+        draggingIds={draggingIds}
+        onSelectTask={handleSelect}
+        onCreateTask={onCreateTask}
+        textEditor={textEditor}
+        comments={comments}
+        labels={labels}
+        checklist={checklist}
+        onUpdateTask={onUpdateTask}
+        onDeleteTask={onDeleteTask}
+        onUpdateColumn={onUpdateColumn}
+        onMoveColumn={onMoveColumn}
+        onDeleteColumn={onDeleteColumn}
+      />
+    );
+  }
+
+  const addColumn = canManageColumns && (
+    <div className="w-72 flex-shrink-0">
+      {addingColumn ? (
+        <div className="p-3 rounded-xl bg-[var(--color-bg-secondary)] animate-fade-in">
+          <input
+            autoFocus
+            value={columnTitle}
+            maxLength={60}
+            onChange={(e) => setColumnTitle(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleAddColumn();
+              if (e.key === 'Escape') { setAddingColumn(false); setColumnTitle(''); }
+            }}
+            onBlur={() => { if (!columnTitle.trim()) setAddingColumn(false); }}
+            placeholder="Column title…"
+            className="w-full text-sm bg-transparent outline-none text-[var(--color-text-primary)] placeholder:text-[var(--color-text-tertiary)] border-b border-[var(--color-border)] pb-1"
+            aria-label="New column title"
+          />
+        </div>
+      ) : (
+        <button
+          onClick={() => setAddingColumn(true)}
+          className="flex items-center gap-1.5 w-full px-3 py-3 rounded-xl text-sm text-[var(--color-text-tertiary)] hover:text-[var(--color-text-secondary)] bg-[var(--color-bg-secondary)]/60 hover:bg-[var(--color-bg-secondary)] transition-colors"
+        >
+          <Plus size={14} />
+          Add column
+        </button>
+      )}
+    </div>
+  );
+
   return (
     <DndContext
       sensors={sensors}
@@ -92,27 +273,58 @@ export function KanbanBoard({
       onDragStart={handleDragStart}
       onDragEnd={handleDragEnd}
     >
-      <div className="flex gap-6 p-6 overflow-x-auto flex-1 items-start">
-        {COLUMN_IDS.map((columnId) => (
-          <Column
-            key={columnId}
-            columnId={columnId}
-            tasks={getColumn(columnId)}
-            conflictIds={conflictIds}
-            onCreateTask={onCreateTask}
-            onUpdateTask={onUpdateTask}
-            onDeleteTask={onDeleteTask}
-          />
-        ))}
-      </div>
+      {groupBy === 'none' ? (
+        <div
+          className="flex gap-6 p-6 overflow-x-auto flex-1 items-start"
+          onClick={(e) => { if (e.target === e.currentTarget) setSelected([]); }}
+        >
+          {columns.map((column) => renderColumn(column, shown[column.id]))}
+          {addColumn}
+        </div>
+      ) : (
+        <div
+          className="flex flex-col gap-8 p-6 overflow-auto flex-1"
+          onClick={(e) => { if (e.target === e.currentTarget) setSelected([]); }}
+        >
+          {lanes.map((lane, i) => (
+            <section key={lane.key} aria-label={`Swimlane ${lane.title}`} className="flex flex-col gap-3">
+              <div className="flex items-center gap-2 px-1">
+                <span
+                  className="w-2.5 h-2.5 rounded-full"
+                  style={{ backgroundColor: lane.color ?? 'var(--color-border-strong)' }}
+                />
+                <h2 className="text-sm font-semibold text-[var(--color-text-primary)]">{lane.title}</h2>
+                <span className="text-xs tabular-nums text-[var(--color-text-tertiary)]">
+                  {Object.values(shown).flat().filter((t) => laneKey(t, groupBy) === lane.key).length}
+                </span>
+              </div>
+              <div className="flex gap-6 items-start">
+                {columns.map((column) =>
+                  renderColumn(column, shown[column.id].filter((t) => laneKey(t, groupBy) === lane.key), lane.key),
+                )}
+                {i === 0 && addColumn}
+              </div>
+            </section>
+          ))}
+        </div>
+      )}
 
       {/* Drag overlay — ghost card following the cursor */}
       <DragOverlay dropAnimation={{ duration: 150, easing: 'ease-out' }}>
         {activeTask && (
-          <div className="rotate-2 opacity-90 pointer-events-none">
+          <div className="relative rotate-2 opacity-90 pointer-events-none">
+            {dragGroup.length > 1 && (
+              <span className="absolute -top-2 -right-2 z-10 min-w-5 h-5 px-1.5 flex items-center justify-center rounded-full text-[11px] font-semibold tabular-nums text-white bg-[var(--color-accent-primary)] shadow">
+                {dragGroup.length}
+              </span>
+            )}
             <TaskCard
               task={activeTask}
               isOverlay
+              textEditor={textEditor}
+              comments={comments}
+              labels={labels}
+              checklist={checklist}
               onUpdate={() => {}}
               onDelete={() => {}}
             />
@@ -0,0 +1,29 @@
+/**
+ * components/board/LabelChip.tsx
+ *
+ * Coloured pill showing a label's name. Used on TaskCard, in
+ * TaskDetailPanel, the label filter and LabelManager.
+ */
+import type { BoardLabel } from '@/types';
+
+interface LabelChipProps {
+  label:  Pick<BoardLabel, 'name' | 'color'>;
+  /** Outlined instead of filled — e.g. a label not (yet) on the task */
+  muted?: boolean;
+}
+
+export function LabelChip({ label, muted }: LabelChipProps) {
+  return (
+    <span
+      className="inline-flex items-center max-w-full px-1.5 py-0.5 rounded text-[10px] font-semibold leading-none truncate border"
+      style={
+        muted
+          ? { color: label.color, borderColor: `${label.color}66`, backgroundColor: 'transparent' }
+          : { color: 'white', borderColor: label.color, backgroundColor: label.color }
+      }
+      title={label.name}
+    >
+      {label.name}
+    </span>
+  );
+}
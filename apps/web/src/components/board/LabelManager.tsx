@@ -0,0 +1,181 @@
+/**
+ * components/board/LabelManager.tsx
+ *
+ * Slide-over for the board's label catalog: create, rename, recolor and
+ * delete labels. Opened from the Labels section of TaskDetailPanel; only
+ * rendered for users with label:manage.
+ *
+ * Changes are not optimistic — the LABEL_* broadcasts update the catalog
+ * (and, for a delete, every task that carried the label).
+ *
+ * Rendered through a portal, like TaskHistoryPanel.
+ */
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Trash2, X } from 'lucide-react';
+import { ACCENT_PALETTE } from '@/lib/palette';
+import { useBoardStore, sortedLabels } from '@/store/boardStore';
+import type { LabelActions } from '@/hooks/useBoard';
+import type { BoardLabel } from '@/types';
+import { LabelChip } from './LabelChip';
+
+interface LabelManagerProps {
+  labels:  LabelActions;
+  onClose: () => void;
+}
+
+const MAX_NAME_LENGTH = 40;
+
+const inputClass =
+  'flex-1 min-w-0 text-xs bg-[var(--color-bg-secondary)] rounded-md px-2 py-1 outline-none text-[var(--color-text-primary)] placeholder:text-[var(--color-text-tertiary)] border border-[var(--color-border)] focus:border-[var(--color-accent-primary)]';
+
+function Swatches({ value, onPick }: { value: string; onPick: (color: string) => void }) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {ACCENT_PALETTE.map((color) => (
+        <button
+          key={color}
+          onClick={() => onPick(color)}
+          className="w-4 h-4 rounded-full border-2 transition-transform hover:scale-110"
+          style={{ backgroundColor: color, borderColor: color === value ? 'var(--color-text-primary)' : 'transparent' }}
+          aria-label={`Set colour ${color}`}
+        />
+      ))}
+    </div>
+  );
+}
+
+function LabelRow({ label, labels }: { label: BoardLabel; labels: LabelActions }) {
+  const [name,       setName]       = useState(label.name);
+  const [confirming, setConfirming] = useState(false);
+
+  function rename() {
+    const trimmed = name.trim();
+    if (trimmed && trimmed !== label.name) labels.update(label, { name: trimmed });
+    else setName(label.name);
+  }
+
+  return (
+    <li className="flex flex-col gap-1.5 rounded-lg border border-[var(--color-border)] p-2.5">
+      <div className="flex items-center gap-2">
+        <input
+          value={name}
+          maxLength={MAX_NAME_LENGTH}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={rename}
+          onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+          className={inputClass}
+          aria-label={`Rename label ${label.name}`}
+        />
+        {confirming ? (
+          <>
+            <button
+              onClick={() => labels.remove(label)}
+              className="px-2 py-1 rounded-md text-[11px] font-medium bg-red-600 text-white hover:bg-red-700"
+            >
+              Delete
+            </button>
+            <button
+              onClick={() => setConfirming(false)}
+              className="px-1.5 py-1 rounded-md text-[11px] text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-secondary)]"
+            >
+              Cancel
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={() => setConfirming(true)}
+            className="p-1 rounded text-[var(--color-text-tertiary)] hover:text-[var(--color-danger)] hover:bg-[var(--color-bg-secondary)]"
+            aria-label={`Delete label ${label.name}`}
+          >
+            <Trash2 size={12} />
+          </button>
+        )}
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <LabelChip label={label} />
+        <Swatches value={label.color} onPick={(color) => labels.update(label, { color })} />
+      </div>
+      {confirming && (
+        <p className="text-[10px] text-[var(--color-text-tertiary)]">Removes the label from every task.</p>
+      )}
+    </li>
+  );
+}
+
+export function LabelManager({ labels, onClose }: LabelManagerProps) {
+  const catalog = sortedLabels(useBoardStore((s) => s.labels));
+  const [name,  setName]  = useState('');
+  const [color, setColor] = useState<string>(ACCENT_PALETTE[0]);
+
+  function create() {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    labels.create(trimmed, color);
+    setName('');
+  }
+
+  return createPortal(
+    // React events bubble through portals — keep them away from the card's drag listeners
+    <div
+      className="fixed inset-0 z-50 flex justify-end"
+      onPointerDown={(e) => e.stopPropagation()}
+      onKeyDown={(e) => { e.stopPropagation(); if (e.key === 'Escape') onClose(); }}
+    >
+      {/* Click-away backdrop */}
+      <div className="absolute inset-0 bg-black/20" onClick={onClose} />
+
+      <aside
+        role="dialog"
+        aria-label="Labels"
+        className="relative w-80 max-w-full h-full flex flex-col bg-[var(--color-bg-card)] border-l border-[var(--color-border)] shadow-[var(--shadow-card-hover)] animate-fade-in"
+      >
+        <header className="flex items-center justify-between gap-2 px-4 py-3 border-b border-[var(--color-border)]">
+          <p className="text-sm font-semibold text-[var(--color-text-primary)]">Labels</p>
+          <button
+            onClick={onClose}
+            className="p-1.5 rounded text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-secondary)]"
+            aria-label="Close labels"
+          >
+            <X size={15} />
+          </button>
+        </header>
+
+        <div className="flex-1 overflow-y-auto px-4 py-3">
+          {catalog.length === 0 && (
+            <p className="text-xs text-[var(--color-text-tertiary)]">This board has no labels yet.</p>
+          )}
+          <ul className="flex flex-col gap-2">
+            {catalog.map((label) => (
+              // Keyed by name too, so a rename from elsewhere resets the input
+              <LabelRow key={`${label.id}:${label.name}`} label={label} labels={labels} />
+            ))}
+          </ul>
+        </div>
+
+        <footer className="flex flex-col gap-2 px-4 py-3 border-t border-[var(--color-border)]">
+          <div className="flex items-center gap-2">
+            <input
+              value={name}
+              maxLength={MAX_NAME_LENGTH}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') create(); }}
+              placeholder="New label…"
+              className={inputClass}
+              aria-label="New label name"
+            />
+            <button
+              onClick={create}
+              disabled={!name.trim()}
+              className="px-2.5 py-1 rounded-md text-xs font-medium text-white bg-[var(--color-accent-primary)] disabled:opacity-60"
+            >
+              Add
+            </button>
+          </div>
+          <Swatches value={color} onPick={setColor} />
+        </footer>
+      </aside>
+    </div>,
+    document.body,
+  );
+}
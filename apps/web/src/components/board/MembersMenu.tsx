@@ -0,0 +1,138 @@
+/**
+ * components/board/MembersMenu.tsx
+ *
+ * Top-bar "Members" dropdown for the open board. Everyone can see who is on
+ * the board and their role; admins can also invite an existing user by
+ * email, change roles and remove members.
+ */
+import { useState } from 'react';
+import { Trash2, UserPlus, Users } from 'lucide-react';
+import { useAuthStore } from '@/store/authStore';
+import { usePermission } from '@/hooks/usePermission';
+import { useMembers, useAddMember, useUpdateMemberRole, useRemoveMember } from '@/hooks/useMembers';
+import type { Role } from '@/types';
+
+const ROLE_OPTIONS: Role[] = ['viewer', 'editor', 'admin'];
+
+const selectClass =
+  'text-xs rounded-md border border-[var(--color-border)] bg-[var(--color-bg-card)] px-1.5 py-1 text-[var(--color-text-primary)] disabled:opacity-60';
+
+export function MembersMenu({ boardId }: { boardId: string }) {
+  const [open,  setOpen]  = useState(false);
+  const [email, setEmail] = useState('');
+  const [role,  setRole]  = useState<Role>('editor');
+
+  const me        = useAuthStore((s) => s.user);
+  const canManage = usePermission('member:manage');
+
+  const { data: members } = useMembers(boardId);
+  const addMember  = useAddMember(boardId);
+  const updateRole = useUpdateMemberRole(boardId);
+  const remove     = useRemoveMember(boardId);
+
+  const error = addMember.error ?? updateRole.error ?? remove.error;
+
+  function handleInvite(e: React.FormEvent) {
+    e.preventDefault();
+    const trimmed = email.trim();
+    if (!trimmed) return;
+    addMember.mutate({ email: trimmed, role }, { onSuccess: () => setEmail('') });
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen((v) => !v)}
+        className="flex items-center gap-1.5 px-2 py-1 rounded-md text-sm font-medium text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-secondary)] transition-colors"
+        aria-haspopup="dialog"
+        aria-expanded={open}
+      >
+        <Users size={15} />
+        <span>{members?.length ?? ''}</span>
+      </button>
+
+      {open && (
+        <>
+          {/* Click-away backdrop */}
+          <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+
+          <div
+            role="dialog"
+            aria-label="Board members"
+            className="absolute right-0 mt-1 z-50 w-80 rounded-lg bg-[var(--color-bg-card)] border border-[var(--color-border)] shadow-[var(--shadow-card-hover)] py-2 animate-fade-in"
+          >
+            <ul className="max-h-72 overflow-y-auto">
+              {(members ?? []).map((m) => (
+                <li key={m.userId} className="flex items-center gap-2 px-3 py-1.5">
+                  <div
+                    className="w-6 h-6 rounded-full flex items-center justify-center text-[10px] font-bold text-white flex-shrink-0"
+                    style={{ backgroundColor: m.color }}
+                  >
+                    {m.displayName.charAt(0).toUpperCase()}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-[var(--color-text-primary)] truncate">
+                      {m.displayName}{m.userId === me?.id ? ' (you)' : ''}
+                    </p>
+                    <p className="text-[11px] text-[var(--color-text-tertiary)] truncate">{m.email}</p>
+                  </div>
+                  {canManage ? (
+                    <>
+                      <select
+                        value={m.role}
+                        onChange={(e) => updateRole.mutate({ userId: m.userId, role: e.target.value as Role })}
+                        className={selectClass}
+                        aria-label={`Role of ${m.displayName}`}
+                      >
+                        {ROLE_OPTIONS.map((r) => <option key={r} value={r}>{r}</option>)}
+                      </select>
+                      <button
+                        onClick={() => remove.mutate(m.userId)}
+                        className="p-1 rounded text-[var(--color-text-tertiary)] hover:text-[var(--color-danger)] hover:bg-[var(--color-bg-secondary)]"
+                        aria-label={`Remove ${m.displayName}`}
+                      >
+                        <Trash2 size={13} />
+                      </button>
+                    </>
+                  ) : (
+                    <span className="text-[11px] font-medium uppercase tracking-wide text-[var(--color-text-tertiary)]">
+                      {m.role}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+
+            {canManage && (
+              <form onSubmit={handleInvite} className="mt-2 pt-2 px-3 border-t border-[var(--color-border)] flex items-center gap-2">
+                <input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="Invite by email…"
+                  className="flex-1 min-w-0 text-sm rounded-md border border-[var(--color-border)] bg-[var(--color-bg-card)] px-2 py-1 text-[var(--color-text-primary)] outline-none focus:border-[var(--color-accent-primary)]"
+                  aria-label="Email of the user to invite"
+                />
+                <select value={role} onChange={(e) => setRole(e.target.value as Role)} className={selectClass} aria-label="Role for the invited user">
+                  {ROLE_OPTIONS.map((r) => <option key={r} value={r}>{r}</option>)}
+                </select>
+                <button
+                  type="submit"
+                  disabled={addMember.isPending}
+                  className="p-1.5 rounded-md text-white bg-[var(--color-brand-600)] hover:bg-[var(--color-brand-700)] disabled:opacity-50"
+                  aria-label="Invite"
+                >
+                  <UserPlus size={14} />
+                </button>
+              </form>
+            )}
+
+            {error && (
+              <p className="px-3 pt-2 text-xs text-[var(--color-danger)]">{error.message}</p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -6,41 +6,119 @@
  *
  * Features:
  *   - dnd-kit useSortable for drag handle
- *   - Inline editing for title and description (double-click)
+ *   - Inline editing for title and description (double-click) — live and
+ *     collaborative: keystrokes merge with anyone else editing the card
  *   - Presence: "User is editing..." pill when active
  *   - Delete button on hover
+ *   - History button on hover → TaskHistoryPanel
+ *   - Comment count button → TaskDetailPanel (description, assignees and
+ *     comment thread)
+ *   - Label chips (ids of deleted labels are skipped)
+ *   - Due date badge, red when overdue (plus a red border) and amber when
+ *     due soon — not in done columns; dates are edited in TaskDetailPanel
+ *   - "Blocked" marker while a task blocking this one is not done
+ *   - Checklist progress ("2/5"), green once every item is done
+ *   - Priority flag and story-point estimate; with the card focused, keys
+ *     1–4 set urgent / high / medium / low priority and 0 clears it
+ *   - Assignee avatars (board members; ids of former members are skipped)
+ *   - Search matches in the title and description are highlighted
+ *   - Cmd / ctrl-click toggles the card in the board's multi-select,
+ *     shift-click selects a range (lib/selection.ts); selected cards are
+ *     ringed and dragged together
+ *   - Read-only (no drag, edit or delete) without the task:edit permission
  *   - Visual conflict flash on rollback (animate-pulse-red)
  */
 import { useState, useRef, useEffect } from 'react';
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-import { Pencil, Trash2, X, Check } from 'lucide-react';
+import { Pencil, Trash2, Check, History, MessageSquare, CalendarClock, Flag, ListChecks, Lock } from 'lucide-react';
 import { usePresenceStore } from '@/store/presenceStore';
-import type { Task } from '@/types';
+import { useBoardStore } from '@/store/boardStore';
+import { useFilterStore } from '@/store/filterStore';
+import { sessionKey, useTextSyncStore } from '@/store/textSyncStore';
+import type { Task, TaskPatch, TextRange } from '@/types';
 import { useRelativeTime } from '@/hooks/useRelativeTime';
+import { useNow } from '@/hooks/useNow';
+import { dueState, formatDay, type DueState } from '@/lib/dueDates';
+import { PRIORITY_META, formatEstimate, priorityForKey } from '@/lib/priority';
+import { checklistProgress } from '@/lib/checklist';
+import type { SelectMode } from '@/lib/selection';
+import { openBlockers } from '@/lib/dependencies';
+import { usePermission } from '@/hooks/usePermission';
+import { useMembers } from '@/hooks/useMembers';
+import type { ChecklistActions, CommentActions, LabelActions, TextEditor } from '@/hooks/useBoard';
+import { UserAvatar } from '@/components/presence/UserAvatar';
+import { TaskHistoryPanel } from './TaskHistoryPanel';
+import { TaskDetailPanel } from './TaskDetailPanel';
+import { LabelChip } from './LabelChip';
 
 interface TaskCardProps {
   task:       Task;
-  onUpdate:   (task: Task, patch: { title?: string; description?: string }) => void;
+  textEditor: TextEditor;
+  comments:   CommentActions;
+  labels:     LabelActions;
+  checklist:  ChecklistActions;
+  onUpdate:   (task: Task, patch: TaskPatch) => void;
   onDelete:   (task: Task) => void;
   /** True when CONFLICT_NOTIFY just rolled back this task */
   isConflict?: boolean;
   /** True when rendered in DragOverlay */
   isOverlay?: boolean;
+  /** Part of the board's multi-select */
+  isSelected?: boolean;
+  /** Carried along while another selected card is dragged */
+  isGroupDragged?: boolean;
+  onSelect?:  (task: Task, mode: SelectMode) => void;
 }
 
-const COLUMN_COLORS: Record<string, string> = {
-  'todo': 'var(--color-todo)',
-  'in-progress': 'var(--color-inprogress)',
-  'done': 'var(--color-done)',
+/** Assignee avatars shown on the card before collapsing into "+N" */
+const MAX_AVATARS = 3;
+
+const DUE_BADGE_CLASS: Record<DueState, string> = {
+  overdue:  'text-white bg-[var(--color-danger)]',
+  soon:     'text-white bg-[var(--color-warning)]',
+  upcoming: 'text-[var(--color-text-secondary)] bg-[var(--color-bg-secondary)]',
 };
 
+const DUE_BADGE_TITLE: Record<DueState, string> = {
+  overdue:  'Overdue',
+  soon:     'Due soon',
+  upcoming: 'Due',
+};
 
+/** `text` with the search-matched `ranges` marked */
+function Highlighted({ text, ranges = [] }: { text: string; ranges?: TextRange[] }) {
+  const parts: React.ReactNode[] = [];
+  let at = 0;
+  for (const [start, end] of ranges) {
+    // Ranges come from the server's copy of the text — skip any a newer edit made stale
+    if (start < at || end > text.length) continue;
+    parts.push(text.slice(at, start));
+    parts.push(
+      <mark key={start} className="rounded-sm bg-[var(--color-warning)]/30 text-inherit">
+        {text.slice(start, end)}
+      </mark>,
+    );
+    at = end;
+  }
+  parts.push(text.slice(at));
+  return <>{parts}</>;
+}
 
-export function TaskCard({ task, onUpdate, onDelete, isConflict, isOverlay }: TaskCardProps) {
+export function TaskCard({
+  task, textEditor, comments, labels, checklist, onUpdate, onDelete, isConflict, isOverlay, isSelected, isGroupDragged, onSelect,
+}: TaskCardProps) {
   const [isEditing,   setIsEditing]   = useState(false);
-  const [titleDraft,  setTitleDraft]  = useState(task.title);
-  const [descDraft,   setDescDraft]   = useState(task.description);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showDetails, setShowDetails] = useState(false);
+  const commentCount = useBoardStore((s) => s.commentCounts[task.id] ?? 0);
+  const labelsById   = useBoardStore((s) => s.labels);
+  const taskLabels   = task.labelIds.map((id) => labelsById[id]).filter((l) => l !== undefined);
+  const progress     = checklistProgress(task.checklist);
+  const highlights   = useFilterStore((s) => s.searchHits?.[task.id]);
+  // While editing, the inputs show the collaborative sessions' text
+  const titleText = useTextSyncStore((s) => s.sessions[sessionKey(task.id, 'title')]?.text) ?? task.title;
+  const descText  = useTextSyncStore((s) => s.sessions[sessionKey(task.id, 'description')]?.text) ?? task.description;
   const titleRef = useRef<HTMLInputElement>(null);
 
   // Who else is editing this card?
@@ -51,7 +129,16 @@ export function TaskCard({ task, onUpdate, onDelete, isConflict, isOverlay }: Ta
 
   // Active editor (first one wins for UI display)
   const activeEditor = editingUsers[0];
-  const isDone = task.columnId === 'done';
+  const column = useBoardStore((s) => s.columns[task.columnId]);
+  const isDone = column?.isDone ?? false;
+  const tasksById   = useBoardStore((s) => s.tasks);
+  const columnsById = useBoardStore((s) => s.columns);
+  const blockers = openBlockers(task, tasksById, columnsById);
+  const canEdit = usePermission('task:edit');
+  const { data: members } = useMembers(task.boardId);
+  const assignees = (members ?? []).filter((m) => task.assigneeIds.includes(m.userId));
+  const now = useNow();
+  const due = dueState(task.dueAt, now, isDone) ?? (task.dueAt ? 'upcoming' : null);
 
   // dnd-kit sortable
   const {
@@ -61,18 +148,18 @@ export function TaskCard({ task, onUpdate, onDelete, isConflict, isOverlay }: Ta
     transform,
     transition,
     isDragging,
-  } = useSortable({ id: task.id, data: { task } });
+  } = useSortable({ id: task.id, data: { task }, disabled: !canEdit });
 
   const style = {
     // If dragging in overlay, don't apply transform (wrapper handles it)
     transform:  isOverlay ? undefined : CSS.Transform.toString(transform),
     transition: isOverlay ? undefined : transition,
     // Overlay is opaque (or close to it), original is heavily dimmed
-    opacity:    isOverlay ? 1 : (isDragging ? 0.3 : 1),
+    opacity:    isOverlay ? 1 : (isDragging || isGroupDragged ? 0.3 : 1),
     zIndex:     isDragging ? 999 : undefined,
     borderLeftColor: activeEditor ? activeEditor.color : 'transparent',
     borderLeftWidth: activeEditor ? '4px' : '0px',
-    backgroundColor: isOverlay ? `color-mix(in srgb, ${COLUMN_COLORS[task.columnId]}, white 90%)` : undefined,
+    backgroundColor: isOverlay ? `color-mix(in srgb, ${column?.color ?? 'var(--color-todo)'}, white 90%)` : undefined,
   };
 
   // Auto-updating relative time
@@ -85,28 +172,42 @@ export function TaskCard({ task, onUpdate, onDelete, isConflict, isOverlay }: Ta
 
   // ── Handlers ──────────────────────────────────────────────────────────────
 
-  function commitEdit() {
-    const trimmedTitle = titleDraft.trim();
-    if (!trimmedTitle) {
-      setTitleDraft(task.title); // revert empty title
-    } else {
-      onUpdate(task, {
-        title:       trimmedTitle !== task.title       ? trimmedTitle       : undefined,
-        description: descDraft   !== task.description  ? descDraft.trim()   : undefined,
-      });
-    }
-    setIsEditing(false);
+  function startEdit() {
+    if (!canEdit || isEditing) return;
+    textEditor.begin(task);
+    setIsEditing(true);
   }
 
-  function cancelEdit() {
-    setTitleDraft(task.title);
-    setDescDraft(task.description);
+  // Edits are sent as they are typed — finishing only closes the inputs
+  function finishEdit() {
+    textEditor.end(task);
     setIsEditing(false);
   }
 
   function handleKeyDown(e: React.KeyboardEvent) {
-    if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); commitEdit(); }
-    if (e.key === 'Escape') cancelEdit();
+    if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); finishEdit(); }
+    if (e.key === 'Escape') finishEdit();
+  }
+
+  // Priority shortcuts on the focused card itself; every other key goes to
+  // dnd-kit's keyboard dragging
+  function handleCardKeyDown(e: React.KeyboardEvent<HTMLDivElement>) {
+    const modified = e.ctrlKey || e.metaKey || e.altKey || e.shiftKey;
+    const priority = e.target === e.currentTarget && canEdit && !modified ? priorityForKey(e.key) : null;
+    if (priority) {
+      e.preventDefault();
+      if (priority !== task.priority) onUpdate(task, { priority });
+      return;
+    }
+    listeners?.onKeyDown?.(e);
+  }
+
+  function handleClick(e: React.MouseEvent<HTMLDivElement>) {
+    if (!onSelect || !canEdit || isEditing) return;
+    if (e.shiftKey || e.metaKey || e.ctrlKey) {
+      e.preventDefault();
+      onSelect(task, e.shiftKey ? 'range' : 'toggle');
+    }
   }
 
   // ── Render ─────────────────────────────────────────────────────────────────
@@ -119,16 +220,19 @@ export function TaskCard({ task, onUpdate, onDelete, isConflict, isOverlay }: Ta
         'group relative rounded-r-lg rounded-l-[4px] p-3',
         isOverlay 
           ? 'shadow-[var(--shadow-card-drag)] ring-2 ring-[var(--color-accent-primary)] cursor-grabbing' // Overlay style
-          : 'bg-[var(--color-bg-card)] border border-[var(--color-border)] shadow-sm hover:shadow-md cursor-grab active:cursor-grabbing', // Normal style
+          : `bg-[var(--color-bg-card)] border ${due === 'overdue' ? 'border-[var(--color-danger)]' : 'border-[var(--color-border)]'} shadow-sm hover:shadow-md ${canEdit ? 'cursor-grab active:cursor-grabbing' : ''}`, // Normal style
         'transition-all duration-[var(--transition-fast)]',
         'select-none',
         'animate-fade-in',
         isConflict ? 'animate-pulse-red' : '',
+        isSelected && !isOverlay ? 'ring-2 ring-[var(--color-accent-primary)]' : '',
         isDone ? 'opacity-60' : '', // Faded if done
       ].join(' ')}
       // Don't attach listeners to the overlay clone
       {...(isOverlay ? {} : attributes)}
       {...(isOverlay ? {} : listeners)}
+      onKeyDown={isOverlay ? undefined : handleCardKeyDown}
+      onClick={isOverlay ? undefined : handleClick}
     >
       {/* Editing Pill (instead of rings) if someone is actively editing */}
       {activeEditor && (
@@ -141,6 +245,13 @@ export function TaskCard({ task, onUpdate, onDelete, isConflict, isOverlay }: Ta
         </div>
       )}
 
+      {/* Labels */}
+      {taskLabels.length > 0 && (
+        <div className="mb-2 flex flex-wrap gap-1">
+          {taskLabels.map((label) => <LabelChip key={label.id} label={label} />)}
+        </div>
+      )}
+
       {/* Header row: title + actions */}
       <div className="flex items-start gap-2">
         {/* Title */}
@@ -148,8 +259,8 @@ export function TaskCard({ task, onUpdate, onDelete, isConflict, isOverlay }: Ta
           {isEditing ? (
             <input
               ref={titleRef}
-              value={titleDraft}
-              onChange={(e) => setTitleDraft(e.target.value)}
+              value={titleText}
+              onChange={(e) => textEditor.change(task, 'title', e.target.value)}
               onKeyDown={handleKeyDown}
               className="w-full text-sm font-medium bg-transparent border-b border-[var(--color-accent-primary)] outline-none text-[var(--color-text-primary)] pb-0.5"
               aria-label="Edit task title"
@@ -159,55 +270,59 @@ export function TaskCard({ task, onUpdate, onDelete, isConflict, isOverlay }: Ta
           ) : (
             <p
               className={`text-sm font-medium text-[var(--color-text-primary)] leading-snug truncate ${isDone ? 'line-through decoration-[var(--color-text-tertiary)] text-[var(--color-text-secondary)]' : ''}`}
-              onDoubleClick={() => setIsEditing(true)}
+              onDoubleClick={startEdit}
             >
-              {task.title}
+              <Highlighted text={task.title} ranges={highlights?.title} />
             </p>
           )}
         </div>
 
-        {/* Action buttons */}
-        <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0">
-          {isEditing ? (
-            <>
+        {/* Action buttons — history is open to every role */}
+        {(canEdit || !isEditing) && (
+          <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0">
+            {isEditing ? (
               <button
-                onClick={commitEdit}
+                onClick={finishEdit}
                 onPointerDown={(e) => e.stopPropagation()} // Prevent drag
                 className="p-1.5 rounded cursor-pointer text-[var(--color-success)] hover:bg-[var(--color-bg-secondary)]"
-                aria-label="Save"
+                aria-label="Done editing"
               >
                 <Check size={14} />
               </button>
-              <button
-                onClick={cancelEdit}
-                onPointerDown={(e) => e.stopPropagation()} // Prevent drag
-                className="p-1.5 rounded cursor-pointer text-[var(--color-text-tertiary)] hover:bg-[var(--color-bg-secondary)]"
-                aria-label="Cancel"
-              >
-                <X size={14} />
-              </button>
-            </>
-          ) : (
-            <>
-              <button
-                onClick={() => setIsEditing(true)}
-                onPointerDown={(e) => e.stopPropagation()} // Prevent drag
-                className="p-1.5 rounded cursor-pointer text-[var(--color-text-tertiary)] hover:text-[var(--color-accent-primary)] hover:bg-[var(--color-bg-secondary)]"
-                aria-label="Edit task"
-              >
-                <Pencil size={13} />
-              </button>
-              <button
-                onClick={() => onDelete(task)}
-                onPointerDown={(e) => e.stopPropagation()} // Prevent drag
-                className="p-1.5 rounded cursor-pointer text-[var(--color-text-tertiary)] hover:text-[var(--color-danger)] hover:bg-[var(--color-bg-secondary)]"
-                aria-label="Delete task"
-              >
-                <Trash2 size={13} />
-              </button>
-            </>
-          )}
-        </div>
+            ) : (
+              <>
+                <button
+                  onClick={() => setShowHistory(true)}
+                  onPointerDown={(e) => e.stopPropagation()} // Prevent drag
+                  className="p-1.5 rounded cursor-pointer text-[var(--color-text-tertiary)] hover:text-[var(--color-accent-primary)] hover:bg-[var(--color-bg-secondary)]"
+                  aria-label="Task history"
+                >
+                  <History size={13} />
+                </button>
+                {canEdit && (
+                  <>
+                    <button
+                      onClick={startEdit}
+                      onPointerDown={(e) => e.stopPropagation()} // Prevent drag
+                      className="p-1.5 rounded cursor-pointer text-[var(--color-text-tertiary)] hover:text-[var(--color-accent-primary)] hover:bg-[var(--color-bg-secondary)]"
+                      aria-label="Edit task"
+                    >
+                      <Pencil size={13} />
+                    </button>
+                    <button
+                      onClick={() => onDelete(task)}
+                      onPointerDown={(e) => e.stopPropagation()} // Prevent drag
+                      className="p-1.5 rounded cursor-pointer text-[var(--color-text-tertiary)] hover:text-[var(--color-danger)] hover:bg-[var(--color-bg-secondary)]"
+                      aria-label="Delete task"
+                    >
+                      <Trash2 size={13} />
+                    </button>
+                  </>
+                )}
+              </>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Description */}
@@ -215,9 +330,9 @@ export function TaskCard({ task, onUpdate, onDelete, isConflict, isOverlay }: Ta
         <div className="mt-2 pl-0">
           {isEditing ? (
             <textarea
-              value={descDraft}
-              onChange={(e) => setDescDraft(e.target.value)}
-              onKeyDown={(e) => { if (e.key === 'Escape') cancelEdit(); }}
+              value={descText}
+              onChange={(e) => textEditor.change(task, 'description', e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Escape') finishEdit(); }}
               rows={2}
               placeholder="Add description…"
               className="w-full text-xs bg-transparent outline-none resize-none text-[var(--color-text-secondary)] placeholder:text-[var(--color-text-tertiary)] border-b border-[var(--color-border)]"
@@ -227,9 +342,9 @@ export function TaskCard({ task, onUpdate, onDelete, isConflict, isOverlay }: Ta
           ) : (
             <p
               className={`text-xs text-[var(--color-text-secondary)] leading-relaxed line-clamp-2 cursor-text ${isDone ? 'line-through decoration-[var(--color-text-tertiary)] opacity-80' : ''}`}
-              onDoubleClick={() => setIsEditing(true)}
+              onDoubleClick={startEdit}
             >
-              {task.description}
+              <Highlighted text={task.description} ranges={highlights?.description} />
             </p>
           )}
         </div>
@@ -251,7 +366,104 @@ export function TaskCard({ task, onUpdate, onDelete, isConflict, isOverlay }: Ta
               {timeString}
             </span>
          </div>
+
+         <div className="flex items-center gap-2">
+            {blockers.length > 0 && (
+              <button
+                onClick={() => setShowDetails(true)}
+                onPointerDown={(e) => e.stopPropagation()} // Prevent drag
+                className="flex items-center gap-1 px-1.5 py-0.5 rounded cursor-pointer text-[10px] font-semibold text-[var(--color-danger)] bg-[var(--color-bg-secondary)]"
+                title={`Blocked by ${blockers.map((t) => `"${t.title}"`).join(', ')}`}
+              >
+                <Lock size={11} />
+                Blocked
+              </button>
+            )}
+
+            {task.priority !== 'none' && (
+              <span title={`${PRIORITY_META[task.priority].label} priority`}>
+                <Flag
+                  size={12}
+                  color={PRIORITY_META[task.priority].color}
+                  fill={PRIORITY_META[task.priority].color}
+                  aria-label={`${PRIORITY_META[task.priority].label} priority`}
+                />
+              </span>
+            )}
+
+            {typeof task.estimate === 'number' && (
+              <span className="px-1.5 py-0.5 rounded bg-[var(--color-bg-secondary)] text-[10px] font-semibold tabular-nums text-[var(--color-text-secondary)]">
+                {formatEstimate(task.estimate)}
+              </span>
+            )}
+
+            {progress.total > 0 && (
+              <button
+                onClick={() => setShowDetails(true)}
+                onPointerDown={(e) => e.stopPropagation()} // Prevent drag
+                className={`flex items-center gap-1 px-1.5 py-0.5 rounded cursor-pointer text-[10px] font-semibold tabular-nums ${
+                  progress.done === progress.total
+                    ? 'text-white bg-[var(--color-success)]'
+                    : 'text-[var(--color-text-secondary)] bg-[var(--color-bg-secondary)]'
+                }`}
+                title={`${progress.done} of ${progress.total} checklist items done`}
+              >
+                <ListChecks size={11} />
+                {progress.done}/{progress.total}
+              </button>
+            )}
+
+            {task.dueAt && due && (
+              <button
+                onClick={() => setShowDetails(true)}
+                onPointerDown={(e) => e.stopPropagation()} // Prevent drag
+                className={`flex items-center gap-1 px-1.5 py-0.5 rounded cursor-pointer text-[10px] font-semibold ${DUE_BADGE_CLASS[due]}`}
+                title={`${DUE_BADGE_TITLE[due]} ${new Date(task.dueAt).toLocaleString()}`}
+              >
+                <CalendarClock size={11} />
+                {formatDay(task.dueAt, now)}
+              </button>
+            )}
+
+            {assignees.length > 0 && (
+              <div
+                className="flex items-center -space-x-1.5"
+                aria-label={`Assigned to ${assignees.map((m) => m.displayName).join(', ')}`}
+              >
+                {assignees.slice(0, MAX_AVATARS).map((m) => (
+                  <UserAvatar key={m.userId} user={m} size="sm" />
+                ))}
+                {assignees.length > MAX_AVATARS && (
+                  <span className="pl-2.5 text-[10px] font-medium text-[var(--color-text-tertiary)]">
+                    +{assignees.length - MAX_AVATARS}
+                  </span>
+                )}
+              </div>
+            )}
+
+            <button
+              onClick={() => setShowDetails(true)}
+              onPointerDown={(e) => e.stopPropagation()} // Prevent drag
+              className="flex items-center gap-1 px-1 py-0.5 rounded cursor-pointer text-[10px] font-medium text-[var(--color-text-tertiary)] hover:text-[var(--color-accent-primary)] hover:bg-[var(--color-bg-secondary)]"
+              aria-label={`Open details (${commentCount} comments)`}
+            >
+              <MessageSquare size={12} />
+              {commentCount > 0 && commentCount}
+            </button>
+         </div>
       </div>
+
+      {showHistory && <TaskHistoryPanel task={task} onClose={() => setShowHistory(false)} />}
+      {showDetails && (
+        <TaskDetailPanel
+          task={task}
+          comments={comments}
+          labels={labels}
+          checklist={checklist}
+          onUpdate={onUpdate}
+          onClose={() => setShowDetails(false)}
+        />
+      )}
     </div>
   );
 }
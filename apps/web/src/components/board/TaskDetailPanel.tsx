@@ -0,0 +1,679 @@
+/**
+ * components/board/TaskDetailPanel.tsx
+ *
+ * Slide-over with the full task — its column, description, dates, checklist,
+ * dependencies, labels, assignees and comment thread — opened from the comment button, the
+ * checklist progress or the due date badge on a TaskCard.
+ *
+ * Editors and admins set the start / due date, priority and estimate, pick
+ * the tasks blocking this one, toggle labels and assign board members
+ * (TASK_UPDATE with the full blockedByIds / labelIds / assigneeIds list, so
+ * it is undoable like any other edit), and open the board's LabelManager
+ * from here.
+ *
+ * Editors also tick, rename (double-click), reorder and delete checklist
+ * items and add new ones; these go through CHECKLIST_ITEM_* rather than
+ * TASK_UPDATE and are not undoable.
+ *
+ * Everyone can read the thread; editors and admins can comment. Authors
+ * edit and delete their own comments, admins can delete anyone's. The
+ * thread updates live (useWebSocket patches the comments query).
+ *
+ * Rendered through a portal, like TaskHistoryPanel.
+ */
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { ChevronDown, ChevronUp, Pencil, Settings2, Trash2, X } from 'lucide-react';
+import { useComments } from '@/hooks/useComments';
+import { useMembers } from '@/hooks/useMembers';
+import { usePermission } from '@/hooks/usePermission';
+import { getRelativeTime } from '@/hooks/useRelativeTime';
+import { fromDateInput, toDateInput } from '@/lib/dueDates';
+import { PRIORITIES, PRIORITY_META } from '@/lib/priority';
+import { checklistProgress } from '@/lib/checklist';
+import { blockedTasks, wouldCycle } from '@/lib/dependencies';
+import { useAuthStore } from '@/store/authStore';
+import { useBoardStore, sortedLabels } from '@/store/boardStore';
+import { UserAvatar } from '@/components/presence/UserAvatar';
+import type { ChecklistActions, CommentActions, LabelActions } from '@/hooks/useBoard';
+import type { ChecklistItem, Task, TaskComment, TaskPatch, TaskPriority } from '@/types';
+import { LabelChip } from './LabelChip';
+import { LabelManager } from './LabelManager';
+
+interface TaskDetailPanelProps {
+  task:     Task;
+  comments: CommentActions;
+  labels:   LabelActions;
+  checklist: ChecklistActions;
+  onUpdate: (task: Task, patch: TaskPatch) => void;
+  onClose:  () => void;
+}
+
+const MAX_COMMENT_LENGTH = 5000;
+const MAX_ITEM_LENGTH    = 500;
+const MAX_ITEMS          = 100;
+
+const textareaClass =
+  'w-full text-xs bg-[var(--color-bg-secondary)] rounded-md px-2 py-1.5 outline-none resize-none text-[var(--color-text-primary)] placeholder:text-[var(--color-text-tertiary)] border border-[var(--color-border)] focus:border-[var(--color-accent-primary)]';
+
+const iconButtonClass =
+  'p-1 rounded text-[var(--color-text-tertiary)] hover:bg-[var(--color-bg-secondary)]';
+
+const sectionTitleClass = 'text-[11px] font-semibold uppercase tracking-wide text-[var(--color-text-tertiary)]';
+const sectionLabelClass = `mt-5 mb-2 ${sectionTitleClass}`;
+
+const fieldClass =
+  'w-full text-xs bg-[var(--color-bg-secondary)] rounded-md px-2 py-1.5 outline-none text-[var(--color-text-primary)] border border-[var(--color-border)] disabled:opacity-60';
+
+/** Start / due day pickers — clearing an input removes the date. */
+function Dates({ task, onUpdate }: { task: Task; onUpdate: TaskDetailPanelProps['onUpdate'] }) {
+  const canEdit = usePermission('task:edit');
+  const start   = toDateInput(task.startAt);
+  const due     = toDateInput(task.dueAt);
+
+  return (
+    <>
+      <p className={sectionLabelClass}>Dates</p>
+      <div className="grid grid-cols-2 gap-2">
+        <label className="flex flex-col gap-1 text-[10px] text-[var(--color-text-tertiary)]">
+          Start
+          <input
+            type="date"
+            value={start}
+            max={due || undefined}
+            disabled={!canEdit}
+            onChange={(e) => {
+              if (due && e.target.value > due) return;
+              onUpdate(task, { startAt: fromDateInput(e.target.value, 'start') });
+            }}
+            className={fieldClass}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-[10px] text-[var(--color-text-tertiary)]">
+          Due
+          <input
+            type="date"
+            value={due}
+            min={start || undefined}
+            disabled={!canEdit}
+            onChange={(e) => {
+              if (e.target.value && e.target.value < start) return;
+              onUpdate(task, { dueAt: fromDateInput(e.target.value, 'end') });
+            }}
+            className={fieldClass}
+          />
+        </label>
+      </div>
+    </>
+  );
+}
+
+/**
+ * Priority and story-point estimate. The estimate is sent on blur / Enter;
+ * an empty field clears it. Keyed by the task's estimate, so a remote change
+ * resets the draft.
+ */
+function Planning({ task, onUpdate }: { task: Task; onUpdate: TaskDetailPanelProps['onUpdate'] }) {
+  const canEdit = usePermission('task:edit');
+  const [estimate, setEstimate] = useState(task.estimate?.toString() ?? '');
+
+  function commitEstimate() {
+    const value = estimate.trim() === '' ? null : Math.round(Number(estimate) * 10) / 10;
+    if (value !== null && (!Number.isFinite(value) || value < 0 || value > 999)) {
+      setEstimate(task.estimate?.toString() ?? '');
+      return;
+    }
+    if (value !== (task.estimate ?? null)) onUpdate(task, { estimate: value });
+  }
+
+  return (
+    <>
+      <p className={sectionLabelClass}>Planning</p>
+      <div className="grid grid-cols-2 gap-2">
+        <label className="flex flex-col gap-1 text-[10px] text-[var(--color-text-tertiary)]">
+          Priority
+          <select
+            value={task.priority}
+            disabled={!canEdit}
+            onChange={(e) => onUpdate(task, { priority: e.target.value as TaskPriority })}
+            className={fieldClass}
+          >
+            {PRIORITIES.map((p) => (
+              <option key={p} value={p}>{PRIORITY_META[p].label} ({PRIORITY_META[p].key})</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-[10px] text-[var(--color-text-tertiary)]">
+          Estimate (points)
+          <input
+            type="number"
+            min={0}
+            max={999}
+            step={0.5}
+            value={estimate}
+            disabled={!canEdit}
+            onChange={(e) => setEstimate(e.target.value)}
+            onBlur={commitEstimate}
+            onKeyDown={(e) => { if (e.key === 'Enter') commitEstimate(); }}
+            placeholder="—"
+            className={fieldClass}
+          />
+        </label>
+      </div>
+    </>
+  );
+}
+
+function ChecklistRow({ task, item, index, checklist }: {
+  task: Task; item: ChecklistItem; index: number; checklist: ChecklistActions;
+}) {
+  const canEdit = usePermission('task:edit');
+  const [editing, setEditing] = useState(false);
+  const [draft,   setDraft]   = useState(item.text);
+
+  function save() {
+    const text = draft.trim();
+    if (text && text !== item.text) checklist.update(task, item, { text });
+    setEditing(false);
+  }
+
+  return (
+    <li className="group/item flex items-start gap-2">
+      <input
+        type="checkbox"
+        checked={item.done}
+        disabled={!canEdit}
+        onChange={(e) => checklist.update(task, item, { done: e.target.checked })}
+        className="mt-0.5 accent-[var(--color-accent-primary)]"
+        aria-label={`Mark "${item.text}" ${item.done ? 'not done' : 'done'}`}
+      />
+
+      {editing ? (
+        <input
+          autoFocus
+          value={draft}
+          maxLength={MAX_ITEM_LENGTH}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={save}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') save();
+            if (e.key === 'Escape') { e.stopPropagation(); setEditing(false); }
+          }}
+          className={fieldClass}
+          aria-label="Edit checklist item"
+        />
+      ) : (
+        <span
+          onDoubleClick={() => { if (canEdit) { setDraft(item.text); setEditing(true); } }}
+          className={`flex-1 min-w-0 text-xs break-words ${
+            item.done ? 'line-through text-[var(--color-text-tertiary)]' : 'text-[var(--color-text-primary)]'
+          }`}
+        >
+          {item.text}
+        </span>
+      )}
+
+      {canEdit && !editing && (
+        <div className="flex items-center gap-0.5 opacity-0 group-hover/item:opacity-100 transition-opacity">
+          <button
+            onClick={() => checklist.move(task, item, -1)}
+            disabled={index === 0}
+            className={`${iconButtonClass} hover:text-[var(--color-accent-primary)] disabled:opacity-40`}
+            aria-label="Move item up"
+          >
+            <ChevronUp size={11} />
+          </button>
+          <button
+            onClick={() => checklist.move(task, item, 1)}
+            disabled={index === task.checklist.length - 1}
+            className={`${iconButtonClass} hover:text-[var(--color-accent-primary)] disabled:opacity-40`}
+            aria-label="Move item down"
+          >
+            <ChevronDown size={11} />
+          </button>
+          <button
+            onClick={() => checklist.remove(task, item)}
+            className={`${iconButtonClass} hover:text-[var(--color-danger)]`}
+            aria-label="Delete item"
+          >
+            <Trash2 size={11} />
+          </button>
+        </div>
+      )}
+    </li>
+  );
+}
+
+function Checklist({ task, checklist }: Pick<TaskDetailPanelProps, 'task' | 'checklist'>) {
+  const canEdit  = usePermission('task:edit');
+  const progress = checklistProgress(task.checklist);
+  const [draft, setDraft] = useState('');
+
+  function add() {
+    const text = draft.trim();
+    if (!text) return;
+    checklist.add(task, text);
+    setDraft('');
+  }
+
+  return (
+    <>
+      <div className="mt-5 mb-2 flex items-center justify-between">
+        <p className={sectionTitleClass}>Checklist</p>
+        {progress.total > 0 && (
+          <span className="text-[10px] font-medium tabular-nums text-[var(--color-text-tertiary)]">
+            {progress.done}/{progress.total} done
+          </span>
+        )}
+      </div>
+      {progress.total > 0 && (
+        <div className="mb-2 h-1 rounded-full bg-[var(--color-bg-secondary)] overflow-hidden">
+          <div
+            className="h-full bg-[var(--color-success)] transition-all"
+            style={{ width: `${(progress.done / progress.total) * 100}%` }}
+          />
+        </div>
+      )}
+      {progress.total === 0 && !canEdit && <p className="text-xs text-[var(--color-text-tertiary)]">No checklist.</p>}
+
+      <ul className="flex flex-col gap-1.5">
+        {task.checklist.map((item, index) => (
+          <ChecklistRow key={item.id} task={task} item={item} index={index} checklist={checklist} />
+        ))}
+      </ul>
+
+      {canEdit && progress.total < MAX_ITEMS && (
+        <input
+          value={draft}
+          maxLength={MAX_ITEM_LENGTH}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') add(); }}
+          placeholder="Add an item…"
+          className={`mt-2 ${fieldClass}`}
+          aria-label="New checklist item"
+        />
+      )}
+    </>
+  );
+}
+
+/**
+ * Tasks blocking this one (editable) and the tasks it blocks. Tasks that
+ * would close a cycle are left out of the picker.
+ */
+function Dependencies({ task, onUpdate }: { task: Task; onUpdate: TaskDetailPanelProps['onUpdate'] }) {
+  const tasks   = useBoardStore((s) => s.tasks);
+  const columns = useBoardStore((s) => s.columns);
+  const canEdit = usePermission('task:edit');
+
+  // Blockers in the trash aren't shown, but keep their link for a restore
+  const blockers   = task.blockedByIds.map((id) => tasks[id]).filter((t) => t !== undefined);
+  const blocking   = blockedTasks(task, tasks);
+  const candidates = Object.values(tasks)
+    .filter((t) => t.id !== task.id && !task.blockedByIds.includes(t.id) && !wouldCycle(tasks, task.id, t.id))
+    .sort((a, b) => a.title.localeCompare(b.title));
+
+  const setBlockers = (ids: string[]) => onUpdate(task, { blockedByIds: ids });
+
+  return (
+    <>
+      <p className={sectionLabelClass}>Blocked by</p>
+      {blockers.length === 0 && <p className="text-xs text-[var(--color-text-tertiary)]">Nothing.</p>}
+
+      <ul className="flex flex-col gap-1">
+        {blockers.map((t) => (
+          <li key={t.id} className="flex items-center gap-2 text-xs">
+            <span
+              className={`flex-1 min-w-0 truncate ${
+                columns[t.columnId]?.isDone ? 'line-through text-[var(--color-text-tertiary)]' : 'text-[var(--color-text-primary)]'
+              }`}
+            >
+              {t.title}
+            </span>
+            <span className="text-[10px] text-[var(--color-text-tertiary)]">{columns[t.columnId]?.title}</span>
+            {canEdit && (
+              <button
+                onClick={() => setBlockers(task.blockedByIds.filter((id) => id !== t.id))}
+                className={`${iconButtonClass} hover:text-[var(--color-danger)]`}
+                aria-label={`Unlink ${t.title}`}
+              >
+                <X size={11} />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {canEdit && candidates.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => { if (e.target.value) setBlockers([...task.blockedByIds, e.target.value]); }}
+          className={`mt-2 ${fieldClass}`}
+          aria-label="Add a blocking task"
+        >
+          <option value="">Add a blocking task…</option>
+          {candidates.map((t) => (
+            <option key={t.id} value={t.id}>{t.title}</option>
+          ))}
+        </select>
+      )}
+
+      {blocking.length > 0 && (
+        <>
+          <p className={sectionLabelClass}>Blocks</p>
+          <ul className="flex flex-col gap-1">
+            {blocking.map((t) => (
+              <li key={t.id} className="text-xs text-[var(--color-text-primary)] truncate">{t.title}</li>
+            ))}
+          </ul>
+        </>
+      )}
+    </>
+  );
+}
+
+function Labels({ task, labels, onUpdate }: Pick<TaskDetailPanelProps, 'task' | 'labels' | 'onUpdate'>) {
+  const catalog   = sortedLabels(useBoardStore((s) => s.labels));
+  const canEdit   = usePermission('task:edit');
+  const canManage = usePermission('label:manage');
+  const [managing, setManaging] = useState(false);
+
+  // Editors see the whole catalog as toggles, viewers only what's attached
+  const shown = canEdit ? catalog : catalog.filter((l) => task.labelIds.includes(l.id));
+
+  function toggle(labelId: string) {
+    const known = task.labelIds.filter((id) => catalog.some((l) => l.id === id));
+    onUpdate(task, {
+      labelIds: known.includes(labelId) ? known.filter((id) => id !== labelId) : [...known, labelId],
+    });
+  }
+
+  return (
+    <>
+      <div className="mt-5 mb-2 flex items-center justify-between">
+        <p className={sectionTitleClass}>Labels</p>
+        {canManage && (
+          <button
+            onClick={() => setManaging(true)}
+            className="flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium text-[var(--color-text-tertiary)] hover:text-[var(--color-accent-primary)] hover:bg-[var(--color-bg-secondary)]"
+          >
+            <Settings2 size={11} /> Manage
+          </button>
+        )}
+      </div>
+      {shown.length === 0 && <p className="text-xs text-[var(--color-text-tertiary)]">No labels.</p>}
+
+      <div className="flex flex-wrap gap-1.5">
+        {shown.map((label) =>
+          canEdit ? (
+            <button
+              key={label.id}
+              onClick={() => toggle(label.id)}
+              aria-pressed={task.labelIds.includes(label.id)}
+              aria-label={`Label ${label.name}`}
+            >
+              <LabelChip label={label} muted={!task.labelIds.includes(label.id)} />
+            </button>
+          ) : (
+            <LabelChip key={label.id} label={label} />
+          ),
+        )}
+      </div>
+
+      {managing && <LabelManager labels={labels} onClose={() => setManaging(false)} />}
+    </>
+  );
+}
+
+function Assignees({ task, onUpdate }: { task: Task; onUpdate: TaskDetailPanelProps['onUpdate'] }) {
+  const { data: members } = useMembers(task.boardId);
+  const canEdit    = usePermission('task:edit');
+  const assigned   = (members ?? []).filter((m) => task.assigneeIds.includes(m.userId));
+  const unassigned = (members ?? []).filter((m) => !task.assigneeIds.includes(m.userId));
+
+  // Ids of former members are dropped on the next change
+  const setAssignees = (ids: string[]) =>
+    onUpdate(task, { assigneeIds: ids.filter((id) => members?.some((m) => m.userId === id)) });
+
+  return (
+    <>
+      <p className={sectionLabelClass}>Assignees</p>
+      {assigned.length === 0 && <p className="text-xs text-[var(--color-text-tertiary)]">Nobody assigned.</p>}
+
+      <ul className="flex flex-wrap gap-1.5">
+        {assigned.map((m) => (
+          <li
+            key={m.userId}
+            className="flex items-center gap-1.5 pl-0.5 pr-1.5 py-0.5 rounded-full bg-[var(--color-bg-secondary)] text-xs text-[var(--color-text-primary)]"
+          >
+            <UserAvatar user={m} size="sm" />
+            {m.displayName}
+            {canEdit && (
+              <button
+                onClick={() => setAssignees(task.assigneeIds.filter((id) => id !== m.userId))}
+                className="p-0.5 rounded-full text-[var(--color-text-tertiary)] hover:text-[var(--color-danger)]"
+                aria-label={`Unassign ${m.displayName}`}
+              >
+                <X size={11} />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {canEdit && unassigned.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => { if (e.target.value) setAssignees([...task.assigneeIds, e.target.value]); }}
+          className="mt-2 w-full text-xs bg-[var(--color-bg-secondary)] rounded-md px-2 py-1.5 outline-none text-[var(--color-text-secondary)] border border-[var(--color-border)]"
+          aria-label="Assign a member"
+        >
+          <option value="">Assign a member…</option>
+          {unassigned.map((m) => (
+            <option key={m.userId} value={m.userId}>{m.displayName}</option>
+          ))}
+        </select>
+      )}
+    </>
+  );
+}
+
+function CommentItem({ comment, comments }: { comment: TaskComment; comments: CommentActions }) {
+  const [editing, setEditing] = useState(false);
+  const [draft,   setDraft]   = useState(comment.body);
+  const myId        = useAuthStore((s) => s.user?.id);
+  const canModerate = usePermission('comment:moderate');
+  const canComment  = usePermission('task:edit');
+  const isAuthor    = comment.authorId !== null && comment.authorId === myId;
+
+  function save() {
+    const body = draft.trim();
+    if (body && body !== comment.body) comments.update(comment, body);
+    setEditing(false);
+  }
+
+  return (
+    <li className="group/comment flex gap-2.5">
+      <div
+        className="w-6 h-6 mt-0.5 rounded-full flex items-center justify-center text-[10px] font-bold text-white flex-shrink-0"
+        style={{ backgroundColor: comment.authorColor ?? 'var(--color-brand-500)' }}
+      >
+        {(comment.authorName ?? '?').charAt(0).toUpperCase()}
+      </div>
+
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-1.5">
+          <span className="text-xs font-semibold text-[var(--color-text-primary)]">{comment.authorName ?? 'Someone'}</span>
+          <span className="text-[10px] text-[var(--color-text-tertiary)]" title={new Date(comment.createdAt).toLocaleString()}>
+            {getRelativeTime(comment.createdAt)}
+            {comment.updatedAt > comment.createdAt ? ' · edited' : ''}
+          </span>
+
+          {!editing && (
+            <div className="ml-auto flex items-center gap-0.5 opacity-0 group-hover/comment:opacity-100 transition-opacity">
+              {isAuthor && canComment && (
+                <button
+                  onClick={() => { setDraft(comment.body); setEditing(true); }}
+                  className={`${iconButtonClass} hover:text-[var(--color-accent-primary)]`}
+                  aria-label="Edit comment"
+                >
+                  <Pencil size={11} />
+                </button>
+              )}
+              {((isAuthor && canComment) || canModerate) && (
+                <button
+                  onClick={() => comments.remove(comment)}
+                  className={`${iconButtonClass} hover:text-[var(--color-danger)]`}
+                  aria-label="Delete comment"
+                >
+                  <Trash2 size={11} />
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
+        {editing ? (
+          <div className="mt-1">
+            <textarea
+              autoFocus
+              value={draft}
+              maxLength={MAX_COMMENT_LENGTH}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) save();
+                if (e.key === 'Escape') { e.stopPropagation(); setEditing(false); }
+              }}
+              rows={3}
+              className={textareaClass}
+              aria-label="Edit comment"
+            />
+            <div className="mt-1 flex justify-end gap-1.5">
+              <button
+                onClick={() => setEditing(false)}
+                className="px-2 py-0.5 rounded text-[11px] text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-secondary)]"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={save}
+                disabled={!draft.trim()}
+                className="px-2 py-0.5 rounded text-[11px] font-medium text-white bg-[var(--color-accent-primary)] disabled:opacity-60"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        ) : (
+          <p className="text-xs text-[var(--color-text-secondary)] leading-relaxed whitespace-pre-wrap break-words">
+            {comment.body}
+          </p>
+        )}
+      </div>
+    </li>
+  );
+}
+
+export function TaskDetailPanel({ task, comments, labels, checklist, onUpdate, onClose }: TaskDetailPanelProps) {
+  const { data: thread, isLoading, error } = useComments(task.id);
+  const column     = useBoardStore((s) => s.columns[task.columnId]);
+  const canComment = usePermission('task:edit');
+  const [draft, setDraft] = useState('');
+
+  function submit() {
+    const body = draft.trim();
+    if (!body) return;
+    comments.create(task.id, body);
+    setDraft('');
+  }
+
+  return createPortal(
+    // React events bubble through portals — keep them away from the card's drag listeners
+    <div
+      className="fixed inset-0 z-50 flex justify-end"
+      onPointerDown={(e) => e.stopPropagation()}
+      onKeyDown={(e) => { e.stopPropagation(); if (e.key === 'Escape') onClose(); }}
+    >
+      {/* Click-away backdrop */}
+      <div className="absolute inset-0 bg-black/20" onClick={onClose} />
+
+      <aside
+        role="dialog"
+        aria-label={`Details of ${task.title}`}
+        className="relative w-96 max-w-full h-full flex flex-col bg-[var(--color-bg-card)] border-l border-[var(--color-border)] shadow-[var(--shadow-card-hover)] animate-fade-in"
+      >
+        <header className="flex items-center justify-between gap-2 px-4 py-3 border-b border-[var(--color-border)]">
+          <div className="min-w-0">
+            <p className="text-[11px] font-semibold uppercase tracking-wide text-[var(--color-text-tertiary)]">
+              {column?.title ?? 'Task'}
+            </p>
+            <p className="text-sm font-semibold text-[var(--color-text-primary)] truncate">{task.title}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1.5 rounded text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-secondary)]"
+            aria-label="Close details"
+          >
+            <X size={15} />
+          </button>
+        </header>
+
+        <div className="flex-1 overflow-y-auto px-4 py-3">
+          <p className="text-xs text-[var(--color-text-secondary)] leading-relaxed whitespace-pre-wrap break-words">
+            {task.description || <span className="text-[var(--color-text-tertiary)]">No description.</span>}
+          </p>
+          <p className="mt-2 text-[10px] text-[var(--color-text-tertiary)]">
+            Created {getRelativeTime(task.createdAt)}
+            {task.creatorName ? ` by ${task.creatorName}` : ''}
+          </p>
+
+          <Dates task={task} onUpdate={onUpdate} />
+          <Planning key={task.estimate ?? ''} task={task} onUpdate={onUpdate} />
+          <Checklist task={task} checklist={checklist} />
+          <Dependencies task={task} onUpdate={onUpdate} />
+          <Labels task={task} labels={labels} onUpdate={onUpdate} />
+          <Assignees task={task} onUpdate={onUpdate} />
+
+          <p className={sectionLabelClass}>Comments</p>
+          {isLoading && <p className="text-xs text-[var(--color-text-tertiary)]">Loading…</p>}
+          {error && <p className="text-xs text-[var(--color-danger)]">{error.message}</p>}
+          {thread && thread.length === 0 && (
+            <p className="text-xs text-[var(--color-text-tertiary)]">No comments yet.</p>
+          )}
+
+          <ol className="flex flex-col gap-3">
+            {(thread ?? []).map((comment) => (
+              <CommentItem key={comment.id} comment={comment} comments={comments} />
+            ))}
+          </ol>
+        </div>
+
+        {canComment && (
+          <footer className="px-4 py-3 border-t border-[var(--color-border)]">
+            <textarea
+              value={draft}
+              maxLength={MAX_COMMENT_LENGTH}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) submit(); }}
+              rows={2}
+              placeholder="Write a comment…"
+              className={textareaClass}
+              aria-label="New comment"
+            />
+            <div className="mt-1.5 flex items-center justify-between">
+              <span className="text-[10px] text-[var(--color-text-tertiary)]">Ctrl+Enter to send</span>
+              <button
+                onClick={submit}
+                disabled={!draft.trim()}
+                className="px-2.5 py-1 rounded-md text-xs font-medium text-white bg-[var(--color-accent-primary)] disabled:opacity-60"
+              >
+                Comment
+              </button>
+            </div>
+          </footer>
+        )}
+      </aside>
+    </div>,
+    document.body,
+  );
+}
@@ -0,0 +1,189 @@
+/**
+ * components/board/TaskHistoryPanel.tsx
+ *
+ * Slide-over listing a task's change history (who changed what, when),
+ * opened from the clock button on a TaskCard.
+ *
+ * Rendered through a portal: sortable cards carry a CSS transform, which
+ * would otherwise turn `position: fixed` into "fixed to the card".
+ */
+import { createPortal } from 'react-dom';
+import { X } from 'lucide-react';
+import { useTaskHistory } from '@/hooks/useHistory';
+import { useMembers } from '@/hooks/useMembers';
+import { getRelativeTime } from '@/hooks/useRelativeTime';
+import { formatDay } from '@/lib/dueDates';
+import { PRIORITY_META, formatEstimate } from '@/lib/priority';
+import { useBoardStore } from '@/store/boardStore';
+import type { BoardColumn, BoardLabel, BoardMember, Task, TaskEvent, TaskPriority } from '@/types';
+
+interface TaskHistoryPanelProps {
+  task:    Task;
+  onClose: () => void;
+}
+
+/** `assigned Ada, Grace` / `unassigned Linus` lines for an assigneeIds change. */
+function describeAssignees(from: unknown, to: unknown, members: BoardMember[]): string[] {
+  const before = (from as string[] | null) ?? [];
+  const after  = (to   as string[] | null) ?? [];
+  const names  = (ids: string[]) =>
+    ids.map((id) => members.find((m) => m.userId === id)?.displayName ?? 'a former member').join(', ');
+
+  const added   = after.filter((id) => !before.includes(id));
+  const removed = before.filter((id) => !after.includes(id));
+  const lines: string[] = [];
+  if (added.length > 0)   lines.push(`assigned ${names(added)}`);
+  if (removed.length > 0) lines.push(`unassigned ${names(removed)}`);
+  return lines;
+}
+
+/** `added label Bug` / `removed labels UI, Docs` lines for a labelIds change. */
+function describeLabels(from: unknown, to: unknown, labels: Record<string, BoardLabel>): string[] {
+  const before = (from as string[] | null) ?? [];
+  const after  = (to   as string[] | null) ?? [];
+  const names  = (ids: string[]) =>
+    `label${ids.length > 1 ? 's' : ''} ${ids.map((id) => labels[id]?.name ?? 'a deleted label').join(', ')}`;
+
+  const added   = after.filter((id) => !before.includes(id));
+  const removed = before.filter((id) => !after.includes(id));
+  const lines: string[] = [];
+  if (added.length > 0)   lines.push(`added ${names(added)}`);
+  if (removed.length > 0) lines.push(`removed ${names(removed)}`);
+  return lines;
+}
+
+/** `now blocked by "Design"` / `no longer blocked by "API", "Docs"` lines for a blockedByIds change. */
+function describeBlockers(from: unknown, to: unknown, tasks: Record<string, Task>): string[] {
+  const before = (from as string[] | null) ?? [];
+  const after  = (to   as string[] | null) ?? [];
+  const titles = (ids: string[]) => ids.map((id) => (tasks[id] ? `"${tasks[id].title}"` : 'a deleted task')).join(', ');
+
+  const added   = after.filter((id) => !before.includes(id));
+  const removed = before.filter((id) => !after.includes(id));
+  const lines: string[] = [];
+  if (added.length > 0)   lines.push(`now blocked by ${titles(added)}`);
+  if (removed.length > 0) lines.push(`no longer blocked by ${titles(removed)}`);
+  return lines;
+}
+
+/** `set the due date to Mar 3` / `cleared the start date` for a startAt / dueAt change. */
+function describeDate(name: 'start' | 'due', to: unknown): string {
+  return to ? `set the ${name} date to ${formatDay(to as string)}` : `cleared the ${name} date`;
+}
+
+/** Human-readable lines for one event, e.g. `moved from "To Do" to "Done"`. */
+function describeEvent(
+  event:   TaskEvent,
+  columns: Record<string, BoardColumn>,
+  labels:  Record<string, BoardLabel>,
+  tasks:   Record<string, Task>,
+  members: BoardMember[],
+): string[] {
+  const columnName = (id: unknown) => columns[id as string]?.title ?? 'a deleted column';
+  const { diff } = event;
+
+  switch (event.type) {
+    case 'created':
+      return [`created this task in "${columnName(diff.columnId?.to)}"`];
+    case 'deleted':
+      return ['deleted this task'];
+    case 'restored':
+      return [`restored this task to "${columnName(diff.columnId?.to)}"`];
+    case 'moved':
+      return diff.columnId
+        ? [`moved it from "${columnName(diff.columnId.from)}" to "${columnName(diff.columnId.to)}"`]
+        : ['reordered it within the column'];
+    case 'updated': {
+      const lines: string[] = [];
+      if (diff.title)       lines.push(`renamed it from "${String(diff.title.from)}" to "${String(diff.title.to)}"`);
+      if (diff.description) lines.push(diff.description.to ? 'changed the description' : 'cleared the description');
+      if (diff.assigneeIds) lines.push(...describeAssignees(diff.assigneeIds.from, diff.assigneeIds.to, members));
+      if (diff.labelIds)    lines.push(...describeLabels(diff.labelIds.from, diff.labelIds.to, labels));
+      if (diff.blockedByIds) lines.push(...describeBlockers(diff.blockedByIds.from, diff.blockedByIds.to, tasks));
+      if (diff.startAt)     lines.push(describeDate('start', diff.startAt.to));
+      if (diff.dueAt)       lines.push(describeDate('due', diff.dueAt.to));
+      if (diff.priority) {
+        const to = diff.priority.to as TaskPriority;
+        lines.push(to === 'none' ? 'cleared the priority' : `set the priority to ${PRIORITY_META[to].label}`);
+      }
+      if (diff.estimate) {
+        const to = diff.estimate.to as number | null;
+        lines.push(to === null ? 'cleared the estimate' : `estimated it at ${formatEstimate(to)}`);
+      }
+      return lines.length > 0 ? lines : ['edited it'];
+    }
+  }
+}
+
+export function TaskHistoryPanel({ task, onClose }: TaskHistoryPanelProps) {
+  const { data: events, isLoading, error } = useTaskHistory(task.id);
+  const columns = useBoardStore((s) => s.columns);
+  const labels  = useBoardStore((s) => s.labels);
+  const tasks   = useBoardStore((s) => s.tasks);
+  const { data: members } = useMembers(task.boardId);
+
+  return createPortal(
+    // React events bubble through portals — keep them away from the card's drag listeners
+    <div
+      className="fixed inset-0 z-50 flex justify-end"
+      onPointerDown={(e) => e.stopPropagation()}
+      onKeyDown={(e) => { e.stopPropagation(); if (e.key === 'Escape') onClose(); }}
+    >
+      {/* Click-away backdrop */}
+      <div className="absolute inset-0 bg-black/20" onClick={onClose} />
+
+      <aside
+        role="dialog"
+        aria-label={`History of ${task.title}`}
+        className="relative w-96 max-w-full h-full flex flex-col bg-[var(--color-bg-card)] border-l border-[var(--color-border)] shadow-[var(--shadow-card-hover)] animate-fade-in"
+      >
+        <header className="flex items-center justify-between gap-2 px-4 py-3 border-b border-[var(--color-border)]">
+          <div className="min-w-0">
+            <p className="text-[11px] font-semibold uppercase tracking-wide text-[var(--color-text-tertiary)]">History</p>
+            <p className="text-sm font-semibold text-[var(--color-text-primary)] truncate">{task.title}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1.5 rounded text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-secondary)]"
+            aria-label="Close history"
+          >
+            <X size={15} />
+          </button>
+        </header>
+
+        <div className="flex-1 overflow-y-auto px-4 py-3">
+          {isLoading && <p className="text-xs text-[var(--color-text-tertiary)]">Loading…</p>}
+          {error && <p className="text-xs text-[var(--color-danger)]">{error.message}</p>}
+          {events && events.length === 0 && (
+            <p className="text-xs text-[var(--color-text-tertiary)]">No recorded changes yet.</p>
+          )}
+
+          <ol className="flex flex-col gap-3">
+            {(events ?? []).map((event) => (
+              <li key={event.id} className="flex gap-2.5">
+                <div
+                  className="w-6 h-6 mt-0.5 rounded-full flex items-center justify-center text-[10px] font-bold text-white flex-shrink-0"
+                  style={{ backgroundColor: event.actorColor ?? 'var(--color-brand-500)' }}
+                >
+                  {(event.actorName ?? '?').charAt(0).toUpperCase()}
+                </div>
+                <div className="min-w-0">
+                  {describeEvent(event, columns, labels, tasks, members ?? []).map((line, i) => (
+                    <p key={i} className="text-xs text-[var(--color-text-secondary)] leading-relaxed">
+                      <span className="font-semibold text-[var(--color-text-primary)]">{event.actorName ?? 'Someone'}</span>{' '}
+                      {line}
+                    </p>
+                  ))}
+                  <p className="text-[10px] text-[var(--color-text-tertiary)]" title={new Date(event.occurredAt).toLocaleString()}>
+                    {getRelativeTime(event.occurredAt)} · v{event.version}
+                  </p>
+                </div>
+              </li>
+            ))}
+          </ol>
+        </div>
+      </aside>
+    </div>,
+    document.body,
+  );
+}
@@ -0,0 +1,360 @@
+/**
+ * components/board/TaskTable.tsx
+ *
+ * Dense table view of the open board — the alternative to KanbanBoard,
+ * reading the same boardStore tasks narrowed by the same filters
+ * (filterStore, search included).
+ *
+ * Features:
+ *   - Sortable columns: title, status, priority, updated by, updated at
+ *     (lib/table.ts); click a header again to flip the direction
+ *   - Inline editing through useBoard: title (double-click or Enter) and
+ *     priority as updates, status as a TASK_MOVE to the bottom of the
+ *     picked column
+ *   - Keyboard: ↑/↓ (or k/j) move between rows, Shift extends the
+ *     selection, Space selects, Enter edits the title, Delete deletes,
+ *     Ctrl+A selects every row, Escape clears the selection
+ *   - Multi-select with bulk move, priority and delete — each one TASK_BATCH
+ *     when it touches several rows
+ *   - Read-only without the task:edit permission
+ */
+import { useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, Trash2, X } from 'lucide-react';
+import { useNow } from '@/hooks/useNow';
+import { usePermission } from '@/hooks/usePermission';
+import { getRelativeTime } from '@/hooks/useRelativeTime';
+import { useBoardStore, sortedColumns } from '@/store/boardStore';
+import { useAuthStore } from '@/store/authStore';
+import { filterTasks, useFilterStore } from '@/store/filterStore';
+import { PRIORITIES, PRIORITY_META } from '@/lib/priority';
+import { sortRows, updaterName, type TableSort, type TableSortKey } from '@/lib/table';
+import type { BatchActions } from '@/hooks/useBoard';
+import type { ColumnId, Task, TaskPatch, TaskPriority } from '@/types';
+
+interface TaskTableProps {
+  onUpdateTask: (task: Task, patch: TaskPatch) => void;
+  onMoveTask:   (task: Task, toColumn: ColumnId, overTaskId: string | null) => void;
+  onDeleteTask: (task: Task) => void;
+  batch:        BatchActions;
+}
+
+const HEADERS: Array<{ key: TableSortKey; label: string; className: string }> = [
+  { key: 'title',     label: 'Title',      className: 'w-auto' },
+  { key: 'status',    label: 'Status',     className: 'w-44' },
+  { key: 'priority',  label: 'Priority',   className: 'w-32' },
+  { key: 'updatedBy', label: 'Updated by', className: 'w-40' },
+  { key: 'updatedAt', label: 'Updated',    className: 'w-28' },
+];
+
+const selectClass =
+  'w-full text-xs bg-transparent rounded px-1 py-0.5 text-[var(--color-text-primary)] hover:bg-[var(--color-bg-secondary)] disabled:hover:bg-transparent disabled:appearance-none outline-none focus:ring-1 focus:ring-[var(--color-accent-primary)]';
+
+const bulkButtonClass =
+  'flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium hover:bg-[var(--color-bg-card)] disabled:opacity-60';
+
+export function TaskTable({ onUpdateTask, onMoveTask, onDeleteTask, batch }: TaskTableProps) {
+  const { getColumn } = useBoardStore();
+  const columnsById = useBoardStore((s) => s.columns);
+  const columns     = sortedColumns(columnsById);
+  const filters     = useFilterStore();
+  const myId        = useAuthStore((s) => s.user?.id);
+  const canEdit     = usePermission('task:edit');
+  const now         = useNow();
+
+  const [sort,       setSort]       = useState<TableSort>({ key: 'status', direction: 'asc' });
+  const [selected,   setSelected]   = useState<string[]>([]);
+  const [focusIdx,   setFocusIdx]   = useState(0);
+  const [editingId,  setEditingId]  = useState<string | null>(null);
+  const [titleDraft, setTitleDraft] = useState('');
+  const rowRefs = useRef<Array<HTMLTableRowElement | null>>([]);
+  // Escape leaves the title input without saving it
+  const cancelEdit = useRef(false);
+
+  const rows = sortRows(
+    columns.flatMap((column) => filterTasks(getColumn(column.id), filters, myId, now, column.isDone)),
+    sort,
+    columnsById,
+  );
+  // Selected tasks that are still shown, in row order
+  const selectedRows = rows.filter((t) => selected.includes(t.id));
+
+  // ── Sorting & selection ────────────────────────────────────────────────────
+
+  function sortBy(key: TableSortKey) {
+    setSort((s) => ({ key, direction: s.key === key && s.direction === 'asc' ? 'desc' : 'asc' }));
+  }
+
+  function toggle(id: string) {
+    setSelected((ids) => (ids.includes(id) ? ids.filter((x) => x !== id) : [...ids, id]));
+  }
+
+  function focusRow(idx: number) {
+    const clamped = Math.max(0, Math.min(rows.length - 1, idx));
+    setFocusIdx(clamped);
+    rowRefs.current[clamped]?.focus();
+  }
+
+  // ── Edits ──────────────────────────────────────────────────────────────────
+
+  function startEdit(task: Task) {
+    if (!canEdit) return;
+    setEditingId(task.id);
+    setTitleDraft(task.title);
+  }
+
+  /** The title input lost focus — save unless it was left with Escape */
+  function finishEdit(task: Task) {
+    const title = titleDraft.trim();
+    if (!cancelEdit.current && title && title !== task.title) onUpdateTask(task, { title });
+    cancelEdit.current = false;
+    setEditingId(null);
+  }
+
+  /** Status change — to the bottom of the target column */
+  function moveTo(tasks: Task[], columnId: ColumnId) {
+    const moving = tasks.filter((t) => t.columnId !== columnId);
+    if (moving.length === 1) onMoveTask(moving[0], columnId, null);
+    else batch.move(moving, columnId, null);
+  }
+
+  function setPriority(tasks: Task[], priority: TaskPriority) {
+    const changing = tasks.filter((t) => t.priority !== priority);
+    if (changing.length === 1) onUpdateTask(changing[0], { priority });
+    else batch.update(changing, { priority });
+  }
+
+  function remove(tasks: Task[]) {
+    if (tasks.length === 1) onDeleteTask(tasks[0]);
+    else batch.remove(tasks);
+    setSelected([]);
+  }
+
+  // ── Keyboard ───────────────────────────────────────────────────────────────
+
+  function handleRowKeyDown(e: React.KeyboardEvent<HTMLTableRowElement>, task: Task, idx: number) {
+    // Keys typed into the row's inputs and selects are theirs
+    if (e.target !== e.currentTarget) return;
+
+    const step = e.key === 'ArrowDown' || e.key === 'j' ? 1 : e.key === 'ArrowUp' || e.key === 'k' ? -1 : 0;
+    if (step !== 0) {
+      e.preventDefault();
+      const next = rows[idx + step];
+      if (!next) return;
+      if (e.shiftKey) setSelected((ids) => [...new Set([...ids, task.id, next.id])]);
+      focusRow(idx + step);
+      return;
+    }
+
+    switch (e.key) {
+      case 'Home': e.preventDefault(); focusRow(0); break;
+      case 'End':  e.preventDefault(); focusRow(rows.length - 1); break;
+      case ' ':    e.preventDefault(); toggle(task.id); break;
+      case 'Enter':
+      case 'F2':
+        e.preventDefault();
+        startEdit(task);
+        break;
+      case 'Delete':
+        if (canEdit) remove(selectedRows.length > 0 ? selectedRows : [task]);
+        break;
+      case 'Escape':
+        setSelected([]);
+        break;
+      case 'a':
+        if (e.ctrlKey || e.metaKey) {
+          e.preventDefault();
+          setSelected(rows.map((t) => t.id));
+        }
+        break;
+    }
+  }
+
+  // ── Render ─────────────────────────────────────────────────────────────────
+
+  const allSelected = rows.length > 0 && selectedRows.length === rows.length;
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0 p-6 gap-3">
+      {/* Bulk actions */}
+      {selectedRows.length > 0 && (
+        <div className="flex items-center gap-3 px-3 py-2 rounded-lg bg-[var(--color-bg-secondary)] text-sm animate-fade-in">
+          <span className="font-medium text-[var(--color-text-primary)] tabular-nums">
+            {selectedRows.length} selected
+          </span>
+          {canEdit && (
+            <>
+              <select
+                value=""
+                onChange={(e) => moveTo(selectedRows, e.target.value)}
+                className="text-xs rounded-md px-2 py-1 bg-[var(--color-bg-card)] border border-[var(--color-border)]"
+                aria-label="Move selected tasks to"
+              >
+                <option value="" disabled>Move to…</option>
+                {columns.map((c) => <option key={c.id} value={c.id}>{c.title}</option>)}
+              </select>
+              <select
+                value=""
+                onChange={(e) => setPriority(selectedRows, e.target.value as TaskPriority)}
+                className="text-xs rounded-md px-2 py-1 bg-[var(--color-bg-card)] border border-[var(--color-border)]"
+                aria-label="Set priority of selected tasks"
+              >
+                <option value="" disabled>Set priority…</option>
+                {PRIORITIES.map((p) => <option key={p} value={p}>{PRIORITY_META[p].label}</option>)}
+              </select>
+              <button
+                onClick={() => remove(selectedRows)}
+                className={`${bulkButtonClass} text-[var(--color-danger)]`}
+              >
+                <Trash2 size={13} />
+                Delete
+              </button>
+            </>
+          )}
+          <button
+            onClick={() => setSelected([])}
+            className={`${bulkButtonClass} ml-auto text-[var(--color-text-secondary)]`}
+          >
+            <X size={13} />
+            Clear
+          </button>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-auto rounded-xl border border-[var(--color-border)] bg-[var(--color-bg-card)]">
+        <table className="w-full text-sm border-collapse" aria-label="Tasks" aria-multiselectable="true">
+          <thead className="sticky top-0 z-10 bg-[var(--color-bg-secondary)]">
+            <tr>
+              <th className="w-10 px-3 py-2">
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={() => setSelected(allSelected ? [] : rows.map((t) => t.id))}
+                  aria-label="Select all tasks"
+                />
+              </th>
+              {HEADERS.map((header) => (
+                <th
+                  key={header.key}
+                  className={`${header.className} px-3 py-2 text-left`}
+                  aria-sort={sort.key !== header.key ? 'none' : sort.direction === 'asc' ? 'ascending' : 'descending'}
+                >
+                  <button
+                    onClick={() => sortBy(header.key)}
+                    className="flex items-center gap-1 text-xs font-semibold uppercase tracking-wide text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)]"
+                  >
+                    {header.label}
+                    {sort.key === header.key && (sort.direction === 'asc' ? <ArrowUp size={12} /> : <ArrowDown size={12} />)}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+
+          <tbody>
+            {rows.map((task, idx) => {
+              const isSelected = selected.includes(task.id);
+              const column     = columnsById[task.columnId];
+              return (
+                <tr
+                  key={task.id}
+                  ref={(el) => { rowRefs.current[idx] = el; }}
+                  tabIndex={idx === Math.min(focusIdx, rows.length - 1) ? 0 : -1}
+                  aria-selected={isSelected}
+                  onFocus={(e) => { if (e.target === e.currentTarget) setFocusIdx(idx); }}
+                  onKeyDown={(e) => handleRowKeyDown(e, task, idx)}
+                  className={[
+                    'border-t border-[var(--color-border)] outline-none',
+                    'focus:bg-[var(--color-bg-secondary)] focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-[var(--color-accent-primary)]',
+                    isSelected ? 'bg-[color-mix(in_srgb,var(--color-accent-primary),transparent_90%)]' : 'hover:bg-[var(--color-bg-secondary)]/60',
+                  ].join(' ')}
+                >
+                  <td className="px-3 py-1.5">
+                    <input
+                      type="checkbox"
+                      checked={isSelected}
+                      onChange={() => toggle(task.id)}
+                      aria-label={`Select "${task.title}"`}
+                      tabIndex={-1}
+                    />
+                  </td>
+
+                  {/* Title */}
+                  <td className="px-3 py-1.5 max-w-0">
+                    {editingId === task.id ? (
+                      <input
+                        autoFocus
+                        value={titleDraft}
+                        maxLength={500}
+                        onChange={(e) => setTitleDraft(e.target.value)}
+                        onBlur={() => finishEdit(task)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Escape') cancelEdit.current = true;
+                          // Back to the row; the blur saves
+                          if (e.key === 'Enter' || e.key === 'Escape') rowRefs.current[idx]?.focus();
+                        }}
+                        className="w-full text-sm bg-transparent border-b border-[var(--color-accent-primary)] outline-none text-[var(--color-text-primary)]"
+                        aria-label="Edit task title"
+                      />
+                    ) : (
+                      <p
+                        className="truncate font-medium text-[var(--color-text-primary)]"
+                        onDoubleClick={() => startEdit(task)}
+                        title={task.title}
+                      >
+                        {task.title}
+                      </p>
+                    )}
+                  </td>
+
+                  {/* Status */}
+                  <td className="px-3 py-1.5">
+                    <select
+                      value={task.columnId}
+                      disabled={!canEdit}
+                      onChange={(e) => moveTo([task], e.target.value)}
+                      className={selectClass}
+                      style={{ color: column ? `color-mix(in srgb, ${column.color}, black 35%)` : undefined }}
+                      aria-label={`Status of "${task.title}"`}
+                      tabIndex={-1}
+                    >
+                      {columns.map((c) => <option key={c.id} value={c.id}>{c.title}</option>)}
+                    </select>
+                  </td>
+
+                  {/* Priority */}
+                  <td className="px-3 py-1.5">
+                    <select
+                      value={task.priority}
+                      disabled={!canEdit}
+                      onChange={(e) => setPriority([task], e.target.value as TaskPriority)}
+                      className={selectClass}
+                      style={{ color: task.priority === 'none' ? undefined : PRIORITY_META[task.priority].color }}
+                      aria-label={`Priority of "${task.title}"`}
+                      tabIndex={-1}
+                    >
+                      {PRIORITIES.map((p) => <option key={p} value={p}>{PRIORITY_META[p].label}</option>)}
+                    </select>
+                  </td>
+
+                  <td className="px-3 py-1.5 text-xs text-[var(--color-text-secondary)] truncate">
+                    {updaterName(task) || 'Anonymous'}
+                  </td>
+                  <td
+                    className="px-3 py-1.5 text-xs text-[var(--color-text-tertiary)] tabular-nums"
+                    title={new Date(task.updatedAt).toLocaleString()}
+                  >
+                    {getRelativeTime(task.updatedAt)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        {rows.length === 0 && (
+          <p className="py-10 text-center text-xs text-[var(--color-text-tertiary)]">No tasks to show.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+/**
+ * components/board/TrashMenu.tsx
+ *
+ * Top-bar trash button + slide-over listing the open board's deleted tasks.
+ * Everyone can browse the trash; editors and admins can restore a task to
+ * the column and position it was deleted from. Tasks are purged for good
+ * after the server's retention period.
+ */
+import { useState } from 'react';
+import { RotateCcw, Trash2, X } from 'lucide-react';
+import { useTrash, useRestoreTask } from '@/hooks/useTrash';
+import { usePermission } from '@/hooks/usePermission';
+import { getRelativeTime } from '@/hooks/useRelativeTime';
+import { useBoardStore } from '@/store/boardStore';
+
+function TrashPanel({ boardId, onClose }: { boardId: string; onClose: () => void }) {
+  const { data: tasks, isLoading, error } = useTrash(boardId);
+  const restore = useRestoreTask(boardId);
+  const columns = useBoardStore((s) => s.columns);
+  const canEdit = usePermission('task:edit');
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex justify-end"
+      onKeyDown={(e) => { if (e.key === 'Escape') onClose(); }}
+    >
+      {/* Click-away backdrop */}
+      <div className="absolute inset-0 bg-black/20" onClick={onClose} />
+
+      <aside
+        role="dialog"
+        aria-label="Trash"
+        className="relative w-96 max-w-full h-full flex flex-col bg-[var(--color-bg-card)] border-l border-[var(--color-border)] shadow-[var(--shadow-card-hover)] animate-fade-in"
+      >
+        <header className="flex items-center justify-between gap-2 px-4 py-3 border-b border-[var(--color-border)]">
+          <p className="text-sm font-semibold text-[var(--color-text-primary)]">Trash</p>
+          <button
+            onClick={onClose}
+            className="p-1.5 rounded text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-secondary)]"
+            aria-label="Close trash"
+          >
+            <X size={15} />
+          </button>
+        </header>
+
+        <div className="flex-1 overflow-y-auto px-4 py-3">
+          {isLoading && <p className="text-xs text-[var(--color-text-tertiary)]">Loading…</p>}
+          {(error ?? restore.error) && (
+            <p className="text-xs text-[var(--color-danger)] mb-2">{(error ?? restore.error)?.message}</p>
+          )}
+          {tasks && tasks.length === 0 && (
+            <p className="text-xs text-[var(--color-text-tertiary)]">The trash is empty.</p>
+          )}
+
+          <ul className="flex flex-col gap-2">
+            {(tasks ?? []).map((task) => (
+              <li
+                key={task.id}
+                className="flex items-start gap-2 rounded-lg border border-[var(--color-border)] p-2.5"
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-[var(--color-text-primary)] truncate">{task.title}</p>
+                  <p className="text-[11px] text-[var(--color-text-tertiary)] truncate">
+                    from "{columns[task.columnId]?.title ?? 'a deleted column'}"
+                    {' · '}deleted {getRelativeTime(task.deletedAt ?? task.updatedAt)}
+                    {task.updatedByName ? ` by ${task.updatedByName}` : ''}
+                  </p>
+                </div>
+                {canEdit && (
+                  <button
+                    onClick={() => restore.mutate(task.id)}
+                    disabled={restore.isPending}
+                    className="flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium text-[var(--color-accent-primary)] hover:bg-[var(--color-bg-secondary)] disabled:opacity-60 flex-shrink-0"
+                  >
+                    <RotateCcw size={12} />
+                    Restore
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </aside>
+    </div>
+  );
+}
+
+export function TrashMenu({ boardId }: { boardId: string }) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        className="flex items-center gap-1.5 px-2 py-1 rounded-md text-sm font-medium text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-secondary)] transition-colors"
+        aria-haspopup="dialog"
+        aria-expanded={open}
+        aria-label="Trash"
+      >
+        <Trash2 size={15} />
+      </button>
+
+      {open && <TrashPanel boardId={boardId} onClose={() => setOpen(false)} />}
+    </>
+  );
+}
@@ -0,0 +1,241 @@
+/**
+ * components/board/ViewsMenu.tsx
+ *
+ * Top-bar menu for saved views (hooks/useViews.ts) and the board's sort and
+ * swimlane settings (store/filterStore.ts).
+ *
+ * Applying a view puts it in the URL (`?view=<id>`) and takes over its sort
+ * and grouping; its query runs as a search (BoardSearch), narrowed further
+ * by anything typed in the search box. "Save view" stores what is applied
+ * right now — view query plus typed search, sort and grouping — as a new
+ * view, optionally shared with the board. Only a view's owner can update or
+ * delete it.
+ */
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { ArrowDownNarrowWide, ArrowUpNarrowWide, Check, Layers, Trash2, Users } from 'lucide-react';
+import { useActiveView, useCreateView, useDeleteView, useUpdateView, useViews } from '@/hooks/useViews';
+import { useAuthStore } from '@/store/authStore';
+import { useFilterStore } from '@/store/filterStore';
+import { GROUP_OPTIONS, SORT_FIELDS } from '@/lib/views';
+import type { BoardView, ViewPayload } from '@/types';
+
+const menuItemClass =
+  'flex items-center justify-between gap-2 w-full px-3 py-1.5 text-sm text-left text-[var(--color-text-primary)] hover:bg-[var(--color-bg-secondary)]';
+
+const sectionTitleClass =
+  'px-3 pt-1.5 pb-1 text-[11px] font-semibold uppercase tracking-wide text-[var(--color-text-tertiary)]';
+
+const DEFAULT_LAYOUT = { sortField: 'position', sortDirection: 'asc', groupBy: 'none' } as const;
+
+export function ViewsMenu({ boardId }: { boardId: string }) {
+  const [open, setOpen]       = useState(false);
+  const [name, setName]       = useState('');
+  const [shared, setShared]   = useState(false);
+  const [params, setParams]   = useSearchParams();
+  const { data: views, error } = useViews(boardId);
+  const active     = useActiveView(boardId);
+  const createView = useCreateView(boardId);
+  const updateView = useUpdateView(boardId);
+  const deleteView = useDeleteView(boardId);
+  const myId       = useAuthStore((s) => s.user?.id);
+  const filters    = useFilterStore();
+  const { applyView, setSort, setGroupBy } = filters;
+
+  // A view arrived through the URL (or was edited) — take over its layout
+  useEffect(() => {
+    if (active) applyView(active);
+  }, [active, applyView]);
+
+  /** Apply `view` (undefined = none), replacing the typed search. */
+  function select(view: BoardView | undefined) {
+    setParams((prev) => {
+      const next = new URLSearchParams(prev);
+      next.delete('q');
+      if (view) next.set('view', view.id);
+      else next.delete('view');
+      return next;
+    });
+    if (!view) applyView(DEFAULT_LAYOUT);
+  }
+
+  /** What is applied right now, as a view */
+  function current(): Omit<ViewPayload, 'name' | 'shared'> {
+    return {
+      query:         [active?.query, params.get('q')].filter(Boolean).join(' '),
+      sortField:     filters.sortField,
+      sortDirection: filters.sortDirection,
+      groupBy:       filters.groupBy,
+    };
+  }
+
+  function handleSave() {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    createView.mutate({ name: trimmed, shared, ...current() }, {
+      onSuccess: (view) => {
+        setName('');
+        setShared(false);
+        select(view);
+      },
+    });
+  }
+
+  function handleUpdate(view: BoardView) {
+    updateView.mutate({ viewId: view.id, patch: current() }, {
+      // The typed search is part of the view now
+      onSuccess: () => select(view),
+    });
+  }
+
+  const mutationError = createView.error ?? updateView.error ?? deleteView.error ?? error;
+  const customized = filters.sortField !== 'position' || filters.sortDirection !== 'asc' || filters.groupBy !== 'none';
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen((v) => !v)}
+        className={[
+          'flex items-center gap-1.5 px-2 py-1 rounded-md text-sm font-medium transition-colors max-w-48',
+          active || customized
+            ? 'text-[var(--color-accent-primary)] bg-[var(--color-bg-secondary)]'
+            : 'text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-secondary)]',
+        ].join(' ')}
+        aria-haspopup="menu"
+        aria-expanded={open}
+      >
+        <Layers size={15} className="flex-shrink-0" />
+        <span className="truncate">{active?.name ?? 'Views'}</span>
+      </button>
+
+      {open && (
+        <>
+          {/* Click-away backdrop */}
+          <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+
+          <div
+            role="menu"
+            className="absolute right-0 mt-1 z-50 w-64 max-h-[80vh] overflow-y-auto rounded-lg bg-[var(--color-bg-card)] border border-[var(--color-border)] shadow-[var(--shadow-card-hover)] py-1 animate-fade-in"
+          >
+            {/* Saved views */}
+            <p className={sectionTitleClass}>Saved views</p>
+            {views && views.length === 0 && (
+              <p className="px-3 py-1.5 text-xs text-[var(--color-text-tertiary)]">No saved views yet.</p>
+            )}
+            {(views ?? []).map((view) => (
+              <div key={view.id} className="group flex items-center hover:bg-[var(--color-bg-secondary)]">
+                <button
+                  role="menuitemradio"
+                  aria-checked={active?.id === view.id}
+                  onClick={() => select(active?.id === view.id ? undefined : view)}
+                  className="flex-1 min-w-0 flex items-center gap-1.5 px-3 py-1.5 text-sm text-left text-[var(--color-text-primary)]"
+                  title={view.query || 'Every task'}
+                >
+                  <span className="truncate">{view.name}</span>
+                  {view.shared && (
+                    <Users
+                      size={12}
+                      className="flex-shrink-0 text-[var(--color-text-tertiary)]"
+                      aria-label={view.ownerId === myId ? 'Shared' : `Shared by ${view.ownerName ?? 'a member'}`}
+                    />
+                  )}
+                  {active?.id === view.id && <Check size={14} className="ml-auto flex-shrink-0 text-[var(--color-accent-primary)]" />}
+                </button>
+                {view.ownerId === myId && (
+                  <button
+                    onClick={() => {
+                      if (active?.id === view.id) select(undefined);
+                      deleteView.mutate(view.id);
+                    }}
+                    className="p-1.5 mr-1 rounded opacity-0 group-hover:opacity-100 text-[var(--color-text-tertiary)] hover:text-[var(--color-danger)]"
+                    aria-label={`Delete view ${view.name}`}
+                  >
+                    <Trash2 size={13} />
+                  </button>
+                )}
+              </div>
+            ))}
+
+            {/* Sort */}
+            <div className="my-1 border-t border-[var(--color-border)]" />
+            <div className="flex items-center justify-between pr-2">
+              <p className={sectionTitleClass}>Sort cards by</p>
+              <button
+                onClick={() => setSort(filters.sortField, filters.sortDirection === 'asc' ? 'desc' : 'asc')}
+                className="p-1 rounded text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-secondary)]"
+                aria-label={filters.sortDirection === 'asc' ? 'Ascending — switch to descending' : 'Descending — switch to ascending'}
+              >
+                {filters.sortDirection === 'asc' ? <ArrowUpNarrowWide size={14} /> : <ArrowDownNarrowWide size={14} />}
+              </button>
+            </div>
+            {SORT_FIELDS.map((option) => (
+              <button
+                key={option.value}
+                role="menuitemradio"
+                aria-checked={filters.sortField === option.value}
+                onClick={() => setSort(option.value, filters.sortDirection)}
+                className={menuItemClass}
+              >
+                {option.label}
+                {filters.sortField === option.value && <Check size={14} className="text-[var(--color-accent-primary)]" />}
+              </button>
+            ))}
+
+            {/* Swimlanes */}
+            <div className="my-1 border-t border-[var(--color-border)]" />
+            <p className={sectionTitleClass}>Swimlanes</p>
+            {GROUP_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                role="menuitemradio"
+                aria-checked={filters.groupBy === option.value}
+                onClick={() => setGroupBy(option.value)}
+                className={menuItemClass}
+              >
+                {option.label}
+                {filters.groupBy === option.value && <Check size={14} className="text-[var(--color-accent-primary)]" />}
+              </button>
+            ))}
+
+            {/* Save */}
+            <div className="my-1 border-t border-[var(--color-border)]" />
+            <div className="flex flex-col gap-2 px-3 py-2">
+              {active && active.ownerId === myId && (
+                <button
+                  onClick={() => handleUpdate(active)}
+                  disabled={updateView.isPending}
+                  className="px-2 py-1 rounded-md text-xs font-medium text-left text-[var(--color-accent-primary)] hover:bg-[var(--color-bg-secondary)] disabled:opacity-60"
+                >
+                  Update "{active.name}" with the current settings
+                </button>
+              )}
+              <input
+                value={name}
+                maxLength={60}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+                placeholder="Save current as…"
+                className="text-xs bg-[var(--color-bg-secondary)] rounded-md px-2 py-1 outline-none text-[var(--color-text-primary)] placeholder:text-[var(--color-text-tertiary)] border border-[var(--color-border)] focus:border-[var(--color-accent-primary)]"
+                aria-label="New view name"
+              />
+              <div className="flex items-center justify-between gap-2">
+                <label className="flex items-center gap-1.5 text-xs text-[var(--color-text-secondary)]">
+                  <input type="checkbox" checked={shared} onChange={(e) => setShared(e.target.checked)} />
+                  Share with the board
+                </label>
+                <button
+                  onClick={handleSave}
+                  disabled={!name.trim() || createView.isPending}
+                  className="px-2.5 py-1 rounded-md text-xs font-medium bg-[var(--color-accent-primary)] text-white hover:bg-[var(--color-accent-hover)] disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  Save view
+                </button>
+              </div>
+              {mutationError && <p className="text-xs text-[var(--color-danger)]">{mutationError.message}</p>}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -2,12 +2,13 @@
  * components/presence/UserAvatar.tsx
  *
  * Small circular avatar showing a user's initials and presence colour.
- * Used in PresenceBar.
+ * Used in PresenceBar, and for task assignees (TaskCard, TaskDetailPanel).
  */
 import type { UserPresence } from '@/types';
 
 interface UserAvatarProps {
-  user:  UserPresence;
+  /** Presence entries and board members both fit */
+  user:  Pick<UserPresence, 'displayName' | 'color'>;
   size?: 'sm' | 'md';
 }
 
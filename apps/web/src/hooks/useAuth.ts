@@ -0,0 +1,43 @@
+/**
+ * hooks/useAuth.ts
+ *
+ * React Query mutations for signing in / registering. On success the
+ * session is stored in authStore, which swaps the login page for the app.
+ */
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api';
+import { useAuthStore } from '@/store/authStore';
+import { useFilterStore } from '@/store/filterStore';
+import type { Session } from '@/types';
+
+export function useLogin() {
+  const setSession = useAuthStore((s) => s.setSession);
+
+  return useMutation({
+    mutationFn: (body: { email: string; password: string }) =>
+      apiFetch<Session>('/api/auth/login', { method: 'POST', body: JSON.stringify(body) }),
+    onSuccess: setSession,
+  });
+}
+
+export function useRegister() {
+  const setSession = useAuthStore((s) => s.setSession);
+
+  return useMutation({
+    mutationFn: (body: { email: string; password: string; displayName: string }) =>
+      apiFetch<Session>('/api/auth/register', { method: 'POST', body: JSON.stringify(body) }),
+    onSuccess: setSession,
+  });
+}
+
+/** Sign out — forget the session and every cached query of the old user. */
+export function useLogout() {
+  const clearSession = useAuthStore((s) => s.clearSession);
+  const queryClient  = useQueryClient();
+
+  return () => {
+    clearSession();
+    queryClient.clear();
+    useFilterStore.getState().reset();
+  };
+}
@@ -9,13 +9,29 @@
  *
  * The WS hook handles confirmation (replacing optimistic state with server
  * truth) and rollback (restoring state on CONFLICT_NOTIFY).
+ *
+ * Task actions also record an UndoEntry; undo / redo replay its inverse
+ * through the same optimistic + emit path (see lib/undo.ts).
+ *
+ * Multi-task actions (multi-select drags, bulk edits) go through `batch`:
+ * one TASK_BATCH applied all or nothing, one store update, one undo step.
+ *
+ * Inline title / description editing goes through `textEditor` instead:
+ * every keystroke is a TASK_TEXT_EDIT op merged with other users' typing
+ * (lib/textSync.ts), and the whole editing session is one undo entry.
  */
-import { useCallback } from 'react';
+import { useCallback, useMemo, useRef } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import { useBoardStore, nextOrderFor } from '@/store/boardStore';
-import { usePresenceStore } from '@/store/presenceStore';
-import { orderBetween } from '@/lib/fractionalIndex';
-import type { ColumnId, Task } from '@/types';
+import { useBoardStore, nextOrderFor, sortedColumns } from '@/store/boardStore';
+import { useAuthStore } from '@/store/authStore';
+import { sessionKey, useTextSyncStore } from '@/store/textSyncStore';
+import { orderBetween, ordersBetween } from '@/lib/fractionalIndex';
+import { notifyUndoConflict } from '@/lib/conflictNotify';
+import { planTransition, snapshot, type TaskSnapshot, type TransitionOp, type UndoEntry } from '@/lib/undo';
+import { appendOrder, orderForStep, type ChecklistOp } from '@/lib/checklist';
+import type {
+  BatchOp, BatchPatch, BoardColumn, BoardLabel, ChecklistItem, ColumnId, Task, TaskComment, TaskPatch, TextField,
+} from '@/types';
 
 /**
  * Emit function signature — accepts any { type, payload } object.
@@ -23,13 +39,90 @@ import type { ColumnId, Task } from '@/types';
  */
 type EmitFn = (event: { type: string; payload: unknown }) => void;
 
+/** Collaborative editing of a task card's title and description. */
+export interface TextEditor {
+  begin:  (task: Task) => void;
+  change: (task: Task, field: TextField, text: string) => void;
+  end:    (task: Task) => void;
+}
+
+/** Managing the board's label catalog. */
+export interface LabelActions {
+  create: (name: string, color: string) => void;
+  update: (label: BoardLabel, patch: { name?: string; color?: string }) => void;
+  remove: (label: BoardLabel) => void;
+}
+
+/** Writing to a task's comment thread. */
+export interface CommentActions {
+  create: (taskId: string, body: string) => void;
+  update: (comment: TaskComment, body: string) => void;
+  remove: (comment: TaskComment) => void;
+}
+
+/** Editing a task's checklist. */
+export interface ChecklistActions {
+  add:    (task: Task, text: string) => void;
+  update: (task: Task, item: ChecklistItem, patch: { text?: string; done?: boolean }) => void;
+  /** Shift an item one slot up (-1) or down (+1). */
+  move:   (task: Task, item: ChecklistItem, direction: -1 | 1) => void;
+  remove: (task: Task, item: ChecklistItem) => void;
+}
+
+/** Moving, editing or deleting several tasks at once (TASK_BATCH). */
+export interface BatchActions {
+  /**
+   * Drop `tasks` together where `tasks[0]`, the dragged one, was dropped —
+   * before or after `overTaskId`, as moveTask decides, keeping their board
+   * order; `patchFor` adds an edit per task (a swimlane change).
+   */
+  move:   (
+    tasks:      Task[],
+    toColumn:   ColumnId,
+    overTaskId: string | null,
+    patchFor?:  (task: Task) => BatchPatch | null,
+  ) => void;
+  update: (tasks: Task[], patch: BatchPatch) => void;
+  remove: (tasks: Task[]) => void;
+}
+
+/**
+ * Optimistic copy of a task this user is creating. Attribution is stamped by
+ * the server; mirror it so the card renders correctly until TASK_CREATED.
+ */
+function optimisticTaskFrom(boardId: string, fields: TaskSnapshot): Task {
+  const now = new Date().toISOString();
+  const me  = useAuthStore.getState().user;
+
+  return {
+    checklist:      [], // restored tasks get theirs back with TASK_RESTORED
+    ...fields,
+    boardId,
+    createdAt:      now,
+    updatedAt:      now,
+    version:        1,
+    creatorId:      me?.id,
+    creatorName:    me?.displayName,
+    creatorColor:   me?.color,
+    updatedById:    me?.id,
+    updatedByName:  me?.displayName,
+    updatedByColor: me?.color,
+  };
+}
+
 export function useBoard(emit: EmitFn) {
   const {
+    board,
+    columns,
     tasks,
     optimisticCreate,
     optimisticUpdate,
     optimisticMove,
     optimisticDelete,
+    optimisticChecklist,
+    optimisticBatch,
+    optimisticColumn,
+    recordChange,
     getColumn,
   } = useBoardStore();
 
@@ -37,72 +130,50 @@ export function useBoard(emit: EmitFn) {
 
   const createTask = useCallback(
     (columnId: ColumnId, title: string, description?: string) => {
-      const order = nextOrderFor(tasks, columnId);
-      const now   = new Date().toISOString();
-
-      const { myUserId, users } = usePresenceStore.getState();
-      const me = myUserId ? users[myUserId] : null;
-      console.log('[useBoard] createTask me:', me, 'myUserId:', myUserId, 'users:', users);
-
-      const optimisticTask: Task = {
+      const optimisticTask = optimisticTaskFrom(board?.id ?? '', {
         id:          uuidv4(),
         columnId,
         title,
         description: description ?? '',
-        order,
-        createdAt:   now,
-        updatedAt:   now,
-        version:     1,
-        creatorName: me?.displayName || 'Anonymous',
-        creatorColor: me?.color || '#cbd5e1',
-        updatedByName: me?.displayName || 'Anonymous',
-        updatedByColor: me?.color || '#cbd5e1',
-      };
+        order:       nextOrderFor(tasks, columnId),
+        assigneeIds: [],
+        labelIds:    [],
+        blockedByIds: [],
+        priority:    'none',
+      });
 
       // 1. Instant UI
       optimisticCreate(optimisticTask);
 
-      // 2. Emit (server will create its own ID — confirmCreate replaces this)
+      // 2. Emit (server will create its own ID — confirmCreate replaces this).
+      // The order is pinned so the undo entry matches what the server stores
       emit({
         type: 'TASK_CREATE',
-        payload: { 
-          id: optimisticTask.id, 
-          columnId, 
-          title, 
-          description,
-          creatorName: optimisticTask.creatorName,
-          creatorColor: optimisticTask.creatorColor,
-          updatedByName: optimisticTask.updatedByName,
-          updatedByColor: optimisticTask.updatedByColor,
-        },
+        payload: { id: optimisticTask.id, columnId, title, description, order: optimisticTask.order },
       });
+
+      recordChange({ taskId: optimisticTask.id, before: null, after: snapshot(optimisticTask) });
     },
-    [tasks, optimisticCreate, emit],
+    [board, tasks, optimisticCreate, recordChange, emit],
   );
 
   // ── UPDATE ─────────────────────────────────────────────────────────────────
 
   const updateTask = useCallback(
-    (task: Task, patch: { title?: string; description?: string }) => {
-      const { myUserId, users } = usePresenceStore.getState();
-      const me = myUserId ? users[myUserId] : null;
-
+    (task: Task, patch: TaskPatch) => {
       // 1. Instant UI
       optimisticUpdate(task.id, patch);
 
       // 2. Emit
       emit({
         type: 'TASK_UPDATE',
-        payload: { 
-          id: task.id, 
-          version: task.version, 
-          ...patch,
-          updatedByName: me?.displayName || 'Anonymous',
-          updatedByColor: me?.color || '#cbd5e1',
-        },
+        payload: { id: task.id, version: task.version, ...patch },
       });
+
+      const before = snapshot(task);
+      recordChange({ taskId: task.id, before, after: { ...before, ...patch } });
     },
-    [optimisticUpdate, emit],
+    [optimisticUpdate, recordChange, emit],
   );
 
   // ── MOVE ───────────────────────────────────────────────────────────────────
@@ -127,7 +198,11 @@ export function useBoard(emit: EmitFn) {
       let prev: Task | null;
       let next: Task | null;
 
-      if (isMovingDown) {
+      if (!overTaskId) {
+        // Bottom of the column — after its last task other than this one
+        prev = col.filter((t) => t.id !== task.id).at(-1) ?? null;
+        next = null;
+      } else if (isMovingDown) {
         // Insert after overTaskId
         prev = col[overIdx];
         next = col[overIdx + 1] ?? null;
@@ -150,26 +225,19 @@ export function useBoard(emit: EmitFn) {
 
       const order = orderBetween(prev?.order ?? null, next?.order ?? null);
 
-      const { myUserId, users } = usePresenceStore.getState();
-      const me = myUserId ? users[myUserId] : null;
-
       // 1. Instant UI
       optimisticMove(task.id, toColumn, order);
 
       // 2. Emit
       emit({
         type:    'TASK_MOVE',
-        payload: { 
-          id: task.id, 
-          columnId: toColumn, 
-          order, 
-          version: task.version,
-          updatedByName: me?.displayName || 'Anonymous',
-          updatedByColor: me?.color || '#cbd5e1',
-        },
+        payload: { id: task.id, columnId: toColumn, order, version: task.version },
       });
+
+      const before = snapshot(task);
+      recordChange({ taskId: task.id, before, after: { ...before, columnId: toColumn, order } });
     },
-    [getColumn, optimisticMove, emit],
+    [getColumn, optimisticMove, recordChange, emit],
   );
 
   // ── DELETE ─────────────────────────────────────────────────────────────────
@@ -181,9 +249,335 @@ export function useBoard(emit: EmitFn) {
 
       // 2. Emit
       emit({ type: 'TASK_DELETE', payload: { id: task.id } });
+
+      recordChange({ taskId: task.id, before: snapshot(task), after: null });
+    },
+    [optimisticDelete, recordChange, emit],
+  );
+
+  // ── BATCHES ────────────────────────────────────────────────────────────────
+
+  /** Apply `ops` optimistically, emit them as one TASK_BATCH and record one undo step. */
+  const applyBatch = useCallback(
+    (ops: BatchOp[]) => {
+      if (ops.length === 0) return;
+
+      const before = useBoardStore.getState().tasks;
+      optimisticBatch(ops);
+      emit({ type: 'TASK_BATCH', payload: { ops } });
+
+      const after   = useBoardStore.getState().tasks;
+      const batchId = uuidv4();
+      const ids     = [...new Set(ops.map((op) => op.payload.id))].filter((id) => before[id]);
+      recordChange(...ids.map((id) => ({
+        taskId: id,
+        before: snapshot(before[id]),
+        after:  after[id] ? snapshot(after[id]) : null,
+        batchId,
+      })));
+    },
+    [optimisticBatch, recordChange, emit],
+  );
+
+  const batch = useMemo<BatchActions>(() => ({
+    move: (moving, toColumn, overTaskId, patchFor) => {
+      const [lead] = moving;
+      if (!lead) return;
+
+      const ids  = new Set(moving.map((t) => t.id));
+      const col  = getColumn(toColumn);
+      const rest = col.filter((t) => !ids.has(t.id));
+      const overIdx = overTaskId ? rest.findIndex((t) => t.id === overTaskId) : -1;
+
+      // Same rule as moveTask: after the target when the dragged card comes
+      // from above it in this column, before it otherwise
+      const leadIdx = col.findIndex((t) => t.id === lead.id);
+      const isMovingDown = leadIdx !== -1 && overIdx !== -1 && leadIdx < col.findIndex((t) => t.id === overTaskId);
+
+      const insertAt = overIdx === -1 ? rest.length : isMovingDown ? overIdx + 1 : overIdx;
+      const prev = rest[insertAt - 1] ?? null;
+      const next = rest[insertAt] ?? null;
+
+      // Keep the cards' board order: column left to right, then position
+      const columnRank = new Map(sortedColumns(columns).map((c, i) => [c.id, i]));
+      const ordered = [...moving].sort((a, b) =>
+        (columnRank.get(a.columnId) ?? 0) - (columnRank.get(b.columnId) ?? 0) || a.order - b.order,
+      );
+      const orders = ordersBetween(prev?.order ?? null, next?.order ?? null, ordered.length);
+
+      const ops: BatchOp[] = [];
+      ordered.forEach((task, i) => {
+        const patch = patchFor?.(task);
+        if (patch) ops.push({ type: 'update', payload: { id: task.id, version: task.version, ...patch } });
+        ops.push({ type: 'move', payload: { id: task.id, columnId: toColumn, order: orders[i], version: task.version } });
+      });
+      applyBatch(ops);
+    },
+    update: (targets, patch) => {
+      applyBatch(targets.map((task) => ({ type: 'update', payload: { id: task.id, version: task.version, ...patch } })));
+    },
+    remove: (targets) => {
+      applyBatch(targets.map((task) => ({ type: 'delete', payload: { id: task.id } })));
+    },
+  }), [columns, getColumn, applyBatch]);
+
+  // ── COLLABORATIVE TEXT ─────────────────────────────────────────────────────
+
+  /** Tasks as they were when this user started editing them — for undo */
+  const editStart = useRef<Record<string, TaskSnapshot>>({});
+
+  const beginTextEdit = useCallback((task: Task) => {
+    editStart.current[task.id] = snapshot(task);
+    useTextSyncStore.getState().open(task);
+  }, []);
+
+  const changeText = useCallback(
+    (task: Task, field: TextField, text: string) => {
+      // The server refuses an empty title — keep the last character
+      if (field === 'title' && text === '') return;
+
+      const outgoing = useTextSyncStore.getState().edit(task.id, field, text);
+      optimisticUpdate(task.id, field === 'title' ? { title: text } : { description: text });
+      if (outgoing) emit({ type: 'TASK_TEXT_EDIT', payload: outgoing });
+    },
+    [optimisticUpdate, emit],
+  );
+
+  const endTextEdit = useCallback(
+    (task: Task) => {
+      const { sessions, close } = useTextSyncStore.getState();
+      const before = editStart.current[task.id];
+      const title       = sessions[sessionKey(task.id, 'title')]?.text;
+      const description = sessions[sessionKey(task.id, 'description')]?.text;
+
+      delete editStart.current[task.id];
+      close(task.id);
+
+      if (!before || title === undefined || description === undefined) return;
+      if (title === before.title && description === before.description) return;
+      recordChange({ taskId: task.id, before, after: { ...before, title, description } });
+    },
+    [recordChange],
+  );
+
+  const textEditor = useMemo<TextEditor>(
+    () => ({ begin: beginTextEdit, change: changeText, end: endTextEdit }),
+    [beginTextEdit, changeText, endTextEdit],
+  );
+
+  // ── COMMENTS ───────────────────────────────────────────────────────────────
+
+  // Not optimistic: threads live in the React Query cache, which the
+  // COMMENT_* broadcasts patch for everyone — the author included.
+  const comments = useMemo<CommentActions>(
+    () => ({
+      create: (taskId, body) => emit({ type: 'COMMENT_CREATE', payload: { id: uuidv4(), taskId, body } }),
+      update: (comment, body) => emit({ type: 'COMMENT_UPDATE', payload: { id: comment.id, body } }),
+      remove: (comment) => emit({ type: 'COMMENT_DELETE', payload: { id: comment.id } }),
+    }),
+    [emit],
+  );
+
+  // ── LABELS ─────────────────────────────────────────────────────────────────
+
+  // Not optimistic: a duplicate name is refused (LABEL_EXISTS), and deleting
+  // touches every task carrying the label — LABEL_* broadcasts apply it all.
+  const labels = useMemo<LabelActions>(
+    () => ({
+      create: (name, color) => emit({ type: 'LABEL_CREATE', payload: { id: uuidv4(), name, color } }),
+      update: (label, patch) => emit({ type: 'LABEL_UPDATE', payload: { id: label.id, ...patch } }),
+      remove: (label) => emit({ type: 'LABEL_DELETE', payload: { id: label.id } }),
+    }),
+    [emit],
+  );
+
+  // ── CHECKLIST ──────────────────────────────────────────────────────────────
+
+  // Optimistic, outside undo: CHECKLIST_UPDATED confirms the whole list, a
+  // refused op comes back as CONFLICT_NOTIFY with the server's task.
+  const checklist = useMemo<ChecklistActions>(() => {
+    const apply = (task: Task, op: ChecklistOp) => {
+      optimisticChecklist(task.id, op);
+      switch (op.kind) {
+        case 'add':
+          emit({ type: 'CHECKLIST_ITEM_ADD', payload: { taskId: task.id, id: op.id, text: op.text, order: op.order } });
+          break;
+        case 'update':
+          emit({ type: 'CHECKLIST_ITEM_UPDATE', payload: { taskId: task.id, id: op.id, text: op.text, done: op.done } });
+          break;
+        case 'move':
+          emit({ type: 'CHECKLIST_ITEM_MOVE', payload: { taskId: task.id, id: op.id, order: op.order } });
+          break;
+        case 'delete':
+          emit({ type: 'CHECKLIST_ITEM_DELETE', payload: { taskId: task.id, id: op.id } });
+          break;
+      }
+    };
+
+    return {
+      add:    (task, text) => apply(task, { kind: 'add', id: uuidv4(), text, order: appendOrder(task.checklist) }),
+      update: (task, item, patch) => apply(task, { kind: 'update', id: item.id, ...patch }),
+      move: (task, item, direction) => {
+        const order = orderForStep(task.checklist, item.id, direction);
+        if (order !== null) apply(task, { kind: 'move', id: item.id, order });
+      },
+      remove: (task, item) => apply(task, { kind: 'delete', id: item.id }),
+    };
+  }, [optimisticChecklist, emit]);
+
+  // ── UNDO / REDO ────────────────────────────────────────────────────────────
+
+  /** Apply planned ops optimistically and emit them — without recording. */
+  const applyOps = useCallback(
+    (taskId: string, ops: TransitionOp[]) => {
+      for (const op of ops) {
+        // Re-read per op: each one bumps the task we send the version of
+        const current = useBoardStore.getState().tasks[taskId];
+
+        switch (op.type) {
+          case 'restore':
+            // The server puts it back at its old column / order — same as the snapshot
+            optimisticCreate(optimisticTaskFrom(board?.id ?? '', op.task));
+            emit({ type: 'TASK_RESTORE', payload: { id: taskId } });
+            break;
+          case 'delete':
+            optimisticDelete(taskId);
+            emit({ type: 'TASK_DELETE', payload: { id: taskId } });
+            break;
+          case 'update':
+            if (!current) break;
+            optimisticUpdate(taskId, op.patch);
+            emit({ type: 'TASK_UPDATE', payload: { id: taskId, version: current.version, ...op.patch } });
+            break;
+          case 'move':
+            if (!current) break;
+            optimisticMove(taskId, op.columnId, op.order);
+            emit({
+              type:    'TASK_MOVE',
+              payload: { id: taskId, columnId: op.columnId, order: op.order, version: current.version },
+            });
+            break;
+        }
+      }
+    },
+    [board, optimisticCreate, optimisticUpdate, optimisticMove, optimisticDelete, emit],
+  );
+
+  /**
+   * Take each entry of one step (a batch has several) from `from` to `to`.
+   * Returns whether any of it was skipped.
+   */
+  const applyStep = useCallback(
+    (entries: UndoEntry[], direction: 'undo' | 'redo'): boolean => {
+      let conflicted = false;
+      for (const entry of entries) {
+        const [from, to] = direction === 'undo' ? [entry.after, entry.before] : [entry.before, entry.after];
+        const plan = planTransition(useBoardStore.getState().tasks[entry.taskId], from, to);
+        applyOps(entry.taskId, plan.ops);
+        conflicted ||= plan.conflicted;
+      }
+      return conflicted;
+    },
+    [applyOps],
+  );
+
+  /**
+   * Revert this user's last task operation. Fields another user changed
+   * since are left alone; the entry is then dropped instead of becoming
+   * redoable.
+   */
+  const undo = useCallback(() => {
+    const store   = useBoardStore.getState();
+    const entries = store.popUndo();
+    if (entries.length === 0) return;
+
+    if (applyStep([...entries].reverse(), 'undo')) notifyUndoConflict('undo');
+    else store.pushRedo(entries);
+  }, [applyStep]);
+
+  /** Re-apply the last undone operation, with the same conflict rules. */
+  const redo = useCallback(() => {
+    const store   = useBoardStore.getState();
+    const entries = store.popRedo();
+    if (entries.length === 0) return;
+
+    if (applyStep(entries, 'redo')) notifyUndoConflict('redo');
+    else store.pushUndo(entries);
+  }, [applyStep]);
+
+  // ── COLUMNS ────────────────────────────────────────────────────────────────
+
+  const createColumn = useCallback(
+    (title: string, color?: string) => {
+      const cols = sortedColumns(columns);
+      const last = cols[cols.length - 1] ?? null;
+      const now  = new Date().toISOString();
+
+      const column: BoardColumn = {
+        id:        uuidv4(),
+        boardId:   board?.id ?? '',
+        title,
+        color:     color ?? '#64748B',
+        order:     orderBetween(last?.order ?? null, null),
+        isDone:    false,
+        version:   1,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      optimisticColumn(column);
+      emit({ type: 'COLUMN_CREATE', payload: { id: column.id, title, color } });
+    },
+    [board, columns, optimisticColumn, emit],
+  );
+
+  const updateColumn = useCallback(
+    (column: BoardColumn, patch: { title?: string; color?: string; isDone?: boolean; wipLimit?: number | null }) => {
+      optimisticColumn({
+        ...column,
+        ...patch,
+        wipLimit:  patch.wipLimit === undefined ? column.wipLimit : patch.wipLimit ?? undefined,
+        updatedAt: new Date().toISOString(),
+      });
+      emit({ type: 'COLUMN_UPDATE', payload: { id: column.id, version: column.version, ...patch } });
+    },
+    [optimisticColumn, emit],
+  );
+
+  /** Shift a column one slot left (-1) or right (+1). */
+  const moveColumn = useCallback(
+    (column: BoardColumn, direction: -1 | 1) => {
+      const cols = sortedColumns(columns);
+      const idx  = cols.findIndex((c) => c.id === column.id);
+      const to   = idx + direction;
+      if (idx === -1 || to < 0 || to >= cols.length) return;
+
+      // Land between the neighbour we jump over and the one beyond it
+      const prev  = direction === -1 ? cols[to - 1] ?? null : cols[to];
+      const next  = direction === -1 ? cols[to] : cols[to + 1] ?? null;
+      const order = orderBetween(prev?.order ?? null, next?.order ?? null);
+
+      optimisticColumn({ ...column, order });
+      emit({ type: 'COLUMN_MOVE', payload: { id: column.id, order, version: column.version } });
+    },
+    [columns, optimisticColumn, emit],
+  );
+
+  /**
+   * Archive a column. Not optimistic: the server picks the relocated tasks'
+   * orders and may refuse (COLUMN_NOT_EMPTY), so we wait for COLUMN_DELETED.
+   */
+  const deleteColumn = useCallback(
+    (column: BoardColumn, targetColumnId?: ColumnId) => {
+      emit({ type: 'COLUMN_DELETE', payload: { id: column.id, targetColumnId } });
     },
-    [optimisticDelete, emit],
+    [emit],
   );
 
-  return { createTask, updateTask, moveTask, deleteTask };
+  return {
+    createTask, updateTask, moveTask, deleteTask, batch,
+    textEditor, comments, labels, checklist,
+    undo, redo,
+    createColumn, updateColumn, moveColumn, deleteColumn,
+  };
 }
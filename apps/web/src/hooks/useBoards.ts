@@ -0,0 +1,41 @@
+/**
+ * hooks/useBoards.ts
+ *
+ * React Query hooks for the board list (REST) — listing, creating and
+ * duplicating boards. Board contents (tasks, presence) still arrive over
+ * the socket via BOARD_SNAPSHOT.
+ */
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api';
+import type { Board } from '@/types';
+
+const BOARDS_KEY = ['boards'] as const;
+
+export function useBoards() {
+  return useQuery({
+    queryKey: BOARDS_KEY,
+    queryFn:  () => apiFetch<Board[]>('/api/boards'),
+  });
+}
+
+/** A blank board, or one made from a template (hooks/useTemplates.ts) */
+export function useCreateBoard() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (body: { name: string; templateId?: string }) =>
+      apiFetch<Board>('/api/boards', { method: 'POST', body: JSON.stringify(body) }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: BOARDS_KEY }),
+  });
+}
+
+/** A copy of the board with its members; tasks keep their creators unless told not to */
+export function useDuplicateBoard(boardId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (body: { name: string; keepCreators: boolean }) =>
+      apiFetch<Board>(`/api/boards/${boardId}/duplicate`, { method: 'POST', body: JSON.stringify(body) }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: BOARDS_KEY }),
+  });
+}
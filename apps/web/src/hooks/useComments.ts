@@ -0,0 +1,20 @@
+/**
+ * hooks/useComments.ts
+ *
+ * React Query hook for a task's comment thread (REST), fetched when the
+ * task detail panel opens. Comment writes go over the socket; useWebSocket
+ * applies the COMMENT_* broadcasts to commentsKey(taskId) in place, so an
+ * open thread updates live without refetching.
+ */
+import { useQuery } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api';
+import type { TaskComment } from '@/types';
+
+export const commentsKey = (taskId: string) => ['tasks', taskId, 'comments'] as const;
+
+export function useComments(taskId: string) {
+  return useQuery({
+    queryKey: commentsKey(taskId),
+    queryFn:  () => apiFetch<TaskComment[]>(`/api/tasks/${taskId}/comments`),
+  });
+}
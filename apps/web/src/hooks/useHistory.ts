@@ -0,0 +1,17 @@
+/**
+ * hooks/useHistory.ts
+ *
+ * React Query hook for a task's change history (REST). Fetched on demand
+ * when the history panel opens, and refetched on every open.
+ */
+import { useQuery } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api';
+import type { TaskEvent } from '@/types';
+
+export function useTaskHistory(taskId: string) {
+  return useQuery({
+    queryKey: ['tasks', taskId, 'history'],
+    queryFn:  () => apiFetch<TaskEvent[]>(`/api/tasks/${taskId}/history`),
+  });
+}
+
@@ -0,0 +1,31 @@
+/**
+ * hooks/useImport.ts
+ *
+ * React Query mutations for board import (REST). The preview is a dry run;
+ * the import itself runs as a server job — useWebSocket shows its
+ * IMPORT_PROGRESS, and the new columns, labels and tasks arrive as the usual
+ * socket events.
+ */
+import { useMutation } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api';
+import type { ImportPreview, ImportRequest } from '@/types';
+
+export function useImportPreview(boardId: string) {
+  return useMutation({
+    mutationFn: (body: ImportRequest) =>
+      apiFetch<ImportPreview>(`/api/boards/${boardId}/import/preview`, {
+        method: 'POST',
+        body:   JSON.stringify(body),
+      }),
+  });
+}
+
+export function useStartImport(boardId: string) {
+  return useMutation({
+    mutationFn: (body: ImportRequest) =>
+      apiFetch<{ jobId: string; total: number }>(`/api/boards/${boardId}/import`, {
+        method: 'POST',
+        body:   JSON.stringify(body),
+      }),
+  });
+}
@@ -0,0 +1,49 @@
+/**
+ * hooks/useMembers.ts
+ *
+ * React Query hooks for a board's member list (REST). Mutations are admin
+ * only; the server pushes MEMBERS_CHANGED to the board room afterwards,
+ * which useWebSocket turns into an invalidation of membersKey(boardId).
+ */
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api';
+import type { BoardMember, Role } from '@/types';
+
+export const membersKey = (boardId: string) => ['boards', boardId, 'members'] as const;
+
+export function useMembers(boardId: string) {
+  return useQuery({
+    queryKey: membersKey(boardId),
+    queryFn:  () => apiFetch<BoardMember[]>(`/api/boards/${boardId}/members`),
+  });
+}
+
+export function useAddMember(boardId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (body: { email: string; role: Role }) =>
+      apiFetch<BoardMember>(`/api/boards/${boardId}/members`, { method: 'POST', body: JSON.stringify(body) }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: membersKey(boardId) }),
+  });
+}
+
+export function useUpdateMemberRole(boardId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ userId, role }: { userId: string; role: Role }) =>
+      apiFetch<BoardMember>(`/api/boards/${boardId}/members/${userId}`, { method: 'PATCH', body: JSON.stringify({ role }) }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: membersKey(boardId) }),
+  });
+}
+
+export function useRemoveMember(boardId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (userId: string) =>
+      apiFetch<{ userId: string }>(`/api/boards/${boardId}/members/${userId}`, { method: 'DELETE' }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: membersKey(boardId) }),
+  });
+}
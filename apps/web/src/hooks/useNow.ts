@@ -0,0 +1,16 @@
+import { useState, useEffect } from 'react';
+
+/**
+ * Current time in ms, refreshed every `refreshMs` (default 60s) — for
+ * render-time comparisons such as overdue flags.
+ */
+export function useNow(refreshMs = 60000): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), refreshMs);
+    return () => clearInterval(interval);
+  }, [refreshMs]);
+
+  return now;
+}
@@ -8,32 +8,33 @@
  * so the server can re-apply them in order with conflict resolution.
  *
  * Storage: sessionStorage (survives soft refreshes but not tab close).
+ * One queue per board — ops queued on board A must never replay into B.
  * The queue is also mirrored in a React ref to avoid stale closure issues.
  */
 import { useRef, useCallback } from 'react';
 import type { ClientEvent, QueuedOp } from '@/types';
 
-const STORAGE_KEY = 'flowboard:offline-queue';
+const STORAGE_KEY = (boardId: string) => `flowboard:offline-queue:${boardId}`;
 
-function loadQueue(): QueuedOp[] {
+function loadQueue(boardId: string): QueuedOp[] {
   try {
-    const raw = sessionStorage.getItem(STORAGE_KEY);
+    const raw = sessionStorage.getItem(STORAGE_KEY(boardId));
     return raw ? (JSON.parse(raw) as QueuedOp[]) : [];
   } catch {
     return [];
   }
 }
 
-function saveQueue(queue: QueuedOp[]): void {
+function saveQueue(boardId: string, queue: QueuedOp[]): void {
   try {
-    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(queue));
+    sessionStorage.setItem(STORAGE_KEY(boardId), JSON.stringify(queue));
   } catch {
     // Storage quota exceeded — queue lives only in memory
   }
 }
 
-export function useOfflineQueue() {
-  const queueRef = useRef<QueuedOp[]>(loadQueue());
+export function useOfflineQueue(boardId: string) {
+  const queueRef = useRef<QueuedOp[]>(loadQueue(boardId));
 
   /**
    * Enqueue a failed operation for later replay.
@@ -49,8 +50,8 @@ export function useOfflineQueue() {
     };
 
     queueRef.current = [...queueRef.current, op];
-    saveQueue(queueRef.current);
-  }, []);
+    saveQueue(boardId, queueRef.current);
+  }, [boardId]);
 
   /**
    * Return current queue and clear it atomically.
@@ -59,9 +60,9 @@ export function useOfflineQueue() {
   const flushQueue = useCallback((): QueuedOp[] => {
     const ops = [...queueRef.current];
     queueRef.current = [];
-    saveQueue([]);
+    saveQueue(boardId, []);
     return ops;
-  }, []);
+  }, [boardId]);
 
   /** Peek at the queue without removing — for UI "N pending ops" badge. */
   const pendingCount = useCallback((): number => queueRef.current.length, []);
@@ -0,0 +1,12 @@
+/**
+ * hooks/usePermission.ts
+ *
+ * Whether the signed-in user's role on the open board grants `permission`.
+ * Re-renders when ROLE_CHANGED updates the role in boardStore.
+ */
+import { useBoardStore } from '@/store/boardStore';
+import { can, type Permission } from '@/lib/permissions';
+
+export function usePermission(permission: Permission): boolean {
+  return useBoardStore((s) => can(s.role, permission));
+}
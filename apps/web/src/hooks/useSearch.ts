@@ -0,0 +1,23 @@
+/**
+ * hooks/useSearch.ts
+ *
+ * React Query hook for board search (REST, GET /api/tasks/search). The
+ * query language is parsed server-side — see apps/server/src/lib/searchQuery.ts.
+ * Results are kept while the next query loads, so the board doesn't flash
+ * unfiltered between keystrokes.
+ */
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api';
+import type { SearchHit } from '@/types';
+
+export function useTaskSearch(boardId: string, q: string) {
+  return useQuery({
+    queryKey: ['boards', boardId, 'search', q],
+    queryFn:  () => apiFetch<SearchHit[]>(
+      `/api/tasks/search?${new URLSearchParams({ boardId, q, limit: '500' })}`,
+    ),
+    enabled:         q.trim() !== '',
+    placeholderData: keepPreviousData,
+    retry:           false,
+  });
+}
@@ -0,0 +1,39 @@
+/**
+ * hooks/useTemplates.ts
+ *
+ * React Query hooks for board templates (REST): the templates the user may
+ * start a board from, saving the open board as one, and deleting one's own.
+ * Boards are made from a template with useCreateBoard({ name, templateId }).
+ */
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api';
+import type { BoardTemplate } from '@/types';
+
+export const templatesKey = ['templates'] as const;
+
+export function useTemplates() {
+  return useQuery({
+    queryKey: templatesKey,
+    queryFn:  () => apiFetch<BoardTemplate[]>('/api/templates'),
+  });
+}
+
+export function useSaveTemplate(boardId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (body: { name: string; description: string; shared: boolean }) =>
+      apiFetch<BoardTemplate>(`/api/boards/${boardId}/templates`, { method: 'POST', body: JSON.stringify(body) }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: templatesKey }),
+  });
+}
+
+export function useDeleteTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (templateId: string) =>
+      apiFetch<{ id: string }>(`/api/templates/${templateId}`, { method: 'DELETE' }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: templatesKey }),
+  });
+}
@@ -0,0 +1,26 @@
+/**
+ * hooks/useTrash.ts
+ *
+ * React Query hooks for a board's trash (REST). Deleting and restoring both
+ * reach every client as socket events (TASK_DELETED / TASK_RESTORED), which
+ * useWebSocket turns into an invalidation of trashKey(boardId).
+ */
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api';
+import type { Task } from '@/types';
+
+export const trashKey = (boardId: string) => ['boards', boardId, 'trash'] as const;
+
+export function useTrash(boardId: string) {
+  return useQuery({
+    queryKey: trashKey(boardId),
+    queryFn:  () => apiFetch<Task[]>(`/api/boards/${boardId}/trash`),
+  });
+}
+
+export function useRestoreTask(boardId: string) {
+  return useMutation({
+    mutationFn: (taskId: string) =>
+      apiFetch<Task>(`/api/boards/${boardId}/trash/${taskId}/restore`, { method: 'POST' }),
+  });
+}
@@ -0,0 +1,38 @@
+/**
+ * hooks/useUndoShortcuts.ts
+ *
+ * Board-wide keyboard shortcuts for undo / redo:
+ *   Ctrl/Cmd+Z         → undo
+ *   Ctrl/Cmd+Shift+Z   → redo
+ *   Ctrl+Y             → redo
+ *
+ * Ignored while typing in an input, textarea or contentEditable so the
+ * browser's own text undo keeps working there.
+ */
+import { useEffect } from 'react';
+
+function isTextTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || target.tagName === 'INPUT' || target.tagName === 'TEXTAREA';
+}
+
+export function useUndoShortcuts(undo: () => void, redo: () => void) {
+  useEffect(() => {
+    function handleKeyDown(e: KeyboardEvent) {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextTarget(e.target)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) redo();
+        else undo();
+      } else if (key === 'y' && !e.shiftKey) {
+        e.preventDefault();
+        redo();
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+}
@@ -0,0 +1,62 @@
+/**
+ * hooks/useViews.ts
+ *
+ * React Query hooks for a board's saved views (REST) — the user's own plus
+ * the ones shared on the board. Changes to shared views make the server
+ * push VIEWS_CHANGED to the board room, which useWebSocket turns into an
+ * invalidation of viewsKey(boardId).
+ *
+ * The applied view is kept in the URL as `?view=<id>` (useActiveView), so a
+ * shared view can be linked to.
+ */
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSearchParams } from 'react-router-dom';
+import { apiFetch } from '@/lib/api';
+import type { BoardView, ViewPayload } from '@/types';
+
+export const viewsKey = (boardId: string) => ['boards', boardId, 'views'] as const;
+
+export function useViews(boardId: string) {
+  return useQuery({
+    queryKey: viewsKey(boardId),
+    queryFn:  () => apiFetch<BoardView[]>(`/api/boards/${boardId}/views`),
+  });
+}
+
+/** The view named by `?view=`, once the board's views have loaded. */
+export function useActiveView(boardId: string): BoardView | undefined {
+  const [params] = useSearchParams();
+  const { data: views } = useViews(boardId);
+  const viewId = params.get('view');
+  return viewId ? views?.find((v) => v.id === viewId) : undefined;
+}
+
+export function useCreateView(boardId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (body: ViewPayload) =>
+      apiFetch<BoardView>(`/api/boards/${boardId}/views`, { method: 'POST', body: JSON.stringify(body) }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: viewsKey(boardId) }),
+  });
+}
+
+export function useUpdateView(boardId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ viewId, patch }: { viewId: string; patch: Partial<ViewPayload> }) =>
+      apiFetch<BoardView>(`/api/boards/${boardId}/views/${viewId}`, { method: 'PATCH', body: JSON.stringify(patch) }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: viewsKey(boardId) }),
+  });
+}
+
+export function useDeleteView(boardId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (viewId: string) =>
+      apiFetch<BoardView>(`/api/boards/${boardId}/views/${viewId}`, { method: 'DELETE' }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: viewsKey(boardId) }),
+  });
+}
@@ -4,6 +4,7 @@
  * Manages the socket.io connection lifecycle and all server event handling.
  *
  * Responsibilities:
+ *   - Connect to one board's room (session token + boardId in the handshake)
  *   - Connect / reconnect with exponential back-off
  *   - Route every ServerEvent to the correct store action
  *   - Detect offline → online transitions and replay queued ops
@@ -14,19 +15,33 @@
  */
 import { useEffect, useRef, useCallback } from 'react';
 import { io, type Socket } from 'socket.io-client';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
 import { useBoardStore } from '@/store/boardStore';
 import { usePresenceStore } from '@/store/presenceStore';
-import { notifyConflict } from '@/lib/conflictNotify';
+import { useTextSyncStore } from '@/store/textSyncStore';
+import { useFilterStore } from '@/store/filterStore';
+import { useAuthStore } from '@/store/authStore';
+import { notifyBatchRejected, notifyConflict, notifyCreateRejected } from '@/lib/conflictNotify';
+import { formatDay } from '@/lib/dueDates';
 import { useOfflineQueue } from './useOfflineQueue';
-import type { ClientEvent, ServerEvent } from '@/types';
+import { membersKey } from './useMembers';
+import { trashKey } from './useTrash';
+import { viewsKey } from './useViews';
+import { commentsKey } from './useComments';
+import type { ClientEvent, ServerEvent, TaskComment } from '@/types';
 
 const WS_URL = import.meta.env.VITE_WS_URL ?? 'ws://localhost:8080';
 
-export function useWebSocket(displayName: string) {
+/** Handshake rejections that mean the stored session is no longer valid. */
+const AUTH_ERRORS = new Set(['AUTH_REQUIRED', 'AUTH_INVALID']);
+
+export function useWebSocket(token: string, boardId: string) {
   const socketRef = useRef<Socket | null>(null);
   const isOnline  = useRef<boolean>(false);
 
-  const { enqueue, flushQueue } = useOfflineQueue();
+  const { enqueue, flushQueue } = useOfflineQueue(boardId);
+  const queryClient = useQueryClient();
   
   // Use getState() for actions to avoid subscribing to store updates
   // (which would cause App to re-render on every state change)
@@ -49,11 +64,18 @@ export function useWebSocket(displayName: string) {
       reconnection:   true,
       reconnectionDelay:    1000,
       reconnectionDelayMax: 10000,
-      auth: { displayName },
+      auth: { token, boardId },
     });
 
     socketRef.current = socket;
 
+    // ── Handshake rejected (bad session, unknown board) — no auto-reconnect ─
+    socket.on('connect_error', (err: Error) => {
+      if (socket.active) return;
+      if (AUTH_ERRORS.has(err.message)) useAuthStore.getState().clearSession();
+      else useBoardStore.getState().setBoardError(err.message);
+    });
+
     // ── Connect ────────────────────────────────────────────────────────────
     socket.on('connect', () => {
       isOnline.current = true;
@@ -75,24 +97,150 @@ export function useWebSocket(displayName: string) {
     // ── Server events → store actions ──────────────────────────────────────
 
     socket.on('BOARD_SNAPSHOT', (payload: Extract<ServerEvent, { type: 'BOARD_SNAPSHOT' }>['payload']) => {
-      useBoardStore.getState().loadSnapshot(payload.tasks);
+      useBoardStore.getState().loadSnapshot(
+        payload.board, payload.role, payload.columns, payload.labels, payload.tasks, payload.commentCounts,
+      );
       usePresenceStore.getState().loadUsers(payload.presence);
     });
 
+    socket.on('ROLE_CHANGED', ({ role }: Extract<ServerEvent, { type: 'ROLE_CHANGED' }>['payload']) => {
+      useBoardStore.getState().setRole(role);
+      toast.info(`Your role on this board is now ${role}`);
+    });
+
+    socket.on('MEMBERS_CHANGED', () => {
+      void queryClient.invalidateQueries({ queryKey: membersKey(boardId) });
+    });
+
+    socket.on('VIEWS_CHANGED', () => {
+      void queryClient.invalidateQueries({ queryKey: viewsKey(boardId) });
+    });
+
     socket.on('TASK_CREATED', (task: Extract<ServerEvent, { type: 'TASK_CREATED' }>['payload']) => {
       useBoardStore.getState().confirmCreate(task);
     });
 
     socket.on('TASK_UPDATED', (task: Extract<ServerEvent, { type: 'TASK_UPDATED' }>['payload']) => {
       useBoardStore.getState().confirmUpdate(task);
+      useTextSyncStore.getState().resync(task);
+    });
+
+    socket.on('TASK_TEXT_EDITED', (payload: Extract<ServerEvent, { type: 'TASK_TEXT_EDITED' }>['payload']) => {
+      useBoardStore.getState().confirmUpdate(payload.task);
+      // An ack releases the op typed meanwhile — send it straight on
+      const next = useTextSyncStore.getState().receive(payload);
+      if (next) socket.emit('TASK_TEXT_EDIT', next);
+    });
+
+    socket.on('TASK_TEXT_RESYNC', (task: Extract<ServerEvent, { type: 'TASK_TEXT_RESYNC' }>['payload']) => {
+      useBoardStore.getState().confirmUpdate(task);
+      useTextSyncStore.getState().resync(task, true);
     });
 
     socket.on('TASK_MOVED', (task: Extract<ServerEvent, { type: 'TASK_MOVED' }>['payload']) => {
       useBoardStore.getState().confirmMove(task);
     });
 
+    // One store update for the whole batch
+    socket.on('TASK_BATCH_APPLIED', ({ tasks, deletedIds }: Extract<ServerEvent, { type: 'TASK_BATCH_APPLIED' }>['payload']) => {
+      useBoardStore.getState().confirmBatch(tasks, deletedIds);
+      if (deletedIds.length > 0) void queryClient.invalidateQueries({ queryKey: trashKey(boardId) });
+    });
+
+    // Only the sender gets this — its optimistic batch is rolled back
+    socket.on('TASK_BATCH_REJECTED', ({ tasks, message }: Extract<ServerEvent, { type: 'TASK_BATCH_REJECTED' }>['payload']) => {
+      useBoardStore.getState().rollbackBatch(tasks);
+      notifyBatchRejected(message);
+    });
+
+    socket.on('CHECKLIST_UPDATED', (task: Extract<ServerEvent, { type: 'CHECKLIST_UPDATED' }>['payload']) => {
+      useBoardStore.getState().confirmUpdate(task);
+    });
+
+    socket.on('TASK_CREATE_REJECTED', ({ id, message }: Extract<ServerEvent, { type: 'TASK_CREATE_REJECTED' }>['payload']) => {
+      useBoardStore.getState().rollbackCreate(id);
+      notifyCreateRejected(message);
+    });
+
     socket.on('TASK_DELETED', ({ id }: Extract<ServerEvent, { type: 'TASK_DELETED' }>['payload']) => {
       useBoardStore.getState().confirmDelete(id);
+      void queryClient.invalidateQueries({ queryKey: trashKey(boardId) });
+    });
+
+    socket.on('TASK_RESTORED', (task: Extract<ServerEvent, { type: 'TASK_RESTORED' }>['payload']) => {
+      useBoardStore.getState().confirmCreate(task);
+      void queryClient.invalidateQueries({ queryKey: trashKey(boardId) });
+    });
+
+    socket.on('COLUMN_CREATED', (column: Extract<ServerEvent, { type: 'COLUMN_CREATED' }>['payload']) => {
+      useBoardStore.getState().confirmColumn(column);
+    });
+
+    socket.on('COLUMN_UPDATED', (column: Extract<ServerEvent, { type: 'COLUMN_UPDATED' }>['payload']) => {
+      useBoardStore.getState().confirmColumn(column);
+    });
+
+    socket.on('COLUMN_MOVED', (column: Extract<ServerEvent, { type: 'COLUMN_MOVED' }>['payload']) => {
+      useBoardStore.getState().confirmColumn(column);
+    });
+
+    socket.on('COLUMN_DELETED', ({ id, movedTasks }: Extract<ServerEvent, { type: 'COLUMN_DELETED' }>['payload']) => {
+      useBoardStore.getState().confirmColumnDelete(id, movedTasks);
+    });
+
+    socket.on('LABEL_CREATED', (label: Extract<ServerEvent, { type: 'LABEL_CREATED' }>['payload']) => {
+      useBoardStore.getState().confirmLabel(label);
+    });
+
+    socket.on('LABEL_UPDATED', (label: Extract<ServerEvent, { type: 'LABEL_UPDATED' }>['payload']) => {
+      useBoardStore.getState().confirmLabel(label);
+    });
+
+    socket.on('LABEL_DELETED', ({ id, updatedTasks }: Extract<ServerEvent, { type: 'LABEL_DELETED' }>['payload']) => {
+      useBoardStore.getState().confirmLabelDelete(id, updatedTasks);
+      useFilterStore.getState().dropLabel(id);
+    });
+
+    // Open threads are patched in place; closed ones just refetch next time
+    socket.on('COMMENT_CREATED', (comment: Extract<ServerEvent, { type: 'COMMENT_CREATED' }>['payload']) => {
+      useBoardStore.getState().adjustCommentCount(comment.taskId, 1);
+      queryClient.setQueryData<TaskComment[]>(commentsKey(comment.taskId), (thread) =>
+        thread && !thread.some((c) => c.id === comment.id) ? [...thread, comment] : thread,
+      );
+    });
+
+    socket.on('COMMENT_UPDATED', (comment: Extract<ServerEvent, { type: 'COMMENT_UPDATED' }>['payload']) => {
+      queryClient.setQueryData<TaskComment[]>(commentsKey(comment.taskId), (thread) =>
+        thread?.map((c) => (c.id === comment.id ? comment : c)),
+      );
+    });
+
+    socket.on('COMMENT_DELETED', ({ id, taskId }: Extract<ServerEvent, { type: 'COMMENT_DELETED' }>['payload']) => {
+      useBoardStore.getState().adjustCommentCount(taskId, -1);
+      queryClient.setQueryData<TaskComment[]>(commentsKey(taskId), (thread) =>
+        thread?.filter((c) => c.id !== id),
+      );
+    });
+
+    // Only the mover gets this — the move itself went through (TASK_MOVED)
+    socket.on('TASK_BLOCKED_WARNING', ({ title, blockers }: Extract<ServerEvent, { type: 'TASK_BLOCKED_WARNING' }>['payload']) => {
+      toast.warning(`"${title}" is done, but still blocked`, {
+        description: `Not done yet: ${blockers.map((b) => `"${b.title}"`).join(', ')}`,
+      });
+    });
+
+    // Reminders for my tasks, and for tasks nobody has been assigned to
+    socket.on('TASK_DUE_SOON', ({ title, dueAt, assigneeIds }: Extract<ServerEvent, { type: 'TASK_DUE_SOON' }>['payload']) => {
+      const myId = useAuthStore.getState().user?.id;
+      if (assigneeIds.length > 0 && (!myId || !assigneeIds.includes(myId))) return;
+      toast.warning(`"${title}" is due ${formatDay(dueAt)} at ${new Date(dueAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`);
+    });
+
+    // Only the importing user gets these — one toast per job, updated in place
+    socket.on('IMPORT_PROGRESS', ({ jobId, status, done, total, message }: Extract<ServerEvent, { type: 'IMPORT_PROGRESS' }>['payload']) => {
+      if (status === 'running') toast.loading(`Importing… ${done} of ${total} tasks`, { id: jobId });
+      else if (status === 'done') toast.success(`Imported ${done} ${done === 1 ? 'task' : 'tasks'}`, { id: jobId });
+      else toast.error(`Import stopped after ${done} of ${total} tasks: ${message ?? 'unknown error'}`, { id: jobId });
     });
 
     socket.on('CONFLICT_NOTIFY', (payload: Extract<ServerEvent, { type: 'CONFLICT_NOTIFY' }>['payload']) => {
@@ -106,14 +254,20 @@ export function useWebSocket(displayName: string) {
 
     socket.on('ERROR', ({ code, message }: Extract<ServerEvent, { type: 'ERROR' }>['payload']) => {
       console.error(`[WS Error] ${code}: ${message}`);
+      // Removed from the board while connected — the server disconnects us next
+      if (code === 'NOT_A_MEMBER') useBoardStore.getState().setBoardError(code);
+      else if (code === 'FORBIDDEN' || code === 'LABEL_EXISTS') toast.error(message);
     });
 
     return () => {
       socket.disconnect();
       socketRef.current = null;
+      useBoardStore.getState().reset();
+      useTextSyncStore.getState().reset();
+      usePresenceStore.getState().loadUsers([]);
     };
-    // Reconnect if displayName changes (to update presence)
-  }, [displayName]);
+    // Reconnect if the session (identity) or boardId (room) changes
+  }, [token, boardId, queryClient]);
 
   return { emit, isOnline: isOnline.current };
 }
@@ -0,0 +1,69 @@
+/**
+ * lib/api.ts
+ *
+ * Thin fetch wrapper for the FlowBoard REST API.
+ * Every endpoint responds with `{ ok: true, data }` or `{ ok: false, error }`;
+ * this unwraps `data` and throws an ApiError otherwise so React Query can
+ * surface it as `error`.
+ *
+ * Sends the session token as a Bearer header. A 401 means the session is
+ * gone (expired / secret rotated), so the stored session is cleared.
+ */
+import { useAuthStore } from '@/store/authStore';
+
+const API_URL = import.meta.env.VITE_API_URL ?? 'http://localhost:8080';
+
+type ApiResponse<T> = { ok: true; data: T } | { ok: false; error: string };
+
+export class ApiError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name   = 'ApiError';
+    this.status = status;
+  }
+}
+
+export async function apiFetch<T>(path: string, init?: RequestInit): Promise<T> {
+  const token = useAuthStore.getState().token;
+  const res   = await fetch(`${API_URL}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...init?.headers,
+    },
+  });
+
+  const body = (await res.json().catch(() => null)) as ApiResponse<T> | null;
+
+  if (res.status === 401 && token) useAuthStore.getState().clearSession();
+
+  if (!res.ok || !body || !body.ok) {
+    throw new ApiError(res.status, body && !body.ok ? body.error : res.statusText);
+  }
+  return body.data;
+}
+
+/**
+ * Fetch a file the API sends as a download (board export). The file name
+ * comes from the Content-Disposition header, `fallback` when there is none.
+ */
+export async function apiDownload(path: string, fallback: string): Promise<{ blob: Blob; filename: string }> {
+  const token = useAuthStore.getState().token;
+  const res   = await fetch(`${API_URL}${path}`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+
+  if (res.status === 401 && token) useAuthStore.getState().clearSession();
+
+  if (!res.ok) {
+    const body = (await res.json().catch(() => null)) as ApiResponse<never> | null;
+    throw new ApiError(res.status, body && !body.ok ? body.error : res.statusText);
+  }
+
+  const disposition = res.headers.get('Content-Disposition') ?? '';
+  const filename    = /filename="([^"]+)"/.exec(disposition)?.[1] ?? fallback;
+  return { blob: await res.blob(), filename };
+}
@@ -0,0 +1,65 @@
+/**
+ * lib/checklist.ts
+ *
+ * Client-side checklist helpers (Task.checklist).
+ *
+ * applyChecklistOp mirrors the server's apps/server/src/lib/checklist.ts
+ * closely enough for optimistic UI: it applies the op to the local copy and
+ * leaves validation (full list, duplicate ids) to the server, whose
+ * CHECKLIST_UPDATED — or CONFLICT_NOTIFY on refusal — replaces the list.
+ */
+import { orderBetween } from '@/lib/fractionalIndex';
+import type { ChecklistItem } from '@/types';
+
+export type ChecklistOp =
+  | { kind: 'add';    id: string; text: string; order?: number }
+  | { kind: 'update'; id: string; text?: string; done?: boolean }
+  | { kind: 'move';   id: string; order: number }
+  | { kind: 'delete'; id: string };
+
+function byOrder(items: ChecklistItem[]): ChecklistItem[] {
+  return [...items].sort((a, b) => a.order - b.order);
+}
+
+/** Order that puts a new item at the bottom of `items`. */
+export function appendOrder(items: ChecklistItem[]): number {
+  const last = byOrder(items).at(-1);
+  return orderBetween(last?.order ?? null, null);
+}
+
+/** `items` after `op`, sorted by order. Ops on a missing item change nothing. */
+export function applyChecklistOp(items: ChecklistItem[], op: ChecklistOp): ChecklistItem[] {
+  switch (op.kind) {
+    case 'add':
+      return byOrder([...items, { id: op.id, text: op.text, done: false, order: op.order ?? appendOrder(items) }]);
+    case 'update':
+      return byOrder(items.map((i) =>
+        i.id === op.id ? { ...i, text: op.text ?? i.text, done: op.done ?? i.done } : i,
+      ));
+    case 'move':
+      return byOrder(items.map((i) => (i.id === op.id ? { ...i, order: op.order } : i)));
+    case 'delete':
+      return items.filter((i) => i.id !== op.id);
+  }
+}
+
+/**
+ * Order that moves `id` one step up (-1) or down (+1) in `items`, or null
+ * when it is already first / last.
+ */
+export function orderForStep(items: ChecklistItem[], id: string, step: -1 | 1): number | null {
+  const sorted = byOrder(items);
+  const index  = sorted.findIndex((i) => i.id === id);
+  const target = index + step;
+  if (index === -1 || target < 0 || target >= sorted.length) return null;
+
+  // Land between the neighbour we pass and the one beyond it
+  const before = step < 0 ? sorted[target - 1] : sorted[target];
+  const after  = step < 0 ? sorted[target]     : sorted[target + 1];
+  return orderBetween(before?.order ?? null, after?.order ?? null);
+}
+
+/** Done / total items — drives the "x/y" indicator on the card. */
+export function checklistProgress(items: ChecklistItem[]): { done: number; total: number } {
+  return { done: items.filter((i) => i.done).length, total: items.length };
+}
@@ -1,7 +1,9 @@
 /**
  * lib/conflictNotify.ts
  *
- * Shows a toast notification when the server emits CONFLICT_NOTIFY.
+ * Shows a toast notification when the server emits CONFLICT_NOTIFY,
+ * TASK_CREATE_REJECTED or TASK_BATCH_REJECTED, or when undo / redo had to skip changes another user
+ * made in the meantime.
  * Uses sonner (lightweight, zero-dependency toast library).
  *
  * Import the <Toaster /> component once in App.tsx.
@@ -27,3 +29,39 @@ export function notifyConflict(payload: ConflictPayload): void {
     style: { fontFamily: 'var(--font-body)' },
   });
 }
+
+/**
+ * Call this inside the useWebSocket TASK_BATCH_REJECTED handler — none of
+ * the batch was applied.
+ */
+export function notifyBatchRejected(message: string): void {
+  toast.warning('Changes not applied', {
+    description: message,
+    duration:    5000,
+    style: { fontFamily: 'var(--font-body)' },
+  });
+}
+
+/**
+ * Call this inside the useWebSocket TASK_CREATE_REJECTED handler — the new
+ * card was withdrawn.
+ */
+export function notifyCreateRejected(message: string): void {
+  toast.warning('Task not created', {
+    description: message,
+    duration:    5000,
+    style: { fontFamily: 'var(--font-body)' },
+  });
+}
+
+/**
+ * Call this from useBoard when an undo / redo step was (partly) skipped
+ * because another user changed the task since.
+ */
+export function notifyUndoConflict(action: 'undo' | 'redo'): void {
+  toast.warning(action === 'undo' ? 'Nothing undone' : 'Nothing redone', {
+    description: 'Someone else changed this task since — their edits were kept.',
+    duration:    4000,
+    style: { fontFamily: 'var(--font-body)' },
+  });
+}
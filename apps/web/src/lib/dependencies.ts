@@ -0,0 +1,43 @@
+/**
+ * lib/dependencies.ts
+ *
+ * "Blocks" links between tasks (Task.blockedByIds), as the board shows them.
+ * The server refuses links that would form a cycle
+ * (apps/server/src/lib/dependencies.ts); `wouldCycle` lets the details
+ * panel leave such tasks out of its picker in the first place.
+ */
+import type { BoardColumn, Task } from '@/types';
+
+/**
+ * Blockers of `task` that are not done yet — on the board and outside done
+ * columns. Ids of deleted tasks are skipped.
+ */
+export function openBlockers(
+  task:    Task,
+  tasks:   Record<string, Task>,
+  columns: Record<string, BoardColumn>,
+): Task[] {
+  return task.blockedByIds
+    .map((id) => tasks[id])
+    .filter((t): t is Task => t !== undefined && !columns[t.columnId]?.isDone);
+}
+
+/** Tasks that `task` blocks, i.e. that list it in their blockedByIds. */
+export function blockedTasks(task: Task, tasks: Record<string, Task>): Task[] {
+  return Object.values(tasks).filter((t) => t.blockedByIds.includes(task.id));
+}
+
+/** Whether making `blockerId` block `taskId` would close a cycle. */
+export function wouldCycle(tasks: Record<string, Task>, taskId: string, blockerId: string): boolean {
+  // A cycle exists iff taskId already (transitively) blocks blockerId
+  const seen  = new Set<string>();
+  const stack = [blockerId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === taskId) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    stack.push(...(tasks[id]?.blockedByIds ?? []));
+  }
+  return false;
+}
@@ -0,0 +1,68 @@
+/**
+ * lib/dueDates.ts
+ *
+ * Start / due date helpers: the overdue and due-soon flags, the due-date
+ * sort, labels, and the conversion to and from `<input type="date">`.
+ * Pure — no store, no React.
+ *
+ * Dates are picked by day: a start date means the start of that local day,
+ * a due date the end of it.
+ */
+import type { Task } from '@/types';
+
+/** Matches the server's default DUE_SOON_HOURS — when TASK_DUE_SOON fires. */
+export const DUE_SOON_MS = 24 * 60 * 60 * 1000;
+
+export type DueState = 'overdue' | 'soon' | 'upcoming';
+
+/**
+ * How urgent a due date is at `now`. Tasks in a done column are never
+ * flagged; null when there is no due date.
+ */
+export function dueState(dueAt: string | null | undefined, now: number, done = false): DueState | null {
+  if (!dueAt || done) return null;
+  const due = Date.parse(dueAt);
+  if (due < now) return 'overdue';
+  if (due - now <= DUE_SOON_MS) return 'soon';
+  return 'upcoming';
+}
+
+/** Earliest due date first, tasks without one last; ties keep column order. */
+export function compareByDue(a: Task, b: Task): number {
+  const da = a.dueAt ? Date.parse(a.dueAt) : Infinity;
+  const db = b.dueAt ? Date.parse(b.dueAt) : Infinity;
+  if (da !== db) return da < db ? -1 : 1;
+  return a.order - b.order;
+}
+
+/** `Mar 3`, or `Mar 3, 2027` outside the current year. */
+export function formatDay(iso: string, now: number = Date.now()): string {
+  const date = new Date(iso);
+  const sameYear = date.getFullYear() === new Date(now).getFullYear();
+  return date.toLocaleDateString(undefined, {
+    month: 'short',
+    day:   'numeric',
+    ...(sameYear ? {} : { year: 'numeric' }),
+  });
+}
+
+/** Local `YYYY-MM-DD` for a date input, '' when unset. */
+export function toDateInput(iso: string | null | undefined): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  const pad  = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * ISO timestamp for a date input's value — the start or the end of that
+ * local day. An empty value clears the date (null).
+ */
+export function fromDateInput(value: string, edge: 'start' | 'end'): string | null {
+  if (!value) return null;
+  const [year, month, day] = value.split('-').map(Number);
+  const date = edge === 'start'
+    ? new Date(year, month - 1, day, 0, 0, 0, 0)
+    : new Date(year, month - 1, day, 23, 59, 59, 999);
+  return date.toISOString();
+}
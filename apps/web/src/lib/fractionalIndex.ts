@@ -18,3 +18,19 @@ export function orderBetween(
   const hi = next ?? lo + 1;
   return (lo + hi) / 2;
 }
+
+/**
+ * `count` floats evenly spaced between prev and next, ascending — the
+ * orders of several tasks dropped together (a multi-select drag).
+ * For a single task this is orderBetween.
+ */
+export function ordersBetween(
+  prev:  number | null,
+  next:  number | null,
+  count: number,
+): number[] {
+  const lo   = prev ?? 0;
+  const hi   = next ?? lo + count;
+  const step = (hi - lo) / (count + 1);
+  return Array.from({ length: count }, (_, i) => lo + step * (i + 1));
+}
@@ -0,0 +1,10 @@
+/**
+ * lib/palette.ts
+ *
+ * Accent colours offered by the column and label colour pickers. Must be
+ * #RRGGBB — the server (and the CHECKs in 007 / 014) reject anything else.
+ */
+export const ACCENT_PALETTE = [
+  '#64748B', '#D97706', '#16A34A', '#2563EB',
+  '#7C3AED', '#DB2777', '#DC2626', '#0891B2',
+] as const;
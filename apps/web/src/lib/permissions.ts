@@ -0,0 +1,32 @@
+/**
+ * lib/permissions.ts
+ *
+ * Client copy of the server's role → permission matrix
+ * (apps/server/src/lib/permissions.ts). Only used to hide affordances the
+ * user can't use — the server enforces the same rules on every event.
+ */
+import type { Role } from '@/types';
+
+export type Permission =
+  | 'board:view'
+  | 'task:edit'
+  | 'label:manage'
+  | 'column:manage'
+  | 'member:manage'
+  | 'comment:moderate'
+  | 'wip:override'
+  | 'webhook:manage';
+
+const MATRIX: Record<Role, ReadonlySet<Permission>> = {
+  viewer: new Set<Permission>(['board:view']),
+  editor: new Set<Permission>(['board:view', 'task:edit', 'label:manage']),
+  admin:  new Set<Permission>([
+    'board:view', 'task:edit', 'label:manage', 'column:manage', 'member:manage', 'comment:moderate', 'wip:override',
+    'webhook:manage',
+  ]),
+};
+
+/** Whether `role` grants `permission`. No role (not loaded yet) grants nothing. */
+export function can(role: Role | null, permission: Permission): boolean {
+  return role !== null && MATRIX[role].has(permission);
+}
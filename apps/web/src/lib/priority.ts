@@ -0,0 +1,34 @@
+/**
+ * lib/priority.ts
+ *
+ * Task priority and estimate helpers: display metadata, the card keyboard
+ * shortcuts, and column estimate totals. Pure — no store, no React.
+ */
+import type { Task, TaskPriority } from '@/types';
+
+/** Most to least urgent */
+export const PRIORITIES: readonly TaskPriority[] = ['urgent', 'high', 'medium', 'low', 'none'];
+
+export const PRIORITY_META: Record<TaskPriority, { label: string; color: string; key: string }> = {
+  urgent: { label: 'Urgent',      color: '#DC2626', key: '1' },
+  high:   { label: 'High',        color: '#EA580C', key: '2' },
+  medium: { label: 'Medium',      color: '#D97706', key: '3' },
+  low:    { label: 'Low',         color: '#2563EB', key: '4' },
+  none:   { label: 'No priority', color: '#94A3B8', key: '0' },
+};
+
+/** The priority a focused card's shortcut key (1–4, 0 = none) sets, or null. */
+export function priorityForKey(key: string): TaskPriority | null {
+  return PRIORITIES.find((p) => PRIORITY_META[p].key === key) ?? null;
+}
+
+/** Sum of the tasks' estimates — unestimated tasks count as 0. */
+export function totalEstimate(tasks: Task[]): number {
+  // Estimates have one decimal — round away float noise (0.1 + 0.2)
+  return Math.round(tasks.reduce((sum, t) => sum + (t.estimate ?? 0), 0) * 10) / 10;
+}
+
+/** `3 pts`, `1 pt`, `0.5 pts` */
+export function formatEstimate(points: number): string {
+  return `${points} ${points === 1 ? 'pt' : 'pts'}`;
+}
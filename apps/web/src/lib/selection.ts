@@ -0,0 +1,34 @@
+/**
+ * lib/selection.ts
+ *
+ * Multi-select of task cards on the board (KanbanBoard) — cmd / ctrl-click
+ * toggles a card, shift-click selects every card from the last one clicked.
+ * The selection is then dragged as a group (useBoard `batch`). Pure — no
+ * store, no React.
+ */
+
+export type SelectMode = 'toggle' | 'range';
+
+/**
+ * The selection after clicking `id` with `mode`. A range runs from `anchor`
+ * (the card clicked before) to `id` through `ordered`, the cards in the
+ * order they are shown, and adds to what was selected.
+ */
+export function nextSelection(
+  selected: string[],
+  ordered:  string[],
+  anchor:   string | null,
+  id:       string,
+  mode:     SelectMode,
+): string[] {
+  if (mode === 'toggle') {
+    return selected.includes(id) ? selected.filter((x) => x !== id) : [...selected, id];
+  }
+
+  const from = anchor ? ordered.indexOf(anchor) : -1;
+  const to   = ordered.indexOf(id);
+  if (from === -1 || to === -1) return selected.includes(id) ? selected : [...selected, id];
+
+  const range = ordered.slice(Math.min(from, to), Math.max(from, to) + 1);
+  return [...new Set([...selected, ...range])];
+}
@@ -0,0 +1,38 @@
+/**
+ * lib/table.ts
+ *
+ * Row order of the table view (TaskTable). Pure — no store, no React.
+ *
+ * "Status" is the task's column: rows sort by the column's place on the
+ * board, then by the task's position in it — the order the board shows.
+ * Every other sort falls back to that order for ties.
+ */
+import { PRIORITIES } from './priority';
+import type { BoardColumn, ColumnId, SortDirection, Task } from '@/types';
+
+export type TableSortKey = 'title' | 'status' | 'priority' | 'updatedBy' | 'updatedAt';
+
+export interface TableSort {
+  key:       TableSortKey;
+  direction: SortDirection;
+}
+
+/** Who changed the task last, falling back to its creator */
+export const updaterName = (task: Task): string => task.updatedByName ?? task.creatorName ?? '';
+
+/** `tasks` ordered for the table. */
+export function sortRows(tasks: Task[], sort: TableSort, columns: Record<ColumnId, BoardColumn>): Task[] {
+  const byStatus = (a: Task, b: Task): number =>
+    (columns[a.columnId]?.order ?? 0) - (columns[b.columnId]?.order ?? 0) || a.order - b.order;
+
+  const compare: Record<TableSortKey, (a: Task, b: Task) => number> = {
+    title:     (a, b) => a.title.localeCompare(b.title),
+    status:    byStatus,
+    priority:  (a, b) => PRIORITIES.indexOf(a.priority) - PRIORITIES.indexOf(b.priority),
+    updatedBy: (a, b) => updaterName(a).localeCompare(updaterName(b)),
+    updatedAt: (a, b) => Date.parse(a.updatedAt) - Date.parse(b.updatedAt),
+  };
+
+  const sign = sort.direction === 'asc' ? 1 : -1;
+  return [...tasks].sort((a, b) => sign * compare[sort.key](a, b) || byStatus(a, b));
+}
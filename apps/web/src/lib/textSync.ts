@@ -0,0 +1,121 @@
+/**
+ * lib/textSync.ts
+ *
+ * Client side of collaborative text editing (TASK_TEXT_EDIT) for one field
+ * of one task — the classic "one op in flight" OT client:
+ *
+ *   - A local edit is sent straight away if nothing is waiting for the
+ *     server, otherwise it is composed into a buffer.
+ *   - TASK_TEXT_EDITED carrying our own opId is the ack: the buffer (if any)
+ *     goes out next, based on the acknowledged revision.
+ *   - Anybody else's op on the same field is transformed against the op in
+ *     flight and the buffer, then applied to the local text — so the input
+ *     keeps every keystroke from both sides.
+ *
+ * Pure — no I/O. store/textSyncStore.ts keeps the sessions.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import { applyOp, compose, diffOp, isNoop, transform, type TextOp } from './textOt';
+import type { Task, TextField } from '@/types';
+
+export interface TextSession {
+  taskId:      string;
+  field:       TextField;
+  /** Last server revision folded into `text` */
+  revision:    number;
+  /** What the input shows — server text plus our unacknowledged edits */
+  text:        string;
+  /** Sent, waiting for its TASK_TEXT_EDITED */
+  outstanding: { opId: string; op: TextOp } | null;
+  /** Typed while `outstanding` was in flight */
+  buffer:      TextOp | null;
+}
+
+/** Payload of a TASK_TEXT_EDIT to send. */
+export interface OutgoingTextOp {
+  id:       string;
+  field:    TextField;
+  revision: number;
+  op:       TextOp;
+  opId:     string;
+}
+
+/** A TASK_TEXT_EDITED broadcast as far as a session is concerned. */
+export interface IncomingTextOp {
+  field:    TextField;
+  revision: number;
+  op:       TextOp;
+  opId:     string;
+}
+
+export function openSession(task: Task, field: TextField): TextSession {
+  return {
+    taskId:      task.id,
+    field,
+    revision:    task.textRevision ?? 0,
+    text:        task[field],
+    outstanding: null,
+    buffer:      null,
+  };
+}
+
+function send(session: TextSession, op: TextOp): [TextSession, OutgoingTextOp] {
+  const opId = uuidv4();
+  return [
+    { ...session, outstanding: { opId, op }, buffer: null },
+    { id: session.taskId, field: session.field, revision: session.revision, op, opId },
+  ];
+}
+
+/** The user changed the input to `text`. Returns the op to send, if any. */
+export function localEdit(
+  session: TextSession,
+  text:    string,
+): [TextSession, OutgoingTextOp | null] {
+  const op = diffOp(session.text, text);
+  if (isNoop(op)) return [session, null];
+
+  const next = { ...session, text };
+  if (!session.outstanding) return send(next, op);
+
+  next.buffer = session.buffer ? compose(session.buffer, op) : op;
+  return [next, null];
+}
+
+/**
+ * Fold a TASK_TEXT_EDITED into the session. Returns null when the session
+ * missed an op (the revision jumped) and must be reopened from the task.
+ */
+export function serverOp(
+  session:  TextSession,
+  incoming: IncomingTextOp,
+): [TextSession, OutgoingTextOp | null] | null {
+  // Already folded in (e.g. the session was reopened from a newer task)
+  if (incoming.revision <= session.revision) return [session, null];
+  if (incoming.revision !== session.revision + 1) return null;
+
+  const next = { ...session, revision: incoming.revision };
+
+  if (incoming.opId === session.outstanding?.opId) {
+    next.outstanding = null;
+    return session.buffer ? send(next, session.buffer) : [next, null];
+  }
+
+  // The other field's ops only advance the shared revision
+  if (incoming.field !== session.field) return [next, null];
+
+  let op = incoming.op;
+  if (session.outstanding) {
+    const [outstanding, rest] = transform(session.outstanding.op, op);
+    next.outstanding = { ...session.outstanding, op: outstanding };
+    op = rest;
+  }
+  if (session.buffer) {
+    const [buffer, rest] = transform(session.buffer, op);
+    next.buffer = buffer;
+    op = rest;
+  }
+
+  next.text = applyOp(session.text, op);
+  return [next, null];
+}
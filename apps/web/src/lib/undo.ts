@@ -0,0 +1,130 @@
+/**
+ * lib/undo.ts
+ *
+ * Undo/redo model for task operations. Pure — no store, no socket.
+ *
+ * Every task operation is recorded as an UndoEntry: the task's state
+ * before and after it (null = the task didn't exist). A batch records one
+ * entry per task, tied together by `batchId`. Undo walks after → before,
+ * redo walks before → after; planTransition turns such a step into the
+ * ops to emit (restore / delete / update / move). Deletes are
+ * soft on the server, so bringing a task back is a restore from the trash.
+ *
+ * Other users may have changed the task since. A step only touches a field
+ * whose current value still equals the state we are leaving, so undo never
+ * clobbers someone else's edit — conflicting fields are skipped and the
+ * plan is flagged `conflicted`.
+ */
+import type { ColumnId, Task, TaskPatch } from '@/types';
+
+/** The parts of a task an operation can change (plus what a restore shows optimistically). */
+export type TaskSnapshot = Pick<
+  Task,
+  | 'id' | 'columnId' | 'title' | 'description' | 'order' | 'assigneeIds' | 'labelIds' | 'startAt' | 'dueAt'
+  | 'priority' | 'estimate' | 'blockedByIds'
+>;
+
+/** Content fields — undone / redone through TASK_UPDATE */
+const CONTENT_FIELDS = [
+  'title', 'description', 'assigneeIds', 'labelIds', 'startAt', 'dueAt', 'priority', 'estimate',
+  'blockedByIds',
+] as const;
+
+export interface UndoEntry {
+  taskId: string;
+  before: TaskSnapshot | null;   // null — the operation created the task
+  after:  TaskSnapshot | null;   // null — the operation deleted the task
+  /** Set on the entries of one TASK_BATCH — they are undone / redone together */
+  batchId?: string;
+}
+
+export type TransitionOp =
+  | { type: 'restore'; task: TaskSnapshot }
+  | { type: 'delete' }
+  | { type: 'update'; patch: TaskPatch }
+  | { type: 'move'; columnId: ColumnId; order: number };
+
+export interface TransitionPlan {
+  ops:        TransitionOp[];
+  /** Some or all of the step was skipped because the task changed since */
+  conflicted: boolean;
+}
+
+export function snapshot(task: Task): TaskSnapshot {
+  return {
+    id:          task.id,
+    columnId:    task.columnId,
+    title:       task.title,
+    description: task.description,
+    order:       task.order,
+    assigneeIds: task.assigneeIds,
+    labelIds:    task.labelIds,
+    blockedByIds: task.blockedByIds,
+    // null, not undefined — an undo that clears a date / estimate has to send it
+    startAt:     task.startAt ?? null,
+    dueAt:       task.dueAt ?? null,
+    priority:    task.priority,
+    estimate:    task.estimate ?? null,
+  };
+}
+
+/**
+ * Field equality — assignee, label and blocker lists compare by value, not identity;
+ * an unset date or estimate equals a cleared (null) one.
+ */
+function sameValue(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => item === b[i]);
+  }
+  return (a ?? null) === (b ?? null);
+}
+
+/**
+ * Ops that take the task from `from` to `to`, given its `current` state in
+ * the store (undefined if it doesn't exist).
+ */
+export function planTransition(
+  current: Task | undefined,
+  from:    TaskSnapshot | null,
+  to:      TaskSnapshot | null,
+): TransitionPlan {
+  // Restore — only if nobody restored it meanwhile
+  if (!from) {
+    if (!to) return { ops: [], conflicted: false };
+    return current ? { ops: [], conflicted: true } : { ops: [{ type: 'restore', task: to }], conflicted: false };
+  }
+
+  // Someone else deleted it
+  if (!current) return { ops: [], conflicted: true };
+
+  const untouched = (field: keyof TaskSnapshot) => sameValue(current[field], from[field]);
+
+  // Delete — only if it is exactly as we left it
+  if (!to) {
+    const pristine = (['columnId', 'order', ...CONTENT_FIELDS] as const).every(untouched);
+    return pristine ? { ops: [{ type: 'delete' }], conflicted: false } : { ops: [], conflicted: true };
+  }
+
+  const ops: TransitionOp[] = [];
+  let conflicted = false;
+
+  // Content — field by field
+  const patch: TaskPatch = {};
+  for (const field of CONTENT_FIELDS) {
+    if (sameValue(from[field], to[field])) continue;
+    if (untouched(field)) Object.assign(patch, { [field]: to[field] });
+    else conflicted = true;
+  }
+  if (Object.keys(patch).length > 0) ops.push({ type: 'update', patch });
+
+  // Position — columnId and order move together
+  if (from.columnId !== to.columnId || from.order !== to.order) {
+    if (untouched('columnId') && untouched('order')) {
+      ops.push({ type: 'move', columnId: to.columnId, order: to.order });
+    } else {
+      conflicted = true;
+    }
+  }
+
+  return { ops, conflicted };
+}
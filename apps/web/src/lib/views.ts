@@ -0,0 +1,147 @@
+/**
+ * lib/views.ts
+ *
+ * Card sorting and swimlanes for saved views (BoardView) — and for the
+ * sort / group settings of the board while no view is applied. Pure — no
+ * store, no React.
+ *
+ * A task sits in exactly one lane: the value of the grouped field, or its
+ * first value for assignees and labels (NO_LANE when it has none).
+ * Dropping a card into another lane rewrites that field where it is
+ * editable (`lanePatch`); creator and updater lanes are read-only.
+ */
+import { compareByDue } from './dueDates';
+import { PRIORITIES, PRIORITY_META } from './priority';
+import type { BatchPatch, BoardLabel, BoardMember, GroupBy, SortDirection, SortField, Task } from '@/types';
+
+/** Lane key of tasks without a value (unassigned, unlabelled, unknown user) */
+export const NO_LANE = '';
+
+export interface Lane {
+  key:    string;
+  title:  string;
+  color?: string;
+}
+
+export const SORT_FIELDS: Array<{ value: SortField; label: string }> = [
+  { value: 'position', label: 'Board position' },
+  { value: 'updated',  label: 'Last updated' },
+  { value: 'created',  label: 'Created' },
+  { value: 'due',      label: 'Due date' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'title',    label: 'Title' },
+];
+
+export const GROUP_OPTIONS: Array<{ value: GroupBy; label: string }> = [
+  { value: 'none',     label: 'No swimlanes' },
+  { value: 'assignee', label: 'Assignee' },
+  { value: 'label',    label: 'Label' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'creator',  label: 'Creator' },
+  { value: 'updater',  label: 'Last updated by' },
+];
+
+const priorityRank = (task: Task): number => PRIORITIES.indexOf(task.priority);
+
+const COMPARE: Record<SortField, (a: Task, b: Task) => number> = {
+  position: (a, b) => a.order - b.order,
+  updated:  (a, b) => Date.parse(a.updatedAt) - Date.parse(b.updatedAt),
+  created:  (a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt),
+  due:      compareByDue,
+  // Ascending = most urgent first
+  priority: (a, b) => priorityRank(a) - priorityRank(b),
+  title:    (a, b) => a.title.localeCompare(b.title),
+};
+
+/** Comparator for a column's cards; ties keep their board position. */
+export function compareTasks(field: SortField, direction: SortDirection): (a: Task, b: Task) => number {
+  const sign = direction === 'asc' ? 1 : -1;
+  return (a, b) => sign * COMPARE[field](a, b) || a.order - b.order;
+}
+
+/** The lane `task` sits in under `groupBy`. */
+export function laneKey(task: Task, groupBy: GroupBy): string {
+  switch (groupBy) {
+    case 'none':     return NO_LANE;
+    case 'assignee': return task.assigneeIds[0] ?? NO_LANE;
+    case 'label':    return task.labelIds[0] ?? NO_LANE;
+    case 'priority': return task.priority;
+    case 'creator':  return task.creatorId ?? NO_LANE;
+    case 'updater':  return task.updatedById ?? task.creatorId ?? NO_LANE;
+  }
+}
+
+/** Whether dropping a card into another lane can change the grouped field. */
+export function lanesEditable(groupBy: GroupBy): boolean {
+  return groupBy === 'assignee' || groupBy === 'label' || groupBy === 'priority';
+}
+
+/**
+ * The lanes to show, top to bottom. Editable groupings list every value so
+ * each lane is a drop target; the others only the values the tasks carry.
+ * Values no longer in the catalog (former members) get a lane of their own.
+ */
+export function buildLanes(
+  groupBy: GroupBy,
+  tasks:   Task[],
+  members: BoardMember[],
+  labels:  BoardLabel[],
+): Lane[] {
+  let lanes: Lane[];
+  switch (groupBy) {
+    case 'none':
+      return [];
+    case 'priority':
+      lanes = PRIORITIES.map((p) => ({ key: p, title: PRIORITY_META[p].label, color: PRIORITY_META[p].color }));
+      break;
+    case 'assignee':
+      lanes = [
+        ...members.map((m) => ({ key: m.userId, title: m.displayName, color: m.color })),
+        { key: NO_LANE, title: 'Unassigned' },
+      ];
+      break;
+    case 'label':
+      lanes = [...labels.map((l) => ({ key: l.id, title: l.name, color: l.color })), { key: NO_LANE, title: 'No label' }];
+      break;
+    case 'creator':
+    case 'updater': {
+      const people = new Map<string, Lane>();
+      for (const t of tasks) {
+        const key = laneKey(t, groupBy);
+        const name = groupBy === 'creator' || !t.updatedById ? t.creatorName : t.updatedByName;
+        const color = groupBy === 'creator' || !t.updatedById ? t.creatorColor : t.updatedByColor;
+        if (!people.has(key)) people.set(key, { key, title: (key !== NO_LANE && name) || 'Unknown', color });
+      }
+      return [...people.values()].sort((a, b) =>
+        Number(a.key === NO_LANE) - Number(b.key === NO_LANE) || a.title.localeCompare(b.title),
+      );
+    }
+  }
+
+  const known = new Set(lanes.map((l) => l.key));
+  for (const t of tasks) {
+    const key = laneKey(t, groupBy);
+    if (!known.has(key)) {
+      known.add(key);
+      lanes.splice(lanes.length - 1, 0, { key, title: groupBy === 'assignee' ? 'Former member' : 'Deleted label' });
+    }
+  }
+  return lanes;
+}
+
+/**
+ * The edit that moves `task` from lane `from` to lane `to`, or null when
+ * the grouped field is read-only. Assignees and labels swap `from` for `to`
+ * (put first, so the card lands in that lane) and keep their other values;
+ * dropping into NO_LANE clears them.
+ */
+export function lanePatch(groupBy: GroupBy, task: Task, from: string, to: string): BatchPatch | null {
+  const swap = (ids: string[]) => (to === NO_LANE ? [] : [to, ...ids.filter((id) => id !== from && id !== to)]);
+
+  switch (groupBy) {
+    case 'priority': return { priority: to as Task['priority'] };
+    case 'assignee': return { assigneeIds: swap(task.assigneeIds) };
+    case 'label':    return { labelIds: swap(task.labelIds) };
+    default:         return null;
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * pages/BoardPage.tsx — route "/boards/:boardId"
+ *
+ * Responsibilities:
+ *   1. Mount the WebSocket connection for this board's room
+ *   2. Provide board actions (from useBoard) to KanbanBoard — or to
+ *      TaskTable with `?layout=table` (BoardFilters' layout switch)
+ *   3. Bind the undo / redo keyboard shortcuts
+ *   4. Show a loading skeleton until BOARD_SNAPSHOT arrives
+ *
+ * Rendered with `key={boardId}` so switching boards remounts the page and
+ * tears down the previous socket, store and offline queue cleanly.
+ */
+import { Link, useSearchParams } from 'react-router-dom';
+import { useWebSocket } from '@/hooks/useWebSocket';
+import { useBoard }     from '@/hooks/useBoard';
+import { useUndoShortcuts } from '@/hooks/useUndoShortcuts';
+import { useBoardStore } from '@/store/boardStore';
+import { KanbanBoard }  from '@/components/board/KanbanBoard';
+import { TaskTable }    from '@/components/board/TaskTable';
+
+// ── Board loading skeleton ─────────────────────────────────────────────────────
+
+function BoardSkeleton() {
+  return (
+    <div className="flex gap-6 p-6 overflow-x-auto flex-1 items-start">
+      {[0, 1, 2].map((i) => (
+        <div key={i} className="w-72 flex-shrink-0">
+          {/* Column header skeleton */}
+          <div className="flex items-center gap-2 mb-3 px-1">
+            <div className="w-2.5 h-2.5 rounded-full bg-[var(--color-border)] animate-pulse" />
+            <div className="h-4 w-24 rounded bg-[var(--color-border)] animate-pulse" />
+          </div>
+          {/* Card skeletons */}
+          <div className="flex flex-col gap-2 rounded-xl p-2 bg-[var(--color-bg-secondary)] min-h-[120px]">
+            {Array.from({ length: i === 0 ? 3 : i === 1 ? 2 : 1 }).map((_, j) => (
+              <div
+                key={j}
+                className="rounded-[var(--radius-card)] p-3 bg-[var(--color-bg-card)] border border-[var(--color-border)]"
+              >
+                <div className="h-3 w-3/4 rounded bg-[var(--color-border)] animate-pulse mb-2" />
+                <div className="h-2 w-1/2 rounded bg-[var(--color-border-strong)] animate-pulse opacity-50" />
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// ── Handshake rejected ─────────────────────────────────────────────────────────
+
+const UNAVAILABLE_MESSAGES: Record<string, string> = {
+  BOARD_NOT_FOUND: 'This board does not exist.',
+  NOT_A_MEMBER:    'You are not a member of this board.',
+};
+
+function BoardUnavailable({ code }: { code: string }) {
+  return (
+    <div className="flex flex-col items-center justify-center flex-1 gap-3 text-center p-8">
+      <p className="text-sm font-semibold text-[var(--color-text-primary)]">
+        {UNAVAILABLE_MESSAGES[code] ?? 'Could not open this board.'}
+      </p>
+      <Link
+        to="/"
+        className="text-sm font-medium text-[var(--color-accent-primary)] hover:text-[var(--color-accent-hover)]"
+      >
+        Back to all boards
+      </Link>
+    </div>
+  );
+}
+
+// ── Page ───────────────────────────────────────────────────────────────────────
+
+interface BoardPageProps {
+  boardId: string;
+  token:   string;
+}
+
+export function BoardPage({ boardId, token }: BoardPageProps) {
+  const { emit }   = useWebSocket(token, boardId);   // Reconnects on a new session
+  const board      = useBoard(emit as Parameters<typeof useBoard>[0]);
+  const isLoaded   = useBoardStore((s) => s.isLoaded);
+  const boardError = useBoardStore((s) => s.boardError);
+  const [params]   = useSearchParams();
+
+  useUndoShortcuts(board.undo, board.redo);
+
+  if (boardError) return <BoardUnavailable code={boardError} />;
+
+  if (isLoaded && params.get('layout') === 'table') {
+    return (
+      <TaskTable
+        onUpdateTask={board.updateTask}
+        onMoveTask={board.moveTask}
+        onDeleteTask={board.deleteTask}
+        batch={board.batch}
+      />
+    );
+  }
+
+  return isLoaded ? (
+    <KanbanBoard
+      onCreateTask={board.createTask}
+      textEditor={board.textEditor}
+      comments={board.comments}
+      labels={board.labels}
+      checklist={board.checklist}
+      onUpdateTask={board.updateTask}
+      onMoveTask={board.moveTask}
+      onDeleteTask={board.deleteTask}
+      batch={board.batch}
+      onCreateColumn={board.createColumn}
+      onUpdateColumn={board.updateColumn}
+      onMoveColumn={board.moveColumn}
+      onDeleteColumn={board.deleteColumn}
+    />
+  ) : (
+    <BoardSkeleton />
+  );
+}
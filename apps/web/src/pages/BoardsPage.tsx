@@ -0,0 +1,164 @@
+/**
+ * pages/BoardsPage.tsx — route "/"
+ *
+ * Lists every board as a card and lets the user create a new one — blank
+ * or from a template — and lists the templates they can use. Creating a
+ * board navigates straight into it.
+ */
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { LayoutGrid, LayoutTemplate, Plus, Trash2 } from 'lucide-react';
+import { useBoards, useCreateBoard } from '@/hooks/useBoards';
+import { useDeleteTemplate, useTemplates } from '@/hooks/useTemplates';
+import { useRelativeTime } from '@/hooks/useRelativeTime';
+import { useAuthStore } from '@/store/authStore';
+import type { Board, BoardTemplate } from '@/types';
+
+function BoardTile({ board }: { board: Board }) {
+  const created = useRelativeTime(board.createdAt);
+
+  return (
+    <Link
+      to={`/boards/${board.id}`}
+      className="group flex flex-col gap-2 p-4 rounded-xl bg-[var(--color-bg-card)] border border-[var(--color-border)] shadow-sm hover:shadow-md hover:border-[var(--color-border-strong)] transition-all"
+    >
+      <div className="flex items-center gap-2">
+        <LayoutGrid size={15} className="text-[var(--color-brand-600)]" />
+        <span className="text-sm font-semibold text-[var(--color-text-primary)] truncate">
+          {board.name}
+        </span>
+      </div>
+      <span className="text-[10px] text-[var(--color-text-tertiary)] font-medium">
+        Created {created}
+      </span>
+    </Link>
+  );
+}
+
+function TemplateRow({ template }: { template: BoardTemplate }) {
+  const me             = useAuthStore((s) => s.user);
+  const deleteTemplate = useDeleteTemplate();
+
+  return (
+    <li className="flex items-start gap-2 p-3 rounded-lg bg-[var(--color-bg-card)] border border-[var(--color-border)]">
+      <LayoutTemplate size={14} className="mt-0.5 text-[var(--color-text-tertiary)] flex-shrink-0" />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium text-[var(--color-text-primary)] truncate">{template.name}</p>
+        {template.description && (
+          <p className="text-xs text-[var(--color-text-secondary)] truncate">{template.description}</p>
+        )}
+        <p className="text-[11px] text-[var(--color-text-tertiary)] truncate">
+          {template.columns.join(' → ')} · {template.taskCount} {template.taskCount === 1 ? 'card' : 'cards'}
+          {template.ownerId !== me?.id ? ` · shared by ${template.ownerName ?? 'someone'}` : template.shared ? ' · shared' : ''}
+        </p>
+      </div>
+      {template.ownerId === me?.id && (
+        <button
+          onClick={() => deleteTemplate.mutate(template.id)}
+          disabled={deleteTemplate.isPending}
+          className="p-1 rounded text-[var(--color-text-tertiary)] hover:text-[var(--color-danger)] hover:bg-[var(--color-bg-secondary)] disabled:opacity-60"
+          aria-label={`Delete template ${template.name}`}
+        >
+          <Trash2 size={13} />
+        </button>
+      )}
+    </li>
+  );
+}
+
+export function BoardsPage() {
+  const navigate              = useNavigate();
+  const { data: boards, isLoading, error } = useBoards();
+  const { data: templates }   = useTemplates();
+  const createBoard           = useCreateBoard();
+  const [name, setName]       = useState('');
+  const [templateId, setTemplateId] = useState('');
+
+  function handleCreate() {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    createBoard.mutate({ name: trimmed, templateId: templateId || undefined }, {
+      onSuccess: (board) => {
+        setName('');
+        setTemplateId('');
+        navigate(`/boards/${board.id}`);
+      },
+    });
+  }
+
+  return (
+    <div className="flex-1 overflow-y-auto p-6">
+      <div className="max-w-4xl mx-auto">
+        <h1
+          className="text-lg font-bold tracking-tight text-[var(--color-text-primary)] mb-4"
+          style={{ fontFamily: 'var(--font-display)' }}
+        >
+          Boards
+        </h1>
+
+        {/* Create form */}
+        <div className="flex items-center gap-2 mb-6">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+            placeholder="New board name…"
+            maxLength={120}
+            className="flex-1 max-w-sm text-sm px-3 py-1.5 rounded-md bg-[var(--color-bg-card)] border border-[var(--color-border)] outline-none focus:border-[var(--color-accent-primary)] text-[var(--color-text-primary)] placeholder:text-[var(--color-text-tertiary)]"
+            aria-label="New board name"
+          />
+          {templates && templates.length > 0 && (
+            <select
+              value={templateId}
+              onChange={(e) => setTemplateId(e.target.value)}
+              className="text-sm px-2 py-1.5 rounded-md bg-[var(--color-bg-card)] border border-[var(--color-border)] text-[var(--color-text-primary)]"
+              aria-label="Start from"
+            >
+              <option value="">Default columns</option>
+              {templates.map((t) => <option key={t.id} value={t.id}>{t.name}</option>)}
+            </select>
+          )}
+          <button
+            onClick={handleCreate}
+            disabled={!name.trim() || createBoard.isPending}
+            className="flex items-center gap-1.5 bg-[var(--color-brand-600)] hover:bg-[var(--color-brand-700)] text-white px-3 py-1.5 rounded-md text-sm font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <Plus size={16} strokeWidth={2.5} />
+            <span>Create board</span>
+          </button>
+        </div>
+
+        {createBoard.error && (
+          <p className="text-xs text-[var(--color-danger)] mb-4">{createBoard.error.message}</p>
+        )}
+
+        {/* Board grid */}
+        {isLoading ? (
+          <p className="text-sm text-[var(--color-text-tertiary)]">Loading boards…</p>
+        ) : error ? (
+          <p className="text-sm text-[var(--color-danger)]">Failed to load boards: {error.message}</p>
+        ) : boards && boards.length > 0 ? (
+          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-3">
+            {boards.map((board) => (
+              <BoardTile key={board.id} board={board} />
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-[var(--color-text-tertiary)]">No boards yet — create one above.</p>
+        )}
+
+        {/* Templates — saved from a board's top bar */}
+        {templates && templates.length > 0 && (
+          <>
+            <h2 className="mt-8 mb-3 text-sm font-semibold text-[var(--color-text-primary)]">Templates</h2>
+            <ul className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {templates.map((template) => (
+                <TemplateRow key={template.id} template={template} />
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+/**
+ * pages/LoginPage.tsx
+ *
+ * Shown instead of the app while nobody is signed in.
+ * One form that toggles between "Sign in" and "Create account".
+ */
+import { useState } from 'react';
+import { Grid2X2 } from 'lucide-react';
+import { useLogin, useRegister } from '@/hooks/useAuth';
+
+type Mode = 'login' | 'register';
+
+const inputClass =
+  'w-full text-sm px-3 py-2 rounded-md bg-[var(--color-bg-card)] border border-[var(--color-border)] outline-none focus:border-[var(--color-accent-primary)] text-[var(--color-text-primary)] placeholder:text-[var(--color-text-tertiary)]';
+
+export function LoginPage() {
+  const [mode,        setMode]        = useState<Mode>('login');
+  const [email,       setEmail]       = useState('');
+  const [password,    setPassword]    = useState('');
+  const [displayName, setDisplayName] = useState('');
+
+  const login    = useLogin();
+  const register = useRegister();
+  const active   = mode === 'login' ? login : register;
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (mode === 'login') login.mutate({ email, password });
+    else register.mutate({ email, password, displayName: displayName.trim() });
+  }
+
+  function switchMode() {
+    setMode((m) => (m === 'login' ? 'register' : 'login'));
+    login.reset();
+    register.reset();
+  }
+
+  return (
+    <div
+      className="flex items-center justify-center h-screen p-6"
+      style={{ background: 'var(--color-bg-primary)', fontFamily: 'var(--font-body)' }}
+    >
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm flex flex-col gap-3 p-6 rounded-xl bg-[var(--color-bg-card)] border border-[var(--color-border)] shadow-sm"
+      >
+        <div className="flex items-center gap-3 mb-2 select-none">
+          <div className="w-8 h-8 rounded-lg bg-[var(--color-brand-600)] flex items-center justify-center shadow-sm ring-1 ring-black/5">
+            <Grid2X2 className="w-5 h-5 text-white" strokeWidth={2.5} />
+          </div>
+          <span
+            className="text-lg font-bold tracking-tight text-[var(--color-text-primary)]"
+            style={{ fontFamily: 'var(--font-display)' }}
+          >
+            {mode === 'login' ? 'Sign in to FlowBoard' : 'Create your account'}
+          </span>
+        </div>
+
+        {mode === 'register' && (
+          <input
+            required
+            value={displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+            placeholder="Display name"
+            maxLength={60}
+            autoComplete="nickname"
+            className={inputClass}
+            aria-label="Display name"
+          />
+        )}
+        <input
+          required
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="Email"
+          autoComplete="email"
+          className={inputClass}
+          aria-label="Email"
+        />
+        <input
+          required
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password"
+          minLength={mode === 'register' ? 8 : undefined}
+          autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+          className={inputClass}
+          aria-label="Password"
+        />
+
+        {active.error && (
+          <p className="text-xs text-[var(--color-danger)]">{active.error.message}</p>
+        )}
+
+        <button
+          type="submit"
+          disabled={active.isPending}
+          className="bg-[var(--color-brand-600)] hover:bg-[var(--color-brand-700)] text-white px-3 py-2 rounded-md text-sm font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {mode === 'login' ? 'Sign in' : 'Create account'}
+        </button>
+
+        <button
+          type="button"
+          onClick={switchMode}
+          className="text-xs text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)]"
+        >
+          {mode === 'login' ? 'No account yet? Create one' : 'Already have an account? Sign in'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+/**
+ * store/authStore.ts
+ *
+ * Zustand store for the signed-in session.
+ *
+ * The session (user + token) is persisted to localStorage so a reload keeps
+ * the user signed in. The token goes out as a Bearer header (lib/api.ts) and
+ * in the socket handshake (useWebSocket); the server rejects it once it
+ * expires, which clears the session and sends the user back to the login page.
+ */
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { Session, User } from '@/types';
+
+export interface AuthState {
+  user:  User | null;
+  token: string | null;
+}
+
+export interface AuthActions {
+  setSession:   (session: Session) => void;
+  clearSession: () => void;
+}
+
+export const useAuthStore = create<AuthState & AuthActions>()(
+  persist(
+    (set) => ({
+      user:  null,
+      token: null,
+
+      setSession:   ({ user, token }) => set({ user, token }),
+      clearSession: ()                => set({ user: null, token: null }),
+    }),
+    { name: 'flowboard:session' },
+  ),
+);
@@ -4,52 +4,127 @@
  * Zustand store for all task and board state.
  *
  * Responsibilities:
- *   - Hold the canonical list of tasks (source of truth for board UI)
+ *   - Hold the board currently joined, its columns and its canonical list of
+ *     tasks (source of truth for board UI)
  *   - Apply optimistic mutations immediately (before server confirmation)
  *   - Roll back on CONFLICT_NOTIFY
- *   - Sort tasks by `order` per column
+ *   - Apply a whole TASK_BATCH (optimistic, confirmed or rejected) in one
+ *     update, so N tasks re-render once
+ *   - Sort columns by `order` left to right, and tasks by `order` per column
+ *   - Keep this user's undo / redo stacks of task operations (lib/undo.ts)
  *
  * Zustand v5 pattern: `create` + `immer` middleware for nested mutations.
  */
 import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
-import type { Task, ColumnId } from '@/types';
+import type { BatchOp, Board, BoardColumn, BoardLabel, Task, TaskPatch, ColumnId, Role } from '@/types';
 import { orderBetween } from '@/lib/fractionalIndex';
+import type { UndoEntry } from '@/lib/undo';
+import { applyChecklistOp, type ChecklistOp } from '@/lib/checklist';
 
 // ── State shape ───────────────────────────────────────────────────────────────
 
 export interface BoardState {
+  /** The board this client's socket joined (null until BOARD_SNAPSHOT) */
+  board: Board | null;
+
+  /** This user's role on the board — drives which edit affordances render */
+  role: Role | null;
+
+  /** Active (non-archived) columns keyed by id */
+  columns: Record<ColumnId, BoardColumn>;
+
+  /** The board's label catalog keyed by id */
+  labels: Record<string, BoardLabel>;
+
   /** All tasks keyed by id for O(1) lookup */
   tasks: Record<string, Task>;
 
+  /** Comments per task id (tasks without comments are absent) */
+  commentCounts: Record<string, number>;
+
   /** Whether the board has received its first BOARD_SNAPSHOT */
   isLoaded: boolean;
 
   /** Whether socket is currently connected */
   isConnected: boolean;
+
+  /** Handshake rejection from the server (e.g. BOARD_NOT_FOUND), if any */
+  boardError: string | null;
+
+  /** This user's task operations, most recent last */
+  undoStack: UndoEntry[];
+  redoStack: UndoEntry[];
 }
 
 export interface BoardActions {
   // Lifecycle
   setConnected: (v: boolean) => void;
-  loadSnapshot: (tasks: Task[]) => void;
+  setBoardError: (code: string | null) => void;
+  loadSnapshot: (
+    board:         Board,
+    role:          Role,
+    columns:       BoardColumn[],
+    labels:        BoardLabel[],
+    tasks:         Task[],
+    commentCounts: Record<string, number>,
+  ) => void;
+  /** An admin changed this user's role (ROLE_CHANGED) */
+  setRole: (role: Role) => void;
+  /** Forget everything — called when leaving a board */
+  reset: () => void;
 
   // Optimistic mutations (applied immediately, rolled back on conflict)
   optimisticCreate:  (task: Task) => void;
-  optimisticUpdate:  (id: string, patch: Partial<Pick<Task, 'title' | 'description'>>) => void;
+  optimisticUpdate:  (id: string, patch: TaskPatch) => void;
   optimisticMove:    (id: string, columnId: ColumnId, order: number) => void;
   optimisticDelete:  (id: string) => void;
+  /** Apply one checklist op to a task's items (confirmed by CHECKLIST_UPDATED) */
+  optimisticChecklist: (taskId: string, op: ChecklistOp) => void;
+  /** Apply a TASK_BATCH's ops, in order */
+  optimisticBatch:   (ops: BatchOp[]) => void;
 
   // Server confirmations (replace optimistic with server truth)
   confirmCreate:  (task: Task) => void;
   confirmUpdate:  (task: Task) => void;
   confirmMove:    (task: Task) => void;
   confirmDelete:  (id: string) => void;
+  /** TASK_BATCH_APPLIED */
+  confirmBatch:   (tasks: Task[], deletedIds: string[]) => void;
 
-  // Conflict rollback
+  // Conflict rollback — the refused change also leaves the undo stack
   rollback: (taskId: string, resolvedState: Task) => void;
+  /** TASK_CREATE_REJECTED — withdraw the optimistic card */
+  rollbackCreate: (taskId: string) => void;
+  /** TASK_BATCH_REJECTED — `tasks` are the current state of the batch's tasks */
+  rollbackBatch: (tasks: Task[]) => void;
+
+  // Columns — optimistic + server confirmation share one shape: the server
+  // echoes the full column, which simply overwrites the optimistic copy.
+  optimisticColumn:  (column: BoardColumn) => void;
+  confirmColumn:     (column: BoardColumn) => void;
+  /** Remove an archived column and apply the relocation of its tasks */
+  confirmColumnDelete: (id: ColumnId, movedTasks: Task[]) => void;
+
+  // Labels — not optimistic, the server may refuse a duplicate name
+  confirmLabel:       (label: BoardLabel) => void;
+  /** Remove a deleted label and apply its removal from the tasks */
+  confirmLabelDelete: (id: string, updatedTasks: Task[]) => void;
+
+  /** COMMENT_CREATED (+1) / COMMENT_DELETED (-1) */
+  adjustCommentCount: (taskId: string, delta: number) => void;
+
+  // Undo / redo — recordChange is for new operations (clears redo);
+  // push* re-file entries after they were undone / redone. pop* take the
+  // last entry together with the rest of its batch (empty = nothing left)
+  recordChange: (...entries: UndoEntry[]) => void;
+  popUndo:      () => UndoEntry[];
+  popRedo:      () => UndoEntry[];
+  pushUndo:     (entries: UndoEntry[]) => void;
+  pushRedo:     (entries: UndoEntry[]) => void;
 
   // Selectors (computed, not state)
+  getColumns: () => BoardColumn[];
   getColumn: (columnId: ColumnId) => Task[];
   getTask:   (id: string) => Task | undefined;
 }
@@ -63,6 +138,37 @@ function sortedColumn(tasks: Record<string, Task>, columnId: ColumnId): Task[] {
     .sort((a, b) => a.order - b.order);
 }
 
+/** Returns active columns sorted left to right. */
+export function sortedColumns(columns: Record<ColumnId, BoardColumn>): BoardColumn[] {
+  return Object.values(columns).sort((a, b) => a.order - b.order);
+}
+
+/** Returns the label catalog sorted by name. */
+export function sortedLabels(labels: Record<string, BoardLabel>): BoardLabel[] {
+  return Object.values(labels).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Oldest undo entries are dropped beyond this depth. */
+const UNDO_LIMIT = 100;
+
+/** How many entries at the top of `stack` belong to its last step (one batch). */
+function lastStepSize(stack: UndoEntry[]): number {
+  const batchId = stack.at(-1)?.batchId;
+  if (!batchId) return stack.length > 0 ? 1 : 0;
+  let size = 0;
+  while (size < stack.length && stack[stack.length - 1 - size].batchId === batchId) size++;
+  return size;
+}
+
+/**
+ * Drop the last step of `stack` when it only touches `taskIds` — the
+ * change the server just refused, which there is nothing to undo of.
+ */
+function dropRefusedStep(stack: UndoEntry[], taskIds: Set<string>): void {
+  const size = lastStepSize(stack);
+  if (size > 0 && stack.slice(-size).every((e) => taskIds.has(e.taskId))) stack.splice(-size);
+}
+
 /** Compute next order value when appending to the bottom of a column. */
 export function nextOrderFor(tasks: Record<string, Task>, columnId: ColumnId): number {
   const col = sortedColumn(tasks, columnId);
@@ -75,9 +181,17 @@ export function nextOrderFor(tasks: Record<string, Task>, columnId: ColumnId): n
 export const useBoardStore = create<BoardState & BoardActions>()(
   immer((set, get) => ({
     // ── Initial state ──────────────────────────────────────────────────────
+    board:       null,
+    role:        null,
+    columns:     {},
+    labels:      {},
     tasks:       {},
+    commentCounts: {},
     isLoaded:    false,
     isConnected: false,
+    boardError:  null,
+    undoStack:   [],
+    redoStack:   [],
 
     // ── Lifecycle ──────────────────────────────────────────────────────────
 
@@ -86,11 +200,44 @@ export const useBoardStore = create<BoardState & BoardActions>()(
         s.isConnected = v;
       }),
 
-    loadSnapshot: (tasks) =>
+    setBoardError: (code) =>
       set((s) => {
-        s.tasks = {};
+        s.boardError = code;
+      }),
+
+    loadSnapshot: (board, role, columns, labels, tasks, commentCounts) =>
+      set((s) => {
+        s.board   = board;
+        s.role    = role;
+        s.columns = {};
+        for (const c of columns) s.columns[c.id] = c;
+        s.labels  = {};
+        for (const l of labels) s.labels[l.id] = l;
+        s.tasks   = {};
         for (const t of tasks) s.tasks[t.id] = t;
-        s.isLoaded = true;
+        s.commentCounts = commentCounts;
+        s.isLoaded   = true;
+        s.boardError = null;
+      }),
+
+    setRole: (role) =>
+      set((s) => {
+        s.role = role;
+      }),
+
+    reset: () =>
+      set((s) => {
+        s.board       = null;
+        s.role        = null;
+        s.columns     = {};
+        s.labels      = {};
+        s.tasks       = {};
+        s.commentCounts = {};
+        s.isLoaded    = false;
+        s.isConnected = false;
+        s.boardError  = null;
+        s.undoStack   = [];
+        s.redoStack   = [];
       }),
 
     // ── Optimistic mutations ───────────────────────────────────────────────
@@ -119,6 +266,37 @@ export const useBoardStore = create<BoardState & BoardActions>()(
         delete s.tasks[id];
       }),
 
+    optimisticChecklist: (taskId, op) =>
+      set((s) => {
+        const task = s.tasks[taskId];
+        if (!task) return;
+        task.checklist = applyChecklistOp(task.checklist, op);
+        task.updatedAt = new Date().toISOString();
+      }),
+
+    optimisticBatch: (ops) =>
+      set((s) => {
+        const now = new Date().toISOString();
+        for (const op of ops) {
+          const task = s.tasks[op.payload.id];
+          if (!task) continue;
+          switch (op.type) {
+            case 'move':
+              task.columnId = op.payload.columnId;
+              task.order    = op.payload.order;
+              task.updatedAt = now;
+              break;
+            case 'update':
+              // Its id and version are the task's own
+              Object.assign(task, op.payload, { updatedAt: now });
+              break;
+            case 'delete':
+              delete s.tasks[op.payload.id];
+              break;
+          }
+        }
+      }),
+
     // ── Server confirmations (replace with server state) ───────────────────
 
     confirmCreate:  (task) => set((s) => { s.tasks[task.id] = task; }),
@@ -126,15 +304,99 @@ export const useBoardStore = create<BoardState & BoardActions>()(
     confirmMove:    (task) => set((s) => { s.tasks[task.id] = task; }),
     confirmDelete:  (id)   => set((s) => { delete s.tasks[id]; }),
 
+    confirmBatch: (tasks, deletedIds) =>
+      set((s) => {
+        for (const t of tasks) s.tasks[t.id] = t;
+        for (const id of deletedIds) delete s.tasks[id];
+      }),
+
     // ── Conflict rollback ──────────────────────────────────────────────────
 
     rollback: (taskId, resolvedState) =>
       set((s) => {
         s.tasks[taskId] = resolvedState;
+        dropRefusedStep(s.undoStack, new Set([taskId]));
+      }),
+
+    rollbackCreate: (taskId) =>
+      set((s) => {
+        delete s.tasks[taskId];
+        dropRefusedStep(s.undoStack, new Set([taskId]));
+      }),
+
+    rollbackBatch: (tasks) =>
+      set((s) => {
+        for (const t of tasks) s.tasks[t.id] = t;
+        dropRefusedStep(s.undoStack, new Set(tasks.map((t) => t.id)));
+      }),
+
+    // ── Columns ────────────────────────────────────────────────────────────
+
+    optimisticColumn: (column) => set((s) => { s.columns[column.id] = column; }),
+
+    confirmColumn: (column) =>
+      set((s) => {
+        if (column.archivedAt) delete s.columns[column.id];
+        else s.columns[column.id] = column;
+      }),
+
+    confirmColumnDelete: (id, movedTasks) =>
+      set((s) => {
+        delete s.columns[id];
+        for (const t of movedTasks) s.tasks[t.id] = t;
       }),
 
+    // ── Labels ─────────────────────────────────────────────────────────────
+
+    confirmLabel: (label) =>
+      set((s) => {
+        s.labels[label.id] = label;
+      }),
+
+    confirmLabelDelete: (id, updatedTasks) =>
+      set((s) => {
+        delete s.labels[id];
+        for (const t of updatedTasks) s.tasks[t.id] = t;
+      }),
+
+    // ── Comments ───────────────────────────────────────────────────────────
+
+    adjustCommentCount: (taskId, delta) =>
+      set((s) => {
+        const count = (s.commentCounts[taskId] ?? 0) + delta;
+        if (count > 0) s.commentCounts[taskId] = count;
+        else delete s.commentCounts[taskId];
+      }),
+
+    // ── Undo / redo ────────────────────────────────────────────────────────
+
+    recordChange: (...entries) =>
+      set((s) => {
+        s.undoStack.push(...entries);
+        if (s.undoStack.length > UNDO_LIMIT) s.undoStack.splice(0, s.undoStack.length - UNDO_LIMIT);
+        s.redoStack = [];
+      }),
+
+    popUndo: () => {
+      const stack   = get().undoStack;
+      const entries = stack.slice(stack.length - lastStepSize(stack));
+      if (entries.length > 0) set((s) => { s.undoStack.splice(-entries.length); });
+      return entries;
+    },
+
+    popRedo: () => {
+      const stack   = get().redoStack;
+      const entries = stack.slice(stack.length - lastStepSize(stack));
+      if (entries.length > 0) set((s) => { s.redoStack.splice(-entries.length); });
+      return entries;
+    },
+
+    pushUndo: (entries) => set((s) => { s.undoStack.push(...entries); }),
+    pushRedo: (entries) => set((s) => { s.redoStack.push(...entries); }),
+
     // ── Selectors (inline, stable via Zustand) ─────────────────────────────
 
+    getColumns: ()         => sortedColumns(get().columns),
     getColumn:  (columnId) => sortedColumn(get().tasks, columnId),
     getTask:    (id)       => get().tasks[id],
   })),
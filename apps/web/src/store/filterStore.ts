@@ -0,0 +1,141 @@
+/**
+ * store/filterStore.ts
+ *
+ * Which tasks the board shows. Filters are a per-user view setting — they
+ * never reach the server, survive switching boards and are cleared on
+ * sign-out (useLogout). Search is the exception: the query lives in the URL
+ * (`?q=`), runs server-side (BoardSearch) and only its hits are kept here.
+ *
+ * Filtering only hides cards, and sorting only changes the order they are
+ * shown in: column positions, undo and drag-and-drop still work on the full
+ * task list in boardStore. Sort and swimlane grouping are set by hand or
+ * by applying a saved view (applyView, ViewsMenu).
+ */
+import { create } from 'zustand';
+import { immer } from 'zustand/middleware/immer';
+import { dueState } from '@/lib/dueDates';
+import { compareTasks } from '@/lib/views';
+import type { BoardView, GroupBy, SearchHit, SortDirection, SortField, Task } from '@/types';
+
+/** Due-date filter — `soon` includes overdue tasks */
+export type DueFilter = 'all' | 'overdue' | 'soon' | 'none';
+
+export interface FilterState {
+  /** Only tasks assigned to the signed-in user */
+  mineOnly: boolean;
+  /** Only tasks carrying at least one of these labels (empty = any) */
+  labelIds: string[];
+  due:      DueFilter;
+  /** Order of each column's cards — 'position' is the board order */
+  sortField:     SortField;
+  sortDirection: SortDirection;
+  /** Swimlanes across the columns */
+  groupBy:       GroupBy;
+  /** Ids of the tasks matching the search, with their highlights (null = not searching) */
+  searchHits: Record<string, SearchHit['highlights']> | null;
+}
+
+export interface FilterActions {
+  setMineOnly: (mineOnly: boolean) => void;
+  toggleLabel: (labelId: string) => void;
+  /** The label was deleted (LABEL_DELETED) — stop filtering on it */
+  dropLabel:   (labelId: string) => void;
+  setDue:      (due: DueFilter) => void;
+  setSort:     (sortField: SortField, sortDirection?: SortDirection) => void;
+  setGroupBy:  (groupBy: GroupBy) => void;
+  /** Take over a saved view's sort and grouping (its query runs as a search) */
+  applyView:   (view: Pick<BoardView, 'sortField' | 'sortDirection' | 'groupBy'>) => void;
+  setSearchHits: (hits: SearchHit[] | null) => void;
+  reset:       () => void;
+}
+
+const initialState: FilterState = {
+  mineOnly: false,
+  labelIds: [],
+  due:      'all',
+  sortField:     'position',
+  sortDirection: 'asc',
+  groupBy:       'none',
+  searchHits: null,
+};
+
+export const useFilterStore = create<FilterState & FilterActions>()(
+  immer((set) => ({
+    ...initialState,
+
+    setMineOnly: (mineOnly) =>
+      set((s) => { s.mineOnly = mineOnly; }),
+
+    toggleLabel: (labelId) =>
+      set((s) => {
+        s.labelIds = s.labelIds.includes(labelId)
+          ? s.labelIds.filter((id) => id !== labelId)
+          : [...s.labelIds, labelId];
+      }),
+
+    dropLabel: (labelId) =>
+      set((s) => { s.labelIds = s.labelIds.filter((id) => id !== labelId); }),
+
+    setDue: (due) =>
+      set((s) => { s.due = due; }),
+
+    setSort: (sortField, sortDirection = 'asc') =>
+      set((s) => { s.sortField = sortField; s.sortDirection = sortDirection; }),
+
+    setGroupBy: (groupBy) =>
+      set((s) => { s.groupBy = groupBy; }),
+
+    applyView: (view) =>
+      set((s) => {
+        s.sortField     = view.sortField;
+        s.sortDirection = view.sortDirection;
+        s.groupBy       = view.groupBy;
+      }),
+
+    setSearchHits: (hits) =>
+      set((s) => {
+        s.searchHits = hits && Object.fromEntries(hits.map((hit) => [hit.task.id, hit.highlights]));
+      }),
+
+    reset: () =>
+      set((s) => { Object.assign(s, initialState); }),
+  })),
+);
+
+// ── Pure helpers ──────────────────────────────────────────────────────────────
+
+/** True when any filter is narrowing the board. */
+export function isFiltering(filters: FilterState): boolean {
+  return filters.mineOnly || filters.labelIds.length > 0 || filters.due !== 'all' || filters.searchHits !== null;
+}
+
+/** Whether a task's due date passes the due filter at `now` (`done` — it sits in a done column). */
+function matchesDue(task: Task, due: DueFilter, now: number, done: boolean): boolean {
+  if (due === 'all')  return true;
+  if (due === 'none') return !task.dueAt;
+  const state = dueState(task.dueAt, now, done);
+  return state === 'overdue' || (due === 'soon' && state === 'soon');
+}
+
+/**
+ * The tasks of one column that pass `filters`, in display order — their
+ * original order unless sorted otherwise. `now` and `done` (the column is
+ * a done column) decide what counts as overdue.
+ */
+export function filterTasks(
+  tasks:   Task[],
+  filters: FilterState,
+  userId:  string | undefined,
+  now:     number,
+  done   = false,
+): Task[] {
+  const shown = !isFiltering(filters) ? tasks : tasks.filter((t) =>
+    (!filters.mineOnly || (userId !== undefined && t.assigneeIds.includes(userId))) &&
+    (filters.labelIds.length === 0 || t.labelIds.some((id) => filters.labelIds.includes(id))) &&
+    matchesDue(t, filters.due, now, done) &&
+    (filters.searchHits === null || t.id in filters.searchHits),
+  );
+  return filters.sortField === 'position' && filters.sortDirection === 'asc'
+    ? shown
+    : [...shown].sort(compareTasks(filters.sortField, filters.sortDirection));
+}
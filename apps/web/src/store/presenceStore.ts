@@ -10,7 +10,7 @@ import { immer } from 'zustand/middleware/immer';
 import type { UserPresence } from '@/types';
 
 export interface PresenceState {
-  /** All currently connected users, keyed by userId (= socketId) */
+  /** All currently connected users, keyed by userId (users.id — one entry per user, however many tabs) */
   users: Record<string, UserPresence>;
 
   /** This client's own presence entry (null until server sends BOARD_SNAPSHOT) */
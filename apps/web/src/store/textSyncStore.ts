@@ -0,0 +1,136 @@
+/**
+ * store/textSyncStore.ts
+ *
+ * Zustand store for the collaborative text sessions (lib/textSync.ts) of the
+ * task cards this user is editing — one session per task field, keyed
+ * `${taskId}:${field}`.
+ *
+ * Kept separate from boardStore: every keystroke lands here, and only the
+ * card being edited subscribes to it.
+ */
+import { create } from 'zustand';
+import { immer } from 'zustand/middleware/immer';
+import {
+  localEdit,
+  openSession,
+  serverOp,
+  type IncomingTextOp,
+  type OutgoingTextOp,
+  type TextSession,
+} from '@/lib/textSync';
+import type { Task, TextField } from '@/types';
+
+const TEXT_FIELDS: TextField[] = ['title', 'description'];
+
+export const sessionKey = (taskId: string, field: TextField): string => `${taskId}:${field}`;
+
+export interface TextSyncState {
+  sessions: Record<string, TextSession>;
+  /**
+   * Sessions whose card stopped editing while an op was still in flight —
+   * kept until the server has everything (the ack releases the buffer).
+   */
+  closing:  Record<string, true>;
+}
+
+export interface TextSyncActions {
+  /** Start editing a task — opens a session for each text field */
+  open:    (task: Task) => void;
+  /** Stop editing a task — sessions with ops in flight drain first */
+  close:   (taskId: string) => void;
+  /** The input now reads `text`. Returns the op to send, if any. */
+  edit:    (taskId: string, field: TextField, text: string) => OutgoingTextOp | null;
+  /** A TASK_TEXT_EDITED arrived. Returns the buffered op to send next, if any. */
+  receive: (event: IncomingTextOp & { task: Task }) => OutgoingTextOp | null;
+  /**
+   * The task changed outside the op stream (TASK_UPDATED) or the server
+   * rejected our op (TASK_TEXT_RESYNC, `force`) — restart from its text.
+   */
+  resync:  (task: Task, force?: boolean) => void;
+  reset:   () => void;
+}
+
+export const useTextSyncStore = create<TextSyncState & TextSyncActions>()(
+  immer((set, get) => ({
+    sessions: {},
+    closing:  {},
+
+    open: (task) =>
+      set((s) => {
+        for (const field of TEXT_FIELDS) {
+          const key = sessionKey(task.id, field);
+          // A draining session still has our last keystrokes — pick it back up
+          if (s.closing[key]) delete s.closing[key];
+          else s.sessions[key] = openSession(task, field);
+        }
+      }),
+
+    close: (taskId) =>
+      set((s) => {
+        for (const field of TEXT_FIELDS) {
+          const key = sessionKey(taskId, field);
+          if (s.sessions[key]?.outstanding) s.closing[key] = true;
+          else delete s.sessions[key];
+        }
+      }),
+
+    edit: (taskId, field, text) => {
+      const key     = sessionKey(taskId, field);
+      const session = get().sessions[key];
+      if (!session) return null;
+
+      const [next, outgoing] = localEdit(session, text);
+      set((s) => { s.sessions[key] = next; });
+      return outgoing;
+    },
+
+    receive: (event) => {
+      const outgoing: OutgoingTextOp[] = [];
+      set((s) => {
+        for (const field of TEXT_FIELDS) {
+          const key     = sessionKey(event.task.id, field);
+          const session = get().sessions[key];
+          if (!session) continue;
+
+          // Without a result the session missed an op — the broadcast task
+          // is the server's text after it
+          const result = serverOp(session, event);
+          const next   = result ? result[0] : openSession(event.task, field);
+          if (result?.[1]) outgoing.push(result[1]);
+
+          if (s.closing[key] && !next.outstanding) {
+            delete s.sessions[key];
+            delete s.closing[key];
+          } else {
+            s.sessions[key] = next;
+          }
+        }
+      });
+      // At most one session owned the acknowledged op
+      return outgoing[0] ?? null;
+    },
+
+    resync: (task, force = false) =>
+      set((s) => {
+        for (const field of TEXT_FIELDS) {
+          const key     = sessionKey(task.id, field);
+          const session = s.sessions[key];
+          if (!session) continue;
+          if (!force && session.revision === (task.textRevision ?? 0)) continue;
+
+          if (s.closing[key]) {
+            delete s.sessions[key];
+            delete s.closing[key];
+          } else {
+            s.sessions[key] = openSession(task, field);
+          }
+        }
+      }),
+
+    reset: () =>
+      set((s) => {
+        s.sessions = {};
+        s.closing  = {};
+      }),
+  })),
+);
@@ -3,31 +3,268 @@
 // Auto-synced with CONTEXT.md — do NOT rename these types.
 // ─────────────────────────────────────────────────────────────────────────────
 
-export type ColumnId = 'todo' | 'in-progress' | 'done';
+export type ColumnId = string;   // uuid v4 of a BoardColumn
+
+export interface User {
+  id: string;           // uuid v4 — stable across sessions and devices
+  email: string;
+  displayName: string;
+  color: string;        // hex, attribution colour for the user's tasks
+  createdAt: string;    // ISO 8601
+}
+
+/** Returned by /api/auth/register and /api/auth/login */
+export interface Session {
+  user: User;
+  token: string;        // signed session token (Bearer / socket handshake)
+}
+
+/** Board role — see lib/permissions.ts for what each one may do */
+export type Role = 'viewer' | 'editor' | 'admin';
+
+export interface BoardMember {
+  userId: string;       // users.id
+  displayName: string;
+  email: string;
+  color: string;
+  role: Role;
+  joinedAt: string;     // ISO 8601
+}
+
+export interface Board {
+  id: string;           // uuid v4
+  name: string;
+  createdAt: string;    // ISO 8601
+  updatedAt: string;    // ISO 8601
+}
+
+/** A board's columns, labels and starter cards, to create boards from */
+export interface BoardTemplate {
+  id: string;
+  ownerId: string;      // users.id — only the owner may delete it
+  ownerName?: string;
+  name: string;
+  description: string;
+  shared: boolean;      // usable by every user, not only the owner
+  columns: string[];    // column titles, left to right
+  taskCount: number;
+  createdAt: string;    // ISO 8601
+  updatedAt: string;    // ISO 8601
+}
+
+export interface BoardColumn {
+  id: ColumnId;
+  boardId: string;
+  title: string;
+  color: string;        // hex, #RRGGBB
+  order: number;        // fractional index, left to right
+  isDone: boolean;      // tasks here count as finished
+  wipLimit?: number;    // most tasks the column may hold — unset = no limit
+  version: number;
+  archivedAt?: string;  // ISO 8601 — set once the column is deleted
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Entry of a board's label catalog */
+export interface BoardLabel {
+  id: string;           // uuid v4 — chosen by the client on LABEL_CREATE
+  boardId: string;
+  name: string;         // unique per board, ignoring case
+  color: string;        // hex, #RRGGBB
+  createdAt: string;    // ISO 8601
+  updatedAt: string;    // ISO 8601
+}
+
+/** Checkable step of a task's checklist — see lib/checklist.ts */
+export interface ChecklistItem {
+  id: string;           // uuid v4 — chosen by the client on CHECKLIST_ITEM_ADD
+  text: string;
+  done: boolean;
+  order: number;        // fractional index within the checklist
+}
+
+/** Task priority — `none` is the default */
+export type TaskPriority = 'urgent' | 'high' | 'medium' | 'low' | 'none';
 
 export interface Task {
   id: string;           // uuid v4
+  boardId: string;      // board the task belongs to
   columnId: ColumnId;
   title: string;
   description: string;
   order: number;        // fractional index
+  assigneeIds: string[]; // users.id of assigned board members
+  labelIds: string[];   // BoardLabel ids
+  blockedByIds: string[]; // ids of tasks of the board that block this one
+  startAt?: string | null; // ISO 8601 — unset (or null after clearing) = no start date
+  dueAt?: string | null;   // ISO 8601 — unset (or null after clearing) = no due date
+  priority: TaskPriority;
+  estimate?: number | null; // story points — unset (or null after clearing) = not estimated
+  checklist: ChecklistItem[]; // sorted by order
   createdAt: string;    // ISO 8601
   updatedAt: string;    // ISO 8601
   version: number;      // optimistic lock counter
+  creatorId?: string;   // users.id — set by the server
   creatorName?: string;
   creatorColor?: string;
+  updatedById?: string; // users.id — set by the server
   updatedByName?: string;
   updatedByColor?: string;
+  deletedAt?: string;   // ISO 8601 — set while the task is in the trash
+  textRevision?: number; // text ops applied to title / description (TASK_TEXT_EDIT)
 }
 
+/** Content fields a TASK_UPDATE changes — position goes through TASK_MOVE */
+export type TaskPatch = Partial<Pick<Task, 'title' | 'description' | 'assigneeIds' | 'labelIds' | 'blockedByIds' | 'startAt' | 'dueAt'
+  | 'priority' | 'estimate'
+>>;
+
+// ── Comments ──────────────────────────────────────────────────────────────────
+
+export interface TaskComment {
+  id: string;           // uuid v4 — chosen by the client on COMMENT_CREATE
+  taskId: string;
+  boardId: string;
+  authorId: string | null; // users.id (null once the account is deleted)
+  authorName?: string;
+  authorColor?: string;
+  body: string;
+  createdAt: string;    // ISO 8601
+  updatedAt: string;    // ISO 8601 — later than createdAt once edited
+}
+
+// ── Collaborative text ────────────────────────────────────────────────────────
+
+/** Task fields edited character by character — see lib/textSync.ts */
+export type TextField = 'title' | 'description';
+
+/**
+ * Text operation (lib/textOt.ts): n > 0 retains n characters, n < 0 deletes
+ * -n characters, a string inserts it.
+ */
+export type TextOp = (number | string)[];
+
+// ── History ───────────────────────────────────────────────────────────────────
+
+export type TaskEventType = 'created' | 'updated' | 'moved' | 'deleted' | 'restored';
+
+/** Fields recorded in a TaskEvent diff */
+export type TrackedField =
+  | 'title' | 'description' | 'columnId' | 'order' | 'assigneeIds' | 'labelIds' | 'startAt' | 'dueAt'
+  | 'priority' | 'estimate' | 'blockedByIds';
+
+export interface FieldChange {
+  from: unknown;        // null for created tasks
+  to: unknown;          // null for deleted tasks
+}
+
+/** One row of a task's change history (GET /api/tasks/:id/history) */
+export interface TaskEvent {
+  id: string;
+  taskId: string;
+  boardId: string;
+  type: TaskEventType;
+  actorId: string | null;
+  actorName?: string;
+  actorColor?: string;
+  version: number;      // task version after the change
+  diff: Partial<Record<TrackedField, FieldChange>>;
+  occurredAt: string;   // ISO 8601
+}
+
+/** [start, end) of a matched stretch of text */
+export type TextRange = [number, number];
+
+/** One result of GET /api/tasks/search — the task plus where its text matched */
+export interface SearchHit {
+  task: Task;
+  highlights: {
+    title: TextRange[];
+    description: TextRange[];
+  };
+}
+
+// ── Saved views ───────────────────────────────────────────────────────────────
+
+export type SortField = 'position' | 'updated' | 'created' | 'due' | 'priority' | 'title';
+export type SortDirection = 'asc' | 'desc';
+
+/** Swimlane grouping — 'none' shows plain columns */
+export type GroupBy = 'none' | 'assignee' | 'label' | 'priority' | 'creator' | 'updater';
+
+/** A saved search + sort + grouping (GET /api/boards/:boardId/views) */
+export interface BoardView {
+  id: string;
+  boardId: string;
+  ownerId: string;      // users.id — only the owner may change it
+  ownerName?: string;
+  name: string;
+  query: string;        // board search query, e.g. 'column:todo updated:<7d'
+  sortField: SortField;
+  sortDirection: SortDirection;
+  groupBy: GroupBy;
+  shared: boolean;      // visible to every member of the board
+  createdAt: string;    // ISO 8601
+  updatedAt: string;    // ISO 8601
+}
+
+/** Body of POST / PATCH /api/boards/:boardId/views */
+export type ViewPayload = Pick<BoardView, 'name' | 'query' | 'sortField' | 'sortDirection' | 'groupBy' | 'shared'>;
+
 export interface UserPresence {
-  userId: string;
+  userId: string;       // users.id
+  boardId: string;
   displayName: string;
   color: string;        // hex, randomly assigned on connect
   editingTaskId?: string;
   connectedAt: string;
 }
 
+// ── Batches ───────────────────────────────────────────────────────────────────
+
+/** Fields a TASK_BATCH edit may set — title, description and blockers have their own events */
+export type BatchPatch = Pick<TaskPatch, 'assigneeIds' | 'labelIds' | 'startAt' | 'dueAt' | 'priority' | 'estimate'>;
+
+/** One op of a TASK_BATCH — applied all or nothing with the others, in order */
+export type BatchOp =
+  | { type: 'move'; payload: { id: string; columnId: ColumnId; order: number; version: number } }
+  | { type: 'update'; payload: BatchPatch & { id: string; version: number } }
+  | { type: 'delete'; payload: { id: string } };
+
+// ── Import ────────────────────────────────────────────────────────────────────
+
+export type ImportSource = 'trello' | 'jira' | 'csv';
+
+/** Header of the CSV column holding each task field (csv imports) */
+export interface CsvMapping {
+  title:        string;
+  column?:      string;
+  description?: string;
+  priority?:    string;
+  labels?:      string;
+  startAt?:     string;
+  dueAt?:       string;
+  estimate?:    string;
+}
+
+/** Body of POST /api/boards/:boardId/import and /import/preview */
+export interface ImportRequest {
+  source:   ImportSource;
+  content:  string;
+  mapping?: CsvMapping;
+}
+
+/** Dry run of an import — nothing is created until it is confirmed */
+export interface ImportPreview {
+  columns:   Array<{ title: string; isNew: boolean; count: number; sample: string[] }>;
+  labels:    Array<{ name: string; isNew: boolean }>;
+  taskCount: number;
+  warnings:  string[];
+  headers?:  string[];   // csv only
+  mapping?:  CsvMapping; // csv only — the one used, guessed when not sent
+}
+
 // ── Offline Queue ─────────────────────────────────────────────────────────────
 
 export interface QueuedOp {
@@ -43,17 +280,43 @@ export type ClientEventType =
   | 'TASK_UPDATE'
   | 'TASK_MOVE'
   | 'TASK_DELETE'
+  | 'TASK_RESTORE'
+  | 'TASK_TEXT_EDIT'
+  | 'TASK_BATCH'
+  | 'COLUMN_CREATE'
+  | 'COLUMN_UPDATE'
+  | 'COLUMN_MOVE'
+  | 'COLUMN_DELETE'
+  | 'COMMENT_CREATE'
+  | 'COMMENT_UPDATE'
+  | 'COMMENT_DELETE'
+  | 'LABEL_CREATE'
+  | 'LABEL_UPDATE'
+  | 'LABEL_DELETE'
+  | 'CHECKLIST_ITEM_ADD'
+  | 'CHECKLIST_ITEM_UPDATE'
+  | 'CHECKLIST_ITEM_MOVE'
+  | 'CHECKLIST_ITEM_DELETE'
   | 'REPLAY_OPS'
   | 'PRESENCE_UPDATE';
 
 export type ClientEvent =
   | {
       type: 'TASK_CREATE';
-      payload: { columnId: ColumnId; title: string; description?: string };
+      payload: {
+        columnId: ColumnId; title: string; description?: string; order?: number;
+        assigneeIds?: string[]; labelIds?: string[]; blockedByIds?: string[];
+        startAt?: string | null; dueAt?: string | null; priority?: TaskPriority; estimate?: number | null;
+      };
     }
   | {
       type: 'TASK_UPDATE';
-      payload: { id: string; title?: string; description?: string; version: number };
+      payload: {
+        id: string; title?: string; description?: string;
+        assigneeIds?: string[]; labelIds?: string[]; blockedByIds?: string[];
+        startAt?: string | null; dueAt?: string | null; priority?: TaskPriority; estimate?: number | null;
+        version: number;
+      };
     }
   | {
       type: 'TASK_MOVE';
@@ -63,6 +326,76 @@ export type ClientEvent =
       type: 'TASK_DELETE';
       payload: { id: string };
     }
+  | {
+      type: 'TASK_RESTORE';
+      payload: { id: string };
+    }
+  | {
+      type: 'TASK_TEXT_EDIT';
+      payload: { id: string; field: TextField; revision: number; op: TextOp; opId: string };
+    }
+  | {
+      type: 'TASK_BATCH';
+      payload: { ops: BatchOp[] };
+    }
+  | {
+      type: 'COLUMN_CREATE';
+      payload: { id: ColumnId; title: string; color?: string; isDone?: boolean; wipLimit?: number };
+    }
+  | {
+      type: 'COLUMN_UPDATE';
+      payload: {
+        id: ColumnId; title?: string; color?: string; isDone?: boolean; wipLimit?: number | null; version: number;
+      };
+    }
+  | {
+      type: 'COLUMN_MOVE';
+      payload: { id: ColumnId; order: number; version: number };
+    }
+  | {
+      type: 'COLUMN_DELETE';
+      payload: { id: ColumnId; targetColumnId?: ColumnId };
+    }
+  | {
+      type: 'COMMENT_CREATE';
+      payload: { id: string; taskId: string; body: string };
+    }
+  | {
+      type: 'COMMENT_UPDATE';
+      payload: { id: string; body: string };
+    }
+  | {
+      type: 'COMMENT_DELETE';
+      payload: { id: string };
+    }
+  | {
+      type: 'LABEL_CREATE';
+      payload: { id: string; name: string; color?: string };
+    }
+  | {
+      type: 'LABEL_UPDATE';
+      payload: { id: string; name?: string; color?: string };
+    }
+  | {
+      type: 'LABEL_DELETE';
+      payload: { id: string };
+    }
+  | {
+      type: 'CHECKLIST_ITEM_ADD';
+      payload: { taskId: string; id: string; text: string; order?: number };
+    }
+  | {
+      type: 'CHECKLIST_ITEM_UPDATE';
+      payload: { taskId: string; id: string; text?: string; done?: boolean };
+    }
+  | {
+      type: 'CHECKLIST_ITEM_MOVE';
+      payload: { taskId: string; id: string; order: number };
+    }
+  | {
+      type: 'CHECKLIST_ITEM_DELETE';
+      payload: { taskId: string; id: string };
+    }
   | {
       type: 'REPLAY_OPS';
       payload: QueuedOp[];
@@ -77,7 +410,27 @@ export type ClientEvent =
 export type ServerEvent =
   | {
       type: 'BOARD_SNAPSHOT';
-      payload: { tasks: Task[]; presence: UserPresence[] };
+      payload: {
+        board: Board;
+        role: Role;
+        columns: BoardColumn[];
+        labels: BoardLabel[];
+        tasks: Task[];
+        presence: UserPresence[];
+        commentCounts: Record<string, number>; // taskId → comments (commented tasks only)
+      };
+    }
+  | {
+      type: 'ROLE_CHANGED';
+      payload: { role: Role };
+    }
+  | {
+      type: 'MEMBERS_CHANGED';
+      payload: { boardId: string };
+    }
+  | {
+      type: 'VIEWS_CHANGED';
+      payload: { boardId: string };
     }
   | {
       type: 'TASK_CREATED';
@@ -95,6 +448,86 @@ export type ServerEvent =
       type: 'TASK_DELETED';
       payload: { id: string };
     }
+  | {
+      type: 'TASK_RESTORED';
+      payload: Task;
+    }
+  | {
+      type: 'TASK_TEXT_EDITED';
+      payload: { task: Task; field: TextField; revision: number; op: TextOp; opId: string };
+    }
+  | {
+      type: 'TASK_TEXT_RESYNC';
+      payload: Task;
+    }
+  | {
+      type: 'TASK_CREATE_REJECTED';
+      payload: { id: string; message: string };
+    }
+  | {
+      type: 'TASK_BATCH_APPLIED';
+      payload: { tasks: Task[]; deletedIds: string[] };
+    }
+  | {
+      type: 'TASK_BATCH_REJECTED';
+      payload: { tasks: Task[]; message: string };
+    }
+  | {
+      type: 'COLUMN_CREATED';
+      payload: BoardColumn;
+    }
+  | {
+      type: 'COLUMN_UPDATED';
+      payload: BoardColumn;
+    }
+  | {
+      type: 'COLUMN_MOVED';
+      payload: BoardColumn;
+    }
+  | {
+      type: 'COLUMN_DELETED';
+      payload: { id: ColumnId; movedTasks: Task[] };
+    }
+  | {
+      type: 'COMMENT_CREATED';
+      payload: TaskComment;
+    }
+  | {
+      type: 'COMMENT_UPDATED';
+      payload: TaskComment;
+    }
+  | {
+      type: 'COMMENT_DELETED';
+      payload: { id: string; taskId: string };
+    }
+  | {
+      type: 'LABEL_CREATED';
+      payload: BoardLabel;
+    }
+  | {
+      type: 'LABEL_UPDATED';
+      payload: BoardLabel;
+    }
+  | {
+      type: 'LABEL_DELETED';
+      payload: { id: string; updatedTasks: Task[] };
+    }
+  | {
+      type: 'CHECKLIST_UPDATED';
+      payload: Task;
+    }
+  | {
+      type: 'IMPORT_PROGRESS';
+      payload: { jobId: string; status: 'running' | 'done' | 'failed'; done: number; total: number; message?: string };
+    }
+  | {
+      type: 'TASK_BLOCKED_WARNING';
+      payload: { taskId: string; title: string; blockers: Array<{ id: string; title: string }> };
+    }
+  | {
+      type: 'TASK_DUE_SOON';
+      payload: { taskId: string; title: string; dueAt: string; assigneeIds: string[] };
+    }
   | {
       type: 'CONFLICT_NOTIFY';
       payload: { taskId: string; resolvedState: Task; message: string };